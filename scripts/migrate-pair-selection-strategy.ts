@@ -0,0 +1,45 @@
+/**
+ * Carry Study.pairSelectionStrategy over into Study.matchmakingConfig
+ *
+ * matchmakingConfig replaced the pairSelectionStrategy column, and
+ * `prisma db push` drops the old column. Studies set to information_gain
+ * would silently fall back to coverage-first, so run this BEFORE pushing the
+ * schema: it adds the matchmakingConfig column and stores
+ * {"strategy": "adaptive"} (the same information-gain pair selection) for
+ * those studies. Studies that already have a matchmakingConfig are left alone,
+ * so it is safe to run more than once.
+ *
+ * Run with: npx tsx scripts/migrate-pair-selection-strategy.ts
+ */
+
+import { prisma } from '../src/lib/db';
+
+async function main() {
+  const columns = await prisma.$queryRaw<{ column_name: string }[]>`
+    SELECT column_name FROM information_schema.columns
+    WHERE table_name = 'Study' AND column_name = 'pairSelectionStrategy'
+  `;
+  if (columns.length === 0) {
+    console.log('No pairSelectionStrategy column, nothing to migrate');
+    return;
+  }
+
+  await prisma.$executeRaw`
+    ALTER TABLE "Study"
+    ADD COLUMN IF NOT EXISTS "matchmakingConfig" JSONB
+  `;
+  console.log('✓ matchmakingConfig column added (or already exists)');
+
+  const updated = await prisma.$executeRaw`
+    UPDATE "Study"
+    SET "matchmakingConfig" = '{"strategy": "adaptive"}'::jsonb
+    WHERE "pairSelectionStrategy" = 'information_gain'
+      AND "matchmakingConfig" IS NULL
+  `;
+  console.log(`✓ ${updated} information_gain studies moved to the adaptive strategy`);
+  console.log('\nNow run: npx prisma db push');
+}
+
+main()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
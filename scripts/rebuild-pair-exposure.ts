@@ -0,0 +1,34 @@
+/**
+ * Rebuild the global PairExposure counts used by matchmaking from the
+ * real comparisons of one study (or every study).
+ *
+ * Needed once for studies with votes recorded before PairExposure existed,
+ * and after scripts that delete real comparisons directly.
+ *
+ * Run with: npx tsx scripts/rebuild-pair-exposure.ts [studyId]
+ */
+
+import { prisma } from '../src/lib/db';
+import { rebuildPairExposure } from '../src/lib/matchmaking/exposure';
+
+async function main() {
+  const studyId = process.argv[2];
+  const studies = await prisma.study.findMany({
+    where: studyId ? { id: studyId } : {},
+    select: { id: true, title: true },
+  });
+
+  if (studies.length === 0) {
+    console.log(studyId ? `Study ${studyId} not found` : 'No studies found');
+    return;
+  }
+
+  for (const study of studies) {
+    const pairs = await rebuildPairExposure(study.id);
+    console.log(`✓ ${study.title}: ${pairs} pairs`);
+  }
+}
+
+main()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
@@ -52,7 +52,8 @@ async function main() {
   const compCount = await prisma.comparison.count();
   console.log(`🗑️  Deleting ${compCount} comparisons...`);
   await prisma.comparison.deleteMany({});
-  console.log(`  ✓ Deleted all comparisons\n`);
+  await prisma.pairExposure.deleteMany({});
+  console.log(`  ✓ Deleted all comparisons (and pair exposure counts)\n`);
 
   // Step 3: Delete all usage metrics
   const metricsCount = await prisma.usageMetrics.count();
@@ -1,11 +1,191 @@
 /**
  * Simulate what the next-pair API returns for the IzVRS study
  * to verify voting targets are correct.
+ *
+ * Also simulates whole studies against known true strengths to compare the
+ * registered matchmaking strategies (default parameters): for each strategy
+ * it reports how many votes were needed until the estimated top-N matched
+ * the true top-N and stayed that way for the rest of the study.
+ *
+ * Usage:
+ *   npx tsx scripts/simulate-next-pair.ts [--items 30] [--reviewers 10] [--top 5]
+ *     [--runs 20] [--model elo|glicko2] [--seed 1]
  */
+import type { Comparison, Item } from '@prisma/client';
 import { calculateRecommendedComparisons } from '../src/lib/matchmaking';
+import {
+  listMatchmakingStrategies,
+  parseMatchmakingConfig,
+  selectPairWithStrategy,
+  type MatchmakingConfig,
+} from '../src/lib/matchmaking/strategies';
+import { calculateEloChange } from '../src/lib/ranking/elo';
+import {
+  calculateGlicko2Change,
+  GLICKO2_DEFAULT_RATING,
+  GLICKO2_DEFAULT_RD,
+  GLICKO2_DEFAULT_VOLATILITY,
+} from '../src/lib/ranking/glicko2';
 
 console.log('=== VOTING TARGETS PER CATEGORY ===');
 console.log(`3. razredi (49 items): ${calculateRecommendedComparisons(49, 5)} comparisons`);
 console.log(`4. razredi (29 items): ${calculateRecommendedComparisons(29, 5)} comparisons`);
 console.log(`5. razredi (50 items): ${calculateRecommendedComparisons(50, 5)} comparisons`);
 console.log(`\nTotal per reviewer: ${calculateRecommendedComparisons(49, 5) + calculateRecommendedComparisons(29, 5) + calculateRecommendedComparisons(50, 5)}`);
+
+// ===== Strategy simulation =====
+
+const STRATEGIES: MatchmakingConfig[] = listMatchmakingStrategies().map(
+  (strategy) => parseMatchmakingConfig({ strategy: strategy.id }).data!,
+);
+const K_FACTOR = 32;
+
+function arg(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index >= 0 ? Number(process.argv[index + 1]) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+const itemCount = arg('items', 30);
+const reviewers = arg('reviewers', 10);
+const topN = arg('top', 5);
+const runs = arg('runs', 20);
+const seed = arg('seed', 1);
+const model = process.argv.includes('--model') && process.argv[process.argv.indexOf('--model') + 1] === 'glicko2'
+  ? 'glicko2'
+  : 'elo';
+
+/** Small seeded PRNG (mulberry32) so every strategy sees the same studies */
+function createRng(seedValue: number): () => number {
+  let state = seedValue >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normal(rng: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+}
+
+function createItem(id: string): Item {
+  return {
+    id,
+    eloRating: 1500,
+    eloGames: 0,
+    comparisonCount: 0,
+    winCount: 0,
+    lossCount: 0,
+    leftCount: 0,
+    rightCount: 0,
+    glickoRating: GLICKO2_DEFAULT_RATING,
+    glickoRd: GLICKO2_DEFAULT_RD,
+    glickoVolatility: GLICKO2_DEFAULT_VOLATILITY,
+    btAbility: 0,
+    btStdError: null,
+  } as Item;
+}
+
+function topSet(items: Item[], scoreOf: (item: Item) => number): Set<string> {
+  return new Set([...items].sort((a, b) => scoreOf(b) - scoreOf(a)).slice(0, topN).map((item) => item.id));
+}
+
+function sameSet(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && [...a].every((id) => b.has(id));
+}
+
+/**
+ * Run one simulated study and return the number of votes after which the
+ * estimated top-N stayed correct (null if it was wrong at the end), plus how
+ * many of the true top-N were in the final estimated top-N
+ */
+function simulateStudy(
+  config: MatchmakingConfig,
+  studySeed: number,
+): { votes: number; stableAt: number | null; finalOverlap: number } {
+  const rng = createRng(studySeed);
+  const items = Array.from({ length: itemCount }, (_, i) => createItem(`item-${i}`));
+  const strength = new Map(items.map((item) => [item.id, normal(rng)]));
+  const trueTop = topSet(items, (item) => strength.get(item.id)!);
+  const estimateOf = (item: Item) => (model === 'glicko2' ? item.glickoRating : item.eloRating);
+
+  const perReviewer = calculateRecommendedComparisons(itemCount, reviewers);
+  let votes = 0;
+  let stableAt: number | null = null;
+
+  for (let r = 0; r < reviewers; r++) {
+    const sessionComparisons: Comparison[] = [];
+
+    for (let v = 0; v < perReviewer; v++) {
+      const pair = selectPairWithStrategy(config, {
+        items,
+        sessionComparisons,
+        options: { useGlicko: model === 'glicko2', targetTopN: topN },
+      });
+      if (!pair) break;
+
+      const { itemA, itemB } = pair;
+      const pA = 1 / (1 + Math.exp(strength.get(itemB.id)! - strength.get(itemA.id)!));
+      const [winner, loser] = rng() < pA ? [itemA, itemB] : [itemB, itemA];
+
+      const elo = calculateEloChange(winner.eloRating, loser.eloRating, K_FACTOR);
+      winner.eloRating = elo.winnerNewRating;
+      loser.eloRating = elo.loserNewRating;
+      if (model === 'glicko2') {
+        const glicko = calculateGlicko2Change(
+          { rating: winner.glickoRating, rd: winner.glickoRd, volatility: winner.glickoVolatility },
+          { rating: loser.glickoRating, rd: loser.glickoRd, volatility: loser.glickoVolatility },
+        );
+        Object.assign(winner, { glickoRating: glicko.winner.rating, glickoRd: glicko.winner.rd, glickoVolatility: glicko.winner.volatility });
+        Object.assign(loser, { glickoRating: glicko.loser.rating, glickoRd: glicko.loser.rd, glickoVolatility: glicko.loser.volatility });
+      }
+      for (const item of [winner, loser]) {
+        item.comparisonCount++;
+        item.eloGames++;
+      }
+      winner.winCount++;
+      loser.lossCount++;
+      items.find((item) => item.id === pair.leftItemId)!.leftCount++;
+      items.find((item) => item.id === pair.rightItemId)!.rightCount++;
+
+      sessionComparisons.push({ itemAId: itemA.id, itemBId: itemB.id, winnerId: winner.id } as Comparison);
+      votes++;
+
+      const correct = sameSet(topSet(items, estimateOf), trueTop);
+      if (!correct) stableAt = null;
+      else if (stableAt === null) stableAt = votes;
+    }
+  }
+
+  const finalTop = topSet(items, estimateOf);
+  const finalOverlap = [...trueTop].filter((id) => finalTop.has(id)).length;
+
+  return { votes, stableAt, finalOverlap };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+console.log(`\n=== MATCHMAKING STRATEGY SIMULATION (${model}) ===`);
+console.log(`${itemCount} items, ${reviewers} reviewers, top ${topN}, ${runs} runs, seed ${seed}`);
+
+for (const config of STRATEGIES) {
+  const results = Array.from({ length: runs }, (_, run) => simulateStudy(config, seed * 1000 + run));
+  const stable = results.map((result) => result.stableAt).filter((v): v is number => v !== null);
+  const totalVotes = results[0]?.votes ?? 0;
+  const meanOverlap = results.reduce((sum, result) => sum + result.finalOverlap, 0) / runs;
+
+  console.log(`\n${config.strategy}:`);
+  console.log(`  Stable top-${topN} reached: ${stable.length}/${runs} runs (of ${totalVotes} votes each)`);
+  console.log(`  Final top-${topN} overlap with truth: ${meanOverlap.toFixed(2)}/${topN}`);
+  if (stable.length > 0) {
+    const mean = stable.reduce((sum, v) => sum + v, 0) / stable.length;
+    console.log(`  Votes to stable top-${topN}: median ${median(stable)}, mean ${mean.toFixed(1)}`);
+  }
+}
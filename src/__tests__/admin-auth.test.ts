@@ -0,0 +1,132 @@
+/**
+ * Tests for Admin Authentication
+ *
+ * Validates:
+ * - Break-glass secret comparison and reason validation
+ * - Break-glass account provisioning
+ * - Middleware accepts only AdminSession-backed requests (never the raw secret)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  BREAK_GLASS_EMAIL,
+  getBreakGlassUser,
+  isBreakGlassEnabled,
+  validateBreakGlassReason,
+  validateBreakGlassSecret,
+} from '@/lib/security/admin-auth';
+import { middleware } from '@/middleware';
+
+const { upsertUser, getAuthenticatedUser } = vi.hoisted(() => ({
+  upsertUser: vi.fn(),
+  getAuthenticatedUser: vi.fn(),
+}));
+vi.mock('@/lib/db', () => ({ prisma: { user: { upsert: upsertUser } } }));
+vi.mock('@/lib/security/user-auth', () => ({ getAuthenticatedUser }));
+
+const SECRET = 'correct-horse-battery-staple';
+
+describe('break-glass secret', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should be disabled without ADMIN_SECRET', () => {
+    vi.stubEnv('ADMIN_SECRET', '');
+    expect(isBreakGlassEnabled()).toBe(false);
+    expect(validateBreakGlassSecret('')).toBe(false);
+    expect(validateBreakGlassSecret(SECRET)).toBe(false);
+  });
+
+  it('should accept only the exact secret', () => {
+    vi.stubEnv('ADMIN_SECRET', SECRET);
+    expect(isBreakGlassEnabled()).toBe(true);
+    expect(validateBreakGlassSecret(SECRET)).toBe(true);
+    expect(validateBreakGlassSecret(`${SECRET} `)).toBe(false);
+    expect(validateBreakGlassSecret('correct-horse')).toBe(false);
+  });
+});
+
+describe('validateBreakGlassReason', () => {
+  it('should require a meaningful reason', () => {
+    expect(validateBreakGlassReason(undefined).valid).toBe(false);
+    expect(validateBreakGlassReason('   urgent  ').valid).toBe(false);
+    expect(validateBreakGlassReason('x'.repeat(501)).valid).toBe(false);
+  });
+
+  it('should trim the reason', () => {
+    expect(validateBreakGlassReason('  Owner locked out before launch ')).toEqual({
+      valid: true,
+      data: 'Owner locked out before launch',
+    });
+  });
+});
+
+describe('getBreakGlassUser', () => {
+  it('should provision a super admin without a usable password', async () => {
+    upsertUser.mockResolvedValue({ id: 'bg-user', isActive: true });
+    await getBreakGlassUser();
+
+    const args = upsertUser.mock.calls[0][0];
+    expect(args.where).toEqual({ email: BREAK_GLASS_EMAIL });
+    expect(args.create.role).toBe('SUPER_ADMIN');
+    expect(args.create.passwordHash).not.toMatch(/^\$2[aby]\$/);
+    // Deactivating the account must stick
+    expect(args.update).not.toHaveProperty('isActive');
+  });
+});
+
+describe('middleware', () => {
+  const adminUser = { id: 'u1', email: 'a@b.c', name: null, role: 'USER', isBreakGlass: false };
+
+  beforeEach(() => {
+    getAuthenticatedUser.mockReset();
+  });
+
+  it('should reject admin API requests without a session', async () => {
+    getAuthenticatedUser.mockResolvedValue(null);
+    const response = await middleware(new NextRequest('http://localhost/api/admin/dashboard'));
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).errorKey).toBe('ADMIN_AUTH_REQUIRED');
+  });
+
+  it('should not compare tokens against ADMIN_SECRET itself', async () => {
+    vi.stubEnv('ADMIN_SECRET', SECRET);
+    getAuthenticatedUser.mockResolvedValue(null);
+    const request = new NextRequest('http://localhost/api/admin/dashboard', {
+      headers: { cookie: `sciblind-admin-token=${SECRET}`, authorization: `Bearer ${SECRET}` },
+    });
+
+    const response = await middleware(request);
+    expect(response.status).toBe(401);
+    expect(getAuthenticatedUser).toHaveBeenCalledWith(request);
+    vi.unstubAllEnvs();
+  });
+
+  it('should redirect admin pages to the login page', async () => {
+    getAuthenticatedUser.mockResolvedValue(null);
+    const response = await middleware(new NextRequest('http://localhost/admin/studies/abc'));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe('http://localhost/admin/login?next=%2Fadmin%2Fstudies%2Fabc');
+  });
+
+  it('should let authenticated sessions through', async () => {
+    getAuthenticatedUser.mockResolvedValue(adminUser);
+    const response = await middleware(new NextRequest('http://localhost/api/admin/dashboard'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Frame-Options')).toBe('DENY');
+  });
+
+  it('should leave the login endpoint and participant routes open', async () => {
+    getAuthenticatedUser.mockResolvedValue(null);
+
+    expect((await middleware(new NextRequest('http://localhost/api/admin/auth'))).status).toBe(200);
+    expect((await middleware(new NextRequest('http://localhost/admin/login'))).status).toBe(200);
+    expect((await middleware(new NextRequest('http://localhost/api/studies/abc/rankings'))).status).toBe(200);
+    expect(getAuthenticatedUser).not.toHaveBeenCalled();
+  });
+});
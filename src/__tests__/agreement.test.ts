@@ -0,0 +1,158 @@
+/**
+ * Tests for Inter-Rater Agreement
+ *
+ * Validates:
+ * - Kendall's τ-b, Kendall's W and Krippendorff's α on textbook cases
+ * - Panel selection from access codes
+ * - Agreement of a panel from its votes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeAgreement,
+  kendallTauB,
+  kendallW,
+  krippendorffAlphaNominal,
+  personalScores,
+  selectPanel,
+  type AgreementComparison,
+} from '@/lib/ranking/agreement';
+
+const ORDER = ['A', 'B', 'C', 'D', 'E'];
+
+/** Every pair once, decided by the given order (best first) */
+function votesByOrder(sessionId: string, order: string[], categoryId: string | null = 'cat1'): AgreementComparison[] {
+  const votes: AgreementComparison[] = [];
+  for (let i = 0; i < ORDER.length; i++) {
+    for (let j = i + 1; j < ORDER.length; j++) {
+      const [a, b] = [ORDER[i], ORDER[j]];
+      const winnerId = order.indexOf(a) < order.indexOf(b) ? a : b;
+      votes.push({ sessionId, categoryId, itemAId: a, itemBId: b, winnerId });
+    }
+  }
+  return votes;
+}
+
+describe('kendallTauB', () => {
+  it('should be 1 for the same order and -1 for the reverse', () => {
+    expect(kendallTauB([1, 2, 3, 4], [10, 20, 30, 40])).toBe(1);
+    expect(kendallTauB([1, 2, 3, 4], [4, 3, 2, 1])).toBe(-1);
+  });
+
+  it('should correct for ties and be undefined for a constant list', () => {
+    // C = 2, D = 3, one pair tied in x only: (2 - 3) / sqrt(5 * 6)
+    expect(kendallTauB([1, 1, 2, 3], [1, 2, 3, 0])).toBeCloseTo(-1 / Math.sqrt(30), 10);
+    expect(kendallTauB([1, 1, 1], [1, 2, 3])).toBeNull();
+  });
+});
+
+describe('kendallW', () => {
+  it('should be 1 for identical rankings and 0 for cancelling ones', () => {
+    expect(kendallW([[3, 2, 1], [30, 20, 10], [0.3, 0.2, 0.1]])).toBeCloseTo(1, 10);
+    expect(kendallW([[3, 2, 1], [1, 2, 3]])).toBeCloseTo(0, 10);
+  });
+
+  it('should match a worked example', () => {
+    // Rank sums 4, 7, 7 for m = 2, n = 3 with no ties: S = 6, W = 12·6 / (4·24) = 0.75
+    expect(kendallW([[3, 2, 1], [3, 1, 2]])).toBeCloseTo(0.75, 10);
+  });
+});
+
+describe('krippendorffAlphaNominal', () => {
+  it('should be 1 for perfect agreement across units', () => {
+    expect(krippendorffAlphaNominal([['x', 'x'], ['y', 'y', 'y']])).toBe(1);
+  });
+
+  it('should match the coincidence-matrix formula', () => {
+    // o_xx = 2, o_xy = o_yx = 1, o_yy = 0 → n = 4, n_x = 3, n_y = 1:
+    // α = 1 − (n − 1) · 2 / (2 · 3 · 1) = 0
+    expect(krippendorffAlphaNominal([['x', 'x'], ['x', 'y']])).toBeCloseTo(0, 10);
+  });
+
+  it('should be undefined without variation or repeats', () => {
+    expect(krippendorffAlphaNominal([['x', 'x']])).toBeNull();
+    expect(krippendorffAlphaNominal([['x'], ['y']])).toBeNull();
+  });
+});
+
+describe('personalScores', () => {
+  it('should score win rates with half a win for no preference', () => {
+    const scores = personalScores([
+      { itemAId: 'A', itemBId: 'B', winnerId: 'A' },
+      { itemAId: 'A', itemBId: 'C', winnerId: null },
+    ]);
+    expect(scores.get('A')).toBe(0.75);
+    expect(scores.get('B')).toBe(0);
+    expect(scores.get('C')).toBe(0.5);
+  });
+});
+
+describe('selectPanel', () => {
+  it('should use the sessions with access codes and their labels', () => {
+    const panel = selectPanel([
+      { id: 's1', comparisonCount: 5, accessCode: { label: 'Ocenjevalec 1' } },
+      { id: 's2', comparisonCount: 50, accessCode: null },
+      { id: 's3', comparisonCount: 5, accessCode: { label: null } },
+    ]);
+    expect(panel).toEqual([
+      { sessionId: 's1', label: 'Ocenjevalec 1' },
+      { sessionId: 's3', label: 'Evaluator 2' },
+    ]);
+  });
+
+  it('should fall back to active sessions without codes', () => {
+    const panel = selectPanel([
+      { id: 's1', comparisonCount: 0, accessCode: null },
+      { id: 's2', comparisonCount: 3, accessCode: null },
+    ]);
+    expect(panel.map((evaluator) => evaluator.sessionId)).toEqual(['s2']);
+  });
+});
+
+describe('analyzeAgreement', () => {
+  const evaluators = [
+    { sessionId: 'e1', label: 'Ocenjevalec 1' },
+    { sessionId: 'e2', label: 'Ocenjevalec 2' },
+    { sessionId: 'e3', label: 'Ocenjevalec 3' },
+  ];
+
+  it('should find full agreement between identical evaluators', () => {
+    const result = analyzeAgreement(evaluators, [
+      ...votesByOrder('e1', ORDER),
+      ...votesByOrder('e2', ORDER),
+      ...votesByOrder('e3', ORDER),
+    ]);
+    expect(result.categories).toEqual([
+      { categoryId: 'cat1', raterCount: 3, sharedItemCount: 5, kendallW: expect.closeTo(1, 10), chiSquare: expect.closeTo(12, 10), degreesOfFreedom: 4 },
+    ]);
+    expect(result.pairwiseTau).toEqual([[1, 1, 1], [1, 1, 1], [1, 1, 1]]);
+    expect(result.repeatedPairCount).toBe(10);
+    // No variation among judgments at all
+    expect(result.krippendorffAlpha).toBeNull();
+  });
+
+  it('should show a contrarian evaluator in the heatmap', () => {
+    const result = analyzeAgreement(evaluators, [
+      ...votesByOrder('e1', ORDER),
+      ...votesByOrder('e2', ORDER),
+      ...votesByOrder('e3', [...ORDER].reverse()),
+      // Votes of sessions outside the panel are ignored
+      ...votesByOrder('outsider', [...ORDER].reverse()),
+    ]);
+    expect(result.pairwiseTau[0][1]).toBe(1);
+    expect(result.pairwiseTau[0][2]).toBe(-1);
+    expect(result.pairwiseTau[2][1]).toBe(-1);
+    expect(result.meanTau).toBeCloseTo(-1 / 3, 10);
+    expect(result.krippendorffAlpha!).toBeLessThan(0.5);
+    expect(result.repeatedJudgmentCount).toBe(30);
+  });
+
+  it('should leave τ undefined for evaluators without shared items', () => {
+    const result = analyzeAgreement(evaluators.slice(0, 2), [
+      ...votesByOrder('e1', ORDER, 'cat1'),
+      ...votesByOrder('e2', ORDER, 'cat2'),
+    ]);
+    expect(result.pairwiseTau[0][1]).toBeNull();
+    expect(result.categories.every((category) => category.kendallW === null)).toBe(true);
+  });
+});
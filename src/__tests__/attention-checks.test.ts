@@ -0,0 +1,176 @@
+/**
+ * Tests for Attention Checks
+ *
+ * Validates:
+ * - When gold and repeat checks are due
+ * - Gold pair and repeat pair selection
+ * - Quality score and low-quality flagging
+ * - Recording an answer against a pending check
+ * - Gold pair input validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Prisma } from '@prisma/client';
+import {
+  calculateQualityScore,
+  dueCheckKinds,
+  isLowQuality,
+  parseGoldPairs,
+  pickGoldCheck,
+  pickRepeatCheck,
+  recordAttentionCheckAnswer,
+  LOW_QUALITY_FLAG,
+  REPEAT_MIN_GAP,
+  type AttentionCheckSettings,
+} from '@/lib/voting/attention-checks';
+
+const ID_A = 'clx0000000000000000000001';
+const ID_B = 'clx0000000000000000000002';
+
+const settings: AttentionCheckSettings = {
+  goldCheckInterval: 10,
+  repeatCheckInterval: 15,
+  minQualityScore: 0.7,
+  minQualityChecks: 3,
+};
+
+/** Session votes c0..c(n-1), the first item always winning */
+function votes(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `c${i}`,
+    itemAId: `i${i}`,
+    itemBId: `j${i}`,
+    winnerId: `i${i}` as string | null,
+    leftItemId: `i${i}`,
+    rightItemId: `j${i}`,
+  }));
+}
+
+describe('dueCheckKinds', () => {
+  it('should be due at each multiple of the interval not yet served', () => {
+    expect(dueCheckKinds(settings, 9, { gold: 0, repeat: 0 })).toEqual([]);
+    expect(dueCheckKinds(settings, 10, { gold: 0, repeat: 0 })).toEqual(['gold']);
+    expect(dueCheckKinds(settings, 15, { gold: 1, repeat: 0 })).toEqual(['repeat']);
+    expect(dueCheckKinds(settings, 30, { gold: 2, repeat: 1 })).toEqual(['gold', 'repeat']);
+    expect(dueCheckKinds(settings, 30, { gold: 3, repeat: 2 })).toEqual([]);
+  });
+
+  it('should never be due with checks turned off', () => {
+    expect(dueCheckKinds({ goldCheckInterval: null, repeatCheckInterval: null }, 100, { gold: 0, repeat: 0 })).toEqual([]);
+  });
+});
+
+describe('pickGoldCheck', () => {
+  const goldPairs = [
+    { id: 'g1', itemAId: 'a', itemBId: 'b', correctItemId: 'b' },
+    { id: 'g2', itemAId: 'c', itemBId: 'x', correctItemId: 'c' },
+  ];
+
+  it('should pick an unseen gold pair within the current items', () => {
+    const check = pickGoldCheck(goldPairs, new Set(['a', 'b', 'c']), new Set())!;
+    expect(check).toMatchObject({ kind: 'gold', sourceId: 'g1', expectedWinnerId: 'b' });
+    expect([check.leftItemId, check.rightItemId].sort()).toEqual(['a', 'b']);
+  });
+
+  it('should not show a gold pair twice', () => {
+    expect(pickGoldCheck(goldPairs, new Set(['a', 'b', 'c']), new Set(['g1']))).toBeNull();
+  });
+});
+
+describe('pickRepeatCheck', () => {
+  it('should repeat the oldest eligible vote with the sides swapped', () => {
+    const check = pickRepeatCheck(votes(REPEAT_MIN_GAP + 2), new Set(['c0']))!;
+    expect(check).toEqual({
+      kind: 'repeat',
+      sourceId: 'c1',
+      itemAId: 'i1',
+      itemBId: 'j1',
+      leftItemId: 'j1',
+      rightItemId: 'i1',
+      expectedWinnerId: 'i1',
+    });
+  });
+
+  it('should skip recent votes and votes without a preference', () => {
+    expect(pickRepeatCheck(votes(REPEAT_MIN_GAP), new Set())).toBeNull();
+    const history = votes(REPEAT_MIN_GAP + 1);
+    history[0].winnerId = null;
+    expect(pickRepeatCheck(history, new Set())).toBeNull();
+  });
+});
+
+describe('quality score', () => {
+  it('should be the share of checks passed', () => {
+    expect(calculateQualityScore([])).toBeNull();
+    expect(calculateQualityScore([{ passed: true }, { passed: false }, { passed: true }, { passed: true }])).toBe(0.75);
+  });
+
+  it('should flag low scores only after enough checks', () => {
+    expect(isLowQuality(0.5, 2, settings)).toBe(false);
+    expect(isLowQuality(0.5, 3, settings)).toBe(true);
+    expect(isLowQuality(0.75, 4, settings)).toBe(false);
+    expect(isLowQuality(0, 10, { ...settings, minQualityScore: null })).toBe(false);
+  });
+});
+
+describe('recordAttentionCheckAnswer', () => {
+  /** Minimal transaction client over one session's checks */
+  function fakeTx(checks: Record<string, unknown>[]) {
+    const session: Record<string, unknown> = { isFlagged: false, flagReason: null, qualityScore: null };
+    const tx = {
+      attentionCheck: {
+        findUnique: async ({ where }: { where: { id: string } }) => checks.find((c) => c.id === where.id) ?? null,
+        update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) =>
+          Object.assign(checks.find((c) => c.id === where.id)!, data),
+        findMany: async () => checks.filter((c) => c.answeredAt !== null).map((c) => ({ passed: c.passed })),
+      },
+      session: {
+        findUnique: async () => ({ ...session }),
+        update: async ({ data }: { data: Record<string, unknown> }) => Object.assign(session, data),
+      },
+    };
+    return { tx: tx as unknown as Prisma.TransactionClient, session };
+  }
+
+  function check(id: string, answered: boolean | null) {
+    return { id, expectedWinnerId: 'a', answeredAt: answered === null ? null : new Date(), passed: answered };
+  }
+
+  it('should grade the answer and update the quality score', async () => {
+    const { tx, session } = fakeTx([check('k1', true), check('k2', null)]);
+    const result = await recordAttentionCheckAnswer(tx, {
+      checkId: 'k2', sessionId: 's1', winnerId: 'b', settings,
+    });
+    expect(result).toEqual({ passed: false, qualityScore: 0.5, flagged: false });
+    expect(session.qualityScore).toBe(0.5);
+    expect(session.isFlagged).toBe(false);
+  });
+
+  it('should flag a session falling below the minimum score', async () => {
+    const { tx, session } = fakeTx([check('k1', true), check('k2', false), check('k3', null)]);
+    const result = await recordAttentionCheckAnswer(tx, {
+      checkId: 'k3', sessionId: 's1', winnerId: null, settings,
+    });
+    expect(result?.flagged).toBe(true);
+    expect(session).toMatchObject({ isFlagged: true, flagReason: LOW_QUALITY_FLAG });
+  });
+
+  it('should not answer a check twice', async () => {
+    const { tx } = fakeTx([check('k1', true)]);
+    expect(await recordAttentionCheckAnswer(tx, { checkId: 'k1', sessionId: 's1', winnerId: 'a', settings })).toBeNull();
+  });
+});
+
+describe('parseGoldPairs', () => {
+  it('should accept pairs whose answer is one of their items', () => {
+    const result = parseGoldPairs({ pairs: [{ itemAId: ID_A, itemBId: ID_B, correctItemId: ID_B, note: ' clear ' }] });
+    expect(result.data).toEqual([{ itemAId: ID_A, itemBId: ID_B, correctItemId: ID_B, note: 'clear' }]);
+  });
+
+  it('should reject malformed pairs', () => {
+    expect(parseGoldPairs({}).valid).toBe(false);
+    expect(parseGoldPairs({ pairs: [{ itemAId: ID_A, itemBId: ID_A, correctItemId: ID_A }] }).valid).toBe(false);
+    expect(parseGoldPairs({ pairs: [{ itemAId: ID_A, itemBId: ID_B, correctItemId: 'other' }] }).valid).toBe(false);
+    expect(parseGoldPairs({ pairs: [{ itemAId: 'x', itemBId: ID_B, correctItemId: ID_B }] }).valid).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for Bootstrap Rank Stability
+ *
+ * Validates:
+ * - Seeded resampling is reproducible
+ * - Rank intervals contain the point rank
+ * - Clear leaders are always in the top N, close items share it
+ * - Bradley-Terry refits and per-category ranks
+ * - Background computation, cached per study and recomputed when votes or boosts change
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  bootstrapRankStability,
+  createSeededRandom,
+  getRankStability,
+  type BootstrapOptions,
+} from '@/lib/ranking/bootstrap';
+import type { ReplayComparison } from '@/lib/ranking/replay';
+
+const db = vi.hoisted(() => ({
+  study: { findUnique: vi.fn() },
+  item: { findMany: vi.fn() },
+  comparison: { findMany: vi.fn() },
+}));
+vi.mock('@/lib/db', () => ({ prisma: db }));
+
+const ITEMS = ['A', 'B', 'C', 'D'].map((id) => ({ id, artistEloBoost: 0, categoryId: 'cat1' }));
+
+const OPTIONS: BootstrapOptions = {
+  method: 'elo',
+  replicates: 50,
+  seed: 7,
+  topN: 1,
+  initialRating: 1500,
+  kFactor: 32,
+  adaptiveK: false,
+  separateCategories: false,
+  groupChoices: false,
+};
+
+let counter = 0;
+
+function vote(sessionId: string, winnerId: string, loserId: string): ReplayComparison {
+  counter++;
+  return {
+    id: `c${counter}`,
+    createdAt: new Date(1_700_000_000_000 + counter * 1000),
+    sessionId,
+    itemAId: winnerId,
+    itemBId: loserId,
+    winnerId,
+    leftItemId: winnerId,
+    rightItemId: loserId,
+    isFlagged: false,
+    flagReason: null,
+    algoVersion: 'sciblind-v2',
+  };
+}
+
+/**
+ * Eight sessions: A beats everyone every time, B and C split evenly,
+ * D loses everything.
+ */
+function comparisons(): ReplayComparison[] {
+  const rows: ReplayComparison[] = [];
+  for (let s = 0; s < 8; s++) {
+    const sessionId = `s${s}`;
+    rows.push(vote(sessionId, 'A', 'B'), vote(sessionId, 'A', 'C'), vote(sessionId, 'A', 'D'));
+    rows.push(s % 2 === 0 ? vote(sessionId, 'B', 'C') : vote(sessionId, 'C', 'B'));
+    rows.push(vote(sessionId, 'B', 'D'), vote(sessionId, 'C', 'D'));
+  }
+  return rows;
+}
+
+describe('createSeededRandom', () => {
+  it('should repeat its sequence for the same seed', () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const values = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(createSeededRandom(43)()).not.toBe(values[0]);
+  });
+});
+
+describe('bootstrapRankStability', () => {
+  const rows = comparisons();
+
+  it('should be reproducible with the same seed', () => {
+    const first = bootstrapRankStability(ITEMS, rows, OPTIONS);
+    const second = bootstrapRankStability(ITEMS, rows, OPTIONS);
+    expect(second.items).toEqual(first.items);
+    expect(first).toMatchObject({ replicates: 50, seed: 7, unit: 'session', topN: 1 });
+  });
+
+  it('should put the clear leader in the top N of every resample', () => {
+    const result = bootstrapRankStability(ITEMS, rows, OPTIONS);
+    expect(result.items.get('A')).toMatchObject({ rank: 1, medianRank: 1, rankCI95: { lower: 1, upper: 1 }, pTopN: 1 });
+    expect(result.items.get('D')).toMatchObject({ rank: 4, rankCI95: { lower: 4, upper: 4 }, pTopN: 0 });
+  });
+
+  it('should give close items a rank interval that contains the point rank', () => {
+    const result = bootstrapRankStability(ITEMS, rows, { ...OPTIONS, unit: 'comparison', topN: 2 });
+    for (const id of ['B', 'C']) {
+      const stability = result.items.get(id)!;
+      expect(stability.rankCI95.lower).toBeLessThanOrEqual(stability.rank);
+      expect(stability.rankCI95.upper).toBeGreaterThanOrEqual(stability.rank);
+      expect(stability.rankCI95).toEqual({ lower: 2, upper: 3 });
+      expect(stability.pTopN).toBeGreaterThan(0);
+      expect(stability.pTopN).toBeLessThan(1);
+    }
+    const pB = result.items.get('B')!.pTopN;
+    const pC = result.items.get('C')!.pTopN;
+    expect(pB + pC).toBeCloseTo(1, 10);
+  });
+
+  it('should refit Bradley-Terry and rank within categories', () => {
+    const items = [...ITEMS, { id: 'X', artistEloBoost: 0, categoryId: 'cat2' }];
+    const result = bootstrapRankStability(items, rows, { ...OPTIONS, method: 'bradley-terry', separateCategories: true });
+    expect(result.model).toBe('bradley-terry');
+    expect(result.items.get('A')!.pTopN).toBe(1);
+    expect(result.items.get('A')!.scoreCI95.lower).toBeGreaterThan(result.items.get('D')!.scoreCI95.upper);
+    // Alone in its category
+    expect(result.items.get('X')).toMatchObject({ rank: 1, rankCI95: { lower: 1, upper: 1 }, pTopN: 1 });
+  });
+
+  it('should fall back to the point ranks without votes', () => {
+    const result = bootstrapRankStability(ITEMS, [], OPTIONS);
+    expect(result.replicates).toBe(0);
+    expect(result.items.get('A')).toMatchObject({ rank: 1, rankCI95: { lower: 1, upper: 1 }, pTopN: 1 });
+  });
+});
+
+describe('getRankStability', () => {
+  const STUDY = {
+    rankingMethod: 'ELO',
+    comparisonMode: 'pair',
+    hasCategorySeparation: false,
+    excludeFlaggedFromElo: false,
+    eloInitialRating: 1500,
+    eloKFactor: 32,
+    adaptiveKFactor: false,
+    targetTopN: 2,
+  };
+
+  /** Poll like the admin page until the background run has finished */
+  async function whenReady(studyId: string) {
+    let stability = await getRankStability(studyId);
+    await vi.waitFor(async () => {
+      stability = await getRankStability(studyId);
+      expect(stability!.status).toBe('ready');
+    }, { timeout: 10_000 });
+    return stability!;
+  }
+
+  it('should compute in the background and reuse the result until the votes change', async () => {
+    const rows = comparisons();
+    db.study.findUnique.mockResolvedValue(STUDY);
+    db.item.findMany.mockResolvedValue(ITEMS);
+    db.comparison.findMany.mockResolvedValue(rows);
+
+    expect(await getRankStability('study-1')).toEqual({ status: 'computing', result: null });
+    const first = await whenReady('study-1');
+    expect(first.result).toMatchObject({ method: 'elo', model: 'elo-replay', topN: 2, unit: 'session' });
+    expect((await getRankStability('study-1'))!.result).toBe(first.result);
+
+    db.comparison.findMany.mockResolvedValue([...rows, vote('s9', 'D', 'A')]);
+    expect((await getRankStability('study-1'))!.status).toBe('computing');
+    expect((await whenReady('study-1')).result).not.toBe(first.result);
+  });
+
+  it('should recompute when votes are swapped one for one or a boost changes', async () => {
+    const rows = comparisons();
+    db.study.findUnique.mockResolvedValue(STUDY);
+    db.item.findMany.mockResolvedValue(ITEMS);
+    db.comparison.findMany.mockResolvedValue(rows);
+    await whenReady('study-2');
+
+    // Same count and newest vote, different votes
+    const swapped = [{ ...vote('s0', 'D', 'A'), createdAt: rows[0].createdAt }, ...rows.slice(1)];
+    db.comparison.findMany.mockResolvedValue(swapped);
+    expect((await getRankStability('study-2'))!.status).toBe('computing');
+    await whenReady('study-2');
+
+    db.item.findMany.mockResolvedValue(ITEMS.map((item) => (item.id === 'D' ? { ...item, artistEloBoost: 100 } : item)));
+    expect((await getRankStability('study-2'))!.status).toBe('computing');
+  });
+
+  it('should return null for a missing study', async () => {
+    db.study.findUnique.mockResolvedValue(null);
+    expect(await getRankStability('missing')).toBeNull();
+  });
+});
@@ -7,6 +7,7 @@
  * - Win probability function
  * - Ability-to-Elo conversion
  * - Edge cases (no comparisons, single item)
+ * - Davidson ties ("no preference" votes)
  */
 
 import { describe, it, expect } from 'vitest';
@@ -109,6 +110,49 @@ describe('estimateBradleyTerry', () => {
   });
 });
 
+describe('estimateBradleyTerry with ties', () => {
+  it('should not estimate a tie parameter without ties', () => {
+    const result = estimateBradleyTerry([
+      { winnerId: 'A', loserId: 'B' },
+      { winnerId: 'B', loserId: 'A' },
+      { winnerId: 'A', loserId: 'B' },
+    ]);
+    expect(result.tieParameter ?? 0).toBe(0);
+  });
+
+  it('should give equal abilities and a positive tie parameter when all votes tie', () => {
+    const comparisons = [
+      ...Array(6).fill(null).map(() => ({ winnerId: 'A', loserId: 'B', tie: true })),
+      ...Array(6).fill(null).map(() => ({ winnerId: 'B', loserId: 'C', tie: true })),
+    ];
+
+    const result = estimateBradleyTerry(comparisons);
+
+    expect(result.abilities.get('A')!).toBeCloseTo(result.abilities.get('B')!, 3);
+    expect(result.abilities.get('B')!).toBeCloseTo(result.abilities.get('C')!, 3);
+    expect(result.tieParameter!).toBeGreaterThan(0);
+  });
+
+  it('should pull abilities together as ties replace wins', () => {
+    const wins = [
+      ...Array(8).fill(null).map(() => ({ winnerId: 'A', loserId: 'B' })),
+      ...Array(2).fill(null).map(() => ({ winnerId: 'B', loserId: 'A' })),
+    ];
+    const withTies = [
+      ...wins,
+      ...Array(10).fill(null).map(() => ({ winnerId: 'A', loserId: 'B', tie: true })),
+    ];
+
+    const plain = estimateBradleyTerry(wins);
+    const tied = estimateBradleyTerry(withTies);
+
+    const gap = (r: typeof plain) => r.abilities.get('A')! - r.abilities.get('B')!;
+    expect(gap(tied)).toBeGreaterThan(0);
+    expect(gap(tied)).toBeLessThan(gap(plain));
+    expect(tied.converged).toBe(true);
+  });
+});
+
 describe('btWinProbability', () => {
   it('should return 0.5 for equal abilities', () => {
     expect(btWinProbability(0, 0)).toBeCloseTo(0.5, 5);
@@ -0,0 +1,195 @@
+/**
+ * Tests for Persisted Bradley-Terry Estimates
+ *
+ * Validates:
+ * - Per-study fit (shared scale vs. one scale per category)
+ * - Plackett-Luce over grouped quad choices
+ * - Confidence intervals and BT ordering
+ * - Debounced background refresh after votes
+ * - Read-repair when votes are newer than the last fit
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  computeBradleyTerryEstimates,
+  ensureBradleyTerryFresh,
+  getBradleyTerryDebounceMs,
+  scheduleBradleyTerryRefresh,
+} from '@/lib/ranking/bt-refresh';
+import { btConfidenceInterval, compareItemsByBradleyTerry } from '@/lib/ranking/bradley-terry';
+import { buildChoiceObservations, estimatePlackettLuce } from '@/lib/ranking/plackett-luce';
+
+const db = vi.hoisted(() => ({
+  study: { findUnique: vi.fn(), update: vi.fn() },
+  item: { findMany: vi.fn(), update: vi.fn() },
+  comparison: { findMany: vi.fn(), findFirst: vi.fn() },
+  $transaction: vi.fn(),
+}));
+vi.mock('@/lib/db', () => ({ prisma: db }));
+
+function vote(winnerId: string, loserId: string) {
+  return { itemAId: winnerId, itemBId: loserId, winnerId };
+}
+
+describe('computeBradleyTerryEstimates', () => {
+  const items = [
+    { id: 'a1', categoryId: 'A' },
+    { id: 'a2', categoryId: 'A' },
+    { id: 'b1', categoryId: 'B' },
+    { id: 'b2', categoryId: 'B' },
+    { id: 'unseen', categoryId: 'A' },
+  ];
+  const comparisons = [
+    vote('a1', 'a2'), vote('a1', 'a2'), vote('a2', 'a1'),
+    vote('b2', 'b1'), vote('b1', 'b2'),
+    vote('a1', 'b1'),
+  ];
+
+  it('should give items without comparisons ability 0 and no SE', () => {
+    const estimates = computeBradleyTerryEstimates(items, comparisons, true);
+    expect(estimates.get('unseen')).toEqual({ btAbility: 0, btStdError: null });
+  });
+
+  it('should fit each category on its own scale when separated', () => {
+    const estimates = computeBradleyTerryEstimates(items, comparisons, true);
+    expect(estimates.get('a1')!.btAbility).toBeGreaterThan(estimates.get('a2')!.btAbility);
+    expect(estimates.get('a1')!.btAbility + estimates.get('a2')!.btAbility).toBeCloseTo(0, 6);
+    // The cross-category vote is ignored, leaving B balanced
+    expect(estimates.get('b1')!.btAbility).toBeCloseTo(0, 6);
+    expect(estimates.get('b2')!.btAbility).toBeCloseTo(0, 6);
+    expect(estimates.get('b1')!.btStdError).toBeGreaterThan(0);
+  });
+
+  it('should fit all items together without category separation', () => {
+    const estimates = computeBradleyTerryEstimates(items, comparisons, false);
+    expect(estimates.get('b1')!.btAbility).toBeLessThan(estimates.get('b2')!.btAbility);
+  });
+
+  it('should ignore comparisons of unknown items', () => {
+    const estimates = computeBradleyTerryEstimates(items, [vote('a1', 'deleted')], false);
+    expect(estimates.get('a1')).toEqual({ btAbility: 0, btStdError: null });
+  });
+});
+
+describe('computeBradleyTerryEstimates with grouped choices', () => {
+  const items = ['A', 'B', 'C', 'D'].map((id) => ({ id, categoryId: null }));
+  function quad(groupId: string, winnerId: string) {
+    return items
+      .filter((item) => item.id !== winnerId)
+      .map((item) => ({ ...vote(winnerId, item.id), choiceGroupId: groupId }));
+  }
+  const comparisons = [...quad('q1', 'A'), ...quad('q2', 'B'), ...quad('q3', 'A'), ...quad('q4', 'C')];
+
+  it('should fit Plackett-Luce when grouping is on', () => {
+    const grouped = computeBradleyTerryEstimates(items, comparisons, false, true);
+    const expected = estimatePlackettLuce(buildChoiceObservations(comparisons));
+    expect(grouped.get('A')!.btAbility).toBeCloseTo(expected.abilities.get('A')!, 10);
+  });
+
+  it('should keep pairwise Bradley-Terry by default', () => {
+    const pairwise = computeBradleyTerryEstimates(items, comparisons, false);
+    const grouped = computeBradleyTerryEstimates(items, comparisons, false, true);
+    expect(pairwise.get('A')!.btAbility).not.toBeCloseTo(grouped.get('A')!.btAbility, 3);
+  });
+});
+
+describe('btConfidenceInterval', () => {
+  it('should build a symmetric Wald interval', () => {
+    const ci = btConfidenceInterval(0.5, 0.25)!;
+    expect(ci.lower).toBeCloseTo(0.5 - 1.96 * 0.25, 10);
+    expect(ci.upper).toBeCloseTo(0.5 + 1.96 * 0.25, 10);
+  });
+
+  it('should return null for non-estimable items', () => {
+    expect(btConfidenceInterval(0, null)).toBeNull();
+    expect(btConfidenceInterval(0, Infinity)).toBeNull();
+  });
+});
+
+describe('compareItemsByBradleyTerry', () => {
+  const base = { artistRank: null, comparisonCount: 10, winCount: 5, lossCount: 5 };
+
+  it('should order by ability, then by Elo', () => {
+    const items = [
+      { ...base, id: 'low', btAbility: -1, eloRating: 1700 },
+      { ...base, id: 'tied-low-elo', btAbility: 1, eloRating: 1400 },
+      { ...base, id: 'tied-high-elo', btAbility: 1, eloRating: 1600 },
+    ];
+    expect(items.sort(compareItemsByBradleyTerry).map((i) => i.id)).toEqual([
+      'tied-high-elo',
+      'tied-low-elo',
+      'low',
+    ]);
+  });
+});
+
+describe('background refresh', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    db.study.findUnique.mockResolvedValue({ hasCategorySeparation: false, excludeFlaggedFromElo: false });
+    db.item.findMany.mockResolvedValue([
+      { id: 'x', categoryId: null, btAbility: 0, btStdError: null },
+      { id: 'y', categoryId: null, btAbility: 0, btStdError: null },
+    ]);
+    db.comparison.findMany.mockResolvedValue([vote('x', 'y'), vote('x', 'y'), vote('y', 'x')]);
+    db.item.update.mockImplementation((args) => ({ op: 'item.update', args }));
+    db.study.update.mockImplementation((args) => ({ op: 'study.update', args }));
+    db.$transaction.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('should read the debounce window from the environment', () => {
+    vi.stubEnv('BT_REFRESH_DEBOUNCE_MS', '');
+    expect(getBradleyTerryDebounceMs()).toBe(5000);
+    vi.stubEnv('BT_REFRESH_DEBOUNCE_MS', '0');
+    expect(getBradleyTerryDebounceMs()).toBe(0);
+    vi.stubEnv('BT_REFRESH_DEBOUNCE_MS', 'soon');
+    expect(getBradleyTerryDebounceMs()).toBe(5000);
+  });
+
+  it('should coalesce a burst of votes into one refit', async () => {
+    vi.stubEnv('BT_REFRESH_DEBOUNCE_MS', '1000');
+
+    scheduleBradleyTerryRefresh('study-burst');
+    scheduleBradleyTerryRefresh('study-burst');
+    await vi.advanceTimersByTimeAsync(500);
+    scheduleBradleyTerryRefresh('study-burst');
+    expect(db.$transaction).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+
+    // Both items changed, plus the study timestamp
+    const ops = db.$transaction.mock.calls[0][0];
+    expect(ops).toHaveLength(3);
+    expect(ops[2].args.data.btUpdatedAt).toBeInstanceOf(Date);
+    expect(ops[0].args.data.btAbility).toBeGreaterThan(0);
+    expect(ops[0].args.data.btStdError).toBeGreaterThan(0);
+  });
+
+  it('should refit right away with a zero debounce', async () => {
+    vi.stubEnv('BT_REFRESH_DEBOUNCE_MS', '0');
+    scheduleBradleyTerryRefresh('study-now');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip the read-repair when the fit is current', async () => {
+    db.comparison.findFirst.mockResolvedValue({ createdAt: new Date('2026-01-01T10:00:00Z') });
+    const refreshed = await ensureBradleyTerryFresh('study-fresh', new Date('2026-01-01T10:00:01Z'));
+    expect(refreshed).toBe(false);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should refit synchronously when votes are newer than the fit', async () => {
+    db.comparison.findFirst.mockResolvedValue({ createdAt: new Date('2026-01-01T10:00:02Z') });
+    const refreshed = await ensureBradleyTerryFresh('study-stale', new Date('2026-01-01T10:00:01Z'));
+    expect(refreshed).toBe(true);
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+  });
+});
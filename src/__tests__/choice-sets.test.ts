@@ -0,0 +1,140 @@
+/**
+ * Tests for Ranking and Best-Worst Votes
+ *
+ * Validates:
+ * - Parsing ranking and best-worst submissions
+ * - Decomposition into pairwise wins
+ * - Reading stored groups back as Plackett-Luce choices
+ * - Best-worst estimation recovers the true order
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  decomposeChoiceSetVote,
+  isChoiceSetMode,
+  parseChoiceSetVote,
+  usesGroupedChoices,
+} from '@/lib/voting/choices';
+import { buildChoiceObservations, estimatePlackettLuce } from '@/lib/ranking/plackett-luce';
+
+const ITEMS = ['A', 'B', 'C', 'D'];
+
+/** The rows a vote is stored as, one choice group */
+function groupRows(groupId: string, itemIds: string[], vote: { ranking: string[]; worstId: string | null }) {
+  return decomposeChoiceSetVote(itemIds, vote).map(([winnerId, loserId]) => ({
+    itemAId: winnerId,
+    itemBId: loserId,
+    winnerId,
+    choiceGroupId: groupId,
+  }));
+}
+
+describe('comparison modes', () => {
+  it('should recognize the set modes and which modes store grouped choices', () => {
+    expect(isChoiceSetMode('ranking')).toBe(true);
+    expect(isChoiceSetMode('best-worst')).toBe(true);
+    expect(isChoiceSetMode('quad')).toBe(false);
+    expect(usesGroupedChoices('quad')).toBe(true);
+    expect(usesGroupedChoices('best-worst')).toBe(true);
+    expect(usesGroupedChoices('pair')).toBe(false);
+  });
+});
+
+describe('parseChoiceSetVote', () => {
+  it('should accept full and partial rankings of the shown items', () => {
+    expect(parseChoiceSetVote('ranking', ITEMS, { ranking: ['C', 'A', 'D', 'B'] }).data)
+      .toEqual({ ranking: ['C', 'A', 'D', 'B'], worstId: null });
+    expect(parseChoiceSetVote('ranking', ITEMS, { ranking: ['B'] }).valid).toBe(true);
+  });
+
+  it('should reject empty, repeated or foreign rankings', () => {
+    expect(parseChoiceSetVote('ranking', ITEMS, { ranking: [] }).valid).toBe(false);
+    expect(parseChoiceSetVote('ranking', ITEMS, { ranking: ['A', 'A'] }).valid).toBe(false);
+    expect(parseChoiceSetVote('ranking', ITEMS, { ranking: ['A', 'E'] }).valid).toBe(false);
+    expect(parseChoiceSetVote('ranking', ITEMS, { bestId: 'A', worstId: 'B' }).valid).toBe(false);
+  });
+
+  it('should require distinct best and worst picks in best-worst mode', () => {
+    expect(parseChoiceSetVote('best-worst', ITEMS, { bestId: 'A', worstId: 'D' }).data)
+      .toEqual({ ranking: ['A'], worstId: 'D' });
+    expect(parseChoiceSetVote('best-worst', ITEMS, { bestId: 'A', worstId: 'A' }).valid).toBe(false);
+    expect(parseChoiceSetVote('best-worst', ITEMS, { bestId: 'A' }).valid).toBe(false);
+    expect(parseChoiceSetVote('best-worst', ITEMS, { bestId: 'E', worstId: 'A' }).valid).toBe(false);
+  });
+});
+
+describe('decomposeChoiceSetVote', () => {
+  it('should break a full ranking into every ordered pair', () => {
+    expect(decomposeChoiceSetVote(ITEMS, { ranking: ['B', 'A', 'D', 'C'], worstId: null })).toEqual([
+      ['B', 'A'], ['B', 'D'], ['B', 'C'],
+      ['A', 'D'], ['A', 'C'],
+      ['D', 'C'],
+    ]);
+  });
+
+  it('should rank unlisted items below a partial ranking without ordering them', () => {
+    expect(decomposeChoiceSetVote(ITEMS, { ranking: ['C'], worstId: null })).toEqual([
+      ['C', 'A'], ['C', 'B'], ['C', 'D'],
+    ]);
+  });
+
+  it('should let the best beat all and all beat the worst', () => {
+    expect(decomposeChoiceSetVote([...ITEMS, 'E'], { ranking: ['B'], worstId: 'D' })).toEqual([
+      ['B', 'A'], ['B', 'C'], ['B', 'D'], ['B', 'E'],
+      ['A', 'D'], ['C', 'D'], ['E', 'D'],
+    ]);
+  });
+});
+
+describe('buildChoiceObservations for choice sets', () => {
+  it('should read full, partial and best-worst votes back from their rows', () => {
+    const observations = buildChoiceObservations([
+      ...groupRows('g1', ITEMS, { ranking: ['B', 'A', 'D', 'C'], worstId: null }),
+      ...groupRows('g2', ITEMS, { ranking: ['D', 'C'], worstId: null }),
+      ...groupRows('g3', ITEMS, { ranking: ['C'], worstId: 'A' }),
+      ...groupRows('g4', ITEMS, { ranking: ['A'], worstId: null }),
+    ]);
+
+    expect(observations.map(({ ranking, worst }) => ({ ranking, worst }))).toEqual([
+      { ranking: ['B', 'A', 'D', 'C'], worst: undefined },
+      { ranking: ['D', 'C'], worst: undefined },
+      { ranking: ['C'], worst: ['A'] },
+      { ranking: ['A'], worst: undefined },
+    ]);
+    expect(observations.every((o) => o.itemIds.length === 4)).toBe(true);
+  });
+});
+
+describe('estimatePlackettLuce with best-worst votes', () => {
+  it('should recover the true order from best and worst picks', () => {
+    // True order A > B > C > D > E > F; every 4-item set, best and worst picked
+    // by the true order, plus some upsets so the MLE exists
+    const order = ['A', 'B', 'C', 'D', 'E', 'F'];
+    const sets: string[][] = [];
+    for (let a = 0; a < 6; a++)
+      for (let b = a + 1; b < 6; b++)
+        for (let c = b + 1; c < 6; c++)
+          for (let d = c + 1; d < 6; d++) sets.push([order[a], order[b], order[c], order[d]]);
+
+    const observations = sets.flatMap((set, i) => {
+      const expected = { itemIds: set, ranking: [set[0]], worst: [set[3]] };
+      const votes = [expected, expected];
+      if (i % 3 === 0) votes.push({ itemIds: set, ranking: [set[1]], worst: [set[2]] });
+      return votes;
+    });
+
+    const result = estimatePlackettLuce(observations);
+    const estimated = [...order].sort((x, y) => result.abilities.get(y)! - result.abilities.get(x)!);
+    expect(estimated).toEqual(order);
+    expect(result.logLikelihood).toBeLessThan(0);
+  });
+
+  it('should learn from worst picks alone', () => {
+    const observations = Array.from({ length: 6 }, () => ({ itemIds: ['A', 'B', 'C'], ranking: [], worst: ['C'] }));
+    observations.push({ itemIds: ['A', 'B', 'C'], ranking: [], worst: ['A'] });
+    observations.push({ itemIds: ['A', 'B', 'C'], ranking: [], worst: ['B'] });
+    const result = estimatePlackettLuce(observations);
+    expect(result.abilities.get('C')!).toBeLessThan(result.abilities.get('A')!);
+    expect(result.abilities.get('A')!).toBeCloseTo(result.abilities.get('B')!, 6);
+  });
+});
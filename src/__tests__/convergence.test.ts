@@ -0,0 +1,176 @@
+/**
+ * Tests for Convergence Monitoring
+ *
+ * Validates:
+ * - Spearman's ρ, Kendall's τ-b and top-N churn between two orders
+ * - Per-category snapshot comparison and the stability rule
+ * - Snapshot orders following the study's ranking method
+ * - Recording snapshots: interval, converged state and auto-deactivation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildSnapshotRankings,
+  compareSnapshots,
+  hasConverged,
+  isStableChange,
+  kendallTauOrders,
+  recordRankingSnapshot,
+  spearmanRho,
+  topNChurn,
+  type SnapshotItem,
+} from '@/lib/ranking/convergence';
+
+const db = vi.hoisted(() => ({
+  study: { findUnique: vi.fn(), update: vi.fn() },
+  comparison: { count: vi.fn() },
+  item: { findMany: vi.fn() },
+  rankingSnapshot: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn() },
+}));
+vi.mock('@/lib/db', () => ({ prisma: db }));
+vi.mock('@/lib/logging', () => ({ logActivity: vi.fn() }));
+
+function item(id: string, eloRating: number, overrides: Partial<SnapshotItem> = {}): SnapshotItem {
+  return {
+    id,
+    categoryId: 'cat1',
+    eloRating,
+    artistRank: null,
+    comparisonCount: 10,
+    winCount: 5,
+    lossCount: 5,
+    btAbility: 0,
+    glickoRating: 1500,
+    glickoRd: 100,
+    ...overrides,
+  };
+}
+
+describe('rank correlations', () => {
+  it('should be 1 for the same order and -1 for the reverse', () => {
+    expect(spearmanRho(['A', 'B', 'C', 'D'], ['A', 'B', 'C', 'D'])).toBe(1);
+    expect(spearmanRho(['A', 'B', 'C', 'D'], ['D', 'C', 'B', 'A'])).toBe(-1);
+    expect(kendallTauOrders(['A', 'B', 'C'], ['C', 'B', 'A'])).toBe(-1);
+  });
+
+  it('should match the textbook formula for one swap', () => {
+    // d = (0, 0, 1, −1): ρ = 1 − 6·2 / (4·15) = 0.8; τ = (5 − 1) / 6
+    expect(spearmanRho(['A', 'B', 'C', 'D'], ['A', 'B', 'D', 'C'])).toBeCloseTo(0.8, 10);
+    expect(kendallTauOrders(['A', 'B', 'C', 'D'], ['A', 'B', 'D', 'C'])).toBeCloseTo(4 / 6, 10);
+  });
+
+  it('should only compare items in both orders', () => {
+    expect(spearmanRho(['A', 'X', 'B', 'C'], ['A', 'B', 'Y', 'C'])).toBe(1);
+    expect(spearmanRho(['A'], ['A', 'B'])).toBeNull();
+  });
+});
+
+describe('topNChurn', () => {
+  it('should count items entering the top N', () => {
+    expect(topNChurn(['A', 'B', 'C', 'D'], ['B', 'A', 'C', 'D'], 2)).toBe(0);
+    expect(topNChurn(['A', 'B', 'C', 'D'], ['A', 'C', 'B', 'D'], 2)).toBe(1);
+  });
+});
+
+describe('compareSnapshots', () => {
+  it('should report the weakest category and total churn', () => {
+    const change = compareSnapshots(
+      { cat1: ['A', 'B', 'C', 'D'], cat2: ['E', 'F', 'G'] },
+      { cat1: ['A', 'B', 'C', 'D'], cat2: ['F', 'E', 'G'], cat3: ['H', 'I'] },
+      1,
+    );
+    expect(change.spearman).toBeCloseTo(0.5, 10);
+    expect(change.kendall).toBeCloseTo(1 / 3, 10);
+    expect(change.topNChurn).toBe(1);
+    expect(isStableChange(change, 0.9)).toBe(false);
+  });
+
+  it('should call an unchanged ranking stable', () => {
+    const change = compareSnapshots({ all: ['A', 'B', 'C'] }, { all: ['A', 'B', 'C'] }, 2);
+    expect(isStableChange(change, 0.98)).toBe(true);
+  });
+});
+
+describe('hasConverged', () => {
+  it('should need the last window snapshots to be stable', () => {
+    expect(hasConverged([{ stable: false }, { stable: true }, { stable: true }], 2)).toBe(true);
+    expect(hasConverged([{ stable: true }, { stable: false }, { stable: true }], 2)).toBe(false);
+    expect(hasConverged([{ stable: true }], 2)).toBe(false);
+  });
+});
+
+describe('buildSnapshotRankings', () => {
+  it('should order each category by the study method', () => {
+    const items = [
+      item('A', 1600, { btAbility: -1 }),
+      item('B', 1500, { btAbility: 1 }),
+      item('C', 1550, { categoryId: null }),
+    ];
+    expect(buildSnapshotRankings(items, 'ELO')).toEqual({ cat1: ['A', 'B'], all: ['C'] });
+    expect(buildSnapshotRankings(items, 'BRADLEY_TERRY').cat1).toEqual(['B', 'A']);
+  });
+});
+
+describe('recordRankingSnapshot', () => {
+  const settings = {
+    rankingMethod: 'ELO',
+    targetTopN: 1,
+    excludeFlaggedFromElo: false,
+    btUpdatedAt: null,
+    convergenceInterval: 10,
+    convergenceMinCorrelation: 0.9,
+    convergenceWindow: 2,
+    autoDeactivateOnConvergence: true,
+    convergedAt: null,
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.item.findMany.mockResolvedValue([item('A', 1600), item('B', 1550), item('C', 1500)]);
+  });
+
+  it('should wait for the interval', async () => {
+    db.study.findUnique.mockResolvedValue(settings);
+    db.comparison.count.mockResolvedValue(25);
+    db.rankingSnapshot.findFirst.mockResolvedValue({ comparisonCount: 20, rankings: { cat1: ['A', 'B', 'C'] } });
+
+    expect(await recordRankingSnapshot('study-1')).toBe(false);
+    expect(db.rankingSnapshot.create).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing with monitoring off', async () => {
+    db.study.findUnique.mockResolvedValue({ ...settings, convergenceInterval: null });
+    expect(await recordRankingSnapshot('study-1')).toBe(false);
+    expect(db.comparison.count).not.toHaveBeenCalled();
+  });
+
+  it('should mark the study converged and deactivate it', async () => {
+    db.study.findUnique.mockResolvedValue(settings);
+    db.comparison.count.mockResolvedValue(30);
+    db.rankingSnapshot.findFirst.mockResolvedValue({ comparisonCount: 20, rankings: { cat1: ['A', 'B', 'C'] } });
+    db.rankingSnapshot.findMany.mockResolvedValue([{ stable: true }, { stable: true }]);
+
+    expect(await recordRankingSnapshot('study-1')).toBe(true);
+    expect(db.rankingSnapshot.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ comparisonCount: 30, spearman: 1, kendall: 1, topNChurn: 0, stable: true }),
+    });
+    expect(db.study.update).toHaveBeenCalledWith({
+      where: { id: 'study-1' },
+      data: { convergedAt: expect.any(Date), isActive: false },
+    });
+  });
+
+  it('should clear the converged state when the ranking moves again', async () => {
+    db.study.findUnique.mockResolvedValue({ ...settings, convergedAt: new Date() });
+    db.comparison.count.mockResolvedValue(30);
+    db.rankingSnapshot.findFirst.mockResolvedValue({ comparisonCount: 20, rankings: { cat1: ['C', 'B', 'A'] } });
+    db.rankingSnapshot.findMany.mockResolvedValue([{ stable: false }, { stable: true }]);
+
+    await recordRankingSnapshot('study-1');
+    expect(db.rankingSnapshot.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ spearman: -1, topNChurn: 1, stable: false }),
+    });
+    expect(db.study.update).toHaveBeenCalledWith({ where: { id: 'study-1' }, data: { convergedAt: null } });
+  });
+});
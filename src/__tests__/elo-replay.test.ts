@@ -0,0 +1,244 @@
+/**
+ * Tests for Elo Replay Engine
+ *
+ * Validates:
+ * - Seeding with initial rating + artist boost
+ * - Chronological replay matches sequential calculateEloChange
+ * - Test, flagged and session filters
+ * - Quad votes applied against pre-vote ratings
+ * - No-preference and graded pair votes
+ * - Diffs against stored ratings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateEloChange, calculateAdaptiveK } from '@/lib/ranking/elo';
+import {
+  replayElo,
+  diffReplay,
+  groupIntoVotes,
+  type ReplayComparison,
+} from '@/lib/ranking/replay';
+
+const items = [
+  { id: 'a', artistEloBoost: 0 },
+  { id: 'b', artistEloBoost: 100 },
+  { id: 'c', artistEloBoost: 0 },
+  { id: 'd', artistEloBoost: 0 },
+];
+
+const options = { initialRating: 1500, kFactor: 32, adaptiveK: false };
+
+let seq = 0;
+function comparison(
+  winnerId: string,
+  loserId: string,
+  overrides: Partial<ReplayComparison> = {}
+): ReplayComparison {
+  seq++;
+  return {
+    id: `cmp${String(seq).padStart(4, '0')}`,
+    createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, seq)),
+    sessionId: 's1',
+    itemAId: winnerId,
+    itemBId: loserId,
+    winnerId,
+    leftItemId: winnerId,
+    rightItemId: loserId,
+    isFlagged: false,
+    flagReason: null,
+    algoVersion: 'sciblind-v2',
+    ...overrides,
+  };
+}
+
+describe('replayElo', () => {
+  it('should seed items with initial rating plus artist boost', () => {
+    const result = replayElo(items, [], options);
+    expect(result.items.get('a')!.eloRating).toBe(1500);
+    expect(result.items.get('b')!.eloRating).toBe(1600);
+    expect(result.applied).toBe(0);
+  });
+
+  it('should match sequential Elo updates in createdAt order', () => {
+    const first = comparison('a', 'b');
+    const second = comparison('b', 'a');
+    // Pass out of order — replay must sort chronologically
+    const result = replayElo(items, [second, first], options);
+
+    const step1 = calculateEloChange(1500, 1600, 32);
+    const step2 = calculateEloChange(step1.loserNewRating, step1.winnerNewRating, 32);
+
+    expect(result.items.get('a')!.eloRating).toBeCloseTo(step2.loserNewRating, 8);
+    expect(result.items.get('b')!.eloRating).toBeCloseTo(step2.winnerNewRating, 8);
+    expect(result.items.get('a')).toMatchObject({ eloGames: 2, winCount: 1, lossCount: 1, leftCount: 1, rightCount: 1 });
+  });
+
+  it('should use adaptive K when enabled', () => {
+    const result = replayElo(items, [comparison('a', 'c')], { ...options, adaptiveK: true });
+    const expected = calculateEloChange(1500, 1500, calculateAdaptiveK(32, 0, 0));
+    expect(result.items.get('a')!.eloRating).toBeCloseTo(expected.winnerNewRating, 8);
+  });
+
+  it('should exclude test sessions by default', () => {
+    const result = replayElo(
+      items,
+      [
+        comparison('a', 'c', { isFlagged: true, flagReason: 'test_session' }),
+        comparison('a', 'c', { isTestSession: true }),
+        comparison('c', 'a'),
+      ],
+      options
+    );
+    expect(result.applied).toBe(1);
+    expect(result.skipped.test).toBe(2);
+    expect(result.items.get('c')!.eloRating).toBeGreaterThan(1500);
+  });
+
+  it('should include test sessions when asked', () => {
+    const result = replayElo(
+      items,
+      [comparison('a', 'c', { isFlagged: true, flagReason: 'test_session' })],
+      { ...options, filters: { excludeTest: false, excludeFlagged: true } }
+    );
+    expect(result.applied).toBe(1);
+  });
+
+  it('should exclude flagged votes and chosen sessions', () => {
+    const result = replayElo(
+      items,
+      [
+        comparison('a', 'c', { isFlagged: true, flagReason: 'too_fast' }),
+        comparison('a', 'c', { sessionId: 's2' }),
+        comparison('c', 'a'),
+      ],
+      { ...options, filters: { excludeFlagged: true, excludeSessionIds: ['s2'] } }
+    );
+    expect(result.applied).toBe(1);
+    expect(result.skipped).toEqual({ test: 0, flagged: 1, session: 1, unknownItem: 0 });
+  });
+
+  it('should still count flagged votes left out of the ratings', () => {
+    const result = replayElo(
+      items,
+      [comparison('a', 'c', { isFlagged: true, flagReason: 'too_fast' })],
+      { ...options, filters: { excludeFlagged: true } }
+    );
+    expect(result.applied).toBe(0);
+    expect(result.items.get('a')).toMatchObject({
+      eloRating: 1500,
+      eloGames: 0,
+      comparisonCount: 1,
+      winCount: 1,
+      leftCount: 1,
+    });
+    expect(result.items.get('c')).toMatchObject({ eloRating: 1500, comparisonCount: 1, lossCount: 1, rightCount: 1 });
+  });
+
+  it('should skip comparisons referencing unknown items', () => {
+    const result = replayElo(items, [comparison('a', 'zzz')], options);
+    expect(result.skipped.unknownItem).toBe(1);
+  });
+
+  it('should apply quad votes against pre-vote ratings', () => {
+    const quad = { algoVersion: 'sciblind-v2-quad' };
+    const result = replayElo(
+      items,
+      [comparison('a', 'b', quad), comparison('a', 'c', quad), comparison('a', 'd', quad)],
+      options
+    );
+
+    const vsB = calculateEloChange(1500, 1600, 32);
+    const vsC = calculateEloChange(1500, 1500, 32);
+    expect(result.items.get('a')!.eloRating).toBeCloseTo(1500 + vsB.winnerDelta + 2 * vsC.winnerDelta, 8);
+    expect(result.items.get('d')!.eloRating).toBeCloseTo(vsC.loserNewRating, 8);
+    // Quad votes don't track left/right position
+    expect(result.items.get('a')!.leftCount).toBe(0);
+    expect(result.items.get('a')!.eloGames).toBe(3);
+  });
+
+  it('should replay no-preference votes as draws without wins or losses', () => {
+    const result = replayElo(items, [comparison('a', 'b', { winnerId: null })], options);
+
+    const draw = calculateEloChange(1500, 1600, 32, 0.5);
+    expect(result.items.get('a')!.eloRating).toBeCloseTo(draw.winnerNewRating, 8);
+    expect(result.items.get('b')!.eloRating).toBeCloseTo(draw.loserNewRating, 8);
+    expect(result.items.get('a')).toMatchObject({ eloGames: 1, winCount: 0, lossCount: 0 });
+    expect(result.items.get('b')).toMatchObject({ eloGames: 1, winCount: 0, lossCount: 0 });
+  });
+
+  it('should replay slight preferences with a partial score', () => {
+    const result = replayElo(items, [comparison('c', 'd', { preferenceStrength: 1 })], options);
+
+    expect(result.items.get('c')!.eloRating).toBeCloseTo(1508, 8);
+    expect(result.items.get('c')!.winCount).toBe(1);
+    expect(result.items.get('d')!.lossCount).toBe(1);
+  });
+});
+
+describe('groupIntoVotes', () => {
+  it('should split consecutive quads with the same winner into batches of 3', () => {
+    const quad = { algoVersion: 'sciblind-v2-quad' };
+    const rows = [
+      comparison('a', 'b', quad), comparison('a', 'c', quad), comparison('a', 'd', quad),
+      comparison('a', 'b', quad), comparison('a', 'c', quad), comparison('a', 'd', quad),
+      comparison('a', 'b'), comparison('a', 'c'),
+    ];
+    expect(groupIntoVotes(rows).map((v) => v.length)).toEqual([3, 3, 1, 1]);
+  });
+
+  it('should recognize quad rows tagged with a matchmaking strategy', () => {
+    const quad = { algoVersion: 'sciblind-v2-quad/swiss@1' };
+    const pair = { algoVersion: 'sciblind-v2/swiss@1' };
+    const rows = [
+      comparison('a', 'b', quad), comparison('a', 'c', quad), comparison('a', 'd', quad),
+      comparison('a', 'b', pair), comparison('a', 'c', pair),
+    ];
+    expect(groupIntoVotes(rows).map((v) => v.length)).toEqual([3, 1, 1]);
+  });
+
+  it('should group ranking and best-worst rows by their choice group', () => {
+    const ranking = { algoVersion: 'sciblind-v2-ranking', choiceGroupId: 'g1' };
+    const bestWorst = { algoVersion: 'sciblind-v2-best-worst', choiceGroupId: 'g2' };
+    const rows = [
+      comparison('a', 'b', ranking), comparison('a', 'c', ranking), comparison('b', 'c', ranking),
+      comparison('d', 'a', bestWorst), comparison('d', 'b', bestWorst), comparison('d', 'c', bestWorst),
+      comparison('a', 'c', bestWorst), comparison('b', 'c', bestWorst),
+      comparison('a', 'b'),
+    ];
+    expect(groupIntoVotes(rows).map((v) => v.length)).toEqual([3, 5, 1]);
+  });
+
+  it('should apply a ranking vote against pre-vote ratings', () => {
+    const group = { algoVersion: 'sciblind-v2-ranking', choiceGroupId: 'g1' };
+    const result = replayElo(items, [
+      comparison('c', 'a', group), comparison('c', 'd', group), comparison('a', 'd', group),
+    ], options);
+
+    // c beats a and d at 1500; a beats d at 1500 (not at a's post-loss rating)
+    const even = calculateEloChange(1500, 1500, 32).winnerNewRating - 1500;
+    expect(result.items.get('c')!.eloRating).toBeCloseTo(1500 + 2 * even, 6);
+    expect(result.items.get('a')!.eloRating).toBeCloseTo(1500, 6);
+    expect(result.items.get('d')!.eloRating).toBeCloseTo(1500 - 2 * even, 6);
+  });
+});
+
+describe('diffReplay', () => {
+  it('should only report changed items, largest change first', () => {
+    const replay = replayElo(items, [comparison('a', 'c')], options);
+    const stored = items.map((item) => ({
+      id: item.id,
+      eloRating: 1500 + item.artistEloBoost,
+      eloGames: 0,
+      comparisonCount: 0,
+      winCount: 0,
+      lossCount: 0,
+      leftCount: 0,
+      rightCount: 0,
+    }));
+    stored[2].eloRating = 1400; // corrupted
+
+    const diffs = diffReplay(stored, replay);
+    expect(diffs.map((d) => d.itemId)).toEqual(['c', 'a']);
+    expect(diffs[0].ratingDelta).toBeCloseTo(replay.items.get('c')!.eloRating - 1400, 8);
+  });
+});
@@ -56,6 +56,24 @@ describe('calculateEloChange', () => {
     const result = calculateEloChange(1500, 1500);
     expect(result.winnerDelta).toBeCloseTo(16, 1);
   });
+
+  it('should leave equal ratings unchanged on a draw', () => {
+    const result = calculateEloChange(1500, 1500, 32, 0.5);
+    expect(result.winnerDelta).toBeCloseTo(0, 8);
+    expect(result.loserDelta).toBeCloseTo(0, 8);
+  });
+
+  it('should move a draw towards the weaker item', () => {
+    const result = calculateEloChange(1600, 1400, 32, 0.5);
+    expect(result.winnerDelta).toBeLessThan(0);
+    expect(result.loserDelta).toBeCloseTo(-result.winnerDelta, 8);
+  });
+
+  it('should give a slight preference a smaller delta than a win', () => {
+    const slight = calculateEloChange(1500, 1500, 32, 0.75);
+    expect(slight.winnerDelta).toBeCloseTo(8, 8);
+    expect(slight.winnerDelta + slight.loserDelta).toBeCloseTo(0, 8);
+  });
 });
 
 describe('expectedScore', () => {
@@ -0,0 +1,216 @@
+/**
+ * Tests for Glicko-2 Rating System
+ *
+ * Validates:
+ * - Glickman's reference example (rating, RD, volatility)
+ * - Deviation shrinks with games and grows without them
+ * - Uncertain items move more than well-known ones
+ * - Expected score function
+ * - Confidence interval and ranking order
+ * - RD-based publishable threshold and matchmaking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateGlicko2Change,
+  compareItemsByGlicko,
+  glicko2ExpectedScore,
+  glickoConfidenceInterval,
+  updateGlicko2,
+  GLICKO2_DEFAULT_RATING,
+  GLICKO2_DEFAULT_RD,
+  GLICKO2_DEFAULT_VOLATILITY,
+} from '@/lib/ranking/glicko2';
+import { isPublishableThreshold } from '@/lib/ranking/statistics';
+import { selectNextPair } from '@/lib/matchmaking';
+
+const fresh = {
+  rating: GLICKO2_DEFAULT_RATING,
+  rd: GLICKO2_DEFAULT_RD,
+  volatility: GLICKO2_DEFAULT_VOLATILITY,
+};
+
+describe('updateGlicko2', () => {
+  it('should reproduce Glickman\'s worked example', () => {
+    const player = { rating: 1500, rd: 200, volatility: 0.06 };
+    const result = updateGlicko2(player, [
+      { opponent: { rating: 1400, rd: 30, volatility: 0.06 }, score: 1 },
+      { opponent: { rating: 1550, rd: 100, volatility: 0.06 }, score: 0 },
+      { opponent: { rating: 1700, rd: 300, volatility: 0.06 }, score: 0 },
+    ], 0.5);
+
+    expect(result.rating).toBeCloseTo(1464.06, 1);
+    expect(result.rd).toBeCloseTo(151.52, 1);
+    expect(result.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it('should only grow the deviation without games', () => {
+    const player = { rating: 1600, rd: 100, volatility: 0.06 };
+    const result = updateGlicko2(player, []);
+    expect(result.rating).toBe(1600);
+    expect(result.rd).toBeGreaterThan(100);
+  });
+
+  it('should never exceed the initial deviation', () => {
+    expect(updateGlicko2(fresh, []).rd).toBe(GLICKO2_DEFAULT_RD);
+  });
+});
+
+describe('calculateGlicko2Change', () => {
+  it('should move equal ratings symmetrically', () => {
+    const result = calculateGlicko2Change(fresh, fresh);
+    expect(result.winner.rating - 1500).toBeCloseTo(1500 - result.loser.rating, 5);
+    expect(result.winner.rating).toBeGreaterThan(1500);
+  });
+
+  it('should shrink both deviations', () => {
+    const result = calculateGlicko2Change(fresh, fresh);
+    expect(result.winner.rd).toBeLessThan(GLICKO2_DEFAULT_RD);
+    expect(result.loser.rd).toBeLessThan(GLICKO2_DEFAULT_RD);
+  });
+
+  it('should give smaller gain when favorite wins', () => {
+    const strong = { ...fresh, rating: 1700, rd: 80 };
+    const weak = { ...fresh, rating: 1300, rd: 80 };
+    const favoriteWins = calculateGlicko2Change(strong, weak);
+    const underdogWins = calculateGlicko2Change(weak, strong);
+    expect(favoriteWins.winner.rating - strong.rating).toBeLessThan(underdogWins.winner.rating - weak.rating);
+  });
+
+  it('should move uncertain items more than well-known ones', () => {
+    const known = { ...fresh, rd: 50 };
+    const result = calculateGlicko2Change(fresh, known);
+    expect(result.winner.rating - 1500).toBeGreaterThan(1500 - result.loser.rating);
+  });
+
+  it('should learn more from a well-known opponent', () => {
+    const vsKnown = calculateGlicko2Change(fresh, { ...fresh, rd: 50 });
+    const vsUnknown = calculateGlicko2Change(fresh, fresh);
+    expect(vsKnown.winner.rd).toBeLessThan(vsUnknown.winner.rd);
+  });
+
+  it('should shrink the deviation steadily over many games', () => {
+    let a = fresh;
+    let b = fresh;
+    for (let i = 0; i < 20; i++) {
+      const result = i % 2 === 0 ? calculateGlicko2Change(a, b) : calculateGlicko2Change(b, a);
+      [a, b] = i % 2 === 0 ? [result.winner, result.loser] : [result.loser, result.winner];
+    }
+    expect(a.rd).toBeLessThan(110);
+    expect(b.rd).toBeLessThan(110);
+  });
+});
+
+describe('glicko2ExpectedScore', () => {
+  it('should return 0.5 for equal ratings', () => {
+    expect(glicko2ExpectedScore(fresh, fresh)).toBeCloseTo(0.5, 5);
+  });
+
+  it('should be symmetric (p_AB + p_BA = 1)', () => {
+    const a = { ...fresh, rating: 1600, rd: 80 };
+    const b = { ...fresh, rating: 1400, rd: 120 };
+    expect(glicko2ExpectedScore(a, b) + glicko2ExpectedScore(b, a)).toBeCloseTo(1.0, 10);
+  });
+
+  it('should be less confident when deviations are large', () => {
+    const certain = glicko2ExpectedScore({ ...fresh, rating: 1700, rd: 30 }, { ...fresh, rating: 1500, rd: 30 });
+    const uncertain = glicko2ExpectedScore({ ...fresh, rating: 1700 }, { ...fresh, rating: 1500 });
+    expect(certain).toBeGreaterThan(uncertain);
+    expect(uncertain).toBeGreaterThan(0.5);
+  });
+});
+
+describe('glickoConfidenceInterval', () => {
+  it('should span ±1.96 RD', () => {
+    expect(glickoConfidenceInterval(1600, 50)).toEqual({ lower: 1600 - 98, upper: 1600 + 98 });
+  });
+});
+
+describe('compareItemsByGlicko', () => {
+  const base = { eloRating: 1500, artistRank: null, comparisonCount: 10, winCount: 5, lossCount: 5 };
+
+  it('should sort by rating, then lower deviation', () => {
+    const items = [
+      { ...base, id: 'low', glickoRating: 1400, glickoRd: 50 },
+      { ...base, id: 'uncertain', glickoRating: 1600, glickoRd: 150 },
+      { ...base, id: 'certain', glickoRating: 1600, glickoRd: 60 },
+    ];
+    expect(items.sort(compareItemsByGlicko).map((i) => i.id)).toEqual(['certain', 'uncertain', 'low']);
+  });
+});
+
+describe('isPublishableThreshold with rating deviations', () => {
+  const comparisons = [
+    { winnerId: 'a', itemAId: 'a', itemBId: 'b' },
+    { winnerId: 'b', itemAId: 'b', itemBId: 'c' },
+  ];
+  const thresholds = { minExposuresPerItem: 50, minTotalComparisons: 2, maxRatingDeviation: 100 };
+
+  it('should judge items by RD instead of exposure counts', () => {
+    const items = [
+      { id: 'a', comparisonCount: 1, ratingDeviation: 90 },
+      { id: 'b', comparisonCount: 2, ratingDeviation: 80 },
+      { id: 'c', comparisonCount: 1, ratingDeviation: 95 },
+    ];
+    const result = isPublishableThreshold(items, comparisons, thresholds);
+    expect(result.conditions.minExposures.met).toBe(false);
+    expect(result.conditions.ratingPrecision).toEqual({
+      met: true,
+      required: 100,
+      maxObserved: 95,
+      itemsAboveThreshold: 0,
+    });
+    expect(result.isPublishable).toBe(true);
+  });
+
+  it('should fail while any item is too uncertain', () => {
+    const items = [
+      { id: 'a', comparisonCount: 1, ratingDeviation: 90 },
+      { id: 'b', comparisonCount: 2, ratingDeviation: 80 },
+      { id: 'c', comparisonCount: 1, ratingDeviation: 140 },
+    ];
+    const result = isPublishableThreshold(items, comparisons, thresholds);
+    expect(result.conditions.ratingPrecision?.itemsAboveThreshold).toBe(1);
+    expect(result.isPublishable).toBe(false);
+  });
+
+  it('should keep count-based exposures without deviations', () => {
+    const items = [
+      { id: 'a', comparisonCount: 1 },
+      { id: 'b', comparisonCount: 2 },
+      { id: 'c', comparisonCount: 1 },
+    ];
+    const result = isPublishableThreshold(items, comparisons, thresholds);
+    expect(result.conditions.ratingPrecision).toBeUndefined();
+    expect(result.isPublishable).toBe(false);
+  });
+});
+
+describe('selectNextPair with Glicko', () => {
+  function item(id: string, glickoRd: number, comparisonCount: number): any {
+    return {
+      id,
+      eloRating: 1500,
+      comparisonCount,
+      leftCount: 0,
+      rightCount: 0,
+      glickoRating: 1500,
+      glickoRd,
+    };
+  }
+
+  it('should prefer the most uncertain items over the least compared', () => {
+    // c and d have few comparisons but are already precise; a and b are not
+    const items = [item('a', 300, 20), item('b', 280, 20), item('c', 60, 2), item('d', 60, 2)];
+    const seen = [
+      { itemAId: 'a', itemBId: 'c' },
+      { itemAId: 'b', itemBId: 'd' },
+    ] as any[];
+
+    const byCount = selectNextPair(items, seen);
+    expect([byCount!.itemA.id, byCount!.itemB.id].sort()).toEqual(['c', 'd']);
+
+    const byRd = selectNextPair(items, seen, { useGlicko: true });
+    expect([byRd!.itemA.id, byRd!.itemB.id].sort()).toEqual(['a', 'b']);
+  });
+});
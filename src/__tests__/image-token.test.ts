@@ -0,0 +1,89 @@
+/**
+ * Tests for Signed Image Tokens
+ *
+ * Validates:
+ * - Round-trip of opaque IDs
+ * - Opaque IDs do not reveal item IDs and differ per issuance
+ * - Session binding via HMAC
+ * - Tamper and expiry rejection
+ * - Participant URL building
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createImageToken,
+  readImageToken,
+  verifyImageTokenSession,
+  getParticipantImageUrl,
+} from '@/lib/security/image-token';
+
+const payload = {
+  studyId: 'cml808mzc0000m104un333c69',
+  sessionId: 'cmsession0000000000000001',
+  itemId: 'cmitem000000000000000001',
+};
+const sessionToken = 'a'.repeat(64);
+
+describe('image tokens', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should round-trip the payload', () => {
+    const token = createImageToken(payload, sessionToken);
+    const decoded = readImageToken(token);
+    expect(decoded).toMatchObject(payload);
+    expect(decoded!.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('should not reveal the item ID and should differ per issuance', () => {
+    const a = createImageToken(payload, sessionToken);
+    const b = createImageToken(payload, sessionToken);
+    expect(a).not.toContain(payload.itemId);
+    expect(a).not.toBe(b);
+    expect(a).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+  });
+
+  it('should be bound to the session token', () => {
+    const token = createImageToken(payload, sessionToken);
+    expect(verifyImageTokenSession(token, sessionToken)).toBe(true);
+    expect(verifyImageTokenSession(token, 'b'.repeat(64))).toBe(false);
+  });
+
+  it('should reject tampered tokens', () => {
+    const token = createImageToken(payload, sessionToken);
+    const [encrypted, mac] = token.split('.');
+    const flipped = encrypted.slice(0, -2) + (encrypted.endsWith('A') ? 'B' : 'A') + encrypted.slice(-1);
+    expect(readImageToken(`${flipped}.${mac}`)).toBeNull();
+    expect(readImageToken('garbage')).toBeNull();
+    expect(readImageToken('')).toBeNull();
+  });
+
+  it('should expire', () => {
+    vi.useFakeTimers();
+    const token = createImageToken(payload, sessionToken, 60 * 1000);
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    expect(readImageToken(token)).toBeNull();
+  });
+});
+
+describe('getParticipantImageUrl', () => {
+  const session = { id: payload.sessionId, token: sessionToken };
+
+  it('should return a proxy URL without the storage key', () => {
+    const url = getParticipantImageUrl(payload.studyId, session, {
+      id: payload.itemId,
+      imageKey: 'izvrs/3-razredi/31.webp',
+    });
+    expect(url).toMatch(new RegExp(`^/api/participate/${payload.studyId}/image/[A-Za-z0-9_.-]+$`));
+    expect(url).not.toContain('razredi');
+    expect(url).not.toContain(payload.itemId);
+  });
+
+  it('should pass through items without a storage key', () => {
+    expect(getParticipantImageUrl(payload.studyId, session, { id: 'x', imageKey: null })).toBeNull();
+    expect(
+      getParticipantImageUrl(payload.studyId, session, { id: 'x', imageKey: null, imageUrl: '/placeholder.webp' })
+    ).toBe('/placeholder.webp');
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Tests for the Matchmaking Strategy Registry
+ *
+ * Validates:
+ * - Config validation (unknown strategies/params, bounds, defaults)
+ * - Fallback to coverage-first for missing or stale configs
+ * - algoVersion formatting and parsing
+ * - Every built-in strategy: no repeated pairs, full coverage
+ * - Strategy-specific behaviour (streak limit, Swiss rounds, tournament, top-N focus, quads)
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Comparison } from '@prisma/client';
+import { hasFullCoverage } from '@/lib/matchmaking';
+import {
+  formatAlgoVersion,
+  getMatchmakingStrategy,
+  listMatchmakingStrategies,
+  parseAlgoVersion,
+  parseMatchmakingConfig,
+  registerMatchmakingStrategy,
+  resolveMatchmakingConfig,
+  selectPairWithStrategy,
+  selectQuadWithStrategy,
+  type MatchmakingConfig,
+} from '@/lib/matchmaking/strategies';
+
+function createMockItems(count: number): any[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `item-${i}`,
+    eloRating: 1500 + i * 10,
+    comparisonCount: 0,
+    leftCount: 0,
+    rightCount: 0,
+    btAbility: 0,
+    btStdError: null,
+    glickoRating: 1500,
+    glickoRd: 350,
+    glickoVolatility: 0.06,
+  }));
+}
+
+function createMockComparison(itemAId: string, itemBId: string, winnerId: string | null = itemAId): Comparison {
+  return {
+    id: `${itemAId}-${itemBId}`,
+    createdAt: new Date(0),
+    studyId: 'study-1',
+    sessionId: 'session-1',
+    categoryId: null,
+    itemAId,
+    itemBId,
+    winnerId,
+    preferenceStrength: null,
+    leftItemId: itemAId,
+    rightItemId: itemBId,
+    responseTimeMs: null,
+    isFlagged: false,
+    flagReason: null,
+    algoVersion: 'sciblind-v2',
+    choiceGroupId: null,
+    idempotencyKey: null,
+  };
+}
+
+function config(strategy: string, params: Record<string, unknown> = {}): MatchmakingConfig {
+  const parsed = parseMatchmakingConfig({ strategy, params });
+  expect(parsed.valid).toBe(true);
+  return parsed.data!;
+}
+
+/** Run a session where the higher-numbered item always wins */
+function runSession(matchmaking: MatchmakingConfig, items: any[], votes: number): Comparison[] {
+  const comparisons: Comparison[] = [];
+  for (let v = 0; v < votes; v++) {
+    const pair = selectPairWithStrategy(matchmaking, { items, sessionComparisons: comparisons, options: {} });
+    if (!pair) break;
+    const winnerId = [pair.itemA.id, pair.itemB.id].sort((a, b) => Number(b.split('-')[1]) - Number(a.split('-')[1]))[0];
+    comparisons.push(createMockComparison(pair.itemA.id, pair.itemB.id, winnerId));
+  }
+  return comparisons;
+}
+
+describe('parseMatchmakingConfig', () => {
+  it('should fill in default parameters', () => {
+    expect(parseMatchmakingConfig({ strategy: 'coverage-first' }).data).toEqual({
+      strategy: 'coverage-first',
+      params: { streakLimit: 2, recentWindow: 3, winnersOnlyTournament: true },
+    });
+    expect(parseMatchmakingConfig({ strategy: 'random', params: {} }).data).toEqual({ strategy: 'random', params: {} });
+  });
+
+  it('should reject unknown strategies, fields and parameters', () => {
+    expect(parseMatchmakingConfig({ strategy: 'elimination' }).error).toContain('coverage-first');
+    expect(parseMatchmakingConfig({ strategy: 'swiss', rounds: 3 }).valid).toBe(false);
+    expect(parseMatchmakingConfig({ strategy: 'swiss', params: { rounds: 3 } }).error).toContain('scoreBy');
+    expect(parseMatchmakingConfig({ strategy: 'random', params: { seed: 1 } }).error).toContain('no parameters');
+    expect(parseMatchmakingConfig('swiss').valid).toBe(false);
+  });
+
+  it('should check parameter types and bounds', () => {
+    expect(parseMatchmakingConfig({ strategy: 'coverage-first', params: { streakLimit: 0 } }).valid).toBe(false);
+    expect(parseMatchmakingConfig({ strategy: 'coverage-first', params: { streakLimit: 2.5 } }).valid).toBe(false);
+    expect(parseMatchmakingConfig({ strategy: 'coverage-first', params: { winnersOnlyTournament: 'no' } }).valid)
+      .toBe(false);
+    expect(parseMatchmakingConfig({ strategy: 'swiss', params: { scoreBy: 'rating' } }).data?.params.scoreBy)
+      .toBe('rating');
+  });
+});
+
+describe('resolveMatchmakingConfig', () => {
+  it('should fall back to coverage-first for missing or invalid stored configs', () => {
+    expect(resolveMatchmakingConfig(null).strategy).toBe('coverage-first');
+    expect(resolveMatchmakingConfig({ strategy: 'removed-strategy' }).strategy).toBe('coverage-first');
+    expect(resolveMatchmakingConfig({ strategy: 'swiss' }).strategy).toBe('swiss');
+  });
+});
+
+describe('algoVersion', () => {
+  it('should record engine, strategy and version', () => {
+    expect(formatAlgoVersion('pair', config('swiss'))).toBe('sciblind-v2/swiss@1');
+    expect(formatAlgoVersion('quad', resolveMatchmakingConfig(null))).toBe('sciblind-v2-quad/coverage-first@1');
+  });
+
+  it('should parse tagged and legacy values', () => {
+    expect(parseAlgoVersion('sciblind-v2-quad/tournament@1')).toEqual({
+      engine: 'sciblind-v2-quad',
+      strategy: 'tournament',
+      strategyVersion: 1,
+    });
+    expect(parseAlgoVersion('sciblind-v2')).toEqual({ engine: 'sciblind-v2', strategy: null, strategyVersion: null });
+  });
+});
+
+describe('registry', () => {
+  it('should list the built-in strategies', () => {
+    expect(listMatchmakingStrategies().map((s) => s.id)).toEqual(
+      expect.arrayContaining(['coverage-first', 'adaptive', 'swiss', 'tournament', 'top-n', 'random']),
+    );
+  });
+
+  it('should reject duplicate ids', () => {
+    expect(() => registerMatchmakingStrategy(getMatchmakingStrategy('random')!)).toThrow('already registered');
+  });
+});
+
+describe('built-in strategies', () => {
+  for (const strategy of ['coverage-first', 'adaptive', 'swiss', 'tournament', 'top-n', 'random']) {
+    it(`${strategy} should reach coverage and never repeat a pair`, () => {
+      const items = createMockItems(8);
+      const comparisons = runSession(config(strategy), items, 28);
+
+      const keys = comparisons.map((c) => [c.itemAId, c.itemBId].sort().join('-'));
+      expect(new Set(keys).size).toBe(keys.length);
+      expect(hasFullCoverage(items, comparisons)).toBe(true);
+      // All 28 pairs of 8 items get used, then selection stops
+      expect(comparisons).toHaveLength(28);
+      expect(selectPairWithStrategy(config(strategy), { items, sessionComparisons: comparisons, options: {} }))
+        .toBeNull();
+    });
+
+    it(`${strategy} should return a new quad of 4 distinct items`, () => {
+      const items = createMockItems(8);
+      const quad = selectQuadWithStrategy(config(strategy), { items, sessionComparisons: [], options: {} })!;
+      expect(new Set(quad.items.map((i) => i.id)).size).toBe(4);
+      expect([...quad.positions].sort()).toEqual(quad.items.map((i) => i.id).sort());
+    });
+  }
+
+  it('coverage-first should honour a custom streak limit', () => {
+    const items = createMockItems(6);
+    const comparisons = runSession(config('coverage-first', { streakLimit: 1 }), items, 12);
+
+    for (let i = 1; i < comparisons.length; i++) {
+      const previous = [comparisons[i - 1].itemAId, comparisons[i - 1].itemBId];
+      expect(previous).not.toContain(comparisons[i].itemAId);
+      expect(previous).not.toContain(comparisons[i].itemBId);
+    }
+  });
+
+  it('swiss should show every item once per round', () => {
+    const items = createMockItems(8);
+    const comparisons = runSession(config('swiss'), items, 12);
+
+    for (let round = 0; round < 3; round++) {
+      const shown = comparisons.slice(round * 4, round * 4 + 4).flatMap((c) => [c.itemAId, c.itemBId]);
+      expect(new Set(shown).size).toBe(8);
+    }
+  });
+
+  it('swiss should pair items with equal session scores', () => {
+    const items = createMockItems(8);
+    const comparisons = runSession(config('swiss'), items, 4);
+    const winners = new Set(comparisons.map((c) => c.winnerId));
+
+    // Round 2 starts with two round-1 winners
+    const pair = selectPairWithStrategy(config('swiss'), { items, sessionComparisons: comparisons, options: {} })!;
+    expect(winners.has(pair.itemA.id)).toBe(winners.has(pair.itemB.id));
+  });
+
+  it('tournament should only match session winners after coverage', () => {
+    const items = createMockItems(8);
+    const coverage = runSession(config('tournament'), items, 4);
+    expect(hasFullCoverage(items, coverage)).toBe(true);
+    const winners = new Set(coverage.map((c) => c.winnerId));
+
+    const pair = selectPairWithStrategy(config('tournament'), { items, sessionComparisons: coverage, options: {} })!;
+    expect(winners.has(pair.itemA.id)).toBe(true);
+    expect(winners.has(pair.itemB.id)).toBe(true);
+  });
+
+  it('coverage-first should draw tournament-phase quads from session winners', () => {
+    const items = createMockItems(8);
+    // Two quads covering all items, won by item-3 and item-7
+    const session = [
+      ...['item-0', 'item-1', 'item-2'].map((id) => createMockComparison('item-3', id)),
+      ...['item-4', 'item-5', 'item-6'].map((id) => createMockComparison('item-7', id)),
+    ];
+    // Fewer than 4 winners: falls back to the regular selection either way
+    const quad = selectQuadWithStrategy(config('coverage-first'), {
+      items,
+      sessionComparisons: session,
+      options: {},
+      inTournamentPhase: true,
+    });
+    expect(quad!.items).toHaveLength(4);
+
+    const withWinners = [
+      ...session,
+      ...['item-0', 'item-4', 'item-7'].map((id) => createMockComparison('item-1', id)),
+      ...['item-2', 'item-3', 'item-6'].map((id) => createMockComparison('item-5', id)),
+    ];
+    const tournamentQuad = selectQuadWithStrategy(config('coverage-first'), {
+      items,
+      sessionComparisons: withWinners,
+      options: {},
+      inTournamentPhase: true,
+    })!;
+    expect(tournamentQuad.items.map((i) => i.id).sort()).toEqual(['item-1', 'item-3', 'item-5', 'item-7']);
+  });
+
+  describe('top-n', () => {
+    // Top 2 by Elo: item-0 is clear, item-1 overlaps item-2 and item-3
+    function boundaryItems(): any[] {
+      const ratings = [2000, 1530, 1510, 1500, 1000, 1000, 1000, 1000];
+      return createMockItems(8).map((item, i) => ({ ...item, eloRating: ratings[i], comparisonCount: 100 }));
+    }
+    const coverage = [
+      ['item-0', 'item-4'],
+      ['item-1', 'item-5'],
+      ['item-2', 'item-6'],
+      ['item-3', 'item-7'],
+    ].map(([itemAId, itemBId]) => createMockComparison(itemAId, itemBId));
+
+    it('should match only items contested at the top-N boundary after coverage', () => {
+      const items = boundaryItems();
+      for (let i = 0; i < 10; i++) {
+        const pair = selectPairWithStrategy(config('top-n'), {
+          items,
+          sessionComparisons: coverage,
+          options: { targetTopN: 2 },
+        })!;
+        expect(['item-1', 'item-2', 'item-3']).toContain(pair.itemA.id);
+        expect(['item-1', 'item-2', 'item-3']).toContain(pair.itemB.id);
+      }
+    });
+
+    it('should fill quads with the contested items', () => {
+      const quad = selectQuadWithStrategy(config('top-n'), {
+        items: boundaryItems(),
+        sessionComparisons: coverage,
+        options: { targetTopN: 2 },
+      })!;
+      expect(quad.items.map((i) => i.id)).toEqual(expect.arrayContaining(['item-1', 'item-2', 'item-3']));
+    });
+
+    it('should widen the contested set with the confidence level', () => {
+      // At 80% item-3 no longer reaches item-1's lower bound
+      const items = boundaryItems();
+      items[3].eloRating = 1480;
+      const seen = new Set<string>();
+      for (let i = 0; i < 20; i++) {
+        const pair = selectPairWithStrategy(config('top-n', { confidence: '80' }), {
+          items,
+          sessionComparisons: coverage,
+          options: { targetTopN: 2 },
+        })!;
+        seen.add(pair.itemA.id).add(pair.itemB.id);
+      }
+      expect([...seen].sort()).toEqual(['item-1', 'item-2']);
+    });
+
+    it('should fall back to coverage-first once the top N are separated', () => {
+      const items = boundaryItems();
+      items[1].eloRating = 1900;
+      const pair = selectPairWithStrategy(config('top-n'), {
+        items,
+        sessionComparisons: coverage,
+        options: { targetTopN: 2 },
+      });
+      expect(pair).not.toBeNull();
+    });
+  });
+});
@@ -8,6 +8,8 @@
  * - Variety (no same item consecutively)
  * - Phase transitions (coverage → depth)
  * - Streak limit enforcement
+ * - Information-gain pair strategy
+ * - Ranking and best-worst set selection
  */
 
 import { describe, it, expect } from 'vitest';
@@ -19,7 +21,10 @@ import {
   getSessionWinnerIds,
   calculateTournamentQuads,
   selectNextQuadWinnersOnly,
+  selectNextChoiceSet,
+  calculateRecommendedChoiceSets,
 } from '@/lib/matchmaking';
+import { expectedInformationGain, strengthBeliefOf } from '@/lib/matchmaking/information-gain';
 
 // Helper to create mock items
 function createMockItems(count: number): any[] {
@@ -44,6 +49,10 @@ function createMockItems(count: number): any[] {
     label: `Item ${i}`,
     tags: [],
     btAbility: 0,
+    btStdError: null,
+    glickoRating: 1500,
+    glickoRd: 350,
+    glickoVolatility: 0.06,
   }));
 }
 
@@ -142,6 +151,58 @@ describe('selectNextPair', () => {
   });
 });
 
+describe('information-gain strategy', () => {
+  it('should prefer close matchups and uncertain items', () => {
+    const certain = { mean: 0, sd: 0.2 };
+    const uncertain = { mean: 0, sd: 1.5 };
+    expect(expectedInformationGain(uncertain, uncertain)).toBeGreaterThan(expectedInformationGain(certain, certain));
+    expect(expectedInformationGain(uncertain, { mean: 0.2, sd: 1.5 }))
+      .toBeGreaterThan(expectedInformationGain(uncertain, { mean: 3, sd: 1.5 }));
+  });
+
+  it('should read the belief from the study\'s rating model', () => {
+    const [item] = createMockItems(1);
+    Object.assign(item, { eloRating: 1700, comparisonCount: 16, glickoRating: 1600, glickoRd: 80, btAbility: 0.7, btStdError: 0.3 });
+
+    const elo = strengthBeliefOf(item, 'elo');
+    expect(elo.mean).toBeCloseTo(1700 * Math.LN10 / 400, 10);
+    expect(elo.sd).toBeCloseTo(0.25, 10); // SE = 400 / (√16 · ln 10) Elo points
+    expect(strengthBeliefOf(item, 'glicko2').sd).toBeCloseTo(80 * Math.LN10 / 400, 10);
+    expect(strengthBeliefOf(item, 'bradley_terry')).toEqual({ mean: 0.7, sd: 0.3 });
+
+    // Unknown items fall back to the prior
+    item.comparisonCount = 0;
+    item.btStdError = null;
+    expect(strengthBeliefOf(item, 'elo').sd).toBeCloseTo(350 * Math.LN10 / 400, 10);
+    expect(strengthBeliefOf(item, 'bradley_terry').sd).toBeCloseTo(350 * Math.LN10 / 400, 10);
+  });
+
+  it('should pick the most informative pair once every item has been seen', () => {
+    const items = createMockItems(6);
+    // 0/1: well known, average; 2: uncertain, average; 3: uncertain, far ahead;
+    // 4/5: well known outliers used to show every item once
+    Object.assign(items[0], { eloRating: 1500, comparisonCount: 50 });
+    Object.assign(items[1], { eloRating: 1500, comparisonCount: 50 });
+    Object.assign(items[2], { eloRating: 1500, comparisonCount: 3 });
+    Object.assign(items[3], { eloRating: 2300, comparisonCount: 3 });
+    Object.assign(items[4], { eloRating: 1000, comparisonCount: 100 });
+    Object.assign(items[5], { eloRating: 2000, comparisonCount: 100 });
+    const seen = [
+      createMockComparison('item-0', 'item-4', 'item-0'),
+      createMockComparison('item-1', 'item-5', 'item-5'),
+      createMockComparison('item-2', 'item-4', 'item-2'),
+      createMockComparison('item-3', 'item-5', 'item-3'),
+    ];
+
+    // The uncertain average item against a known average one beats both a
+    // lopsided pair and two items that are already well known
+    const pair = selectNextPair(items, seen, { strategy: 'information_gain' })!;
+    const ids = [pair.itemA.id, pair.itemB.id].sort();
+    expect(ids).toContain('item-2');
+    expect(['item-0', 'item-1']).toContain(ids.find((id) => id !== 'item-2'));
+  });
+});
+
 describe('hasFullCoverage', () => {
   it('should return true when all items have been seen', () => {
     const items = createMockItems(3);
@@ -261,6 +322,37 @@ describe('getCategoryProgress', () => {
   });
 });
 
+describe('selectNextChoiceSet', () => {
+  /** The rows of one set vote, first item ranked above the rest */
+  function setRows(groupId: string, itemIds: string[]) {
+    return itemIds.slice(1).map((id) => ({ ...createMockComparison(itemIds[0], id, itemIds[0]), choiceGroupId: groupId }));
+  }
+
+  it('should return sets of the requested size in shuffled positions', () => {
+    const items = createMockItems(10);
+    const set = selectNextChoiceSet(items, [], 5)!;
+    expect(set.items).toHaveLength(5);
+    expect([...set.positions].sort()).toEqual(set.items.map((i) => i.id).sort());
+    expect(selectNextChoiceSet(createMockItems(4), [], 5)).toBeNull();
+  });
+
+  it('should show unseen items before repeating any', () => {
+    const items = createMockItems(12);
+    const comparisons = [
+      ...setRows('g1', ['item-0', 'item-1', 'item-2', 'item-3']),
+      ...setRows('g2', ['item-4', 'item-5', 'item-6', 'item-7']),
+    ];
+    const set = selectNextChoiceSet(items, comparisons, 4)!;
+    expect(set.items.map((i) => i.id).sort()).toEqual(['item-10', 'item-11', 'item-8', 'item-9']);
+  });
+
+  it('should recommend enough sets to cover every item', () => {
+    expect(calculateRecommendedChoiceSets(40, 4)).toBeGreaterThanOrEqual(10);
+    expect(calculateRecommendedChoiceSets(8, 6)).toBeGreaterThanOrEqual(2);
+    expect(calculateRecommendedChoiceSets(40, 6)).toBeLessThanOrEqual(calculateRecommendedChoiceSets(40, 4));
+  });
+});
+
 describe('Tournament Phase', () => {
   it('getSessionWinnerIds returns unique winners', () => {
     const comparisons = [
@@ -0,0 +1,256 @@
+/**
+ * Tests for Global Exposure in Matchmaking
+ *
+ * Validates:
+ * - Building pair counts and graph components from PairExposure rows
+ * - Cached loading (TTL, item set changes, EXPOSURE_CACHE_TTL_MS = 0)
+ * - Pair selection bridging disconnected components
+ * - Under-exposed items (below minExposuresPerItem) coming first
+ * - Quad selection pulling in items outside the main component
+ * - Winners-only quads catching up under-exposed winners
+ * - Summing comparisons into per-pair counts for a rebuild
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { selectNextPair, selectNextQuad, selectNextQuadWinnersOnly } from '@/lib/matchmaking';
+import {
+  buildGlobalExposure,
+  countPairExposure,
+  getExposureCacheTtlMs,
+  getGlobalExposure,
+} from '@/lib/matchmaking/exposure';
+import { checkGraphConnectivity } from '@/lib/ranking/statistics';
+
+const db = vi.hoisted(() => ({
+  pairExposure: { findMany: vi.fn() },
+}));
+vi.mock('@/lib/db', () => ({ prisma: db }));
+
+function createMockItems(count: number, overrides: Record<string, unknown> = {}): any[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `item-${i}`,
+    studyId: 'study-1',
+    categoryId: 'cat-1',
+    eloRating: 1500,
+    eloGames: 0,
+    comparisonCount: 0,
+    winCount: 0,
+    lossCount: 0,
+    leftCount: 0,
+    rightCount: 0,
+    btAbility: 0,
+    btStdError: null,
+    glickoRating: 1500,
+    glickoRd: 350,
+    glickoVolatility: 0.06,
+    ...overrides,
+  }));
+}
+
+function sessionComparison(itemAId: string, itemBId: string): any {
+  return { itemAId, itemBId, winnerId: itemAId, leftItemId: itemAId, rightItemId: itemBId, categoryId: 'cat-1' };
+}
+
+function row(itemLowId: string, itemHighId: string, count: number) {
+  return { itemLowId, itemHighId, count };
+}
+
+describe('buildGlobalExposure', () => {
+  it('should key pair counts like matchmaking pair keys and split components', () => {
+    const exposure = buildGlobalExposure(
+      ['a', 'b', 'c', 'd', 'e'],
+      [row('a', 'b', 3), row('b', 'c', 1), row('d', 'e', 2)],
+    );
+
+    expect(exposure.pairCounts.get('a-b')).toBe(3);
+    expect(exposure.pairCounts.get('d-e')).toBe(2);
+    expect(exposure.componentCount).toBe(2);
+    // Largest component first
+    expect(exposure.componentOf.get('a')).toBe(0);
+    expect(exposure.componentOf.get('c')).toBe(0);
+    expect(exposure.componentOf.get('d')).toBe(1);
+  });
+
+  it('should ignore pairs outside the item set and empty counts', () => {
+    const exposure = buildGlobalExposure(['a', 'b', 'c'], [row('a', 'z', 5), row('b', 'c', 0)]);
+
+    expect(exposure.pairCounts.size).toBe(0);
+    expect(exposure.componentCount).toBe(3);
+  });
+});
+
+describe('checkGraphConnectivity components', () => {
+  it('should list components largest first', () => {
+    const result = checkGraphConnectivity(['a', 'b', 'c', 'd'], [
+      { itemAId: 'b', itemBId: 'c' },
+      { itemAId: 'c', itemBId: 'd' },
+    ]);
+    expect(result.components).toEqual([['b', 'c', 'd'], ['a']]);
+  });
+});
+
+describe('getGlobalExposure', () => {
+  const original = process.env.EXPOSURE_CACHE_TTL_MS;
+
+  beforeEach(() => {
+    db.pairExposure.findMany.mockReset();
+    db.pairExposure.findMany.mockResolvedValue([row('a', 'b', 1)]);
+  });
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.EXPOSURE_CACHE_TTL_MS;
+    else process.env.EXPOSURE_CACHE_TTL_MS = original;
+  });
+
+  it('should read the TTL at call time', () => {
+    delete process.env.EXPOSURE_CACHE_TTL_MS;
+    expect(getExposureCacheTtlMs()).toBe(30000);
+    process.env.EXPOSURE_CACHE_TTL_MS = '0';
+    expect(getExposureCacheTtlMs()).toBe(0);
+    process.env.EXPOSURE_CACHE_TTL_MS = 'soon';
+    expect(getExposureCacheTtlMs()).toBe(30000);
+  });
+
+  it('should reuse cached aggregates for the same study, category and items', async () => {
+    await getGlobalExposure('study-cache', 'cat-1', ['a', 'b']);
+    await getGlobalExposure('study-cache', 'cat-1', ['b', 'a']);
+    expect(db.pairExposure.findMany).toHaveBeenCalledTimes(1);
+    expect(db.pairExposure.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { studyId: 'study-cache', categoryId: 'cat-1' } }),
+    );
+
+    // A changed item set reloads
+    await getGlobalExposure('study-cache', 'cat-1', ['a', 'b', 'c']);
+    expect(db.pairExposure.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should always reload when the cache is disabled', async () => {
+    process.env.EXPOSURE_CACHE_TTL_MS = '0';
+    await getGlobalExposure('study-nocache', null, ['a', 'b']);
+    await getGlobalExposure('study-nocache', null, ['a', 'b']);
+    expect(db.pairExposure.findMany).toHaveBeenCalledTimes(2);
+    expect(db.pairExposure.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { studyId: 'study-nocache' } }),
+    );
+  });
+});
+
+describe('selectNextPair with global exposure', () => {
+  // item-0..3 are well connected across sessions, item-4/5 only with each other
+  const globalRows = [
+    row('item-0', 'item-1', 5),
+    row('item-1', 'item-2', 5),
+    row('item-2', 'item-3', 5),
+    row('item-4', 'item-5', 5),
+  ];
+  const session = [
+    sessionComparison('item-0', 'item-1'),
+    sessionComparison('item-2', 'item-3'),
+    sessionComparison('item-4', 'item-5'),
+  ];
+
+  function items() {
+    const result = createMockItems(6, { comparisonCount: 5 });
+    result[4].comparisonCount = 20;
+    result[5].comparisonCount = 20;
+    return result;
+  }
+
+  it('should bridge disconnected components in the balanced strategy', () => {
+    const all = items();
+    const globalExposure = buildGlobalExposure(all.map((item) => item.id), globalRows);
+
+    for (let i = 0; i < 10; i++) {
+      const pair = selectNextPair(all, session, { globalExposure })!;
+      const ids = [pair.itemA.id, pair.itemB.id];
+      const inMain = ids.filter((id) => globalExposure.componentOf.get(id) === 0);
+      expect(inMain).toHaveLength(1);
+    }
+  });
+
+  it('should bridge disconnected components in the information-gain strategy', () => {
+    const all = items();
+    const globalExposure = buildGlobalExposure(all.map((item) => item.id), globalRows);
+
+    const pair = selectNextPair(all, session, { globalExposure, strategy: 'information_gain' })!;
+    expect(globalExposure.componentOf.get(pair.itemA.id)).not.toBe(globalExposure.componentOf.get(pair.itemB.id));
+  });
+
+  it('should pair under-exposed items first when minExposuresPerItem is set', () => {
+    const all = createMockItems(4, { comparisonCount: 10 });
+    all[0].comparisonCount = 2;
+    all[0].eloRating = 1600;
+    const seenAll = [sessionComparison('item-0', 'item-1'), sessionComparison('item-2', 'item-3')];
+
+    // Without a minimum the rating gap outweighs the lower count
+    const plain = selectNextPair(all, seenAll)!;
+    expect([plain.itemA.id, plain.itemB.id]).not.toContain('item-0');
+
+    const prioritized = selectNextPair(all, seenAll, { minExposuresPerItem: 20 })!;
+    expect([prioritized.itemA.id, prioritized.itemB.id]).toContain('item-0');
+  });
+});
+
+describe('selectNextQuad with global exposure', () => {
+  it('should include items outside the main component', () => {
+    const all = createMockItems(8, { comparisonCount: 6 });
+    const globalExposure = buildGlobalExposure(all.map((item) => item.id), [
+      row('item-0', 'item-1', 2),
+      row('item-1', 'item-2', 2),
+      row('item-2', 'item-3', 2),
+      row('item-3', 'item-4', 2),
+      row('item-4', 'item-5', 2),
+    ]);
+
+    for (let i = 0; i < 10; i++) {
+      const quad = selectNextQuad(all, [], { globalExposure })!;
+      const ids = quad.items.map((item) => item.id);
+      expect(ids).toContain('item-6');
+      expect(ids).toContain('item-7');
+    }
+  });
+});
+
+describe('selectNextQuadWinnersOnly with global exposure', () => {
+  /** Rows of a quad vote won by the first item */
+  const quadVote = (winner: number, ...losers: number[]) =>
+    losers.map((loser) => sessionComparison(`item-${winner}`, `item-${loser}`));
+
+  it('should prefer winners below minExposuresPerItem over top winners', () => {
+    const all = createMockItems(8, { comparisonCount: 30 });
+    all[4].comparisonCount = 2;
+    all[5].comparisonCount = 2;
+    // item-0 leads with 6 wins, item-1..5 have 3 each
+    const session = [
+      ...quadVote(0, 4, 6, 7),
+      ...quadVote(1, 5, 6, 7),
+      ...quadVote(2, 4, 6, 7),
+      ...quadVote(3, 5, 6, 7),
+      ...quadVote(0, 1, 2, 3),
+      ...quadVote(4, 6, 7, 1),
+      ...quadVote(5, 6, 7, 2),
+    ];
+
+    for (let i = 0; i < 10; i++) {
+      const quad = selectNextQuadWinnersOnly(all, session, { minExposuresPerItem: 20 })!;
+      const ids = quad.items.map((item) => item.id);
+      expect(ids).toContain('item-4');
+      expect(ids).toContain('item-5');
+      expect(ids).toContain('item-0');
+    }
+  });
+});
+
+describe('countPairExposure', () => {
+  it('should sum both orders of a pair and grouped counts', () => {
+    const pairs = countPairExposure([
+      { itemAId: 'b', itemBId: 'a', categoryId: 'cat-1' },
+      { itemAId: 'a', itemBId: 'b', categoryId: 'cat-1' },
+      { itemAId: 'a', itemBId: 'c', categoryId: 'cat-1', count: 3 },
+    ]);
+    expect(pairs).toEqual([
+      { categoryId: 'cat-1', itemLowId: 'a', itemHighId: 'b', count: 2 },
+      { categoryId: 'cat-1', itemLowId: 'a', itemHighId: 'c', count: 3 },
+    ]);
+  });
+});
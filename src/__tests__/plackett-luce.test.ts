@@ -0,0 +1,158 @@
+/**
+ * Tests for Plackett-Luce Model
+ *
+ * Validates:
+ * - Grouping quad comparison rows into single choices
+ * - Reduction to Bradley-Terry on pairwise data
+ * - MLE for multi-item choices and partial rankings
+ * - Standard errors, choice probabilities, edge cases
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildChoiceObservations,
+  estimatePlackettLuce,
+  plChoiceProbability,
+} from '@/lib/ranking/plackett-luce';
+import { estimateBradleyTerry } from '@/lib/ranking/bradley-terry';
+
+/** The 3 winner-vs-loser rows a quad vote is stored as */
+function quadRows(groupId: string | null, winnerId: string, loserIds: string[]) {
+  return loserIds.map((loserId) => ({
+    itemAId: winnerId,
+    itemBId: loserId,
+    winnerId,
+    choiceGroupId: groupId,
+  }));
+}
+
+describe('buildChoiceObservations', () => {
+  it('should merge grouped rows into one choice among all their items', () => {
+    const observations = buildChoiceObservations([
+      ...quadRows('q1', 'A', ['B', 'C', 'D']),
+      { itemAId: 'B', itemBId: 'C', winnerId: 'C' },
+    ]);
+    expect(observations).toEqual([
+      { itemIds: ['A', 'B', 'C', 'D'], ranking: ['A'] },
+      { itemIds: ['B', 'C'], ranking: ['C'] },
+    ]);
+  });
+
+  it('should keep ungrouped quad rows as pairwise choices', () => {
+    expect(buildChoiceObservations(quadRows(null, 'A', ['B', 'C', 'D']))).toHaveLength(3);
+  });
+});
+
+describe('estimatePlackettLuce', () => {
+  it('should match Bradley-Terry on pairwise data', () => {
+    const pairs = [
+      { winnerId: 'A', loserId: 'B' },
+      { winnerId: 'A', loserId: 'B' },
+      { winnerId: 'B', loserId: 'C' },
+      { winnerId: 'C', loserId: 'A' },
+      { winnerId: 'A', loserId: 'C' },
+    ];
+    const bt = estimateBradleyTerry(pairs);
+    const pl = estimatePlackettLuce(
+      pairs.map((p) => ({ itemIds: [p.winnerId, p.loserId], ranking: [p.winnerId] })),
+    );
+
+    expect(pl.converged).toBe(true);
+    for (const id of ['A', 'B', 'C']) {
+      expect(pl.abilities.get(id)).toBeCloseTo(bt.abilities.get(id)!, 5);
+    }
+    expect(pl.logLikelihood).toBeCloseTo(bt.logLikelihood, 5);
+  });
+
+  it('should recover the choice share for a repeated set', () => {
+    // A chosen 6 times, B 3 times, C and D once each among the same four
+    const observations = [
+      ...Array(6).fill(null).map(() => ({ itemIds: ['A', 'B', 'C', 'D'], ranking: ['A'] })),
+      ...Array(3).fill(null).map(() => ({ itemIds: ['A', 'B', 'C', 'D'], ranking: ['B'] })),
+      { itemIds: ['A', 'B', 'C', 'D'], ranking: ['C'] },
+      { itemIds: ['A', 'B', 'C', 'D'], ranking: ['D'] },
+    ];
+    const result = estimatePlackettLuce(observations);
+    const abilities = ['A', 'B', 'C', 'D'].map((id) => result.abilities.get(id)!);
+
+    // MLE: P(choose i) = share of choices
+    expect(plChoiceProbability(abilities[0], abilities)).toBeCloseTo(6 / 11, 5);
+    expect(plChoiceProbability(abilities[1], abilities)).toBeCloseTo(3 / 11, 5);
+    expect(abilities.reduce((sum, a) => sum + a, 0)).toBeCloseTo(0, 5);
+  });
+
+  it('should weight a quad win less than three pairwise wins', () => {
+    // One quad win for A, plus a balanced pairwise history among the others
+    const background = [
+      { itemIds: ['A', 'B'], ranking: ['B'] },
+      { itemIds: ['B', 'C'], ranking: ['C'] },
+      { itemIds: ['C', 'D'], ranking: ['D'] },
+      { itemIds: ['D', 'A'], ranking: ['A'] },
+    ];
+    const asChoice = estimatePlackettLuce([
+      ...background,
+      ...buildChoiceObservations(quadRows('q1', 'A', ['B', 'C', 'D'])),
+    ]);
+    const asPairs = estimatePlackettLuce([
+      ...background,
+      ...buildChoiceObservations(quadRows(null, 'A', ['B', 'C', 'D'])),
+    ]);
+
+    expect(asChoice.abilities.get('A')).toBeGreaterThan(0);
+    expect(asChoice.abilities.get('A')).toBeLessThan(asPairs.abilities.get('A')!);
+  });
+
+  it('should use every stage of a partial ranking', () => {
+    const result = estimatePlackettLuce([
+      { itemIds: ['A', 'B', 'C'], ranking: ['A', 'B'] },
+      { itemIds: ['A', 'B', 'C'], ranking: ['B', 'A'] },
+      { itemIds: ['A', 'B', 'C'], ranking: ['A', 'C'] },
+      { itemIds: ['A', 'B', 'C'], ranking: ['C', 'A'] },
+    ]);
+    const a = result.abilities.get('A')!;
+    expect(a).toBeGreaterThan(result.abilities.get('B')!);
+    expect(result.abilities.get('B')).toBeCloseTo(result.abilities.get('C')!, 5);
+  });
+
+  it('should give smaller SE with more choices', () => {
+    const few = estimatePlackettLuce(
+      Array(2).fill(null).flatMap(() => [
+        { itemIds: ['A', 'B', 'C'], ranking: ['A'] },
+        { itemIds: ['A', 'B', 'C'], ranking: ['B'] },
+        { itemIds: ['A', 'B', 'C'], ranking: ['C'] },
+      ]),
+    );
+    const many = estimatePlackettLuce(
+      Array(20).fill(null).flatMap(() => [
+        { itemIds: ['A', 'B', 'C'], ranking: ['A'] },
+        { itemIds: ['A', 'B', 'C'], ranking: ['B'] },
+        { itemIds: ['A', 'B', 'C'], ranking: ['C'] },
+      ]),
+    );
+    expect(many.standardErrors.get('A')).toBeLessThan(few.standardErrors.get('A')!);
+  });
+
+  it('should handle empty and degenerate input', () => {
+    expect(estimatePlackettLuce([]).abilities.size).toBe(0);
+
+    const single = estimatePlackettLuce([{ itemIds: ['A'], ranking: ['A'] }]);
+    expect(single.abilities.size).toBe(0);
+    expect(single.converged).toBe(true);
+
+    // A ranked item that was not shown ends the observation
+    const invalid = estimatePlackettLuce([{ itemIds: ['A', 'B'], ranking: ['Z'] }]);
+    expect(invalid.abilities.size).toBe(0);
+  });
+});
+
+describe('plChoiceProbability', () => {
+  it('should sum to 1 over the set', () => {
+    const set = [0.5, -0.2, 1.3, -1.6];
+    const total = set.reduce((sum, a) => sum + plChoiceProbability(a, set), 0);
+    expect(total).toBeCloseTo(1, 10);
+  });
+
+  it('should stay finite for large abilities', () => {
+    expect(plChoiceProbability(800, [800, 790])).toBeCloseTo(1 / (1 + Math.exp(-10)), 10);
+  });
+});
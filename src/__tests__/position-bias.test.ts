@@ -0,0 +1,241 @@
+/**
+ * Tests for Position and Presentation Bias
+ *
+ * Validates:
+ * - Exact binomial and χ² p-values against known values
+ * - Left vs right win rates, overall and per session
+ * - First-choice slots recovered from the pair order of multi-item votes
+ * - Quad rows recorded without a choiceGroupId never counted as pair votes
+ * - Order effects over a session
+ * - Bradley-Terry with a position effect removing a left-side advantage
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  binomialTest,
+  chiSquarePValue,
+  exposureBalance,
+  fitPositionModel,
+  leftRightTest,
+  orderEffects,
+  sessionPositionBias,
+  slotBias,
+  type PositionComparison,
+} from '@/lib/ranking/position-bias';
+
+const start = new Date('2026-01-01T10:00:00Z').getTime();
+let clock = 0;
+
+function pair(left: string, right: string, winnerId: string | null, overrides: Partial<PositionComparison> = {}): PositionComparison {
+  return {
+    sessionId: 's1',
+    createdAt: new Date(start + clock++ * 1000),
+    itemAId: left,
+    itemBId: right,
+    winnerId,
+    leftItemId: left,
+    rightItemId: right,
+    responseTimeMs: null,
+    choiceGroupId: null,
+    algoVersion: 'sciblind-v2',
+    ...overrides,
+  };
+}
+
+/**
+ * Rows of a quad vote for the first choice shown in `positions`
+ * (groupId null = recorded before choiceGroupId existed)
+ */
+function quad(positions: string[], winnerId: string, groupId: string | null): PositionComparison[] {
+  const createdAt = new Date(start + clock++ * 1000);
+  return positions
+    .filter((id) => id !== winnerId)
+    .map((loserId) => {
+      const winnerFirst = positions.indexOf(winnerId) < positions.indexOf(loserId);
+      return {
+        sessionId: 's1',
+        createdAt,
+        itemAId: winnerId,
+        itemBId: loserId,
+        winnerId,
+        leftItemId: winnerFirst ? winnerId : loserId,
+        rightItemId: winnerFirst ? loserId : winnerId,
+        responseTimeMs: null,
+        choiceGroupId: groupId,
+        algoVersion: 'sciblind-v2-quad',
+      };
+    });
+}
+
+function repeat<T>(count: number, make: () => T): T[] {
+  return Array.from({ length: count }, make);
+}
+
+describe('binomialTest', () => {
+  it('should match exact two-sided p-values', () => {
+    // 2 · (1 + 10 + 45 + 120) / 1024
+    expect(binomialTest(7, 10)).toBeCloseTo(0.34375, 10);
+    expect(binomialTest(1, 10)).toBeCloseTo(22 / 1024, 10);
+    expect(binomialTest(5, 10)).toBeCloseTo(1, 10);
+    expect(binomialTest(0, 0)).toBe(1);
+  });
+});
+
+describe('chiSquarePValue', () => {
+  it('should match known tail probabilities', () => {
+    expect(chiSquarePValue(3.841459, 1)).toBeCloseTo(0.05, 5);
+    expect(chiSquarePValue(2, 2)).toBeCloseTo(Math.exp(-1), 10);
+    expect(chiSquarePValue(0, 3)).toBe(1);
+  });
+});
+
+describe('leftRightTest', () => {
+  it('should count left and right wins of pair votes only', () => {
+    const rows = [
+      ...repeat(9, () => pair('A', 'B', 'A')),
+      pair('A', 'B', 'B'),
+      pair('A', 'B', null),
+      ...quad(['A', 'B', 'C', 'D'], 'A', 'g1'),
+    ];
+    const test = leftRightTest(rows);
+    expect(test).toMatchObject({ votes: 11, leftWins: 9, rightWins: 1, ties: 1, leftWinRate: 0.9 });
+    expect(test.pValue).toBeCloseTo(22 / 1024, 10);
+  });
+});
+
+describe('sessionPositionBias', () => {
+  it('should flag sessions that favour one side', () => {
+    const rows = [
+      ...repeat(12, () => pair('A', 'B', 'A', { sessionId: 'left-clicker' })),
+      ...repeat(6, () => pair('A', 'B', 'A', { sessionId: 'balanced' })),
+      ...repeat(6, () => pair('A', 'B', 'B', { sessionId: 'balanced' })),
+      ...repeat(5, () => pair('A', 'B', 'A', { sessionId: 'short' })),
+    ];
+    const sessions = sessionPositionBias(rows);
+    expect(sessions.map((session) => [session.sessionId, session.biased])).toEqual([
+      ['left-clicker', true],
+      ['balanced', false],
+      ['short', false],
+    ]);
+  });
+});
+
+describe('slotBias', () => {
+  it('should recover the first choice slot of quad votes', () => {
+    const rows = [
+      ...quad(['W', 'X', 'Y', 'Z'], 'W', 'g1'),
+      ...quad(['X', 'Y', 'W', 'Z'], 'W', 'g2'),
+      ...quad(['X', 'Y', 'Z', 'W'], 'W', 'g3'),
+      ...quad(['X', 'W', 'Y', 'Z'], 'X', 'g4'),
+    ];
+    const [slots] = slotBias(rows);
+    expect(slots.setSize).toBe(4);
+    expect(slots.counts).toEqual([2, 0, 1, 1]);
+    expect(slots.degreesOfFreedom).toBe(3);
+    expect(slots.chiSquare).toBeCloseTo(2, 10);
+  });
+
+  it('should find a strong first-slot preference', () => {
+    const rows = repeat(40, () => quad(['A', 'B', 'C', 'D'], 'A', `g${clock}`)).flat();
+    expect(slotBias(rows)[0].pValue).toBeLessThan(0.001);
+  });
+});
+
+describe('orderEffects', () => {
+  it('should break sessions into blocks and detect trends', () => {
+    const rows = [
+      ...Array.from({ length: 10 }, (_, i) => pair('A', 'B', 'A', { responseTimeMs: 1000 + i * 100 })),
+      ...Array.from({ length: 10 }, (_, i) => pair('A', 'B', 'B', { responseTimeMs: 2000 + i * 100 })),
+    ];
+    const consensus = new Map([['A', 1600], ['B', 1400]]);
+    const order = orderEffects(rows, consensus);
+
+    expect(order.blocks).toHaveLength(2);
+    expect(order.blocks[0]).toMatchObject({ fromVote: 1, toVote: 10, votes: 10, leftWinRate: 1, consensusAgreement: 1 });
+    expect(order.blocks[1]).toMatchObject({ leftWinRate: 0, consensusAgreement: 0, meanResponseTimeMs: 2450 });
+    expect(order.leftWinTrend!.slope).toBeLessThan(0);
+    expect(order.leftWinTrend!.pValue).toBeLessThan(0.001);
+    expect(order.responseTimeTrend!.slope).toBeCloseTo(100, 10);
+  });
+
+  it('should count a multi-item vote once', () => {
+    const rows = [...quad(['A', 'B', 'C', 'D'], 'A', 'g1'), pair('A', 'B', 'A', { sessionId: 's2' })];
+    const order = orderEffects(rows, new Map());
+    expect(order.blocks[0].votes).toBe(2);
+    expect(order.blocks[0].consensusAgreement).toBeNull();
+  });
+});
+
+describe('ungrouped quad rows', () => {
+  // Quad votes from before choiceGroupId: the winner is itemA and usually shown first
+  const legacy = () => repeat(12, () => quad(['A', 'B', 'C', 'D'], 'A', null)).flat();
+
+  it('should leave them out of the pair analyses', () => {
+    const rows = [...legacy(), pair('A', 'B', 'B'), pair('B', 'A', 'A')];
+    expect(leftRightTest(rows)).toMatchObject({ votes: 2, leftWins: 0, rightWins: 2 });
+    expect(sessionPositionBias(rows)).toEqual([expect.objectContaining({ votes: 2, biased: false })]);
+    expect(fitPositionModel(rows)!.votes).toBe(2);
+    expect(fitPositionModel(legacy())).toBeNull();
+  });
+
+  it('should regroup them into quad votes', () => {
+    const rows = legacy();
+    expect(slotBias(rows)).toEqual([expect.objectContaining({ setSize: 4, votes: 12, counts: [12, 0, 0, 0] })]);
+    const order = orderEffects(rows, new Map());
+    expect(order.blocks.reduce((sum, block) => sum + block.votes, 0)).toBe(12);
+    expect(order.leftWinTrend).toBeNull();
+  });
+});
+
+describe('exposureBalance', () => {
+  it('should test left/right counterbalancing', () => {
+    const [even, skewed] = exposureBalance([
+      { id: 'A', leftCount: 10, rightCount: 10 },
+      { id: 'B', leftCount: 9, rightCount: 1 },
+    ]);
+    expect(even.leftShare).toBe(0.5);
+    expect(even.pValue).toBeCloseTo(1, 10);
+    expect(skewed.pValue).toBeCloseTo(22 / 1024, 10);
+  });
+});
+
+describe('fitPositionModel', () => {
+  it('should return null without decided pair votes', () => {
+    expect(fitPositionModel([pair('A', 'B', null)])).toBeNull();
+  });
+
+  it('should separate a left advantage from item quality', () => {
+    // Two equal items, the left one wins 70% of the time, but A is shown on the left 80 times out of 100
+    const rows = [
+      ...repeat(56, () => pair('A', 'B', 'A')),
+      ...repeat(24, () => pair('A', 'B', 'B')),
+      ...repeat(14, () => pair('B', 'A', 'B')),
+      ...repeat(6, () => pair('B', 'A', 'A')),
+    ];
+    const model = fitPositionModel(rows)!;
+
+    expect(model.votes).toBe(100);
+    expect(model.leftWinProbability).toBeCloseTo(0.7, 4);
+    expect(model.positionEffect).toBeCloseTo(Math.log(7 / 3), 4);
+    expect(model.pValue).toBeLessThan(0.001);
+    expect(model.corrected.converged).toBe(true);
+
+    // Plain BT credits A with the left-side wins; the corrected fit does not
+    const plainGap = model.uncorrected.abilities.get('A')! - model.uncorrected.abilities.get('B')!;
+    const correctedGap = model.corrected.abilities.get('A')! - model.corrected.abilities.get('B')!;
+    expect(plainGap).toBeGreaterThan(0.4);
+    expect(Math.abs(correctedGap)).toBeLessThan(1e-4);
+  });
+
+  it('should find no position effect in counterbalanced unbiased votes', () => {
+    const rows = [
+      ...repeat(30, () => pair('A', 'B', 'A')),
+      ...repeat(30, () => pair('B', 'A', 'A')),
+      ...repeat(10, () => pair('A', 'B', 'B')),
+      ...repeat(10, () => pair('B', 'A', 'B')),
+    ];
+    const model = fitPositionModel(rows)!;
+    expect(model.positionEffect).toBeCloseTo(0, 6);
+    expect(model.corrected.abilities.get('A')! - model.corrected.abilities.get('B')!).toBeCloseTo(Math.log(3), 4);
+  });
+});
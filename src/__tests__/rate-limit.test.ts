@@ -0,0 +1,200 @@
+/**
+ * Tests for Rate Limiting
+ *
+ * Validates:
+ * - Sliding window estimate
+ * - Memory, Redis (local stand-in) and Postgres stores
+ * - Limit enforcement across window boundaries
+ * - Fallback to memory when the store fails
+ * - Per-study override validation and lookup
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  checkRateLimit,
+  evaluateSlidingWindow,
+  setRateLimitStore,
+  getStudyRateLimit,
+  clearStudyRateLimitCache,
+  parseRateLimitOverrides,
+  RATE_LIMITS,
+  type RateLimitStore,
+} from '@/lib/security/rate-limit';
+import { MemoryRateLimitStore } from '@/lib/security/rate-limit/memory';
+import { LocalRedisClient, RedisRateLimitStore } from '@/lib/security/rate-limit/redis';
+import { PostgresRateLimitStore } from '@/lib/security/rate-limit/postgres';
+
+const { findStudy } = vi.hoisted(() => ({ findStudy: vi.fn() }));
+vi.mock('@/lib/db', () => ({ prisma: { study: { findUnique: findStudy } } }));
+
+const config = { limit: 5, windowSeconds: 60, prefix: 'test' };
+const WINDOW_MS = 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1, 12, 0, 0); // Aligned to a window start
+
+describe('evaluateSlidingWindow', () => {
+  it('should weight the previous window by its remaining overlap', () => {
+    // 25% into the current window: 75% of the previous window still counts
+    const result = evaluateSlidingWindow({ current: 2, previous: 4 }, T0 + WINDOW_MS / 4, T0, WINDOW_MS, 5);
+    expect(result.success).toBe(true); // 2 + 4 * 0.75 = 5
+    expect(result.remaining).toBe(0);
+    expect(result.resetAt).toBe(T0 + WINDOW_MS);
+  });
+
+  it('should reject when the estimate exceeds the limit', () => {
+    const result = evaluateSlidingWindow({ current: 3, previous: 4 }, T0 + WINDOW_MS / 4, T0, WINDOW_MS, 5);
+    expect(result.success).toBe(false);
+  });
+
+  it('should ignore the previous window at the end of the current one', () => {
+    const result = evaluateSlidingWindow({ current: 1, previous: 100 }, T0 + WINDOW_MS, T0, WINDOW_MS, 5);
+    expect(result.success).toBe(true);
+    expect(result.remaining).toBe(4);
+  });
+});
+
+describe.each([
+  ['memory', () => new MemoryRateLimitStore()],
+  ['redis', () => new RedisRateLimitStore(new LocalRedisClient())],
+])('%s store', (_name, createStore) => {
+  it('should count hits per key and window', async () => {
+    const store = createStore();
+    await store.hit('a', T0, WINDOW_MS);
+    await store.hit('a', T0, WINDOW_MS);
+    expect(await store.hit('a', T0, WINDOW_MS)).toEqual({ current: 3, previous: 0 });
+    expect(await store.hit('b', T0, WINDOW_MS)).toEqual({ current: 1, previous: 0 });
+    expect(await store.hit('a', T0 + WINDOW_MS, WINDOW_MS)).toEqual({ current: 1, previous: 3 });
+  });
+});
+
+describe('LocalRedisClient', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expire keys', async () => {
+    vi.useFakeTimers();
+    const client = new LocalRedisClient();
+    await client.pipeline([['INCR', 'k'], ['PEXPIRE', 'k', 1000]]);
+    expect(await client.pipeline([['GET', 'k']])).toEqual(['1']);
+    vi.advanceTimersByTime(1001);
+    expect(await client.pipeline([['GET', 'k']])).toEqual([null]);
+  });
+});
+
+describe('PostgresRateLimitStore', () => {
+  it('should upsert the current bucket and read the previous one', async () => {
+    const upsert = vi.fn().mockResolvedValue({ count: 4 });
+    const findUnique = vi.fn().mockResolvedValue({ count: 7 });
+    const deleteMany = vi.fn().mockResolvedValue({ count: 0 });
+    const store = new PostgresRateLimitStore({
+      rateLimitBucket: { upsert, findUnique, deleteMany },
+    } as never);
+
+    expect(await store.hit('vote:abc', T0, WINDOW_MS)).toEqual({ current: 4, previous: 7 });
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { key_windowStart: { key: 'vote:abc', windowStart: new Date(T0) } },
+        update: { count: { increment: 1 } },
+      })
+    );
+    expect(findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { key_windowStart: { key: 'vote:abc', windowStart: new Date(T0 - WINDOW_MS) } },
+      })
+    );
+    expect(deleteMany).toHaveBeenCalledTimes(1);
+
+    // Cleanup is throttled
+    await store.hit('vote:abc', T0, WINDOW_MS);
+    expect(deleteMany).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('checkRateLimit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    setRateLimitStore(null);
+  });
+
+  it('should enforce the limit and slide across windows', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(T0 + WINDOW_MS - 1000);
+    setRateLimitStore(new MemoryRateLimitStore());
+
+    for (let i = 0; i < 5; i++) {
+      expect((await checkRateLimit('user', config)).success).toBe(true);
+    }
+    expect((await checkRateLimit('user', config)).success).toBe(false);
+
+    // Just after the boundary the previous window still weighs ~100%
+    vi.setSystemTime(T0 + WINDOW_MS + 1000);
+    expect((await checkRateLimit('user', config)).success).toBe(false);
+
+    // A full window later the old hits no longer count
+    vi.setSystemTime(T0 + 3 * WINDOW_MS);
+    expect((await checkRateLimit('user', config)).success).toBe(true);
+  });
+
+  it('should keep identifiers and prefixes separate', async () => {
+    setRateLimitStore(new MemoryRateLimitStore());
+    for (let i = 0; i < 5; i++) await checkRateLimit('user', config);
+
+    expect((await checkRateLimit('other', config)).success).toBe(true);
+    expect((await checkRateLimit('user', { ...config, prefix: 'other' })).success).toBe(true);
+  });
+
+  it('should fall back to memory when the store fails', async () => {
+    const failing: RateLimitStore = {
+      type: 'postgres',
+      hit: vi.fn().mockRejectedValue(new Error('connection refused')),
+    };
+    setRateLimitStore(failing);
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await checkRateLimit('fallback-user', config);
+    expect(result.success).toBe(true);
+    expect(result.remaining).toBe(4);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('parseRateLimitOverrides', () => {
+  it('should accept partial overrides for known limits', () => {
+    const result = parseRateLimitOverrides({ auth: { limit: 60 }, vote: { limit: 120, windowSeconds: 30 } });
+    expect(result).toEqual({
+      valid: true,
+      data: { auth: { limit: 60 }, vote: { limit: 120, windowSeconds: 30 } },
+    });
+  });
+
+  it('should reject unknown limits and invalid values', () => {
+    expect(parseRateLimitOverrides({ image: { limit: 10 } }).valid).toBe(false);
+    expect(parseRateLimitOverrides({ vote: { limit: 0 } }).valid).toBe(false);
+    expect(parseRateLimitOverrides({ vote: { windowSeconds: 1.5 } }).valid).toBe(false);
+    expect(parseRateLimitOverrides({ vote: {} }).valid).toBe(false);
+    expect(parseRateLimitOverrides([]).valid).toBe(false);
+  });
+});
+
+describe('getStudyRateLimit', () => {
+  it('should merge study overrides onto the defaults', async () => {
+    findStudy.mockResolvedValue({ rateLimits: { vote: { limit: 200 } } });
+
+    expect(await getStudyRateLimit('study-override', 'vote')).toEqual({ ...RATE_LIMITS.vote, limit: 200 });
+    expect(await getStudyRateLimit('study-override', 'auth')).toEqual(RATE_LIMITS.auth);
+  });
+
+  it('should cache overrides until cleared', async () => {
+    findStudy.mockReset();
+    findStudy.mockResolvedValue({ rateLimits: null });
+
+    await getStudyRateLimit('study-cached', 'nextPair');
+    await getStudyRateLimit('study-cached', 'vote');
+    expect(findStudy).toHaveBeenCalledTimes(1);
+
+    clearStudyRateLimitCache('study-cached');
+    await getStudyRateLimit('study-cached', 'vote');
+    expect(findStudy).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for Evaluator Reliability
+ *
+ * Validates:
+ * - Weighted Bradley-Terry and Plackett-Luce fits, per category when separated
+ * - Consensus agreement of reliable, random and contrarian sessions
+ * - Transitivity and gold accuracy in the weight
+ * - The reliability-weighted fit recovering the true order
+ */
+
+import { describe, it, expect } from 'vitest';
+import { estimateBradleyTerry } from '@/lib/ranking/bradley-terry';
+import { estimatePlackettLuce } from '@/lib/ranking/plackett-luce';
+import {
+  combineReliability,
+  estimateSessionReliability,
+  estimateWeightedAbilities,
+  reliabilityWeights,
+  type ReliabilityComparison,
+} from '@/lib/ranking/reliability';
+
+/** True order, best first */
+const ORDER = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+/** Deterministic pseudo-random numbers in [0, 1) */
+function lcg(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * One session voting on every pair `rounds` times.
+ * honest: better item wins; contrarian: worse item wins; random: coin flip.
+ */
+function session(sessionId: string, kind: 'honest' | 'contrarian' | 'random', rounds = 2, seed = 1) {
+  const random = lcg(seed);
+  const rows: ReliabilityComparison[] = [];
+  for (let round = 0; round < rounds; round++) {
+    for (let i = 0; i < ORDER.length; i++) {
+      for (let j = i + 1; j < ORDER.length; j++) {
+        const [better, worse] = [ORDER[i], ORDER[j]];
+        const winnerId = kind === 'honest' ? better : kind === 'contrarian' ? worse : random() < 0.5 ? better : worse;
+        rows.push({ sessionId, itemAId: better, itemBId: worse, winnerId });
+      }
+    }
+  }
+  return rows;
+}
+
+function orderOf(abilities: Map<string, number>) {
+  return [...abilities.keys()].sort((x, y) => abilities.get(y)! - abilities.get(x)!);
+}
+
+describe('weighted fits', () => {
+  it('should treat a Bradley-Terry weight as repeated comparisons', () => {
+    const weighted = estimateBradleyTerry([
+      { winnerId: 'A', loserId: 'B', weight: 3 },
+      { winnerId: 'B', loserId: 'A' },
+      { winnerId: 'B', loserId: 'C', weight: 2 },
+      { winnerId: 'C', loserId: 'B' },
+    ]);
+    const repeated = estimateBradleyTerry([
+      ...Array(3).fill({ winnerId: 'A', loserId: 'B' }),
+      { winnerId: 'B', loserId: 'A' },
+      ...Array(2).fill({ winnerId: 'B', loserId: 'C' }),
+      { winnerId: 'C', loserId: 'B' },
+    ]);
+    for (const id of ['A', 'B', 'C']) {
+      expect(weighted.abilities.get(id)).toBeCloseTo(repeated.abilities.get(id)!, 6);
+      expect(weighted.standardErrors.get(id)).toBeCloseTo(repeated.standardErrors.get(id)!, 6);
+    }
+    expect(weighted.logLikelihood).toBeCloseTo(repeated.logLikelihood, 6);
+  });
+
+  it('should treat a Plackett-Luce weight as repeated observations', () => {
+    const weighted = estimatePlackettLuce([
+      { itemIds: ['A', 'B', 'C'], ranking: ['A', 'B'], weight: 2 },
+      { itemIds: ['A', 'B', 'C'], ranking: ['C'] },
+      { itemIds: ['A', 'B', 'C'], ranking: ['B', 'C'] },
+    ]);
+    const repeated = estimatePlackettLuce([
+      { itemIds: ['A', 'B', 'C'], ranking: ['A', 'B'] },
+      { itemIds: ['A', 'B', 'C'], ranking: ['A', 'B'] },
+      { itemIds: ['A', 'B', 'C'], ranking: ['C'] },
+      { itemIds: ['A', 'B', 'C'], ranking: ['B', 'C'] },
+    ]);
+    for (const id of ['A', 'B', 'C']) {
+      expect(weighted.abilities.get(id)).toBeCloseTo(repeated.abilities.get(id)!, 6);
+    }
+    expect(weighted.logLikelihood).toBeCloseTo(repeated.logLikelihood, 6);
+  });
+});
+
+describe('estimateSessionReliability', () => {
+  const comparisons = [
+    ...session('h1', 'honest'),
+    ...session('h2', 'honest'),
+    ...session('h3', 'honest'),
+    ...session('r1', 'random', 2, 7),
+    ...session('x1', 'contrarian'),
+  ];
+  const result = estimateSessionReliability(comparisons);
+  const of = (id: string) => result.sessions.get(id)!;
+
+  it('should rate honest evaluators above random and contrarian ones', () => {
+    expect(of('h1').consensusAgreement).toBeGreaterThan(0.9);
+    expect(of('r1').consensusAgreement).toBeLessThan(0.8);
+    expect(of('x1').consensusAgreement).toBeLessThan(0.5);
+    expect(of('h1').weight).toBeGreaterThan(of('r1').weight);
+    expect(of('x1').weight).toBe(0);
+  });
+
+  it('should report each session\'s own transitivity', () => {
+    expect(of('h1')).toMatchObject({ comparisonCount: 30, circularTriadCount: 0, transitivityIndex: 1 });
+    expect(of('x1').circularTriadCount).toBe(0);
+  });
+
+  it('should recover the true order once unreliable sessions are weighted down', () => {
+    const weighted = estimateWeightedAbilities(comparisons, reliabilityWeights(result), false)!;
+    expect(orderOf(weighted.abilities)).toEqual(ORDER);
+  });
+
+  it('should lower the weight of sessions that fail gold checks', () => {
+    const withGold = estimateSessionReliability(comparisons, [
+      { sessionId: 'h2', passed: false },
+      { sessionId: 'h2', passed: false },
+      { sessionId: 'h3', passed: true },
+    ]);
+    expect(withGold.sessions.get('h2')!.goldAccuracy).toBe(0);
+    expect(withGold.sessions.get('h3')!.goldAccuracy).toBe(1);
+    expect(withGold.sessions.get('h2')!.weight).toBeLessThan(withGold.sessions.get('h3')!.weight);
+  });
+});
+
+describe('combineReliability', () => {
+  it('should give chance-level signals no weight', () => {
+    expect(combineReliability(0.5, 0, null, 0, 0)).toBe(0);
+    expect(combineReliability(1, 0, null, 0, 0)).toBe(1);
+    expect(combineReliability(1, 10, 36, 0, 0)).toBe(0);
+    expect(combineReliability(1, 0, null, 5, 10)).toBeCloseTo(2 * (8 / 13) - 1, 10);
+  });
+
+  it('should not punish one slip in a short session', () => {
+    expect(combineReliability(1, 1, 4, 0, 1)).toBeGreaterThan(0.2);
+  });
+});
+
+describe('estimateWeightedAbilities', () => {
+  it('should fit grouped votes with Plackett-Luce and skip weightless sessions', () => {
+    const rows = [
+      { sessionId: 's1', itemAId: 'A', itemBId: 'B', winnerId: 'A', choiceGroupId: 'g1' },
+      { sessionId: 's1', itemAId: 'A', itemBId: 'C', winnerId: 'A', choiceGroupId: 'g1' },
+      { sessionId: 's2', itemAId: 'C', itemBId: 'A', winnerId: 'C', choiceGroupId: 'g2' },
+      { sessionId: 's2', itemAId: 'C', itemBId: 'B', winnerId: 'C', choiceGroupId: 'g2' },
+    ];
+    expect(estimateWeightedAbilities(rows, new Map([['s1', 0], ['s2', 0]]), true)).toBeNull();
+    const fit = estimateWeightedAbilities(rows, new Map([['s1', 1], ['s2', 0.25]]), true)!;
+    expect(fit.abilities.get('A')!).toBeGreaterThan(fit.abilities.get('C')!);
+  });
+  it('should fit separated categories on their own scales', () => {
+    const rows: ReliabilityComparison[] = [
+      ...Array.from({ length: 6 }, () => ({ sessionId: 's1', itemAId: 'A', itemBId: 'B', winnerId: 'A' })),
+      { sessionId: 's1', itemAId: 'A', itemBId: 'B', winnerId: 'B' },
+      { sessionId: 's1', itemAId: 'X', itemBId: 'Y', winnerId: 'X' },
+      { sessionId: 's1', itemAId: 'X', itemBId: 'Y', winnerId: 'Y' },
+      // Cross-category rows are not part of either fit
+      { sessionId: 's1', itemAId: 'B', itemBId: 'X', winnerId: 'B' },
+    ];
+    const categoryOf = new Map([['A', 'c1'], ['B', 'c1'], ['X', 'c2'], ['Y', 'c2']]);
+    const fit = estimateWeightedAbilities(rows, new Map(), false, categoryOf)!;
+
+    const alone = estimateBradleyTerry(rows.slice(0, 7).map((row) => ({ winnerId: row.winnerId!, loserId: row.winnerId === 'A' ? 'B' : 'A' })));
+    expect(fit.abilities.get('A')).toBeCloseTo(alone.abilities.get('A')!, 6);
+    expect(fit.abilities.get('X')).toBeCloseTo(fit.abilities.get('Y')!, 6);
+    expect(fit.abilities.size).toBe(4);
+  });
+});
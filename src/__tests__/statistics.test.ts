@@ -6,6 +6,7 @@
  * - Publishable threshold checking
  * - Graph connectivity analysis
  * - Circular triad detection
+ * - Top-N separation
  * - Data status classification
  */
 
@@ -16,6 +17,7 @@ import {
   checkGraphConnectivity,
   detectCircularTriads,
   calculateDataStatus,
+  checkTopNSeparation,
 } from '@/lib/ranking/statistics';
 
 describe('calculateEloStdError', () => {
@@ -256,6 +258,115 @@ describe('isPublishableThreshold', () => {
   });
 });
 
+describe('checkTopNSeparation', () => {
+  it('should report separation when the top intervals clear the rest', () => {
+    const result = checkTopNSeparation(
+      [
+        { id: 'A', score: 3, stdError: 0.2 },
+        { id: 'B', score: 2.5, stdError: 0.2 },
+        { id: 'C', score: 1, stdError: 0.3 },
+        { id: 'D', score: 0, stdError: 0.3 },
+      ],
+      2,
+    )!;
+
+    expect(result.separated).toBe(true);
+    expect(result.contestedItemIds).toEqual([]);
+    expect(result.boundary).toBe(1.75);
+    expect(result.minTopLower).toBeCloseTo(2.5 - 1.96 * 0.2);
+    expect(result.maxRestUpper).toBeCloseTo(1 + 1.96 * 0.3);
+    expect(result.gap).toBeGreaterThan(0);
+  });
+
+  it('should list the items whose intervals cross the boundary', () => {
+    const result = checkTopNSeparation(
+      [
+        { id: 'A', score: 3, stdError: 0.1 },
+        { id: 'B', score: 2, stdError: 0.5 },
+        { id: 'C', score: 1.8, stdError: 0.5 },
+        { id: 'D', score: 0, stdError: 0.1 },
+      ],
+      2,
+    )!;
+
+    expect(result.separated).toBe(false);
+    expect(result.contestedItemIds).toEqual(['B', 'C']);
+    expect(result.gap).toBeLessThan(0);
+  });
+
+  it('should treat missing standard errors as unbounded', () => {
+    const result = checkTopNSeparation(
+      [
+        { id: 'A', score: 10, stdError: null },
+        { id: 'B', score: 0, stdError: 0.1 },
+      ],
+      1,
+    )!;
+    expect(result.separated).toBe(false);
+    expect(result.contestedItemIds).toEqual(['A', 'B']);
+  });
+
+  it('should use the given interval width', () => {
+    const items = [
+      { id: 'A', score: 1, stdError: 0.25 },
+      { id: 'B', score: 0, stdError: 0.25 },
+    ];
+    expect(checkTopNSeparation(items, 1)!.separated).toBe(true);
+    expect(checkTopNSeparation(items, 1, 2.58)!.separated).toBe(false);
+  });
+
+  it('should return null unless some items fall outside the top N', () => {
+    const items = [{ id: 'A', score: 1, stdError: 0.1 }, { id: 'B', score: 0, stdError: 0.1 }];
+    expect(checkTopNSeparation(items, 0)).toBeNull();
+    expect(checkTopNSeparation(items, 2)).toBeNull();
+  });
+});
+
+describe('isPublishableThreshold top-N separation', () => {
+  const comparisons = [{ winnerId: 'A', itemAId: 'A', itemBId: 'B' }];
+
+  it('should report separation by score without gating publishability', () => {
+    const items = [
+      { id: 'B', comparisonCount: 1, score: 0, stdError: 0.1 },
+      { id: 'A', comparisonCount: 1, score: 2, stdError: 0.1 },
+    ];
+    const result = isPublishableThreshold(items, comparisons, {
+      minExposuresPerItem: 1,
+      minTotalComparisons: 1,
+      targetTopN: 1,
+    });
+
+    expect(result.isPublishable).toBe(true);
+    expect(result.conditions.topNSeparation).toMatchObject({ met: true, topN: 1, contestedItems: 0 });
+
+    const overlapping = isPublishableThreshold(
+      items.map((item) => ({ ...item, stdError: 1 })),
+      comparisons,
+      { minExposuresPerItem: 1, minTotalComparisons: 1, targetTopN: 1 },
+    );
+    expect(overlapping.isPublishable).toBe(true);
+    expect(overlapping.conditions.topNSeparation).toMatchObject({ met: false, contestedItems: 2 });
+  });
+
+  it('should omit the condition without targetTopN or scores', () => {
+    const withScores = [
+      { id: 'A', comparisonCount: 1, score: 2, stdError: 0.1 },
+      { id: 'B', comparisonCount: 1, score: 0, stdError: 0.1 },
+    ];
+    expect(
+      isPublishableThreshold(withScores, comparisons, { minExposuresPerItem: 1, minTotalComparisons: 1 })
+        .conditions.topNSeparation,
+    ).toBeUndefined();
+    expect(
+      isPublishableThreshold(
+        [{ id: 'A', comparisonCount: 1 }, { id: 'B', comparisonCount: 1 }],
+        comparisons,
+        { minExposuresPerItem: 1, minTotalComparisons: 1, targetTopN: 1 },
+      ).conditions.topNSeparation,
+    ).toBeUndefined();
+  });
+});
+
 describe('calculateDataStatus', () => {
   it('should return insufficient for empty data', () => {
     const status = calculateDataStatus(
@@ -265,4 +376,19 @@ describe('calculateDataStatus', () => {
     );
     expect(status).toBe('insufficient');
   });
+
+  it('should report converged only for publishable data', () => {
+    const comparisons = Array.from({ length: 25 }, (_, i) => ({
+      winnerId: i % 2 === 0 ? 'A' : 'B',
+      itemAId: 'A',
+      itemBId: 'B',
+      isFlagged: false,
+      flagReason: null,
+    }));
+    const items = [{ id: 'A', comparisonCount: 25 }, { id: 'B', comparisonCount: 25 }];
+    const thresholds = { minExposuresPerItem: 10, minTotalComparisons: null, converged: true };
+
+    expect(calculateDataStatus(items, comparisons, thresholds)).toBe('converged');
+    expect(calculateDataStatus(items, comparisons.slice(0, 5), thresholds)).toBe('insufficient');
+  });
 });
@@ -0,0 +1,147 @@
+/**
+ * Tests for Storage Providers
+ *
+ * Validates:
+ * - Local provider read/write and legacy extension fallback
+ * - Public URL mapping for local, S3 and Supabase backends
+ * - Key safety checks
+ * - Provider selection from environment variables
+ * - SigV4 request signing format
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { LocalStorageProvider } from '@/lib/storage/local';
+import { S3StorageProvider, signS3Request } from '@/lib/storage/s3';
+import { SupabaseStorageProvider } from '@/lib/storage/supabase';
+import { createStorageFromEnv } from '@/lib/storage';
+
+describe('LocalStorageProvider', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'sciblind-storage-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should write and read objects', async () => {
+    const storage = new LocalStorageProvider(root);
+    await storage.putObject('studies/s1/abc.webp', Buffer.from('image'));
+    expect((await storage.getObject('studies/s1/abc.webp'))?.toString()).toBe('image');
+    expect(await storage.getObject('studies/s1/missing.webp')).toBeNull();
+  });
+
+  it('should delete objects and ignore missing ones', async () => {
+    const storage = new LocalStorageProvider(root);
+    await storage.putObject('studies/s1/abc.webp', Buffer.from('image'));
+    await storage.deleteObject('studies/s1/abc.webp');
+    expect(await storage.getObject('studies/s1/abc.webp')).toBeNull();
+    await expect(storage.deleteObject('studies/s1/abc.webp')).resolves.toBeUndefined();
+  });
+
+  it('should fall back to legacy PNG files for .webp keys', async () => {
+    mkdirSync(path.join(root, 'izvrs', '3-razredi'), { recursive: true });
+    writeFileSync(path.join(root, 'izvrs', '3-razredi', '12.png'), 'png');
+    const storage = new LocalStorageProvider(root);
+    expect((await storage.getObject('izvrs/3-razredi/12.webp'))?.toString()).toBe('png');
+  });
+
+  it('should serve keys from /uploads', () => {
+    const storage = new LocalStorageProvider(root);
+    expect(storage.getPublicUrl('studies/s1/abc.webp')).toBe('/uploads/studies/s1/abc.webp');
+  });
+
+  it('should reject keys that escape the storage root', async () => {
+    const storage = new LocalStorageProvider(root);
+    expect(() => storage.getPublicUrl('../secret')).toThrow();
+    await expect(storage.getObject('/etc/passwd')).rejects.toThrow();
+  });
+});
+
+describe('SupabaseStorageProvider', () => {
+  it('should strip the key prefix when building public URLs', () => {
+    const storage = new SupabaseStorageProvider('https://x.supabase.co', 'izvrs-images', undefined, 'izvrs/');
+    expect(storage.getPublicUrl('izvrs/3-razredi/12.webp')).toBe(
+      'https://x.supabase.co/storage/v1/object/public/izvrs-images/3-razredi/12.webp'
+    );
+    expect(storage.getPublicUrl('studies/s1/abc.webp')).toBe(
+      'https://x.supabase.co/storage/v1/object/public/izvrs-images/studies/s1/abc.webp'
+    );
+  });
+
+  it('should require a service key for uploads', async () => {
+    const storage = new SupabaseStorageProvider('https://x.supabase.co', 'bucket', undefined);
+    await expect(storage.putObject('a.webp', Buffer.from(''), 'image/webp')).rejects.toThrow('SUPABASE_SERVICE_ROLE_KEY');
+  });
+});
+
+describe('S3StorageProvider', () => {
+  const config = {
+    endpoint: 'http://localhost:9000/',
+    bucket: 'items',
+    region: 'us-east-1',
+    accessKeyId: 'AKIDEXAMPLE',
+    secretAccessKey: 'secret',
+  };
+
+  it('should use path-style URLs unless a public URL is configured', () => {
+    expect(new S3StorageProvider(config).getPublicUrl('studies/s1/a.webp')).toBe(
+      'http://localhost:9000/items/studies/s1/a.webp'
+    );
+    expect(new S3StorageProvider({ ...config, publicUrl: 'https://cdn.example.com' }).getPublicUrl('a.webp')).toBe(
+      'https://cdn.example.com/a.webp'
+    );
+  });
+
+  it('should produce deterministic SigV4 headers', () => {
+    const url = new URL('http://localhost:9000/items/a.webp');
+    const now = new Date('2025-01-02T03:04:05.000Z');
+    const headers = signS3Request('GET', url, undefined, config, now);
+
+    expect(headers['x-amz-date']).toBe('20250102T030405Z');
+    expect(headers['x-amz-content-sha256']).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+    expect(headers.Authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/20250102\/us-east-1\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+    expect(signS3Request('GET', url, undefined, config, now)).toEqual(headers);
+    expect(signS3Request('PUT', url, Buffer.from('x'), config, now).Authorization).not.toBe(headers.Authorization);
+  });
+});
+
+describe('createStorageFromEnv', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should default to local storage', () => {
+    delete process.env.STORAGE_TYPE;
+    expect(createStorageFromEnv().type).toBe('local');
+  });
+
+  it('should build a Supabase provider from env', () => {
+    process.env.STORAGE_TYPE = 'supabase';
+    process.env.SUPABASE_URL = 'https://x.supabase.co/';
+    process.env.SUPABASE_STORAGE_BUCKET = 'bucket';
+    const storage = createStorageFromEnv();
+    expect(storage.type).toBe('supabase');
+    expect(storage.getPublicUrl('a.webp')).toBe('https://x.supabase.co/storage/v1/object/public/bucket/a.webp');
+  });
+
+  it('should fail fast on missing or unknown configuration', () => {
+    process.env.STORAGE_TYPE = 's3';
+    delete process.env.S3_ENDPOINT;
+    expect(() => createStorageFromEnv()).toThrow('S3_ENDPOINT');
+
+    process.env.STORAGE_TYPE = 'ftp';
+    expect(() => createStorageFromEnv()).toThrow('Unknown STORAGE_TYPE');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for Study Roles
+ *
+ * Validates:
+ * - Role → permission matrix (OWNER ⊇ EDITOR ⊇ ANALYST ⊇ VIEWER)
+ * - Effective role resolution (super admin, owner, member, legacy studies)
+ * - Invitation request validation and token hashing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateInviteToken,
+  hashInviteToken,
+  resolveStudyRole,
+  roleAllows,
+  validateInviteRequest,
+  type StudyPermission,
+} from '@/lib/security/study-roles';
+
+describe('roleAllows', () => {
+  const matrix: Record<string, StudyPermission[]> = {
+    OWNER: ['view', 'export', 'edit', 'manage'],
+    EDITOR: ['view', 'export', 'edit'],
+    ANALYST: ['view', 'export'],
+    VIEWER: ['view'],
+  };
+  const permissions: StudyPermission[] = ['view', 'export', 'edit', 'manage'];
+
+  it.each(Object.entries(matrix))('%s should get exactly its permissions', (role, allowed) => {
+    for (const permission of permissions) {
+      expect(roleAllows(role as never, permission)).toBe(allowed.includes(permission));
+    }
+  });
+
+  it('should deny everything without a role', () => {
+    for (const permission of permissions) {
+      expect(roleAllows(null, permission)).toBe(false);
+    }
+  });
+});
+
+describe('resolveStudyRole', () => {
+  const user = { id: 'user-1', role: 'USER' as const };
+  const study = { ownerId: 'someone-else', isLegacy: false, members: [] };
+
+  it('should make super admins owners of every study', () => {
+    expect(resolveStudyRole({ id: 'admin', role: 'SUPER_ADMIN' }, study)).toBe('OWNER');
+  });
+
+  it('should make the study owner OWNER', () => {
+    expect(resolveStudyRole(user, { ...study, ownerId: 'user-1' })).toBe('OWNER');
+  });
+
+  it('should use the membership role', () => {
+    expect(resolveStudyRole(user, { ...study, members: [{ role: 'ANALYST' }] })).toBe('ANALYST');
+  });
+
+  it('should deny users without membership', () => {
+    expect(resolveStudyRole(user, study)).toBeNull();
+    expect(resolveStudyRole(user, { ...study, ownerId: null })).toBeNull();
+  });
+
+  it('should ignore memberships on legacy studies', () => {
+    const legacy = { ...study, isLegacy: true, members: [{ role: 'EDITOR' as const }] };
+    expect(resolveStudyRole(user, legacy)).toBeNull();
+    expect(resolveStudyRole(user, { ...legacy, ownerId: 'user-1' })).toBe('OWNER');
+  });
+});
+
+describe('validateInviteRequest', () => {
+  it('should normalize the email', () => {
+    expect(validateInviteRequest({ email: '  Co-PI@Example.org ', role: 'EDITOR' })).toEqual({
+      valid: true,
+      data: { email: 'co-pi@example.org', role: 'EDITOR' },
+    });
+  });
+
+  it('should reject invalid emails and roles', () => {
+    expect(validateInviteRequest({ email: 'not-an-email', role: 'VIEWER' }).valid).toBe(false);
+    expect(validateInviteRequest({ email: 'a@b.org', role: 'ADMIN' }).valid).toBe(false);
+    expect(validateInviteRequest({ email: 'a@b.org', role: 'viewer' }).valid).toBe(false);
+    expect(validateInviteRequest(null).valid).toBe(false);
+  });
+});
+
+describe('invite tokens', () => {
+  it('should be unique, URL-safe and hashed deterministically', () => {
+    const a = generateInviteToken();
+    const b = generateInviteToken();
+    expect(a).not.toBe(b);
+    expect(a).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(hashInviteToken(a)).toBe(hashInviteToken(a));
+    expect(hashInviteToken(a)).not.toBe(hashInviteToken(b));
+    expect(hashInviteToken(a)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
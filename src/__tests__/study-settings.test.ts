@@ -0,0 +1,166 @@
+/**
+ * Tests for Study Settings Validation
+ *
+ * Validates:
+ * - Required fields on create
+ * - Range checks for numeric settings
+ * - Category slugging and duplicate detection
+ * - Partial (update) validation
+ * - Before/after diffs for updates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateStudySettings, slugify, diffStudySettings, LOCKED_AFTER_VOTES } from '@/lib/studies/settings';
+
+const validBody = {
+  title: 'Test Study',
+  description: 'A study for testing',
+  participantPrompt: 'Which do you prefer?',
+  inputType: 'IMAGE',
+  rankingMethod: 'ELO',
+};
+
+describe('slugify', () => {
+  it('should produce URL-safe slugs', () => {
+    expect(slugify('3. razredi')).toBe('3-razredi');
+    expect(slugify('  Čudovite Slike! ')).toBe('cudovite-slike');
+  });
+});
+
+describe('validateStudySettings', () => {
+  it('should accept a minimal valid create body', () => {
+    const result = validateStudySettings(validBody);
+    expect(result.valid).toBe(true);
+    expect(result.data?.title).toBe('Test Study');
+  });
+
+  it('should require title on create', () => {
+    const { title: _title, ...body } = validBody;
+    const result = validateStudySettings(body);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('title');
+  });
+
+  it('should reject invalid enum values', () => {
+    expect(validateStudySettings({ ...validBody, inputType: 'VIDEO' }).valid).toBe(false);
+    expect(validateStudySettings({ ...validBody, comparisonMode: 'triple' }).valid).toBe(false);
+  });
+
+  it('should accept the ranking modes and validate the set size', () => {
+    expect(validateStudySettings({ ...validBody, comparisonMode: 'ranking', choiceSetSize: 6 }).data)
+      .toMatchObject({ comparisonMode: 'ranking', choiceSetSize: 6 });
+    expect(validateStudySettings({ ...validBody, comparisonMode: 'best-worst' }).valid).toBe(true);
+    expect(validateStudySettings({ ...validBody, choiceSetSize: 3 }).valid).toBe(false);
+    expect(validateStudySettings({ ...validBody, choiceSetSize: 7 }).valid).toBe(false);
+  });
+
+  it('should reject non-boolean flags', () => {
+    expect(validateStudySettings({ ...validBody, requireAccessCode: 'false' }).valid).toBe(false);
+    expect(validateStudySettings({ isActive: 0 }, { partial: true }).error).toBe('isActive must be a boolean');
+    expect(validateStudySettings({ isActive: false }, { partial: true }).data).toEqual({ isActive: false });
+  });
+
+  it('should validate attention check settings', () => {
+    expect(validateStudySettings({ ...validBody, goldCheckInterval: 10, minQualityScore: 0.8 }).data)
+      .toMatchObject({ goldCheckInterval: 10, minQualityScore: 0.8 });
+    expect(validateStudySettings({ repeatCheckInterval: null }, { partial: true }).data?.repeatCheckInterval).toBeNull();
+    expect(validateStudySettings({ ...validBody, goldCheckInterval: 1 }).valid).toBe(false);
+    expect(validateStudySettings({ ...validBody, minQualityScore: 1.5 }).valid).toBe(false);
+    expect(validateStudySettings({ ...validBody, minQualityChecks: 0 }).valid).toBe(false);
+  });
+
+  it('should validate convergence settings', () => {
+    expect(
+      validateStudySettings({ ...validBody, convergenceInterval: 50, convergenceWindow: 4, autoDeactivateOnConvergence: true }).data,
+    ).toMatchObject({ convergenceInterval: 50, convergenceWindow: 4, autoDeactivateOnConvergence: true });
+    expect(validateStudySettings({ convergenceInterval: null }, { partial: true }).data?.convergenceInterval).toBeNull();
+    expect(validateStudySettings({ ...validBody, convergenceInterval: 2 }).valid).toBe(false);
+    expect(validateStudySettings({ ...validBody, convergenceMinCorrelation: 0.2 }).valid).toBe(false);
+    expect(validateStudySettings({ ...validBody, convergenceWindow: 0 }).valid).toBe(false);
+  });
+
+  it('should validate the matchmaking config and fill in defaults', () => {
+    expect(validateStudySettings({ ...validBody, matchmakingConfig: { strategy: 'greedy' } }).valid).toBe(false);
+    expect(
+      validateStudySettings({ ...validBody, matchmakingConfig: { strategy: 'swiss', params: { scoreBy: 'elo' } } }).valid,
+    ).toBe(false);
+    expect(validateStudySettings({ ...validBody, matchmakingConfig: { strategy: 'adaptive' } }).data?.matchmakingConfig)
+      .toEqual({ strategy: 'adaptive', params: { streakLimit: 2 } });
+    expect(validateStudySettings({ matchmakingConfig: null }, { partial: true }).data?.matchmakingConfig).toBeNull();
+  });
+
+  it('should reject out-of-range numeric settings', () => {
+    expect(validateStudySettings({ ...validBody, eloKFactor: 0 }).valid).toBe(false);
+    expect(validateStudySettings({ ...validBody, comparisonsPerParticipant: 501 }).valid).toBe(false);
+    expect(
+      validateStudySettings({ ...validBody, minResponseTimeMs: 20000, maxResponseTimeMs: 15000 }).valid
+    ).toBe(false);
+  });
+
+  it('should slug categories and keep their order', () => {
+    const result = validateStudySettings({
+      ...validBody,
+      hasCategorySeparation: true,
+      categories: [{ name: '3. razredi' }, { name: '4. razredi', description: 'Fourth grade' }],
+    });
+    expect(result.valid).toBe(true);
+    expect(result.categories).toEqual([
+      { name: '3. razredi', slug: '3-razredi', description: null, displayOrder: 0 },
+      { name: '4. razredi', slug: '4-razredi', description: 'Fourth grade', displayOrder: 1 },
+    ]);
+  });
+
+  it('should reject duplicate category names', () => {
+    const result = validateStudySettings({
+      ...validBody,
+      categories: [{ name: 'Cats' }, { name: 'cats' }],
+    });
+    expect(result.valid).toBe(false);
+  });
+
+  it('should require categories when category separation is enabled', () => {
+    const result = validateStudySettings({ ...validBody, hasCategorySeparation: true });
+    expect(result.valid).toBe(false);
+  });
+
+  it('should only validate provided fields when partial', () => {
+    const result = validateStudySettings({ eloKFactor: 24 }, { partial: true });
+    expect(result.valid).toBe(true);
+    expect(result.data).toEqual({ eloKFactor: 24 });
+  });
+
+  it('should validate rate limit overrides', () => {
+    const result = validateStudySettings({ rateLimits: { auth: { limit: 60 } } }, { partial: true });
+    expect(result.data).toEqual({ rateLimits: { auth: { limit: 60 } } });
+    expect(validateStudySettings({ rateLimits: null }, { partial: true }).data).toEqual({ rateLimits: null });
+    expect(validateStudySettings({ rateLimits: { image: { limit: 1 } } }, { partial: true }).valid).toBe(false);
+  });
+
+  it('should reject categories on partial updates', () => {
+    const result = validateStudySettings({ categories: [] }, { partial: true });
+    expect(result.valid).toBe(false);
+  });
+});
+
+describe('diffStudySettings', () => {
+  it('should only include changed fields', () => {
+    const before = { title: 'Old', eloKFactor: 32, logoUrls: ['a.png'], targetTopN: null };
+    const diff = diffStudySettings(before, { title: 'New', eloKFactor: 32, logoUrls: ['a.png'], targetTopN: 4 });
+    expect(diff).toEqual({
+      title: { before: 'Old', after: 'New' },
+      targetTopN: { before: null, after: 4 },
+    });
+  });
+
+  it('should return an empty diff when nothing changes', () => {
+    expect(diffStudySettings({ isActive: true }, { isActive: true })).toEqual({});
+  });
+
+  it('should lock data-defining fields', () => {
+    expect(LOCKED_AFTER_VOTES).toEqual(expect.arrayContaining(['inputType', 'rankingMethod']));
+  });
+
+  it('should lock the choice set shape', () => {
+    expect(LOCKED_AFTER_VOTES).toEqual(expect.arrayContaining(['comparisonMode', 'choiceSetSize']));
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Tests for Bulk Upload Helpers
+ *
+ * Validates:
+ * - CSV parsing (quotes, CRLF, BOM)
+ * - Manifest column mapping and category resolution
+ * - ZIP extraction (stored and deflate entries) and the shared upload budget
+ * - Image normalization strips metadata
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import sharp from 'sharp';
+import { parseCsv, parseManifest, resolveCategory, baseNameWithoutExtension } from '@/lib/uploads/manifest';
+import { readZipEntries, isZipBuffer, createZipBudget } from '@/lib/uploads/zip';
+import { normalizeImage, generateImageKey, isImageFilename } from '@/lib/uploads/images';
+
+/**
+ * Build a ZIP archive in memory (no data descriptors, CRC left at 0)
+ */
+function createZip(files: { name: string; data: Buffer; deflate?: boolean }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name);
+    const body = file.deflate ? deflateRawSync(file.data) : file.data;
+    const method = file.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, body);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += 30 + name.length + body.length;
+  }
+
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(files.length, 8);
+  eocd.writeUInt16LE(files.length, 10);
+  eocd.writeUInt32LE(centralSize, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, eocd]);
+}
+
+describe('parseCsv', () => {
+  it('should parse quoted fields with commas and escaped quotes', () => {
+    const rows = parseCsv('text,label\n"Hello, ""world""",A\r\nPlain,B\n');
+    expect(rows).toEqual([
+      ['text', 'label'],
+      ['Hello, "world"', 'A'],
+      ['Plain', 'B'],
+    ]);
+  });
+
+  it('should keep newlines inside quoted fields and skip blank lines', () => {
+    const rows = parseCsv('\uFEFFtext\n"line 1\nline 2"\n\n');
+    expect(rows).toEqual([['text'], ['line 1\nline 2']]);
+  });
+});
+
+describe('parseManifest', () => {
+  it('should map columns case-insensitively', () => {
+    const { rows, error } = parseManifest('Filename,External ID,Label,Category\n1.png,1,Slika 1,3-razredi\n', 'filename');
+    expect(error).toBeUndefined();
+    expect(rows).toEqual([
+      { filename: '1.png', externalId: '1', label: 'Slika 1', category: '3-razredi' },
+    ]);
+  });
+
+  it('should require the key column', () => {
+    const { error } = parseManifest('label\nA\n', 'text');
+    expect(error).toContain('text');
+  });
+
+  it('should resolve categories by id, slug or name', () => {
+    const categories = [{ id: 'cat1', name: '3. razredi', slug: '3-razredi' }];
+    expect(resolveCategory('cat1', categories)?.id).toBe('cat1');
+    expect(resolveCategory('3-razredi', categories)?.id).toBe('cat1');
+    expect(resolveCategory('3. Razredi', categories)?.id).toBe('cat1');
+    expect(resolveCategory('unknown', categories)).toBeNull();
+  });
+
+  it('should derive external IDs from filenames', () => {
+    expect(baseNameWithoutExtension('izvrs/3-razredi/12.png')).toBe('12');
+  });
+});
+
+describe('readZipEntries', () => {
+  it('should extract stored and deflated entries', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: Buffer.from('stored') },
+      { name: 'dir/b.txt', data: Buffer.from('deflated content'), deflate: true },
+    ]);
+    expect(isZipBuffer(zip)).toBe(true);
+
+    const entries = readZipEntries(zip);
+    expect(entries.map((e) => e.name)).toEqual(['a.txt', 'dir/b.txt']);
+    expect(entries[1].data.toString()).toBe('deflated content');
+  });
+
+  it('should skip directories and macOS metadata', () => {
+    const zip = createZip([
+      { name: 'images/', data: Buffer.alloc(0) },
+      { name: '__MACOSX/images/._1.png', data: Buffer.from('x') },
+      { name: 'images/1.png', data: Buffer.from('png') },
+    ]);
+    expect(readZipEntries(zip).map((e) => e.name)).toEqual(['images/1.png']);
+  });
+
+  it('should enforce entry limits', () => {
+    const zip = createZip([
+      { name: '1.png', data: Buffer.alloc(10) },
+      { name: '2.png', data: Buffer.alloc(10) },
+    ]);
+    expect(() => readZipEntries(zip, { maxEntries: 1 })).toThrow();
+    expect(() => readZipEntries(zip, { maxEntryBytes: 5 })).toThrow();
+  });
+
+  it('should share one budget across archives', () => {
+    const zip = createZip([
+      { name: '1.png', data: Buffer.alloc(10) },
+      { name: '2.png', data: Buffer.alloc(10), deflate: true },
+    ]);
+    const budget = createZipBudget(3, 1000);
+    expect(readZipEntries(zip, { budget })).toHaveLength(2);
+    expect(budget).toEqual({ entriesLeft: 1, bytesLeft: 980, exhausted: null });
+    expect(() => readZipEntries(zip, { budget })).toThrow('too many files');
+    expect(budget.exhausted).toBe('entries');
+
+    const bytes = createZipBudget(10, 15);
+    expect(() => readZipEntries(zip, { budget: bytes })).toThrow('too large');
+    expect(bytes.exhausted).toBe('bytes');
+  });
+
+  it('should not inflate past the declared size', () => {
+    const zip = createZip([{ name: 'bomb.png', data: Buffer.alloc(1000), deflate: true }]);
+    // Understate the uncompressed size in the central directory
+    zip.writeUInt32LE(10, zip.length - 22 - 46 - 'bomb.png'.length + 24);
+    expect(() => readZipEntries(zip)).toThrow('declared size');
+  });
+
+  it('should reject non-zip input', () => {
+    expect(isZipBuffer(Buffer.from('not a zip'))).toBe(false);
+    expect(() => readZipEntries(Buffer.from('not a zip at all, definitely not'))).toThrow();
+  });
+});
+
+describe('normalizeImage', () => {
+  it('should re-encode to WebP without EXIF metadata', async () => {
+    const jpeg = await sharp({ create: { width: 8, height: 8, channels: 3, background: 'red' } })
+      .jpeg()
+      .withMetadata({ exif: { IFD0: { Copyright: 'Artist Name' } } })
+      .toBuffer();
+    expect((await sharp(jpeg).metadata()).exif).toBeDefined();
+
+    const normalized = await normalizeImage(jpeg);
+    const metadata = await sharp(normalized.data).metadata();
+    expect(metadata.format).toBe('webp');
+    expect(metadata.exif).toBeUndefined();
+    expect(normalized.width).toBe(8);
+  });
+
+  it('should reject non-image input', async () => {
+    await expect(normalizeImage(Buffer.from('not an image'))).rejects.toThrow();
+  });
+
+  it('should generate random keys unrelated to the filename', () => {
+    const a = generateImageKey('study1');
+    const b = generateImageKey('study1');
+    expect(a).toMatch(/^studies\/study1\/[0-9a-f]{32}\.webp$/);
+    expect(a).not.toBe(b);
+    expect(isImageFilename('photo.JPG')).toBe(true);
+    expect(isImageFilename('notes.txt')).toBe(false);
+  });
+});
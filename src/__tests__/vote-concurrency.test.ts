@@ -0,0 +1,540 @@
+/**
+ * Concurrency Tests for Vote Recording
+ *
+ * Runs the real vote recording code against an in-memory database that
+ * emulates Postgres SERIALIZABLE semantics: transactions see a consistent
+ * snapshot, and a commit fails with P2034 if any row it read was changed
+ * by a transaction that committed first.
+ *
+ * Validates:
+ * - No lost Elo updates when many sessions vote on the same pair at once
+ * - Retried POSTs with the same idempotency key are recorded once
+ * - Concurrent duplicates of a pair in one session are rejected
+ * - Quad votes stay consistent under contention
+ * - Ranking and best-worst votes stay consistent with a replay
+ * - Retry policy of runVoteTransaction
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Prisma } from '@prisma/client';
+import {
+  runVoteTransaction,
+  recordPairVote,
+  recordQuadVote,
+  recordChoiceVote,
+  isRetryableVoteError,
+  type VoteContext,
+} from '@/lib/voting/record';
+import { replayElo } from '@/lib/ranking/replay';
+import { decomposeChoiceSetVote } from '@/lib/voting/choices';
+
+// ===== In-memory serializable database =====
+
+type Row = Record<string, unknown> & { id: string };
+
+/** Yield so concurrent transactions interleave between queries */
+const tick = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+function matches(row: Row, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([key, value]) => {
+    if (key === 'OR') return (value as Record<string, unknown>[]).some((w) => matches(row, w));
+    if (value && typeof value === 'object' && 'in' in value) return (value as { in: unknown[] }).in.includes(row[key]);
+    return row[key] === value;
+  });
+}
+
+class FakeDb {
+  items = new Map<string, Row>();
+  sessions = new Map<string, Row>();
+  comparisons: Row[] = [];
+  pairExposures = new Map<string, Row>();
+  usageEvents = 0;
+  transactions = 0;
+  /** Row versions, plus one "comparisons of session X" version per session */
+  versions = new Map<string, number>();
+  private commitSeq = 0;
+
+  version(key: string): number {
+    return this.versions.get(key) ?? 0;
+  }
+
+  async $transaction<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    this.transactions++;
+    const tx = new FakeTx(this);
+    const result = await fn(tx as unknown as Prisma.TransactionClient);
+    await tick();
+    tx.commit();
+    return result;
+  }
+
+  applyCommit(tx: FakeTx) {
+    for (const [id, row] of tx.itemWrites) {
+      this.items.set(id, row);
+      this.versions.set(`item:${id}`, this.version(`item:${id}`) + 1);
+    }
+    for (const [id, row] of tx.sessionWrites) {
+      this.sessions.set(id, row);
+      this.versions.set(`session:${id}`, this.version(`session:${id}`) + 1);
+    }
+    for (const [key, row] of tx.pairExposureWrites) {
+      this.pairExposures.set(key, row);
+      this.versions.set(`pair:${key}`, this.version(`pair:${key}`) + 1);
+    }
+    for (const comparison of tx.comparisonWrites) {
+      this.commitSeq++;
+      this.comparisons.push({ ...comparison, createdAt: new Date(Date.UTC(2026, 0, 1) + this.commitSeq) });
+      const key = `comparisons:${comparison.sessionId}`;
+      this.versions.set(key, this.version(key) + 1);
+    }
+    this.usageEvents += tx.usageEvents;
+  }
+}
+
+class FakeTx {
+  reads = new Map<string, number>();
+  itemWrites = new Map<string, Row>();
+  sessionWrites = new Map<string, Row>();
+  comparisonWrites: Row[] = [];
+  pairExposureWrites = new Map<string, Row>();
+  usageEvents = 0;
+  private idSeq = 0;
+
+  constructor(private db: FakeDb) {}
+
+  private read(key: string) {
+    if (!this.reads.has(key)) this.reads.set(key, this.db.version(key));
+  }
+
+  private visibleComparisons(): Row[] {
+    return [...this.db.comparisons, ...this.comparisonWrites];
+  }
+
+  item = {
+    findMany: async ({ where }: { where: Record<string, unknown> }) => {
+      await tick();
+      const ids = (where.id as { in: string[] }).in;
+      return ids.flatMap((id) => {
+        this.read(`item:${id}`);
+        const row = this.itemWrites.get(id) ?? this.db.items.get(id);
+        return row ? [{ ...row }] : [];
+      });
+    },
+    update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+      await tick();
+      this.read(`item:${where.id}`);
+      const current = this.itemWrites.get(where.id) ?? this.db.items.get(where.id)!;
+      this.itemWrites.set(where.id, { ...current, ...data });
+    },
+  };
+
+  session = {
+    findUnique: async ({ where }: { where: { id: string } }) => {
+      await tick();
+      this.read(`session:${where.id}`);
+      const row = this.sessionWrites.get(where.id) ?? this.db.sessions.get(where.id);
+      return row ? { ...row } : null;
+    },
+    update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+      await tick();
+      this.read(`session:${where.id}`);
+      const current = this.sessionWrites.get(where.id) ?? this.db.sessions.get(where.id)!;
+      this.sessionWrites.set(where.id, { ...current, ...data });
+    },
+  };
+
+  comparison = {
+    findFirst: async ({ where }: { where: Record<string, unknown> }) => {
+      await tick();
+      this.read(`comparisons:${where.sessionId}`);
+      const row = this.visibleComparisons().find((c) => matches(c, where));
+      return row ? { id: row.id } : null;
+    },
+    count: async ({ where }: { where: Record<string, unknown> }) => {
+      await tick();
+      this.read(`comparisons:${where.sessionId}`);
+      return this.visibleComparisons().filter((c) => matches(c, where)).length;
+    },
+    create: async ({ data }: { data: Record<string, unknown> }) => {
+      await tick();
+      const row = { ...data, id: `${Math.random().toString(36).slice(2)}-${this.idSeq++}` } as Row;
+      this.comparisonWrites.push(row);
+      return row;
+    },
+  };
+
+  pairExposure = {
+    upsert: async ({ where, create, update }: {
+      where: { itemLowId_itemHighId: { itemLowId: string; itemHighId: string } };
+      create: Record<string, unknown>;
+      update: { count: { increment: number } };
+    }) => {
+      await tick();
+      const { itemLowId, itemHighId } = where.itemLowId_itemHighId;
+      const key = `${itemLowId}-${itemHighId}`;
+      this.read(`pair:${key}`);
+      const current = this.pairExposureWrites.get(key) ?? this.db.pairExposures.get(key);
+      this.pairExposureWrites.set(
+        key,
+        current
+          ? { ...current, count: (current.count as number) + update.count.increment }
+          : ({ ...create, id: key } as Row)
+      );
+    },
+  };
+
+  usageMetrics = {
+    create: async () => {
+      await tick();
+      this.usageEvents++;
+    },
+  };
+
+  commit() {
+    for (const [key, version] of this.reads) {
+      if (this.db.version(key) !== version) {
+        throw Object.assign(new Error('could not serialize access'), { code: 'P2034' });
+      }
+    }
+    for (const row of this.comparisonWrites) {
+      if (
+        row.idempotencyKey &&
+        this.db.comparisons.some((c) => c.sessionId === row.sessionId && c.idempotencyKey === row.idempotencyKey)
+      ) {
+        throw Object.assign(new Error('Unique constraint failed'), {
+          code: 'P2002',
+          meta: { target: ['sessionId', 'idempotencyKey'] },
+        });
+      }
+    }
+    this.db.applyCommit(this);
+  }
+}
+
+// ===== Fixtures =====
+
+const ITEM_IDS = ['item-a', 'item-b', 'item-c', 'item-d'];
+const MAX_RETRIES = 40;
+
+function createDb(sessionCount: number): FakeDb {
+  const db = new FakeDb();
+  for (const id of ITEM_IDS) {
+    db.items.set(id, {
+      id,
+      eloRating: 1500,
+      eloGames: 0,
+      comparisonCount: 0,
+      winCount: 0,
+      lossCount: 0,
+      leftCount: 0,
+      rightCount: 0,
+    });
+  }
+  for (let i = 0; i < sessionCount; i++) {
+    db.sessions.set(`session-${i}`, {
+      id: `session-${i}`,
+      comparisonCount: 0,
+      avgResponseTimeMs: null,
+      isFlagged: false,
+      flagReason: null,
+    });
+  }
+  return db;
+}
+
+function context(sessionId: string, overrides: Partial<VoteContext> = {}): VoteContext {
+  return {
+    studyId: 'study-1',
+    sessionId,
+    categoryId: null,
+    responseTimeMs: 2000,
+    isFlagged: false,
+    flagReason: null,
+    isTestSession: false,
+    updateElo: true,
+    kFactor: 32,
+    adaptiveK: false,
+    ...overrides,
+  };
+}
+
+function pairVote(
+  db: FakeDb,
+  sessionId: string,
+  winnerId: string | null,
+  overrides: Partial<VoteContext> = {},
+  preferenceStrength: number | null = null
+) {
+  const leftItemId = winnerId ?? 'item-a';
+  const rightItemId = leftItemId === 'item-a' ? 'item-b' : 'item-a';
+  return runVoteTransaction(
+    db,
+    (tx) =>
+      recordPairVote(tx, {
+        ...context(sessionId, overrides),
+        itemAId: 'item-a',
+        itemBId: 'item-b',
+        winnerId,
+        preferenceStrength,
+        leftItemId,
+        rightItemId,
+      }),
+    MAX_RETRIES
+  );
+}
+
+/** Ratings the committed comparisons should produce when replayed in commit order */
+function replayCommitted(db: FakeDb) {
+  return replayElo(
+    ITEM_IDS.map((id) => ({ id, artistEloBoost: 0 })),
+    db.comparisons.map((c) => c as unknown as Parameters<typeof replayElo>[1][number]),
+    { initialRating: 1500, kFactor: 32, adaptiveK: false }
+  );
+}
+
+// ===== Tests =====
+
+describe('concurrent pairwise votes', () => {
+  it('should not lose updates when many sessions vote on the same pair at once', async () => {
+    const voters = 12;
+    const db = createDb(voters);
+
+    const results = await Promise.all(
+      Array.from({ length: voters }, (_, i) => pairVote(db, `session-${i}`, i % 3 === 0 ? 'item-b' : 'item-a'))
+    );
+
+    expect(results.every((r) => r.status === 'recorded')).toBe(true);
+    // Conflicts actually happened and were retried
+    expect(db.transactions).toBeGreaterThan(voters);
+
+    const a = db.items.get('item-a')!;
+    const b = db.items.get('item-b')!;
+    expect(a.eloGames).toBe(voters);
+    expect(b.eloGames).toBe(voters);
+    expect(a.winCount).toBe(8);
+    expect(b.winCount).toBe(4);
+    expect((a.leftCount as number) + (a.rightCount as number)).toBe(voters);
+    expect(db.comparisons).toHaveLength(voters);
+    expect(db.usageEvents).toBe(voters);
+    expect(db.pairExposures.get('item-a-item-b')?.count).toBe(voters);
+
+    // Zero-sum with fixed K, and identical to a sequential replay
+    expect((a.eloRating as number) + (b.eloRating as number)).toBeCloseTo(3000, 6);
+    const replay = replayCommitted(db);
+    expect(a.eloRating).toBeCloseTo(replay.items.get('item-a')!.eloRating, 6);
+    expect(b.eloRating).toBeCloseTo(replay.items.get('item-b')!.eloRating, 6);
+  });
+
+  it('should record a retried vote only once', async () => {
+    const db = createDb(1);
+    const idempotencyKey = 'retry-key-0001';
+
+    const results = await Promise.all(
+      Array.from({ length: 8 }, () => pairVote(db, 'session-0', 'item-a', { idempotencyKey }))
+    );
+
+    expect(results.filter((r) => r.status === 'recorded')).toHaveLength(1);
+    expect(results.filter((r) => r.status === 'replayed')).toHaveLength(7);
+    expect(db.comparisons).toHaveLength(1);
+    expect(db.items.get('item-a')!.eloGames).toBe(1);
+    expect(db.sessions.get('session-0')!.comparisonCount).toBe(1);
+
+    const recorded = results.find((r) => r.status === 'recorded')!;
+    for (const result of results) {
+      expect(result).toMatchObject({ comparisonIds: (recorded as { comparisonIds: string[] }).comparisonIds });
+    }
+  });
+
+  it('should reject concurrent duplicates of the same pair in one session', async () => {
+    const db = createDb(1);
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, (_, i) => pairVote(db, 'session-0', 'item-a', { idempotencyKey: `distinct-key-${i}` }))
+    );
+
+    expect(results.filter((r) => r.status === 'recorded')).toHaveLength(1);
+    expect(results.filter((r) => r.status === 'duplicate')).toHaveLength(4);
+    expect(db.comparisons).toHaveLength(1);
+    expect(db.items.get('item-b')!.lossCount).toBe(1);
+  });
+
+  it('should count flagged votes without changing Elo when excluded', async () => {
+    const db = createDb(2);
+
+    await Promise.all([
+      pairVote(db, 'session-0', 'item-a', { isFlagged: true, flagReason: 'too_fast', updateElo: false }),
+      pairVote(db, 'session-1', 'item-a'),
+    ]);
+
+    const a = db.items.get('item-a')!;
+    expect(a.comparisonCount).toBe(2);
+    expect(a.eloGames).toBe(1);
+    expect(a.eloRating).toBeCloseTo(1516, 6);
+  });
+
+  it('should record no-preference and graded votes consistently with a replay', async () => {
+    const db = createDb(6);
+
+    await Promise.all([
+      pairVote(db, 'session-0', null),
+      pairVote(db, 'session-1', null),
+      pairVote(db, 'session-2', 'item-a', {}, 1),
+      pairVote(db, 'session-3', 'item-b', {}, 2),
+      pairVote(db, 'session-4', 'item-a'),
+      pairVote(db, 'session-5', null),
+    ]);
+
+    const a = db.items.get('item-a')!;
+    const b = db.items.get('item-b')!;
+    expect(a.comparisonCount).toBe(6);
+    expect(a).toMatchObject({ winCount: 2, lossCount: 1 });
+    expect(b).toMatchObject({ winCount: 1, lossCount: 2 });
+    expect(db.comparisons.filter((c) => c.winnerId === null)).toHaveLength(3);
+
+    const replay = replayCommitted(db);
+    expect(a.eloRating).toBeCloseTo(replay.items.get('item-a')!.eloRating, 6);
+    expect(b.eloRating).toBeCloseTo(replay.items.get('item-b')!.eloRating, 6);
+  });
+
+  it('should not touch item stats for test sessions', async () => {
+    const db = createDb(1);
+    await pairVote(db, 'session-0', 'item-a', { isTestSession: true });
+
+    expect(db.items.get('item-a')!.comparisonCount).toBe(0);
+    expect(db.comparisons[0]).toMatchObject({ isFlagged: true, flagReason: 'test_session' });
+    expect(db.sessions.get('session-0')!.comparisonCount).toBe(1);
+    expect(db.usageEvents).toBe(0);
+    expect(db.pairExposures.size).toBe(0);
+  });
+});
+
+describe('concurrent quad votes', () => {
+  it('should keep ratings and counts consistent under contention', async () => {
+    const voters = 8;
+    const db = createDb(voters);
+
+    const results = await Promise.all(
+      Array.from({ length: voters }, (_, i) =>
+        runVoteTransaction(
+          db,
+          (tx) =>
+            recordQuadVote(tx, {
+              ...context(`session-${i}`, { idempotencyKey: `quad-key-${i}-x` }),
+              itemIds: ITEM_IDS,
+              winnerId: ITEM_IDS[i % 4],
+              positions: ITEM_IDS,
+            }),
+          MAX_RETRIES
+        )
+      )
+    );
+
+    expect(results.every((r) => r.status === 'recorded')).toBe(true);
+    expect(db.comparisons).toHaveLength(voters * 3);
+    expect(db.comparisons.filter((c) => c.idempotencyKey)).toHaveLength(voters);
+    // The 3 rows of each vote form one choice group
+    const groups = new Set(db.comparisons.map((c) => c.choiceGroupId));
+    expect(groups.size).toBe(voters);
+    expect(groups.has(undefined)).toBe(false);
+
+    const items = ITEM_IDS.map((id) => db.items.get(id)!);
+    // Every item won twice and lost 6 times (once against each other winner)
+    for (const item of items) {
+      expect(item.winCount).toBe(6);
+      expect(item.lossCount).toBe(6);
+      expect(item.comparisonCount).toBe(12);
+    }
+
+    // Winner-vs-loser exposures add up to the stored rows
+    const exposures = [...db.pairExposures.values()].reduce((sum, row) => sum + (row.count as number), 0);
+    expect(exposures).toBe(voters * 3);
+
+    const total = items.reduce((sum, item) => sum + (item.eloRating as number), 0);
+    expect(total).toBeCloseTo(6000, 6);
+
+    const replay = replayCommitted(db);
+    for (const item of items) {
+      expect(item.eloRating).toBeCloseTo(replay.items.get(item.id)!.eloRating, 6);
+    }
+  });
+});
+
+describe('concurrent ranking and best-worst votes', () => {
+  it('should store each vote as one group matching a replay', async () => {
+    const votes = [
+      { ranking: ['item-a', 'item-b', 'item-c', 'item-d'], worstId: null },
+      { ranking: ['item-d', 'item-c'], worstId: null },
+      { ranking: ['item-b'], worstId: 'item-a' },
+      { ranking: ['item-c'], worstId: 'item-d' },
+    ];
+    const db = createDb(votes.length);
+
+    const results = await Promise.all(
+      votes.map((vote, i) =>
+        runVoteTransaction(
+          db,
+          (tx) =>
+            recordChoiceVote(tx, {
+              ...context(`session-${i}`, { idempotencyKey: `set-key-${i}-x` }),
+              itemIds: ITEM_IDS,
+              positions: ITEM_IDS,
+              outcomes: decomposeChoiceSetVote(ITEM_IDS, vote),
+              algoVersion: 'sciblind-v2-ranking',
+            }),
+          MAX_RETRIES
+        )
+      )
+    );
+
+    expect(results.every((r) => r.status === 'recorded')).toBe(true);
+    // Full ranking: 6 rows, top-2: 5 rows, best-worst: 5 rows each
+    expect(db.comparisons).toHaveLength(6 + 5 + 5 + 5);
+    expect(new Set(db.comparisons.map((c) => c.choiceGroupId)).size).toBe(votes.length);
+    expect(db.comparisons.filter((c) => c.idempotencyKey)).toHaveLength(votes.length);
+
+    const items = ITEM_IDS.map((id) => db.items.get(id)!);
+    const wins = items.reduce((sum, item) => sum + (item.winCount as number), 0);
+    expect(wins).toBe(21);
+    // item-a: first in the full ranking (3-0), below the top-2 (0-2), worst (0-3), in the middle (1-1)
+    expect(db.items.get('item-a')).toMatchObject({ winCount: 4, lossCount: 6, comparisonCount: 10 });
+
+    const total = items.reduce((sum, item) => sum + (item.eloRating as number), 0);
+    expect(total).toBeCloseTo(6000, 6);
+
+    const replay = replayCommitted(db);
+    for (const item of items) {
+      expect(item.eloRating).toBeCloseTo(replay.items.get(item.id)!.eloRating, 6);
+    }
+  });
+});
+
+describe('runVoteTransaction', () => {
+  it('should rethrow non-retryable errors immediately', async () => {
+    let calls = 0;
+    const client = {
+      $transaction: async () => {
+        calls++;
+        throw new Error('boom');
+      },
+    };
+    await expect(runVoteTransaction(client as never, async () => 1)).rejects.toThrow('boom');
+    expect(calls).toBe(1);
+  });
+
+  it('should give up after the retry limit', async () => {
+    let calls = 0;
+    const client = {
+      $transaction: async () => {
+        calls++;
+        throw Object.assign(new Error('conflict'), { code: 'P2034' });
+      },
+    };
+    await expect(runVoteTransaction(client as never, async () => 1, 2)).rejects.toThrow('conflict');
+    expect(calls).toBe(3);
+  });
+
+  it('should only retry unique violations on the idempotency key', () => {
+    expect(isRetryableVoteError({ code: 'P2002', meta: { target: ['sessionId', 'idempotencyKey'] } })).toBe(true);
+    expect(isRetryableVoteError({ code: 'P2002', meta: { target: ['token'] } })).toBe(false);
+    expect(isRetryableVoteError({ code: 'P2025' })).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for Pair Vote Response Scales
+ *
+ * Validates:
+ * - Which responses each scale accepts
+ * - Winner scores for plain, slight and no-preference votes
+ * - Winner/loser view of stored votes
+ * - Vote request validation of null winners and preference strengths
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkVoteResponse,
+  isResponseScale,
+  pairOutcome,
+  winnerScoreOf,
+} from '@/lib/voting/responses';
+import { validateVoteRequest } from '@/lib/security/validation';
+
+describe('checkVoteResponse', () => {
+  it('should only accept a plain choice on the binary scale', () => {
+    expect(checkVoteResponse('binary', { winnerId: 'a', preferenceStrength: null })).toBeNull();
+    expect(checkVoteResponse('binary', { winnerId: null, preferenceStrength: null })).not.toBeNull();
+    expect(checkVoteResponse('binary', { winnerId: 'a', preferenceStrength: 2 })).not.toBeNull();
+  });
+
+  it('should accept no preference on the ties and graded-3 scales', () => {
+    for (const scale of ['ties', 'graded-3']) {
+      expect(checkVoteResponse(scale, { winnerId: null, preferenceStrength: null })).toBeNull();
+      expect(checkVoteResponse(scale, { winnerId: 'a', preferenceStrength: null })).toBeNull();
+      expect(checkVoteResponse(scale, { winnerId: 'a', preferenceStrength: 1 })).not.toBeNull();
+    }
+  });
+
+  it('should require a strength for choices on the graded-5 scale', () => {
+    expect(checkVoteResponse('graded-5', { winnerId: 'a', preferenceStrength: 1 })).toBeNull();
+    expect(checkVoteResponse('graded-5', { winnerId: 'a', preferenceStrength: null })).not.toBeNull();
+    expect(checkVoteResponse('graded-5', { winnerId: null, preferenceStrength: null })).toBeNull();
+    expect(checkVoteResponse('graded-5', { winnerId: null, preferenceStrength: 2 })).not.toBeNull();
+  });
+
+  it('should recognize response scales', () => {
+    expect(isResponseScale('graded-5')).toBe(true);
+    expect(isResponseScale('graded-7')).toBe(false);
+  });
+});
+
+describe('pairOutcome', () => {
+  it('should score plain, slight and no-preference votes', () => {
+    expect(winnerScoreOf({ winnerId: 'a' })).toBe(1);
+    expect(winnerScoreOf({ winnerId: 'a', preferenceStrength: 2 })).toBe(1);
+    expect(winnerScoreOf({ winnerId: 'a', preferenceStrength: 1 })).toBe(0.75);
+    expect(winnerScoreOf({ winnerId: null })).toBe(0.5);
+  });
+
+  it('should map a stored vote to winner and loser', () => {
+    expect(pairOutcome({ itemAId: 'a', itemBId: 'b', winnerId: 'b' })).toEqual({
+      winnerId: 'b',
+      loserId: 'a',
+      score: 1,
+      tie: false,
+    });
+    expect(pairOutcome({ itemAId: 'a', itemBId: 'b', winnerId: null })).toEqual({
+      winnerId: 'a',
+      loserId: 'b',
+      score: 0.5,
+      tie: true,
+    });
+  });
+});
+
+describe('validateVoteRequest responses', () => {
+  const base = {
+    sessionToken: 'a'.repeat(64),
+    itemAId: 'clitemaaaaaaaaaaaaaaaaaaa',
+    itemBId: 'clitembbbbbbbbbbbbbbbbbbb',
+    leftItemId: 'clitemaaaaaaaaaaaaaaaaaaa',
+    rightItemId: 'clitembbbbbbbbbbbbbbbbbbb',
+  };
+
+  it('should accept a null winner', () => {
+    const result = validateVoteRequest({ ...base, winnerId: null });
+    expect(result.valid).toBe(true);
+    expect(result.data).toMatchObject({ winnerId: null, preferenceStrength: null });
+  });
+
+  it('should accept strengths 1 and 2 only', () => {
+    expect(validateVoteRequest({ ...base, winnerId: base.itemAId, preferenceStrength: 2 }).data?.preferenceStrength).toBe(2);
+    expect(validateVoteRequest({ ...base, winnerId: base.itemAId, preferenceStrength: 3 }).valid).toBe(false);
+  });
+
+  it('should still require a winner field', () => {
+    expect(validateVoteRequest(base).valid).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+'use client';
+
+import { use, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+export default function AcceptInvitePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function handleAccept() {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const res = await fetch('/api/admin/invites/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Could not accept the invitation');
+        setIsLoading(false);
+        return;
+      }
+
+      router.push(`/admin/studies/${data.studyId}`);
+    } catch {
+      setError('Connection error. Please try again.');
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 p-4">
+      <div className="w-full max-w-sm">
+        <div className="bg-white rounded-2xl p-8 shadow-lg border border-slate-100 text-center">
+          <h1 className="text-xl font-bold text-slate-900">Study invitation</h1>
+          <p className="text-sm text-slate-500 mt-1 mb-6">
+            You have been invited to collaborate on a SciBLIND study.
+          </p>
+
+          {error && (
+            <div className="p-3 mb-4 bg-red-50 border border-red-100 rounded-xl text-red-600 text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={handleAccept}
+            disabled={isLoading}
+            className="w-full py-3 bg-slate-900 text-white rounded-xl font-semibold transition-all disabled:opacity-40 active:scale-[0.98]"
+          >
+            {isLoading ? 'Joining...' : 'Accept invitation'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
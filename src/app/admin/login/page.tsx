@@ -5,10 +5,19 @@ import { useRouter } from 'next/navigation';
 
 export default function AdminLoginPage() {
   const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  // Break-glass: ADMIN_SECRET plus a reason, for emergencies only
+  const [isBreakGlass, setIsBreakGlass] = useState(false);
   const [secret, setSecret] = useState('');
+  const [reason, setReason] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  const canSubmit = isBreakGlass
+    ? secret.trim() && reason.trim()
+    : email.trim() && password;
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
@@ -18,7 +27,11 @@ export default function AdminLoginPage() {
       const res = await fetch('/api/admin/auth', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ secret: secret.trim() }),
+        body: JSON.stringify(
+          isBreakGlass
+            ? { secret: secret.trim(), reason: reason.trim() }
+            : { email: email.trim(), password }
+        ),
       });
 
       if (!res.ok) {
@@ -28,8 +41,9 @@ export default function AdminLoginPage() {
         return;
       }
 
-      // Success — redirect to admin dashboard
-      router.push('/admin');
+      // Success — back to the page that required sign-in, or the dashboard
+      const next = new URLSearchParams(window.location.search).get('next');
+      router.push(next && next.startsWith('/admin/') ? next : '/admin');
     } catch (err) {
       setError('Connection error. Please try again.');
       setIsLoading(false);
@@ -51,18 +65,53 @@ export default function AdminLoginPage() {
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <input
-                type="password"
-                value={secret}
-                onChange={(e) => setSecret(e.target.value)}
-                placeholder="Admin secret"
-                className="w-full px-4 py-3 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-900 focus:border-transparent text-center bg-slate-50 text-slate-900"
-                disabled={isLoading}
-                autoFocus
-                autoComplete="current-password"
-              />
-            </div>
+            {isBreakGlass ? (
+              <>
+                <input
+                  type="password"
+                  value={secret}
+                  onChange={(e) => setSecret(e.target.value)}
+                  placeholder="Admin secret"
+                  className="w-full px-4 py-3 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-900 focus:border-transparent text-center bg-slate-50 text-slate-900"
+                  disabled={isLoading}
+                  autoFocus
+                  autoComplete="off"
+                />
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason for emergency access (logged)"
+                  rows={3}
+                  className="w-full px-4 py-3 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-900 focus:border-transparent bg-slate-50 text-slate-900 text-sm"
+                  disabled={isLoading}
+                />
+                <p className="text-xs text-amber-700">
+                  Break-glass sessions expire after one hour and are recorded in the activity log.
+                </p>
+              </>
+            ) : (
+              <>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Email"
+                  className="w-full px-4 py-3 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-900 focus:border-transparent bg-slate-50 text-slate-900"
+                  disabled={isLoading}
+                  autoFocus
+                  autoComplete="username"
+                />
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                  className="w-full px-4 py-3 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-900 focus:border-transparent bg-slate-50 text-slate-900"
+                  disabled={isLoading}
+                  autoComplete="current-password"
+                />
+              </>
+            )}
 
             {error && (
               <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-red-600 text-sm text-center">
@@ -72,16 +121,23 @@ export default function AdminLoginPage() {
 
             <button
               type="submit"
-              disabled={isLoading || !secret.trim()}
+              disabled={isLoading || !canSubmit}
               className="w-full py-3 bg-slate-900 text-white rounded-xl font-semibold transition-all disabled:opacity-40 active:scale-[0.98]"
             >
               {isLoading ? 'Authenticating...' : 'Sign In'}
             </button>
           </form>
 
-          <p className="text-center text-xs text-slate-400 mt-6">
-            Keycloak SSO coming soon
-          </p>
+          <button
+            type="button"
+            onClick={() => {
+              setIsBreakGlass(!isBreakGlass);
+              setError(null);
+            }}
+            className="block mx-auto text-xs text-slate-400 hover:text-slate-600 mt-6"
+          >
+            {isBreakGlass ? 'Back to email sign-in' : 'Emergency access'}
+          </button>
         </div>
       </div>
     </div>
@@ -43,6 +43,8 @@ interface StudyStat {
   };
   avgResponseTime: number;
   recentActivity: number;
+  myRole: 'OWNER' | 'EDITOR' | 'ANALYST' | 'VIEWER';
+  isShared: boolean;
 }
 
 interface ActivityLogEntry {
@@ -195,7 +197,14 @@ export default function AdminDashboard() {
         {/* Studies List */}
         <div className="space-y-6">
           <div className="flex justify-between items-center">
-            <h2 className="text-2xl font-semibold">Studies</h2>
+            <div>
+              <h2 className="text-2xl font-semibold">Studies</h2>
+              {studies.some((s) => s.isShared) && (
+                <p className="text-sm text-muted-foreground">
+                  {studies.filter((s) => !s.isShared).length} owned • {studies.filter((s) => s.isShared).length} shared with you
+                </p>
+              )}
+            </div>
             <Link
               href="/admin/studies/new"
               className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm"
@@ -387,7 +396,14 @@ function StudyCard({
             className={`w-3 h-3 rounded-full ${study.isActive ? 'bg-green-500' : 'bg-muted-foreground'}`}
           />
           <div>
-            <h3 className="font-semibold text-lg">{study.title}</h3>
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+              {study.title}
+              {study.isShared && (
+                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-700">
+                  Shared · {study.myRole.charAt(0) + study.myRole.slice(1).toLowerCase()}
+                </span>
+              )}
+            </h3>
             <p className="text-sm text-muted-foreground">
               {study.language === 'sl' ? '🇸🇮' : '🇬🇧'} {study.totalItems} items •{' '}
               {study.categoryStats.length} categories
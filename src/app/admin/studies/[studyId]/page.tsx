@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 
 interface RankedItem {
   id: string;
@@ -20,6 +21,27 @@ interface RankedItem {
   rank: number;
   winRate: number;
   positionBias: number;
+  btAbility: number;
+  btStdError: number | null;
+  btCI95: { lower: number; upper: number } | null;
+  glickoRating: number;
+  glickoRd: number;
+  glickoCI95: { lower: number; upper: number } | null;
+}
+
+/** Bootstrap rank stability of one item (rankings API, ?bootstrap=true) */
+interface ItemStability {
+  rankCI95: { lower: number; upper: number };
+  medianRank: number;
+  pTopN: number;
+}
+
+interface RankStability {
+  topN: number;
+  replicates: number;
+  resample: 'session' | 'comparison';
+  model: 'elo-replay' | 'bradley-terry' | 'plackett-luce';
+  items: Map<string, ItemStability>;
 }
 
 interface CategoryRanking {
@@ -28,6 +50,12 @@ interface CategoryRanking {
     name: string;
     slug: string;
   };
+  /** Present when the study sets targetTopN */
+  topNSeparation: {
+    topN: number;
+    separated: boolean;
+    contestedItemIds: string[];
+  } | null;
   items: RankedItem[];
 }
 
@@ -39,6 +67,7 @@ interface Session {
   flagReason: string | null;
   comparisonCount: number;
   avgResponseTimeMs: number | null;
+  qualityScore: number | null;
 }
 
 interface AccessCode {
@@ -50,6 +79,97 @@ interface AccessCode {
   createdAt: string;
 }
 
+interface Agreement {
+  evaluators: { sessionId: string; label: string }[];
+  categories: {
+    categoryId: string | null;
+    categoryName: string | null;
+    raterCount: number;
+    sharedItemCount: number;
+    kendallW: number | null;
+    chiSquare: number | null;
+    degreesOfFreedom: number | null;
+  }[];
+  pairwiseTau: (number | null)[][];
+  meanTau: number | null;
+  krippendorffAlpha: number | null;
+  repeatedPairCount: number;
+  repeatedJudgmentCount: number;
+}
+
+interface Convergence {
+  enabled: boolean;
+  interval: number | null;
+  minCorrelation: number;
+  window: number;
+  topN: number;
+  autoDeactivate: boolean;
+  converged: boolean;
+  convergedAt: string | null;
+  snapshots: {
+    createdAt: string;
+    comparisonCount: number;
+    spearman: number | null;
+    kendall: number | null;
+    topNChurn: number | null;
+    stable: boolean;
+  }[];
+}
+
+interface PositionBias {
+  alpha: number;
+  leftRight: { votes: number; leftWins: number; rightWins: number; ties: number; leftWinRate: number | null; pValue: number };
+  sessions: { sessionId: string; votes: number; leftWinRate: number | null; pValue: number; biased: boolean }[];
+  biasedSessionCount: number;
+  slots: { setSize: number; votes: number; counts: number[]; chiSquare: number; degreesOfFreedom: number; pValue: number }[];
+  order: {
+    blockSize: number;
+    blocks: {
+      fromVote: number;
+      toVote: number;
+      votes: number;
+      leftWinRate: number | null;
+      meanResponseTimeMs: number | null;
+      consensusAgreement: number | null;
+    }[];
+    trends: Record<'leftWin' | 'responseTime' | 'consensus', { slope: number; pValue: number; n: number } | null>;
+  };
+  positionEffect: { gamma: number; se: number | null; pValue: number; leftWinProbability: number; votes: number } | null;
+  items: {
+    itemId: string;
+    label: string | null;
+    leftShare: number | null;
+    exposurePValue: number;
+    ability: number | null;
+    correctedAbility: number | null;
+    rank: number | null;
+    correctedRank: number | null;
+  }[];
+}
+
+/** Rank stability is computed in the background: poll every 2 s, for up to 2 minutes */
+const STABILITY_POLL_MS = 2000;
+const STABILITY_MAX_POLLS = 60;
+
+const STABILITY_MODEL_LABELS: Record<RankStability['model'], string> = {
+  'elo-replay': 'the Elo replay',
+  'bradley-terry': 'Bradley-Terry',
+  'plackett-luce': 'Plackett-Luce',
+};
+
+/** p-value for display */
+function formatP(p: number | null): string {
+  if (p === null) return 'n/a';
+  return p < 0.001 ? '< 0.001' : p.toFixed(3);
+}
+
+/** Heatmap cell color: red (τ = −1) through white (0) to green (τ = 1) */
+function tauColor(tau: number | null): string {
+  if (tau === null) return 'transparent';
+  const strength = Math.round(Math.abs(tau) * 100);
+  return tau >= 0 ? `rgb(34 197 94 / ${strength}%)` : `rgb(239 68 68 / ${strength}%)`;
+}
+
 interface StudyDetail {
   study: {
     id: string;
@@ -60,6 +180,8 @@ interface StudyDetail {
     createdAt: string;
     requireAccessCode: boolean;
     hasCategorySeparation: boolean;
+    rankingMethod: 'ELO' | 'BRADLEY_TERRY' | 'GLICKO2';
+    targetTopN: number | null;
   };
   accessCodes: AccessCode[];
   sessions: Session[];
@@ -79,8 +201,52 @@ export default function StudyDetailPage() {
   const [data, setData] = useState<StudyDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'rankings' | 'sessions' | 'codes'>('rankings');
+  const [activeTab, setActiveTab] = useState<
+    'rankings' | 'sessions' | 'codes' | 'agreement' | 'convergence' | 'position'
+  >('rankings');
+  const [agreement, setAgreement] = useState<Agreement | null>(null);
+  const [agreementError, setAgreementError] = useState<string | null>(null);
+  const [convergence, setConvergence] = useState<Convergence | null>(null);
+  const [convergenceError, setConvergenceError] = useState<string | null>(null);
+  const [positionBias, setPositionBias] = useState<PositionBias | null>(null);
+  const [positionBiasError, setPositionBiasError] = useState<string | null>(null);
   const [exporting, setExporting] = useState<'pdf' | 'json' | null>(null);
+  const [stability, setStability] = useState<RankStability | null>(null);
+  const [stabilityLoading, setStabilityLoading] = useState(false);
+  const [stabilityError, setStabilityError] = useState<string | null>(null);
+
+  const loadStability = async () => {
+    setStabilityLoading(true);
+    setStabilityError(null);
+    try {
+      let json;
+      for (let poll = 0; ; poll++) {
+        const res = await fetch(`/api/studies/${studyId}/rankings?bootstrap=true`);
+        if (!res.ok) throw new Error('Failed to compute rank stability');
+        json = await res.json();
+        if (!json.bootstrap) throw new Error('No rank stability available');
+        if (json.bootstrap.status !== 'computing') break;
+        if (poll + 1 >= STABILITY_MAX_POLLS) throw new Error('Rank stability is taking too long, try again later');
+        await new Promise((resolve) => setTimeout(resolve, STABILITY_POLL_MS));
+      }
+      setStability({
+        topN: json.bootstrap.topN,
+        replicates: json.bootstrap.replicates,
+        resample: json.bootstrap.resample,
+        model: json.bootstrap.model,
+        items: new Map(
+          (json.rankings as ({ id: string } & ItemStability)[]).map((item) => [
+            item.id,
+            { rankCI95: item.rankCI95, medianRank: item.medianRank, pTopN: item.pTopN },
+          ]),
+        ),
+      });
+    } catch (err) {
+      setStabilityError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setStabilityLoading(false);
+    }
+  };
 
   const handleExport = async (format: 'pdf' | 'json') => {
     setExporting(format);
@@ -129,6 +295,40 @@ export default function StudyDetailPage() {
     if (studyId) fetchData();
   }, [studyId]);
 
+  // Agreement is computed on demand, the first time its tab is opened
+  useEffect(() => {
+    if (activeTab !== 'agreement' || agreement || agreementError) return;
+    fetch(`/api/admin/studies/${studyId}/agreement`)
+      .then((res) => {
+        if (!res.ok) throw new Error('Failed to fetch agreement');
+        return res.json();
+      })
+      .then(setAgreement)
+      .catch((err) => setAgreementError(err instanceof Error ? err.message : 'Unknown error'));
+  }, [activeTab, agreement, agreementError, studyId]);
+
+  useEffect(() => {
+    if (activeTab !== 'convergence' || convergence || convergenceError) return;
+    fetch(`/api/admin/studies/${studyId}/convergence`)
+      .then((res) => {
+        if (!res.ok) throw new Error('Failed to fetch convergence');
+        return res.json();
+      })
+      .then(setConvergence)
+      .catch((err) => setConvergenceError(err instanceof Error ? err.message : 'Unknown error'));
+  }, [activeTab, convergence, convergenceError, studyId]);
+
+  useEffect(() => {
+    if (activeTab !== 'position' || positionBias || positionBiasError) return;
+    fetch(`/api/admin/studies/${studyId}/position-bias`)
+      .then((res) => {
+        if (!res.ok) throw new Error('Failed to fetch position bias');
+        return res.json();
+      })
+      .then(setPositionBias)
+      .catch((err) => setPositionBiasError(err instanceof Error ? err.message : 'Unknown error'));
+  }, [activeTab, positionBias, positionBiasError, studyId]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background p-8 flex items-center justify-center">
@@ -157,6 +357,8 @@ export default function StudyDetailPage() {
   }
 
   const { study, rankings, sessions, accessCodes, stats } = data;
+  const usesBT = study.rankingMethod === 'BRADLEY_TERRY';
+  const usesGlicko = study.rankingMethod === 'GLICKO2';
 
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
@@ -241,7 +443,7 @@ export default function StudyDetailPage() {
         {/* Tabs */}
         <div className="border-b mb-6">
           <div className="flex gap-4">
-            {(['rankings', 'sessions', 'codes'] as const).map((tab) => (
+            {(['rankings', 'sessions', 'codes', 'agreement', 'convergence', 'position'] as const).map((tab) => (
               <button
                 key={tab}
                 onClick={() => setActiveTab(tab)}
@@ -254,6 +456,9 @@ export default function StudyDetailPage() {
                 {tab === 'rankings' && 'Rankings'}
                 {tab === 'sessions' && `Sessions (${sessions.length})`}
                 {tab === 'codes' && `Access Codes (${accessCodes.length})`}
+                {tab === 'agreement' && 'Agreement'}
+                {tab === 'convergence' && 'Convergence'}
+                {tab === 'position' && 'Position Bias'}
               </button>
             ))}
           </div>
@@ -262,11 +467,44 @@ export default function StudyDetailPage() {
         {/* Tab Content */}
         {activeTab === 'rankings' && (
           <div className="space-y-8">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {stability
+                  ? `Rank intervals from ${stability.replicates} bootstrap resamples of ${stability.resample === 'session' ? 'sessions' : 'comparisons'}, refit with ${STABILITY_MODEL_LABELS[stability.model]}${stability.model === 'elo-replay' && usesGlicko ? ' (Glicko-2 has no replay)' : ''}`
+                  : 'Resample the votes to see how stable each rank is'}
+              </p>
+              <div className="flex items-center gap-2">
+                {stabilityError && <span className="text-sm text-destructive">{stabilityError}</span>}
+                <button
+                  onClick={loadStability}
+                  disabled={stabilityLoading || !!stability}
+                  className="px-4 py-2 border rounded-lg text-sm hover:bg-accent disabled:opacity-50"
+                >
+                  {stabilityLoading ? 'Computing...' : 'Rank stability'}
+                </button>
+              </div>
+            </div>
             {rankings.map((ranking) => (
               <div key={ranking.category.id} className="border rounded-lg overflow-hidden">
-                <div className="bg-muted/50 px-4 py-3 border-b">
-                  <h3 className="font-semibold">{ranking.category.name}</h3>
-                  <p className="text-sm text-muted-foreground">{ranking.items.length} items</p>
+                <div className="bg-muted/50 px-4 py-3 border-b flex items-center justify-between gap-4">
+                  <div>
+                    <h3 className="font-semibold">{ranking.category.name}</h3>
+                    <p className="text-sm text-muted-foreground">{ranking.items.length} items</p>
+                  </div>
+                  {ranking.topNSeparation && (
+                    <span
+                      className={`text-xs px-2 py-1 rounded ${
+                        ranking.topNSeparation.separated
+                          ? 'bg-green-100 text-green-700'
+                          : 'bg-amber-100 text-amber-700'
+                      }`}
+                      title="Based on the 95% intervals of the study's ranking method"
+                    >
+                      {ranking.topNSeparation.separated
+                        ? `Top ${ranking.topNSeparation.topN} separated`
+                        : `Top ${ranking.topNSeparation.topN} not yet separated (${ranking.topNSeparation.contestedItemIds.length} contested)`}
+                    </span>
+                  )}
                 </div>
                 <div className="overflow-x-auto">
                   <table className="w-full text-sm">
@@ -274,11 +512,25 @@ export default function StudyDetailPage() {
                       <tr>
                         <th className="px-4 py-2 text-left font-medium">Rank</th>
                         <th className="px-4 py-2 text-left font-medium">Item</th>
+                        {usesBT && (
+                          <th className="px-4 py-2 text-left font-medium">BT Ability (95% CI)</th>
+                        )}
+                        {usesGlicko && (
+                          <th className="px-4 py-2 text-left font-medium">Glicko-2 ± RD (95% CI)</th>
+                        )}
                         <th className="px-4 py-2 text-left font-medium">ELO</th>
                         <th className="px-4 py-2 text-left font-medium">Artist Rank</th>
                         <th className="px-4 py-2 text-left font-medium">W/L</th>
                         <th className="px-4 py-2 text-left font-medium">Win Rate</th>
                         <th className="px-4 py-2 text-left font-medium">Position Bias</th>
+                        {stability && (
+                          <>
+                            <th className="px-4 py-2 text-left font-medium" title="2.5th to 97.5th percentile of the rank across resamples">
+                              Rank 95%
+                            </th>
+                            <th className="px-4 py-2 text-left font-medium">P(top {stability.topN})</th>
+                          </>
+                        )}
                       </tr>
                     </thead>
                     <tbody>
@@ -303,6 +555,9 @@ export default function StudyDetailPage() {
                             >
                               {item.rank}
                             </span>
+                            {ranking.topNSeparation?.contestedItemIds.includes(item.id) && (
+                              <span className="block mt-1 text-[10px] text-amber-700">contested</span>
+                            )}
                           </td>
                           <td className="px-4 py-3">
                             <div className="flex items-center gap-3">
@@ -313,6 +568,7 @@ export default function StudyDetailPage() {
                                     alt={`Item ${item.externalId || item.id}`}
                                     width={40}
                                     height={40}
+                                    unoptimized // Storage host depends on STORAGE_TYPE
                                     className="w-full h-full object-cover"
                                   />
                                 </div>
@@ -322,7 +578,30 @@ export default function StudyDetailPage() {
                               </span>
                             </div>
                           </td>
-                          <td className="px-4 py-3 font-semibold">{item.eloRating}</td>
+                          {usesBT && (
+                            <td className="px-4 py-3">
+                              <span className="font-semibold">{item.btAbility.toFixed(2)}</span>
+                              <span className="ml-2 text-xs text-muted-foreground">
+                                {item.btCI95
+                                  ? `[${item.btCI95.lower.toFixed(2)}, ${item.btCI95.upper.toFixed(2)}]`
+                                  : 'n/a'}
+                              </span>
+                            </td>
+                          )}
+                          {usesGlicko && (
+                            <td className="px-4 py-3">
+                              <span className="font-semibold">{Math.round(item.glickoRating)}</span>
+                              <span className="ml-1 text-xs text-muted-foreground">± {Math.round(item.glickoRd)}</span>
+                              {item.glickoCI95 && (
+                                <span className="ml-2 text-xs text-muted-foreground">
+                                  [{Math.round(item.glickoCI95.lower)}, {Math.round(item.glickoCI95.upper)}]
+                                </span>
+                              )}
+                            </td>
+                          )}
+                          <td className={`px-4 py-3 ${usesBT || usesGlicko ? 'text-muted-foreground' : 'font-semibold'}`}>
+                            {item.eloRating}
+                          </td>
                           <td className="px-4 py-3">
                             {item.artistRank ? (
                               <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded">
@@ -360,6 +639,26 @@ export default function StudyDetailPage() {
                               <span className="text-xs">R:{item.rightCount}</span>
                             </div>
                           </td>
+                          {stability && (() => {
+                            const itemStability = stability.items.get(item.id);
+                            if (!itemStability) {
+                              return (
+                                <>
+                                  <td className="px-4 py-3 text-muted-foreground">-</td>
+                                  <td className="px-4 py-3 text-muted-foreground">-</td>
+                                </>
+                              );
+                            }
+                            const { lower, upper } = itemStability.rankCI95;
+                            return (
+                              <>
+                                <td className="px-4 py-3 text-xs" title={`Median rank ${itemStability.medianRank}`}>
+                                  {lower === upper ? lower : `${lower}–${upper}`}
+                                </td>
+                                <td className="px-4 py-3 text-xs">{Math.round(itemStability.pTopN * 100)}%</td>
+                              </>
+                            );
+                          })()}
                         </tr>
                       ))}
                     </tbody>
@@ -379,6 +678,7 @@ export default function StudyDetailPage() {
                   <th className="px-4 py-2 text-left font-medium">Started</th>
                   <th className="px-4 py-2 text-left font-medium">Comparisons</th>
                   <th className="px-4 py-2 text-left font-medium">Avg Time</th>
+                  <th className="px-4 py-2 text-left font-medium" title="Share of attention checks passed">Quality</th>
                   <th className="px-4 py-2 text-left font-medium">Status</th>
                 </tr>
               </thead>
@@ -393,6 +693,9 @@ export default function StudyDetailPage() {
                         ? `${(session.avgResponseTimeMs / 1000).toFixed(1)}s`
                         : '-'}
                     </td>
+                    <td className="px-4 py-3">
+                      {session.qualityScore !== null ? `${Math.round(session.qualityScore * 100)}%` : '-'}
+                    </td>
                     <td className="px-4 py-3">
                       <div className="flex items-center gap-2">
                         {session.isCompleted ? (
@@ -456,6 +759,304 @@ export default function StudyDetailPage() {
             </table>
           </div>
         )}
+
+        {activeTab === 'agreement' && (
+          <div className="space-y-6">
+            {agreementError && <p className="text-sm text-destructive">{agreementError}</p>}
+            {!agreement && !agreementError && (
+              <p className="text-sm text-muted-foreground">Computing agreement...</p>
+            )}
+            {agreement && (
+              <>
+                <div className="grid gap-4 grid-cols-1 md:grid-cols-3">
+                  <div className="border rounded-lg p-4 bg-background">
+                    <p className="text-xs text-muted-foreground uppercase">Evaluators</p>
+                    <p className="text-2xl font-bold">{agreement.evaluators.length}</p>
+                  </div>
+                  <div className="border rounded-lg p-4 bg-background" title="Mean Kendall's tau-b between evaluators' personal rankings">
+                    <p className="text-xs text-muted-foreground uppercase">Mean Kendall τ</p>
+                    <p className="text-2xl font-bold">{agreement.meanTau !== null ? agreement.meanTau.toFixed(2) : 'n/a'}</p>
+                  </div>
+                  <div className="border rounded-lg p-4 bg-background" title="Nominal alpha over pairs judged more than once">
+                    <p className="text-xs text-muted-foreground uppercase">Krippendorff α</p>
+                    <p className="text-2xl font-bold">
+                      {agreement.krippendorffAlpha !== null ? agreement.krippendorffAlpha.toFixed(2) : 'n/a'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {agreement.repeatedPairCount} repeated pairs, {agreement.repeatedJudgmentCount} judgments
+                    </p>
+                  </div>
+                </div>
+
+                <div className="border rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/30">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium">Category</th>
+                        <th className="px-4 py-2 text-left font-medium">Evaluators</th>
+                        <th className="px-4 py-2 text-left font-medium">Shared Items</th>
+                        <th className="px-4 py-2 text-left font-medium">Kendall W</th>
+                        <th className="px-4 py-2 text-left font-medium">χ² (df)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {agreement.categories.map((category) => (
+                        <tr key={category.categoryId ?? 'none'} className="border-t">
+                          <td className="px-4 py-3">{category.categoryName ?? '-'}</td>
+                          <td className="px-4 py-3">{category.raterCount}</td>
+                          <td className="px-4 py-3">{category.sharedItemCount}</td>
+                          <td className="px-4 py-3 font-semibold">
+                            {category.kendallW !== null ? category.kendallW.toFixed(2) : 'n/a'}
+                          </td>
+                          <td className="px-4 py-3">
+                            {category.chiSquare !== null ? `${category.chiSquare.toFixed(1)} (${category.degreesOfFreedom})` : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {agreement.evaluators.length >= 2 && (
+                  <div className="border rounded-lg p-4 overflow-x-auto">
+                    <h3 className="font-semibold mb-1">Pairwise agreement (Kendall τ)</h3>
+                    <p className="text-xs text-muted-foreground mb-4">
+                      Between evaluators&apos; personal rankings over the items both voted on; green = agree, red = disagree.
+                    </p>
+                    <table className="text-xs border-collapse">
+                      <thead>
+                        <tr>
+                          <th />
+                          {agreement.evaluators.map((evaluator) => (
+                            <th key={evaluator.sessionId} className="px-1 py-1 font-medium whitespace-nowrap">
+                              {evaluator.label}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {agreement.evaluators.map((evaluator, i) => (
+                          <tr key={evaluator.sessionId}>
+                            <th className="px-2 py-1 text-left font-medium whitespace-nowrap">{evaluator.label}</th>
+                            {agreement.pairwiseTau[i].map((tau, j) => (
+                              <td
+                                key={j}
+                                className="w-12 h-8 text-center border"
+                                style={{ backgroundColor: tauColor(tau) }}
+                                title={`${evaluator.label} / ${agreement.evaluators[j].label}`}
+                              >
+                                {tau !== null ? tau.toFixed(2) : '-'}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'convergence' && (
+          <div className="space-y-6">
+            {convergenceError && <p className="text-sm text-destructive">{convergenceError}</p>}
+            {!convergence && !convergenceError && (
+              <p className="text-sm text-muted-foreground">Loading convergence...</p>
+            )}
+            {convergence && !convergence.enabled && (
+              <p className="text-sm text-muted-foreground">
+                Convergence monitoring is off. Set a ranking snapshot interval in the study settings to track when the
+                ranking stops changing.
+              </p>
+            )}
+            {convergence && convergence.enabled && (
+              <>
+                <div className="grid gap-4 grid-cols-1 md:grid-cols-3">
+                  <div className="border rounded-lg p-4 bg-background">
+                    <p className="text-xs text-muted-foreground uppercase">Status</p>
+                    <p className={`text-2xl font-bold ${convergence.converged ? 'text-green-600' : ''}`}>
+                      {convergence.converged ? 'Converged' : 'Still changing'}
+                    </p>
+                    {convergence.convergedAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Since {new Date(convergence.convergedAt).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                  <div className="border rounded-lg p-4 bg-background">
+                    <p className="text-xs text-muted-foreground uppercase">Snapshots</p>
+                    <p className="text-2xl font-bold">{convergence.snapshots.length}</p>
+                    <p className="text-xs text-muted-foreground">Every {convergence.interval} votes</p>
+                  </div>
+                  <div className="border rounded-lg p-4 bg-background">
+                    <p className="text-xs text-muted-foreground uppercase">Rule</p>
+                    <p className="text-sm">
+                      {convergence.window} snapshots in a row with ρ ≥ {convergence.minCorrelation} and no change in the
+                      top {convergence.topN}
+                      {convergence.autoDeactivate && ', then the study is deactivated'}
+                    </p>
+                  </div>
+                </div>
+
+                {convergence.snapshots.length < 2 ? (
+                  <p className="text-sm text-muted-foreground">
+                    The chart appears once two snapshots have been taken.
+                  </p>
+                ) : (
+                  <div className="border rounded-lg p-4">
+                    <h3 className="font-semibold mb-1">Rank correlation with the previous snapshot</h3>
+                    <p className="text-xs text-muted-foreground mb-4">
+                      Lowest value across categories; the right axis counts items entering a top {convergence.topN}
+                    </p>
+                    <ResponsiveContainer width="100%" height={280}>
+                      <LineChart data={convergence.snapshots.slice(1)}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="comparisonCount" />
+                        <YAxis yAxisId="correlation" domain={[-1, 1]} />
+                        <YAxis yAxisId="churn" orientation="right" allowDecimals={false} />
+                        <Tooltip />
+                        <Legend />
+                        <Line yAxisId="correlation" type="monotone" dataKey="spearman" name="Spearman ρ" stroke="#2563eb" />
+                        <Line yAxisId="correlation" type="monotone" dataKey="kendall" name="Kendall τ" stroke="#16a34a" />
+                        <Line yAxisId="churn" type="stepAfter" dataKey="topNChurn" name="Top-N churn" stroke="#f97316" />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'position' && (
+          <div className="space-y-6">
+            {positionBiasError && <p className="text-sm text-destructive">{positionBiasError}</p>}
+            {!positionBias && !positionBiasError && (
+              <p className="text-sm text-muted-foreground">Loading position bias...</p>
+            )}
+            {positionBias && (
+              <>
+                <div className="grid gap-4 grid-cols-1 md:grid-cols-3">
+                  <div className="border rounded-lg p-4 bg-background" title="Exact binomial test against 50%">
+                    <p className="text-xs text-muted-foreground uppercase">Left wins</p>
+                    <p className={`text-2xl font-bold ${positionBias.leftRight.pValue < positionBias.alpha ? 'text-orange-600' : ''}`}>
+                      {positionBias.leftRight.leftWinRate !== null
+                        ? `${(positionBias.leftRight.leftWinRate * 100).toFixed(1)}%`
+                        : 'n/a'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {positionBias.leftRight.leftWins} left / {positionBias.leftRight.rightWins} right, p ={' '}
+                      {formatP(positionBias.leftRight.pValue)}
+                    </p>
+                  </div>
+                  <div className="border rounded-lg p-4 bg-background" title="Bradley-Terry fit with a left-position effect">
+                    <p className="text-xs text-muted-foreground uppercase">Position effect γ</p>
+                    <p className="text-2xl font-bold">
+                      {positionBias.positionEffect ? positionBias.positionEffect.gamma.toFixed(2) : 'n/a'}
+                    </p>
+                    {positionBias.positionEffect && (
+                      <p className="text-xs text-muted-foreground">
+                        P(left wins | equal items) = {positionBias.positionEffect.leftWinProbability.toFixed(2)}, p ={' '}
+                        {formatP(positionBias.positionEffect.pValue)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="border rounded-lg p-4 bg-background">
+                    <p className="text-xs text-muted-foreground uppercase">Biased sessions</p>
+                    <p className="text-2xl font-bold">
+                      {positionBias.biasedSessionCount} / {positionBias.sessions.length}
+                    </p>
+                    <p className="text-xs text-muted-foreground">p &lt; {positionBias.alpha} on their own pair votes</p>
+                  </div>
+                </div>
+
+                {positionBias.slots.length > 0 && (
+                  <div className="border rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/30">
+                        <tr>
+                          <th className="px-4 py-2 text-left font-medium">Items per vote</th>
+                          <th className="px-4 py-2 text-left font-medium">Votes</th>
+                          <th className="px-4 py-2 text-left font-medium">First choice by slot</th>
+                          <th className="px-4 py-2 text-left font-medium">χ² (df)</th>
+                          <th className="px-4 py-2 text-left font-medium">p</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {positionBias.slots.map((slot) => (
+                          <tr key={slot.setSize} className="border-t">
+                            <td className="px-4 py-3">{slot.setSize}</td>
+                            <td className="px-4 py-3">{slot.votes}</td>
+                            <td className="px-4 py-3 font-mono">{slot.counts.join(' / ')}</td>
+                            <td className="px-4 py-3">{`${slot.chiSquare.toFixed(1)} (${slot.degreesOfFreedom})`}</td>
+                            <td className="px-4 py-3">{formatP(slot.pValue)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {positionBias.order.blocks.length > 1 && (
+                  <div className="border rounded-lg p-4">
+                    <h3 className="font-semibold mb-1">Over the course of a session</h3>
+                    <p className="text-xs text-muted-foreground mb-4">
+                      Blocks of {positionBias.order.blockSize} votes; trend p-values: left wins{' '}
+                      {formatP(positionBias.order.trends.leftWin?.pValue ?? null)}, response time{' '}
+                      {formatP(positionBias.order.trends.responseTime?.pValue ?? null)}, agreement with the ranking{' '}
+                      {formatP(positionBias.order.trends.consensus?.pValue ?? null)}
+                    </p>
+                    <ResponsiveContainer width="100%" height={280}>
+                      <LineChart data={positionBias.order.blocks}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="toVote" />
+                        <YAxis yAxisId="rate" domain={[0, 1]} />
+                        <YAxis yAxisId="time" orientation="right" />
+                        <Tooltip />
+                        <Legend />
+                        <Line yAxisId="rate" type="monotone" dataKey="leftWinRate" name="Left wins" stroke="#f97316" />
+                        <Line yAxisId="rate" type="monotone" dataKey="consensusAgreement" name="Agrees with ranking" stroke="#16a34a" />
+                        <Line yAxisId="time" type="monotone" dataKey="meanResponseTimeMs" name="Response time (ms)" stroke="#2563eb" />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+
+                {positionBias.positionEffect && (
+                  <div className="border rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/30">
+                        <tr>
+                          <th className="px-4 py-2 text-left font-medium">Item</th>
+                          <th className="px-4 py-2 text-left font-medium">Shown left</th>
+                          <th className="px-4 py-2 text-left font-medium">BT ability (rank)</th>
+                          <th className="px-4 py-2 text-left font-medium">Position-corrected (rank)</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {positionBias.items
+                          .filter((item) => item.correctedRank !== null)
+                          .sort((a, b) => a.correctedRank! - b.correctedRank!)
+                          .map((item) => (
+                            <tr key={item.itemId} className="border-t">
+                              <td className="px-4 py-3">{item.label ?? item.itemId.slice(0, 8)}</td>
+                              <td className={`px-4 py-3 ${item.exposurePValue < positionBias.alpha ? 'text-orange-600' : ''}`}>
+                                {item.leftShare !== null ? `${(item.leftShare * 100).toFixed(0)}%` : '-'}
+                              </td>
+                              <td className="px-4 py-3">{`${item.ability?.toFixed(2)} (#${item.rank})`}</td>
+                              <td className="px-4 py-3 font-semibold">{`${item.correctedAbility?.toFixed(2)} (#${item.correctedRank})`}</td>
+                            </tr>
+                          ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,4 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+const inputClass =
+  'w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary';
+
+/**
+ * Convert the form fields into the POST /api/admin/studies body.
+ * Empty optional numeric fields are omitted so schema defaults apply.
+ */
+function buildStudyPayload(form: FormData): Record<string, unknown> {
+  const optionalNumber = (name: string) => {
+    const value = String(form.get(name) ?? '').trim();
+    return value === '' ? undefined : Number(value);
+  };
+
+  const categories = String(form.get('categories') ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((name) => ({ name }));
+
+  return {
+    title: form.get('title'),
+    description: form.get('description'),
+    participantPrompt: form.get('prompt'),
+    inputType: form.get('inputType'),
+    rankingMethod: form.get('rankingMethod'),
+    comparisonMode: form.get('comparisonMode'),
+    choiceSetSize: optionalNumber('choiceSetSize'),
+    responseScale: form.get('responseScale'),
+    matchmakingConfig: { strategy: form.get('matchmakingStrategy') },
+    language: form.get('language'),
+    comparisonsPerParticipant: optionalNumber('comparisons'),
+    targetTopN: optionalNumber('targetTopN'),
+    eloKFactor: optionalNumber('kFactor'),
+    eloInitialRating: optionalNumber('initialRating'),
+    minExposuresPerItem: optionalNumber('minExposuresPerItem'),
+    minTotalComparisons: optionalNumber('minTotalComparisons'),
+    maxRatingDeviation: optionalNumber('maxRatingDeviation'),
+    glickoTau: optionalNumber('glickoTau'),
+    adaptiveKFactor: form.get('adaptiveKFactor') === 'on',
+    allowContinuedVoting: form.get('allowContinuedVoting') === 'on',
+    convergenceInterval: optionalNumber('convergenceInterval'),
+    convergenceMinCorrelation: optionalNumber('convergenceMinCorrelation'),
+    convergenceWindow: optionalNumber('convergenceWindow'),
+    autoDeactivateOnConvergence: form.get('autoDeactivateOnConvergence') === 'on',
+    minResponseTimeMs: optionalNumber('minResponseTimeMs'),
+    maxResponseTimeMs: optionalNumber('maxResponseTimeMs'),
+    excludeFlaggedFromElo: form.get('excludeFlaggedFromElo') === 'on',
+    goldCheckInterval: optionalNumber('goldCheckInterval'),
+    repeatCheckInterval: optionalNumber('repeatCheckInterval'),
+    minQualityScore: optionalNumber('minQualityScore'),
+    requireAccessCode: form.get('requireAccessCode') === 'on',
+    showRankingsToParticipants: form.get('showRankingsToParticipants') === 'on',
+    hasCategorySeparation: categories.length > 0,
+    categories,
+  };
+}
+
 export default function NewStudy() {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const res = await fetch('/api/admin/studies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildStudyPayload(new FormData(e.currentTarget))),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Failed to create study');
+        setIsSubmitting(false);
+        return;
+      }
+
+      router.push(`/admin/studies/${data.study.id}`);
+    } catch {
+      setError('Connection error. Please try again.');
+      setIsSubmitting(false);
+    }
+  }
+
   return (
     <div className="min-h-screen bg-background p-8">
       <div className="max-w-4xl mx-auto">
@@ -12,7 +104,7 @@ export default function NewStudy() {
           </p>
         </div>
 
-        <form className="space-y-8 border rounded-lg p-8">
+        <form onSubmit={handleSubmit} className="space-y-8 border rounded-lg p-8">
           {/* Basic Information */}
           <div className="space-y-4">
             <h2 className="text-2xl font-semibold">Basic Information</h2>
@@ -26,7 +118,7 @@ export default function NewStudy() {
                 id="title"
                 name="title"
                 placeholder="e.g., Camera Comparison Test 2024"
-                className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                className={inputClass}
                 required
               />
             </div>
@@ -40,7 +132,7 @@ export default function NewStudy() {
                 name="description"
                 rows={3}
                 placeholder="Describe the purpose of this study..."
-                className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                className={inputClass}
                 required
               />
             </div>
@@ -54,7 +146,7 @@ export default function NewStudy() {
                 id="prompt"
                 name="prompt"
                 placeholder="e.g., Which image has better quality?"
-                className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                className={inputClass}
                 required
               />
               <p className="text-sm text-muted-foreground mt-1">
@@ -75,7 +167,7 @@ export default function NewStudy() {
                 <select
                   id="inputType"
                   name="inputType"
-                  className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  className={inputClass}
                   required
                 >
                   <option value="IMAGE">Images</option>
@@ -90,15 +182,118 @@ export default function NewStudy() {
                 <select
                   id="rankingMethod"
                   name="rankingMethod"
-                  className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  className={inputClass}
                   required
                 >
                   <option value="ELO">Elo Rating (Fast, simple)</option>
                   <option value="BRADLEY_TERRY">Bradley-Terry (Research-grade MLE)</option>
+                  <option value="GLICKO2">Glicko-2 (Per-item uncertainty)</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="comparisonMode" className="block text-sm font-medium mb-2">
+                  Comparison Mode
+                </label>
+                <select id="comparisonMode" name="comparisonMode" className={inputClass} defaultValue="pair">
+                  <option value="pair">Pair (pick 1 of 2)</option>
+                  <option value="quad">Quad (pick best of 4)</option>
+                  <option value="ranking">Ranking (drag a set into order)</option>
+                  <option value="best-worst">Best-worst (pick best and worst of a set)</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="language" className="block text-sm font-medium mb-2">
+                  Participant Language
+                </label>
+                <select id="language" name="language" className={inputClass} defaultValue="en">
+                  <option value="en">English</option>
+                  <option value="sl">Slovenian</option>
                 </select>
               </div>
             </div>
 
+            <div>
+              <label htmlFor="responseScale" className="block text-sm font-medium mb-2">
+                Response Scale
+              </label>
+              <select id="responseScale" name="responseScale" className={inputClass} defaultValue="binary">
+                <option value="binary">Binary (must pick one)</option>
+                <option value="ties">Allow &quot;no preference&quot;</option>
+                <option value="graded-3">3-point scale (better / about the same / better)</option>
+                <option value="graded-5">5-point scale (much / slightly better, about the same)</option>
+              </select>
+              <p className="text-sm text-muted-foreground mt-1">
+                Pair mode only. Quad votes always pick one item.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="choiceSetSize" className="block text-sm font-medium mb-2">
+                Items per Set
+              </label>
+              <select id="choiceSetSize" name="choiceSetSize" className={inputClass} defaultValue="4">
+                <option value="4">4</option>
+                <option value="5">5</option>
+                <option value="6">6</option>
+              </select>
+              <p className="text-sm text-muted-foreground mt-1">
+                Ranking and best-worst modes only.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="matchmakingStrategy" className="block text-sm font-medium mb-2">
+                Matchmaking Strategy
+              </label>
+              <select
+                id="matchmakingStrategy"
+                name="matchmakingStrategy"
+                className={inputClass}
+                defaultValue="coverage-first"
+              >
+                <option value="coverage-first">Coverage first (balanced counts, close ratings, variety)</option>
+                <option value="adaptive">Adaptive (most informative comparison under the ranking model)</option>
+                <option value="swiss">Swiss (rounds of similar-scoring items)</option>
+                <option value="tournament">Tournament (session winners only after coverage)</option>
+                <option value="top-n">Top-N focus (items near the target top-N boundary)</option>
+                <option value="random">Random (baseline)</option>
+              </select>
+              <p className="text-sm text-muted-foreground mt-1">
+                Parameters keep their defaults and can be changed later through the study settings API.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="categories" className="block text-sm font-medium mb-2">
+                Categories (Optional)
+              </label>
+              <textarea
+                id="categories"
+                name="categories"
+                rows={3}
+                placeholder={'One category per line, e.g.\n3. razredi\n4. razredi'}
+                className={inputClass}
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Items are only compared within their own category
+              </p>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="requireAccessCode" />
+                Require access code
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="showRankingsToParticipants" />
+                Show rankings to participants
+              </label>
+            </div>
+
             <div className="grid md:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="comparisons" className="block text-sm font-medium mb-2">
@@ -111,7 +306,7 @@ export default function NewStudy() {
                   min="10"
                   max="100"
                   defaultValue="20"
-                  className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  className={inputClass}
                 />
                 <p className="text-sm text-muted-foreground mt-1">
                   Recommended: 20-40 comparisons
@@ -128,7 +323,7 @@ export default function NewStudy() {
                   name="targetTopN"
                   min="1"
                   placeholder="e.g., 12 for top 12"
-                  className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  className={inputClass}
                 />
               </div>
             </div>
@@ -151,7 +346,7 @@ export default function NewStudy() {
                   max="64"
                   defaultValue="32"
                   step="0.1"
-                  className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  className={inputClass}
                 />
                 <p className="text-sm text-muted-foreground mt-1">
                   Higher = faster rating changes
@@ -170,8 +365,258 @@ export default function NewStudy() {
                   max="2000"
                   defaultValue="1500"
                   step="10"
-                  className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="minExposuresPerItem" className="block text-sm font-medium mb-2">
+                  Min Exposures Per Item
+                </label>
+                <input
+                  type="number"
+                  id="minExposuresPerItem"
+                  name="minExposuresPerItem"
+                  min="1"
+                  defaultValue="10"
+                  className={inputClass}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Comparisons each item needs for publishable results
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="minTotalComparisons" className="block text-sm font-medium mb-2">
+                  Min Total Comparisons (Optional)
+                </label>
+                <input
+                  type="number"
+                  id="minTotalComparisons"
+                  name="minTotalComparisons"
+                  min="1"
+                  placeholder="Default: 10 × item count"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="maxRatingDeviation" className="block text-sm font-medium mb-2">
+                  Max Rating Deviation (Glicko-2)
+                </label>
+                <input
+                  type="number"
+                  id="maxRatingDeviation"
+                  name="maxRatingDeviation"
+                  min="10"
+                  max="350"
+                  defaultValue="110"
+                  step="1"
+                  className={inputClass}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Replaces min exposures: every item&apos;s RD must be at most this
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="glickoTau" className="block text-sm font-medium mb-2">
+                  Volatility Constant τ (Glicko-2)
+                </label>
+                <input
+                  type="number"
+                  id="glickoTau"
+                  name="glickoTau"
+                  min="0.2"
+                  max="1.2"
+                  defaultValue="0.5"
+                  step="0.05"
+                  className={inputClass}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Lower = ratings react less to surprising results
+                </p>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="convergenceInterval" className="block text-sm font-medium mb-2">
+                  Ranking Snapshot Every N Votes
+                </label>
+                <input
+                  type="number"
+                  id="convergenceInterval"
+                  name="convergenceInterval"
+                  min="5"
+                  max="100000"
+                  placeholder="Off"
+                  className={inputClass}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Tracks whether the ranking has stopped changing
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="convergenceMinCorrelation" className="block text-sm font-medium mb-2">
+                  Stable Above Spearman ρ
+                </label>
+                <input
+                  type="number"
+                  id="convergenceMinCorrelation"
+                  name="convergenceMinCorrelation"
+                  min="0.5"
+                  max="1"
+                  defaultValue="0.98"
+                  step="0.01"
+                  className={inputClass}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Correlation with the previous snapshot, with an unchanged top N
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="convergenceWindow" className="block text-sm font-medium mb-2">
+                  Stable Snapshots Needed
+                </label>
+                <input
+                  type="number"
+                  id="convergenceWindow"
+                  name="convergenceWindow"
+                  min="1"
+                  max="20"
+                  defaultValue="3"
+                  className={inputClass}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  In a row, before the study counts as converged
+                </p>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="adaptiveKFactor" />
+                Adaptive K-factor
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="allowContinuedVoting" defaultChecked />
+                Allow voting after threshold is met
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="autoDeactivateOnConvergence" />
+                Deactivate the study once the ranking converges
+              </label>
+            </div>
+          </div>
+
+          {/* Fraud Detection */}
+          <div className="space-y-4 border-t pt-8">
+            <h2 className="text-2xl font-semibold">Fraud Detection</h2>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="minResponseTimeMs" className="block text-sm font-medium mb-2">
+                  Min Response Time (ms)
+                </label>
+                <input
+                  type="number"
+                  id="minResponseTimeMs"
+                  name="minResponseTimeMs"
+                  min="0"
+                  max="60000"
+                  defaultValue="500"
+                  className={inputClass}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Faster votes are flagged as too fast
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="maxResponseTimeMs" className="block text-sm font-medium mb-2">
+                  Max Response Time (ms)
+                </label>
+                <input
+                  type="number"
+                  id="maxResponseTimeMs"
+                  name="maxResponseTimeMs"
+                  min="10000"
+                  max="3600000"
+                  defaultValue="300000"
+                  className={inputClass}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Slower votes are flagged as too slow
+                </p>
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" name="excludeFlaggedFromElo" />
+              Exclude flagged votes from ELO
+            </label>
+
+            <div className="grid md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="goldCheckInterval" className="block text-sm font-medium mb-2">
+                  Gold Check Every N Votes
+                </label>
+                <input
+                  type="number"
+                  id="goldCheckInterval"
+                  name="goldCheckInterval"
+                  min="2"
+                  max="1000"
+                  placeholder="Off"
+                  className={inputClass}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Pair mode; add gold pairs with known answers after creating the study
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="repeatCheckInterval" className="block text-sm font-medium mb-2">
+                  Repeat Check Every N Votes
+                </label>
+                <input
+                  type="number"
+                  id="repeatCheckInterval"
+                  name="repeatCheckInterval"
+                  min="2"
+                  max="1000"
+                  placeholder="Off"
+                  className={inputClass}
                 />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Shows an earlier pair again with sides swapped
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="minQualityScore" className="block text-sm font-medium mb-2">
+                  Min Quality Score
+                </label>
+                <input
+                  type="number"
+                  id="minQualityScore"
+                  name="minQualityScore"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  placeholder="Off"
+                  className={inputClass}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Sessions passing fewer checks are flagged as low quality
+                </p>
               </div>
             </div>
           </div>
@@ -194,6 +639,12 @@ export default function NewStudy() {
             </div>
           </div>
 
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-100 rounded-lg text-red-600 text-sm">
+              {error}
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end gap-4 border-t pt-8">
             <a
@@ -204,10 +655,10 @@ export default function NewStudy() {
             </a>
             <button
               type="submit"
-              className="px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
-              disabled
+              className="px-6 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              disabled={isSubmitting}
             >
-              Create Study (Coming Soon)
+              {isSubmitting ? 'Creating...' : 'Create Study'}
             </button>
           </div>
         </form>
@@ -4,6 +4,8 @@
  * GET /api/admin/activity-log
  *
  * Returns the activity log entries for monitoring and auditing.
+ * Super admins can read the whole log; other users must filter by a study
+ * on which they are at least ANALYST.
  *
  * Query parameters:
  * - studyId: Filter by study
@@ -15,9 +17,18 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
     const { searchParams } = new URL(request.url);
     const studyId = searchParams.get('studyId');
     const sessionId = searchParams.get('sessionId');
@@ -25,6 +36,18 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 1000);
     const offset = parseInt(searchParams.get('offset') || '0');
 
+    if (!studyId && user.role !== 'SUPER_ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden. Super admin access required.', errorKey: 'SUPER_ADMIN_REQUIRED' },
+        { status: 403 }
+      );
+    }
+
+    if (studyId) {
+      const accessError = await requireStudyPermission(user, studyId, 'export');
+      if (accessError) return accessError;
+    }
+
     const where: Record<string, unknown> = {};
     if (studyId) where.studyId = studyId;
     if (sessionId) where.sessionId = sessionId;
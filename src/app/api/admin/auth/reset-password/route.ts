@@ -18,7 +18,7 @@ export async function POST(request: NextRequest) {
   try {
     // Rate limit to prevent abuse
     const clientIp = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
-    const rateLimit = checkRateLimit(clientIp, RATE_LIMITS.auth);
+    const rateLimit = await checkRateLimit(clientIp, RATE_LIMITS.auth);
     if (!rateLimit.success) {
       return NextResponse.json(
         { error: 'Too many requests. Please try again later.', errorKey: 'RATE_LIMITED' },
@@ -2,8 +2,8 @@
  * Admin Authentication API
  *
  * POST /api/admin/auth
- *   - { email, password } - Email/password login (new system)
- *   - { secret } - Legacy shared secret login (backwards compatible)
+ *   - { email, password } - Email/password login
+ *   - { secret, reason } - Break-glass login with ADMIN_SECRET (short-lived, logged)
  *
  * DELETE /api/admin/auth
  *   - Logout - clears session
@@ -13,8 +13,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { validateAdminLogin } from '@/lib/security/admin-auth';
+import { hashIP } from '@/lib/auth/hash';
+import { logActivity, logActivitySync } from '@/lib/logging';
+import {
+  BREAK_GLASS_SESSION_MINUTES,
+  getBreakGlassUser,
+  isBreakGlassEnabled,
+  validateBreakGlassReason,
+  validateBreakGlassSecret,
+} from '@/lib/security/admin-auth';
 import { checkRateLimit, getRateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit';
+import { getClientIP } from '@/lib/security/validation';
 import {
   authenticateUser,
   createAdminSession,
@@ -26,7 +35,7 @@ export async function POST(request: NextRequest) {
   try {
     // Rate limit login attempts by IP to prevent brute force
     const clientIp = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
-    const rateLimit = checkRateLimit(clientIp, RATE_LIMITS.auth);
+    const rateLimit = await checkRateLimit(clientIp, RATE_LIMITS.auth);
     if (!rateLimit.success) {
       return NextResponse.json(
         { error: 'Too many login attempts. Please try again later.', errorKey: 'RATE_LIMITED' },
@@ -67,6 +76,7 @@ export async function POST(request: NextRequest) {
           email: user.email,
           name: user.name,
           role: user.role,
+          isBreakGlass: false,
         },
       });
 
@@ -81,7 +91,7 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
-    // Legacy shared secret authentication (backwards compatible)
+    // Break-glass login with the shared secret (emergency access only)
     if (body.secret) {
       const { secret } = body;
 
@@ -92,29 +102,76 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      if (!validateAdminLogin(secret)) {
+      if (!isBreakGlassEnabled()) {
+        return NextResponse.json(
+          { error: 'Break-glass login is disabled', errorKey: 'BREAK_GLASS_DISABLED' },
+          { status: 403 }
+        );
+      }
+
+      const reason = validateBreakGlassReason(body.reason);
+      if (!reason.valid) {
+        return NextResponse.json(
+          { error: reason.error, errorKey: 'BREAK_GLASS_REASON_REQUIRED' },
+          { status: 400 }
+        );
+      }
+
+      const ipHash = hashIP(getClientIP(request.headers), process.env.IP_SALT || 'default-salt');
+      const userAgent = request.headers.get('user-agent') || undefined;
+
+      if (!validateBreakGlassSecret(secret)) {
+        logActivity('AUTH_FAILURE', {
+          ipHash,
+          userAgent,
+          detail: 'Break-glass login rejected: invalid secret',
+        });
         return NextResponse.json(
           { error: 'Invalid admin credentials', errorKey: 'INVALID_CREDENTIALS' },
           { status: 401 }
         );
       }
 
-      // Set HTTP-only cookie with the secret (legacy mode)
+      const user = await getBreakGlassUser();
+      if (!user.isActive) {
+        return NextResponse.json(
+          { error: 'Break-glass login is disabled', errorKey: 'BREAK_GLASS_DISABLED' },
+          { status: 403 }
+        );
+      }
+
+      const expiresInMs = BREAK_GLASS_SESSION_MINUTES * 60 * 1000;
+      const sessionToken = await createAdminSession(user.id, request, {
+        isBreakGlass: true,
+        expiresInMs,
+      });
+
+      // Audit-critical, so wait for the write instead of fire-and-forget
+      await logActivitySync('ADMIN_BREAK_GLASS', {
+        userId: user.id,
+        ipHash,
+        userAgent,
+        detail: `Break-glass login: ${reason.data}`,
+        metadata: { reason: reason.data, expiresAt: new Date(Date.now() + expiresInMs).toISOString() },
+      });
+      console.warn(`[AdminAuth] Break-glass login (${ipHash.slice(0, 12)}): ${reason.data}`);
+
       const response = NextResponse.json({
         success: true,
         user: {
-          id: 'legacy-admin',
-          email: 'admin@sciblind.local',
-          name: 'Legacy Admin',
-          role: 'SUPER_ADMIN',
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          isBreakGlass: true,
         },
       });
 
-      response.cookies.set('sciblind-admin-token', secret, {
+      response.cookies.set('sciblind-admin-token', sessionToken, {
         httpOnly: true,
         secure: process.env.NODE_ENV === 'production',
         sameSite: 'strict',
-        maxAge: 60 * 60 * 24 * 7, // 7 days
+        maxAge: BREAK_GLASS_SESSION_MINUTES * 60,
         path: '/',
       });
 
@@ -140,7 +197,6 @@ export async function DELETE(request: NextRequest) {
     const sessionToken = request.cookies.get('sciblind-admin-token')?.value;
 
     if (sessionToken) {
-      // Try to delete from database (will do nothing for legacy tokens)
       await deleteAdminSession(sessionToken);
     }
 
@@ -187,6 +243,7 @@ export async function GET(request: NextRequest) {
         email: user.email,
         name: user.name,
         role: user.role,
+        isBreakGlass: user.isBreakGlass,
       },
     });
   } catch (error) {
@@ -6,12 +6,17 @@
  * Returns comprehensive statistics for the admin dashboard.
  * Filters studies based on user role:
  * - SUPER_ADMIN: sees all studies
- * - USER: sees only their own studies
+ * - USER: sees studies they own and studies shared with them (StudyMember)
+ *
+ * Each study carries the caller's role (myRole) and whether it is shared.
+ *
+ * Archived studies are hidden unless ?includeArchived=true.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { getAuthenticatedUser } from '@/lib/security/user-auth';
+import { resolveStudyRole } from '@/lib/security/study-roles';
 
 export async function GET(request: NextRequest) {
   try {
@@ -24,20 +29,25 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const includeArchived = request.nextUrl.searchParams.get('includeArchived') === 'true';
+
     // Build study filter based on user role
     const studyFilter = user.role === 'SUPER_ADMIN'
       ? {} // Super admins see all studies
       : {
           OR: [
             { ownerId: user.id },
-            // Legacy studies are visible to their owner
-            { AND: [{ isLegacy: true }, { ownerId: user.id }] },
+            // Shared studies (legacy studies stay owner-only)
+            { isLegacy: false, members: { some: { userId: user.id } } },
           ],
         };
 
     // Get studies with related data based on user's access
     const studies = await prisma.study.findMany({
-      where: studyFilter,
+      where: {
+        ...studyFilter,
+        ...(includeArchived ? {} : { archivedAt: null }),
+      },
       include: {
         categories: {
           include: {
@@ -57,6 +67,10 @@ export async function GET(request: NextRequest) {
             name: true,
           },
         },
+        members: {
+          where: { userId: user.id },
+          select: { role: true },
+        },
         _count: {
           select: {
             comparisons: true,
@@ -199,10 +213,13 @@ export async function GET(request: NextRequest) {
           id: study.id,
           title: study.title,
           isActive: study.isActive,
+          archivedAt: study.archivedAt,
           isLegacy: study.isLegacy,
           createdAt: study.createdAt,
           language: study.language,
           owner: study.owner,
+          myRole: resolveStudyRole(user, study),
+          isShared: study.ownerId !== user.id && study.members.length > 0,
           totalItems: study._count.items,
           totalComparisons: study._count.comparisons,
           totalSessions: study._count.sessions,
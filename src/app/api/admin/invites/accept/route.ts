@@ -0,0 +1,107 @@
+/**
+ * Invitation Acceptance API
+ *
+ * POST /api/admin/invites/accept
+ *   Body: { token: string }
+ *   Adds the signed-in user to the invited study with the invited role.
+ *   The user's email must match the invitation. If they are already a
+ *   member, their role is replaced by the invited one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logActivity } from '@/lib/logging';
+import { getAuthenticatedUser } from '@/lib/security/user-auth';
+import { hashInviteToken } from '@/lib/security/study-roles';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body', errorKey: 'INVALID_JSON' },
+        { status: 400 }
+      );
+    }
+
+    const token = (body as Record<string, unknown> | null)?.token;
+    if (typeof token !== 'string' || token.length === 0 || token.length > 100) {
+      return NextResponse.json(
+        { error: 'Invitation token is required', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const invite = await prisma.studyInvite.findUnique({
+      where: { tokenHash: hashInviteToken(token) },
+      select: { id: true, studyId: true, email: true, role: true, invitedBy: true, expiresAt: true, acceptedAt: true },
+    });
+
+    if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+      return NextResponse.json(
+        { error: 'This invitation is invalid or has expired', errorKey: 'INVITE_INVALID' },
+        { status: 404 }
+      );
+    }
+
+    if (invite.email !== user.email.toLowerCase()) {
+      return NextResponse.json(
+        { error: `This invitation was sent to ${invite.email}. Sign in with that account to accept it.`, errorKey: 'INVITE_EMAIL_MISMATCH' },
+        { status: 403 }
+      );
+    }
+
+    const accepted = await prisma.$transaction(async (tx) => {
+      // Claim the invitation first so it can only be used once
+      const { count } = await tx.studyInvite.updateMany({
+        where: { id: invite.id, acceptedAt: null },
+        data: { acceptedAt: new Date(), acceptedById: user.id },
+      });
+      if (count === 0) return false;
+
+      await tx.studyMember.upsert({
+        where: { studyId_userId: { studyId: invite.studyId, userId: user.id } },
+        update: { role: invite.role },
+        create: {
+          studyId: invite.studyId,
+          userId: user.id,
+          role: invite.role,
+          invitedBy: invite.invitedBy,
+        },
+      });
+      return true;
+    });
+
+    if (!accepted) {
+      return NextResponse.json(
+        { error: 'This invitation is invalid or has expired', errorKey: 'INVITE_INVALID' },
+        { status: 404 }
+      );
+    }
+
+    logActivity('MEMBER_JOINED', {
+      studyId: invite.studyId,
+      userId: user.id,
+      detail: `${user.email} joined as ${invite.role}`,
+      metadata: { inviteId: invite.id, role: invite.role },
+    });
+
+    return NextResponse.json({ success: true, studyId: invite.studyId, role: invite.role });
+  } catch (error) {
+    console.error('Invite accept error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
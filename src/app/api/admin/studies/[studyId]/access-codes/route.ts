@@ -11,7 +11,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { requireAdminAuth } from '@/lib/security/admin-auth';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
 import { logActivity } from '@/lib/logging';
 import * as crypto from 'crypto';
 
@@ -27,12 +27,21 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ studyId: string }> }
 ) {
-  const authError = requireAdminAuth(request);
-  if (authError) return authError;
-
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
     const { studyId } = await params;
 
+    // Codes are participant credentials — only editors may see them
+    const accessError = await requireStudyPermission(user, studyId, 'edit');
+    if (accessError) return accessError;
+
     const accessCodes = await prisma.accessCode.findMany({
       where: { studyId },
       orderBy: { createdAt: 'asc' },
@@ -69,10 +78,15 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ studyId: string }> }
 ) {
-  const authError = requireAdminAuth(request);
-  if (authError) return authError;
-
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
     const { studyId } = await params;
     const body = await request.json();
 
@@ -88,11 +102,14 @@ export async function POST(
 
     if (!study) {
       return NextResponse.json(
-        { error: 'Study not found' },
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
         { status: 404 }
       );
     }
 
+    const accessError = await requireStudyPermission(user, studyId, 'edit');
+    if (accessError) return accessError;
+
     const createdCodes: string[] = [];
 
     for (let i = 0; i < count; i++) {
@@ -114,6 +131,7 @@ export async function POST(
 
     logActivity('ACCESS_CODES_CREATED', {
       studyId,
+      userId: user.id,
       detail: `Created ${count} access codes (${isTestCode ? 'test' : 'evaluator'})`,
       metadata: { count, prefix, isTestCode, codes: createdCodes },
     });
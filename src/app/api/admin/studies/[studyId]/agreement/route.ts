@@ -0,0 +1,99 @@
+/**
+ * Inter-Rater Agreement API
+ *
+ * GET /api/admin/studies/[studyId]/agreement
+ *
+ * How much the study's evaluators agree: Kendall's W per category, Kendall's
+ * τ-b between every two evaluators' personal rankings (the admin heatmap)
+ * and Krippendorff's α on pairs judged more than once. See
+ * lib/ranking/agreement.
+ *
+ * The panel is every non-test session that entered with an access code,
+ * labelled by the code's label; studies without codes use their most
+ * active sessions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
+import { analyzeAgreement, selectPanel } from '@/lib/ranking/agreement';
+import { round3 } from '@/lib/ranking/format';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    const accessError = await requireStudyPermission(user, studyId, 'view');
+    if (accessError) return accessError;
+
+    const [categories, sessions] = await Promise.all([
+      prisma.category.findMany({
+        where: { studyId },
+        orderBy: { displayOrder: 'asc' },
+        select: { id: true, name: true },
+      }),
+      prisma.session.findMany({
+        where: { studyId, isTestSession: false },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          comparisonCount: true,
+          accessCode: { select: { label: true } },
+        },
+      }),
+    ]);
+
+    const evaluators = selectPanel(sessions);
+    const comparisons = evaluators.length > 0
+      ? await prisma.comparison.findMany({
+          where: {
+            studyId,
+            sessionId: { in: evaluators.map((evaluator) => evaluator.sessionId) },
+          },
+          select: {
+            sessionId: true,
+            categoryId: true,
+            itemAId: true,
+            itemBId: true,
+            winnerId: true,
+            preferenceStrength: true,
+          },
+        })
+      : [];
+
+    const agreement = analyzeAgreement(evaluators, comparisons);
+    const categoryName = new Map(categories.map((category) => [category.id, category.name]));
+
+    return NextResponse.json({
+      evaluators: agreement.evaluators,
+      categories: agreement.categories.map((category) => ({
+        ...category,
+        categoryName: category.categoryId ? categoryName.get(category.categoryId) ?? null : null,
+        kendallW: round3(category.kendallW),
+        chiSquare: round3(category.chiSquare),
+      })),
+      pairwiseTau: agreement.pairwiseTau.map((row) => row.map(round3)),
+      meanTau: round3(agreement.meanTau),
+      krippendorffAlpha: round3(agreement.krippendorffAlpha),
+      repeatedPairCount: agreement.repeatedPairCount,
+      repeatedJudgmentCount: agreement.repeatedJudgmentCount,
+    });
+  } catch (error) {
+    console.error('Agreement error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Convergence API
+ *
+ * GET /api/admin/studies/[studyId]/convergence
+ *
+ * The study's ranking snapshots with Spearman's ρ, Kendall's τ-b and top-N
+ * churn against the previous snapshot (the admin convergence chart), plus
+ * the monitoring settings and whether the ranking has converged. See
+ * lib/ranking/convergence.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
+import { DEFAULT_CHURN_TOP_N } from '@/lib/ranking/convergence';
+import { round3 } from '@/lib/ranking/format';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    const accessError = await requireStudyPermission(user, studyId, 'view');
+    if (accessError) return accessError;
+
+    const [study, snapshots] = await Promise.all([
+      prisma.study.findUnique({
+        where: { id: studyId },
+        select: {
+          targetTopN: true,
+          convergenceInterval: true,
+          convergenceMinCorrelation: true,
+          convergenceWindow: true,
+          autoDeactivateOnConvergence: true,
+          convergedAt: true,
+        },
+      }),
+      prisma.rankingSnapshot.findMany({
+        where: { studyId },
+        orderBy: { comparisonCount: 'asc' },
+        select: {
+          createdAt: true,
+          comparisonCount: true,
+          spearman: true,
+          kendall: true,
+          topNChurn: true,
+          stable: true,
+        },
+      }),
+    ]);
+
+    if (!study) {
+      return NextResponse.json(
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      enabled: study.convergenceInterval !== null,
+      interval: study.convergenceInterval,
+      minCorrelation: study.convergenceMinCorrelation,
+      window: study.convergenceWindow,
+      topN: study.targetTopN ?? DEFAULT_CHURN_TOP_N,
+      autoDeactivate: study.autoDeactivateOnConvergence,
+      converged: study.convergedAt !== null,
+      convergedAt: study.convergedAt,
+      snapshots: snapshots.map((snapshot) => ({
+        ...snapshot,
+        spearman: round3(snapshot.spearman),
+        kendall: round3(snapshot.kendall),
+      })),
+    });
+  } catch (error) {
+    console.error('Convergence error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
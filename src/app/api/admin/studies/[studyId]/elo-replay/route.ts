@@ -0,0 +1,265 @@
+/**
+ * Admin Elo Replay API
+ *
+ * POST /api/admin/studies/[studyId]/elo-replay
+ *   Recomputes every item's Elo rating by replaying the study's comparisons
+ *   in chronological order (see lib/ranking/replay), and diffs the result
+ *   against the stored ratings.
+ *
+ *   Body:
+ *     dryRun            — default true; only return the diff
+ *     excludeTest       — default true; skip test-session votes
+ *     excludeFlagged    — default: study's excludeFlaggedFromElo; flagged votes
+ *                         still count, but leave the ratings alone
+ *     excludeSessionIds — sessions whose votes should be ignored
+ *
+ *   With dryRun: false the replayed stats are written, the study's
+ *   PairExposure rows are rebuilt from the real votes outside the excluded
+ *   sessions (flagged votes still count, as they do for comparisonCount),
+ *   and ELO_RESET is logged.
+ *   Dry runs need ANALYST on the study, writing needs EDITOR.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logActivity } from '@/lib/logging';
+import { isValidCuid } from '@/lib/security/validation';
+import { getAuthenticatedUser, getStudyRole } from '@/lib/security/user-auth';
+import { roleAllows } from '@/lib/security/study-roles';
+import { replayElo, diffReplay, isTestComparison, type EloReplayFilters } from '@/lib/ranking/replay';
+import { clearExposureCache, countPairExposure, writePairExposure } from '@/lib/matchmaking/exposure';
+
+const MAX_EXCLUDED_SESSIONS = 1000;
+
+const ITEM_SELECT = {
+  id: true,
+  externalId: true,
+  label: true,
+  categoryId: true,
+  artistEloBoost: true,
+  eloRating: true,
+  eloGames: true,
+  comparisonCount: true,
+  winCount: true,
+  lossCount: true,
+  leftCount: true,
+  rightCount: true,
+} as const;
+
+const COMPARISON_SELECT = {
+  id: true,
+  createdAt: true,
+  sessionId: true,
+  itemAId: true,
+  itemBId: true,
+  winnerId: true,
+  preferenceStrength: true,
+  leftItemId: true,
+  rightItemId: true,
+  categoryId: true,
+  isFlagged: true,
+  flagReason: true,
+  algoVersion: true,
+  choiceGroupId: true,
+  session: { select: { isTestSession: true } },
+} as const;
+
+/**
+ * Validate the request body
+ */
+function validateReplayRequest(
+  body: unknown,
+  defaultExcludeFlagged: boolean
+): { valid: boolean; dryRun?: boolean; filters?: Required<EloReplayFilters>; error?: string } {
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, error: 'Invalid request body' };
+  }
+  const { dryRun, excludeTest, excludeFlagged, excludeSessionIds } = body as Record<string, unknown>;
+
+  for (const [name, value] of Object.entries({ dryRun, excludeTest, excludeFlagged })) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      return { valid: false, error: `${name} must be a boolean` };
+    }
+  }
+
+  if (excludeSessionIds !== undefined) {
+    if (
+      !Array.isArray(excludeSessionIds) ||
+      excludeSessionIds.length > MAX_EXCLUDED_SESSIONS ||
+      !excludeSessionIds.every((id) => typeof id === 'string' && isValidCuid(id))
+    ) {
+      return { valid: false, error: 'excludeSessionIds must be an array of session IDs' };
+    }
+  }
+
+  return {
+    valid: true,
+    dryRun: (dryRun as boolean | undefined) ?? true,
+    filters: {
+      excludeTest: (excludeTest as boolean | undefined) ?? true,
+      excludeFlagged: (excludeFlagged as boolean | undefined) ?? defaultExcludeFlagged,
+      excludeSessionIds: (excludeSessionIds as string[] | undefined) ?? [],
+    },
+  };
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    const study = await prisma.study.findUnique({
+      where: { id: studyId },
+      select: {
+        id: true,
+        eloInitialRating: true,
+        eloKFactor: true,
+        adaptiveKFactor: true,
+        excludeFlaggedFromElo: true,
+      },
+    });
+    const role = study ? await getStudyRole(user, studyId) : null;
+    if (!study || !role) {
+      return NextResponse.json(
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    let body: unknown = {};
+    try {
+      const text = await request.text();
+      if (text.trim()) body = JSON.parse(text);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body', errorKey: 'INVALID_JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateReplayRequest(body, study.excludeFlaggedFromElo);
+    if (!validation.valid || !validation.filters) {
+      return NextResponse.json(
+        { error: validation.error || 'Invalid request', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+    const { dryRun, filters } = validation;
+
+    // Analysts may preview a replay; writing ratings needs EDITOR
+    if (!roleAllows(role, dryRun ? 'export' : 'edit')) {
+      return NextResponse.json(
+        { error: `Forbidden. Your role on this study (${role}) does not allow this.`, errorKey: 'INSUFFICIENT_STUDY_ROLE' },
+        { status: 403 }
+      );
+    }
+
+    const options = {
+      initialRating: study.eloInitialRating,
+      kFactor: study.eloKFactor,
+      adaptiveK: study.adaptiveKFactor,
+      filters,
+    };
+
+    const outcome = await prisma.$transaction(
+      async (tx) => {
+        // Block concurrent vote updates on this study's items until the replay is written
+        if (!dryRun) {
+          await tx.$queryRaw`SELECT id FROM "Item" WHERE "studyId" = ${studyId} FOR UPDATE`;
+        }
+
+        const [items, comparisons] = await Promise.all([
+          tx.item.findMany({ where: { studyId }, select: ITEM_SELECT }),
+          tx.comparison.findMany({ where: { studyId }, select: COMPARISON_SELECT }),
+        ]);
+
+        const replayed = comparisons.map(({ session, ...c }) => ({ ...c, isTestSession: session.isTestSession }));
+        const replay = replayElo(items, replayed, options);
+        const diffs = diffReplay(items, replay);
+
+        if (!dryRun) {
+          for (const diff of diffs) {
+            await tx.item.update({
+              where: { id: diff.itemId },
+              data: diff.after,
+            });
+          }
+
+          // Test votes never count towards exposure, whatever excludeTest says
+          const itemIds = new Set(items.map((item) => item.id));
+          const excludedSessions = new Set(filters.excludeSessionIds);
+          await writePairExposure(tx, studyId, countPairExposure(
+            replayed.filter((c) =>
+              !isTestComparison(c) &&
+              !excludedSessions.has(c.sessionId) &&
+              itemIds.has(c.itemAId) &&
+              itemIds.has(c.itemBId)
+            )
+          ));
+        }
+
+        return { items, replay, diffs };
+      },
+      { timeout: 60000 }
+    );
+
+    const itemsById = new Map(outcome.items.map((item) => [item.id, item]));
+    const summary = {
+      totalComparisons: outcome.replay.applied + Object.values(outcome.replay.skipped).reduce((a, b) => a + b, 0),
+      applied: outcome.replay.applied,
+      skipped: outcome.replay.skipped,
+      itemsChanged: outcome.diffs.length,
+      maxRatingChange: outcome.diffs.length > 0 ? Math.abs(outcome.diffs[0].ratingDelta) : 0,
+    };
+
+    if (!dryRun) {
+      clearExposureCache(studyId);
+      logActivity('ELO_RESET', {
+        studyId,
+        userId: user.id,
+        detail: `Elo ratings replayed from ${summary.applied} comparisons (${summary.itemsChanged} items changed)`,
+        metadata: { filters, ...summary, appliedBy: user.email },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      filters,
+      settings: {
+        initialRating: study.eloInitialRating,
+        kFactor: study.eloKFactor,
+        adaptiveK: study.adaptiveKFactor,
+      },
+      summary,
+      diff: outcome.diffs.map((diff) => {
+        const item = itemsById.get(diff.itemId)!;
+        return {
+          itemId: diff.itemId,
+          externalId: item.externalId,
+          label: item.label,
+          categoryId: item.categoryId,
+          before: diff.before,
+          after: diff.after,
+          ratingDelta: diff.ratingDelta,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Elo replay error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -12,18 +12,31 @@
  *   - includeVotingProcess: true/false
  *   - includeEloExplanation: true/false
  *   - includeFullRankings: true/false
+ *   - includeAgreement: true/false (inter-rater agreement, needs 2+ evaluators)
+ *
+ * Bradley-Terry studies are refit first if votes are newer than the last fit.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { logActivity } from '@/lib/logging';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
 import { generateStudyReport, ReportConfig } from '@/lib/pdf/report-generator';
+import { ensureBradleyTerryFresh } from '@/lib/ranking/bt-refresh';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ studyId: string }> }
 ) {
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
     const { studyId } = await params;
     const searchParams = request.nextUrl.searchParams;
 
@@ -46,6 +59,9 @@ export async function GET(
     if (searchParams.has('includeFullRankings')) {
       config.includeFullRankings = searchParams.get('includeFullRankings') === 'true';
     }
+    if (searchParams.has('includeAgreement')) {
+      config.includeAgreement = searchParams.get('includeAgreement') === 'true';
+    }
 
     // Visual options
     if (searchParams.has('winnersPerCategory')) {
@@ -88,7 +104,7 @@ export async function GET(
     // Check study exists
     const study = await prisma.study.findUnique({
       where: { id: studyId },
-      select: { id: true, title: true },
+      select: { id: true, title: true, rankingMethod: true, btUpdatedAt: true },
     });
 
     if (!study) {
@@ -98,11 +114,19 @@ export async function GET(
       );
     }
 
+    const accessError = await requireStudyPermission(user, studyId, 'export');
+    if (accessError) return accessError;
+
+    if (study.rankingMethod === 'BRADLEY_TERRY') {
+      await ensureBradleyTerryFresh(studyId, study.btUpdatedAt);
+    }
+
     // Generate PDF with image compression
     const buffer = await generateStudyReport(prisma, studyId, config);
 
     logActivity('EXPORT_DOWNLOADED', {
       studyId,
+      userId: user.id,
       detail: `PDF report downloaded (${(buffer.length / 1024).toFixed(0)} KB)`,
       metadata: { format: 'pdf', version: 'v3-compressed', config },
     });
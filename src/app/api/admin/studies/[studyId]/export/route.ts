@@ -15,12 +15,17 @@
  * - Study configuration (algo version, K-factor, thresholds)
  * - Item metadata (externalId, label, category, initial ELO, artist rank)
  * - All comparison records with full audit trail
+ * - Per-session reliability (consensus agreement, transitivity, gold
+ *   accuracy and weight, see lib/ranking/reliability), scored on the
+ *   exported non-test comparisons
  * - Summary statistics
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { logActivity } from '@/lib/logging';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
+import { estimateSessionReliability } from '@/lib/ranking/reliability';
 import * as XLSX from 'xlsx';
 
 const ALGO_VERSION = 'sciblind-v2';
@@ -30,6 +35,14 @@ export async function GET(
   { params }: { params: Promise<{ studyId: string }> }
 ) {
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
     const { studyId } = await params;
     const { searchParams } = new URL(request.url);
     const categoryId = searchParams.get('categoryId');
@@ -53,6 +66,9 @@ export async function GET(
       );
     }
 
+    const accessError = await requireStudyPermission(user, studyId, 'export');
+    if (accessError) return accessError;
+
     // Get all items
     const items = await prisma.item.findMany({
       where: {
@@ -104,8 +120,25 @@ export async function GET(
         avgResponseTimeMs: true,
         isFlagged: true,
         flagReason: true,
+        qualityScore: true,
+      },
+    });
+
+    // Evaluator reliability over the real votes
+    const goldAnswers = await prisma.attentionCheck.findMany({
+      where: {
+        studyId,
+        kind: 'gold',
+        answeredAt: { not: null },
+        ...(categoryId ? { categoryId } : {}),
       },
+      select: { sessionId: true, passed: true },
     });
+    const reliability = estimateSessionReliability(
+      comparisons.filter((c) => !c.session.isTestSession),
+      goldAnswers,
+    ).sessions;
+    const round3 = (value: number | null) => (value === null ? null : Math.round(value * 1000) / 1000);
 
     // Format export
     const exportData = {
@@ -124,6 +157,7 @@ export async function GET(
         minExposuresPerItem: study.minExposuresPerItem,
         minTotalComparisons: study.minTotalComparisons,
         adaptiveKFactor: study.adaptiveKFactor,
+        responseScale: study.responseScale,
         hasCategorySeparation: study.hasCategorySeparation,
         language: study.language,
         createdAt: study.createdAt.toISOString(),
@@ -161,25 +195,41 @@ export async function GET(
         itemAId: c.itemAId,
         itemBId: c.itemBId,
         winnerId: c.winnerId,
+        preferenceStrength: c.preferenceStrength,
         leftItemId: c.leftItemId,
         rightItemId: c.rightItemId,
         responseTimeMs: c.responseTimeMs,
         isFlagged: c.isFlagged,
         flagReason: c.flagReason,
         algoVersion: c.algoVersion,
+        choiceGroupId: c.choiceGroupId,
         isTestSession: c.session.isTestSession,
       })),
 
-      sessions: sessions.map((s) => ({
-        id: s.id,
-        createdAt: s.createdAt.toISOString(),
-        isTestSession: s.isTestSession,
-        isCompleted: s.isCompleted,
-        comparisonCount: s.comparisonCount,
-        avgResponseTimeMs: s.avgResponseTimeMs,
-        isFlagged: s.isFlagged,
-        flagReason: s.flagReason,
-      })),
+      sessions: sessions.map((s) => {
+        const sessionReliability = reliability.get(s.id);
+        return {
+          id: s.id,
+          createdAt: s.createdAt.toISOString(),
+          isTestSession: s.isTestSession,
+          isCompleted: s.isCompleted,
+          comparisonCount: s.comparisonCount,
+          avgResponseTimeMs: s.avgResponseTimeMs,
+          isFlagged: s.isFlagged,
+          flagReason: s.flagReason,
+          qualityScore: s.qualityScore,
+          reliability: sessionReliability
+            ? {
+                consensusAgreement: round3(sessionReliability.consensusAgreement),
+                transitivityIndex: round3(sessionReliability.transitivityIndex),
+                circularTriadCount: sessionReliability.circularTriadCount,
+                goldAnswered: sessionReliability.goldAnswered,
+                goldAccuracy: round3(sessionReliability.goldAccuracy),
+                weight: round3(sessionReliability.weight),
+              }
+            : null,
+        };
+      }),
 
       summary: {
         totalItems: items.length,
@@ -196,6 +246,7 @@ export async function GET(
 
     logActivity('EXPORT_DOWNLOADED', {
       studyId,
+      userId: user.id,
       detail: `Export downloaded (${comparisons.length} comparisons, ${sessions.length} sessions, format: ${format})`,
       metadata: { categoryId: categoryId || null, includeTest, format },
     });
@@ -240,11 +291,13 @@ export async function GET(
           'Category': study.categories.find((cat) => cat.id === c.categoryId)?.name || '',
           'Item A (External ID)': itemA?.externalId || c.itemAId,
           'Item B (External ID)': itemB?.externalId || c.itemBId,
-          'Winner (External ID)': winner?.externalId || c.winnerId,
-          'Winner Position': c.winnerId === c.leftItemId ? 'Left' : 'Right',
+          'Winner (External ID)': c.winnerId === null ? 'No preference' : winner?.externalId || c.winnerId,
+          'Winner Position': c.winnerId === null ? 'None' : c.winnerId === c.leftItemId ? 'Left' : 'Right',
+          'Preference Strength': c.preferenceStrength === 1 ? 'Slight' : c.preferenceStrength === 2 ? 'Strong' : '',
           'Response Time (ms)': c.responseTimeMs || '',
           'Flagged': c.isFlagged ? 'Yes' : 'No',
           'Flag Reason': c.flagReason || '',
+          'Choice Group': c.choiceGroupId || '',
           'Test Session': c.session.isTestSession ? 'Yes' : 'No',
         };
       });
@@ -261,6 +314,11 @@ export async function GET(
         'Avg Response (ms)': s.avgResponseTimeMs || '',
         'Flagged': s.isFlagged ? 'Yes' : 'No',
         'Flag Reason': s.flagReason || '',
+        'Quality Score': s.qualityScore ?? '',
+        'Consensus Agreement': round3(reliability.get(s.id)?.consensusAgreement ?? null) ?? '',
+        'Transitivity': round3(reliability.get(s.id)?.transitivityIndex ?? null) ?? '',
+        'Gold Accuracy': round3(reliability.get(s.id)?.goldAccuracy ?? null) ?? '',
+        'Reliability Weight': round3(reliability.get(s.id)?.weight ?? null) ?? '',
       }));
       const sessionsSheet = XLSX.utils.json_to_sheet(sessionsData);
       XLSX.utils.book_append_sheet(workbook, sessionsSheet, 'Sessions');
@@ -275,6 +333,7 @@ export async function GET(
         { 'Field': 'ELO Initial Rating', 'Value': study.eloInitialRating },
         { 'Field': 'Min Exposures Per Item', 'Value': study.minExposuresPerItem },
         { 'Field': 'Adaptive K-Factor', 'Value': study.adaptiveKFactor ? 'Yes' : 'No' },
+        { 'Field': 'Response Scale', 'Value': study.responseScale },
         { 'Field': 'Categories', 'Value': study.categories.map((c) => c.name).join(', ') },
         { 'Field': 'Language', 'Value': study.language },
         { 'Field': 'Created At', 'Value': study.createdAt.toISOString() },
@@ -0,0 +1,58 @@
+/**
+ * Gold Pair API
+ *
+ * DELETE /api/admin/studies/[studyId]/gold-pairs/[goldPairId]
+ *   Removes a gold pair. Answers already given stay in the sessions' quality scores.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
+import { logActivity } from '@/lib/logging';
+
+type RouteParams = { params: Promise<{ studyId: string; goldPairId: string }> };
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId, goldPairId } = await params;
+
+    const accessError = await requireStudyPermission(user, studyId, 'edit');
+    if (accessError) return accessError;
+
+    const goldPair = await prisma.goldPair.findFirst({
+      where: { id: goldPairId, studyId },
+      select: { id: true },
+    });
+    if (!goldPair) {
+      return NextResponse.json(
+        { error: 'Gold pair not found', errorKey: 'GOLD_PAIR_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.goldPair.delete({ where: { id: goldPair.id } });
+
+    logActivity('GOLD_PAIRS_UPDATED', {
+      studyId,
+      userId: user.id,
+      detail: 'Removed a gold pair',
+      metadata: { goldPairId: goldPair.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Gold pair removal error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
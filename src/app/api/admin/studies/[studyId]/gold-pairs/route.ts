@@ -0,0 +1,168 @@
+/**
+ * Gold Pairs Management API
+ *
+ * GET /api/admin/studies/[studyId]/gold-pairs
+ *   Returns the study's gold pairs with how often each was answered correctly
+ *
+ * POST /api/admin/studies/[studyId]/gold-pairs
+ *   Adds gold pairs (attention checks with a known correct answer)
+ *   Body: { pairs: [{ itemAId, itemBId, correctItemId, note? }] }
+ *
+ * Gold pairs are shown every Study.goldCheckInterval votes, see
+ * lib/voting/attention-checks. Their answers are stored as attention checks,
+ * not comparisons, so they never enter rankings.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
+import { logActivity } from '@/lib/logging';
+import { parseGoldPairs } from '@/lib/voting/attention-checks';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    // The correct answers must not reach anyone who might also evaluate — editors only
+    const accessError = await requireStudyPermission(user, studyId, 'edit');
+    if (accessError) return accessError;
+
+    const [goldPairs, answers] = await Promise.all([
+      prisma.goldPair.findMany({
+        where: { studyId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.attentionCheck.groupBy({
+        by: ['sourceId', 'passed'],
+        where: { studyId, kind: 'gold', answeredAt: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const statsOf = (goldPairId: string) => {
+      const rows = answers.filter((row) => row.sourceId === goldPairId);
+      const answered = rows.reduce((sum, row) => sum + row._count._all, 0);
+      const correct = rows.filter((row) => row.passed).reduce((sum, row) => sum + row._count._all, 0);
+      return { answered, correct, accuracy: answered > 0 ? correct / answered : null };
+    };
+
+    return NextResponse.json({
+      goldPairs: goldPairs.map((gold) => ({
+        id: gold.id,
+        createdAt: gold.createdAt,
+        categoryId: gold.categoryId,
+        itemAId: gold.itemAId,
+        itemBId: gold.itemBId,
+        correctItemId: gold.correctItemId,
+        note: gold.note,
+        ...statsOf(gold.id),
+      })),
+    });
+  } catch (error) {
+    console.error('Gold pairs fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    const accessError = await requireStudyPermission(user, studyId, 'edit');
+    if (accessError) return accessError;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body', errorKey: 'INVALID_JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validation = parseGoldPairs(body);
+    if (!validation.valid || !validation.data) {
+      return NextResponse.json(
+        { error: validation.error, errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+    const pairs = validation.data;
+
+    // Both items of each pair must belong to this study (and share a category)
+    const itemIds = [...new Set(pairs.flatMap((pair) => [pair.itemAId, pair.itemBId]))];
+    const items = await prisma.item.findMany({
+      where: { id: { in: itemIds }, studyId },
+      select: { id: true, categoryId: true },
+    });
+    const categoryOf = new Map(items.map((item) => [item.id, item.categoryId]));
+
+    for (const pair of pairs) {
+      if (!categoryOf.has(pair.itemAId) || !categoryOf.has(pair.itemBId)) {
+        return NextResponse.json(
+          { error: 'Items not found in this study', errorKey: 'ITEMS_NOT_FOUND' },
+          { status: 404 }
+        );
+      }
+      if (categoryOf.get(pair.itemAId) !== categoryOf.get(pair.itemBId)) {
+        return NextResponse.json(
+          { error: 'Both items of a gold pair must be in the same category', errorKey: 'CATEGORY_MISMATCH' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const created = await prisma.$transaction(
+      pairs.map((pair) =>
+        prisma.goldPair.create({
+          data: { studyId, categoryId: categoryOf.get(pair.itemAId) ?? null, ...pair },
+        })
+      )
+    );
+
+    logActivity('GOLD_PAIRS_UPDATED', {
+      studyId,
+      userId: user.id,
+      detail: `Added ${created.length} gold pair${created.length === 1 ? '' : 's'}`,
+      metadata: { goldPairIds: created.map((gold) => gold.id) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      goldPairs: created,
+      count: created.length,
+    });
+  } catch (error) {
+    console.error('Gold pairs creation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
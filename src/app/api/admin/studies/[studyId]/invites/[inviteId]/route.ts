@@ -0,0 +1,57 @@
+/**
+ * Study Invite API
+ *
+ * DELETE /api/admin/studies/[studyId]/invites/[inviteId]
+ *   Revokes a pending invitation (OWNER only).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logActivity } from '@/lib/logging';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string; inviteId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId, inviteId } = await params;
+
+    const accessError = await requireStudyPermission(user, studyId, 'manage');
+    if (accessError) return accessError;
+
+    const { count } = await prisma.studyInvite.deleteMany({
+      where: { id: inviteId, studyId, acceptedAt: null },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Invitation not found', errorKey: 'INVITE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    logActivity('MEMBER_REMOVED', {
+      studyId,
+      userId: user.id,
+      detail: 'Invitation revoked',
+      metadata: { inviteId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Study invite revoke error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Bulk Item Upload API
+ *
+ * POST /api/admin/studies/[studyId]/items
+ *
+ * IMAGE studies (multipart/form-data):
+ *   files:    one or more images and/or ZIP archives of images
+ *   manifest: optional CSV (file or text) — filename, externalId, label, category
+ *
+ * TEXT studies (multipart/form-data or text/csv body):
+ *   csv: CSV (file or text) — text, externalId, label, category
+ *
+ * Images are re-encoded to WebP, stripped of all metadata and stored under
+ * random keys in the configured storage backend. Files that fail validation are skipped and reported back
+ * instead of failing the whole batch. If the batch cannot be saved, the
+ * images already written are deleted again.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logActivity } from '@/lib/logging';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
+import { sanitizeString } from '@/lib/security/validation';
+import { readZipEntries, isZipBuffer, createZipBudget, chargeZipBudget, zipBudgetMessage } from '@/lib/uploads/zip';
+import { isImageFilename, normalizeImage, generateImageKey } from '@/lib/uploads/images';
+import { getStorage } from '@/lib/storage';
+import {
+  parseManifest,
+  resolveCategory,
+  baseNameWithoutExtension,
+  type ManifestRow,
+  type CategoryRef,
+} from '@/lib/uploads/manifest';
+
+const MAX_FILES_PER_BATCH = 500;
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+/** Most bytes one upload may hold once its archives are unpacked */
+const MAX_BATCH_BYTES = 200 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 10000;
+
+interface SkippedFile {
+  name: string;
+  reason: string;
+}
+
+interface PendingItem {
+  externalId: string | null;
+  label: string | null;
+  categoryId: string | null;
+  imageKey?: string;
+  text?: string;
+}
+
+/**
+ * Read a form field that may be either an uploaded file or a plain string
+ */
+async function readTextField(form: FormData, name: string): Promise<string | null> {
+  const value = form.get(name);
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  return value.text();
+}
+
+/**
+ * Pick the category for an item, enforcing category separation.
+ * Returns an error reason if the item cannot be placed.
+ */
+function assignCategory(
+  ref: string | null,
+  categories: CategoryRef[],
+  requireCategory: boolean,
+): { categoryId: string | null; error?: string } {
+  if (!ref) {
+    return requireCategory
+      ? { categoryId: null, error: 'Category is required for this study' }
+      : { categoryId: null };
+  }
+  const category = resolveCategory(ref, categories);
+  if (!category) {
+    return { categoryId: null, error: `Unknown category "${ref}"` };
+  }
+  return { categoryId: category.id };
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  // Storage keys written by this request, removed again if it fails
+  const writtenKeys: string[] = [];
+
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    const study = await prisma.study.findUnique({
+      where: { id: studyId },
+      select: {
+        id: true,
+        title: true,
+        inputType: true,
+        eloInitialRating: true,
+        hasCategorySeparation: true,
+        categories: { select: { id: true, name: true, slug: true } },
+        items: { select: { externalId: true }, where: { externalId: { not: null } } },
+      },
+    });
+
+    if (!study) {
+      return NextResponse.json(
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const accessError = await requireStudyPermission(user, studyId, 'edit');
+    if (accessError) return accessError;
+
+    const contentType = request.headers.get('content-type') || '';
+    const isMultipart = contentType.includes('multipart/form-data');
+    const form = isMultipart ? await request.formData() : null;
+
+    const skipped: SkippedFile[] = [];
+    const pending: PendingItem[] = [];
+    const usedExternalIds = new Set(study.items.map((i) => i.externalId));
+    const requireCategory = study.hasCategorySeparation;
+
+    /** Reserve an external ID, rejecting duplicates within the study */
+    const reserveExternalId = (externalId: string | null): boolean => {
+      if (!externalId) return true;
+      if (usedExternalIds.has(externalId)) return false;
+      usedExternalIds.add(externalId);
+      return true;
+    };
+
+    if (study.inputType === 'TEXT') {
+      // ===== Text items from CSV =====
+      const csv = form ? await readTextField(form, 'csv') : await request.text();
+      if (!csv) {
+        return NextResponse.json(
+          { error: 'CSV with a "text" column is required', errorKey: 'CSV_REQUIRED' },
+          { status: 400 }
+        );
+      }
+
+      const { rows, error } = parseManifest(csv, 'text');
+      if (error) {
+        return NextResponse.json({ error, errorKey: 'INVALID_CSV' }, { status: 400 });
+      }
+      if (rows.length > MAX_FILES_PER_BATCH) {
+        return NextResponse.json(
+          { error: `At most ${MAX_FILES_PER_BATCH} items per upload`, errorKey: 'TOO_MANY_ITEMS' },
+          { status: 400 }
+        );
+      }
+
+      rows.forEach((row, index) => {
+        const name = row.externalId || `row ${index + 2}`;
+        const text = sanitizeString(row.text, MAX_TEXT_LENGTH);
+        if (!text) {
+          skipped.push({ name, reason: 'Empty text' });
+          return;
+        }
+        const { categoryId, error: categoryError } = assignCategory(row.category, study.categories, requireCategory);
+        if (categoryError) {
+          skipped.push({ name, reason: categoryError });
+          return;
+        }
+        if (!reserveExternalId(row.externalId)) {
+          skipped.push({ name, reason: 'Duplicate externalId' });
+          return;
+        }
+        pending.push({ text, externalId: row.externalId, label: row.label, categoryId });
+      });
+    } else {
+      // ===== Images from multipart files / ZIP archives =====
+      if (!form) {
+        return NextResponse.json(
+          { error: 'Image uploads must use multipart/form-data', errorKey: 'MULTIPART_REQUIRED' },
+          { status: 400 }
+        );
+      }
+
+      const manifestByFile = new Map<string, ManifestRow>();
+      const manifestCsv = await readTextField(form, 'manifest');
+      if (manifestCsv) {
+        const { rows, error } = parseManifest(manifestCsv, 'filename');
+        if (error) {
+          return NextResponse.json({ error, errorKey: 'INVALID_MANIFEST' }, { status: 400 });
+        }
+        for (const row of rows) {
+          manifestByFile.set(row.filename!.split(/[\\/]/).pop()!.toLowerCase(), row);
+        }
+      }
+
+      // Flatten uploaded files and ZIP contents into one list. Every file
+      // and every extracted entry is charged to one budget, so several
+      // archives cannot together unpack past the batch limits.
+      const budget = createZipBudget(MAX_FILES_PER_BATCH, MAX_BATCH_BYTES);
+      const tooLarge = () =>
+        NextResponse.json(
+          {
+            error: zipBudgetMessage(budget),
+            errorKey: budget.exhausted === 'entries' ? 'TOO_MANY_ITEMS' : 'UPLOAD_TOO_LARGE',
+          },
+          { status: 400 }
+        );
+
+      const sources: { name: string; data: Buffer }[] = [];
+      for (const entry of form.getAll('files')) {
+        if (typeof entry === 'string') continue;
+        if (entry.size > MAX_ARCHIVE_BYTES) {
+          skipped.push({ name: entry.name, reason: 'File too large' });
+          continue;
+        }
+        const data = Buffer.from(await entry.arrayBuffer());
+        if (isZipBuffer(data)) {
+          let entries;
+          try {
+            entries = readZipEntries(data, { maxEntries: MAX_FILES_PER_BATCH, maxEntryBytes: MAX_FILE_BYTES, budget });
+          } catch (zipError) {
+            if (budget.exhausted) return tooLarge();
+            skipped.push({ name: entry.name, reason: (zipError as Error).message });
+            continue;
+          }
+          sources.push(...entries);
+        } else {
+          if (!chargeZipBudget(budget, data.length)) return tooLarge();
+          sources.push({ name: entry.name, data });
+        }
+      }
+
+      if (sources.length === 0) {
+        return NextResponse.json(
+          { error: 'No files uploaded', errorKey: 'NO_FILES', skipped },
+          { status: 400 }
+        );
+      }
+
+      for (const source of sources) {
+        const fileName = source.name.split(/[\\/]/).pop() || source.name;
+        if (!isImageFilename(fileName)) {
+          skipped.push({ name: source.name, reason: 'Unsupported file type' });
+          continue;
+        }
+        if (source.data.length > MAX_FILE_BYTES) {
+          skipped.push({ name: source.name, reason: 'File too large' });
+          continue;
+        }
+
+        const row = manifestByFile.get(fileName.toLowerCase());
+        if (manifestByFile.size > 0 && !row) {
+          skipped.push({ name: source.name, reason: 'Not listed in manifest' });
+          continue;
+        }
+
+        const externalId = row?.externalId ?? baseNameWithoutExtension(fileName);
+        const { categoryId, error: categoryError } = assignCategory(
+          row?.category ?? null,
+          study.categories,
+          requireCategory
+        );
+        if (categoryError) {
+          skipped.push({ name: source.name, reason: categoryError });
+          continue;
+        }
+        if (!reserveExternalId(externalId)) {
+          skipped.push({ name: source.name, reason: 'Duplicate externalId' });
+          continue;
+        }
+
+        let normalized;
+        try {
+          normalized = await normalizeImage(source.data);
+        } catch {
+          usedExternalIds.delete(externalId);
+          skipped.push({ name: source.name, reason: 'Not a valid image' });
+          continue;
+        }
+
+        const imageKey = generateImageKey(studyId);
+        await getStorage().putObject(imageKey, normalized.data, 'image/webp');
+        writtenKeys.push(imageKey);
+        pending.push({
+          imageKey,
+          externalId,
+          label: row?.label ?? null,
+          categoryId,
+        });
+      }
+    }
+
+    if (pending.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid items in upload', errorKey: 'NO_VALID_ITEMS', skipped },
+        { status: 400 }
+      );
+    }
+
+    const eventType = study.inputType === 'TEXT' ? 'TEXT_ITEM' : 'IMAGE_UPLOAD';
+
+    await prisma.$transaction([
+      prisma.item.createMany({
+        data: pending.map((item) => ({
+          ...item,
+          studyId,
+          eloRating: study.eloInitialRating,
+        })),
+      }),
+      prisma.usageMetrics.create({
+        data: { studyId, eventType, count: pending.length, userId: user.id },
+      }),
+    ]);
+
+    logActivity('ITEMS_UPLOADED', {
+      studyId,
+      userId: user.id,
+      detail: `Uploaded ${pending.length} ${study.inputType === 'TEXT' ? 'text items' : 'images'}` +
+        (skipped.length > 0 ? ` (${skipped.length} skipped)` : ''),
+      metadata: {
+        inputType: study.inputType,
+        created: pending.length,
+        skipped,
+        uploadedBy: user.email,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        created: pending.length,
+        skipped,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Item upload error:', error);
+    if (writtenKeys.length > 0) {
+      const results = await Promise.allSettled(writtenKeys.map((key) => getStorage().deleteObject(key)));
+      const failed = results.filter((result) => result.status === 'rejected').length;
+      if (failed > 0) {
+        console.error(`Item upload cleanup: ${failed} of ${writtenKeys.length} images could not be deleted`);
+      }
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Study Member API
+ *
+ * PATCH /api/admin/studies/[studyId]/members/[memberId]
+ *   Changes a collaborator's role (OWNER only).
+ *   Body: { role: "OWNER" | "EDITOR" | "ANALYST" | "VIEWER" }
+ *
+ * DELETE /api/admin/studies/[studyId]/members/[memberId]
+ *   Removes a collaborator (OWNER only). Members can always remove themselves.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logActivity } from '@/lib/logging';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
+import { isStudyRole, STUDY_ROLES } from '@/lib/security/study-roles';
+
+type RouteParams = { params: Promise<{ studyId: string; memberId: string }> };
+
+/**
+ * Load a membership row, scoped to its study
+ */
+function findMember(studyId: string, memberId: string) {
+  return prisma.studyMember.findFirst({
+    where: { id: memberId, studyId },
+    select: { id: true, role: true, userId: true, user: { select: { email: true } } },
+  });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId, memberId } = await params;
+
+    const accessError = await requireStudyPermission(user, studyId, 'manage');
+    if (accessError) return accessError;
+
+    const member = await findMember(studyId, memberId);
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Member not found', errorKey: 'MEMBER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body', errorKey: 'INVALID_JSON' },
+        { status: 400 }
+      );
+    }
+
+    const role = (body as Record<string, unknown> | null)?.role;
+    if (!isStudyRole(role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Must be one of: ${STUDY_ROLES.join(', ')}`, errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.studyMember.update({
+      where: { id: member.id },
+      data: { role },
+      select: { id: true, role: true, userId: true },
+    });
+
+    if (member.role !== role) {
+      logActivity('MEMBER_UPDATED', {
+        studyId,
+        userId: user.id,
+        detail: `${member.user.email}: ${member.role} → ${role}`,
+        metadata: { memberId: member.id, memberUserId: member.userId, before: member.role, after: role },
+      });
+    }
+
+    return NextResponse.json({ success: true, member: updated });
+  } catch (error) {
+    console.error('Study member update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId, memberId } = await params;
+
+    const member = await findMember(studyId, memberId);
+    const isSelf = member?.userId === user.id;
+
+    if (!isSelf) {
+      const accessError = await requireStudyPermission(user, studyId, 'manage');
+      if (accessError) return accessError;
+    }
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Member not found', errorKey: 'MEMBER_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.studyMember.delete({ where: { id: member.id } });
+
+    logActivity('MEMBER_REMOVED', {
+      studyId,
+      userId: user.id,
+      detail: isSelf ? `${member.user.email} left the study` : `Removed ${member.user.email} (${member.role})`,
+      metadata: { memberId: member.id, memberUserId: member.userId, role: member.role },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Study member removal error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
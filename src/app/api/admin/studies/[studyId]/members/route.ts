@@ -0,0 +1,192 @@
+/**
+ * Study Members API
+ *
+ * GET /api/admin/studies/[studyId]/members
+ *   Lists the owner and collaborators with their roles (any study role).
+ *   Pending invitations are included for OWNERs.
+ *
+ * POST /api/admin/studies/[studyId]/members
+ *   Invites a collaborator by email (OWNER only).
+ *   Body: { email: string, role: "OWNER" | "EDITOR" | "ANALYST" | "VIEWER" }
+ *   Returns the invitation link; the token is not stored and cannot be
+ *   retrieved later. Re-inviting an email replaces its pending invitation.
+ *   The invitee accepts at /admin/invites/[token] while signed in with that email.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { logActivity } from '@/lib/logging';
+import { getAuthenticatedUser, getStudyRole, requireStudyPermission } from '@/lib/security/user-auth';
+import {
+  generateInviteToken,
+  hashInviteToken,
+  INVITE_EXPIRY_DAYS,
+  roleAllows,
+  validateInviteRequest,
+} from '@/lib/security/study-roles';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    const role = await getStudyRole(user, studyId);
+    const study = role
+      ? await prisma.study.findUnique({
+          where: { id: studyId },
+          select: {
+            owner: { select: { id: true, email: true, name: true } },
+            members: {
+              orderBy: { createdAt: 'asc' },
+              select: {
+                id: true,
+                role: true,
+                createdAt: true,
+                invitedBy: true,
+                user: { select: { id: true, email: true, name: true } },
+              },
+            },
+          },
+        })
+      : null;
+
+    if (!study) {
+      return NextResponse.json(
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const invites = roleAllows(role, 'manage')
+      ? await prisma.studyInvite.findMany({
+          where: { studyId, acceptedAt: null, expiresAt: { gt: new Date() } },
+          orderBy: { createdAt: 'asc' },
+          select: { id: true, email: true, role: true, invitedBy: true, createdAt: true, expiresAt: true },
+        })
+      : [];
+
+    return NextResponse.json({
+      myRole: role,
+      owner: study.owner,
+      members: study.members,
+      invites,
+    });
+  } catch (error) {
+    console.error('Study members fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    const study = await prisma.study.findUnique({
+      where: { id: studyId },
+      select: { id: true, title: true, owner: { select: { email: true } } },
+    });
+
+    if (!study) {
+      return NextResponse.json(
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const accessError = await requireStudyPermission(user, studyId, 'manage');
+    if (accessError) return accessError;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body', errorKey: 'INVALID_JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateInviteRequest(body);
+    if (!validation.valid || !validation.data) {
+      return NextResponse.json(
+        { error: validation.error || 'Invalid request', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+    const { email, role } = validation.data;
+
+    const existingMember = await prisma.studyMember.findFirst({
+      where: { studyId, user: { email } },
+      select: { id: true },
+    });
+    if (existingMember || study.owner?.email === email) {
+      return NextResponse.json(
+        { error: 'This user already has access to the study', errorKey: 'ALREADY_MEMBER' },
+        { status: 409 }
+      );
+    }
+
+    const token = generateInviteToken();
+    const expiresAt = new Date(Date.now() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+    const [, invite] = await prisma.$transaction([
+      prisma.studyInvite.deleteMany({ where: { studyId, email, acceptedAt: null } }),
+      prisma.studyInvite.create({
+        data: {
+          studyId,
+          email,
+          role,
+          tokenHash: hashInviteToken(token),
+          invitedBy: user.email,
+          expiresAt,
+        },
+        select: { id: true, email: true, role: true, expiresAt: true },
+      }),
+    ]);
+
+    logActivity('MEMBER_INVITED', {
+      studyId,
+      userId: user.id,
+      detail: `Invited ${email} as ${role}`,
+      metadata: { inviteId: invite.id, email, role },
+    });
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://blind.scaientist.eu';
+
+    return NextResponse.json({
+      success: true,
+      invite,
+      inviteUrl: `${appUrl}/admin/invites/${token}`,
+    });
+  } catch (error) {
+    console.error('Study invite error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
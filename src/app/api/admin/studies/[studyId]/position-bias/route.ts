@@ -0,0 +1,213 @@
+/**
+ * Position Bias API
+ *
+ * GET /api/admin/studies/[studyId]/position-bias
+ *
+ * Whether display position influenced the study's votes: left vs right win
+ * rate with a binomial test, per-session bias, first-choice slots of
+ * multi-item votes, order and fatigue effects over a session, and each
+ * item's left/right exposure. Pair studies also get a Bradley-Terry fit with
+ * a left-position effect and the bias-corrected abilities next to the plain
+ * ones. See lib/ranking/position-bias.
+ *
+ * Uses the same real comparisons as the Bradley-Terry fit (no test-session
+ * votes; flagged votes dropped when excludeFlaggedFromElo is set).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
+import { ensureBradleyTerryFresh } from '@/lib/ranking/bt-refresh';
+import {
+  analyzePositionBias,
+  BIAS_ALPHA,
+  exposureBalance,
+  fitPositionModel,
+  type OrderTrend,
+} from '@/lib/ranking/position-bias';
+import { round3 } from '@/lib/ranking/format';
+
+function roundTrend(trend: OrderTrend | null) {
+  return trend && { slope: round3(trend.slope), pValue: round3(trend.pValue), n: trend.n };
+}
+
+/**
+ * 1-based rank of each item within its category by score (higher is better)
+ */
+function ranksWithinCategories(
+  items: { id: string; categoryId: string | null }[],
+  scores: Map<string, number>,
+): Map<string, number> {
+  const byCategory = new Map<string, string[]>();
+  for (const item of items) {
+    if (!scores.has(item.id)) continue;
+    const key = item.categoryId ?? '';
+    byCategory.set(key, [...(byCategory.get(key) ?? []), item.id]);
+  }
+
+  const ranks = new Map<string, number>();
+  for (const ids of byCategory.values()) {
+    ids.sort((a, b) => scores.get(b)! - scores.get(a)!);
+    ids.forEach((id, index) => ranks.set(id, index + 1));
+  }
+  return ranks;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    const accessError = await requireStudyPermission(user, studyId, 'view');
+    if (accessError) return accessError;
+
+    const study = await prisma.study.findUnique({
+      where: { id: studyId },
+      select: { rankingMethod: true, excludeFlaggedFromElo: true, btUpdatedAt: true },
+    });
+
+    if (!study) {
+      return NextResponse.json(
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (study.rankingMethod === 'BRADLEY_TERRY') {
+      await ensureBradleyTerryFresh(studyId, study.btUpdatedAt);
+    }
+
+    const [items, comparisons] = await Promise.all([
+      prisma.item.findMany({
+        where: { studyId },
+        select: {
+          id: true,
+          label: true,
+          categoryId: true,
+          leftCount: true,
+          rightCount: true,
+          eloRating: true,
+          btAbility: true,
+          glickoRating: true,
+        },
+      }),
+      prisma.comparison.findMany({
+        where: {
+          studyId,
+          OR: [{ flagReason: null }, { flagReason: { not: 'test_session' } }],
+          session: { isTestSession: false },
+          ...(study.excludeFlaggedFromElo ? { isFlagged: false } : {}),
+        },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          sessionId: true,
+          createdAt: true,
+          itemAId: true,
+          itemBId: true,
+          winnerId: true,
+          preferenceStrength: true,
+          leftItemId: true,
+          rightItemId: true,
+          responseTimeMs: true,
+          choiceGroupId: true,
+          algoVersion: true,
+        },
+      }),
+    ]);
+
+    // Consensus: the study's own ranking score
+    const consensus = new Map(
+      items.map((item) => [
+        item.id,
+        study.rankingMethod === 'BRADLEY_TERRY'
+          ? item.btAbility
+          : study.rankingMethod === 'GLICKO2'
+            ? item.glickoRating
+            : item.eloRating,
+      ]),
+    );
+
+    const analysis = analyzePositionBias(comparisons, consensus);
+    const model = fitPositionModel(comparisons);
+    const exposure = new Map(exposureBalance(items).map((entry) => [entry.itemId, entry]));
+
+    const correctedRank = model ? ranksWithinCategories(items, model.corrected.abilities) : new Map();
+    const uncorrectedRank = model ? ranksWithinCategories(items, model.uncorrected.abilities) : new Map();
+
+    return NextResponse.json({
+      alpha: BIAS_ALPHA,
+      leftRight: {
+        ...analysis.leftRight,
+        leftWinRate: round3(analysis.leftRight.leftWinRate),
+        pValue: round3(analysis.leftRight.pValue),
+      },
+      sessions: analysis.sessions.map((session) => ({
+        ...session,
+        leftWinRate: round3(session.leftWinRate),
+        pValue: round3(session.pValue),
+      })),
+      biasedSessionCount: analysis.biasedSessionCount,
+      slots: analysis.slots.map((slot) => ({
+        ...slot,
+        chiSquare: round3(slot.chiSquare),
+        pValue: round3(slot.pValue),
+      })),
+      order: {
+        blockSize: analysis.order.blockSize,
+        blocks: analysis.order.blocks.map((block) => ({
+          ...block,
+          leftWinRate: round3(block.leftWinRate),
+          meanResponseTimeMs: block.meanResponseTimeMs === null ? null : Math.round(block.meanResponseTimeMs),
+          consensusAgreement: round3(block.consensusAgreement),
+        })),
+        trends: {
+          leftWin: roundTrend(analysis.order.leftWinTrend),
+          responseTime: roundTrend(analysis.order.responseTimeTrend),
+          consensus: roundTrend(analysis.order.consensusTrend),
+        },
+      },
+      positionEffect: model && {
+        gamma: round3(model.positionEffect),
+        se: round3(model.standardError),
+        pValue: round3(model.pValue),
+        leftWinProbability: round3(model.leftWinProbability),
+        votes: model.votes,
+      },
+      items: items.map((item) => {
+        const balance = exposure.get(item.id)!;
+        const ability = model?.uncorrected.abilities.get(item.id);
+        const corrected = model?.corrected.abilities.get(item.id);
+        return {
+          itemId: item.id,
+          label: item.label,
+          categoryId: item.categoryId,
+          leftCount: item.leftCount,
+          rightCount: item.rightCount,
+          leftShare: round3(balance.leftShare),
+          exposurePValue: round3(balance.pValue),
+          ability: ability === undefined ? null : round3(ability),
+          correctedAbility: corrected === undefined ? null : round3(corrected),
+          correctedSE: round3(model?.corrected.standardErrors.get(item.id) ?? null),
+          rank: uncorrectedRank.get(item.id) ?? null,
+          correctedRank: correctedRank.get(item.id) ?? null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Position bias error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
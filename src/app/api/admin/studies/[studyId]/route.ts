@@ -2,21 +2,81 @@
  * Admin Study Detail API
  *
  * GET /api/admin/studies/[studyId]
+ *   Returns detailed information about a specific study (any study role;
+ *   access codes are only included for EDITOR and above).
+ *   Bradley-Terry studies rank by btAbility and Glicko-2 studies by
+ *   glickoRating, each with a 95% confidence interval. With targetTopN set,
+ *   each category reports whether its top N are separated from the rest.
  *
- * Returns detailed information about a specific study.
- * TODO: Add authentication check when Keycloak is integrated
+ * PATCH /api/admin/studies/[studyId]
+ *   Updates study settings (see validateStudySettings) and/or archive state.
+ *   Body: any subset of study settings, plus optional { archived: boolean }
+ *   - inputType, rankingMethod, hasCategorySeparation, comparisonMode and choiceSetSize
+ *     are locked once real votes exist
+ *   - Archived studies are read-only until unarchived
+ *   - Every change is logged as STUDY_UPDATED with a before/after diff
+ *   - Turning off convergence monitoring clears the converged state
+ *   - Requires EDITOR
+ *
+ * DELETE /api/admin/studies/[studyId]
+ *   Permanently deletes a study with all items, sessions and votes, then
+ *   removes the items' stored images (unless another study's items use the
+ *   same key). Studies with real votes must be archived first. Requires OWNER.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db';
+import { logActivity, logActivitySync } from '@/lib/logging';
+import { getStorage, resolveImageUrl } from '@/lib/storage';
+import { getAuthenticatedUser, getStudyRole, requireStudyPermission } from '@/lib/security/user-auth';
+import { roleAllows } from '@/lib/security/study-roles';
+import { clearStudyRateLimitCache } from '@/lib/security/rate-limit';
+import { validateStudySettings, diffStudySettings, LOCKED_AFTER_VOTES } from '@/lib/studies/settings';
+import { resolveMatchmakingConfig } from '@/lib/matchmaking/strategies';
+import { btConfidenceInterval } from '@/lib/ranking/bradley-terry';
+import { ensureBradleyTerryFresh } from '@/lib/ranking/bt-refresh';
+import { glickoConfidenceInterval } from '@/lib/ranking/glicko2';
+import { calculateEloStdError, checkTopNSeparation } from '@/lib/ranking/statistics';
+
+/**
+ * Count real (non-test) votes for a study
+ */
+function countRealComparisons(studyId: string): Promise<number> {
+  return prisma.comparison.count({
+    where: {
+      studyId,
+      OR: [
+        { flagReason: null },
+        { flagReason: { not: 'test_session' } },
+      ],
+    },
+  });
+}
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ studyId: string }> }
 ) {
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
     const { studyId } = await params;
 
+    const role = await getStudyRole(user, studyId);
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
     const study = await prisma.study.findUnique({
       where: { id: studyId },
       include: {
@@ -43,6 +103,7 @@ export async function GET(
             isFlagged: true,
             flagReason: true,
             avgResponseTimeMs: true,
+            qualityScore: true,
             isTestSession: true,
             _count: {
               select: { comparisons: true },
@@ -53,7 +114,13 @@ export async function GET(
     });
 
     if (!study) {
-      return NextResponse.json({ error: 'Study not found' }, { status: 404 });
+      return NextResponse.json({ error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' }, { status: 404 });
+    }
+
+    const usesBT = study.rankingMethod === 'BRADLEY_TERRY';
+    const usesGlicko = study.rankingMethod === 'GLICKO2';
+    if (usesBT) {
+      await ensureBradleyTerryFresh(studyId, study.btUpdatedAt);
     }
 
     // Get rankings per category
@@ -64,11 +131,16 @@ export async function GET(
             studyId,
             categoryId: category.id,
           },
-          orderBy: [{ eloRating: 'desc' }, { artistRank: 'asc' }],
+          orderBy: usesBT
+            ? [{ btAbility: 'desc' }, { eloRating: 'desc' }, { artistRank: 'asc' }]
+            : usesGlicko
+              ? [{ glickoRating: 'desc' }, { glickoRd: 'asc' }, { artistRank: 'asc' }]
+              : [{ eloRating: 'desc' }, { artistRank: 'asc' }],
           select: {
             id: true,
             externalId: true,
             imageUrl: true,
+            imageKey: true,
             eloRating: true,
             artistRank: true,
             artistEloBoost: true,
@@ -77,17 +149,42 @@ export async function GET(
             comparisonCount: true,
             leftCount: true,
             rightCount: true,
+            btAbility: true,
+            btStdError: true,
+            glickoRating: true,
+            glickoRd: true,
           },
         });
 
+        const separation = study.targetTopN
+          ? checkTopNSeparation(
+              items.map((item) => ({
+                id: item.id,
+                score: usesBT ? item.btAbility : usesGlicko ? item.glickoRating : item.eloRating,
+                stdError: usesBT
+                  ? item.btStdError
+                  : usesGlicko ? item.glickoRd : calculateEloStdError(item.comparisonCount),
+              })),
+              study.targetTopN,
+            )
+          : null;
+
         return {
           category: {
             id: category.id,
             name: category.name,
             slug: category.slug,
           },
+          topNSeparation: separation
+            ? {
+                topN: separation.topN,
+                separated: separation.separated,
+                contestedItemIds: separation.contestedItemIds,
+              }
+            : null,
           items: items.map((item, index) => ({
             ...item,
+            imageUrl: resolveImageUrl(item),
             rank: index + 1,
             winRate:
               item.comparisonCount > 0
@@ -97,6 +194,8 @@ export async function GET(
               item.leftCount + item.rightCount > 0
                 ? Math.round((item.leftCount / (item.leftCount + item.rightCount)) * 100)
                 : 50,
+            btCI95: usesBT ? btConfidenceInterval(item.btAbility, item.btStdError) : null,
+            glickoCI95: usesGlicko ? glickoConfidenceInterval(item.glickoRating, item.glickoRd) : null,
           })),
         };
       })
@@ -175,12 +274,30 @@ export async function GET(
         title: study.title,
         description: study.description,
         isActive: study.isActive,
+        archivedAt: study.archivedAt,
         language: study.language,
         createdAt: study.createdAt,
         requireAccessCode: study.requireAccessCode,
         hasCategorySeparation: study.hasCategorySeparation,
+        rankingMethod: study.rankingMethod,
+        targetTopN: study.targetTopN,
+        responseScale: study.responseScale,
+        choiceSetSize: study.choiceSetSize,
+        goldCheckInterval: study.goldCheckInterval,
+        repeatCheckInterval: study.repeatCheckInterval,
+        minQualityScore: study.minQualityScore,
+        minQualityChecks: study.minQualityChecks,
+        convergenceInterval: study.convergenceInterval,
+        convergenceMinCorrelation: study.convergenceMinCorrelation,
+        convergenceWindow: study.convergenceWindow,
+        autoDeactivateOnConvergence: study.autoDeactivateOnConvergence,
+        convergedAt: study.convergedAt,
+        rateLimits: study.rateLimits,
+        matchmakingConfig: resolveMatchmakingConfig(study.matchmakingConfig),
       },
-      accessCodes: study.accessCodes,
+      myRole: role,
+      // Codes are participant credentials — only editors may see them
+      accessCodes: roleAllows(role, 'edit') ? study.accessCodes : [],
       sessions: realSessions.map((s) => ({
         id: s.id,
         createdAt: s.createdAt,
@@ -189,6 +306,7 @@ export async function GET(
         flagReason: s.flagReason,
         comparisonCount: s._count.comparisons,
         avgResponseTimeMs: s.avgResponseTimeMs,
+        qualityScore: s.qualityScore,
       })),
       rankings,
       stats: {
@@ -209,3 +327,274 @@ export async function GET(
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    const study = await prisma.study.findUnique({ where: { id: studyId } });
+    if (!study) {
+      return NextResponse.json(
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const accessError = await requireStudyPermission(user, studyId, 'edit');
+    if (accessError) return accessError;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body', errorKey: 'INVALID_JSON' },
+        { status: 400 }
+      );
+    }
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Invalid request body', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const { archived, ...settingsBody } = body;
+    if (archived !== undefined && typeof archived !== 'boolean') {
+      return NextResponse.json(
+        { error: 'archived must be a boolean', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const hasSettings = Object.keys(settingsBody).length > 0;
+    if (!hasSettings && archived === undefined) {
+      return NextResponse.json(
+        { error: 'No valid fields to update', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const validation = hasSettings
+      ? validateStudySettings(settingsBody, { partial: true })
+      : { valid: true, data: {} };
+    if (!validation.valid || !validation.data) {
+      return NextResponse.json(
+        { error: validation.error || 'Invalid request', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+    const data = validation.data;
+
+    // Archived studies are read-only — settings can only change together with unarchiving
+    if (study.archivedAt && hasSettings && archived !== false) {
+      return NextResponse.json(
+        { error: 'Study is archived. Unarchive it before editing.', errorKey: 'STUDY_ARCHIVED' },
+        { status: 409 }
+      );
+    }
+    if (archived === true && data.isActive === true) {
+      return NextResponse.json(
+        { error: 'Archived studies cannot be activated', errorKey: 'STUDY_ARCHIVED' },
+        { status: 409 }
+      );
+    }
+
+    // Response time bounds must stay consistent with the values not being changed
+    const minResponseTimeMs = data.minResponseTimeMs ?? study.minResponseTimeMs;
+    const maxResponseTimeMs = data.maxResponseTimeMs ?? study.maxResponseTimeMs;
+    if (minResponseTimeMs >= maxResponseTimeMs) {
+      return NextResponse.json(
+        { error: 'minResponseTimeMs must be lower than maxResponseTimeMs', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    if (data.hasCategorySeparation === true && !study.hasCategorySeparation) {
+      const categoryCount = await prisma.category.count({ where: { studyId } });
+      if (categoryCount === 0) {
+        return NextResponse.json(
+          { error: 'hasCategorySeparation requires at least one category', errorKey: 'VALIDATION_ERROR' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updateData: Record<string, unknown> = { ...data };
+    if (archived === true && study.archivedAt === null) {
+      updateData.archivedAt = new Date();
+      updateData.isActive = false; // Archived studies never accept votes
+    } else if (archived === false && study.archivedAt !== null) {
+      updateData.archivedAt = null;
+    }
+
+    const changes = diffStudySettings(study as unknown as Record<string, unknown>, updateData);
+
+    // Lock fields that would invalidate collected votes
+    const lockedChanges = LOCKED_AFTER_VOTES.filter((field) => field in changes);
+    if (lockedChanges.length > 0 && (await countRealComparisons(studyId)) > 0) {
+      return NextResponse.json(
+        {
+          error: `Cannot change ${lockedChanges.join(', ')} after votes have been collected`,
+          errorKey: 'FIELD_LOCKED',
+          lockedFields: lockedChanges,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json({ success: true, changes: [] });
+    }
+
+    const changedData = Object.fromEntries(Object.keys(changes).map((field) => [field, updateData[field]]));
+    for (const field of ['rateLimits', 'matchmakingConfig']) {
+      if (changedData[field] === null) {
+        changedData[field] = Prisma.DbNull; // JSON columns are cleared with DbNull
+      }
+    }
+    // Without monitoring there is nothing to keep the converged state up to date
+    if (changedData.convergenceInterval === null && study.convergedAt !== null) {
+      changedData.convergedAt = null;
+    }
+    const updated = await prisma.study.update({
+      where: { id: studyId },
+      data: changedData,
+    });
+
+    if ('rateLimits' in changes) {
+      clearStudyRateLimitCache(studyId);
+    }
+
+    logActivity('STUDY_UPDATED', {
+      studyId,
+      userId: user.id,
+      detail: `Study updated: ${Object.keys(changes).join(', ')}`,
+      metadata: { changes, updatedBy: user.email },
+    });
+
+    return NextResponse.json({
+      success: true,
+      changes: Object.keys(changes),
+      study: {
+        id: updated.id,
+        title: updated.title,
+        isActive: updated.isActive,
+        archivedAt: updated.archivedAt,
+        updatedAt: updated.updatedAt,
+      },
+    });
+  } catch (error) {
+    console.error('Study update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const { studyId } = await params;
+
+    const study = await prisma.study.findUnique({
+      where: { id: studyId },
+      select: {
+        id: true,
+        title: true,
+        archivedAt: true,
+        _count: { select: { items: true, sessions: true, comparisons: true } },
+      },
+    });
+    if (!study) {
+      return NextResponse.json(
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const accessError = await requireStudyPermission(user, studyId, 'manage');
+    if (accessError) return accessError;
+
+    // Never destroy collected data in one step: archive first, then delete
+    const realComparisons = await countRealComparisons(studyId);
+    if (realComparisons > 0 && !study.archivedAt) {
+      return NextResponse.json(
+        { error: 'Study has collected votes. Archive it before deleting.', errorKey: 'ARCHIVE_REQUIRED' },
+        { status: 409 }
+      );
+    }
+
+    // Log before deleting — ActivityLog rows are not tied to the Study and survive it
+    await logActivitySync('STUDY_DELETED', {
+      studyId,
+      userId: user.id,
+      detail: `Study deleted: ${study.title}`,
+      metadata: {
+        title: study.title,
+        items: study._count.items,
+        sessions: study._count.sessions,
+        comparisons: study._count.comparisons,
+        realComparisons,
+        deletedBy: user.email,
+      },
+    });
+
+    // Images shared with another study's items (e.g. a copied study) stay in storage
+    const images = await prisma.item.findMany({
+      where: { studyId, imageKey: { not: null } },
+      select: { imageKey: true },
+    });
+    const imageKeys = [...new Set(images.map((item) => item.imageKey!))];
+    const shared = await prisma.item.findMany({
+      where: { studyId: { not: studyId }, imageKey: { in: imageKeys } },
+      select: { imageKey: true },
+    });
+    const sharedKeys = new Set(shared.map((item) => item.imageKey));
+    const orphanedKeys = imageKeys.filter((key) => !sharedKeys.has(key));
+
+    // Comparisons reference items without cascading, so remove them first.
+    // The study delete cascades to categories, items, sessions, access codes and members.
+    await prisma.$transaction([
+      prisma.comparison.deleteMany({ where: { studyId } }),
+      prisma.study.delete({ where: { id: studyId } }),
+    ]);
+
+    // Only once the rows are gone; a failed delete leaves an orphaned file, not a broken item
+    const results = await Promise.allSettled(orphanedKeys.map((key) => getStorage().deleteObject(key)));
+    const failed = results.filter((result) => result.status === 'rejected').length;
+    if (failed > 0) {
+      console.error(`Study deletion: ${failed} of ${orphanedKeys.length} images could not be deleted`);
+    }
+
+    return NextResponse.json({ success: true, imagesDeleted: orphanedKeys.length - failed });
+  } catch (error) {
+    console.error('Study deletion error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
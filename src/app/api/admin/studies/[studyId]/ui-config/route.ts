@@ -10,6 +10,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { logActivity } from '@/lib/logging';
+import { getAuthenticatedUser, requireStudyPermission } from '@/lib/security/user-auth';
 
 const VALID_LOGO_POSITIONS = ['top-center', 'top-left', 'hidden'];
 const VALID_PROGRESS_STYLES = ['dots', 'bar', 'hidden'];
@@ -22,6 +23,14 @@ export async function PATCH(
   { params }: { params: Promise<{ studyId: string }> }
 ) {
   try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
     const { studyId } = await params;
     const body = await request.json();
 
@@ -33,11 +42,14 @@ export async function PATCH(
 
     if (!study) {
       return NextResponse.json(
-        { error: 'Study not found' },
+        { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
         { status: 404 }
       );
     }
 
+    const accessError = await requireStudyPermission(user, studyId, 'edit');
+    if (accessError) return accessError;
+
     // Build update data with validation
     const updateData: Record<string, unknown> = {};
 
@@ -155,6 +167,7 @@ export async function PATCH(
 
     logActivity('STUDY_UPDATED', {
       studyId,
+      userId: user.id,
       detail: `UI config updated: ${Object.keys(updateData).join(', ')}`,
       metadata: updateData,
     });
@@ -0,0 +1,108 @@
+/**
+ * Admin Studies API
+ *
+ * POST /api/admin/studies
+ *
+ * Creates a new study (optionally with categories) owned by the
+ * authenticated admin user.
+ *
+ * Body: Study settings (see validateStudySettings) plus optional
+ *   categories: [{ name, description? }]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { logActivity } from '@/lib/logging';
+import { getAuthenticatedUser } from '@/lib/security/user-auth';
+import { validateStudySettings } from '@/lib/studies/settings';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Authentication required.', errorKey: 'AUTH_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body', errorKey: 'INVALID_JSON' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateStudySettings(body);
+    if (!validation.valid || !validation.data) {
+      return NextResponse.json(
+        { error: validation.error || 'Invalid request', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const {
+      title, description, participantPrompt, inputType, rankingMethod, rateLimits, matchmakingConfig, ...settings
+    } = validation.data;
+    const categories = validation.categories ?? [];
+
+    // Break-glass logins act for nobody in particular — keep the study unowned
+    const ownerId = user.isBreakGlass ? null : user.id;
+
+    const study = await prisma.study.create({
+      data: {
+        ...settings,
+        title: title!,
+        description: description!,
+        participantPrompt: participantPrompt!,
+        inputType: inputType!,
+        rankingMethod: rankingMethod!,
+        logoUrls: settings.logoUrls ?? [],
+        rateLimits: (rateLimits ?? undefined) as Prisma.InputJsonValue | undefined,
+        matchmakingConfig: (matchmakingConfig ?? undefined) as Prisma.InputJsonValue | undefined,
+        ownerId,
+        createdBy: user.email,
+        categories: categories.length > 0 ? { create: categories } : undefined,
+      },
+      include: {
+        categories: {
+          orderBy: { displayOrder: 'asc' },
+          select: { id: true, name: true, slug: true, displayOrder: true },
+        },
+      },
+    });
+
+    logActivity('STUDY_CREATED', {
+      studyId: study.id,
+      userId: user.id,
+      detail: `Study created: ${study.title} (${categories.length} categories)`,
+      metadata: { ...validation.data, categories: categories.map((c) => c.slug), createdBy: user.email },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        study: {
+          id: study.id,
+          title: study.title,
+          inputType: study.inputType,
+          rankingMethod: study.rankingMethod,
+          comparisonMode: study.comparisonMode,
+          isActive: study.isActive,
+          categories: study.categories,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Study creation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -15,12 +15,15 @@
  * - Test codes can be used unlimited times
  * - Test sessions don't affect ELO ratings
  * - Test sessions are excluded from statistics
+ *
+ * Once a study's ranking has converged (see lib/ranking/convergence) and
+ * allowContinuedVoting is off, no new real sessions are created.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { hashAccessCode, hashIP, generateSessionToken } from '@/lib/auth/hash';
-import { checkRateLimit, getRateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit';
+import { checkRateLimit, getRateLimitHeaders, getStudyRateLimit, RATE_LIMITS } from '@/lib/security/rate-limit';
 import { validateAuthRequest, getClientIP, isValidCuid } from '@/lib/security/validation';
 import { logActivity } from '@/lib/logging';
 
@@ -32,8 +35,11 @@ export async function POST(
   const clientIP = getClientIP(request.headers);
   const ipHash = hashIP(clientIP, process.env.IP_SALT || 'default-salt');
 
-  // Check rate limit first (before any DB operations)
-  const rateLimit = checkRateLimit(ipHash, RATE_LIMITS.auth);
+  // Check rate limit first (before any other DB operations).
+  // Studies can raise it, e.g. for classrooms sharing one IP.
+  const { studyId } = await params;
+  const authLimit = isValidCuid(studyId) ? await getStudyRateLimit(studyId, 'auth') : RATE_LIMITS.auth;
+  const rateLimit = await checkRateLimit(ipHash, authLimit);
   const rateLimitHeaders = getRateLimitHeaders(rateLimit);
 
   if (!rateLimit.success) {
@@ -56,8 +62,6 @@ export async function POST(
   }
 
   try {
-    const { studyId } = await params;
-
     // Validate studyId format
     if (!isValidCuid(studyId)) {
       return NextResponse.json(
@@ -95,6 +99,8 @@ export async function POST(
         requireAccessCode: true,
         isActive: true,
         title: true,
+        allowContinuedVoting: true,
+        convergedAt: true,
       },
     });
 
@@ -112,7 +118,18 @@ export async function POST(
       );
     }
 
+    // A converged study without continued voting admits no new participants
+    // (resumed sessions and test codes still work)
+    const closedByConvergence = study.convergedAt !== null && !study.allowContinuedVoting;
+    const convergedResponse = () =>
+      NextResponse.json(
+        { error: 'Study has collected enough votes', errorKey: 'STUDY_CONVERGED' },
+        { status: 403, headers: rateLimitHeaders }
+      );
+
     if (!study.requireAccessCode) {
+      if (closedByConvergence) return convergedResponse();
+
       // Study doesn't require access code, create session directly
       const token = generateSessionToken();
 
@@ -243,6 +260,8 @@ export async function POST(
       );
     }
 
+    if (closedByConvergence) return convergedResponse();
+
     // Create new session for regular code
     const token = generateSessionToken();
 
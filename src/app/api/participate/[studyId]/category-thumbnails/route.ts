@@ -1,16 +1,18 @@
 /**
  * Category Thumbnails API
  *
- * GET /api/participate/[studyId]/category-thumbnails
+ * GET /api/participate/[studyId]/category-thumbnails?token=...
  *
- * Returns a small random sample of image keys per category for gallery preview.
- * Only returns imageKey — no IDs, labels, or other identifying data.
+ * Returns a small random sample of signed image URLs per category for
+ * gallery preview. Only returns opaque proxy URLs — no IDs, storage keys,
+ * labels, or other identifying data.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { isValidCuid } from '@/lib/security/validation';
+import { isValidCuid, isValidSessionToken } from '@/lib/security/validation';
 import { checkRateLimit, getRateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit';
+import { getParticipantImageUrl, IMAGE_TOKEN_LONG_TTL_MS } from '@/lib/security/image-token';
 
 const THUMBNAILS_PER_CATEGORY = 6;
 
@@ -20,6 +22,7 @@ export async function GET(
 ) {
   try {
     const { studyId } = await params;
+    const sessionToken = request.nextUrl.searchParams.get('token');
 
     if (!isValidCuid(studyId)) {
       return NextResponse.json(
@@ -28,9 +31,16 @@ export async function GET(
       );
     }
 
+    if (!isValidSessionToken(sessionToken)) {
+      return NextResponse.json(
+        { error: 'Invalid session token format', errorKey: 'INVALID_TOKEN' },
+        { status: 400 }
+      );
+    }
+
     // Rate limit by IP (forwarded for) or fallback to study ID
     const clientIp = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || studyId;
-    const rateLimit = checkRateLimit(clientIp, RATE_LIMITS.general);
+    const rateLimit = await checkRateLimit(clientIp, RATE_LIMITS.general);
     if (!rateLimit.success) {
       return NextResponse.json(
         { error: 'Too many requests' },
@@ -38,6 +48,18 @@ export async function GET(
       );
     }
 
+    const session = await prisma.session.findUnique({
+      where: { token: sessionToken },
+      select: { id: true, token: true, studyId: true },
+    });
+
+    if (!session || session.studyId !== studyId) {
+      return NextResponse.json(
+        { error: 'Invalid session', errorKey: 'INVALID_SESSION' },
+        { status: 401 }
+      );
+    }
+
     const study = await prisma.study.findUnique({
       where: { id: studyId },
       include: {
@@ -46,7 +68,7 @@ export async function GET(
           include: {
             items: {
               where: { imageKey: { not: null } },
-              select: { imageKey: true },
+              select: { id: true, imageKey: true },
             },
           },
         },
@@ -60,24 +82,23 @@ export async function GET(
       );
     }
 
-    // Pick random sample of imageKeys per category
+    // Pick random sample of images per category
     const categories: Record<string, string[]> = {};
 
     for (const cat of study.categories) {
-      const allKeys = cat.items
-        .map((item) => item.imageKey)
-        .filter((key): key is string => key !== null);
-
       // Shuffle and take first N
-      const shuffled = allKeys.sort(() => Math.random() - 0.5);
-      categories[cat.id] = shuffled.slice(0, THUMBNAILS_PER_CATEGORY);
+      const shuffled = [...cat.items].sort(() => Math.random() - 0.5);
+      categories[cat.id] = shuffled
+        .slice(0, THUMBNAILS_PER_CATEGORY)
+        .map((item) => getParticipantImageUrl(studyId, session, item, IMAGE_TOKEN_LONG_TTL_MS))
+        .filter((url): url is string => url !== null);
     }
 
     return NextResponse.json(
       { categories },
       {
         headers: {
-          'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+          'Cache-Control': 'private, no-store', // URLs are signed per session
         },
       }
     );
@@ -0,0 +1,133 @@
+/**
+ * Participant Image Proxy
+ *
+ * GET /api/participate/[studyId]/image/[opaqueId]?w=640
+ *
+ * Serves image bytes for a signed, short-lived opaque ID minted when the
+ * item was shown to a session (see lib/security/image-token). The storage
+ * key, file name and item ID never appear in the URL or response headers.
+ *
+ * Query:
+ *   w — optional width (160/320/640/1280), re-encodes to WebP
+ *
+ * Set IMAGE_PROXY_REENCODE=true to re-encode every response to
+ * metadata-free WebP (useful for legacy images uploaded before
+ * the upload pipeline normalized them).
+ *
+ * All invalid, expired or foreign tokens return the same 404.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { prisma } from '@/lib/db';
+import { isValidCuid } from '@/lib/security/validation';
+import { checkRateLimit, getRateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit';
+import { readImageToken, verifyImageTokenSession } from '@/lib/security/image-token';
+import { getStorage } from '@/lib/storage';
+
+const ALLOWED_WIDTHS = [160, 320, 640, 1280];
+const REENCODE_QUALITY = 85;
+
+/**
+ * Detect the image MIME type from magic bytes
+ */
+function detectContentType(data: Buffer): string {
+  if (data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'image/webp';
+  }
+  if (data[0] === 0x89 && data.subarray(1, 4).toString('ascii') === 'PNG') return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+  if (data.subarray(0, 3).toString('ascii') === 'GIF') return 'image/gif';
+  return 'application/octet-stream';
+}
+
+function notFound(headers?: Record<string, string>) {
+  return NextResponse.json(
+    { error: 'Image not found', errorKey: 'IMAGE_NOT_FOUND' },
+    { status: 404, headers }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string; opaqueId: string }> }
+) {
+  try {
+    const { studyId, opaqueId } = await params;
+
+    if (!isValidCuid(studyId) || opaqueId.length > 512) {
+      return notFound();
+    }
+
+    const payload = readImageToken(opaqueId);
+    if (!payload || payload.studyId !== studyId) {
+      return notFound();
+    }
+
+    const rateLimit = await checkRateLimit(payload.sessionId, RATE_LIMITS.image);
+    const rateLimitHeaders = getRateLimitHeaders(rateLimit);
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests', errorKey: 'RATE_LIMITED' },
+        { status: 429, headers: rateLimitHeaders }
+      );
+    }
+
+    const [session, item] = await Promise.all([
+      prisma.session.findUnique({
+        where: { id: payload.sessionId },
+        select: { token: true, studyId: true },
+      }),
+      prisma.item.findUnique({
+        where: { id: payload.itemId },
+        select: { imageKey: true, studyId: true },
+      }),
+    ]);
+
+    if (
+      !session ||
+      session.studyId !== studyId ||
+      !verifyImageTokenSession(opaqueId, session.token) ||
+      !item?.imageKey ||
+      item.studyId !== studyId
+    ) {
+      return notFound(rateLimitHeaders);
+    }
+
+    let data = await getStorage().getObject(item.imageKey);
+    if (!data) {
+      return notFound(rateLimitHeaders);
+    }
+
+    const width = parseInt(request.nextUrl.searchParams.get('w') || '', 10);
+    const resize = ALLOWED_WIDTHS.includes(width);
+    if (resize || process.env.IMAGE_PROXY_REENCODE === 'true') {
+      let pipeline = sharp(data).rotate();
+      if (resize) {
+        pipeline = pipeline.resize({ width, withoutEnlargement: true });
+      }
+      data = await pipeline.webp({ quality: REENCODE_QUALITY }).toBuffer();
+    }
+
+    // Browser may cache for the token's remaining lifetime only; never shared caches
+    const maxAge = Math.max(0, Math.floor((payload.expiresAt - Date.now()) / 1000));
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        ...rateLimitHeaders,
+        'Content-Type': detectContentType(data),
+        'Content-Length': data.length.toString(),
+        'Content-Disposition': 'inline',
+        'Cache-Control': `private, max-age=${maxAge}, immutable`,
+        'X-Content-Type-Options': 'nosniff',
+        'Referrer-Policy': 'no-referrer',
+      },
+    });
+  } catch (error) {
+    console.error('Image proxy error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,8 @@
  *
  * Returns the next pair of items to compare for a session.
  * Handles category-based matchmaking when hasCategorySeparation is enabled.
+ * Gold and repeat attention checks are shown in place of a regular pair when
+ * due (see lib/voting/attention-checks); they look like any other pair.
  *
  * Security features:
  * - Rate limiting (120 requests per minute per session)
@@ -13,11 +15,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { selectNextPair, calculateRecommendedComparisons, getCategoryProgress, hasFullCoverage } from '@/lib/matchmaking';
+import {
+  calculateRecommendedComparisons,
+  getCategoryProgress,
+  hasFullCoverage,
+} from '@/lib/matchmaking';
+import { getGlobalExposure } from '@/lib/matchmaking/exposure';
+import { resolveMatchmakingConfig, selectPairWithStrategy } from '@/lib/matchmaking/strategies';
 import { isPublishableThreshold } from '@/lib/ranking/statistics';
-import { checkRateLimit, getRateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit';
+import { checkRateLimit, getRateLimitHeaders, getStudyRateLimit } from '@/lib/security/rate-limit';
 import { logActivity } from '@/lib/logging';
 import { isValidCuid, isValidSessionToken } from '@/lib/security/validation';
+import { getParticipantImageUrl } from '@/lib/security/image-token';
+import { nextAttentionCheck } from '@/lib/voting/attention-checks';
 
 /**
  * Get items that have NOT yet appeared in any session comparison.
@@ -74,7 +84,7 @@ export async function GET(
     }
 
     // Rate limit by session token
-    const rateLimit = checkRateLimit(sessionToken, RATE_LIMITS.nextPair);
+    const rateLimit = await checkRateLimit(sessionToken, await getStudyRateLimit(studyId, 'nextPair'));
     const rateLimitHeaders = getRateLimitHeaders(rateLimit);
 
     if (!rateLimit.success) {
@@ -138,6 +148,8 @@ export async function GET(
     }
 
     const study = session.study;
+    // GLICKO2 studies use real per-item rating deviations for matchmaking and thresholds
+    const usesGlicko = study.rankingMethod === 'GLICKO2';
 
     // Determine which category to get items from
     let targetCategoryId: string | null = null;
@@ -223,6 +235,8 @@ export async function GET(
         categoryId: true,
         isFlagged: true,
         flagReason: true,
+        leftItemId: true,
+        rightItemId: true,
       },
       orderBy: { createdAt: 'asc' },
     });
@@ -271,11 +285,17 @@ export async function GET(
       });
 
       const thresholdResult = isPublishableThreshold(
-        items.map((i) => ({ id: i.id, comparisonCount: i.comparisonCount })),
+        items.map((i) => ({
+          id: i.id,
+          comparisonCount: i.comparisonCount,
+          ratingDeviation: usesGlicko ? i.glickoRd : null,
+        })),
         allStudyComparisons,
         {
           minExposuresPerItem: study.minExposuresPerItem,
           minTotalComparisons: study.minTotalComparisons,
+          maxRatingDeviation: usesGlicko ? study.maxRatingDeviation : null,
+          converged: study.convergedAt !== null,
         },
       );
 
@@ -346,8 +366,32 @@ export async function GET(
       );
     }
 
-    // Select next pair (cast for partial Comparison type from select optimization)
-    const pair = selectNextPair(items, sessionComparisons as any);
+    // A pending or due attention check takes the place of the next pair
+    const check = await nextAttentionCheck(prisma, {
+      studyId,
+      sessionId: session.id,
+      categoryId: targetCategoryId,
+      settings: study,
+      itemIds: items.map((i) => i.id),
+      sessionComparisons,
+    });
+    const checkItemA = check && items.find((i) => i.id === check.itemAId);
+    const checkItemB = check && items.find((i) => i.id === check.itemBId);
+
+    // Otherwise select next pair with the study's strategy (cast for partial Comparison type from select optimization)
+    const pair = check && checkItemA && checkItemB
+      ? { itemA: checkItemA, itemB: checkItemB, leftItemId: check.leftItemId, rightItemId: check.rightItemId }
+      : selectPairWithStrategy(resolveMatchmakingConfig(study.matchmakingConfig), {
+          items,
+          sessionComparisons: sessionComparisons as any,
+          options: {
+            useGlicko: usesGlicko,
+            useBradleyTerry: study.rankingMethod === 'BRADLEY_TERRY',
+            globalExposure: await getGlobalExposure(studyId, targetCategoryId, items.map((i) => i.id)),
+            minExposuresPerItem: study.minExposuresPerItem,
+            targetTopN: study.targetTopN,
+          },
+        });
 
     if (!pair) {
       // No more pairs available (all exhausted)
@@ -373,14 +417,12 @@ export async function GET(
       {
         itemA: {
           id: pair.itemA.id,
-          imageUrl: pair.itemA.imageUrl,
-          imageKey: pair.itemA.imageKey,
+          imageUrl: getParticipantImageUrl(studyId, session, pair.itemA),
           text: pair.itemA.text,
         },
         itemB: {
           id: pair.itemB.id,
-          imageUrl: pair.itemB.imageUrl,
-          imageKey: pair.itemB.imageKey,
+          imageUrl: getParticipantImageUrl(studyId, session, pair.itemB),
           text: pair.itemB.text,
         },
         leftItemId: pair.leftItemId,
@@ -10,17 +10,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import {
-  selectNextQuad,
-  selectNextQuadWinnersOnly,
   calculateRecommendedQuadComparisons,
   calculateTournamentQuads,
   getSessionWinnerIds,
   hasFullCoverage,
+  type MatchmakingOptions,
 } from '@/lib/matchmaking';
+import { getGlobalExposure } from '@/lib/matchmaking/exposure';
+import { resolveMatchmakingConfig, selectQuadWithStrategy } from '@/lib/matchmaking/strategies';
 import { isPublishableThreshold } from '@/lib/ranking/statistics';
-import { checkRateLimit, getRateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit';
+import { checkRateLimit, getRateLimitHeaders, getStudyRateLimit } from '@/lib/security/rate-limit';
 import { isValidCuid, isValidSessionToken } from '@/lib/security/validation';
 import { logActivity } from '@/lib/logging';
+import { getParticipantImageUrl } from '@/lib/security/image-token';
 
 export async function GET(
   request: NextRequest,
@@ -55,7 +57,7 @@ export async function GET(
     }
 
     // Rate limit
-    const rateLimit = checkRateLimit(sessionToken, RATE_LIMITS.nextPair);
+    const rateLimit = await checkRateLimit(sessionToken, await getStudyRateLimit(studyId, 'nextPair'));
     const rateLimitHeaders = getRateLimitHeaders(rateLimit);
 
     if (!rateLimit.success) {
@@ -78,8 +80,13 @@ export async function GET(
             id: true,
             hasCategorySeparation: true,
             allowContinuedVoting: true,
+            convergedAt: true,
             minExposuresPerItem: true,
             minTotalComparisons: true,
+            rankingMethod: true,
+            maxRatingDeviation: true,
+            matchmakingConfig: true,
+            targetTopN: true,
             categories: {
               orderBy: { displayOrder: 'asc' },
               select: { id: true, name: true, slug: true, displayOrder: true },
@@ -104,6 +111,8 @@ export async function GET(
     }
 
     const study = session.study;
+    // GLICKO2 studies use real per-item rating deviations for matchmaking and thresholds
+    const usesGlicko = study.rankingMethod === 'GLICKO2';
 
     // Handle category selection if needed
     if (study.hasCategorySeparation && !categoryId) {
@@ -238,16 +247,22 @@ export async function GET(
             studyId,
             ...(categoryId ? { categoryId } : {}),
           },
-          select: { id: true, comparisonCount: true, categoryId: true },
+          select: { id: true, comparisonCount: true, categoryId: true, glickoRd: true },
         }),
       ]);
 
       const thresholdResult = isPublishableThreshold(
-        allStudyItems.map((i) => ({ id: i.id, comparisonCount: i.comparisonCount })),
+        allStudyItems.map((i) => ({
+          id: i.id,
+          comparisonCount: i.comparisonCount,
+          ratingDeviation: usesGlicko ? i.glickoRd : null,
+        })),
         allStudyComparisons,
         {
           minExposuresPerItem: study.minExposuresPerItem,
           minTotalComparisons: study.minTotalComparisons,
+          maxRatingDeviation: usesGlicko ? study.maxRatingDeviation : null,
+          converged: study.convergedAt !== null,
         },
       );
 
@@ -323,19 +338,23 @@ export async function GET(
       );
     }
 
-    // Select next quad - use winners-only in tournament phase for more refined rankings
-    let quad;
-    if (inTournamentPhase) {
-      // Tournament phase: select from winners only to refine top 4
-      quad = selectNextQuadWinnersOnly(items, sessionComparisons as any);
-      if (!quad) {
-        // Fallback to regular selection if not enough winners
-        quad = selectNextQuad(items, sessionComparisons as any);
-      }
-    } else {
-      // Coverage phase: regular selection to ensure all items are seen
-      quad = selectNextQuad(items, sessionComparisons as any);
-    }
+    // Rating model, plus cross-session exposure so under-exposed items and components catch up
+    const matchmakingOptions: MatchmakingOptions = {
+      useGlicko: usesGlicko,
+      useBradleyTerry: study.rankingMethod === 'BRADLEY_TERRY',
+      globalExposure: await getGlobalExposure(studyId, categoryId, items.map((i) => i.id)),
+      minExposuresPerItem: study.minExposuresPerItem,
+      targetTopN: study.targetTopN,
+    };
+
+    // Select next quad with the study's strategy (coverage-first draws the
+    // tournament-phase quads from winners only, to refine the top 4)
+    const quad = selectQuadWithStrategy(resolveMatchmakingConfig(study.matchmakingConfig), {
+      items,
+      sessionComparisons: sessionComparisons as any,
+      options: matchmakingOptions,
+      inTournamentPhase,
+    });
 
     if (!quad) {
       return NextResponse.json(
@@ -349,8 +368,7 @@ export async function GET(
       const item = quad.items.find((i) => i.id === id)!;
       return {
         id: item.id,
-        imageUrl: item.imageUrl,
-        imageKey: item.imageKey,
+        imageUrl: getParticipantImageUrl(studyId, { id: session.id, token: sessionToken }, item),
         text: item.text,
       };
     });
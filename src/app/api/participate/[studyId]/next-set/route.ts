@@ -0,0 +1,358 @@
+/**
+ * Next Set API
+ *
+ * GET /api/participate/[studyId]/next-set
+ *
+ * Returns the next set of items for ranking and best-worst studies
+ * (Study.choiceSetSize items, 4-6). The participant drags them into an
+ * order or picks the best and the worst, see vote-set.
+ *
+ * Progress counts sets (votes), not the pairwise rows each vote stores.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import {
+  calculateRecommendedChoiceSets,
+  getChoiceSetItemIds,
+  hasFullCoverage,
+  selectNextChoiceSet,
+  type ChoiceSetComparison,
+  type MatchmakingOptions,
+} from '@/lib/matchmaking';
+import { getGlobalExposure } from '@/lib/matchmaking/exposure';
+import { isPublishableThreshold } from '@/lib/ranking/statistics';
+import { checkRateLimit, getRateLimitHeaders, getStudyRateLimit } from '@/lib/security/rate-limit';
+import { isValidCuid, isValidSessionToken } from '@/lib/security/validation';
+import { logActivity } from '@/lib/logging';
+import { getParticipantImageUrl } from '@/lib/security/image-token';
+import { isChoiceSetMode } from '@/lib/voting/choices';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const { studyId } = await params;
+    const { searchParams } = new URL(request.url);
+    const sessionToken = searchParams.get('token');
+    const categoryId = searchParams.get('categoryId');
+
+    // Validate inputs
+    if (!isValidCuid(studyId)) {
+      return NextResponse.json(
+        { error: 'Invalid study ID format', errorKey: 'INVALID_STUDY_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!sessionToken || !isValidSessionToken(sessionToken)) {
+      return NextResponse.json(
+        { error: 'Valid session token required', errorKey: 'TOKEN_REQUIRED' },
+        { status: 400 }
+      );
+    }
+
+    if (categoryId && !isValidCuid(categoryId)) {
+      return NextResponse.json(
+        { error: 'Invalid category ID format', errorKey: 'INVALID_CATEGORY_ID' },
+        { status: 400 }
+      );
+    }
+
+    // Rate limit
+    const rateLimit = await checkRateLimit(sessionToken, await getStudyRateLimit(studyId, 'nextPair'));
+    const rateLimitHeaders = getRateLimitHeaders(rateLimit);
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests', errorKey: 'RATE_LIMITED' },
+        { status: 429, headers: rateLimitHeaders }
+      );
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { token: sessionToken },
+      select: {
+        id: true,
+        studyId: true,
+        isCompleted: true,
+        comparisonCount: true,
+        study: {
+          select: {
+            id: true,
+            comparisonMode: true,
+            choiceSetSize: true,
+            hasCategorySeparation: true,
+            allowContinuedVoting: true,
+            convergedAt: true,
+            minExposuresPerItem: true,
+            minTotalComparisons: true,
+            rankingMethod: true,
+            maxRatingDeviation: true,
+            categories: {
+              orderBy: { displayOrder: 'asc' },
+              select: { id: true, name: true, slug: true, displayOrder: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!session || session.studyId !== studyId) {
+      return NextResponse.json(
+        { error: 'Invalid session', errorKey: 'INVALID_SESSION' },
+        { status: 401, headers: rateLimitHeaders }
+      );
+    }
+
+    const study = session.study;
+    if (!isChoiceSetMode(study.comparisonMode)) {
+      return NextResponse.json(
+        { error: 'Study does not use ranking or best-worst mode', errorKey: 'WRONG_COMPARISON_MODE' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    if (session.isCompleted) {
+      return NextResponse.json(
+        { complete: true, message: 'Session already completed' },
+        { headers: rateLimitHeaders }
+      );
+    }
+
+    const setSize = study.choiceSetSize;
+    const usesGlicko = study.rankingMethod === 'GLICKO2';
+
+    // Sets done and target for one category's items and session rows
+    const progressOf = (catItems: { id: string }[], catComparisons: ChoiceSetComparison[]) => {
+      const completed = getChoiceSetItemIds(catComparisons).length;
+      const target = calculateRecommendedChoiceSets(catItems.length, setSize);
+      const coverage = hasFullCoverage(catItems, catComparisons);
+      // If allowContinuedVoting=false, stop at target; otherwise need coverage too
+      const isComplete = study.allowContinuedVoting ? completed >= target && coverage : completed >= target;
+      return { completed, target, isComplete };
+    };
+
+    // Handle category selection if needed
+    if (study.hasCategorySeparation && !categoryId) {
+      const [allItems, sessionComparisons] = await Promise.all([
+        prisma.item.findMany({
+          where: { studyId },
+          select: { id: true, categoryId: true },
+        }),
+        prisma.comparison.findMany({
+          where: { sessionId: session.id },
+          select: { id: true, itemAId: true, itemBId: true, categoryId: true, choiceGroupId: true },
+        }),
+      ]);
+
+      const categoryProgress = study.categories.map((cat) => {
+        const catItems = allItems.filter((i) => i.categoryId === cat.id);
+        const progress = progressOf(catItems, sessionComparisons.filter((c) => c.categoryId === cat.id));
+        return {
+          id: cat.id,
+          name: cat.name,
+          slug: cat.slug,
+          displayOrder: cat.displayOrder,
+          itemCount: catItems.length,
+          completed: progress.completed,
+          target: progress.target,
+          percentage: Math.min(100, Math.round((progress.completed / progress.target) * 100)),
+          isComplete: progress.isComplete,
+        };
+      });
+
+      return NextResponse.json(
+        { requiresCategorySelection: true, categories: categoryProgress },
+        { headers: rateLimitHeaders }
+      );
+    }
+
+    const [items, sessionComparisons] = await Promise.all([
+      prisma.item.findMany({
+        where: {
+          studyId,
+          ...(categoryId ? { categoryId } : {}),
+        },
+      }),
+      prisma.comparison.findMany({
+        where: {
+          sessionId: session.id,
+          ...(categoryId ? { categoryId } : {}),
+        },
+        select: {
+          id: true,
+          itemAId: true,
+          itemBId: true,
+          winnerId: true,
+          categoryId: true,
+          choiceGroupId: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    if (items.length < setSize) {
+      return NextResponse.json(
+        { error: `Not enough items for this mode (need ${setSize}+)`, errorKey: 'INSUFFICIENT_ITEMS' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    const progress = progressOf(items, sessionComparisons);
+
+    if (progress.isComplete) {
+      // Category complete - check threshold for messaging
+      const [allStudyComparisons, allStudyItems] = await Promise.all([
+        prisma.comparison.findMany({
+          where: {
+            studyId,
+            ...(categoryId ? { categoryId } : {}),
+          },
+          select: {
+            winnerId: true,
+            itemAId: true,
+            itemBId: true,
+            isFlagged: true,
+            flagReason: true,
+          },
+        }),
+        prisma.item.findMany({
+          where: {
+            studyId,
+            ...(categoryId ? { categoryId } : {}),
+          },
+          select: { id: true, comparisonCount: true, categoryId: true, glickoRd: true },
+        }),
+      ]);
+
+      const thresholdResult = isPublishableThreshold(
+        allStudyItems.map((i) => ({
+          id: i.id,
+          comparisonCount: i.comparisonCount,
+          ratingDeviation: usesGlicko ? i.glickoRd : null,
+        })),
+        allStudyComparisons,
+        {
+          minExposuresPerItem: study.minExposuresPerItem,
+          minTotalComparisons: study.minTotalComparisons,
+          maxRatingDeviation: usesGlicko ? study.maxRatingDeviation : null,
+          converged: study.convergedAt !== null,
+        },
+      );
+
+      if (study.hasCategorySeparation) {
+        // Check all categories complete
+        const [allSessionComps, allItems] = await Promise.all([
+          prisma.comparison.findMany({
+            where: { sessionId: session.id },
+            select: { itemAId: true, itemBId: true, categoryId: true, choiceGroupId: true },
+          }),
+          prisma.item.findMany({
+            where: { studyId },
+            select: { id: true, categoryId: true },
+          }),
+        ]);
+
+        const allComplete = study.categories.every((cat) =>
+          progressOf(
+            allItems.filter((i) => i.categoryId === cat.id),
+            allSessionComps.filter((c) => c.categoryId === cat.id)
+          ).isComplete
+        );
+
+        if (allComplete) {
+          await prisma.session.update({
+            where: { id: session.id },
+            data: { isCompleted: true },
+          });
+
+          logActivity('SESSION_COMPLETED', {
+            studyId,
+            sessionId: session.id,
+            detail: `Session completed all categories (${session.comparisonCount} total comparisons)`,
+            metadata: { thresholdMet: thresholdResult.isPublishable, dataStatus: thresholdResult.dataStatus },
+          });
+
+          return NextResponse.json(
+            {
+              complete: true,
+              allCategoriesComplete: true,
+              thresholdMet: thresholdResult.isPublishable,
+              dataStatus: thresholdResult.dataStatus,
+            },
+            { headers: rateLimitHeaders }
+          );
+        }
+      }
+
+      logActivity('CATEGORY_COMPLETED', {
+        studyId,
+        sessionId: session.id,
+        detail: `Category completed (${progress.completed}/${progress.target} sets)`,
+        metadata: { categoryId, sets: progress.completed, target: progress.target, thresholdMet: thresholdResult.isPublishable },
+      });
+
+      return NextResponse.json(
+        {
+          categoryComplete: true,
+          categoryId,
+          comparisonsInCategory: progress.completed,
+          targetComparisons: progress.target,
+          thresholdMet: thresholdResult.isPublishable,
+          dataStatus: thresholdResult.dataStatus,
+          allowContinuedVoting: study.allowContinuedVoting && !thresholdResult.isPublishable,
+        },
+        { headers: rateLimitHeaders }
+      );
+    }
+
+    // Rating model, plus cross-session exposure so under-exposed items and components catch up
+    const matchmakingOptions: MatchmakingOptions = {
+      useGlicko: usesGlicko,
+      globalExposure: await getGlobalExposure(studyId, categoryId, items.map((i) => i.id)),
+      minExposuresPerItem: study.minExposuresPerItem,
+    };
+
+    const set = selectNextChoiceSet(items, sessionComparisons, setSize, matchmakingOptions);
+
+    if (!set) {
+      return NextResponse.json(
+        { categoryComplete: true, noMoreItems: true },
+        { headers: rateLimitHeaders }
+      );
+    }
+
+    // Map items for response
+    const responseItems = set.positions.map((id) => {
+      const item = set.items.find((i) => i.id === id)!;
+      return {
+        id: item.id,
+        imageUrl: getParticipantImageUrl(studyId, { id: session.id, token: sessionToken }, item),
+        text: item.text,
+      };
+    });
+
+    return NextResponse.json(
+      {
+        mode: study.comparisonMode,
+        items: responseItems,
+        positions: set.positions,
+        categoryId,
+        progress: {
+          completed: progress.completed,
+          target: progress.target,
+          percentage: Math.min(99, Math.round((progress.completed / progress.target) * 100)),
+        },
+      },
+      { headers: rateLimitHeaders }
+    );
+  } catch (error) {
+    console.error('Next set error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
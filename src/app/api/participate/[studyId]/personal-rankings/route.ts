@@ -10,17 +10,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { isValidCuid, isValidSessionToken } from '@/lib/security/validation';
-
-const SUPABASE_STORAGE_URL = 'https://rdsozrebfjjoknqonvbk.supabase.co/storage/v1/object/public/izvrs-images';
-
-function buildImageUrl(imageKey: string | null): string | null {
-  if (!imageKey) return null;
-  const parts = imageKey.split('/');
-  if (parts[0] === 'izvrs' && parts.length === 3) {
-    return `${SUPABASE_STORAGE_URL}/${parts[1]}/${parts[2]}`;
-  }
-  return null;
-}
+import { getParticipantImageUrl, IMAGE_TOKEN_LONG_TTL_MS } from '@/lib/security/image-token';
 
 export async function GET(
   request: NextRequest,
@@ -101,7 +91,7 @@ export async function GET(
           .map((item) => ({
             id: item.id,
             externalId: item.externalId,
-            imageUrl: buildImageUrl(item.imageKey),
+            imageUrl: getParticipantImageUrl(studyId, session, item, IMAGE_TOKEN_LONG_TTL_MS),
             wins: winCounts.get(item.id) || 0,
           }))
           .sort((a, b) => b.wins - a.wins)
@@ -10,14 +10,20 @@
  * - Winner gets 3 ELO boosts (one vs each loser)
  * - Each loser gets 1 ELO penalty (vs the winner only)
  * - Losers do NOT compete against each other (no transitivity assumption)
+ *
+ * Recorded in a serializable transaction, retried on conflicts (see lib/voting/record).
+ * An optional idempotencyKey makes retried POSTs return the original result.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { calculateEloChange, calculateAdaptiveK } from '@/lib/ranking/elo';
-import { checkRateLimit, getRateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit';
-import { isValidCuid, isValidSessionToken } from '@/lib/security/validation';
+import { checkRateLimit, getRateLimitHeaders, getStudyRateLimit } from '@/lib/security/rate-limit';
+import { isValidCuid, isValidSessionToken, isValidIdempotencyKey } from '@/lib/security/validation';
 import { logActivity } from '@/lib/logging';
+import { scheduleBradleyTerryRefresh } from '@/lib/ranking/bt-refresh';
+import { scheduleRankingSnapshot } from '@/lib/ranking/convergence';
+import { runVoteTransaction, recordQuadVote } from '@/lib/voting/record';
+import { formatAlgoVersion, resolveMatchmakingConfig } from '@/lib/matchmaking/strategies';
 
 // Default thresholds (overridden by study settings)
 const DEFAULT_MIN_RESPONSE_TIME_MS = 500;
@@ -30,6 +36,7 @@ interface VoteQuadBody {
   positions: string[];    // Display order (for bias tracking)
   categoryId?: string;
   responseTimeMs?: number;
+  idempotencyKey?: string; // Client-generated; a retried POST returns the original result
 }
 
 export async function POST(
@@ -56,7 +63,7 @@ export async function POST(
       );
     }
 
-    const { sessionToken, itemIds, winnerId, positions, categoryId, responseTimeMs } = body;
+    const { sessionToken, itemIds, winnerId, positions, categoryId, responseTimeMs, idempotencyKey } = body;
 
     // Validate inputs
     if (!sessionToken || !isValidSessionToken(sessionToken)) {
@@ -87,8 +94,15 @@ export async function POST(
       );
     }
 
+    if (idempotencyKey !== undefined && !isValidIdempotencyKey(idempotencyKey)) {
+      return NextResponse.json(
+        { error: 'Invalid idempotency key', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
     // Rate limit
-    const rateLimit = checkRateLimit(sessionToken, RATE_LIMITS.vote);
+    const rateLimit = await checkRateLimit(sessionToken, await getStudyRateLimit(studyId, 'vote'));
     const rateLimitHeaders = getRateLimitHeaders(rateLimit);
 
     if (!rateLimit.success) {
@@ -112,6 +126,10 @@ export async function POST(
               minResponseTimeMs: true,
               maxResponseTimeMs: true,
               excludeFlaggedFromElo: true,
+              rankingMethod: true,
+              convergenceInterval: true,
+              glickoTau: true,
+              matchmakingConfig: true,
             },
           },
         },
@@ -146,7 +164,6 @@ export async function POST(
     }
 
     const winner = items.find((i) => i!.id === winnerId)!;
-    const losers = items.filter((i) => i!.id !== winnerId) as NonNullable<typeof items[0]>[];
 
     // Fraud detection using study's configurable thresholds
     const minResponseTime = session.study.minResponseTimeMs ?? DEFAULT_MIN_RESPONSE_TIME_MS;
@@ -169,132 +186,60 @@ export async function POST(
     const isTestSession = session.isTestSession;
     const effectiveCategoryId = categoryId || winner.categoryId;
 
-    // Transaction: create 3 comparison records and update ELO
-    const result = await prisma.$transaction(async (tx) => {
-      const comparisons = [];
-
-      // Create 3 comparison records (winner vs each loser)
-      for (let i = 0; i < losers.length; i++) {
-        const loser = losers[i];
-
-        // Determine positions based on display order
-        const winnerPos = positions.indexOf(winnerId);
-        const loserPos = positions.indexOf(loser.id);
-
-        const comparison = await tx.comparison.create({
-          data: {
-            studyId,
-            sessionId: session.id,
-            categoryId: effectiveCategoryId,
-            itemAId: winnerId,
-            itemBId: loser.id,
-            winnerId,
-            leftItemId: winnerPos < loserPos ? winnerId : loser.id,
-            rightItemId: winnerPos < loserPos ? loser.id : winnerId,
-            responseTimeMs: i === 0 ? responseTimeMs : null, // Only first gets response time
-            isFlagged: isTestSession ? true : isFlagged,
-            flagReason: isTestSession ? 'test_session' : flagReason,
-            algoVersion: 'sciblind-v2-quad',
-          },
-        });
-        comparisons.push(comparison);
-
-        // Update ELO for non-test sessions (and non-flagged if excludeFlaggedFromElo is enabled)
-        const shouldUpdateElo = !isTestSession && !(isFlagged && excludeFlaggedFromElo);
-        if (shouldUpdateElo) {
-          const effectiveK = session.study.adaptiveKFactor
-            ? calculateAdaptiveK(session.study.eloKFactor, winner.eloGames, loser.eloGames)
-            : session.study.eloKFactor;
-
-          const eloResult = calculateEloChange(
-            winner.eloRating,
-            loser.eloRating,
-            effectiveK
-          );
-
-          // Update winner (accumulate all 3 ELO gains)
-          await tx.item.update({
-            where: { id: winner.id },
-            data: {
-              eloRating: { increment: eloResult.winnerNewRating - winner.eloRating },
-              eloGames: { increment: 1 },
-              comparisonCount: { increment: 1 },
-              winCount: { increment: 1 },
-            },
-          });
-
-          // Update loser
-          await tx.item.update({
-            where: { id: loser.id },
-            data: {
-              eloRating: eloResult.loserNewRating,
-              eloGames: { increment: 1 },
-              comparisonCount: { increment: 1 },
-              lossCount: { increment: 1 },
-            },
-          });
-        } else if (!isTestSession) {
-          // Still update counts for flagged votes (when excludeFlaggedFromElo), just not ELO
-          await tx.item.update({
-            where: { id: winner.id },
-            data: {
-              comparisonCount: { increment: 1 },
-              winCount: { increment: 1 },
-            },
-          });
-          await tx.item.update({
-            where: { id: loser.id },
-            data: {
-              comparisonCount: { increment: 1 },
-              lossCount: { increment: 1 },
-            },
-          });
-        }
-
-        // Record usage metric (always, except for test sessions)
-        if (!isTestSession) {
-          await tx.usageMetrics.create({
-            data: {
-              studyId,
-              eventType: 'COMPARISON',
-              count: 1,
-            },
-          });
-        }
-      }
-
-      // Update session stats
-      const newComparisonCount = session.comparisonCount + 3; // 3 comparisons per quad
-      const validResponseTime = responseTimeMs !== undefined && responseTimeMs > 0;
-      const newAvgResponseTime =
-        validResponseTime && session.avgResponseTimeMs
-          ? Math.round(
-              (session.avgResponseTimeMs * session.comparisonCount + responseTimeMs) /
-                newComparisonCount
-            )
-          : validResponseTime
-            ? responseTimeMs
-            : session.avgResponseTimeMs;
+    // Record the vote in a serializable transaction (retried on conflicts)
+    const result = await runVoteTransaction(prisma, (tx) =>
+      recordQuadVote(tx, {
+        studyId,
+        sessionId: session.id,
+        categoryId: effectiveCategoryId,
+        itemIds,
+        winnerId,
+        positions,
+        responseTimeMs,
+        isFlagged,
+        flagReason,
+        isTestSession,
+        // Flagged votes don't affect ELO if excludeFlaggedFromElo is enabled
+        updateElo: !(isFlagged && excludeFlaggedFromElo),
+        updateGlicko: session.study.rankingMethod === 'GLICKO2' && !(isFlagged && excludeFlaggedFromElo),
+        glickoTau: session.study.glickoTau,
+        kFactor: session.study.eloKFactor,
+        adaptiveK: session.study.adaptiveKFactor,
+        algoVersion: formatAlgoVersion('quad', resolveMatchmakingConfig(session.study.matchmakingConfig)),
+        idempotencyKey,
+      })
+    );
 
-      await tx.session.update({
-        where: { id: session.id },
-        data: {
-          comparisonCount: newComparisonCount,
-          avgResponseTimeMs: newAvgResponseTime,
-          isFlagged: session.isFlagged || isFlagged,
-          flagReason: session.flagReason || flagReason,
+    // A retried request: answer like the original, without logging it again
+    if (result.status === 'replayed') {
+      return NextResponse.json(
+        {
+          success: true,
+          comparisonCount: 3,
+          sessionComparisonCount: result.sessionComparisonCount,
+          isTestMode: isTestSession,
+          replayed: true,
         },
-      });
+        { headers: rateLimitHeaders }
+      );
+    }
 
-      return comparisons;
-    });
+    // Bradley-Terry studies refit their persisted abilities in the background
+    if (session.study.rankingMethod === 'BRADLEY_TERRY' && !isTestSession && !(isFlagged && excludeFlaggedFromElo)) {
+      scheduleBradleyTerryRefresh(studyId);
+    }
+
+    // Studies with convergence monitoring snapshot their ranking every N votes
+    if (session.study.convergenceInterval && !isTestSession && !(isFlagged && excludeFlaggedFromElo)) {
+      scheduleRankingSnapshot(studyId);
+    }
 
     logActivity(isFlagged || isTestSession ? 'VOTE_FLAGGED' : 'VOTE_CAST', {
       studyId,
       sessionId: session.id,
       detail: `${isTestSession ? '[TEST] ' : ''}Quad vote: ${winnerId} won against 3 (${responseTimeMs ?? '?'}ms)`,
       metadata: {
-        comparisonIds: result.map((c) => c.id),
+        comparisonIds: result.comparisonIds,
         itemIds,
         winnerId,
         positions,
@@ -309,7 +254,7 @@ export async function POST(
       {
         success: true,
         comparisonCount: 3,
-        sessionComparisonCount: session.comparisonCount + 3,
+        sessionComparisonCount: result.sessionComparisonCount,
         isTestMode: isTestSession,
       },
       { headers: rateLimitHeaders }
@@ -0,0 +1,297 @@
+/**
+ * Vote Set API
+ *
+ * POST /api/participate/[studyId]/vote-set
+ *
+ * Records a ranking or best-worst vote on the set from next-set:
+ * - ranking: `ranking` lists the items best first (all of them, or only the top few)
+ * - best-worst: `bestId` and `worstId`
+ *
+ * The vote is stored as pairwise wins sharing a choiceGroupId (see
+ * lib/voting/choices): every ranked item beats the items below it, or the
+ * best item beats all others and all others beat the worst. Elo updates are
+ * computed against the ratings before the vote, like quad votes.
+ *
+ * Recorded in a serializable transaction, retried on conflicts (see lib/voting/record).
+ * An optional idempotencyKey makes retried POSTs return the original result.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { checkRateLimit, getRateLimitHeaders, getStudyRateLimit } from '@/lib/security/rate-limit';
+import { isValidCuid, isValidSessionToken, isValidIdempotencyKey } from '@/lib/security/validation';
+import { logActivity } from '@/lib/logging';
+import { scheduleBradleyTerryRefresh } from '@/lib/ranking/bt-refresh';
+import { scheduleRankingSnapshot } from '@/lib/ranking/convergence';
+import { runVoteTransaction, recordChoiceVote } from '@/lib/voting/record';
+import {
+  choiceSetEngineVersion,
+  decomposeChoiceSetVote,
+  isChoiceSetMode,
+  parseChoiceSetVote,
+} from '@/lib/voting/choices';
+
+// Default thresholds (overridden by study settings)
+const DEFAULT_MIN_RESPONSE_TIME_MS = 500;
+const DEFAULT_MAX_RESPONSE_TIME_MS = 300000;
+
+interface VoteSetBody {
+  sessionToken: string;
+  itemIds: string[];      // All shown item IDs
+  positions: string[];    // Display order (for bias tracking)
+  ranking?: string[];     // Ranking mode: best first
+  bestId?: string;        // Best-worst mode
+  worstId?: string;       // Best-worst mode
+  categoryId?: string;
+  responseTimeMs?: number;
+  idempotencyKey?: string; // Client-generated; a retried POST returns the original result
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ studyId: string }> }
+) {
+  try {
+    const { studyId } = await params;
+
+    if (!isValidCuid(studyId)) {
+      return NextResponse.json(
+        { error: 'Invalid study ID', errorKey: 'INVALID_STUDY_ID' },
+        { status: 400 }
+      );
+    }
+
+    let body: VoteSetBody;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON', errorKey: 'INVALID_JSON' },
+        { status: 400 }
+      );
+    }
+
+    const { sessionToken, itemIds, positions, categoryId, responseTimeMs, idempotencyKey } = body;
+
+    // Validate inputs
+    if (!sessionToken || !isValidSessionToken(sessionToken)) {
+      return NextResponse.json(
+        { error: 'Invalid session token', errorKey: 'INVALID_TOKEN' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(itemIds) || !itemIds.every(isValidCuid) || new Set(itemIds).size !== itemIds.length) {
+      return NextResponse.json(
+        { error: 'Invalid item IDs', errorKey: 'INVALID_ITEMS' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(positions) ||
+      positions.length !== itemIds.length ||
+      !itemIds.every((id) => positions.includes(id))
+    ) {
+      return NextResponse.json(
+        { error: 'positions must list the shown items', errorKey: 'INVALID_POSITIONS' },
+        { status: 400 }
+      );
+    }
+
+    if (idempotencyKey !== undefined && !isValidIdempotencyKey(idempotencyKey)) {
+      return NextResponse.json(
+        { error: 'Invalid idempotency key', errorKey: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    // Rate limit
+    const rateLimit = await checkRateLimit(sessionToken, await getStudyRateLimit(studyId, 'vote'));
+    const rateLimitHeaders = getRateLimitHeaders(rateLimit);
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Voting too fast', errorKey: 'RATE_LIMITED' },
+        { status: 429, headers: rateLimitHeaders }
+      );
+    }
+
+    const [session, items] = await Promise.all([
+      prisma.session.findUnique({
+        where: { token: sessionToken },
+        include: {
+          study: {
+            select: {
+              id: true,
+              comparisonMode: true,
+              choiceSetSize: true,
+              eloKFactor: true,
+              adaptiveKFactor: true,
+              minResponseTimeMs: true,
+              maxResponseTimeMs: true,
+              excludeFlaggedFromElo: true,
+              rankingMethod: true,
+              convergenceInterval: true,
+              glickoTau: true,
+            },
+          },
+        },
+      }),
+      prisma.item.findMany({
+        where: { id: { in: itemIds } },
+      }),
+    ]);
+
+    if (!session || session.studyId !== studyId) {
+      return NextResponse.json(
+        { error: 'Invalid session', errorKey: 'INVALID_SESSION' },
+        { status: 401, headers: rateLimitHeaders }
+      );
+    }
+
+    if (session.isCompleted) {
+      return NextResponse.json(
+        { error: 'Session completed', errorKey: 'SESSION_COMPLETED' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    const mode = session.study.comparisonMode;
+    if (!isChoiceSetMode(mode)) {
+      return NextResponse.json(
+        { error: 'Study does not use ranking or best-worst mode', errorKey: 'WRONG_COMPARISON_MODE' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    if (itemIds.length !== session.study.choiceSetSize) {
+      return NextResponse.json(
+        { error: `Must provide exactly ${session.study.choiceSetSize} item IDs`, errorKey: 'INVALID_ITEMS' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    if (items.length !== itemIds.length || items.some((item) => item.studyId !== studyId)) {
+      return NextResponse.json(
+        { error: 'Items not found or mismatch', errorKey: 'ITEMS_NOT_FOUND' },
+        { status: 404, headers: rateLimitHeaders }
+      );
+    }
+
+    const parsed = parseChoiceSetVote(mode, itemIds, body);
+    if (!parsed.valid) {
+      return NextResponse.json(
+        { error: parsed.error, errorKey: 'INVALID_RESPONSE' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+    const vote = parsed.data!;
+    const outcomes = decomposeChoiceSetVote(itemIds, vote);
+
+    // Fraud detection using study's configurable thresholds
+    const minResponseTime = session.study.minResponseTimeMs ?? DEFAULT_MIN_RESPONSE_TIME_MS;
+    const maxResponseTime = session.study.maxResponseTimeMs ?? DEFAULT_MAX_RESPONSE_TIME_MS;
+    const excludeFlaggedFromElo = session.study.excludeFlaggedFromElo ?? false;
+
+    let isFlagged = false;
+    let flagReason: string | null = null;
+
+    if (responseTimeMs !== undefined) {
+      if (responseTimeMs < minResponseTime) {
+        isFlagged = true;
+        flagReason = 'too_fast';
+      } else if (responseTimeMs > maxResponseTime) {
+        isFlagged = true;
+        flagReason = 'too_slow';
+      }
+    }
+
+    const isTestSession = session.isTestSession;
+    const effectiveCategoryId = categoryId || items[0].categoryId;
+
+    // Record the vote in a serializable transaction (retried on conflicts)
+    const result = await runVoteTransaction(prisma, (tx) =>
+      recordChoiceVote(tx, {
+        studyId,
+        sessionId: session.id,
+        categoryId: effectiveCategoryId,
+        itemIds,
+        positions,
+        outcomes,
+        responseTimeMs,
+        isFlagged,
+        flagReason,
+        isTestSession,
+        // Flagged votes don't affect ELO if excludeFlaggedFromElo is enabled
+        updateElo: !(isFlagged && excludeFlaggedFromElo),
+        updateGlicko: session.study.rankingMethod === 'GLICKO2' && !(isFlagged && excludeFlaggedFromElo),
+        glickoTau: session.study.glickoTau,
+        kFactor: session.study.eloKFactor,
+        adaptiveK: session.study.adaptiveKFactor,
+        algoVersion: choiceSetEngineVersion(mode),
+        idempotencyKey,
+      })
+    );
+
+    // A retried request: answer like the original, without logging it again
+    if (result.status === 'replayed') {
+      return NextResponse.json(
+        {
+          success: true,
+          comparisonCount: outcomes.length,
+          sessionComparisonCount: result.sessionComparisonCount,
+          isTestMode: isTestSession,
+          replayed: true,
+        },
+        { headers: rateLimitHeaders }
+      );
+    }
+
+    // Bradley-Terry studies refit their persisted abilities in the background
+    if (session.study.rankingMethod === 'BRADLEY_TERRY' && !isTestSession && !(isFlagged && excludeFlaggedFromElo)) {
+      scheduleBradleyTerryRefresh(studyId);
+    }
+
+    // Studies with convergence monitoring snapshot their ranking every N votes
+    if (session.study.convergenceInterval && !isTestSession && !(isFlagged && excludeFlaggedFromElo)) {
+      scheduleRankingSnapshot(studyId);
+    }
+
+    const detail = mode === 'ranking'
+      ? `Ranking vote: ${vote.ranking.length} of ${itemIds.length} ranked`
+      : `Best-worst vote: ${vote.ranking[0]} best, ${vote.worstId} worst`;
+    logActivity(isFlagged || isTestSession ? 'VOTE_FLAGGED' : 'VOTE_CAST', {
+      studyId,
+      sessionId: session.id,
+      detail: `${isTestSession ? '[TEST] ' : ''}${detail} (${responseTimeMs ?? '?'}ms)`,
+      metadata: {
+        comparisonIds: result.comparisonIds,
+        mode,
+        itemIds,
+        ranking: vote.ranking,
+        worstId: vote.worstId,
+        positions,
+        categoryId: effectiveCategoryId,
+        responseTimeMs,
+        isTestSession,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        comparisonCount: outcomes.length,
+        sessionComparisonCount: result.sessionComparisonCount,
+        isTestMode: isTestSession,
+      },
+      { headers: rateLimitHeaders }
+    );
+  } catch (error) {
+    console.error('Vote set error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', errorKey: 'SERVER_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,12 +5,25 @@
  *
  * Records a comparison vote and updates ELO ratings.
  *
+ * winnerId may be null ("no preference") and preferenceStrength may grade
+ * the choice, as far as the study's responseScale allows (see
+ * lib/voting/responses); anything else is rejected with INVALID_RESPONSE.
+ *
  * Security features:
  * - Rate limiting (60 votes per minute per session)
  * - Strict input validation
  * - Fraud detection (response time analysis)
  * - Full audit trail
  *
+ * Attention checks:
+ * - A vote on a pending gold or repeat pair answers the check instead of
+ *   recording a comparison, and updates the session's quality score
+ * - Later votes of a session flagged "low_quality" are flagged too
+ *
+ * Concurrency:
+ * - Recorded in a serializable transaction, retried on conflicts (see lib/voting/record)
+ * - Optional idempotencyKey: a retried POST returns the original result
+ *
  * Test mode:
  * - Test sessions do NOT update ELO ratings
  * - Test sessions do NOT update item stats
@@ -19,10 +32,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { calculateEloChange, calculateAdaptiveK } from '@/lib/ranking/elo';
-import { checkRateLimit, getRateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit';
+import { checkRateLimit, getRateLimitHeaders, getStudyRateLimit } from '@/lib/security/rate-limit';
 import { validateVoteRequest, isValidCuid } from '@/lib/security/validation';
 import { logActivity } from '@/lib/logging';
+import { scheduleBradleyTerryRefresh } from '@/lib/ranking/bt-refresh';
+import { scheduleRankingSnapshot } from '@/lib/ranking/convergence';
+import { runVoteTransaction, recordPairVote } from '@/lib/voting/record';
+import { formatAlgoVersion, resolveMatchmakingConfig } from '@/lib/matchmaking/strategies';
+import { checkVoteResponse } from '@/lib/voting/responses';
+import {
+  findAttentionCheckForVote,
+  recordAttentionCheckAnswer,
+  LOW_QUALITY_FLAG,
+} from '@/lib/voting/attention-checks';
 
 // Default thresholds (overridden by study settings)
 const DEFAULT_MIN_RESPONSE_TIME_MS = 500;
@@ -69,16 +91,18 @@ export async function POST(
       itemAId,
       itemBId,
       winnerId,
+      preferenceStrength,
       leftItemId,
       rightItemId,
       categoryId,
       responseTimeMs,
+      idempotencyKey,
     } = validation.data;
 
     sessionToken = token;
 
     // Rate limit by session token
-    const rateLimit = checkRateLimit(token, RATE_LIMITS.vote);
+    const rateLimit = await checkRateLimit(token, await getStudyRateLimit(studyId, 'vote'));
     const rateLimitHeaders = getRateLimitHeaders(rateLimit);
 
     if (!rateLimit.success) {
@@ -106,6 +130,15 @@ export async function POST(
               minResponseTimeMs: true,
               maxResponseTimeMs: true,
               excludeFlaggedFromElo: true,
+              rankingMethod: true,
+              convergenceInterval: true,
+              glickoTau: true,
+              matchmakingConfig: true,
+              responseScale: true,
+              goldCheckInterval: true,
+              repeatCheckInterval: true,
+              minQualityScore: true,
+              minQualityChecks: true,
             },
           },
         },
@@ -149,6 +182,14 @@ export async function POST(
       );
     }
 
+    const responseError = checkVoteResponse(session.study.responseScale, { winnerId, preferenceStrength });
+    if (responseError) {
+      return NextResponse.json(
+        { error: responseError, errorKey: 'INVALID_RESPONSE' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
     // Validate category if study has category separation
     if (session.study.hasCategorySeparation) {
       if (itemA.categoryId !== itemB.categoryId) {
@@ -159,21 +200,58 @@ export async function POST(
       }
     }
 
-    // Check for duplicate comparison — use count instead of findFirst for speed
-    const duplicateCount = await prisma.comparison.count({
-      where: {
-        sessionId: session.id,
-        OR: [
-          { itemAId, itemBId },
-          { itemAId: itemBId, itemBId: itemAId },
-        ],
-      },
+    // Check if this is a test session
+    const isTestSession = session.isTestSession;
+
+    // Gold and repeat pairs are answered as attention checks, never recorded as comparisons
+    const attentionCheck = await findAttentionCheckForVote(prisma, {
+      sessionId: session.id,
+      itemAId,
+      itemBId,
+      idempotencyKey,
     });
+    if (attentionCheck) {
+      const answer = attentionCheck.replayed
+        ? null
+        : await runVoteTransaction(prisma, (tx) =>
+            recordAttentionCheckAnswer(tx, {
+              checkId: attentionCheck.check.id,
+              sessionId: session.id,
+              winnerId,
+              responseTimeMs,
+              idempotencyKey,
+              settings: session.study,
+            })
+          );
+
+      if (answer) {
+        logActivity('ATTENTION_CHECK_ANSWERED', {
+          studyId,
+          sessionId: session.id,
+          detail: `${isTestSession ? '[TEST] ' : ''}${attentionCheck.check.kind} check ${answer.passed ? 'passed' : 'failed'}` +
+            (answer.flagged ? ` — session flagged (quality ${answer.qualityScore?.toFixed(2)})` : ''),
+          metadata: {
+            attentionCheckId: attentionCheck.check.id,
+            kind: attentionCheck.check.kind,
+            winnerId,
+            expectedWinnerId: attentionCheck.check.expectedWinnerId,
+            passed: answer.passed,
+            qualityScore: answer.qualityScore,
+            sessionFlagged: answer.flagged,
+            responseTimeMs,
+          },
+        });
+      }
 
-    if (duplicateCount > 0) {
       return NextResponse.json(
-        { error: 'This pair has already been compared', errorKey: 'DUPLICATE_COMPARISON' },
-        { status: 400, headers: rateLimitHeaders }
+        {
+          success: true,
+          flagged: false,
+          sessionComparisonCount: session.comparisonCount,
+          isTestMode: isTestSession,
+          ...(answer ? {} : { replayed: true }),
+        },
+        { headers: rateLimitHeaders }
       );
     }
 
@@ -195,142 +273,86 @@ export async function POST(
       }
     }
 
-    // Determine winner and loser
-    const winner = winnerId === itemAId ? itemA : itemB;
-    const loser = winnerId === itemAId ? itemB : itemA;
-
-    // Check if this is a test session
-    const isTestSession = session.isTestSession;
-
-    // Create comparison and update everything in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Create comparison record (always, even for test sessions - for UI flow)
-      const comparison = await tx.comparison.create({
-        data: {
-          studyId,
-          sessionId: session.id,
-          categoryId: categoryId || itemA.categoryId,
-          itemAId,
-          itemBId,
-          winnerId,
-          leftItemId,
-          rightItemId,
-          responseTimeMs: responseTimeMs ?? null,
-          isFlagged: isTestSession ? true : isFlagged, // Always flag test comparisons
-          flagReason: isTestSession ? 'test_session' : flagReason,
-          algoVersion: 'sciblind-v2',
-        },
-      });
-
-      // Update ELO and item stats for NON-test sessions (and non-flagged if excludeFlaggedFromElo is enabled)
-      const shouldUpdateElo = !isTestSession && !(isFlagged && excludeFlaggedFromElo);
-      if (shouldUpdateElo) {
-        // Calculate effective K-factor (adaptive or fixed)
-        const effectiveK = session.study.adaptiveKFactor
-          ? calculateAdaptiveK(session.study.eloKFactor, winner.eloGames, loser.eloGames)
-          : session.study.eloKFactor;
-
-        // Calculate ELO changes
-        const eloResult = calculateEloChange(
-          winner.eloRating,
-          loser.eloRating,
-          effectiveK
-        );
-
-        // Update winner stats
-        await tx.item.update({
-          where: { id: winner.id },
-          data: {
-            eloRating: eloResult.winnerNewRating,
-            eloGames: { increment: 1 },
-            comparisonCount: { increment: 1 },
-            winCount: { increment: 1 },
-            leftCount: leftItemId === winner.id ? { increment: 1 } : undefined,
-            rightCount: rightItemId === winner.id ? { increment: 1 } : undefined,
-          },
-        });
+    // Sessions flagged for failing attention checks have their later votes flagged too
+    if (!isFlagged && session.isFlagged && session.flagReason === LOW_QUALITY_FLAG) {
+      isFlagged = true;
+      flagReason = LOW_QUALITY_FLAG;
+    }
 
-        // Update loser stats
-        await tx.item.update({
-          where: { id: loser.id },
-          data: {
-            eloRating: eloResult.loserNewRating,
-            eloGames: { increment: 1 },
-            comparisonCount: { increment: 1 },
-            lossCount: { increment: 1 },
-            leftCount: leftItemId === loser.id ? { increment: 1 } : undefined,
-            rightCount: rightItemId === loser.id ? { increment: 1 } : undefined,
-          },
-        });
-      } else if (!isTestSession) {
-        // Still update counts for flagged votes (when excludeFlaggedFromElo), just not ELO
-        await tx.item.update({
-          where: { id: winner.id },
-          data: {
-            comparisonCount: { increment: 1 },
-            winCount: { increment: 1 },
-            leftCount: leftItemId === winner.id ? { increment: 1 } : undefined,
-            rightCount: rightItemId === winner.id ? { increment: 1 } : undefined,
-          },
-        });
-        await tx.item.update({
-          where: { id: loser.id },
-          data: {
-            comparisonCount: { increment: 1 },
-            lossCount: { increment: 1 },
-            leftCount: leftItemId === loser.id ? { increment: 1 } : undefined,
-            rightCount: rightItemId === loser.id ? { increment: 1 } : undefined,
-          },
-        });
-      }
+    // Record the vote in a serializable transaction (retried on conflicts).
+    // Duplicate and idempotency checks run inside it so concurrent retries can't double-count.
+    const result = await runVoteTransaction(prisma, (tx) =>
+      recordPairVote(tx, {
+        studyId,
+        sessionId: session.id,
+        categoryId: categoryId || itemA.categoryId,
+        itemAId,
+        itemBId,
+        winnerId,
+        preferenceStrength,
+        leftItemId,
+        rightItemId,
+        responseTimeMs,
+        isFlagged,
+        flagReason,
+        isTestSession,
+        // Flagged votes don't affect ELO if excludeFlaggedFromElo is enabled
+        updateElo: !(isFlagged && excludeFlaggedFromElo),
+        updateGlicko: session.study.rankingMethod === 'GLICKO2' && !(isFlagged && excludeFlaggedFromElo),
+        glickoTau: session.study.glickoTau,
+        kFactor: session.study.eloKFactor,
+        adaptiveK: session.study.adaptiveKFactor,
+        algoVersion: formatAlgoVersion('pair', resolveMatchmakingConfig(session.study.matchmakingConfig)),
+        idempotencyKey,
+      })
+    );
 
-      // Record usage metrics (only for real sessions)
-      if (!isTestSession) {
-        await tx.usageMetrics.create({
-          data: {
-            studyId,
-            eventType: 'COMPARISON',
-            count: 1,
-          },
-        });
-      }
+    if (result.status === 'duplicate') {
+      return NextResponse.json(
+        { error: 'This pair has already been compared', errorKey: 'DUPLICATE_COMPARISON' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
 
-      // Update session stats (for both test and real sessions - for UI progress)
-      const newComparisonCount = session.comparisonCount + 1;
-      const validResponseTime = responseTimeMs !== undefined && responseTimeMs > 0;
-      const newAvgResponseTime =
-        validResponseTime && session.avgResponseTimeMs
-          ? Math.round(
-              (session.avgResponseTimeMs * session.comparisonCount + responseTimeMs) /
-                newComparisonCount
-            )
-          : validResponseTime
-            ? responseTimeMs
-            : session.avgResponseTimeMs;
-
-      await tx.session.update({
-        where: { id: session.id },
-        data: {
-          comparisonCount: newComparisonCount,
-          avgResponseTimeMs: newAvgResponseTime,
-          isFlagged: session.isFlagged || isFlagged,
-          flagReason: session.flagReason || flagReason,
+    // A retried request: answer like the original, without logging it again
+    if (result.status === 'replayed') {
+      return NextResponse.json(
+        {
+          success: true,
+          comparisonId: result.comparisonIds[0],
+          flagged: isFlagged,
+          sessionComparisonCount: result.sessionComparisonCount,
+          isTestMode: isTestSession,
+          replayed: true,
         },
-      });
+        { headers: rateLimitHeaders }
+      );
+    }
 
-      return comparison;
-    });
+    // Bradley-Terry studies refit their persisted abilities in the background
+    if (session.study.rankingMethod === 'BRADLEY_TERRY' && !isTestSession && !(isFlagged && excludeFlaggedFromElo)) {
+      scheduleBradleyTerryRefresh(studyId);
+    }
+
+    // Studies with convergence monitoring snapshot their ranking every N votes
+    if (session.study.convergenceInterval && !isTestSession && !(isFlagged && excludeFlaggedFromElo)) {
+      scheduleRankingSnapshot(studyId);
+    }
 
     // Log the vote (fire-and-forget, non-blocking)
+    const choice = winnerId === null
+      ? 'no preference'
+      : `${winnerId === itemAId ? 'A' : 'B'} won${preferenceStrength ? ` (strength ${preferenceStrength})` : ''}`;
     logActivity(isFlagged || isTestSession ? 'VOTE_FLAGGED' : 'VOTE_CAST', {
       studyId,
       sessionId: session.id,
-      detail: `${isTestSession ? '[TEST] ' : ''}Vote: ${winnerId === itemAId ? 'A' : 'B'} won (${responseTimeMs ?? '?'}ms)`,
+      detail: `${isTestSession ? '[TEST] ' : ''}Vote: ${choice} (${responseTimeMs ?? '?'}ms)`,
       metadata: {
-        comparisonId: result.id,
+        comparisonId: result.comparisonIds[0],
         itemAId,
         itemBId,
         winnerId,
+        preferenceStrength,
         leftItemId,
         rightItemId,
         categoryId: categoryId || itemA.categoryId,
@@ -338,16 +360,16 @@ export async function POST(
         isFlagged,
         flagReason: isTestSession ? 'test_session' : flagReason,
         isTestSession,
-        sessionComparisonCount: session.comparisonCount + 1,
+        sessionComparisonCount: result.sessionComparisonCount,
       },
     });
 
     return NextResponse.json(
       {
         success: true,
-        comparisonId: result.id,
+        comparisonId: result.comparisonIds[0],
         flagged: isFlagged,
-        sessionComparisonCount: session.comparisonCount + 1,
+        sessionComparisonCount: result.sessionComparisonCount,
         isTestMode: isTestSession, // Let client know this is test mode
       },
       { headers: rateLimitHeaders }
@@ -10,41 +10,92 @@
  *
  * Enhanced in sciblind-v2 with:
  * - ratingStdError per item (Elo SE approximation)
- * - dataStatus per category ("insufficient" | "publishable" | "confirmation")
+ * - dataStatus per category ("insufficient" | "publishable" | "confirmation" | "converged")
  * - publishableThreshold with detailed pass/fail conditions
  * - graphConnected + componentCount
  * - circularTriadCount + transitivityIndex
  * - Bradley-Terry abilities (when requested via ?bt=true or study uses BT)
  * - algoVersion in response
+ *
+ * Studies with rankingMethod = BRADLEY_TERRY are ordered by the persisted
+ * Item.btAbility (refit first if votes are newer than the last fit), and
+ * admins get btStdError plus a 95% Fisher confidence interval (btCI95).
+ * For Elo studies ?bt=true still fits BT on demand.
+ *
+ * In quad, ranking and best-worst studies both the persisted and the
+ * on-demand fit use Plackett-Luce over grouped choices (best-of-4 picks,
+ * rankings, best-worst picks) instead of treating every winner-vs-loser row
+ * as an independent pair; admins see which model was used in study.btModel.
+ *
+ * GLICKO2 studies are ordered by glickoRating; ratingStdError is the item's
+ * rating deviation (not the count-based Elo approximation), admins get a
+ * 95% interval (glickoCI95), and the publishable threshold checks RDs.
+ *
+ * With targetTopN set, admins also get dataQuality.topNSeparation: whether
+ * the 95% intervals of the top N lie clear of everyone else's, scored with
+ * Bradley-Terry abilities and standard errors when available, otherwise with
+ * the study's rating and its SE/RD. Studies with separated categories rank
+ * (and fit) each category on its own scale, so without ?categoryId they get
+ * dataQuality.topNSeparationByCategory instead.
+ *
+ * Admins can add ?weighted=true for a reliability-weighted ranking next to
+ * the regular one: every session's votes are weighted by its evaluator's
+ * agreement with the consensus, transitivity and gold accuracy (see
+ * lib/ranking/reliability), and the same model (BT or Plackett-Luce) is
+ * refitted. weightedRankings lists the items in that order with their
+ * unweighted rank (both within each category when categories are
+ * separated, as each is fit on its own scale); reliability summarizes the
+ * session weights.
+ *
+ * Admins can add ?bootstrap=true for rank stability: sessions (or, with
+ * resample=comparison, single comparisons) are resampled, the study's model
+ * is refitted on each resample, and every item gets a 95% interval of its
+ * rank within its category (rankCI95), its median rank, the probability of
+ * being in the top N (pTopN) and a 95% interval of its score (see
+ * lib/ranking/bootstrap). bootstrap.model names the model refit on each
+ * resample: the Elo replay for Elo and Glicko-2 studies (Glicko-2 has no
+ * replay), Bradley-Terry or Plackett-Luce for BT studies. Results are
+ * seeded and cached per study. They are
+ * computed in the background: until the first result for the current votes
+ * is ready, bootstrap.status is "computing" and the items carry no stability
+ * fields; clients poll until it is "ready".
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { compareItemsForRanking, getConfidenceLevel } from '@/lib/ranking/elo';
-import { calculateEloStdError, isPublishableThreshold, checkGraphConnectivity, detectCircularTriads } from '@/lib/ranking/statistics';
-import { estimateBradleyTerry, btAbilityToEloScale } from '@/lib/ranking/bradley-terry';
+import {
+  calculateEloStdError,
+  isPublishableThreshold,
+  checkGraphConnectivity,
+  checkTopNSeparation,
+  detectCircularTriads,
+} from '@/lib/ranking/statistics';
+import {
+  estimateBradleyTerry,
+  btAbilityToEloScale,
+  btConfidenceInterval,
+  compareItemsByBradleyTerry,
+} from '@/lib/ranking/bradley-terry';
+import { buildChoiceObservations, estimatePlackettLuce } from '@/lib/ranking/plackett-luce';
+import { ensureBradleyTerryFresh } from '@/lib/ranking/bt-refresh';
+import { estimateSessionReliability, estimateWeightedAbilities, reliabilityWeights } from '@/lib/ranking/reliability';
+import { getRankStability } from '@/lib/ranking/bootstrap';
+import { pairOutcome } from '@/lib/voting/responses';
+import { usesGroupedChoices } from '@/lib/voting/choices';
+import { compareItemsByGlicko, glickoConfidenceInterval } from '@/lib/ranking/glicko2';
 import { logActivity } from '@/lib/logging';
+import { resolveImageUrl } from '@/lib/storage';
+import { getParticipantImageUrl, IMAGE_TOKEN_LONG_TTL_MS } from '@/lib/security/image-token';
+import { isValidSessionToken } from '@/lib/security/validation';
+import { getAuthenticatedUser, canAccessStudy } from '@/lib/security/user-auth';
 
 const ALGO_VERSION = 'sciblind-v2';
 
-/**
- * Check if the request comes from an authenticated admin.
- * We check both cookie and Authorization header (same logic as middleware).
- */
-function isAdminRequest(request: NextRequest): boolean {
-  const adminSecret = process.env.ADMIN_SECRET;
-  if (!adminSecret) return false;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader) {
-    const token = authHeader.replace(/^Bearer\s+/i, '');
-    if (token === adminSecret) return true;
-  }
-
-  const cookieToken = request.cookies.get('sciblind-admin-token')?.value;
-  if (cookieToken === adminSecret) return true;
-
-  return false;
+function roundInterval(interval: { lower: number; upper: number } | null, factor: number = 1000) {
+  return interval
+    ? { lower: Math.round(interval.lower * factor) / factor, upper: Math.round(interval.upper * factor) / factor }
+    : null;
 }
 
 export async function GET(
@@ -57,8 +108,14 @@ export async function GET(
     const categoryId = searchParams.get('categoryId');
     const topN = parseInt(searchParams.get('topN') || '0', 10);
     const includeBT = searchParams.get('bt') === 'true';
+    const includeWeighted = searchParams.get('weighted') === 'true';
+    const includeBootstrap = searchParams.get('bootstrap') === 'true';
+    const resampleUnit = searchParams.get('resample') === 'comparison' ? 'comparison' : 'session';
+    const sessionToken = searchParams.get('token');
 
-    const isAdmin = isAdminRequest(request);
+    // Admins with access to this study see everything; anyone else is a participant
+    const adminUser = await getAuthenticatedUser(request);
+    const isAdmin = !!adminUser && (await canAccessStudy(adminUser, studyId));
 
     // Get study with categories
     const study = await prisma.study.findUnique({
@@ -85,6 +142,22 @@ export async function GET(
       );
     }
 
+    // Participants only get signed proxy URLs for their own session — never storage URLs
+    const participantSession = !isAdmin && isValidSessionToken(sessionToken)
+      ? await prisma.session.findFirst({
+          where: { token: sessionToken, studyId },
+          select: { id: true, token: true },
+        })
+      : null;
+
+    // BT studies rank by the persisted fit, so bring it up to date first
+    const usesBT = study.rankingMethod === 'BRADLEY_TERRY';
+    const usesGlicko = study.rankingMethod === 'GLICKO2';
+    const usesPlackettLuce = usesGroupedChoices(study.comparisonMode);
+    if (usesBT) {
+      await ensureBradleyTerryFresh(studyId, study.btUpdatedAt);
+    }
+
     // Build query
     const itemQuery = {
       studyId,
@@ -108,11 +181,14 @@ export async function GET(
       select: {
         id: true,
         winnerId: true,
+        preferenceStrength: true,
         itemAId: true,
         itemBId: true,
         isFlagged: true,
         flagReason: true,
         categoryId: true,
+        choiceGroupId: true,
+        sessionId: true,
       },
     });
 
@@ -122,41 +198,52 @@ export async function GET(
     );
 
     // Sort items by ranking criteria
-    const sortedItems = items.sort(compareItemsForRanking);
+    const sortedItems = items.sort(
+      usesBT ? compareItemsByBradleyTerry : usesGlicko ? compareItemsByGlicko : compareItemsForRanking
+    );
 
     // Apply topN limit if specified
     const rankedItems = topN > 0 ? sortedItems.slice(0, topN) : sortedItems;
 
-    // Compute Bradley-Terry if requested or if study uses BT method
+    // Bradley-Terry: persisted for BT studies, fitted on demand if requested
     let btResults: Map<string, { ability: number; se: number }> | null = null;
-    if (includeBT || study.rankingMethod === 'BRADLEY_TERRY') {
-      const btComparisons = validComparisons.map((c) => ({
-        winnerId: c.winnerId,
-        loserId: c.winnerId === c.itemAId ? c.itemBId : c.itemAId,
-      }));
-
-      if (btComparisons.length > 0) {
-        const btResult = estimateBradleyTerry(btComparisons);
-        btResults = new Map();
-        for (const item of items) {
-          const ability = btResult.abilities.get(item.id) ?? 0;
-          const se = btResult.standardErrors.get(item.id) ?? Infinity;
-          btResults.set(item.id, { ability, se });
-        }
+    if (usesBT) {
+      btResults = new Map(
+        items.map((item) => [item.id, { ability: item.btAbility, se: item.btStdError ?? Infinity }]),
+      );
+    } else if (includeBT && validComparisons.length > 0) {
+      const btResult = usesPlackettLuce
+        ? estimatePlackettLuce(buildChoiceObservations(validComparisons))
+        : estimateBradleyTerry(validComparisons.map(pairOutcome));
+
+      btResults = new Map();
+      for (const item of items) {
+        const ability = btResult.abilities.get(item.id) ?? 0;
+        const se = btResult.standardErrors.get(item.id) ?? Infinity;
+        btResults.set(item.id, { ability, se });
       }
     }
 
+    // Bootstrap rank stability (admins, on request)
+    const stability = isAdmin && includeBootstrap ? await getRankStability(studyId, resampleUnit) : null;
+
     // Format response — strip sensitive fields for non-admin access
     const rankings = rankedItems.map((item, index) => {
-      const stdError = calculateEloStdError(item.comparisonCount);
+      const stdError = usesGlicko ? item.glickoRd : calculateEloStdError(item.comparisonCount);
       const btData = btResults?.get(item.id);
+      const itemStability = stability?.result?.items.get(item.id);
 
       const base = {
         rank: index + 1,
         id: item.id,
         categoryId: item.categoryId,
         categoryName: item.category?.name,
-        imageKey: item.imageKey, // For thumbnail display in rankings
+        // For thumbnail display in rankings
+        imageUrl: isAdmin
+          ? resolveImageUrl(item)
+          : participantSession
+            ? getParticipantImageUrl(studyId, participantSession, item, IMAGE_TOKEN_LONG_TTL_MS)
+            : null,
         eloRating: Math.round(item.eloRating * 10) / 10,
         comparisonCount: item.comparisonCount,
         winCount: item.winCount,
@@ -166,6 +253,8 @@ export async function GET(
             ? Math.round((item.winCount / item.comparisonCount) * 100)
             : 0,
         confidence: getConfidenceLevel(item.comparisonCount),
+        ...(usesBT ? { btAbility: Math.round(item.btAbility * 1000) / 1000 } : {}),
+        ...(usesGlicko ? { glickoRating: Math.round(item.glickoRating * 10) / 10 } : {}),
       };
 
       // Admin-only fields: externalId, label, artistRank, artistEloBoost,
@@ -184,12 +273,30 @@ export async function GET(
             item.leftCount + item.rightCount > 0
               ? Math.round((item.leftCount / (item.leftCount + item.rightCount)) * 100)
               : 50,
+          ...(usesGlicko
+            ? {
+                glickoRd: Math.round(item.glickoRd * 10) / 10,
+                glickoVolatility: Math.round(item.glickoVolatility * 10000) / 10000,
+                glickoCI95: roundInterval(glickoConfidenceInterval(item.glickoRating, item.glickoRd), 10),
+              }
+            : {}),
           // Bradley-Terry results (if computed)
           ...(btData
             ? {
                 btAbility: Math.round(btData.ability * 1000) / 1000,
                 btEloScale: Math.round(btAbilityToEloScale(btData.ability) * 10) / 10,
                 btStdError: isFinite(btData.se) ? Math.round(btData.se * 1000) / 1000 : null,
+                btCI95: roundInterval(btConfidenceInterval(btData.ability, btData.se)),
+              }
+            : {}),
+          ...(itemStability
+            ? {
+                rankCI95: itemStability.rankCI95,
+                medianRank: itemStability.medianRank,
+                pTopN: Math.round(itemStability.pTopN * 1000) / 1000,
+                scoreCI95: isFinite(itemStability.scoreCI95.lower)
+                  ? roundInterval(itemStability.scoreCI95, stability!.result!.method === 'elo' ? 10 : 1000)
+                  : null,
               }
             : {}),
         };
@@ -224,20 +331,138 @@ export async function GET(
     // Circular triad detection
     const transitivity = detectCircularTriads(validComparisons);
 
-    // Publishable threshold check
+    // Publishable threshold check (plus top-N separation on the BT scale when fitted)
+    const separationScale = btResults ? 'bradley-terry' : usesGlicko ? 'glicko2' : 'elo';
+    const scored = sortedItems.map((i) => ({
+      id: i.id,
+      categoryId: i.categoryId,
+      score: btResults ? btResults.get(i.id)!.ability : usesGlicko ? i.glickoRating : i.eloRating,
+      stdError: btResults
+        ? btResults.get(i.id)!.se
+        : usesGlicko ? i.glickoRd : calculateEloStdError(i.comparisonCount),
+    }));
+    // Separated categories are ranked on separate scales: check each category on its own
+    const separateByCategory = study.hasCategorySeparation && !categoryId;
     const thresholdResult = isPublishableThreshold(
-      items.map((i) => ({ id: i.id, comparisonCount: i.comparisonCount })),
+      sortedItems.map((i, index) => ({
+        id: i.id,
+        comparisonCount: i.comparisonCount,
+        ratingDeviation: usesGlicko ? i.glickoRd : null,
+        ...(separateByCategory ? {} : { score: scored[index].score, stdError: scored[index].stdError }),
+      })),
       validComparisons,
       {
         minExposuresPerItem: study.minExposuresPerItem,
         minTotalComparisons: study.minTotalComparisons,
+        maxRatingDeviation: usesGlicko ? study.maxRatingDeviation : null,
+        targetTopN: study.targetTopN,
+        converged: study.convergedAt !== null,
       },
     );
+    const topNSeparation = thresholdResult.conditions.topNSeparation;
+
+    let categorySeparation: Record<string, unknown>[] | null = null;
+    if (separateByCategory && study.targetTopN) {
+      const byCategory = new Map<string | null, typeof scored>();
+      for (const item of scored) {
+        byCategory.set(item.categoryId, [...(byCategory.get(item.categoryId) ?? []), item]);
+      }
+      categorySeparation = [];
+      for (const [itemCategoryId, categoryItems] of byCategory) {
+        const separation = checkTopNSeparation(
+          [...categoryItems].sort((a, b) => b.score - a.score),
+          study.targetTopN,
+        );
+        if (!separation) continue;
+        categorySeparation.push({
+          categoryId: itemCategoryId,
+          separated: separation.separated,
+          topN: separation.topN,
+          contestedItems: separation.contestedItemIds.length,
+          gap: isFinite(separation.gap) ? Math.round(separation.gap * 1000) / 1000 : null,
+          scale: separationScale,
+        });
+      }
+    }
+
+    // Reliability-weighted ranking (admins, on request)
+    let weightedRankings: Record<string, unknown>[] | null = null;
+    let reliabilitySummary: Record<string, unknown> | null = null;
+    if (isAdmin && includeWeighted && validComparisons.length > 0) {
+      const goldAnswers = await prisma.attentionCheck.findMany({
+        where: {
+          studyId,
+          kind: 'gold',
+          answeredAt: { not: null },
+          ...(categoryId ? { categoryId } : {}),
+        },
+        select: { sessionId: true, passed: true },
+      });
+
+      const reliability = estimateSessionReliability(validComparisons, goldAnswers);
+      const weights = reliabilityWeights(reliability);
+      // Separated categories are fit on their own scales, so they are also ranked separately
+      const separate = study.hasCategorySeparation;
+      const weightedFit = estimateWeightedAbilities(
+        validComparisons,
+        weights,
+        usesPlackettLuce,
+        separate ? new Map(items.map((item) => [item.id, item.categoryId])) : undefined,
+      );
+
+      const rankGroups = new Map<string, typeof sortedItems>();
+      for (const item of sortedItems) {
+        const key = separate ? item.categoryId ?? '' : '';
+        const group = rankGroups.get(key) ?? [];
+        group.push(item);
+        rankGroups.set(key, group);
+      }
+
+      const abilityOf = (id: string) => weightedFit?.abilities.get(id) ?? -Infinity;
+      weightedRankings = [];
+      for (const group of rankGroups.values()) {
+        const unweightedRank = new Map(group.map((item, index) => [item.id, index + 1]));
+        const weightedItems = [...group].sort((a, b) =>
+          abilityOf(a.id) === abilityOf(b.id) ? 0 : abilityOf(b.id) > abilityOf(a.id) ? 1 : -1,
+        );
+
+        for (const [index, item] of (topN > 0 ? weightedItems.slice(0, topN) : weightedItems).entries()) {
+          const ability = weightedFit?.abilities.get(item.id);
+          const se = weightedFit?.standardErrors.get(item.id) ?? Infinity;
+          weightedRankings.push({
+            rank: index + 1,
+            unweightedRank: unweightedRank.get(item.id),
+            id: item.id,
+            externalId: item.externalId,
+            label: item.label,
+            categoryId: item.categoryId,
+            ability: ability !== undefined ? Math.round(ability * 1000) / 1000 : null,
+            stdError: isFinite(se) ? Math.round(se * 1000) / 1000 : null,
+            ci95: ability !== undefined ? roundInterval(btConfidenceInterval(ability, se)) : null,
+          });
+        }
+      }
+
+      const sessionWeights = Array.from(weights.values());
+      reliabilitySummary = {
+        model: 'crowd-bt',
+        fitModel: usesPlackettLuce ? 'plackett-luce' : 'bradley-terry',
+        sessionCount: sessionWeights.length,
+        meanWeight: sessionWeights.length > 0
+          ? Math.round((sessionWeights.reduce((sum, w) => sum + w, 0) / sessionWeights.length) * 1000) / 1000
+          : null,
+        downweightedSessions: sessionWeights.filter((w) => w < 0.5).length,
+        excludedSessions: sessionWeights.filter((w) => w === 0).length,
+        goldAnswers: goldAnswers.length,
+        converged: reliability.converged,
+      };
+    }
 
     logActivity('RANKINGS_VIEWED', {
       studyId,
+      userId: isAdmin ? adminUser?.id : undefined,
       detail: `Rankings viewed (${validComparisons.length} valid comparisons, admin=${isAdmin})`,
-      metadata: { categoryId: categoryId || null, includeBT, isAdmin },
+      metadata: { categoryId: categoryId || null, includeBT, includeWeighted, includeBootstrap, isAdmin },
     });
 
     // Build response — admin gets full details, participants get limited view
@@ -250,6 +475,8 @@ export async function GET(
           rankingMethod: study.rankingMethod,
           targetTopN: study.targetTopN,
           minExposuresPerItem: study.minExposuresPerItem,
+          ...(usesGlicko ? { maxRatingDeviation: study.maxRatingDeviation } : {}),
+          ...(btResults ? { btModel: usesPlackettLuce ? 'plackett-luce' : 'bradley-terry' } : {}),
           adaptiveKFactor: study.adaptiveKFactor,
         } : {}),
       },
@@ -261,6 +488,22 @@ export async function GET(
       })),
       selectedCategory: categoryId,
       rankings,
+      ...(weightedRankings ? { weightedRankings, reliability: reliabilitySummary } : {}),
+      ...(stability
+        ? {
+            bootstrap: stability.result
+              ? {
+                  status: stability.status,
+                  method: stability.result.method,
+                  model: stability.result.model,
+                  resample: stability.result.unit,
+                  replicates: stability.result.replicates,
+                  seed: stability.result.seed,
+                  topN: stability.result.topN,
+                }
+              : { status: stability.status },
+          }
+        : {}),
     };
 
     // Admin-only: full stats and data quality diagnostics
@@ -288,6 +531,16 @@ export async function GET(
             ? Math.round(transitivity.transitivityIndex * 1000) / 1000
             : null,
         totalTriads: transitivity.totalTriads,
+        topNSeparation: topNSeparation
+          ? {
+              separated: topNSeparation.met,
+              topN: topNSeparation.topN,
+              contestedItems: topNSeparation.contestedItems,
+              gap: isFinite(topNSeparation.gap) ? Math.round(topNSeparation.gap * 1000) / 1000 : null,
+              scale: separationScale,
+            }
+          : null,
+        ...(categorySeparation ? { topNSeparationByCategory: categorySeparation } : {}),
       };
     } else {
       // Participant view: minimal stats
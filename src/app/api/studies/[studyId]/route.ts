@@ -33,6 +33,7 @@ export async function GET(
         comparisonsPerParticipant: true,
         // Comparison mode
         comparisonMode: true,
+        responseScale: true,
         // UI Customization
         uiThemeColor: true,
         uiLogoPosition: true,
@@ -28,6 +28,7 @@ const translations = {
     error: 'Prišlo je do napake',
     studyNotFound: 'Študija ni bila najdena',
     studyInactive: 'Študija ni aktivna',
+    studyConverged: 'Študija je zbrala dovolj glasov',
     welcome: 'Dobrodošli',
     poweredBy: 'Poganja',
   },
@@ -44,6 +45,7 @@ const translations = {
     error: 'An error occurred',
     studyNotFound: 'Study not found',
     studyInactive: 'Study is not active',
+    studyConverged: 'This study has collected enough votes',
     welcome: 'Welcome',
     poweredBy: 'Powered by',
   },
@@ -123,6 +125,7 @@ export default function StudyEntryPage() {
           CODE_INACTIVE: t.codeInactive,
           STUDY_NOT_FOUND: t.studyNotFound,
           STUDY_INACTIVE: t.studyInactive,
+          STUDY_CONVERGED: t.studyConverged,
         };
         setError(errorMessages[data.errorKey] || data.error || t.error);
         setIsSubmitting(false);
@@ -2,14 +2,20 @@
 
 import { useState, useEffect, useCallback, useRef, useMemo, Suspense } from 'react';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
-import { ThumbsUp, Check, ChevronRight, X } from 'lucide-react';
+import { ThumbsUp, ThumbsDown, Check, ChevronRight, ChevronUp, ChevronDown, X } from 'lucide-react';
+import {
+  allowsNoPreference,
+  usesPreferenceStrength,
+  PREFERENCE_STRENGTH_SLIGHT,
+  PREFERENCE_STRENGTH_STRONG,
+} from '@/lib/voting/responses';
+import { isChoiceSetMode } from '@/lib/voting/choices';
 
 // ========== Types ==========
 
 interface ItemData {
   id: string;
   imageUrl?: string;
-  imageKey?: string;
   text?: string;
 }
 
@@ -124,10 +130,28 @@ const translations = {
     // Quadruplet mode
     selectBest: 'Izberite najboljšo sliko od štirih.',
     tapBestImage: 'Pritisnite na sliko, ki se vam zdi najboljša',
+    // Ranking and best-worst modes
+    rankImages: 'Pritiskajte slike od najboljše navzdol. Vrstni red lahko spremenite s povlekom.',
+    yourRanking: 'Vaša razvrstitev',
+    submitRanking: 'Potrdi razvrstitev',
+    clearRanking: 'Počisti',
+    pickBestWorst: 'Izberite najboljšo in najslabšo sliko.',
+    best: 'Najboljša',
+    worst: 'Najslabša',
+    submitChoice: 'Potrdi izbor',
     // Side-by-side rankings
     yourPicks: 'Vaši izbori',
     overall: 'Skupni rezultati',
     viewRankings: 'Poglej rezultate',
+    // Response scales
+    noPreference: 'Brez preference',
+    aboutTheSame: 'Približno enako',
+    leftBetter: 'Leva je boljša',
+    rightBetter: 'Desna je boljša',
+    leftMuchBetter: 'Leva je veliko boljša',
+    leftSlightlyBetter: 'Leva je malo boljša',
+    rightSlightlyBetter: 'Desna je malo boljša',
+    rightMuchBetter: 'Desna je veliko boljša',
   },
   en: {
     selectImage: 'Select the image you prefer.',
@@ -173,18 +197,36 @@ const translations = {
     // Quadruplet mode
     selectBest: 'Select the best image from the four.',
     tapBestImage: 'Tap the image you think is best',
+    // Ranking and best-worst modes
+    rankImages: 'Tap the images from best down. Drag to change the order.',
+    yourRanking: 'Your ranking',
+    submitRanking: 'Submit ranking',
+    clearRanking: 'Clear',
+    pickBestWorst: 'Select the best and the worst image.',
+    best: 'Best',
+    worst: 'Worst',
+    submitChoice: 'Submit choice',
     // Side-by-side rankings
     yourPicks: 'Your picks',
     overall: 'Overall results',
     viewRankings: 'View rankings',
+    // Response scales
+    noPreference: 'No preference',
+    aboutTheSame: 'About the same',
+    leftBetter: 'Left is better',
+    rightBetter: 'Right is better',
+    leftMuchBetter: 'Left is much better',
+    leftSlightlyBetter: 'Left is slightly better',
+    rightSlightlyBetter: 'Right is slightly better',
+    rightMuchBetter: 'Right is much better',
   },
 };
 
 // ========== Constants ==========
 
-const SUPABASE_STORAGE_URL = 'https://rdsozrebfjjoknqonvbk.supabase.co/storage/v1/object/public/izvrs-images';
 const VOTE_ANIMATION_DURATION = 400; // ms — keep short, next pair is already ready
 const CHECKPOINT_PERCENTAGES = [25, 50, 75, 100];
+const VOTE_SUBMIT_ATTEMPTS = 3; // 1 try + 2 retries on network/server errors
 
 const DEFAULT_UI_CONFIG: UIConfig = {
   themeColor: '#2563EB',
@@ -198,14 +240,7 @@ const DEFAULT_UI_CONFIG: UIConfig = {
 // ========== Image URL helper (static, no hook needed) ==========
 
 function buildImageUrl(item: ItemData): string {
-  if (item.imageKey) {
-    const parts = item.imageKey.split('/');
-    if (parts[0] === 'izvrs' && parts.length === 3) {
-      return `${SUPABASE_STORAGE_URL}/${parts[1]}/${parts[2]}`;
-    }
-  }
-  if (item.imageUrl) return item.imageUrl;
-  return '/placeholder.webp';
+  return item.imageUrl || '/placeholder.webp';
 }
 
 /** Preload a single image into browser cache, resolves when loaded or after 4s */
@@ -227,6 +262,35 @@ function preloadPairImages(pairData: PairData): Promise<void> {
   ]).then(() => {});
 }
 
+// ========== Vote submission ==========
+
+/**
+ * POST a vote, retrying network and server errors. Every attempt carries the
+ * same idempotency key, so the server records the vote at most once.
+ * Resolves to whether the vote was accepted.
+ */
+async function submitVote(url: string, payload: Record<string, unknown>): Promise<boolean> {
+  const body = JSON.stringify({ ...payload, idempotencyKey: crypto.randomUUID() });
+
+  for (let attempt = 1; attempt <= VOTE_SUBMIT_ATTEMPTS; attempt++) {
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      });
+      if (res.ok) return true;
+      if (res.status < 500) return false; // Client errors won't succeed on retry
+    } catch {
+      // Network error — retry
+    }
+    if (attempt < VOTE_SUBMIT_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, 300 * attempt));
+    }
+  }
+  return false;
+}
+
 // ========== Progress Bar Component ==========
 
 function ProgressBar({ completed, target, themeColor }: { completed: number; target: number; themeColor: string }) {
@@ -385,38 +449,31 @@ function ConfettiCelebration({ themeColor }: { themeColor: string }) {
 
 // ========== Category Thumbnail Grid — with skeleton loading ==========
 
-function ThumbnailGrid({ imageKeys, isComplete }: { imageKeys: string[]; isComplete: boolean }) {
+function ThumbnailGrid({ imageUrls, isComplete }: { imageUrls: string[]; isComplete: boolean }) {
   const [loadedCount, setLoadedCount] = useState(0);
-  const totalImages = Math.min(6, imageKeys.length);
+  const totalImages = Math.min(6, imageUrls.length);
   const allLoaded = loadedCount >= totalImages;
 
   return (
     <div className={`grid grid-cols-3 gap-1 rounded-lg overflow-hidden ${isComplete ? 'opacity-50 grayscale' : ''}`}>
-      {imageKeys.slice(0, 6).map((key, i) => {
-        const parts = key.split('/');
-        const url =
-          parts[0] === 'izvrs' && parts.length === 3
-            ? `${SUPABASE_STORAGE_URL}/${parts[1]}/${parts[2]}`
-            : key;
-        return (
-          <div key={i} className="relative w-full aspect-square bg-slate-700">
-            {/* Skeleton shimmer underneath */}
-            {!allLoaded && (
-              <div className="absolute inset-0 bg-slate-700 animate-pulse" />
-            )}
-            {/* eslint-disable-next-line @next/next/no-img-element */}
-            <img
-              src={url}
-              alt=""
-              loading="eager"
-              onLoad={() => setLoadedCount(c => c + 1)}
-              className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-300 ${allLoaded ? 'opacity-100' : 'opacity-0'}`}
-            />
-          </div>
-        );
-      })}
-      {imageKeys.length < 6 &&
-        Array.from({ length: 6 - imageKeys.length }).map((_, i) => (
+      {imageUrls.slice(0, 6).map((url, i) => (
+        <div key={i} className="relative w-full aspect-square bg-slate-700">
+          {/* Skeleton shimmer underneath */}
+          {!allLoaded && (
+            <div className="absolute inset-0 bg-slate-700 animate-pulse" />
+          )}
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={url}
+            alt=""
+            loading="eager"
+            onLoad={() => setLoadedCount(c => c + 1)}
+            className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-300 ${allLoaded ? 'opacity-100' : 'opacity-0'}`}
+          />
+        </div>
+      ))}
+      {imageUrls.length < 6 &&
+        Array.from({ length: 6 - imageUrls.length }).map((_, i) => (
           <div key={`placeholder-${i}`} className="w-full aspect-square bg-slate-700" />
         ))}
     </div>
@@ -550,11 +607,19 @@ function VotingPageContent() {
   const [rankingsModalCategoryId, setRankingsModalCategoryId] = useState<string | null>(null);
   // Quadruplet mode state
   const [quad, setQuad] = useState<QuadData | null>(null);
+  // Ranking mode: items picked so far, best first; best-worst mode: the two picks
+  const [setRanking, setSetRanking] = useState<string[]>([]);
+  const [bestId, setBestId] = useState<string | null>(null);
+  const [worstId, setWorstId] = useState<string | null>(null);
+  const dragIndexRef = useRef<number | null>(null);
 
   useEffect(() => { setIsHydrated(true); }, []);
 
   // Check if we're in quad mode
   const isQuadMode = study?.comparisonMode === 'quad';
+  // Ranking and best-worst modes show a set of items through the same flow as quads
+  const isSetMode = isChoiceSetMode(study?.comparisonMode);
+  const usesItemSets = isQuadMode || isSetMode;
 
   // Refs
   const startTimeRef = useRef<number>(Date.now());
@@ -576,6 +641,35 @@ function VotingPageContent() {
   const lang = (study?.language || 'sl') as keyof typeof translations;
   const t = useMemo(() => translations[lang] || translations.sl, [lang]);
 
+  // Pair response scale: clicking an image is a plain (or, on graded-5, strong) preference
+  const responseScale: string = study?.responseScale || 'binary';
+  const noPreferenceAllowed = !usesItemSets && allowsNoPreference(responseScale);
+  const choiceStrength = usesPreferenceStrength(responseScale) ? PREFERENCE_STRENGTH_STRONG : null;
+  const responseButtons = useMemo<{ label: string; winnerId: string | null; preferenceStrength: number | null }[]>(() => {
+    if (!pair || usesItemSets) return [];
+    const noPreference = { winnerId: null, preferenceStrength: null };
+    switch (responseScale) {
+      case 'ties':
+        return [{ label: t.noPreference, ...noPreference }];
+      case 'graded-3':
+        return [
+          { label: t.leftBetter, winnerId: pair.leftItemId, preferenceStrength: null },
+          { label: t.aboutTheSame, ...noPreference },
+          { label: t.rightBetter, winnerId: pair.rightItemId, preferenceStrength: null },
+        ];
+      case 'graded-5':
+        return [
+          { label: t.leftMuchBetter, winnerId: pair.leftItemId, preferenceStrength: PREFERENCE_STRENGTH_STRONG },
+          { label: t.leftSlightlyBetter, winnerId: pair.leftItemId, preferenceStrength: PREFERENCE_STRENGTH_SLIGHT },
+          { label: t.aboutTheSame, ...noPreference },
+          { label: t.rightSlightlyBetter, winnerId: pair.rightItemId, preferenceStrength: PREFERENCE_STRENGTH_SLIGHT },
+          { label: t.rightMuchBetter, winnerId: pair.rightItemId, preferenceStrength: PREFERENCE_STRENGTH_STRONG },
+        ];
+      default:
+        return [];
+    }
+  }, [pair, usesItemSets, responseScale, t]);
+
   /**
    * Check if the user just crossed a checkpoint boundary.
    * Returns the checkpoint percentage if yes, null otherwise.
@@ -593,16 +687,17 @@ function VotingPageContent() {
 
   // Fetch thumbnails
   const fetchThumbnails = useCallback(async () => {
+    if (!token) return;
     setThumbnailsLoading(true);
     try {
-      const res = await fetch(`/api/participate/${studyId}/category-thumbnails`);
+      const res = await fetch(`/api/participate/${studyId}/category-thumbnails?token=${token}`);
       if (res.ok) {
         const data = await res.json();
         setCategoryThumbnails(data.categories || {});
       }
     } catch { /* non-critical */ }
     setThumbnailsLoading(false);
-  }, [studyId]);
+  }, [studyId, token]);
 
   // Fetch personal rankings when session is complete
   const fetchPersonalRankings = useCallback(async () => {
@@ -621,7 +716,7 @@ function VotingPageContent() {
   // Fetch global rankings for side-by-side comparison
   const fetchGlobalRankings = useCallback(async () => {
     try {
-      const res = await fetch(`/api/studies/${studyId}/rankings`);
+      const res = await fetch(`/api/studies/${studyId}/rankings${token ? `?token=${token}` : ''}`);
       if (res.ok) {
         const data = await res.json();
         // Transform to CategoryRanking format - top 10 per category (expandable from 4)
@@ -631,16 +726,16 @@ function VotingPageContent() {
           topItems: data.rankings
             .filter((r: { categoryId: string }) => r.categoryId === cat.id)
             .slice(0, 10)
-            .map((r: { id: string; imageKey?: string; winCount?: number }) => ({
+            .map((r: { id: string; imageUrl?: string | null; winCount?: number }) => ({
               id: r.id,
-              imageUrl: r.imageKey ? `${SUPABASE_STORAGE_URL}/${r.imageKey.replace('izvrs/', '')}` : null,
+              imageUrl: r.imageUrl ?? null,
               wins: r.winCount || 0,
             })),
         }));
         setGlobalRankings(rankings);
       }
     } catch { /* non-critical */ }
-  }, [studyId]);
+  }, [studyId, token]);
 
   // ===== fetchNextPair — used for initial load and category selection =====
   async function fetchNextPair(categoryId?: string, signal?: AbortSignal) {
@@ -717,10 +812,10 @@ function VotingPageContent() {
     }
   }
 
-  // ===== fetchNextQuad — for quadruplet mode =====
-  async function fetchNextQuad(categoryId?: string, signal?: AbortSignal) {
+  // ===== fetchNextQuad — for quadruplet mode (and ranking/best-worst sets via next-set) =====
+  async function fetchNextQuad(categoryId?: string, signal?: AbortSignal, endpoint = isSetMode ? 'next-set' : 'next-quad') {
     try {
-      const url = new URL(`/api/participate/${studyId}/next-quad`, window.location.origin);
+      const url = new URL(`/api/participate/${studyId}/${endpoint}`, window.location.origin);
       url.searchParams.set('token', token!);
       if (categoryId) url.searchParams.set('categoryId', categoryId);
 
@@ -751,7 +846,7 @@ function VotingPageContent() {
 
       if (data.categoryComplete) {
         // Category done — go to next or complete
-        const catRes = await fetch(`/api/participate/${studyId}/next-quad?token=${token}`, { signal });
+        const catRes = await fetch(`/api/participate/${studyId}/${endpoint}?token=${token}`, { signal });
         const catData = await catRes.json();
         if (catData.requiresCategorySelection) {
           setCategories(catData.categories);
@@ -780,12 +875,13 @@ function VotingPageContent() {
     }
   }
 
-  // ===== handleQuadVote — optimized for speed =====
-  const handleQuadVote = useCallback(async (winnerId: string) => {
+  // ===== submitSetVote — quad, ranking and best-worst votes, optimized for speed =====
+  // highlightId is the item shown as chosen during the vote animation
+  const submitSetVote = useCallback(async (votePath: string, choice: Record<string, unknown>, highlightId: string) => {
     if (!quad || isVoting || voteInProgressRef.current || showVoteAnimation) return;
 
     voteInProgressRef.current = true;
-    setSelectedWinnerId(winnerId);
+    setSelectedWinnerId(highlightId);
     setShowVoteAnimation(true);
     setIsVoting(true);
     const responseTimeMs = Date.now() - startTimeRef.current;
@@ -794,21 +890,17 @@ function VotingPageContent() {
     const animationDone = new Promise(resolve => setTimeout(resolve, VOTE_ANIMATION_DURATION));
 
     // 2. Submit vote (fire-and-forget style, but we track promise for error handling)
-    const votePromise = fetch(`/api/participate/${studyId}/vote-quad`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        sessionToken: token,
-        itemIds: quad.items.map(i => i.id),
-        winnerId,
-        positions: quad.positions,
-        categoryId: currentCategoryId,
-        responseTimeMs,
-      }),
-    }).then(r => r.ok).catch(() => false);
+    const votePromise = submitVote(`/api/participate/${studyId}/${votePath}`, {
+      sessionToken: token,
+      itemIds: quad.items.map(i => i.id),
+      ...choice,
+      positions: quad.positions,
+      categoryId: currentCategoryId,
+      responseTimeMs,
+    });
 
     // 3. Start fetching next quad IMMEDIATELY (parallel with vote and animation)
-    const nextUrl = new URL(`/api/participate/${studyId}/next-quad`, window.location.origin);
+    const nextUrl = new URL(`/api/participate/${studyId}/${isSetMode ? 'next-set' : 'next-quad'}`, window.location.origin);
     nextUrl.searchParams.set('token', token!);
     if (currentCategoryId) nextUrl.searchParams.set('categoryId', currentCategoryId);
     const nextQuadPromise = fetch(nextUrl.toString()).then(r => r.json());
@@ -816,7 +908,7 @@ function VotingPageContent() {
     try {
       // Wait for animation, vote, and next quad fetch in parallel
       const [, voteOk, nextData] = await Promise.all([animationDone, votePromise, nextQuadPromise]);
-      if (!voteOk) console.warn('Quad vote submission failed, continuing anyway');
+      if (!voteOk) console.warn('Set vote submission failed, continuing anyway');
 
       // Fade out current images briefly
       setImagesReady(false);
@@ -881,7 +973,54 @@ function VotingPageContent() {
       setIsVoting(false);
       voteInProgressRef.current = false;
     }
-  }, [quad, isVoting, showVoteAnimation, token, studyId, currentCategoryId, t.error, router, fetchPersonalRankings, fetchGlobalRankings]);
+  }, [quad, isVoting, showVoteAnimation, isSetMode, token, studyId, currentCategoryId, t.error, router, fetchPersonalRankings, fetchGlobalRankings]);
+
+  function handleQuadVote(winnerId: string) {
+    submitSetVote('vote-quad', { winnerId }, winnerId);
+  }
+
+  // Ranking mode: tap to append an item to the ranking, tap again to take it out
+  function toggleRanked(itemId: string) {
+    setSetRanking((prev) => prev.includes(itemId) ? prev.filter((id) => id !== itemId) : [...prev, itemId]);
+  }
+
+  // Ranking mode: move a ranked item (drag and drop or the arrow buttons)
+  function moveRanked(from: number, to: number) {
+    setSetRanking((prev) => {
+      if (to < 0 || to >= prev.length || from === to) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }
+
+  // Best-worst mode: an item can't be both
+  function pickBestWorst(itemId: string, role: 'best' | 'worst') {
+    if (role === 'best') {
+      setBestId((prev) => prev === itemId ? null : itemId);
+      if (worstId === itemId) setWorstId(null);
+    } else {
+      setWorstId((prev) => prev === itemId ? null : itemId);
+      if (bestId === itemId) setBestId(null);
+    }
+  }
+
+  function handleSetVote() {
+    if (study?.comparisonMode === 'best-worst') {
+      if (!bestId || !worstId) return;
+      submitSetVote('vote-set', { bestId, worstId }, bestId);
+    } else if (setRanking.length > 0) {
+      submitSetVote('vote-set', { ranking: setRanking }, setRanking[0]);
+    }
+  }
+
+  // Start each new set with no picks
+  useEffect(() => {
+    setSetRanking([]);
+    setBestId(null);
+    setWorstId(null);
+  }, [quad]);
 
   // ===== Init: fetch study + thumbnails + first pair/quad =====
   useEffect(() => {
@@ -900,9 +1039,11 @@ function VotingPageContent() {
         if (!studyRes.ok) throw new Error('Study not found');
         const studyData = await studyRes.json();
         setStudy(studyData);
-        // Use quad or pair mode based on study setting
+        // Use quad, ranking/best-worst set or pair mode based on study setting
         if (studyData.comparisonMode === 'quad') {
-          await fetchNextQuad(undefined, controller.signal);
+          await fetchNextQuad(undefined, controller.signal, 'next-quad');
+        } else if (isChoiceSetMode(studyData.comparisonMode)) {
+          await fetchNextQuad(undefined, controller.signal, 'next-set');
         } else {
           await fetchNextPair(undefined, controller.signal);
         }
@@ -924,12 +1065,13 @@ function VotingPageContent() {
     function handleKeyDown(e: KeyboardEvent) {
       if (voteInProgressRef.current) return;
       const key = e.key.toLowerCase();
-      if (key === 'a' || key === 'arrowleft') { e.preventDefault(); handleVote(pair!.leftItemId); }
-      else if (key === 'b' || key === 'arrowright') { e.preventDefault(); handleVote(pair!.rightItemId); }
+      if (key === 'a' || key === 'arrowleft') { e.preventDefault(); handleVote(pair!.leftItemId, choiceStrength); }
+      else if (key === 'b' || key === 'arrowright') { e.preventDefault(); handleVote(pair!.rightItemId, choiceStrength); }
+      else if ((key === 'n' || key === 'arrowdown') && noPreferenceAllowed) { e.preventDefault(); handleVote(null); }
     }
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [viewState, pair, isVoting, showVoteAnimation]);
+  }, [viewState, pair, isVoting, showVoteAnimation, choiceStrength, noPreferenceAllowed]);
 
   // Fetch personal and global rankings when session/category completes
   useEffect(() => {
@@ -940,7 +1082,8 @@ function VotingPageContent() {
   }, [viewState, fetchPersonalRankings, fetchGlobalRankings]);
 
   // ===== handleVote — vote must complete before next-pair to avoid race condition =====
-  const handleVote = useCallback(async (winnerId: string) => {
+  // winnerId null = no preference; preferenceStrength only on the graded-5 scale
+  const handleVote = useCallback(async (winnerId: string | null, preferenceStrength: number | null = null) => {
     if (!pair || isVoting || voteInProgressRef.current || showVoteAnimation) return;
 
     voteInProgressRef.current = true;
@@ -953,20 +1096,17 @@ function VotingPageContent() {
     const animationDone = new Promise(resolve => setTimeout(resolve, VOTE_ANIMATION_DURATION));
 
     // 2. Submit vote — MUST complete before fetching next pair to prevent duplicate pairs
-    const votePromise = fetch(`/api/participate/${studyId}/vote`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        sessionToken: token,
-        itemAId: pair.itemA.id,
-        itemBId: pair.itemB.id,
-        winnerId,
-        leftItemId: pair.leftItemId,
-        rightItemId: pair.rightItemId,
-        categoryId: currentCategoryId,
-        responseTimeMs,
-      }),
-    }).then(r => r.ok).catch(() => false);
+    const votePromise = submitVote(`/api/participate/${studyId}/vote`, {
+      sessionToken: token,
+      itemAId: pair.itemA.id,
+      itemBId: pair.itemB.id,
+      winnerId,
+      preferenceStrength,
+      leftItemId: pair.leftItemId,
+      rightItemId: pair.rightItemId,
+      categoryId: currentCategoryId,
+      responseTimeMs,
+    });
 
     try {
       // 3. Wait for BOTH vote and animation to complete before fetching next pair
@@ -1089,7 +1229,7 @@ function VotingPageContent() {
     setCurrentCategoryId(categoryId);
     setLastCheckpoint(0);
     setIsLoading(true);
-    if (isQuadMode) {
+    if (usesItemSets) {
       fetchNextQuad(categoryId);
     } else {
       fetchNextPair(categoryId);
@@ -1099,7 +1239,7 @@ function VotingPageContent() {
   function retryAfterError() {
     setError(null);
     setIsLoading(true);
-    if (isQuadMode) {
+    if (usesItemSets) {
       fetchNextQuad(currentCategoryId || undefined);
     } else {
       fetchNextPair(currentCategoryId || undefined);
@@ -1272,7 +1412,7 @@ function VotingPageContent() {
                 {/* Thumbnail grid or skeleton */}
                 {useGallery && (
                   hasThumbnails && categoryThumbnails[cat.id]?.length > 0 ? (
-                    <ThumbnailGrid imageKeys={categoryThumbnails[cat.id]} isComplete={cat.isComplete} />
+                    <ThumbnailGrid imageUrls={categoryThumbnails[cat.id]} isComplete={cat.isComplete} />
                   ) : (
                     /* Skeleton grid while thumbnails load */
                     <div className="grid grid-cols-3 gap-1 rounded-lg overflow-hidden">
@@ -1437,7 +1577,7 @@ function VotingPageContent() {
           <div className="space-y-3">
             {categoryDoneInfo.allowContinuedVoting && (
               <button
-                onClick={() => { setCategoryDoneInfo(null); setIsLoading(true); isQuadMode ? fetchNextQuad(categoryDoneInfo.categoryId) : fetchNextPair(categoryDoneInfo.categoryId); }}
+                onClick={() => { setCategoryDoneInfo(null); setIsLoading(true); usesItemSets ? fetchNextQuad(categoryDoneInfo.categoryId) : fetchNextPair(categoryDoneInfo.categoryId); }}
                 className="w-full px-6 py-3 text-white rounded-full font-semibold active:scale-95 transition-transform"
                 style={{ backgroundColor: uiConfig.themeColor }}
               >
@@ -1449,7 +1589,7 @@ function VotingPageContent() {
                 setCategoryDoneInfo(null);
                 setLastCheckpoint(0);
                 setIsLoading(true);
-                const endpoint = isQuadMode ? 'next-quad' : 'next-pair';
+                const endpoint = isSetMode ? 'next-set' : isQuadMode ? 'next-quad' : 'next-pair';
                 const catRes = await fetch(`/api/participate/${studyId}/${endpoint}?token=${token}`);
                 const catData = await catRes.json();
                 if (catData.complete || catData.allCategoriesComplete) {
@@ -1477,17 +1617,21 @@ function VotingPageContent() {
 
   // ========== VOTING INTERFACE ==========
 
-  // Quadruplet mode rendering
-  if (isQuadMode && quad) {
+  // Quadruplet, ranking and best-worst mode rendering
+  if (usesItemSets && quad) {
+    const isBestWorst = study?.comparisonMode === 'best-worst';
+    const canSubmitSet = isBestWorst ? !!bestId && !!worstId : setRanking.length > 0;
     return (
       <div className="h-[100dvh] flex flex-col bg-slate-100 overflow-hidden">
         {LogoHeader}
 
         <main className="flex-1 min-h-0 px-2 sm:px-6 pb-1 overflow-hidden">
           <div className="w-full h-full flex flex-col">
-            {/* Mobile: 4 stacked rows for larger images, Desktop: 2x2 grid */}
+            {/* Mobile: 4 stacked rows for larger images, Desktop: 2x2 grid (sets of 5-6: 2 columns on mobile, 3 on desktop) */}
             <div
-              className="flex-1 min-h-0 grid grid-cols-1 sm:grid-cols-2 gap-1.5 sm:gap-3 transition-opacity duration-150"
+              className={`flex-1 min-h-0 grid gap-1.5 sm:gap-3 transition-opacity duration-150 ${
+                quad.positions.length > 4 ? 'grid-cols-2 sm:grid-cols-3' : isSetMode ? 'grid-cols-2' : 'grid-cols-1 sm:grid-cols-2'
+              }`}
               style={{ opacity: imagesReady ? 1 : 0 }}
             >
               {quad.positions.map((itemId) => {
@@ -1495,6 +1639,67 @@ function VotingPageContent() {
                 const isSelected = showVoteAnimation && selectedWinnerId === itemId;
                 const isNotSelected = showVoteAnimation && selectedWinnerId && selectedWinnerId !== itemId;
 
+                if (isSetMode) {
+                  const rank = setRanking.indexOf(itemId);
+                  const isPicked = rank >= 0 || bestId === itemId;
+                  const isWorst = worstId === itemId;
+                  const locked = isVoting || showVoteAnimation;
+
+                  return (
+                    <div
+                      key={itemId}
+                      className={`relative bg-white rounded-lg sm:rounded-xl shadow-sm transition-all duration-200 overflow-hidden
+                        ${isNotSelected ? 'animate-fade-out-half' : ''}`}
+                      style={isPicked ? { boxShadow: `0 0 0 3px ${uiConfig.themeColor}` } : isWorst ? { boxShadow: '0 0 0 3px #94a3b8' } : undefined}
+                    >
+                      <button
+                        onClick={() => isBestWorst ? pickBestWorst(itemId, 'best') : toggleRanked(itemId)}
+                        disabled={locked}
+                        className={`w-full h-full p-1 sm:p-1.5 flex items-center justify-center focus:outline-none
+                          ${locked ? 'pointer-events-none' : 'active:scale-[0.98] cursor-pointer'}`}
+                      >
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img
+                          src={buildImageUrl(item)}
+                          alt=""
+                          loading="eager"
+                          decoding="async"
+                          className={`max-w-full max-h-full object-contain rounded-md sm:rounded-lg ${isWorst ? 'opacity-60' : ''}`}
+                        />
+                      </button>
+                      {rank >= 0 && (
+                        <span
+                          className="absolute top-1.5 left-1.5 w-7 h-7 rounded-full text-white text-sm font-bold flex items-center justify-center shadow"
+                          style={{ backgroundColor: uiConfig.themeColor }}
+                        >
+                          {rank + 1}
+                        </span>
+                      )}
+                      {isBestWorst && (
+                        <div className="absolute bottom-1.5 inset-x-1.5 flex gap-1.5 justify-center">
+                          <button
+                            onClick={() => pickBestWorst(itemId, 'best')}
+                            disabled={locked}
+                            className="flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-semibold shadow"
+                            style={bestId === itemId ? { backgroundColor: uiConfig.themeColor, color: 'white' } : { backgroundColor: 'rgba(255,255,255,0.9)', color: '#334155' }}
+                          >
+                            <ThumbsUp className="w-3.5 h-3.5" /> {t.best}
+                          </button>
+                          <button
+                            onClick={() => pickBestWorst(itemId, 'worst')}
+                            disabled={locked}
+                            className={`flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-semibold shadow ${
+                              isWorst ? 'bg-slate-600 text-white' : 'bg-white/90 text-slate-700'
+                            }`}
+                          >
+                            <ThumbsDown className="w-3.5 h-3.5" /> {t.worst}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                }
+
                 return (
                   <button
                     key={itemId}
@@ -1534,9 +1739,68 @@ function VotingPageContent() {
               })}
             </div>
 
-            <div className="flex-none text-center py-1 sm:py-2">
-              <p className="text-xs sm:text-sm text-slate-500">{study?.participantPrompt || t.selectBest}</p>
-            </div>
+            {isSetMode ? (
+              <div className="flex-none py-1 sm:py-2 space-y-1.5">
+                <p className="text-center text-xs sm:text-sm text-slate-500">
+                  {study?.participantPrompt || (isBestWorst ? t.pickBestWorst : t.rankImages)}
+                </p>
+                {!isBestWorst && setRanking.length > 0 && (
+                  // Ranking so far: drag a thumbnail (or use the arrows) to reorder
+                  <div className="flex items-center justify-center gap-1.5 flex-wrap" aria-label={t.yourRanking}>
+                    {setRanking.map((itemId, index) => {
+                      const item = quad.items.find((i) => i.id === itemId)!;
+                      return (
+                        <div
+                          key={itemId}
+                          draggable={!isVoting}
+                          onDragStart={() => { dragIndexRef.current = index; }}
+                          onDragOver={(e) => e.preventDefault()}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            if (dragIndexRef.current !== null) moveRanked(dragIndexRef.current, index);
+                            dragIndexRef.current = null;
+                          }}
+                          className="flex items-center gap-0.5 bg-white rounded-lg shadow-sm px-1 py-0.5 cursor-move"
+                        >
+                          <span className="text-xs font-bold w-4 text-center" style={{ color: uiConfig.themeColor }}>{index + 1}</span>
+                          {/* eslint-disable-next-line @next/next/no-img-element */}
+                          <img src={buildImageUrl(item)} alt="" className="w-8 h-8 sm:w-10 sm:h-10 object-cover rounded" draggable={false} />
+                          <div className="flex flex-col">
+                            <button onClick={() => moveRanked(index, index - 1)} disabled={index === 0 || isVoting} className="text-slate-400 hover:text-slate-700 disabled:opacity-30">
+                              <ChevronUp className="w-3.5 h-3.5" />
+                            </button>
+                            <button onClick={() => moveRanked(index, index + 1)} disabled={index === setRanking.length - 1 || isVoting} className="text-slate-400 hover:text-slate-700 disabled:opacity-30">
+                              <ChevronDown className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    <button
+                      onClick={() => setSetRanking([])}
+                      disabled={isVoting}
+                      className="text-xs text-slate-500 hover:text-slate-800 underline px-1"
+                    >
+                      {t.clearRanking}
+                    </button>
+                  </div>
+                )}
+                <div className="flex justify-center">
+                  <button
+                    onClick={handleSetVote}
+                    disabled={!canSubmitSet || isVoting || showVoteAnimation}
+                    className="px-6 py-2 text-white rounded-full text-sm font-semibold active:scale-95 transition-transform shadow disabled:opacity-40"
+                    style={{ backgroundColor: uiConfig.themeColor }}
+                  >
+                    {isBestWorst ? t.submitChoice : t.submitRanking}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex-none text-center py-1 sm:py-2">
+                <p className="text-xs sm:text-sm text-slate-500">{study?.participantPrompt || t.selectBest}</p>
+              </div>
+            )}
           </div>
         </main>
 
@@ -1546,7 +1810,7 @@ function VotingPageContent() {
           </footer>
         )}
 
-        {/* Rankings Modal (for quad mode) */}
+        {/* Rankings Modal (for quad and set modes) */}
         {showRankingsModal && rankingsModalCategoryId && (
           <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
             <div className="bg-slate-900 rounded-2xl max-w-lg w-full p-6 relative animate-fade-in">
@@ -1597,7 +1861,7 @@ function VotingPageContent() {
             >
               {/* Left / Top image */}
               <button
-                onClick={() => handleVote(pair.leftItemId)}
+                onClick={() => handleVote(pair.leftItemId, choiceStrength)}
                 disabled={isVoting || showVoteAnimation}
                 className={`relative bg-white rounded-xl shadow-sm transition-all duration-200 p-2 flex items-center justify-center overflow-hidden
                   ${showVoteAnimation && selectedWinnerId === pair.leftItemId ? 'ring-4 animate-selection-ring' : ''}
@@ -1638,7 +1902,7 @@ function VotingPageContent() {
 
               {/* Right / Bottom image */}
               <button
-                onClick={() => handleVote(pair.rightItemId)}
+                onClick={() => handleVote(pair.rightItemId, choiceStrength)}
                 disabled={isVoting || showVoteAnimation}
                 className={`relative bg-white rounded-xl shadow-sm transition-all duration-200 p-2 flex items-center justify-center overflow-hidden
                   ${showVoteAnimation && selectedWinnerId === pair.rightItemId ? 'ring-4 animate-selection-ring' : ''}
@@ -1678,6 +1942,22 @@ function VotingPageContent() {
               </button>
             </div>
 
+            {responseButtons.length > 0 && (
+              <div className="flex-none flex flex-wrap justify-center gap-2 pt-2">
+                {responseButtons.map((button) => (
+                  <button
+                    key={button.label}
+                    onClick={() => handleVote(button.winnerId, button.preferenceStrength)}
+                    disabled={isVoting || showVoteAnimation}
+                    className="px-3 py-1.5 text-sm rounded-lg border bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50 transition-colors"
+                    style={{ borderColor: uiConfig.themeColor }}
+                  >
+                    {button.label}
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className="flex-none text-center py-2">
               <p className="text-sm text-slate-500">{study?.participantPrompt || t.selectImage}</p>
             </div>
@@ -27,12 +27,21 @@ type ActivityAction =
   | 'AUTH_RATE_LIMITED'
   | 'STUDY_CREATED'
   | 'STUDY_UPDATED'
+  | 'STUDY_DELETED'
   | 'ITEMS_UPLOADED'
   | 'RANKINGS_VIEWED'
   | 'EXPORT_DOWNLOADED'
   | 'ELO_RESET'
   | 'SCHEMA_MIGRATED'
-  | 'ACCESS_CODES_CREATED';
+  | 'ACCESS_CODES_CREATED'
+  | 'GOLD_PAIRS_UPDATED'
+  | 'STUDY_CONVERGED'
+  | 'ATTENTION_CHECK_ANSWERED'
+  | 'ADMIN_BREAK_GLASS'
+  | 'MEMBER_INVITED'
+  | 'MEMBER_JOINED'
+  | 'MEMBER_UPDATED'
+  | 'MEMBER_REMOVED';
 
 interface LogOptions {
   studyId?: string;
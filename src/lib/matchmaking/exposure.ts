@@ -0,0 +1,191 @@
+/**
+ * Global Exposure Aggregates for SciBLIND Matchmaking
+ *
+ * selectNextPair only sees the current session's comparisons, so across many
+ * evaluators some items can stay far below minExposuresPerItem and parts of
+ * the comparison graph can stay disconnected. This module provides the
+ * cross-session view:
+ * - Per-item exposure is Item.comparisonCount (already global)
+ * - Per-pair exposure comes from PairExposure rows, bumped inside the vote
+ *   transaction (see voting/record.ts), never from a comparison scan. An
+ *   Elo replay that writes its result rebuilds them from the votes it kept,
+ *   so excluded sessions stop steering matchmaking
+ * - Graph components are derived from those pairs with checkGraphConnectivity
+ *
+ * Aggregates are cached in-process per study/category for
+ * EXPOSURE_CACHE_TTL_MS (default 30000; 0 disables the cache). Slightly stale
+ * counts only shift priorities, they never break matchmaking constraints.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { checkGraphConnectivity } from '@/lib/ranking/statistics';
+
+const DEFAULT_CACHE_TTL_MS = 30_000;
+
+export interface GlobalExposure {
+  /** Real comparisons per pair, keyed like matchmaking pair keys ("idA-idB", IDs sorted) */
+  pairCounts: Map<string, number>;
+  /** Component index per item (0 = largest component) */
+  componentOf: Map<string, number>;
+  componentCount: number;
+}
+
+export interface PairExposureRow {
+  itemLowId: string;
+  itemHighId: string;
+  count: number;
+}
+
+export interface PairExposureCount extends PairExposureRow {
+  categoryId: string | null;
+}
+
+/**
+ * Build exposure aggregates for a set of items from per-pair counts.
+ * Pairs involving items outside the set are ignored.
+ *
+ * @param itemIds - Items being matched (e.g. one category)
+ * @param rows - Per-pair exposure counts
+ * @returns Pair counts and component membership
+ */
+export function buildGlobalExposure(itemIds: string[], rows: PairExposureRow[]): GlobalExposure {
+  const known = new Set(itemIds);
+  const pairCounts = new Map<string, number>();
+  const edges: { itemAId: string; itemBId: string }[] = [];
+
+  for (const row of rows) {
+    if (row.count <= 0 || !known.has(row.itemLowId) || !known.has(row.itemHighId)) continue;
+    pairCounts.set([row.itemLowId, row.itemHighId].sort().join('-'), row.count);
+    edges.push({ itemAId: row.itemLowId, itemBId: row.itemHighId });
+  }
+
+  const connectivity = checkGraphConnectivity(itemIds, edges);
+  const componentOf = new Map<string, number>();
+  connectivity.components.forEach((component, index) => {
+    for (const id of component) componentOf.set(id, index);
+  });
+
+  return { pairCounts, componentOf, componentCount: connectivity.componentCount };
+}
+
+// ===== Cached loading =====
+
+const cache = new Map<string, { expiresAt: number; itemKey: string; value: GlobalExposure }>();
+
+/**
+ * Cache lifetime from EXPOSURE_CACHE_TTL_MS (read at call time)
+ */
+export function getExposureCacheTtlMs(): number {
+  const raw = process.env.EXPOSURE_CACHE_TTL_MS;
+  if (raw === undefined || raw.trim() === '') return DEFAULT_CACHE_TTL_MS;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_CACHE_TTL_MS;
+}
+
+/**
+ * Load (or reuse) global exposure aggregates for matchmaking.
+ *
+ * @param studyId - Study being matched
+ * @param categoryId - Category being matched (null = whole study)
+ * @param itemIds - Items being matched; a changed item set bypasses the cache
+ * @returns Aggregates over real votes across all sessions
+ */
+export async function getGlobalExposure(
+  studyId: string,
+  categoryId: string | null,
+  itemIds: string[],
+): Promise<GlobalExposure> {
+  const key = `${studyId}:${categoryId ?? ''}`;
+  const itemKey = [...itemIds].sort().join(',');
+  const ttl = getExposureCacheTtlMs();
+
+  const cached = cache.get(key);
+  if (ttl > 0 && cached && cached.expiresAt > Date.now() && cached.itemKey === itemKey) {
+    return cached.value;
+  }
+
+  const rows = await prisma.pairExposure.findMany({
+    where: { studyId, ...(categoryId ? { categoryId } : {}) },
+    select: { itemLowId: true, itemHighId: true, count: true },
+  });
+
+  const value = buildGlobalExposure(itemIds, rows);
+  if (ttl > 0) {
+    cache.set(key, { expiresAt: Date.now() + ttl, itemKey, value });
+  }
+  return value;
+}
+
+/**
+ * Drop a study's cached aggregates (after its PairExposure rows were rewritten)
+ */
+export function clearExposureCache(studyId: string): void {
+  for (const key of cache.keys()) {
+    if (key.startsWith(`${studyId}:`)) cache.delete(key);
+  }
+}
+
+/**
+ * Sum comparisons into per-pair exposure counts
+ *
+ * @param comparisons - Real comparisons (or groups of them, with `count`)
+ * @returns One count per unordered pair
+ */
+export function countPairExposure(
+  comparisons: { itemAId: string; itemBId: string; categoryId: string | null; count?: number }[],
+): PairExposureCount[] {
+  const pairs = new Map<string, PairExposureCount>();
+  for (const comparison of comparisons) {
+    const [itemLowId, itemHighId] = [comparison.itemAId, comparison.itemBId].sort();
+    const key = `${itemLowId}-${itemHighId}`;
+    const count = comparison.count ?? 1;
+    const existing = pairs.get(key);
+    if (existing) {
+      existing.count += count;
+    } else {
+      pairs.set(key, { categoryId: comparison.categoryId, itemLowId, itemHighId, count });
+    }
+  }
+  return Array.from(pairs.values());
+}
+
+/**
+ * Replace a study's PairExposure rows. Call clearExposureCache once the
+ * transaction has committed.
+ *
+ * @param tx - Transaction client
+ * @param studyId - Study to rewrite
+ * @param pairs - New per-pair counts
+ */
+export async function writePairExposure(
+  tx: Prisma.TransactionClient,
+  studyId: string,
+  pairs: PairExposureCount[],
+): Promise<void> {
+  await tx.pairExposure.deleteMany({ where: { studyId } });
+  await tx.pairExposure.createMany({
+    data: pairs.map((pair) => ({ studyId, ...pair })),
+  });
+}
+
+/**
+ * Rebuild a study's PairExposure rows from its real comparisons
+ * (for studies with votes recorded before the aggregate existed).
+ *
+ * @param studyId - Study to rebuild
+ * @returns Number of pairs written
+ */
+export async function rebuildPairExposure(studyId: string): Promise<number> {
+  const grouped = await prisma.comparison.groupBy({
+    by: ['itemAId', 'itemBId', 'categoryId'],
+    where: { studyId, session: { isTestSession: false } },
+    _count: { _all: true },
+  });
+
+  const pairs = countPairExposure(grouped.map((group) => ({ ...group, count: group._count._all })));
+  await prisma.$transaction((tx) => writePairExposure(tx, studyId, pairs));
+  clearExposureCache(studyId);
+
+  return pairs.length;
+}
@@ -15,9 +15,51 @@
  * - Phase 1 (Coverage): Prioritize items with 0 comparisons in this session
  * - Phase 2 (Depth): Once all items have appeared, optimize for ELO precision
  * - The session CANNOT complete until every item has been seen at least once
+ *
+ * Uncertainty: by default an item's need for comparisons is its global
+ * comparison count. GLICKO2 studies pass { useGlicko: true } so the real
+ * per-item rating deviation (converted to comparison-equivalents) and the
+ * Glicko rating are used instead.
+ *
+ * Pair scoring: the depth phase scores candidate pairs either with the
+ * weighted heuristic below ("balanced", default) or by the highest expected
+ * information gain under the study's rating model ("information_gain", see
+ * information-gain.ts). Coverage, streak limits, no repeated pairs and
+ * position balancing apply to both. Studies do not call these functions
+ * directly: their configured strategy (see strategies.ts) does, with its
+ * own scoring, streak limit and variety window.
+ *
+ * Global exposure: with { globalExposure, minExposuresPerItem } the routes
+ * pass cross-session aggregates (see exposure.ts). Items below
+ * minExposuresPerItem are pushed forward in proportion to their deficit, and
+ * pairs joining two disconnected parts of the comparison graph are
+ * preferred over everything but coverage, so under-exposed items and
+ * unconnected components catch up across all participants.
+ *
+ * Ranking and best-worst studies show sets of Study.choiceSetSize items,
+ * picked by selectNextChoiceSet with the same coverage rules as quads
+ * (the configured strategy only applies to pairs and quads).
  */
 
 import type { Item, Comparison } from '@prisma/client';
+import { GLICKO2_DEFAULT_RD } from '@/lib/ranking/glicko2';
+import { expectedInformationGain, strengthBeliefOf, type RatingModel } from './information-gain';
+import type { GlobalExposure } from './exposure';
+
+/**
+ * Roughly how much RD one comparison removes early on, used to express RD in
+ * the same units as comparison counts so the scoring weights stay comparable
+ */
+const GLICKO_RD_PER_COMPARISON = 25;
+
+/** Score bonus per exposure an item is short of minExposuresPerItem */
+const UNDER_EXPOSURE_WEIGHT = 20;
+
+/** Score bonus for a pair that connects two graph components */
+const BRIDGE_BONUS = 500;
+
+/** Quad score bonus for items outside the largest graph component */
+const OUTSIDE_MAIN_COMPONENT_BONUS = 250;
 
 export interface MatchPair {
   itemA: Item;
@@ -31,10 +73,102 @@ export interface MatchQuad {
   positions: string[];     // Randomized order of item IDs for display
 }
 
+/** Items shown together in ranking or best-worst mode */
+export interface MatchSet {
+  items: Item[];           // Study.choiceSetSize items
+  positions: string[];     // Randomized order of item IDs for display
+}
+
+/** The session row fields the ranking and best-worst selection reads */
+export type ChoiceSetComparison = Pick<Comparison, 'itemAId' | 'itemBId' | 'choiceGroupId'>;
+
+export type PairSelectionStrategy = 'balanced' | 'information_gain';
+
+export interface MatchmakingOptions {
+  /** Use Glicko-2 rating and rating deviation instead of Elo and comparison counts */
+  useGlicko?: boolean;
+  /** Use persisted Bradley-Terry abilities for information-gain scoring */
+  useBradleyTerry?: boolean;
+  /** How the depth phase scores pairs (default 'balanced') */
+  strategy?: PairSelectionStrategy;
+  /** Cross-session pair counts and graph components */
+  globalExposure?: GlobalExposure;
+  /** Study's minExposuresPerItem; items below it are prioritized */
+  minExposuresPerItem?: number;
+  /** Block an item after this many consecutive appearances (default 2) */
+  streakLimit?: number;
+  /** Comparisons that count towards the variety penalty (default 3) */
+  recentWindow?: number;
+  /** Study's targetTopN (used by the top-n strategy) */
+  targetTopN?: number | null;
+}
+
+/**
+ * How much an item still needs comparisons (lower = needs more).
+ * Comparison count by default; with Glicko, the RD already removed from the
+ * initial deviation, in comparison-equivalents.
+ */
+function comparisonNeedOf(item: Item, options: MatchmakingOptions): number {
+  if (options.useGlicko) {
+    return (GLICKO2_DEFAULT_RD - item.glickoRd) / GLICKO_RD_PER_COMPARISON;
+  }
+  return item.comparisonCount;
+}
+
+/**
+ * Rating used to find informative (close) matchups
+ */
+export function ratingOf(item: Item, options: MatchmakingOptions): number {
+  return options.useGlicko ? item.glickoRating : item.eloRating;
+}
+
+/**
+ * How many global exposures an item is short of minExposuresPerItem
+ */
+function exposureDeficitOf(item: Item, options: MatchmakingOptions): number {
+  return options.minExposuresPerItem ? Math.max(0, options.minExposuresPerItem - item.comparisonCount) : 0;
+}
+
+/**
+ * Whether comparing two items would connect separate graph components
+ */
+function bridgesComponents(itemA: Item, itemB: Item, options: MatchmakingOptions): boolean {
+  const exposure = options.globalExposure;
+  if (!exposure || exposure.componentCount <= 1) return false;
+  return exposure.componentOf.get(itemA.id) !== exposure.componentOf.get(itemB.id);
+}
+
+/**
+ * Whether an item lies outside the largest component of a graph that has edges
+ */
+function isOutsideMainComponent(item: Item, options: MatchmakingOptions): boolean {
+  const exposure = options.globalExposure;
+  if (!exposure || exposure.componentCount <= 1 || exposure.pairCounts.size === 0) return false;
+  return (exposure.componentOf.get(item.id) ?? 0) > 0;
+}
+
+/**
+ * Score bonus (subtracted, lower = better) from global exposure:
+ * under-exposed items and pairs that bridge components come first
+ */
+function globalPriorityOf(itemA: Item, itemB: Item, options: MatchmakingOptions): number {
+  const deficit = exposureDeficitOf(itemA, options) + exposureDeficitOf(itemB, options);
+  return deficit * UNDER_EXPOSURE_WEIGHT + (bridgesComponents(itemA, itemB, options) ? BRIDGE_BONUS : 0);
+}
+
+/**
+ * Rating model whose uncertainty drives information-gain scoring
+ */
+export function ratingModelOf(options: MatchmakingOptions): RatingModel {
+  if (options.useGlicko) return 'glicko2';
+  if (options.useBradleyTerry) return 'bradley_terry';
+  return 'elo';
+}
+
 /**
  * Get the set of item IDs that have appeared in session comparisons
  */
-function getSeenItemIds(sessionComparisons: Comparison[]): Set<string> {
+function getSeenItemIds(sessionComparisons: Pick<Comparison, 'itemAId' | 'itemBId'>[]): Set<string> {
   const seen = new Set<string>();
   for (const comp of sessionComparisons) {
     seen.add(comp.itemAId);
@@ -111,7 +245,10 @@ function getPairExposureCounts(
 /**
  * Check if all items in the set have been seen at least once in this session
  */
-export function hasFullCoverage(items: Item[], sessionComparisons: Comparison[]): boolean {
+export function hasFullCoverage(
+  items: Pick<Item, 'id'>[],
+  sessionComparisons: Pick<Comparison, 'itemAId' | 'itemBId'>[],
+): boolean {
   const seen = getSeenItemIds(sessionComparisons);
   return items.every((item) => seen.has(item.id));
 }
@@ -128,6 +265,8 @@ export function hasFullCoverage(items: Item[], sessionComparisons: Comparison[])
  * PHASE 2 — DEPTH (all items seen):
  *   Priority: under-compared items with similar ELO for maximum ranking information.
  *   Includes variety penalty to avoid repetitive consecutive comparisons.
+ *   With strategy 'information_gain', the pair with the highest expected
+ *   information gain is chosen instead.
  *
  * Both phases:
  * - Never repeat a pair within the same session
@@ -135,19 +274,24 @@ export function hasFullCoverage(items: Item[], sessionComparisons: Comparison[])
  *
  * @param items - All items in the category
  * @param sessionComparisons - Comparisons already made in this session
+ * @param options - Uncertainty source (see MatchmakingOptions)
  * @returns Next pair to compare, or null if all pairs exhausted
  */
 export function selectNextPair(
   items: Item[],
   sessionComparisons: Comparison[],
+  options: MatchmakingOptions = {},
 ): MatchPair | null {
   if (items.length < 2) {
     return null;
   }
 
-  // Build set of compared pair keys for this session
+  // Build set of compared pair keys for this session (among these items,
+  // so a subset of the category is exhausted only by its own pairs)
+  const itemIds = new Set(items.map((item) => item.id));
   const comparedPairs = new Set<string>();
   for (const comp of sessionComparisons) {
+    if (!itemIds.has(comp.itemAId) || !itemIds.has(comp.itemBId)) continue;
     const key = [comp.itemAId, comp.itemBId].sort().join('-');
     comparedPairs.add(key);
   }
@@ -160,9 +304,9 @@ export function selectNextPair(
     return null;
   }
 
-  // Track recently shown items (last 3 comparisons) for variety penalty
+  // Track recently shown items (last 3 comparisons by default) for variety penalty
   const recentItems = new Map<string, number>(); // itemId -> recency (1 = most recent)
-  const recentWindow = Math.min(3, sessionComparisons.length);
+  const recentWindow = Math.min(options.recentWindow ?? 3, sessionComparisons.length);
   for (let i = 0; i < recentWindow; i++) {
     const comp = sessionComparisons[sessionComparisons.length - 1 - i];
     if (comp) {
@@ -182,8 +326,8 @@ export function selectNextPair(
     sessionItemCounts.set(comp.itemBId, (sessionItemCounts.get(comp.itemBId) || 0) + 1);
   }
 
-  // Hard streak limit: items that appeared in last 2 consecutive comparisons are blocked
-  const streakBlocked = getStreakBlockedItems(sessionComparisons, 2);
+  // Hard streak limit: items that appeared in last 2 (by default) consecutive comparisons are blocked
+  const streakBlocked = getStreakBlockedItems(sessionComparisons, options.streakLimit ?? 2);
 
   // Determine which items are unseen in this session
   const unseenItems = getUnseenItems(items, sessionComparisons);
@@ -213,7 +357,9 @@ export function selectNextPair(
     // - Similar ELO (more informative)
 
     // Sort unseen items by global comparison count (least compared first)
-    const sortedUnseen = [...unseenItems].sort((a, b) => a.comparisonCount - b.comparisonCount);
+    const sortedUnseen = [...unseenItems].sort(
+      (a, b) => comparisonNeedOf(a, options) - comparisonNeedOf(b, options)
+    );
 
     // First try: pair two unseen items
     for (let i = 0; i < sortedUnseen.length && !bestPair; i++) {
@@ -224,10 +370,10 @@ export function selectNextPair(
         const pairKey = [itemA.id, itemB.id].sort().join('-');
         if (comparedPairs.has(pairKey)) continue;
 
-        const comparisonNeed = itemA.comparisonCount + itemB.comparisonCount;
-        const eloDiff = Math.abs(itemA.eloRating - itemB.eloRating);
+        const comparisonNeed = comparisonNeedOf(itemA, options) + comparisonNeedOf(itemB, options);
+        const eloDiff = Math.abs(ratingOf(itemA, options) - ratingOf(itemB, options));
         // Heavily favor pairing two unseen items (bonus of -1000)
-        const score = -1000 + comparisonNeed * 10 + eloDiff;
+        const score = -1000 + comparisonNeed * 10 + eloDiff - globalPriorityOf(itemA, itemB, options);
 
         if (!bestPair || score < bestPair.score) {
           bestPair = { itemA, itemB, score };
@@ -247,9 +393,9 @@ export function selectNextPair(
           const pairKey = [unseenItem.id, seenItem.id].sort().join('-');
           if (comparedPairs.has(pairKey)) continue;
 
-          const comparisonNeed = unseenItem.comparisonCount + seenItem.comparisonCount;
-          const eloDiff = Math.abs(unseenItem.eloRating - seenItem.eloRating);
-          const score = comparisonNeed * 10 + eloDiff;
+          const comparisonNeed = comparisonNeedOf(unseenItem, options) + comparisonNeedOf(seenItem, options);
+          const eloDiff = Math.abs(ratingOf(unseenItem, options) - ratingOf(seenItem, options));
+          const score = comparisonNeed * 10 + eloDiff - globalPriorityOf(unseenItem, seenItem, options);
 
           if (!bestPair || score < bestPair.score) {
             bestPair = { itemA: unseenItem, itemB: seenItem, score };
@@ -271,13 +417,19 @@ export function selectNextPair(
     // - Variety penalty (recently shown items penalized, weight 50/recency)
     // - Session fairness bonus (items with fewer session appearances preferred, weight 5)
     // - Pair exposure penalty (pairs compared more times get penalized, weight 20)
+    // - Global priority (under-exposed items, component bridges; see globalPriorityOf)
 
     // Sort by global comparison count for prioritization
-    const itemsByNeed = [...items].sort((a, b) => a.comparisonCount - b.comparisonCount);
+    const itemsByNeed = [...items].sort(
+      (a, b) => comparisonNeedOf(a, options) - comparisonNeedOf(b, options)
+    );
 
     // Get pair exposure counts for cross-session awareness
     const pairExposures = getPairExposureCounts(sessionComparisons);
 
+    const useInformationGain = options.strategy === 'information_gain';
+    const ratingModel = ratingModelOf(options);
+
     // Full O(n²) search for sets ≤ 100, sampled for larger
     const useFullSearch = items.length <= 100;
     const searchLimit = useFullSearch ? itemsByNeed.length : 50;
@@ -295,8 +447,21 @@ export function selectNextPair(
         const pairKey = [itemA.id, itemB.id].sort().join('-');
         if (comparedPairs.has(pairKey)) continue;
 
-        const comparisonNeed = itemA.comparisonCount + itemB.comparisonCount;
-        const eloDiff = Math.abs(itemA.eloRating - itemB.eloRating);
+        if (useInformationGain) {
+          const gain = expectedInformationGain(
+            strengthBeliefOf(itemA, ratingModel),
+            strengthBeliefOf(itemB, ratingModel),
+          );
+          // Bridging components comes first; gains are far below BRIDGE_BONUS
+          const score = -gain - (bridgesComponents(itemA, itemB, options) ? BRIDGE_BONUS : 0);
+          if (!bestPair || score < bestPair.score) {
+            bestPair = { itemA, itemB, score };
+          }
+          continue;
+        }
+
+        const comparisonNeed = comparisonNeedOf(itemA, options) + comparisonNeedOf(itemB, options);
+        const eloDiff = Math.abs(ratingOf(itemA, options) - ratingOf(itemB, options));
 
         // Variety penalty
         const aRecency = recentItems.get(itemA.id) || 0;
@@ -308,10 +473,11 @@ export function selectNextPair(
         const sessionFairness =
           (sessionItemCounts.get(itemA.id) || 0) + (sessionItemCounts.get(itemB.id) || 0);
 
-        // Pair exposure: prefer pairs that have been compared fewer times
-        const pairExposure = pairExposures.get(pairKey) || 0;
+        // Pair exposure: prefer pairs that have been compared fewer times (across sessions when known)
+        const pairExposure = options.globalExposure?.pairCounts.get(pairKey) ?? pairExposures.get(pairKey) ?? 0;
 
-        const score = comparisonNeed * 10 + eloDiff + varietyPenalty + sessionFairness * 5 + pairExposure * 20;
+        const score = comparisonNeed * 10 + eloDiff + varietyPenalty + sessionFairness * 5 + pairExposure * 20
+          - globalPriorityOf(itemA, itemB, options);
 
         if (!bestPair || score < bestPair.score) {
           bestPair = { itemA, itemB, score };
@@ -353,36 +519,47 @@ export function selectNextPair(
     return null;
   }
 
-  // Assign left/right position with bias correction
+  return assignPairPositions(bestPair.itemA, bestPair.itemB);
+}
+
+/**
+ * Assign left/right positions with bias correction: the item that has been
+ * shown on the left more often goes right, ties are split 50/50
+ *
+ * @param itemA - First item of the pair
+ * @param itemB - Second item of the pair
+ * @returns Pair with display positions
+ */
+export function assignPairPositions(itemA: Item, itemB: Item): MatchPair {
   let leftItem: Item;
   let rightItem: Item;
 
-  const aLeftBias = bestPair.itemA.leftCount - bestPair.itemA.rightCount;
-  const bLeftBias = bestPair.itemB.leftCount - bestPair.itemB.rightCount;
+  const aLeftBias = itemA.leftCount - itemA.rightCount;
+  const bLeftBias = itemB.leftCount - itemB.rightCount;
 
   if (aLeftBias !== bLeftBias) {
     // Put the item with fewer left appearances on left
     if (aLeftBias < bLeftBias) {
-      leftItem = bestPair.itemA;
-      rightItem = bestPair.itemB;
+      leftItem = itemA;
+      rightItem = itemB;
     } else {
-      leftItem = bestPair.itemB;
-      rightItem = bestPair.itemA;
+      leftItem = itemB;
+      rightItem = itemA;
     }
   } else {
     // Random 50/50
     if (Math.random() < 0.5) {
-      leftItem = bestPair.itemA;
-      rightItem = bestPair.itemB;
+      leftItem = itemA;
+      rightItem = itemB;
     } else {
-      leftItem = bestPair.itemB;
-      rightItem = bestPair.itemA;
+      leftItem = itemB;
+      rightItem = itemA;
     }
   }
 
   return {
-    itemA: bestPair.itemA,
-    itemB: bestPair.itemB,
+    itemA,
+    itemB,
     leftItemId: leftItem.id,
     rightItemId: rightItem.id,
   };
@@ -455,7 +632,7 @@ export function getCategoryProgress(
 /**
  * Fisher-Yates shuffle for randomizing array order
  */
-function shuffleArray<T>(array: T[]): T[] {
+export function shuffleArray<T>(array: T[]): T[] {
   const result = [...array];
   for (let i = result.length - 1; i > 0; i--) {
     const j = Math.floor(Math.random() * (i + 1));
@@ -469,7 +646,7 @@ function shuffleArray<T>(array: T[]): T[] {
  * Quad comparisons create 3 records: winner vs each loser.
  * To find all 4 items, we group by winner (itemAId) and collect all losers (itemBId).
  */
-function getQuadItemIds(sessionComparisons: Comparison[]): Set<string>[] {
+export function getQuadItemIds(sessionComparisons: Comparison[]): Set<string>[] {
   // Group comparisons by winner (itemAId) to reconstruct quads
   // A quad vote creates: (winner, loser1), (winner, loser2), (winner, loser3)
   const quads: Set<string>[] = [];
@@ -493,7 +670,7 @@ function getQuadItemIds(sessionComparisons: Comparison[]): Set<string>[] {
 /**
  * Check if a set of 4 item IDs matches a previously shown quad.
  */
-function isQuadAlreadyShown(itemIds: Set<string>, shownQuads: Set<string>[]): boolean {
+export function isQuadAlreadyShown(itemIds: Set<string>, shownQuads: Set<string>[]): boolean {
   for (const shown of shownQuads) {
     if (shown.size === itemIds.size) {
       let allMatch = true;
@@ -524,11 +701,13 @@ function isQuadAlreadyShown(itemIds: Set<string>, shownQuads: Set<string>[]): bo
  *
  * @param items - All items in the category
  * @param sessionComparisons - Comparisons already made in this session
+ * @param options - Uncertainty source (see MatchmakingOptions)
  * @returns Next quad to compare, or null if not enough items
  */
 export function selectNextQuad(
   items: Item[],
   sessionComparisons: Comparison[],
+  options: MatchmakingOptions = {},
 ): MatchQuad | null {
   if (items.length < 4) {
     return null;
@@ -583,8 +762,11 @@ export function selectNextQuad(
     let score = 0;
     // Prioritize unseen items (CRITICAL for coverage)
     if (!seen.has(item.id)) score -= 1000;
-    // Prefer items with fewer global comparisons
-    score += item.comparisonCount * 5;
+    // Prefer items with fewer global comparisons (or a higher RD)
+    score += comparisonNeedOf(item, options) * 5;
+    // Catch up items below minExposuresPerItem and pull in other graph components
+    score -= exposureDeficitOf(item, options) * UNDER_EXPOSURE_WEIGHT;
+    if (isOutsideMainComponent(item, options)) score -= OUTSIDE_MAIN_COMPONENT_BONUS;
     // Prefer items with fewer session appearances
     score += (sessionCounts.get(item.id) || 0) * 50; // Increased weight
     // Penalize recently shown items (items from last quad)
@@ -615,12 +797,12 @@ export function selectNextQuad(
 
       // On first attempt, try ELO diversity
       if (attempt === 0 && selected.length === 3) {
-        const avgElo = selected.reduce((sum, i) => sum + i.eloRating, 0) / 3;
-        const eloDiff = Math.abs(item.eloRating - avgElo);
+        const avgElo = selected.reduce((sum, i) => sum + ratingOf(i, options), 0) / 3;
+        const eloDiff = Math.abs(ratingOf(item, options) - avgElo);
         if (eloDiff < 50) {
           const remaining = candidates.slice(candidates.indexOf(item) + 1);
           const diverse = remaining.find((i) =>
-            !usedIds.has(i.id) && Math.abs(i.eloRating - avgElo) >= 50
+            !usedIds.has(i.id) && Math.abs(ratingOf(i, options) - avgElo) >= 50
           );
           if (diverse) {
             selected.push(diverse);
@@ -742,15 +924,20 @@ export function calculateTournamentQuads(winnerCount: number): number {
  * IMPROVED: Prevents duplicate quad combinations, adds randomization.
  * Focuses on win count sorting with variety guarantees.
  *
+ * With global exposure, winners below minExposuresPerItem or outside the
+ * largest graph component are preferred, as in selectNextQuad.
+ *
  * Returns null if fewer than 4 winners exist (need more coverage voting).
  *
  * @param items - All items in the category
  * @param sessionComparisons - Comparisons already made in this session
+ * @param options - Global exposure (see MatchmakingOptions)
  * @returns Next quad of winners, or null if not enough winners
  */
 export function selectNextQuadWinnersOnly(
   items: Item[],
   sessionComparisons: Comparison[],
+  options: MatchmakingOptions = {},
 ): MatchQuad | null {
   const winnerIds = getSessionWinnerIds(sessionComparisons);
   const winnerItems = items.filter((item) => winnerIds.has(item.id));
@@ -786,14 +973,14 @@ export function selectNextQuadWinnersOnly(
     randomTiebreaker.set(item.id, Math.random() * 5);
   }
 
-  // Score: prioritize top winners, penalize recently shown, add randomness
-  const sortedWinners = [...winnerItems].sort((a, b) => {
-    const aWins = winCounts.get(a.id) || 0;
-    const bWins = winCounts.get(b.id) || 0;
-    const aScore = aWins * 10 - (recentlyShown.has(a.id) ? 15 : 0) + (randomTiebreaker.get(a.id) || 0);
-    const bScore = bWins * 10 - (recentlyShown.has(b.id) ? 15 : 0) + (randomTiebreaker.get(b.id) || 0);
-    return bScore - aScore; // Higher score = more wins = better
-  });
+  // Score: prioritize top winners and under-exposed items, penalize recently shown, add randomness
+  const scoreWinner = (item: Item): number =>
+    (winCounts.get(item.id) || 0) * 10 +
+    exposureDeficitOf(item, options) * UNDER_EXPOSURE_WEIGHT +
+    (isOutsideMainComponent(item, options) ? OUTSIDE_MAIN_COMPONENT_BONUS : 0) -
+    (recentlyShown.has(item.id) ? 15 : 0) +
+    (randomTiebreaker.get(item.id) || 0);
+  const sortedWinners = [...winnerItems].sort((a, b) => scoreWinner(b) - scoreWinner(a)); // Higher = better
 
   // Try to find a quad combination that hasn't been shown
   const maxAttempts = 10;
@@ -838,3 +1025,114 @@ export function selectNextQuadWinnersOnly(
 
   return null;
 }
+
+/**
+ * Item sets shown in a session's ranking or best-worst votes. The rows of
+ * one vote share a choiceGroupId; rows without one are ignored.
+ *
+ * @param sessionComparisons - Comparisons already made in this session, oldest first
+ * @returns One set of item IDs per vote, oldest first
+ */
+export function getChoiceSetItemIds(sessionComparisons: ChoiceSetComparison[]): Set<string>[] {
+  const sets = new Map<string, Set<string>>();
+  for (const comp of sessionComparisons) {
+    if (!comp.choiceGroupId) continue;
+    let set = sets.get(comp.choiceGroupId);
+    if (!set) {
+      set = new Set();
+      sets.set(comp.choiceGroupId, set);
+    }
+    set.add(comp.itemAId);
+    set.add(comp.itemBId);
+  }
+  return Array.from(sets.values());
+}
+
+/**
+ * Select the next set of items to rank or to pick best and worst from
+ *
+ * Same goals as selectNextQuad: unseen items first, then items with the
+ * fewest global and session comparisons (and global exposure deficits),
+ * avoiding the items of the previous set and never repeating a set.
+ *
+ * @param items - All items in the category
+ * @param sessionComparisons - Comparisons already made in this session
+ * @param setSize - Items per set (Study.choiceSetSize)
+ * @param options - Uncertainty source (see MatchmakingOptions)
+ * @returns Next set, or null with fewer than setSize items
+ */
+export function selectNextChoiceSet(
+  items: Item[],
+  sessionComparisons: ChoiceSetComparison[],
+  setSize: number,
+  options: MatchmakingOptions = {},
+): MatchSet | null {
+  if (items.length < setSize) {
+    return null;
+  }
+
+  const shownSets = getChoiceSetItemIds(sessionComparisons);
+  const sessionCounts = new Map<string, number>();
+  for (const set of shownSets) {
+    for (const id of set) {
+      sessionCounts.set(id, (sessionCounts.get(id) || 0) + 1);
+    }
+  }
+  const recentlyShown = shownSets[shownSets.length - 1] ?? new Set<string>();
+
+  // Score function for item selection (lower = better), with a random tiebreaker
+  const scores = new Map<string, number>();
+  for (const item of items) {
+    let score = 0;
+    if (!sessionCounts.has(item.id)) score -= 1000;
+    score += comparisonNeedOf(item, options) * 5;
+    score -= exposureDeficitOf(item, options) * UNDER_EXPOSURE_WEIGHT;
+    if (isOutsideMainComponent(item, options)) score -= OUTSIDE_MAIN_COMPONENT_BONUS;
+    score += (sessionCounts.get(item.id) || 0) * 50;
+    if (recentlyShown.has(item.id)) score += 200;
+    score += Math.random() * 10;
+    scores.set(item.id, score);
+  }
+  const sortedItems = [...items].sort((a, b) => scores.get(a.id)! - scores.get(b.id)!);
+
+  const maxAttempts = 20;
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    // Shuffle the best candidates on retries for a set not shown yet
+    const pool = Math.max(setSize * 3, 12);
+    const candidates = attempt === 0
+      ? sortedItems
+      : shuffleArray(sortedItems.slice(0, pool)).concat(sortedItems.slice(pool));
+    const selected = candidates.slice(0, setSize);
+
+    if (!isQuadAlreadyShown(new Set(selected.map((item) => item.id)), shownSets)) {
+      return { items: selected, positions: shuffleArray(selected.map((item) => item.id)) };
+    }
+  }
+
+  // Every nearby combination was shown already: any random set
+  const selected = shuffleArray([...items]).slice(0, setSize);
+  return { items: selected, positions: shuffleArray(selected.map((item) => item.id)) };
+}
+
+/**
+ * Recommended ranking or best-worst sets per reviewer
+ *
+ * Like calculateRecommendedQuadComparisons: at least ceil(N / setSize) sets
+ * so every item can appear, otherwise the pairwise target spread over the
+ * setSize - 1 opponents each item meets in a set.
+ *
+ * @param itemCount - Number of items in the category
+ * @param setSize - Items per set
+ * @param reviewerCount - Expected number of reviewers
+ * @returns Recommended sets per reviewer
+ */
+export function calculateRecommendedChoiceSets(
+  itemCount: number,
+  setSize: number,
+  reviewerCount: number = 5,
+): number {
+  const coverageMinimum = Math.ceil(itemCount / setSize);
+  const statisticalTarget = Math.ceil(calculateRecommendedComparisons(itemCount, reviewerCount) / (setSize - 1));
+  const maxSets = Math.max(30, Math.ceil(itemCount / 2));
+  return Math.max(coverageMinimum, Math.min(maxSets, statisticalTarget));
+}
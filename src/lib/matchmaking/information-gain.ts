@@ -0,0 +1,75 @@
+/**
+ * Information-Gain Pair Scoring for SciBLIND
+ *
+ * Alternative to the hand-tuned weights in selectNextPair: a pair is scored
+ * by how much its outcome is expected to tell us about the two items under
+ * the study's current model (Elo, Glicko-2 or Bradley-Terry).
+ *
+ * Each item is a Gaussian belief over its strength on the logit scale. For a
+ * pair with difference Δ ~ N(μ_a − μ_b, σ_a² + σ_b²) the win probability is
+ *   p = 1 / (1 + e^(−g(s)·(μ_a − μ_b))),   g(s) = 1 / √(1 + 3s²/π²)
+ * and one outcome carries Fisher information p(1 − p) about Δ, so the
+ * expected reduction in the entropy of Δ (Laplace approximation) is
+ *   IG = ½ · ln(1 + (σ_a² + σ_b²) · p(1 − p))
+ * Close matchups between uncertain items score highest.
+ */
+
+import type { Item } from '@prisma/client';
+import { calculateEloStdError } from '@/lib/ranking/statistics';
+import { GLICKO2_DEFAULT_RD } from '@/lib/ranking/glicko2';
+
+/** Elo / Glicko points per logit (400 / ln 10) */
+const RATING_POINTS_PER_LOGIT = 400 / Math.LN10;
+
+/** Uncertainty of an item nothing is known about: the initial Glicko RD, in logits */
+const PRIOR_SD = GLICKO2_DEFAULT_RD / RATING_POINTS_PER_LOGIT;
+
+export type RatingModel = 'elo' | 'glicko2' | 'bradley_terry';
+
+export interface StrengthBelief {
+  /** Strength on the logit scale */
+  mean: number;
+  /** Standard deviation on the logit scale */
+  sd: number;
+}
+
+/**
+ * Current belief about an item's strength under a rating model
+ *
+ * @param item - Item with its persisted ratings
+ * @param model - Which rating the study ranks by
+ * @returns Mean and SD on the logit scale (SD never above the prior)
+ */
+export function strengthBeliefOf(item: Item, model: RatingModel): StrengthBelief {
+  switch (model) {
+    case 'glicko2':
+      return {
+        mean: item.glickoRating / RATING_POINTS_PER_LOGIT,
+        sd: Math.min(item.glickoRd / RATING_POINTS_PER_LOGIT, PRIOR_SD),
+      };
+    case 'bradley_terry':
+      return {
+        mean: item.btAbility,
+        sd: Math.min(item.btStdError ?? PRIOR_SD, PRIOR_SD),
+      };
+    default:
+      return {
+        mean: item.eloRating / RATING_POINTS_PER_LOGIT,
+        sd: Math.min(calculateEloStdError(item.comparisonCount) / RATING_POINTS_PER_LOGIT, PRIOR_SD),
+      };
+  }
+}
+
+/**
+ * Expected information gain (in nats) from comparing two items once
+ *
+ * @param a - Belief about item A
+ * @param b - Belief about item B
+ * @returns Expected entropy reduction of the strength difference
+ */
+export function expectedInformationGain(a: StrengthBelief, b: StrengthBelief): number {
+  const variance = a.sd * a.sd + b.sd * b.sd;
+  const damping = 1 / Math.sqrt(1 + (3 * variance) / (Math.PI * Math.PI));
+  const p = 1 / (1 + Math.exp(-damping * (a.mean - b.mean)));
+  return 0.5 * Math.log(1 + variance * p * (1 - p));
+}
@@ -0,0 +1,657 @@
+/**
+ * Matchmaking Strategy Registry for SciBLIND
+ *
+ * Each study chooses how pairs and quads are picked through a validated JSON
+ * config on Study.matchmakingConfig:
+ *
+ *   { "strategy": "swiss", "params": { "scoreBy": "rating" } }
+ *
+ * null means coverage-first with its defaults (the original behaviour), and
+ * omitted params keep their defaults. Built-in strategies:
+ * - coverage-first: the weighted heuristics of selectNextPair/selectNextQuad,
+ *   ending quad sessions with a winners-only tournament
+ * - adaptive: coverage first, then the most informative pair or quad
+ *   (expected information gain under the study's rating model)
+ * - swiss: Swiss-system rounds; every item is shown once per round, paired
+ *   with the closest-scoring item it has not met yet
+ * - tournament: coverage first, then only items that already won in this
+ *   session are matched against each other
+ * - top-n: coverage first, then concentrate on items whose confidence
+ *   interval overlaps the study's targetTopN boundary (successive elimination)
+ * - random: uniformly random new pairs/quads (baseline for method studies)
+ *
+ * Every vote records the strategy and its version in Comparison.algoVersion
+ * (e.g. "sciblind-v2/swiss@1"). Bump a strategy's version whenever its
+ * selection behaviour changes, so data collected under both can be told apart.
+ */
+
+import type { Item, Comparison } from '@prisma/client';
+import {
+  assignPairPositions,
+  getQuadItemIds,
+  hasFullCoverage,
+  isQuadAlreadyShown,
+  ratingModelOf,
+  ratingOf,
+  selectNextPair,
+  selectNextQuad,
+  selectNextQuadWinnersOnly,
+  shuffleArray,
+  type MatchmakingOptions,
+  type MatchPair,
+  type MatchQuad,
+} from './index';
+import { expectedInformationGain, strengthBeliefOf } from './information-gain';
+import { checkTopNSeparation } from '@/lib/ranking/statistics';
+
+/** algoVersion prefix of pairwise votes (the vote engine version) */
+export const PAIR_ENGINE_VERSION = 'sciblind-v2';
+
+/** algoVersion prefix of quad votes */
+export const QUAD_ENGINE_VERSION = 'sciblind-v2-quad';
+
+export const DEFAULT_MATCHMAKING_STRATEGY = 'coverage-first';
+
+export type StrategyParamValue = number | boolean | string;
+export type StrategyParams = Record<string, StrategyParamValue>;
+
+/** One tunable parameter of a strategy */
+export interface StrategyParamSpec {
+  type: 'integer' | 'boolean' | 'enum';
+  default: StrategyParamValue;
+  /** Bounds for integers (inclusive) */
+  min?: number;
+  max?: number;
+  /** Allowed values for enums */
+  values?: string[];
+  description: string;
+}
+
+export interface MatchmakingContext {
+  /** All items in the category */
+  items: Item[];
+  /** Comparisons already made in this session, oldest first */
+  sessionComparisons: Comparison[];
+  /** Rating model and global exposure from the route */
+  options: MatchmakingOptions;
+  /** Quad mode: the base target is reached and the session is in its final quads */
+  inTournamentPhase?: boolean;
+}
+
+export interface MatchmakingStrategy {
+  id: string;
+  /** Bumped whenever selection behaviour changes (recorded in algoVersion) */
+  version: number;
+  description: string;
+  params: Record<string, StrategyParamSpec>;
+  selectPair(context: MatchmakingContext, params: StrategyParams): MatchPair | null;
+  selectQuad(context: MatchmakingContext, params: StrategyParams): MatchQuad | null;
+}
+
+export interface MatchmakingConfig {
+  strategy: string;
+  /** Every parameter of the strategy, defaults filled in */
+  params: StrategyParams;
+}
+
+// ===== Shared parameters =====
+
+const STREAK_LIMIT_PARAM: StrategyParamSpec = {
+  type: 'integer',
+  default: 2,
+  min: 1,
+  max: 10,
+  description: 'Block an item after this many consecutive appearances',
+};
+
+const RECENT_WINDOW_PARAM: StrategyParamSpec = {
+  type: 'integer',
+  default: 3,
+  min: 0,
+  max: 10,
+  description: 'Recent comparisons whose items are penalized for variety',
+};
+
+// ===== Session helpers =====
+
+function pairKey(a: string, b: string): string {
+  return [a, b].sort().join('-');
+}
+
+function countSessionWins(sessionComparisons: Comparison[]): Map<string, number> {
+  const wins = new Map<string, number>();
+  for (const comp of sessionComparisons) {
+    if (comp.winnerId) wins.set(comp.winnerId, (wins.get(comp.winnerId) || 0) + 1);
+  }
+  return wins;
+}
+
+function countSessionAppearances(items: Item[], sessionComparisons: Comparison[]): Map<string, number> {
+  const counts = new Map<string, number>(items.map((item) => [item.id, 0]));
+  for (const comp of sessionComparisons) {
+    counts.set(comp.itemAId, (counts.get(comp.itemAId) || 0) + 1);
+    counts.set(comp.itemBId, (counts.get(comp.itemBId) || 0) + 1);
+  }
+  return counts;
+}
+
+function toQuad(items: Item[]): MatchQuad {
+  return { items, positions: shuffleArray(items.map((item) => item.id)) };
+}
+
+// ===== Built-in strategies =====
+
+const coverageFirst: MatchmakingStrategy = {
+  id: 'coverage-first',
+  version: 1,
+  description:
+    'Show every item first, then balance comparison counts and prefer close ratings; quad sessions end with a winners-only tournament',
+  params: {
+    streakLimit: STREAK_LIMIT_PARAM,
+    recentWindow: RECENT_WINDOW_PARAM,
+    winnersOnlyTournament: {
+      type: 'boolean',
+      default: true,
+      description: 'Quad mode: draw the final quads from session winners only',
+    },
+  },
+  selectPair({ items, sessionComparisons, options }, params) {
+    return selectNextPair(items, sessionComparisons, {
+      ...options,
+      strategy: 'balanced',
+      streakLimit: params.streakLimit as number,
+      recentWindow: params.recentWindow as number,
+    });
+  },
+  selectQuad({ items, sessionComparisons, options, inTournamentPhase }, params) {
+    if (inTournamentPhase && params.winnersOnlyTournament) {
+      const quad = selectNextQuadWinnersOnly(items, sessionComparisons, options);
+      if (quad) return quad;
+    }
+    return selectNextQuad(items, sessionComparisons, options);
+  },
+};
+
+const adaptive: MatchmakingStrategy = {
+  id: 'adaptive',
+  version: 1,
+  description:
+    'Show every item first, then pick the comparison expected to tell the most under the study\'s rating model',
+  params: {
+    streakLimit: STREAK_LIMIT_PARAM,
+  },
+  selectPair({ items, sessionComparisons, options }, params) {
+    return selectNextPair(items, sessionComparisons, {
+      ...options,
+      strategy: 'information_gain',
+      streakLimit: params.streakLimit as number,
+    });
+  },
+  selectQuad({ items, sessionComparisons, options }) {
+    if (items.length < 4) return null;
+    if (!hasFullCoverage(items, sessionComparisons)) {
+      return selectNextQuad(items, sessionComparisons, options);
+    }
+
+    // Greedy: start from the most uncertain item, then add the item with the
+    // highest total information gain against the ones already chosen
+    const model = ratingModelOf(options);
+    const beliefs = new Map(items.map((item) => [item.id, strengthBeliefOf(item, model)]));
+    const shownQuads = getQuadItemIds(sessionComparisons);
+    const lastQuad = shownQuads[shownQuads.length - 1] ?? new Set<string>();
+    const fresh = items.filter((item) => !lastQuad.has(item.id));
+    const candidates = fresh.length >= 4 ? fresh : items;
+
+    const seed = [...candidates].sort(
+      (a, b) => beliefs.get(b.id)!.sd - beliefs.get(a.id)!.sd || a.comparisonCount - b.comparisonCount,
+    )[0];
+    const selected: Item[] = [seed];
+
+    while (selected.length < 4) {
+      let best: { item: Item; gain: number } | null = null;
+      for (const item of candidates) {
+        if (selected.includes(item)) continue;
+        const gain = selected.reduce(
+          (sum, chosen) => sum + expectedInformationGain(beliefs.get(item.id)!, beliefs.get(chosen.id)!),
+          0,
+        );
+        if (!best || gain > best.gain) best = { item, gain };
+      }
+      selected.push(best!.item);
+    }
+
+    if (isQuadAlreadyShown(new Set(selected.map((item) => item.id)), shownQuads)) {
+      return selectNextQuad(items, sessionComparisons, options);
+    }
+    return toQuad(selected);
+  },
+};
+
+const swiss: MatchmakingStrategy = {
+  id: 'swiss',
+  version: 1,
+  description:
+    'Swiss-system rounds: every item is shown once per round against the closest-scoring item it has not met',
+  params: {
+    scoreBy: {
+      type: 'enum',
+      default: 'session',
+      values: ['session', 'rating'],
+      description: 'Pair by wins in this session or by the global rating',
+    },
+  },
+  selectPair({ items, sessionComparisons, options }, params) {
+    if (items.length < 2) return null;
+
+    const compared = new Set(sessionComparisons.map((comp) => pairKey(comp.itemAId, comp.itemBId)));
+    const wins = countSessionWins(sessionComparisons);
+    const appearances = countSessionAppearances(items, sessionComparisons);
+    const scoreOf = (item: Item) =>
+      params.scoreBy === 'rating' ? ratingOf(item, options) : wins.get(item.id) || 0;
+
+    // Items that have not played in the current round, strongest first
+    const round = Math.min(...items.map((item) => appearances.get(item.id)!));
+    const waiting = items
+      .filter((item) => appearances.get(item.id) === round)
+      .sort((a, b) => scoreOf(b) - scoreOf(a) || ratingOf(b, options) - ratingOf(a, options));
+
+    const closestOpponent = (item: Item, pool: Item[]): Item | null => {
+      let best: Item | null = null;
+      for (const other of pool) {
+        if (other.id === item.id || compared.has(pairKey(item.id, other.id))) continue;
+        if (!best || Math.abs(scoreOf(other) - scoreOf(item)) < Math.abs(scoreOf(best) - scoreOf(item))) {
+          best = other;
+        }
+      }
+      return best;
+    };
+
+    // Within the round first; the odd item out (or one that has met everyone
+    // waiting) plays an item from the next round
+    for (const pool of [waiting, items]) {
+      for (const item of waiting) {
+        const opponent = closestOpponent(item, pool);
+        if (opponent) return assignPairPositions(item, opponent);
+      }
+    }
+
+    // Only pairs among items that already played this round remain
+    for (const item of items) {
+      const opponent = closestOpponent(item, items);
+      if (opponent) return assignPairPositions(item, opponent);
+    }
+    return null;
+  },
+  selectQuad({ items, sessionComparisons, options }, params) {
+    if (items.length < 4) return null;
+
+    const wins = countSessionWins(sessionComparisons);
+    const appearances = countSessionAppearances(items, sessionComparisons);
+    const scoreOf = (item: Item) =>
+      params.scoreBy === 'rating' ? ratingOf(item, options) : wins.get(item.id) || 0;
+    const byScore = (a: Item, b: Item) => scoreOf(b) - scoreOf(a) || ratingOf(b, options) - ratingOf(a, options);
+
+    // Waiting items in score order, then the rest of the field to fill up
+    const round = Math.min(...items.map((item) => appearances.get(item.id)!));
+    const pool = [
+      ...items.filter((item) => appearances.get(item.id) === round).sort(byScore),
+      ...items.filter((item) => appearances.get(item.id) !== round).sort(byScore),
+    ];
+
+    const shownQuads = getQuadItemIds(sessionComparisons);
+    for (let start = 0; start + 4 <= pool.length; start++) {
+      const group = pool.slice(start, start + 4);
+      if (!isQuadAlreadyShown(new Set(group.map((item) => item.id)), shownQuads)) {
+        return toQuad(group);
+      }
+    }
+    return selectNextQuad(items, sessionComparisons, options);
+  },
+};
+
+const tournament: MatchmakingStrategy = {
+  id: 'tournament',
+  version: 1,
+  description: 'Show every item first, then match only items that already won in this session',
+  params: {
+    minWins: {
+      type: 'integer',
+      default: 1,
+      min: 1,
+      max: 10,
+      description: 'Session wins an item needs to stay in the tournament',
+    },
+    streakLimit: STREAK_LIMIT_PARAM,
+  },
+  selectPair({ items, sessionComparisons, options }, params) {
+    const pairOptions = { ...options, streakLimit: params.streakLimit as number };
+    if (!hasFullCoverage(items, sessionComparisons)) {
+      return selectNextPair(items, sessionComparisons, pairOptions);
+    }
+
+    const wins = countSessionWins(sessionComparisons);
+    const winners = items.filter((item) => (wins.get(item.id) || 0) >= (params.minWins as number));
+    return (
+      (winners.length >= 2 ? selectNextPair(winners, sessionComparisons, pairOptions) : null) ??
+      selectNextPair(items, sessionComparisons, pairOptions)
+    );
+  },
+  selectQuad({ items, sessionComparisons, options }, params) {
+    if (!hasFullCoverage(items, sessionComparisons)) {
+      return selectNextQuad(items, sessionComparisons, options);
+    }
+
+    const wins = countSessionWins(sessionComparisons);
+    const winners = items.filter((item) => (wins.get(item.id) || 0) >= (params.minWins as number));
+    return selectNextQuadWinnersOnly(winners, sessionComparisons, options) ?? selectNextQuad(items, sessionComparisons, options);
+  },
+};
+
+/** Interval half-widths (in SDs) for the top-n confidence levels */
+const CONFIDENCE_Z: Record<string, number> = { '80': 1.2816, '90': 1.6449, '95': 1.96, '99': 2.5758 };
+
+/**
+ * Items ordered by how close they are to the top-N boundary (in SDs of their
+ * own uncertainty), plus how many of them are still contested. null when the
+ * study has no usable targetTopN.
+ */
+function rankAroundTopNBoundary(
+  items: Item[],
+  options: MatchmakingOptions,
+  z: number,
+): { ordered: Item[]; contested: number } | null {
+  if (!options.targetTopN) return null;
+
+  const model = ratingModelOf(options);
+  const ranked = items
+    .map((item) => ({ item, belief: strengthBeliefOf(item, model) }))
+    .sort((a, b) => b.belief.mean - a.belief.mean);
+  const separation = checkTopNSeparation(
+    ranked.map(({ item, belief }) => ({ id: item.id, score: belief.mean, stdError: belief.sd })),
+    options.targetTopN,
+    z,
+  );
+  if (!separation) return null;
+
+  const distance = (belief: { mean: number; sd: number }) =>
+    Math.abs(belief.mean - separation.boundary) / Math.max(belief.sd, 1e-9);
+  const contested = new Set(separation.contestedItemIds);
+  const ordered = ranked
+    .sort((a, b) =>
+      Number(contested.has(b.item.id)) - Number(contested.has(a.item.id)) || distance(a.belief) - distance(b.belief),
+    )
+    .map(({ item }) => item);
+  return { ordered, contested: contested.size };
+}
+
+const topN: MatchmakingStrategy = {
+  id: 'top-n',
+  version: 1,
+  description:
+    'Show every item first, then concentrate on items whose confidence interval overlaps the targetTopN boundary; without targetTopN this is coverage-first',
+  params: {
+    confidence: {
+      type: 'enum',
+      default: '95',
+      values: Object.keys(CONFIDENCE_Z),
+      description: 'Confidence level (%) of the intervals that decide which items are still contested',
+    },
+    streakLimit: STREAK_LIMIT_PARAM,
+  },
+  selectPair({ items, sessionComparisons, options }, params) {
+    const pairOptions = { ...options, streakLimit: params.streakLimit as number };
+    const focus = hasFullCoverage(items, sessionComparisons)
+      ? rankAroundTopNBoundary(items, options, CONFIDENCE_Z[params.confidence as string])
+      : null;
+
+    // Most informative new pair among contested items; once the top N are
+    // separated (or those pairs are used up) this is plain coverage-first
+    if (focus && focus.contested >= 2) {
+      const contested = focus.ordered.slice(0, focus.contested);
+      const pair = selectNextPair(contested, sessionComparisons, { ...pairOptions, strategy: 'information_gain' });
+      if (pair) return pair;
+    }
+    return selectNextPair(items, sessionComparisons, { ...pairOptions, strategy: 'balanced' });
+  },
+  selectQuad({ items, sessionComparisons, options }, params) {
+    if (items.length < 4) return null;
+    const focus = hasFullCoverage(items, sessionComparisons)
+      ? rankAroundTopNBoundary(items, options, CONFIDENCE_Z[params.confidence as string])
+      : null;
+
+    // Contested items closest to the boundary, topped up with the nearest others
+    if (focus && focus.contested >= 2) {
+      const shownQuads = getQuadItemIds(sessionComparisons);
+      for (let start = 0; start < focus.contested && start + 4 <= focus.ordered.length; start++) {
+        const group = focus.ordered.slice(start, start + 4);
+        if (!isQuadAlreadyShown(new Set(group.map((item) => item.id)), shownQuads)) {
+          return toQuad(group);
+        }
+      }
+    }
+    return selectNextQuad(items, sessionComparisons, options);
+  },
+};
+
+/** Random draws before giving up on finding a quad not shown yet */
+const RANDOM_QUAD_ATTEMPTS = 50;
+
+const random: MatchmakingStrategy = {
+  id: 'random',
+  version: 1,
+  description: 'Uniformly random pairs or quads not shown yet in this session (baseline)',
+  params: {},
+  selectPair({ items, sessionComparisons }) {
+    const compared = new Set(sessionComparisons.map((comp) => pairKey(comp.itemAId, comp.itemBId)));
+    const open: [Item, Item][] = [];
+    for (let i = 0; i < items.length; i++) {
+      for (let j = i + 1; j < items.length; j++) {
+        if (!compared.has(pairKey(items[i].id, items[j].id))) open.push([items[i], items[j]]);
+      }
+    }
+    if (open.length === 0) return null;
+
+    // Positions are random too, so this baseline carries no position correction
+    const [itemA, itemB] = shuffleArray(open[Math.floor(Math.random() * open.length)]);
+    return { itemA, itemB, leftItemId: itemA.id, rightItemId: itemB.id };
+  },
+  selectQuad({ items, sessionComparisons }) {
+    if (items.length < 4) return null;
+
+    const shownQuads = getQuadItemIds(sessionComparisons);
+    let group = shuffleArray(items).slice(0, 4);
+    for (let attempt = 1; attempt < RANDOM_QUAD_ATTEMPTS; attempt++) {
+      if (!isQuadAlreadyShown(new Set(group.map((item) => item.id)), shownQuads)) break;
+      group = shuffleArray(items).slice(0, 4);
+    }
+    return toQuad(group);
+  },
+};
+
+// ===== Registry =====
+
+const registry = new Map<string, MatchmakingStrategy>();
+
+/**
+ * Add a strategy to the registry
+ *
+ * @param strategy - Strategy with a unique id
+ * @throws If a strategy with the same id is already registered
+ */
+export function registerMatchmakingStrategy(strategy: MatchmakingStrategy): void {
+  if (registry.has(strategy.id)) {
+    throw new Error(`Matchmaking strategy already registered: ${strategy.id}`);
+  }
+  registry.set(strategy.id, strategy);
+}
+
+for (const strategy of [coverageFirst, adaptive, swiss, tournament, topN, random]) {
+  registerMatchmakingStrategy(strategy);
+}
+
+/**
+ * Look up a registered strategy
+ *
+ * @param id - Strategy id
+ * @returns The strategy, or undefined if unknown
+ */
+export function getMatchmakingStrategy(id: string): MatchmakingStrategy | undefined {
+  return registry.get(id);
+}
+
+/**
+ * All registered strategies, in registration order
+ */
+export function listMatchmakingStrategies(): MatchmakingStrategy[] {
+  return Array.from(registry.values());
+}
+
+// ===== Configuration =====
+
+/**
+ * Validate a matchmakingConfig value from an admin request or the database.
+ *
+ * @param value - Raw value ({ strategy, params? })
+ * @returns Config with every parameter filled in, or an error message
+ */
+export function parseMatchmakingConfig(value: unknown): {
+  valid: boolean;
+  data?: MatchmakingConfig;
+  error?: string;
+} {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, error: 'matchmakingConfig must be an object' };
+  }
+
+  const { strategy: id, params: rawParams, ...rest } = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(rest);
+  if (unknownKeys.length > 0) {
+    return { valid: false, error: `Unknown matchmakingConfig field: ${unknownKeys[0]}` };
+  }
+
+  const strategy = typeof id === 'string' ? registry.get(id) : undefined;
+  if (!strategy) {
+    return {
+      valid: false,
+      error: `Invalid matchmakingConfig.strategy. Must be one of: ${Array.from(registry.keys()).join(', ')}`,
+    };
+  }
+
+  if (rawParams !== undefined && (!rawParams || typeof rawParams !== 'object' || Array.isArray(rawParams))) {
+    return { valid: false, error: 'matchmakingConfig.params must be an object' };
+  }
+
+  const provided = (rawParams ?? {}) as Record<string, unknown>;
+  for (const name of Object.keys(provided)) {
+    if (!strategy.params[name]) {
+      const known = Object.keys(strategy.params);
+      return {
+        valid: false,
+        error: known.length > 0
+          ? `Unknown parameter for ${strategy.id}: ${name}. Must be one of: ${known.join(', ')}`
+          : `Strategy ${strategy.id} takes no parameters`,
+      };
+    }
+  }
+
+  const params: StrategyParams = {};
+  for (const [name, spec] of Object.entries(strategy.params)) {
+    const raw = provided[name];
+    if (raw === undefined) {
+      params[name] = spec.default;
+      continue;
+    }
+
+    const field = `matchmakingConfig.params.${name}`;
+    if (spec.type === 'integer') {
+      if (!Number.isInteger(raw) || (raw as number) < spec.min! || (raw as number) > spec.max!) {
+        return { valid: false, error: `${field} must be an integer between ${spec.min} and ${spec.max}` };
+      }
+    } else if (spec.type === 'boolean') {
+      if (typeof raw !== 'boolean') {
+        return { valid: false, error: `${field} must be true or false` };
+      }
+    } else if (!spec.values!.includes(raw as string)) {
+      return { valid: false, error: `${field} must be one of: ${spec.values!.join(', ')}` };
+    }
+    params[name] = raw as StrategyParamValue;
+  }
+
+  return { valid: true, data: { strategy: strategy.id, params } };
+}
+
+/**
+ * Config a study runs with. Missing or invalid stored configs (e.g. naming a
+ * strategy that no longer exists) fall back to coverage-first defaults.
+ *
+ * @param stored - Study.matchmakingConfig
+ * @returns Valid config with every parameter filled in
+ */
+export function resolveMatchmakingConfig(stored: unknown): MatchmakingConfig {
+  if (stored) {
+    const parsed = parseMatchmakingConfig(stored);
+    if (parsed.valid) return parsed.data!;
+  }
+  return parseMatchmakingConfig({ strategy: DEFAULT_MATCHMAKING_STRATEGY }).data!;
+}
+
+/**
+ * Select the next pair with a study's configured strategy
+ *
+ * @param config - Resolved study config (see resolveMatchmakingConfig)
+ * @param context - Items, session comparisons and route options
+ * @returns Next pair, or null if all pairs are exhausted
+ */
+export function selectPairWithStrategy(config: MatchmakingConfig, context: MatchmakingContext): MatchPair | null {
+  return registry.get(config.strategy)!.selectPair(context, config.params);
+}
+
+/**
+ * Select the next quad with a study's configured strategy
+ *
+ * @param config - Resolved study config (see resolveMatchmakingConfig)
+ * @param context - Items, session comparisons, route options and quad phase
+ * @returns Next quad, or null with fewer than 4 items
+ */
+export function selectQuadWithStrategy(config: MatchmakingConfig, context: MatchmakingContext): MatchQuad | null {
+  return registry.get(config.strategy)!.selectQuad(context, config.params);
+}
+
+// ===== algoVersion =====
+
+/**
+ * algoVersion stored on comparisons: vote engine, strategy and its version
+ *
+ * @param mode - Comparison mode of the vote
+ * @param config - Strategy config in effect when the vote was recorded
+ * @returns e.g. "sciblind-v2-quad/coverage-first@1"
+ */
+export function formatAlgoVersion(mode: 'pair' | 'quad', config: MatchmakingConfig): string {
+  const engine = mode === 'quad' ? QUAD_ENGINE_VERSION : PAIR_ENGINE_VERSION;
+  const version = registry.get(config.strategy)?.version ?? 0;
+  return `${engine}/${config.strategy}@${version}`;
+}
+
+/**
+ * Split a stored algoVersion. Comparisons recorded before strategies existed
+ * carry only the engine ("sciblind-v2" / "sciblind-v2-quad").
+ *
+ * @param algoVersion - Comparison.algoVersion
+ * @returns Engine, and strategy id/version when recorded
+ */
+export function parseAlgoVersion(algoVersion: string): {
+  engine: string;
+  strategy: string | null;
+  strategyVersion: number | null;
+} {
+  const [engine, strategyPart] = algoVersion.split('/', 2);
+  if (!strategyPart) return { engine, strategy: null, strategyVersion: null };
+
+  const at = strategyPart.lastIndexOf('@');
+  const version = at >= 0 ? parseInt(strategyPart.slice(at + 1), 10) : NaN;
+  return {
+    engine,
+    strategy: at >= 0 ? strategyPart.slice(0, at) : strategyPart,
+    strategyVersion: Number.isInteger(version) ? version : null,
+  };
+}
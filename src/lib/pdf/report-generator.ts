@@ -3,6 +3,14 @@
  *
  * Generates configurable PDF reports for study results.
  * Uses Sharp for image compression to keep file sizes manageable.
+ *
+ * Bradley-Terry studies are ranked by the persisted BT ability and show its
+ * 95% confidence interval; Glicko-2 studies by their Glicko rating with its
+ * rating deviation. The Elo explanation page is replaced by one for the
+ * study's ranking method.
+ *
+ * The agreement section reports how much the evaluators agree (Kendall's W,
+ * Krippendorff's α and a τ heatmap, see lib/ranking/agreement).
  */
 
 import { PrismaClient, Study, Category, Item, Session, Comparison } from '@prisma/client';
@@ -10,6 +18,10 @@ import PDFDocument from 'pdfkit';
 import sharp from 'sharp';
 import * as fs from 'fs';
 import * as path from 'path';
+import { getStorage } from '@/lib/storage';
+import { btConfidenceInterval, compareItemsByBradleyTerry } from '@/lib/ranking/bradley-terry';
+import { compareItemsByGlicko } from '@/lib/ranking/glicko2';
+import { analyzeAgreement, selectPanel } from '@/lib/ranking/agreement';
 
 // Types
 export interface ReportConfig {
@@ -19,6 +31,7 @@ export interface ReportConfig {
   includeVotingProcess: boolean;
   includeEloExplanation: boolean;
   includeFullRankings: boolean;
+  includeAgreement: boolean;
 
   // Visual options
   winnersPerCategory: number; // 4, 8, or 12
@@ -55,6 +68,7 @@ export const DEFAULT_REPORT_CONFIG: ReportConfig = {
   includeVotingProcess: true,
   includeEloExplanation: true,
   includeFullRankings: true,
+  includeAgreement: true,
 
   winnersPerCategory: 4,
   showArtistRank: true,
@@ -122,6 +136,8 @@ export class ReportGenerator {
   private colors: ReturnType<typeof deriveColors>;
   private data: ReportData;
   private pageNum: number = 1;
+  private readonly usesBT: boolean;
+  private readonly usesGlicko: boolean;
 
   private readonly pageWidth = 595.28;
   private readonly pageHeight = 841.89;
@@ -130,6 +146,8 @@ export class ReportGenerator {
 
   constructor(data: ReportData, config: Partial<ReportConfig> = {}) {
     this.data = data;
+    this.usesBT = data.study.rankingMethod === 'BRADLEY_TERRY';
+    this.usesGlicko = data.study.rankingMethod === 'GLICKO2';
     this.config = { ...DEFAULT_REPORT_CONFIG, ...config };
     this.colors = deriveColors(this.config);
     this.contentWidth = this.pageWidth - 2 * this.margin;
@@ -169,7 +187,13 @@ export class ReportGenerator {
         // Prepare category stats
         const categoryStats = this.data.study.categories.map(cat => {
           const catItems = this.data.items.filter(i => i.categoryId === cat.id);
-          const sortedItems = [...catItems].sort((a, b) => b.eloRating - a.eloRating);
+          const sortedItems = [...catItems].sort(
+            this.usesBT
+              ? compareItemsByBradleyTerry
+              : this.usesGlicko
+                ? compareItemsByGlicko
+                : (a, b) => b.eloRating - a.eloRating
+          );
           const topN = sortedItems.slice(0, this.config.winnersPerCategory);
           return { category: cat, items: catItems, sortedItems, topN };
         });
@@ -180,7 +204,7 @@ export class ReportGenerator {
           for (const catStat of categoryStats) {
             for (const item of catStat.topN) {
               if (item.imageKey) {
-                const imgBuffer = await this.loadImage(item.category?.slug || '', item.externalId || '');
+                const imgBuffer = await this.loadImage(item.imageKey);
                 if (imgBuffer) {
                   const compressed = await compressImage(imgBuffer, this.config.imageQuality, 400);
                   winnerImages.set(item.id, compressed);
@@ -204,13 +228,23 @@ export class ReportGenerator {
         }
 
         if (this.config.includeEloExplanation) {
-          this.generateEloExplanation();
+          if (this.usesBT) {
+            this.generateBradleyTerryExplanation();
+          } else if (this.usesGlicko) {
+            this.generateGlickoExplanation();
+          } else {
+            this.generateEloExplanation();
+          }
         }
 
         if (this.config.includeFullRankings) {
           this.generateFullRankings(categoryStats);
         }
 
+        if (this.config.includeAgreement) {
+          this.generateAgreement();
+        }
+
         this.doc.end();
       } catch (err) {
         reject(err);
@@ -218,33 +252,13 @@ export class ReportGenerator {
     });
   }
 
-  private async loadImage(categorySlug: string, externalId: string): Promise<Buffer | null> {
-    const folders: Record<string, string> = {
-      '3-razredi': '3-razredi',
-      '4-razredi': '4-razredi',
-      '5-razredi': '5-razredi',
-    };
-
-    const folder = folders[categorySlug];
-    if (!folder) return null;
-
-    // Try local file first
-    const basePath = process.cwd();
-    const pngPath = path.join(basePath, 'public', 'uploads', 'izvrs', folder, `${externalId}.png`);
-    const jpgPath = pngPath.replace('.png', '.jpg');
-
+  private async loadImage(imageKey: string): Promise<Buffer | null> {
     try {
-      if (fs.existsSync(pngPath)) {
-        return fs.readFileSync(pngPath);
-      }
-      if (fs.existsSync(jpgPath)) {
-        return fs.readFileSync(jpgPath);
-      }
-    } catch {
-      // Fall through to return null
+      return await getStorage().getObject(imageKey);
+    } catch (err) {
+      console.error('PDF image load error:', err);
+      return null;
     }
-
-    return null;
   }
 
   private async loadLogo(filename: string): Promise<Buffer | null> {
@@ -405,7 +419,12 @@ export class ReportGenerator {
 
         const winRate = item.comparisonCount > 0 ? Math.round((item.winCount / item.comparisonCount) * 100) : 0;
         doc.font('Arial').fontSize(9).fillColor(colors.gray);
-        drawText(doc, `ELO: ${Math.round(item.eloRating)} | ${item.winCount}Z / ${item.lossCount}P (${winRate}%)`, x, y + imgSize + 24, { width: imgSize, align: 'center' });
+        const score = this.usesBT
+          ? `BT: ${item.btAbility.toFixed(2)}${item.btStdError !== null ? ` ± ${(1.96 * item.btStdError).toFixed(2)}` : ''}`
+          : this.usesGlicko
+            ? `Glicko: ${Math.round(item.glickoRating)} ± ${Math.round(item.glickoRd)}`
+            : `ELO: ${Math.round(item.eloRating)}`;
+        drawText(doc, `${score} | ${item.winCount}Z / ${item.lossCount}P (${winRate}%)`, x, y + imgSize + 24, { width: imgSize, align: 'center' });
 
         if (config.showArtistRank && item.artistRank) {
           doc.font('Arial').fontSize(8).fillColor(colors.secondary);
@@ -559,6 +578,123 @@ export class ReportGenerator {
     this.addFooter();
   }
 
+  private generateBradleyTerryExplanation() {
+    const { doc, colors, margin, pageWidth, contentWidth } = this;
+
+    doc.addPage();
+    this.pageNum++;
+
+    doc.rect(0, 0, pageWidth, 45).fill(colors.secondary);
+    doc.font('Arial-Bold').fontSize(16).fillColor(colors.white);
+    drawText(doc, 'BRADLEY-TERRY MODEL OCENJEVANJA', 0, 14, { width: pageWidth, align: 'center' });
+
+    let yPos = 65;
+
+    doc.font('Arial-Bold').fontSize(12).fillColor(colors.primary);
+    drawText(doc, 'KAJ JE BRADLEY-TERRY MODEL?', margin, yPos);
+    yPos += 20;
+
+    doc.font('Arial').fontSize(10).fillColor(colors.black);
+    doc.text('Bradley-Terry model je statistični model za primerjave v parih. Vsakemu delu pripiše sposobnost (BT oceno), pri čemer je verjetnost, da delo A premaga delo B, odvisna le od razlike njunih ocen.', margin, yPos, { width: contentWidth, align: 'justify' });
+    yPos += 50;
+
+    doc.font('Arial-Bold').fontSize(12).fillColor(colors.primary);
+    drawText(doc, 'KAKO DELUJE?', margin, yPos);
+    yPos += 20;
+
+    doc.font('Arial').fontSize(10).fillColor(colors.black);
+    doc.text('Ocene so izračunane po metodi največjega verjetja hkrati iz vseh primerjav, zato:', margin, yPos, { width: contentWidth });
+    yPos += 30;
+
+    const bullets = [
+      'Vrstni red glasov ne vpliva na končne ocene',
+      'Zmaga proti močnejšemu delu šteje več kot zmaga proti šibkejšemu',
+      'Ocena 0 pomeni povprečje, pozitivne ocene so nadpovprečne',
+      ...(this.data.study.comparisonMode === 'quad'
+        ? ['Izbira najboljšega izmed štirih del šteje kot ena izbira (Plackett-Luce), ne kot tri ločene zmage']
+        : this.data.study.comparisonMode === 'ranking'
+          ? ['Razvrstitev skupine del šteje kot eno zaporedje izbir (Plackett-Luce), ne kot ločene zmage']
+          : this.data.study.comparisonMode === 'best-worst'
+            ? ['Izbira najboljšega in najslabšega dela šteje kot dve zaporedni izbiri (Plackett-Luce)']
+            : []),
+    ];
+
+    bullets.forEach(b => {
+      doc.font('Arial').fontSize(10).fillColor(colors.black);
+      drawText(doc, `•  ${b}`, margin + 15, yPos);
+      yPos += 18;
+    });
+
+    yPos += 10;
+    doc.font('Arial-Bold').fontSize(12).fillColor(colors.primary);
+    drawText(doc, 'INTERVAL ZAUPANJA', margin, yPos);
+    yPos += 20;
+
+    doc.font('Arial').fontSize(10).fillColor(colors.black);
+    doc.text('Ob vsaki oceni je naveden 95% interval zaupanja (IZ), izračunan iz Fisherjeve informacije. Širši interval pomeni manj zanesljivo oceno, običajno zaradi manjšega števila primerjav. Dela, katerih intervali se prekrivajo, se statistično ne razlikujejo nujno.', margin, yPos, { width: contentWidth, align: 'justify' });
+    yPos += 55;
+
+    // Key insight box
+    yPos += 15;
+    doc.rect(margin, yPos, contentWidth, 60).fill(colors.accentPale);
+    doc.rect(margin, yPos, 5, 60).fill(colors.accent);
+
+    doc.font('Arial-Bold').fontSize(11).fillColor(colors.primary);
+    drawText(doc, 'PREDNOSTI BRADLEY-TERRY MODELA', margin + 18, yPos + 12);
+
+    doc.font('Arial').fontSize(10).fillColor(colors.black);
+    doc.text('Za razliko od ELO sistema je Bradley-Terry ocena neodvisna od vrstnega reda glasovanja in vsebuje oceno negotovosti. Tako je jasno, katere razlike med deli so zanesljive.', margin + 18, yPos + 30, { width: contentWidth - 36, align: 'justify' });
+
+    this.addFooter();
+  }
+
+  private generateGlickoExplanation() {
+    const { doc, colors, margin, pageWidth, contentWidth } = this;
+
+    doc.addPage();
+    this.pageNum++;
+
+    doc.rect(0, 0, pageWidth, 45).fill(colors.secondary);
+    doc.font('Arial-Bold').fontSize(16).fillColor(colors.white);
+    drawText(doc, 'GLICKO-2 SISTEM OCENJEVANJA', 0, 14, { width: pageWidth, align: 'center' });
+
+    let yPos = 65;
+
+    doc.font('Arial-Bold').fontSize(12).fillColor(colors.primary);
+    drawText(doc, 'KAJ JE GLICKO-2?', margin, yPos);
+    yPos += 20;
+
+    doc.font('Arial').fontSize(10).fillColor(colors.black);
+    doc.text('Glicko-2 je razširitev ELO sistema. Poleg ocene vsako delo hrani tudi odklon ocene (RD), ki pove, kako natančno je ocena znana. Novo delo začne z oceno 1500 in velikim odklonom, ki se z vsako primerjavo zmanjšuje.', margin, yPos, { width: contentWidth, align: 'justify' });
+    yPos += 50;
+
+    doc.font('Arial-Bold').fontSize(12).fillColor(colors.primary);
+    drawText(doc, 'KAKO DELUJE?', margin, yPos);
+    yPos += 20;
+
+    const bullets = [
+      'Dela z velikim odklonom se ob primerjavi spremenijo bolj kot dela z majhnim',
+      'Zmaga proti zanesljivo ocenjenemu delu pove več kot zmaga proti negotovemu',
+      'Nestanovitnost (volatilnost) zazna dela, katerih rezultati so presenetljivi',
+    ];
+
+    bullets.forEach(b => {
+      doc.font('Arial').fontSize(10).fillColor(colors.black);
+      drawText(doc, `•  ${b}`, margin + 15, yPos);
+      yPos += 18;
+    });
+
+    yPos += 10;
+    doc.font('Arial-Bold').fontSize(12).fillColor(colors.primary);
+    drawText(doc, 'ODKLON OCENE (RD)', margin, yPos);
+    yPos += 20;
+
+    doc.font('Arial').fontSize(10).fillColor(colors.black);
+    doc.text('Ocena ± 2 × RD približno ustreza 95% intervalu zaupanja. Rezultati so objavljivi, ko ima vsako delo dovolj majhen odklon, ne glede na to, koliko primerjav je za to potrebovalo.', margin, yPos, { width: contentWidth, align: 'justify' });
+
+    this.addFooter();
+  }
+
   private generateFullRankings(categoryStats: Array<{ category: Category; sortedItems: Item[] }>) {
     const { doc, colors, config, margin, pageWidth, pageHeight, contentWidth } = this;
     const study = this.data.study;
@@ -575,24 +711,63 @@ export class ReportGenerator {
       const tableTop = 55;
       const rowHeight = 14;
 
-      // Column definitions
-      const rankCols = [
-        { label: '#', x: margin, w: 20 },
-        { label: 'ID', x: margin + 22, w: 30 },
-        { label: 'ELO', x: margin + 55, w: 40 },
-        { label: 'Primerjav', x: margin + 100, w: 50 },
-        { label: 'Zmage', x: margin + 155, w: 40 },
-        { label: 'Porazi', x: margin + 200, w: 40 },
-        { label: 'Uspešnost', x: margin + 245, w: 50 },
+      // Column definitions (laid out left to right)
+      const columnDefs: Array<{ label: string; w: number; value: (item: Item, idx: number) => string }> = [
+        { label: '#', w: 20, value: (_item, idx) => `${idx + 1}` },
+        { label: 'ID', w: 30, value: (item) => item.externalId || '-' },
       ];
 
+      if (this.usesBT) {
+        columnDefs.push(
+          { label: 'BT', w: 35, value: (item) => item.btAbility.toFixed(2) },
+          {
+            label: '95% IZ',
+            w: 70,
+            value: (item) => {
+              const ci = btConfidenceInterval(item.btAbility, item.btStdError);
+              return ci ? `${ci.lower.toFixed(2)} – ${ci.upper.toFixed(2)}` : '-';
+            },
+          },
+        );
+      } else if (this.usesGlicko) {
+        columnDefs.push(
+          { label: 'Glicko', w: 40, value: (item) => `${Math.round(item.glickoRating)}` },
+          { label: 'RD', w: 30, value: (item) => `${Math.round(item.glickoRd)}` },
+        );
+      } else {
+        columnDefs.push({ label: 'ELO', w: 40, value: (item) => `${Math.round(item.eloRating)}` });
+      }
+
+      columnDefs.push(
+        { label: 'Primerjav', w: 50, value: (item) => `${item.comparisonCount}` },
+        { label: 'Zmage', w: 40, value: (item) => `${item.winCount}` },
+        { label: 'Porazi', w: 40, value: (item) => `${item.lossCount}` },
+        {
+          label: 'Uspešnost',
+          w: 50,
+          value: (item) => `${item.comparisonCount > 0 ? Math.round((item.winCount / item.comparisonCount) * 100) : 0}%`,
+        },
+      );
+
       if (config.showArtistRank) {
-        rankCols.push({ label: 'Umetnica', x: margin + 305, w: 50 });
+        columnDefs.push({ label: 'Umetnica', w: 50, value: (item) => (item.artistRank ? `#${item.artistRank}` : '-') });
       }
-      if (config.showInitialElo) {
-        rankCols.push({ label: 'Zač. ELO', x: config.showArtistRank ? margin + 365 : margin + 305, w: 50 });
+      // The starting rating only means something for Elo
+      if (config.showInitialElo && !this.usesBT && !this.usesGlicko) {
+        columnDefs.push({
+          label: 'Zač. ELO',
+          w: 50,
+          value: (item) => `${Math.round(study.eloInitialRating + (item.artistEloBoost || 0))}`,
+        });
       }
 
+      let nextX = margin;
+      const rankCols = columnDefs.map((col) => {
+        const placed = { ...col, x: nextX };
+        nextX += col.w + 5;
+        return placed;
+      });
+
       // Header row
       doc.rect(margin, tableTop, contentWidth, rowHeight + 2).fill(colors.secondaryPale);
       doc.font('Arial-Bold').fontSize(8).fillColor(colors.secondary);
@@ -621,26 +796,8 @@ export class ReportGenerator {
           doc.rect(margin, currentY - 1, contentWidth, rowHeight).fill(colors.primaryPale);
         }
 
-        const winRate = item.comparisonCount > 0 ? Math.round((item.winCount / item.comparisonCount) * 100) : 0;
-        const initialElo = study.eloInitialRating + (item.artistEloBoost || 0);
-
         doc.font(idx < 4 ? 'Arial-Bold' : 'Arial').fontSize(8).fillColor(colors.black);
-
-        drawText(doc, `${idx + 1}`, rankCols[0].x + 2, currentY + 2);
-        drawText(doc, item.externalId || '-', rankCols[1].x + 2, currentY + 2);
-        drawText(doc, `${Math.round(item.eloRating)}`, rankCols[2].x + 2, currentY + 2);
-        drawText(doc, `${item.comparisonCount}`, rankCols[3].x + 2, currentY + 2);
-        drawText(doc, `${item.winCount}`, rankCols[4].x + 2, currentY + 2);
-        drawText(doc, `${item.lossCount}`, rankCols[5].x + 2, currentY + 2);
-        drawText(doc, `${winRate}%`, rankCols[6].x + 2, currentY + 2);
-
-        if (config.showArtistRank) {
-          drawText(doc, item.artistRank ? `#${item.artistRank}` : '-', rankCols[7].x + 2, currentY + 2);
-        }
-        if (config.showInitialElo) {
-          const eloColIdx = config.showArtistRank ? 8 : 7;
-          drawText(doc, `${Math.round(initialElo)}`, rankCols[eloColIdx].x + 2, currentY + 2);
-        }
+        rankCols.forEach(col => drawText(doc, col.value(item, idx), col.x + 2, currentY + 2));
 
         currentY += rowHeight;
       });
@@ -654,6 +811,97 @@ export class ReportGenerator {
       this.addFooter();
     }
   }
+
+  private generateAgreement() {
+    const { doc, colors, margin, pageWidth, contentWidth } = this;
+
+    const evaluators = selectPanel(this.data.sessions, (index) => `Seja ${index + 1}`);
+    if (evaluators.length < 2) return;
+    const agreement = analyzeAgreement(evaluators, this.data.comparisons);
+    const format = (value: number | null) => (value !== null ? value.toFixed(2) : '-');
+
+    doc.addPage();
+    this.pageNum++;
+
+    doc.rect(0, 0, pageWidth, 45).fill(colors.secondary);
+    doc.font('Arial-Bold').fontSize(16).fillColor(colors.white);
+    drawText(doc, 'SOGLASJE MED OCENJEVALCI', 0, 14, { width: pageWidth, align: 'center' });
+
+    let yPos = 65;
+
+    doc.font('Arial').fontSize(10).fillColor(colors.black);
+    doc.text('Kendallov W meri skladnost razvrstitev vseh ocenjevalcev v kategoriji (0 = ni soglasja, 1 = enake razvrstitve). Kendallov τ primerja osebni razvrstitvi dveh ocenjevalcev (−1 = nasprotni, 1 = enaki). Krippendorffov α meri soglasje pri parih, ki so bili ocenjeni večkrat (0 = naključno, 1 = popolno).', margin, yPos, { width: contentWidth, align: 'justify' });
+    yPos += 60;
+
+    // Summary
+    const summary = [
+      ['Povprečni Kendallov τ:', format(agreement.meanTau)],
+      ['Krippendorffov α:', `${format(agreement.krippendorffAlpha)} (${agreement.repeatedPairCount} ponovljenih parov)`],
+    ];
+    summary.forEach(([label, value]) => {
+      doc.font('Arial').fontSize(10).fillColor(colors.gray);
+      drawText(doc, label, margin, yPos);
+      doc.font('Arial-Bold').fillColor(colors.black);
+      drawText(doc, value, margin + 160, yPos);
+      yPos += 17;
+    });
+    yPos += 10;
+
+    // Kendall's W per category
+    const rowH = 18;
+    const colX = [margin, margin + 200, margin + 300, margin + 400];
+    doc.rect(margin, yPos, contentWidth, rowH).fill(colors.secondaryPale);
+    doc.font('Arial-Bold').fontSize(9).fillColor(colors.secondary);
+    ['Kategorija', 'Ocenjevalcev', 'Skupnih del', 'Kendallov W'].forEach((label, idx) => drawText(doc, label, colX[idx] + 5, yPos + 5));
+    yPos += rowH;
+
+    for (const category of agreement.categories) {
+      const name = this.data.study.categories.find((c) => c.id === category.categoryId)?.name ?? '-';
+      doc.font('Arial').fontSize(9).fillColor(colors.black);
+      [name, `${category.raterCount}`, `${category.sharedItemCount}`, format(category.kendallW)]
+        .forEach((value, idx) => drawText(doc, value, colX[idx] + 5, yPos + 5));
+      yPos += rowH;
+    }
+    yPos += 20;
+
+    // τ heatmap, evaluators numbered with a legend below
+    doc.font('Arial-Bold').fontSize(12).fillColor(colors.primary);
+    drawText(doc, 'SOGLASJE PO PARIH OCENJEVALCEV (KENDALLOV τ)', margin, yPos);
+    yPos += 20;
+
+    const count = evaluators.length;
+    const labelW = 25;
+    const cell = Math.min(30, (contentWidth - labelW) / count);
+    const fontSize = Math.max(4, Math.min(8, cell / 3.5));
+
+    doc.font('Arial-Bold').fontSize(fontSize).fillColor(colors.gray);
+    for (let j = 0; j < count; j++) {
+      drawText(doc, `${j + 1}`, margin + labelW + j * cell, yPos, { width: cell, align: 'center' });
+    }
+    yPos += fontSize + 4;
+
+    for (let i = 0; i < count; i++) {
+      doc.font('Arial-Bold').fontSize(fontSize).fillColor(colors.gray);
+      drawText(doc, `${i + 1}`, margin, yPos + (cell - fontSize) / 2);
+      for (let j = 0; j < count; j++) {
+        const tau = agreement.pairwiseTau[i][j];
+        const x = margin + labelW + j * cell;
+        const fill = tau === null ? colors.white : lightenColor(tau >= 0 ? '#22c55e' : '#ef4444', 1 - Math.abs(tau));
+        doc.rect(x, yPos, cell, cell).fillAndStroke(fill, '#dddddd');
+        if (cell >= 18) {
+          doc.font('Arial').fontSize(fontSize).fillColor(colors.black);
+          drawText(doc, tau !== null ? tau.toFixed(2) : '-', x, yPos + (cell - fontSize) / 2, { width: cell, align: 'center' });
+        }
+      }
+      yPos += cell;
+    }
+    yPos += 10;
+
+    doc.font('Arial').fontSize(7).fillColor(colors.gray);
+    doc.text(evaluators.map((evaluator, idx) => `${idx + 1} = ${evaluator.label}`).join(';  '), margin, yPos, { width: contentWidth });
+
+    this.addFooter();
+  }
 }
 
 // Convenience function for generating reports
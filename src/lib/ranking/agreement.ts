@@ -0,0 +1,345 @@
+/**
+ * Inter-Rater Agreement for SciBLIND
+ *
+ * Measures how much the evaluators of a panel (typically one session per
+ * access code, "Ocenjevalec N") agree with each other:
+ *
+ * - Kendall's W (coefficient of concordance) per category, over the items
+ *   every evaluator voted on: 0 = no agreement, 1 = identical rankings.
+ * - Kendall's τ-b between every two evaluators' personal rankings, averaged
+ *   over categories (weighted by shared items) — the heatmap.
+ * - Krippendorff's α (nominal) on repeated pairs: every pair of items judged
+ *   more than once is a unit, each judgment ("first item", "second item" or
+ *   "no preference") a value. α = 1 − D_o / D_e; 1 = perfect agreement,
+ *   0 = agreement at chance level.
+ *
+ * Personal rankings come from each evaluator's own votes, like the
+ * participant's personal rankings, but by win rate (wins per appearance,
+ * half a win for no preference) so unequal exposure does not decide the
+ * order.
+ *
+ * References:
+ * - Kendall & Babington Smith (1939) "The problem of m rankings"
+ * - Krippendorff (2011) "Computing Krippendorff's alpha-reliability"
+ */
+
+import { pairOutcome, type StoredPairResponse } from '@/lib/voting/responses';
+
+// ===== Constants =====
+
+/** Largest panel analysed when the study has no access codes (most active sessions) */
+export const MAX_PANEL_SIZE = 50;
+
+/** Fewest shared items for Kendall's W and τ */
+const MIN_SHARED_ITEMS = 3;
+
+// ===== Types =====
+
+export interface AgreementEvaluator {
+  sessionId: string;
+  label: string;
+}
+
+export interface AgreementComparison extends StoredPairResponse {
+  sessionId: string;
+  categoryId: string | null;
+}
+
+export interface CategoryAgreement {
+  categoryId: string | null;
+  /** Evaluators who voted in the category */
+  raterCount: number;
+  /** Items every one of them voted on */
+  sharedItemCount: number;
+  /** null with fewer than 2 raters or MIN_SHARED_ITEMS shared items */
+  kendallW: number | null;
+  /** m(n − 1)W, χ²-distributed with n − 1 degrees of freedom under no agreement */
+  chiSquare: number | null;
+  degreesOfFreedom: number | null;
+}
+
+export interface AgreementResult {
+  evaluators: AgreementEvaluator[];
+  categories: CategoryAgreement[];
+  /** τ-b between evaluators (same order as evaluators), null without shared items */
+  pairwiseTau: (number | null)[][];
+  /** Mean of the off-diagonal τ values */
+  meanTau: number | null;
+  /** Krippendorff's α over repeated pairs, null without variation or repeats */
+  krippendorffAlpha: number | null;
+  /** Pairs judged more than once */
+  repeatedPairCount: number;
+  /** Judgments of those pairs */
+  repeatedJudgmentCount: number;
+}
+
+// ===== Panel =====
+
+/**
+ * Choose the evaluators to compare.
+ *
+ * Sessions that entered with an access code form the panel and are labelled
+ * by the code's label. Without any, the MAX_PANEL_SIZE most active sessions
+ * are used instead.
+ *
+ * @param sessions - Non-test sessions of the study, oldest first
+ * @param fallbackLabel - Label for a session without a code label
+ * @returns The panel in session order
+ */
+export function selectPanel(
+  sessions: { id: string; comparisonCount: number; accessCode: { label: string | null } | null }[],
+  fallbackLabel: (index: number) => string = (index) => `Evaluator ${index + 1}`,
+): AgreementEvaluator[] {
+  const withCodes = sessions.filter((session) => session.accessCode);
+  const panel = withCodes.length > 0
+    ? withCodes
+    : [...sessions]
+        .filter((session) => session.comparisonCount > 0)
+        .sort((a, b) => b.comparisonCount - a.comparisonCount)
+        .slice(0, MAX_PANEL_SIZE)
+        .sort((a, b) => sessions.indexOf(a) - sessions.indexOf(b));
+
+  return panel.map((session, index) => ({
+    sessionId: session.id,
+    label: session.accessCode?.label || fallbackLabel(index),
+  }));
+}
+
+// ===== Statistics =====
+
+/**
+ * Win rate per item from one evaluator's votes in one category
+ */
+export function personalScores(comparisons: StoredPairResponse[]): Map<string, number> {
+  const credit = new Map<string, { wins: number; appearances: number }>();
+  const add = (id: string, wins: number) => {
+    const entry = credit.get(id) ?? { wins: 0, appearances: 0 };
+    entry.wins += wins;
+    entry.appearances++;
+    credit.set(id, entry);
+  };
+
+  for (const comparison of comparisons) {
+    const outcome = pairOutcome(comparison);
+    add(outcome.winnerId, outcome.score);
+    add(outcome.loserId, 1 - outcome.score);
+  }
+
+  return new Map(Array.from(credit, ([id, { wins, appearances }]) => [id, wins / appearances]));
+}
+
+/**
+ * Kendall's τ-b between two score lists over the same items
+ *
+ * @returns τ-b, or null when either list is constant
+ */
+export function kendallTauB(x: number[], y: number[]): number | null {
+  let concordant = 0;
+  let discordant = 0;
+  let tiesX = 0;
+  let tiesY = 0;
+
+  for (let i = 0; i < x.length; i++) {
+    for (let j = i + 1; j < x.length; j++) {
+      const dx = Math.sign(x[i] - x[j]);
+      const dy = Math.sign(y[i] - y[j]);
+      if (dx === 0 && dy === 0) continue;
+      if (dx === 0) tiesX++;
+      else if (dy === 0) tiesY++;
+      else if (dx === dy) concordant++;
+      else discordant++;
+    }
+  }
+
+  const denominator = Math.sqrt((concordant + discordant + tiesX) * (concordant + discordant + tiesY));
+  return denominator > 0 ? (concordant - discordant) / denominator : null;
+}
+
+/**
+ * Ranks (1 = highest score) with ties sharing their average rank
+ */
+function averageRanks(scores: number[]): number[] {
+  const order = scores.map((score, index) => ({ score, index })).sort((a, b) => b.score - a.score);
+  const ranks = new Array<number>(scores.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].score === order[start].score) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k].index] = rank;
+    start = end + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Kendall's W for m raters scoring the same n items, with the tie correction
+ *
+ *   W = 12 S / (m²(n³ − n) − m Σ T),  T = Σ (t³ − t) over each rater's ties
+ *
+ * @param scores - One score list per rater, items in the same order
+ * @returns W, or null when undefined (fewer than 2 raters or items, or all tied)
+ */
+export function kendallW(scores: number[][]): number | null {
+  const m = scores.length;
+  const n = m > 0 ? scores[0].length : 0;
+  if (m < 2 || n < 2) return null;
+
+  const rankSums = new Array<number>(n).fill(0);
+  let tieCorrection = 0;
+  for (const raterScores of scores) {
+    const ranks = averageRanks(raterScores);
+    ranks.forEach((rank, item) => (rankSums[item] += rank));
+
+    const tieSizes = new Map<number, number>();
+    for (const rank of ranks) tieSizes.set(rank, (tieSizes.get(rank) || 0) + 1);
+    for (const t of tieSizes.values()) tieCorrection += t * t * t - t;
+  }
+
+  const meanRankSum = (m * (n + 1)) / 2;
+  const s = rankSums.reduce((sum, total) => sum + (total - meanRankSum) ** 2, 0);
+  const denominator = m * m * (n * n * n - n) - m * tieCorrection;
+  return denominator > 0 ? (12 * s) / denominator : null;
+}
+
+/**
+ * Krippendorff's α for nominal values
+ *
+ * @param units - The values given to each unit; units with fewer than 2 values are ignored
+ * @returns α, or null when there are no pairable values or no variation in them
+ */
+export function krippendorffAlphaNominal(units: string[][]): number | null {
+  const coincidences = new Map<string, Map<string, number>>();
+  const add = (c: string, k: string, amount: number) => {
+    const row = coincidences.get(c) ?? new Map<string, number>();
+    row.set(k, (row.get(k) || 0) + amount);
+    coincidences.set(c, row);
+  };
+
+  for (const values of units) {
+    const m = values.length;
+    if (m < 2) continue;
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < m; j++) {
+        if (i !== j) add(values[i], values[j], 1 / (m - 1));
+      }
+    }
+  }
+
+  const totals = new Map<string, number>();
+  let n = 0;
+  let observedDisagreement = 0;
+  for (const [c, row] of coincidences) {
+    for (const [k, count] of row) {
+      totals.set(c, (totals.get(c) || 0) + count);
+      n += count;
+      if (c !== k) observedDisagreement += count;
+    }
+  }
+  if (n === 0) return null;
+
+  let expectedDisagreement = 0;
+  for (const [c, nc] of totals) {
+    for (const [k, nk] of totals) {
+      if (c !== k) expectedDisagreement += nc * nk;
+    }
+  }
+  if (expectedDisagreement === 0) return null;
+
+  return 1 - ((n - 1) * observedDisagreement) / expectedDisagreement;
+}
+
+// ===== Analysis =====
+
+/**
+ * Agreement statistics for a panel of evaluators.
+ *
+ * @param evaluators - The panel (see selectPanel)
+ * @param comparisons - Votes (votes of sessions outside the panel are ignored)
+ * @returns Kendall's W per category, the τ matrix and Krippendorff's α
+ */
+export function analyzeAgreement(
+  evaluators: AgreementEvaluator[],
+  comparisons: AgreementComparison[],
+): AgreementResult {
+  const panelIndex = new Map(evaluators.map((evaluator, index) => [evaluator.sessionId, index]));
+  const panelVotes = comparisons.filter((comparison) => panelIndex.has(comparison.sessionId));
+
+  // Votes per category per evaluator
+  const byCategory = new Map<string | null, Map<number, AgreementComparison[]>>();
+  for (const vote of panelVotes) {
+    const byEvaluator = byCategory.get(vote.categoryId) ?? new Map<number, AgreementComparison[]>();
+    const index = panelIndex.get(vote.sessionId)!;
+    const votes = byEvaluator.get(index) ?? [];
+    votes.push(vote);
+    byEvaluator.set(index, votes);
+    byCategory.set(vote.categoryId, byEvaluator);
+  }
+
+  const tauSums = evaluators.map(() => evaluators.map(() => ({ weighted: 0, items: 0 })));
+  const categories: CategoryAgreement[] = [];
+
+  for (const [categoryId, byEvaluator] of byCategory) {
+    const raters = Array.from(byEvaluator.keys()).sort((a, b) => a - b);
+    const scores = new Map(raters.map((rater) => [rater, personalScores(byEvaluator.get(rater)!)]));
+
+    // Kendall's W over the items everyone voted on
+    const shared = Array.from(scores.get(raters[0])!.keys()).filter((id) =>
+      raters.every((rater) => scores.get(rater)!.has(id)),
+    );
+    const w = raters.length >= 2 && shared.length >= MIN_SHARED_ITEMS
+      ? kendallW(raters.map((rater) => shared.map((id) => scores.get(rater)!.get(id)!)))
+      : null;
+    categories.push({
+      categoryId,
+      raterCount: raters.length,
+      sharedItemCount: shared.length,
+      kendallW: w,
+      chiSquare: w !== null ? raters.length * (shared.length - 1) * w : null,
+      degreesOfFreedom: w !== null ? shared.length - 1 : null,
+    });
+
+    // τ-b for every two raters over the items both voted on
+    for (let a = 0; a < raters.length; a++) {
+      for (let b = a + 1; b < raters.length; b++) {
+        const scoresA = scores.get(raters[a])!;
+        const scoresB = scores.get(raters[b])!;
+        const common = Array.from(scoresA.keys()).filter((id) => scoresB.has(id));
+        if (common.length < MIN_SHARED_ITEMS) continue;
+        const tau = kendallTauB(common.map((id) => scoresA.get(id)!), common.map((id) => scoresB.get(id)!));
+        if (tau === null) continue;
+        for (const [i, j] of [[raters[a], raters[b]], [raters[b], raters[a]]]) {
+          tauSums[i][j].weighted += tau * common.length;
+          tauSums[i][j].items += common.length;
+        }
+      }
+    }
+  }
+
+  const pairwiseTau = tauSums.map((row, i) =>
+    row.map((cell, j) => (i === j ? 1 : cell.items > 0 ? cell.weighted / cell.items : null)),
+  );
+  const offDiagonal = pairwiseTau.flatMap((row, i) => row.filter((tau, j) => j > i && tau !== null) as number[]);
+
+  // Krippendorff's α: each unordered pair of items is a unit
+  const units = new Map<string, string[]>();
+  for (const vote of panelVotes) {
+    const [first, second] = [vote.itemAId, vote.itemBId].sort();
+    const key = `${first}|${second}`;
+    const value = vote.winnerId === null ? 'none' : vote.winnerId === first ? 'first' : 'second';
+    const values = units.get(key) ?? [];
+    values.push(value);
+    units.set(key, values);
+  }
+  const repeated = Array.from(units.values()).filter((values) => values.length >= 2);
+
+  return {
+    evaluators,
+    categories,
+    pairwiseTau,
+    meanTau: offDiagonal.length > 0 ? offDiagonal.reduce((sum, tau) => sum + tau, 0) / offDiagonal.length : null,
+    krippendorffAlpha: krippendorffAlphaNominal(repeated),
+    repeatedPairCount: repeated.length,
+    repeatedJudgmentCount: repeated.reduce((sum, values) => sum + values.length, 0),
+  };
+}
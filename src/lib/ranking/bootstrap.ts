@@ -0,0 +1,418 @@
+/**
+ * Bootstrap Rank Stability for SciBLIND
+ *
+ * calculateEloStdError is a count-based approximation and says nothing about
+ * how stable an item's rank is. This module resamples the votes, refits the
+ * study's ranking model on every resample and reports per item:
+ * - a 95% rank interval (2.5th to 97.5th percentile of its rank)
+ * - its median rank
+ * - the probability of being in the top N (share of resamples)
+ * - a 95% percentile interval of its score
+ *
+ * Resampling draws whole sessions with replacement by default, which keeps
+ * each evaluator's votes together (votes of one person are not
+ * independent); drawing single comparisons is also supported. Multi-item votes
+ * are always drawn whole. Elo and Glicko-2 studies are refit with the Elo
+ * replay (Glicko-2 has no replay, its ranks are close to Elo's); Bradley-Terry
+ * studies with computeBradleyTerryEstimates, i.e. Plackett-Luce for grouped
+ * choices. Ranks are within each category.
+ *
+ * The random draws come from a seeded generator, so a study's result only
+ * changes when its votes or settings do. Results are cached in-process per
+ * study and reused until then. Hundreds of refits take seconds on a real
+ * study, so getRankStability computes them in the background (yielding to
+ * the event loop between resamples, so votes keep flowing) and reports
+ * "computing" until the result is ready.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/db';
+import { usesGroupedChoices } from '@/lib/voting/choices';
+import { computeBradleyTerryEstimates } from './bt-refresh';
+import { groupIntoVotes, replayElo, type ReplayComparison, type ReplayItem } from './replay';
+
+// ===== Constants =====
+
+export const BOOTSTRAP_REPLICATES = 200;
+export const BOOTSTRAP_SEED = 20240917;
+
+/** Top N used when the study sets no targetTopN */
+export const DEFAULT_STABILITY_TOP_N = 4;
+
+export type BootstrapUnit = 'session' | 'comparison';
+
+// ===== Types =====
+
+export interface BootstrapItem extends ReplayItem {
+  categoryId: string | null;
+}
+
+export interface BootstrapOptions {
+  method: 'elo' | 'bradley-terry';
+  /** What is drawn with replacement (default 'session') */
+  unit?: BootstrapUnit;
+  replicates?: number;
+  seed?: number;
+  topN: number;
+  /** Elo replay settings (method 'elo') */
+  initialRating: number;
+  kFactor: number;
+  adaptiveK: boolean;
+  /** BT settings (method 'bradley-terry') */
+  separateCategories: boolean;
+  groupChoices: boolean;
+}
+
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+export interface ItemStability {
+  itemId: string;
+  /** Rank in the full data, within the item's category */
+  rank: number;
+  medianRank: number;
+  rankCI95: Interval;
+  /** Share of resamples with the item in its category's top N */
+  pTopN: number;
+  scoreCI95: Interval;
+}
+
+export type BootstrapModel = 'elo-replay' | 'bradley-terry' | 'plackett-luce';
+
+export interface BootstrapResult {
+  method: 'elo' | 'bradley-terry';
+  /** Model refit on every resample (Glicko-2 studies are refit with the Elo replay) */
+  model: BootstrapModel;
+  unit: BootstrapUnit;
+  replicates: number;
+  seed: number;
+  topN: number;
+  items: Map<string, ItemStability>;
+}
+
+// ===== Random numbers =====
+
+/**
+ * Seeded uniform generator on [0, 1) (mulberry32)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ===== Bootstrap =====
+
+/**
+ * Nearest-rank quantile of sorted values
+ */
+function quantile(sorted: number[], q: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))];
+}
+
+/**
+ * Score every item with the study's model
+ */
+function scoreItems(
+  items: BootstrapItem[],
+  comparisons: ReplayComparison[],
+  options: BootstrapOptions,
+): Map<string, number> {
+  if (options.method === 'bradley-terry') {
+    const estimates = computeBradleyTerryEstimates(items, comparisons, options.separateCategories, options.groupChoices);
+    return new Map(Array.from(estimates, ([id, estimate]) => [id, estimate.btAbility]));
+  }
+
+  const replay = replayElo(items, comparisons, {
+    initialRating: options.initialRating,
+    kFactor: options.kFactor,
+    adaptiveK: options.adaptiveK,
+    filters: { excludeTest: false },
+  });
+  return new Map(Array.from(replay.items, ([id, stats]) => [id, stats.eloRating]));
+}
+
+/**
+ * Rank items within their category by score (ties keep item order)
+ */
+function rankItems(items: BootstrapItem[], scores: Map<string, number>): Map<string, number> {
+  const byCategory = new Map<string | null, BootstrapItem[]>();
+  for (const item of items) {
+    const group = byCategory.get(item.categoryId) ?? [];
+    group.push(item);
+    byCategory.set(item.categoryId, group);
+  }
+
+  const ranks = new Map<string, number>();
+  for (const group of byCategory.values()) {
+    [...group]
+      .sort((a, b) => scores.get(b.id)! - scores.get(a.id)!)
+      .forEach((item, index) => ranks.set(item.id, index + 1));
+  }
+  return ranks;
+}
+
+/**
+ * Draw one resample. Every draw of a vote gets its own IDs (and its own
+ * session and choice group), so a vote drawn twice counts twice.
+ */
+function resample(units: ReplayComparison[][][], random: () => number): ReplayComparison[] {
+  const rows: ReplayComparison[] = [];
+  for (let draw = 0; draw < units.length; draw++) {
+    const unit = units[Math.floor(random() * units.length)];
+    for (const vote of unit) {
+      for (const comparison of vote) {
+        rows.push({
+          ...comparison,
+          id: `${comparison.id}:${draw}`,
+          sessionId: `${comparison.sessionId}:${draw}`,
+          choiceGroupId: comparison.choiceGroupId ? `${comparison.choiceGroupId}:${draw}` : comparison.choiceGroupId,
+        });
+      }
+    }
+  }
+  return rows;
+}
+
+/**
+ * Bootstrap rank intervals and top-N probabilities.
+ *
+ * @param items - All items of the study
+ * @param comparisons - Real votes (test votes, and flagged ones if the study excludes them, removed)
+ * @param options - Model, resampling and study settings
+ * @returns Stability per item
+ */
+export function bootstrapRankStability(
+  items: BootstrapItem[],
+  comparisons: ReplayComparison[],
+  options: BootstrapOptions,
+): BootstrapResult {
+  const steps = bootstrapSteps(items, comparisons, options);
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+  }
+}
+
+/**
+ * bootstrapRankStability one resample at a time: yields after every refit
+ * so a background run can hand the event loop back in between
+ */
+function* bootstrapSteps(
+  items: BootstrapItem[],
+  comparisons: ReplayComparison[],
+  options: BootstrapOptions,
+): Generator<void, BootstrapResult> {
+  const unit = options.unit ?? 'session';
+  const replicates = options.replicates ?? BOOTSTRAP_REPLICATES;
+  const seed = options.seed ?? BOOTSTRAP_SEED;
+  const random = createSeededRandom(seed);
+
+  // Units to draw: the votes of one session, or single votes
+  const chronological = [...comparisons].sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+  );
+  const votes = groupIntoVotes(chronological);
+  let units: ReplayComparison[][][];
+  if (unit === 'session') {
+    const bySession = new Map<string, ReplayComparison[][]>();
+    for (const vote of votes) {
+      const sessionVotes = bySession.get(vote[0].sessionId) ?? [];
+      sessionVotes.push(vote);
+      bySession.set(vote[0].sessionId, sessionVotes);
+    }
+    units = Array.from(bySession.values());
+  } else {
+    units = votes.map((vote) => [vote]);
+  }
+
+  const pointRanks = rankItems(items, scoreItems(items, comparisons, options));
+
+  const ranks = new Map<string, number[]>(items.map((item) => [item.id, []]));
+  const scores = new Map<string, number[]>(items.map((item) => [item.id, []]));
+  const topCounts = new Map<string, number>(items.map((item) => [item.id, 0]));
+
+  for (let replicate = 0; replicate < (units.length > 0 ? replicates : 0); replicate++) {
+    const replicateScores = scoreItems(items, resample(units, random), options);
+    const replicateRanks = rankItems(items, replicateScores);
+    for (const item of items) {
+      const rank = replicateRanks.get(item.id)!;
+      ranks.get(item.id)!.push(rank);
+      scores.get(item.id)!.push(replicateScores.get(item.id)!);
+      if (rank <= options.topN) topCounts.set(item.id, topCounts.get(item.id)! + 1);
+    }
+    yield;
+  }
+
+  const stability = new Map<string, ItemStability>();
+  for (const item of items) {
+    const itemRanks = ranks.get(item.id)!.sort((a, b) => a - b);
+    const itemScores = scores.get(item.id)!.sort((a, b) => a - b);
+    const rank = pointRanks.get(item.id)!;
+    const drawn = itemRanks.length;
+
+    stability.set(item.id, {
+      itemId: item.id,
+      rank,
+      medianRank: drawn > 0 ? quantile(itemRanks, 0.5) : rank,
+      rankCI95: drawn > 0
+        ? { lower: quantile(itemRanks, 0.025), upper: quantile(itemRanks, 0.975) }
+        : { lower: rank, upper: rank },
+      pTopN: drawn > 0 ? topCounts.get(item.id)! / drawn : rank <= options.topN ? 1 : 0,
+      scoreCI95: drawn > 0
+        ? { lower: quantile(itemScores, 0.025), upper: quantile(itemScores, 0.975) }
+        : { lower: NaN, upper: NaN },
+    });
+  }
+
+  return {
+    method: options.method,
+    model: options.method === 'elo' ? 'elo-replay' : options.groupChoices ? 'plackett-luce' : 'bradley-terry',
+    unit,
+    replicates: units.length > 0 ? replicates : 0,
+    seed,
+    topN: options.topN,
+    items: stability,
+  };
+}
+
+// ===== Background computation =====
+
+// Keyed by `${studyId}:${unit}`
+const cache = new Map<string, { dataKey: string; value: BootstrapResult }>();
+const running = new Set<string>();
+
+export type RankStability =
+  | { status: 'ready'; result: BootstrapResult }
+  | { status: 'computing'; result: null };
+
+/**
+ * Run the bootstrap in the background and cache its result (fire-and-forget).
+ * Votes arriving meanwhile change the data key, so the next request starts
+ * a fresh run once this one is done.
+ */
+function scheduleRankStability(
+  cacheKey: string,
+  dataKey: string,
+  items: BootstrapItem[],
+  comparisons: ReplayComparison[],
+  options: BootstrapOptions,
+): void {
+  if (running.has(cacheKey)) return;
+  running.add(cacheKey);
+
+  (async () => {
+    const steps = bootstrapSteps(items, comparisons, options);
+    for (;;) {
+      const step = steps.next();
+      if (step.done) {
+        cache.set(cacheKey, { dataKey, value: step.value });
+        return;
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  })()
+    .catch((error) => {
+      console.error('Rank stability error:', error);
+    })
+    .finally(() => {
+      running.delete(cacheKey);
+    });
+}
+
+/**
+ * Load the rank stability of a study, or start computing it.
+ *
+ * The cache key covers every input the result depends on: the IDs of the
+ * votes used, each item's category and artistEloBoost, and the study's
+ * settings. Any change starts a new background run.
+ *
+ * @param studyId - Study to analyse
+ * @param unit - What is drawn with replacement
+ * @returns The cached result, "computing" while a run is under way, or null if the study does not exist
+ */
+export async function getRankStability(
+  studyId: string,
+  unit: BootstrapUnit = 'session',
+): Promise<RankStability | null> {
+  const study = await prisma.study.findUnique({
+    where: { id: studyId },
+    select: {
+      rankingMethod: true,
+      comparisonMode: true,
+      hasCategorySeparation: true,
+      excludeFlaggedFromElo: true,
+      eloInitialRating: true,
+      eloKFactor: true,
+      adaptiveKFactor: true,
+      targetTopN: true,
+    },
+  });
+  if (!study) return null;
+
+  const [items, comparisons] = await Promise.all([
+    prisma.item.findMany({
+      where: { studyId },
+      select: { id: true, categoryId: true, artistEloBoost: true },
+    }),
+    prisma.comparison.findMany({
+      where: {
+        studyId,
+        OR: [{ flagReason: null }, { flagReason: { not: 'test_session' } }],
+        session: { isTestSession: false },
+        ...(study.excludeFlaggedFromElo ? { isFlagged: false } : {}),
+      },
+      select: {
+        id: true,
+        createdAt: true,
+        sessionId: true,
+        itemAId: true,
+        itemBId: true,
+        winnerId: true,
+        preferenceStrength: true,
+        leftItemId: true,
+        rightItemId: true,
+        isFlagged: true,
+        flagReason: true,
+        algoVersion: true,
+        choiceGroupId: true,
+      },
+    }),
+  ]);
+
+  const options: BootstrapOptions = {
+    method: study.rankingMethod === 'BRADLEY_TERRY' ? 'bradley-terry' : 'elo',
+    unit,
+    topN: study.targetTopN ?? DEFAULT_STABILITY_TOP_N,
+    initialRating: study.eloInitialRating,
+    kFactor: study.eloKFactor,
+    adaptiveK: study.adaptiveKFactor,
+    separateCategories: study.hasCategorySeparation,
+    groupChoices: usesGroupedChoices(study.comparisonMode),
+  };
+
+  const dataKey = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([
+      comparisons.map((comparison) => comparison.id).sort(),
+      items.map((item) => [item.id, item.categoryId, item.artistEloBoost]).sort(),
+      options,
+    ]))
+    .digest('hex');
+
+  const cacheKey = `${studyId}:${unit}`;
+  const cached = cache.get(cacheKey);
+  if (cached && cached.dataKey === dataKey) {
+    return { status: 'ready', result: cached.value };
+  }
+
+  scheduleRankStability(cacheKey, dataKey, items, comparisons, options);
+  return { status: 'computing', result: null };
+}
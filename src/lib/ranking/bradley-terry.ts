@@ -12,9 +12,21 @@
  * - Fisher information gives principled standard errors
  * - Natural probability interpretation
  *
+ * Ties ("no preference" votes) follow Davidson (1970):
+ *   P(i beats j) = π_i / (π_i + π_j + ν√(π_i π_j))
+ *   P(tie)       = ν√(π_i π_j) / (π_i + π_j + ν√(π_i π_j))
+ * with the tie parameter ν estimated alongside the abilities. Graded votes
+ * credit the winner with a fractional win (e.g. 0.75 for a slight preference)
+ * and the loser with the rest. Without ties and graded votes this is exactly
+ * the plain BT fit. A comparison can carry a weight (e.g. its evaluator's
+ * reliability, see lib/ranking/reliability); it then counts as that many
+ * games everywhere, so weight 2 is the same as recording it twice.
+ *
  * Reference: Hunter (2004) "MM algorithms for generalized Bradley-Terry models"
  */
 
+import { compareItemsForRanking, type RankableItem } from './elo';
+
 export interface BTResult {
   /** Ability parameters (log-scale, higher = better) */
   abilities: Map<string, number>;
@@ -26,11 +38,26 @@ export interface BTResult {
   converged: boolean;
   /** Final log-likelihood */
   logLikelihood: number;
+  /** Davidson tie parameter ν (0 when no ties were observed) */
+  tieParameter?: number;
 }
 
 export interface ComparisonRecord {
   winnerId: string;
   loserId: string;
+  /** No preference: a Davidson tie between winnerId and loserId */
+  tie?: boolean;
+  /** Share of the win credited to winnerId for graded votes (default 1) */
+  score?: number;
+  /** How many games this comparison counts as (default 1) */
+  weight?: number;
+}
+
+/**
+ * Denominator of the Davidson probabilities for one pair
+ */
+function davidsonTotal(piI: number, piJ: number, nu: number): number {
+  return piI + piJ + nu * Math.sqrt(piI * piJ);
 }
 
 /**
@@ -38,11 +65,14 @@ export interface ComparisonRecord {
  * using the MM (Minorization-Maximization) algorithm.
  *
  * The MM update for player i is:
- *   π_i^(new) = W_i / Σ_{j≠i} (n_ij / (π_i^(old) + π_j^(old)))
+ *   π_i^(new) = (W_i + T_i/2) / Σ_{j≠i} n_ij (1 + (ν/2)√(π_j/π_i)) / (π_i + π_j + ν√(π_i π_j))
  *
- * where W_i = total wins of item i, n_ij = total games between i and j.
+ * where W_i = (fractional) wins of item i, T_i = ties of item i and
+ * n_ij = total games between i and j, all counted with comparison weights. With ties, ν is then updated to
+ *   ν = T / Σ_{i<j} n_ij √(π_i π_j) / (π_i + π_j + ν√(π_i π_j))
+ * (T = total ties). With ν = 0 this is the classic update W_i / Σ n_ij / (π_i + π_j).
  *
- * @param comparisons - Array of comparison results (winnerId, loserId)
+ * @param comparisons - Array of comparison results (winnerId, loserId, optional tie/score/weight)
  * @param maxIterations - Maximum number of MM iterations
  * @param tolerance - Convergence tolerance (max param change)
  * @returns BTResult with abilities, standard errors, and convergence info
@@ -69,29 +99,43 @@ export function estimateBradleyTerry(
       iterations: 0,
       converged: true,
       logLikelihood: 0,
+      tieParameter: 0,
     };
   }
 
-  // Build win counts and pairwise game counts
-  const wins = new Map<string, number>(); // total wins per item
+  // Build win/tie counts and pairwise game counts
+  const wins = new Map<string, number>(); // (fractional) wins per item
+  const ties = new Map<string, number>(); // ties per item
   const pairGames = new Map<string, number>(); // n_ij for each pair
+  let totalTies = 0;
 
   for (const id of items) {
     wins.set(id, 0);
+    ties.set(id, 0);
   }
 
   for (const comp of comparisons) {
-    wins.set(comp.winnerId, (wins.get(comp.winnerId) || 0) + 1);
+    const weight = comp.weight ?? 1;
+    if (comp.tie) {
+      ties.set(comp.winnerId, ties.get(comp.winnerId)! + weight);
+      ties.set(comp.loserId, ties.get(comp.loserId)! + weight);
+      totalTies += weight;
+    } else {
+      const score = comp.score ?? 1;
+      wins.set(comp.winnerId, wins.get(comp.winnerId)! + weight * score);
+      wins.set(comp.loserId, wins.get(comp.loserId)! + weight * (1 - score));
+    }
 
     const pairKey = [comp.winnerId, comp.loserId].sort().join('|');
-    pairGames.set(pairKey, (pairGames.get(pairKey) || 0) + 1);
+    pairGames.set(pairKey, (pairGames.get(pairKey) || 0) + weight);
   }
 
-  // Initialize abilities uniformly
+  // Initialize abilities uniformly (and ν only when there are ties to fit it)
   const pi = new Map<string, number>();
   for (const id of items) {
     pi.set(id, 1.0);
   }
+  let nu = totalTies > 0 ? 1.0 : 0;
 
   // Build adjacency list for efficiency
   const neighbors = new Map<string, Set<string>>();
@@ -114,7 +158,7 @@ export function estimateBradleyTerry(
     const newPi = new Map<string, number>();
 
     for (const i of items) {
-      const wi = wins.get(i) || 0;
+      const wi = wins.get(i)! + ties.get(i)! / 2;
 
       if (wi === 0) {
         // Item has no wins — set to small value
@@ -123,23 +167,25 @@ export function estimateBradleyTerry(
       }
 
       let denomSum = 0;
+      const piI = pi.get(i)!;
       for (const j of neighbors.get(i)!) {
         const pairKey = [i, j].sort().join('|');
         const nij = pairGames.get(pairKey) || 0;
         if (nij > 0) {
-          denomSum += nij / (pi.get(i)! + pi.get(j)!);
+          const piJ = pi.get(j)!;
+          denomSum += (nij * (1 + (nu / 2) * Math.sqrt(piJ / piI))) / davidsonTotal(piI, piJ, nu);
         }
       }
 
       if (denomSum === 0) {
-        newPi.set(i, pi.get(i)!);
+        newPi.set(i, piI);
         continue;
       }
 
       const newVal = wi / denomSum;
       newPi.set(i, newVal);
 
-      const change = Math.abs(newVal - pi.get(i)!);
+      const change = Math.abs(newVal - piI);
       if (change > maxChange) maxChange = change;
     }
 
@@ -156,8 +202,23 @@ export function estimateBradleyTerry(
       pi.set(id, val / normFactor);
     }
 
+    // Tie parameter against the updated abilities
+    let nuChange = 0;
+    if (totalTies > 0) {
+      let tieDenom = 0;
+      for (const [pairKey, nij] of pairGames) {
+        const [i, j] = pairKey.split('|');
+        const piI = Math.max(pi.get(i)!, 1e-20);
+        const piJ = Math.max(pi.get(j)!, 1e-20);
+        tieDenom += (nij * Math.sqrt(piI * piJ)) / davidsonTotal(piI, piJ, nu);
+      }
+      const newNu = tieDenom > 0 ? totalTies / tieDenom : nu;
+      nuChange = Math.abs(newNu - nu);
+      nu = newNu;
+    }
+
     // Check convergence on normalized values
-    if (maxChange / normFactor < tolerance) {
+    if (maxChange / normFactor < tolerance && nuChange < tolerance) {
       converged = true;
       break;
     }
@@ -170,10 +231,10 @@ export function estimateBradleyTerry(
   }
 
   // Calculate standard errors from Fisher information
-  const standardErrors = calculateFisherSE(pi, pairGames, items);
+  const standardErrors = calculateFisherSE(pi, pairGames, items, nu);
 
   // Calculate log-likelihood
-  const logLikelihood = calculateLogLikelihood(pi, comparisons);
+  const logLikelihood = calculateLogLikelihood(pi, comparisons, nu);
 
   return {
     abilities,
@@ -181,6 +242,7 @@ export function estimateBradleyTerry(
     iterations,
     converged,
     logLikelihood,
+    tieParameter: nu,
   };
 }
 
@@ -193,12 +255,17 @@ export function estimateBradleyTerry(
  * The SE on the log-scale is:
  *   SE(log π_i) ≈ 1 / sqrt(I_ii * π_i^2)
  *
+ * With ties (ν > 0) each game carries the Davidson information instead,
+ * (P_i + P_j)/4 − (P_i − P_j)²/4 per game on the log scale, so every pair's
+ * term is scaled by its ratio to the BT information P_i P_j.
+ *
  * This uses the diagonal of the inverse Fisher information as an approximation.
  */
 function calculateFisherSE(
   pi: Map<string, number>,
   pairGames: Map<string, number>,
   items: string[],
+  nu: number = 0,
 ): Map<string, number> {
   const se = new Map<string, number>();
 
@@ -215,7 +282,7 @@ function calculateFisherSE(
         const piI = pi.get(i) || 1e-10;
         const piJ = pi.get(j) || 1e-10;
         const denom = (piI + piJ) * (piI + piJ);
-        fisherInfo += (nij * piJ) / denom;
+        fisherInfo += ((nij * piJ) / denom) * davidsonInformationRatio(piI, piJ, nu);
       }
     }
 
@@ -231,26 +298,206 @@ function calculateFisherSE(
   return se;
 }
 
+/**
+ * Information of one Davidson game relative to one BT game (1 when ν = 0)
+ */
+function davidsonInformationRatio(piI: number, piJ: number, nu: number): number {
+  if (nu === 0) return 1;
+  const total = davidsonTotal(piI, piJ, nu);
+  const pI = piI / total;
+  const pJ = piJ / total;
+  const davidson = (pI + pJ) / 4 - ((pI - pJ) * (pI - pJ)) / 4;
+  const bt = (piI * piJ) / ((piI + piJ) * (piI + piJ));
+  return davidson / bt;
+}
+
 /**
  * Calculate the log-likelihood of the BT model given abilities.
  *
- * L = Σ [log(π_winner) - log(π_winner + π_loser)]
+ * L = Σ [s·log(π_winner) + (1 − s)·log(π_loser) − log(π_winner + π_loser + ν√(π_winner π_loser))]
+ * (s = winner's score) plus, for ties, log(ν√(π_i π_j)) − log(π_i + π_j + ν√(π_i π_j)),
+ * each term multiplied by the comparison's weight.
  */
 function calculateLogLikelihood(
   pi: Map<string, number>,
   comparisons: ComparisonRecord[],
+  nu: number = 0,
 ): number {
   let ll = 0;
 
   for (const comp of comparisons) {
     const piW = pi.get(comp.winnerId) || 1e-10;
     const piL = pi.get(comp.loserId) || 1e-10;
-    ll += Math.log(piW) - Math.log(piW + piL);
+    const logTotal = Math.log(davidsonTotal(piW, piL, nu));
+    const weight = comp.weight ?? 1;
+    if (comp.tie) {
+      ll += weight * (Math.log(nu) + 0.5 * (Math.log(piW) + Math.log(piL)) - logTotal);
+    } else {
+      const score = comp.score ?? 1;
+      ll += weight * (score * Math.log(piW) + (score < 1 ? (1 - score) * Math.log(piL) : 0) - logTotal);
+    }
   }
 
   return ll;
 }
 
+// ===== Position effect =====
+
+export interface PositionComparisonRecord extends ComparisonRecord {
+  /** Item shown on the left (winnerId or loserId) */
+  leftId: string;
+}
+
+export interface PositionBTResult extends BTResult {
+  /** log θ: log-odds of the left item winning between two equal items */
+  positionEffect: number;
+  /** Fisher SE of the position effect */
+  positionEffectStdError: number;
+}
+
+/**
+ * Estimate Bradley-Terry abilities with a left-position effect
+ * ("home advantage", Hunter 2004 §3.3):
+ *   P(i beats j | i on the left) = θπ_i / (θπ_i + π_j)
+ *
+ * The abilities are then corrected for position bias: a preference for the
+ * left side is absorbed by θ instead of favouring items that happened to
+ * be shown on the left more often. MM updates:
+ *   π_i = W_i / Σ_games-of-i (θ if i left, else 1) / (θπ_left + π_right)
+ *   θ   = H / Σ_games π_left / (θπ_left + π_right)
+ * with H = (fractional) wins of the left item. Ties are skipped.
+ *
+ * @param comparisons - Decided comparisons with the left item
+ * @param maxIterations - Maximum number of MM iterations
+ * @param tolerance - Convergence tolerance (max param change)
+ * @returns BTResult plus the position effect and its standard error
+ */
+export function estimateBradleyTerryWithPosition(
+  comparisons: PositionComparisonRecord[],
+  maxIterations: number = 1000,
+  tolerance: number = 1e-8,
+): PositionBTResult {
+  const games = comparisons
+    .filter((comp) => !comp.tie)
+    .map((comp) => {
+      const leftWon = comp.leftId === comp.winnerId;
+      const score = comp.score ?? 1;
+      return {
+        left: comp.leftId,
+        right: leftWon ? comp.loserId : comp.winnerId,
+        leftScore: leftWon ? score : 1 - score,
+        weight: comp.weight ?? 1,
+      };
+    });
+
+  const items = Array.from(new Set(games.flatMap((game) => [game.left, game.right])));
+  const n = items.length;
+
+  if (n < 2) {
+    return {
+      abilities: new Map(items.map((id) => [id, 0])),
+      standardErrors: new Map(items.map((id) => [id, Infinity])),
+      iterations: 0,
+      converged: true,
+      logLikelihood: 0,
+      positionEffect: 0,
+      positionEffectStdError: Infinity,
+    };
+  }
+
+  const wins = new Map<string, number>(items.map((id) => [id, 0]));
+  let leftWins = 0;
+  for (const game of games) {
+    wins.set(game.left, wins.get(game.left)! + game.weight * game.leftScore);
+    wins.set(game.right, wins.get(game.right)! + game.weight * (1 - game.leftScore));
+    leftWins += game.weight * game.leftScore;
+  }
+
+  const pi = new Map<string, number>(items.map((id) => [id, 1.0]));
+  let theta = 1.0;
+  let iterations = 0;
+  let converged = false;
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    iterations = iter + 1;
+
+    const denominators = new Map<string, number>(items.map((id) => [id, 0]));
+    for (const game of games) {
+      const total = theta * pi.get(game.left)! + pi.get(game.right)!;
+      denominators.set(game.left, denominators.get(game.left)! + (game.weight * theta) / total);
+      denominators.set(game.right, denominators.get(game.right)! + game.weight / total);
+    }
+
+    const newPi = new Map<string, number>();
+    for (const id of items) {
+      const wi = wins.get(id)!;
+      const denom = denominators.get(id)!;
+      newPi.set(id, wi === 0 ? 1e-10 : denom > 0 ? wi / denom : pi.get(id)!);
+    }
+
+    // Normalize so that geometric mean = 1
+    let logSum = 0;
+    for (const val of newPi.values()) logSum += Math.log(Math.max(val, 1e-20));
+    const normFactor = Math.exp(logSum / n);
+
+    let maxChange = 0;
+    for (const [id, val] of newPi) {
+      const normalized = val / normFactor;
+      maxChange = Math.max(maxChange, Math.abs(normalized - pi.get(id)!));
+      pi.set(id, normalized);
+    }
+
+    // Position parameter against the updated abilities
+    let thetaDenom = 0;
+    for (const game of games) {
+      const piL = pi.get(game.left)!;
+      thetaDenom += (game.weight * piL) / (theta * piL + pi.get(game.right)!);
+    }
+    const newTheta = leftWins > 0 && thetaDenom > 0 ? leftWins / thetaDenom : 1e-10;
+    const thetaChange = Math.abs(newTheta - theta);
+    theta = newTheta;
+
+    if (maxChange < tolerance && thetaChange < tolerance) {
+      converged = true;
+      break;
+    }
+  }
+
+  // Fisher information on the log scale (diagonal approximation, as above):
+  // each game adds p(1 − p) to both items and to log θ
+  const information = new Map<string, number>(items.map((id) => [id, 0]));
+  let thetaInformation = 0;
+  let logLikelihood = 0;
+  for (const game of games) {
+    const piL = pi.get(game.left)!;
+    const piR = pi.get(game.right)!;
+    const pLeft = (theta * piL) / (theta * piL + piR);
+    const info = game.weight * pLeft * (1 - pLeft);
+    information.set(game.left, information.get(game.left)! + info);
+    information.set(game.right, information.get(game.right)! + info);
+    thetaInformation += info;
+    logLikelihood += game.weight * (
+      game.leftScore * Math.log(Math.max(pLeft, 1e-300)) +
+      (1 - game.leftScore) * Math.log(Math.max(1 - pLeft, 1e-300))
+    );
+  }
+
+  return {
+    abilities: new Map(items.map((id) => [id, Math.log(Math.max(pi.get(id)!, 1e-20))])),
+    standardErrors: new Map(
+      items.map((id) => {
+        const info = information.get(id)!;
+        return [id, info > 0 ? 1 / Math.sqrt(info) : Infinity];
+      }),
+    ),
+    iterations,
+    converged,
+    logLikelihood,
+    positionEffect: Math.log(Math.max(theta, 1e-20)),
+    positionEffectStdError: thetaInformation > 0 ? 1 / Math.sqrt(thetaInformation) : Infinity,
+  };
+}
+
 /**
  * Convert BT abilities to win probabilities for a given pair.
  *
@@ -277,3 +524,52 @@ export function btWinProbability(abilityA: number, abilityB: number): number {
 export function btAbilityToEloScale(ability: number): number {
   return 1500 + ability * (400 / Math.LN10);
 }
+
+export interface BTConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Wald confidence interval for a BT log-ability from its Fisher standard error.
+ *
+ * @param ability - BT log-ability parameter
+ * @param standardError - Fisher SE on the log scale (null/Infinity = not estimable)
+ * @param z - Normal quantile (1.96 = 95%)
+ * @returns Interval on the log scale, or null when the SE is not finite
+ */
+export function btConfidenceInterval(
+  ability: number,
+  standardError: number | null,
+  z: number = 1.96,
+): BTConfidenceInterval | null {
+  if (standardError === null || !Number.isFinite(standardError)) return null;
+  return {
+    lower: ability - z * standardError,
+    upper: ability + z * standardError,
+  };
+}
+
+/**
+ * Item interface for ranking by persisted Bradley-Terry ability
+ */
+export interface BTRankableItem extends RankableItem {
+  btAbility: number;
+}
+
+/**
+ * Compare two items for ranking in a Bradley-Terry study
+ *
+ * Primary: BT ability (higher is better)
+ * Tie-breaker: the Elo ranking criteria (see compareItemsForRanking)
+ *
+ * @param a - First item
+ * @param b - Second item
+ * @returns Negative if a ranks higher, positive if b ranks higher
+ */
+export function compareItemsByBradleyTerry(a: BTRankableItem, b: BTRankableItem): number {
+  if (a.btAbility !== b.btAbility) {
+    return b.btAbility - a.btAbility;
+  }
+  return compareItemsForRanking(a, b);
+}
@@ -0,0 +1,278 @@
+/**
+ * Persisted Bradley-Terry Estimates for SciBLIND
+ *
+ * Studies with rankingMethod = BRADLEY_TERRY keep Item.btAbility and
+ * Item.btStdError in sync with their votes, so the rankings API, admin page
+ * and PDF report can order by the BT fit instead of the running Elo rating.
+ *
+ * BT is a batch MLE, so every refresh refits the whole study from its real
+ * comparisons (test-session votes are never used, flagged votes are dropped
+ * when excludeFlaggedFromElo is set). Quad, ranking and best-worst studies
+ * are fit with Plackett-Luce, so each multi-item vote counts as one choice
+ * (or ranking) instead of independent pairs; pair studies fit
+ * ties and graded responses with Davidson's extension. Refreshes are:
+ * - Scheduled after each vote, debounced per study (BT_REFRESH_DEBOUNCE_MS,
+ *   default 5000; 0 refits right after every vote)
+ * - Read-repaired by readers: ensureBradleyTerryFresh refits synchronously
+ *   when votes are newer than Study.btUpdatedAt, which also covers
+ *   serverless instances that were frozen before a debounced timer fired
+ */
+
+import { prisma } from '@/lib/db';
+import { usesGroupedChoices } from '@/lib/voting/choices';
+import { estimateBradleyTerry } from './bradley-terry';
+import { buildChoiceObservations, estimatePlackettLuce } from './plackett-luce';
+import { pairOutcome } from '@/lib/voting/responses';
+
+const DEFAULT_DEBOUNCE_MS = 5000;
+
+/** Changes smaller than this are not written back */
+const WRITE_EPSILON = 1e-9;
+
+export interface BTRefreshItem {
+  id: string;
+  categoryId: string | null;
+}
+
+export interface BTRefreshComparison {
+  itemAId: string;
+  itemBId: string;
+  /** null = no preference */
+  winnerId: string | null;
+  preferenceStrength?: number | null;
+  choiceGroupId?: string | null;
+}
+
+export interface BTItemEstimate {
+  btAbility: number;
+  /** Fisher standard error on the log scale, null when not estimable */
+  btStdError: number | null;
+}
+
+/**
+ * Fit Bradley-Terry abilities for every item of a study.
+ *
+ * With category separation each category is fit independently (abilities are
+ * only comparable within a category); otherwise all items share one scale.
+ * Items without comparisons get ability 0 and no standard error.
+ *
+ * @param items - All items of the study
+ * @param comparisons - Comparisons to fit (already filtered to real votes)
+ * @param separateCategories - Fit each category on its own scale
+ * @param groupChoices - Fit Plackett-Luce on grouped choices (quad, ranking and best-worst studies)
+ * @returns Estimate per item ID
+ */
+export function computeBradleyTerryEstimates(
+  items: BTRefreshItem[],
+  comparisons: BTRefreshComparison[],
+  separateCategories: boolean,
+  groupChoices: boolean = false,
+): Map<string, BTItemEstimate> {
+  const groupOf = new Map<string, string>();
+  for (const item of items) {
+    groupOf.set(item.id, separateCategories ? item.categoryId ?? '' : '');
+  }
+
+  const groups = new Map<string, BTRefreshComparison[]>();
+  for (const comp of comparisons) {
+    const group = groupOf.get(comp.itemAId);
+    if (group === undefined || groupOf.get(comp.itemBId) !== group) continue;
+
+    const records = groups.get(group) ?? [];
+    records.push(comp);
+    groups.set(group, records);
+  }
+
+  const estimates = new Map<string, BTItemEstimate>();
+  for (const item of items) {
+    estimates.set(item.id, { btAbility: 0, btStdError: null });
+  }
+
+  for (const records of groups.values()) {
+    const result = groupChoices
+      ? estimatePlackettLuce(buildChoiceObservations(records))
+      : estimateBradleyTerry(records.map(pairOutcome));
+    for (const [id, ability] of result.abilities) {
+      const se = result.standardErrors.get(id);
+      estimates.set(id, {
+        btAbility: ability,
+        btStdError: se !== undefined && Number.isFinite(se) ? se : null,
+      });
+    }
+  }
+
+  return estimates;
+}
+
+/**
+ * Whether a persisted estimate differs enough to be rewritten
+ */
+function estimateChanged(
+  current: { btAbility: number; btStdError: number | null },
+  next: BTItemEstimate,
+): boolean {
+  if (Math.abs(current.btAbility - next.btAbility) > WRITE_EPSILON) return true;
+  if ((current.btStdError === null) !== (next.btStdError === null)) return true;
+  return current.btStdError !== null && next.btStdError !== null
+    && Math.abs(current.btStdError - next.btStdError) > WRITE_EPSILON;
+}
+
+/**
+ * Refit and persist Bradley-Terry estimates for a study.
+ *
+ * @param studyId - Study to refresh
+ * @returns Number of items whose estimate changed
+ */
+export async function refreshStudyBradleyTerry(studyId: string): Promise<number> {
+  // Taken before loading so votes recorded during the fit count as newer
+  const fittedAt = new Date();
+
+  const study = await prisma.study.findUnique({
+    where: { id: studyId },
+    select: { hasCategorySeparation: true, excludeFlaggedFromElo: true, comparisonMode: true },
+  });
+  if (!study) return 0;
+
+  const [items, comparisons] = await Promise.all([
+    prisma.item.findMany({
+      where: { studyId },
+      select: { id: true, categoryId: true, btAbility: true, btStdError: true },
+    }),
+    prisma.comparison.findMany({
+      where: {
+        studyId,
+        OR: [{ flagReason: null }, { flagReason: { not: 'test_session' } }],
+        session: { isTestSession: false },
+        ...(study.excludeFlaggedFromElo ? { isFlagged: false } : {}),
+      },
+      select: { itemAId: true, itemBId: true, winnerId: true, preferenceStrength: true, choiceGroupId: true },
+    }),
+  ]);
+
+  const estimates = computeBradleyTerryEstimates(
+    items,
+    comparisons,
+    study.hasCategorySeparation,
+    usesGroupedChoices(study.comparisonMode),
+  );
+  const changed = items.filter((item) => estimateChanged(item, estimates.get(item.id)!));
+
+  await prisma.$transaction([
+    ...changed.map((item) =>
+      prisma.item.update({
+        where: { id: item.id },
+        data: estimates.get(item.id)!,
+      })
+    ),
+    prisma.study.update({
+      where: { id: studyId },
+      data: { btUpdatedAt: fittedAt },
+    }),
+  ]);
+
+  return changed.length;
+}
+
+// ===== Debounced scheduling =====
+
+const pendingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const runningRefreshes = new Map<string, Promise<void>>();
+const rerunRequested = new Set<string>();
+
+/**
+ * Debounce window from BT_REFRESH_DEBOUNCE_MS (read at call time)
+ */
+export function getBradleyTerryDebounceMs(): number {
+  const raw = process.env.BT_REFRESH_DEBOUNCE_MS;
+  if (raw === undefined || raw.trim() === '') return DEFAULT_DEBOUNCE_MS;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_DEBOUNCE_MS;
+}
+
+/**
+ * Run a refresh unless one is already running for the study, in which case
+ * another pass is queued to pick up votes the running fit did not see.
+ */
+function runRefresh(studyId: string): Promise<void> {
+  const running = runningRefreshes.get(studyId);
+  if (running) {
+    rerunRequested.add(studyId);
+    return running;
+  }
+
+  const run = refreshStudyBradleyTerry(studyId)
+    .then(() => undefined)
+    .catch((error) => {
+      console.error('Bradley-Terry refresh error:', error);
+    })
+    .finally(() => {
+      runningRefreshes.delete(studyId);
+      if (rerunRequested.delete(studyId)) {
+        scheduleBradleyTerryRefresh(studyId);
+      }
+    });
+
+  runningRefreshes.set(studyId, run);
+  return run;
+}
+
+/**
+ * Schedule a background refit after a vote (fire-and-forget).
+ *
+ * Votes arriving while a refit is pending share it, so a burst of votes
+ * triggers one refit at most BT_REFRESH_DEBOUNCE_MS after the first of them.
+ *
+ * @param studyId - Study that received a vote
+ */
+export function scheduleBradleyTerryRefresh(studyId: string): void {
+  const delay = getBradleyTerryDebounceMs();
+  if (delay === 0) {
+    void runRefresh(studyId);
+    return;
+  }
+
+  if (pendingTimers.has(studyId)) return;
+
+  const timer = setTimeout(() => {
+    pendingTimers.delete(studyId);
+    void runRefresh(studyId);
+  }, delay);
+  timer.unref?.();
+  pendingTimers.set(studyId, timer);
+}
+
+/**
+ * Make sure persisted estimates include every vote before they are read.
+ *
+ * @param studyId - Study being read
+ * @param btUpdatedAt - The study's current btUpdatedAt
+ * @returns Whether a refit was needed (and has completed)
+ */
+export async function ensureBradleyTerryFresh(
+  studyId: string,
+  btUpdatedAt: Date | null,
+): Promise<boolean> {
+  const latest = await prisma.comparison.findFirst({
+    where: { studyId },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+
+  // Without votes there is nothing to fit, but the study is stamped once
+  if (btUpdatedAt && (!latest || latest.createdAt <= btUpdatedAt)) {
+    return false;
+  }
+
+  const pending = pendingTimers.get(studyId);
+  if (pending) {
+    clearTimeout(pending);
+    pendingTimers.delete(studyId);
+  }
+
+  // A refit already in flight may have loaded its votes before the latest one
+  const running = runningRefreshes.get(studyId);
+  if (running) await running;
+
+  await runRefresh(studyId);
+  return true;
+}
@@ -0,0 +1,314 @@
+/**
+ * Convergence Monitoring for SciBLIND
+ *
+ * isPublishableThreshold says whether a study has enough data, not whether
+ * its ranking has stopped changing. Studies with convergenceInterval set
+ * snapshot their ranking (per category, in the study's ranking method)
+ * every N real votes and compare each snapshot with the previous one:
+ * - Spearman's ρ and Kendall's τ-b between the two orders
+ * - top-N churn: items that entered a category's top N (targetTopN, default 4)
+ *
+ * A snapshot is stable when ρ ≥ convergenceMinCorrelation in every category
+ * and no item entered a top N. After convergenceWindow stable snapshots in a
+ * row the study is converged: Study.convergedAt is set, dataStatus becomes
+ * "converged" once the data is also publishable, and with
+ * autoDeactivateOnConvergence the study stops accepting votes. Studies with
+ * allowContinuedVoting off stop admitting new sessions. An unstable snapshot
+ * later clears convergedAt again.
+ *
+ * Snapshots are taken in the background after votes, at most one at a time
+ * per study; Bradley-Terry studies are refit first so the snapshot includes
+ * every vote.
+ */
+
+import { prisma } from '@/lib/db';
+import { logActivity } from '@/lib/logging';
+import { compareItemsForRanking, type RankableItem } from './elo';
+import { compareItemsByBradleyTerry } from './bradley-terry';
+import { compareItemsByGlicko } from './glicko2';
+import { ensureBradleyTerryFresh } from './bt-refresh';
+import { kendallTauB } from './agreement';
+
+// ===== Constants =====
+
+/** Top N for churn when the study sets no targetTopN */
+export const DEFAULT_CHURN_TOP_N = 4;
+
+/** Snapshot key of items without a category */
+export const UNCATEGORIZED_KEY = 'all';
+
+// ===== Types =====
+
+/** Item IDs per category key, best first */
+export type SnapshotRankings = Record<string, string[]>;
+
+export interface SnapshotChange {
+  /** Lowest Spearman ρ across categories (null without two shared items anywhere) */
+  spearman: number | null;
+  /** Lowest Kendall τ-b across categories */
+  kendall: number | null;
+  /** Items that entered a category's top N, summed over categories */
+  topNChurn: number;
+}
+
+export interface SnapshotItem extends RankableItem {
+  categoryId: string | null;
+  btAbility: number;
+  glickoRating: number;
+  glickoRd: number;
+}
+
+// ===== Comparing rankings =====
+
+/**
+ * Positions of the items both orders contain, in the first order's sequence
+ */
+function sharedPositions(previous: string[], current: string[]): { x: number[]; y: number[] } {
+  const currentIndex = new Map(current.map((id, index) => [id, index]));
+  const x: number[] = [];
+  const y: number[] = [];
+  for (const id of previous) {
+    const index = currentIndex.get(id);
+    if (index === undefined) continue;
+    x.push(x.length);
+    y.push(index);
+  }
+  // Re-rank the current positions among the shared items
+  const order = y.map((_, i) => i).sort((a, b) => y[a] - y[b]);
+  order.forEach((i, rank) => (y[i] = rank));
+  return { x, y };
+}
+
+/**
+ * Spearman's rank correlation between two orders of (mostly) the same items.
+ * Only items in both orders count.
+ *
+ * @returns ρ in [-1, 1], or null with fewer than two shared items
+ */
+export function spearmanRho(previous: string[], current: string[]): number | null {
+  const { x, y } = sharedPositions(previous, current);
+  const n = x.length;
+  if (n < 2) return null;
+  let squared = 0;
+  for (let i = 0; i < n; i++) squared += (x[i] - y[i]) ** 2;
+  return 1 - (6 * squared) / (n * (n * n - 1));
+}
+
+/**
+ * Kendall's τ-b between two orders (only items in both count)
+ */
+export function kendallTauOrders(previous: string[], current: string[]): number | null {
+  const { x, y } = sharedPositions(previous, current);
+  return kendallTauB(x, y);
+}
+
+/**
+ * Number of items in the current top N that were not in the previous one
+ */
+export function topNChurn(previous: string[], current: string[], topN: number): number {
+  const before = new Set(previous.slice(0, topN));
+  return current.slice(0, topN).filter((id) => !before.has(id)).length;
+}
+
+/**
+ * Compare two snapshots category by category. Categories missing from
+ * either snapshot are skipped.
+ */
+export function compareSnapshots(
+  previous: SnapshotRankings,
+  current: SnapshotRankings,
+  topN: number,
+): SnapshotChange {
+  let spearman: number | null = null;
+  let kendall: number | null = null;
+  let churn = 0;
+
+  for (const [key, order] of Object.entries(current)) {
+    const before = previous[key];
+    if (!before) continue;
+    const rho = spearmanRho(before, order);
+    const tau = kendallTauOrders(before, order);
+    if (rho !== null) spearman = spearman === null ? rho : Math.min(spearman, rho);
+    if (tau !== null) kendall = kendall === null ? tau : Math.min(kendall, tau);
+    churn += topNChurn(before, order, topN);
+  }
+
+  return { spearman, kendall, topNChurn: churn };
+}
+
+/**
+ * Whether a snapshot shows no meaningful change from the previous one
+ */
+export function isStableChange(change: SnapshotChange, minCorrelation: number): boolean {
+  return change.spearman !== null && change.spearman >= minCorrelation && change.topNChurn === 0;
+}
+
+/**
+ * Whether the latest `window` snapshots (oldest first) were all stable
+ */
+export function hasConverged(snapshots: { stable: boolean }[], window: number): boolean {
+  if (window < 1 || snapshots.length < window) return false;
+  return snapshots.slice(-window).every((snapshot) => snapshot.stable);
+}
+
+/**
+ * Order items per category the way the study ranks them
+ */
+export function buildSnapshotRankings(
+  items: SnapshotItem[],
+  rankingMethod: 'ELO' | 'BRADLEY_TERRY' | 'GLICKO2',
+): SnapshotRankings {
+  const compare =
+    rankingMethod === 'BRADLEY_TERRY'
+      ? compareItemsByBradleyTerry
+      : rankingMethod === 'GLICKO2'
+        ? compareItemsByGlicko
+        : compareItemsForRanking;
+
+  const byCategory = new Map<string, SnapshotItem[]>();
+  for (const item of items) {
+    const key = item.categoryId ?? UNCATEGORIZED_KEY;
+    const group = byCategory.get(key) ?? [];
+    group.push(item);
+    byCategory.set(key, group);
+  }
+
+  const rankings: SnapshotRankings = {};
+  for (const [key, group] of byCategory) {
+    rankings[key] = [...group].sort(compare).map((item) => item.id);
+  }
+  return rankings;
+}
+
+// ===== Recording snapshots =====
+
+/**
+ * Take a snapshot if at least convergenceInterval real votes arrived since
+ * the last one, and update the study's converged state.
+ *
+ * @param studyId - Study that received votes
+ * @returns Whether a snapshot was taken
+ */
+export async function recordRankingSnapshot(studyId: string): Promise<boolean> {
+  const study = await prisma.study.findUnique({
+    where: { id: studyId },
+    select: {
+      rankingMethod: true,
+      targetTopN: true,
+      excludeFlaggedFromElo: true,
+      btUpdatedAt: true,
+      convergenceInterval: true,
+      convergenceMinCorrelation: true,
+      convergenceWindow: true,
+      autoDeactivateOnConvergence: true,
+      convergedAt: true,
+      isActive: true,
+    },
+  });
+  if (!study || !study.convergenceInterval) return false;
+
+  const [comparisonCount, latest] = await Promise.all([
+    prisma.comparison.count({
+      where: {
+        studyId,
+        OR: [{ flagReason: null }, { flagReason: { not: 'test_session' } }],
+        session: { isTestSession: false },
+        ...(study.excludeFlaggedFromElo ? { isFlagged: false } : {}),
+      },
+    }),
+    prisma.rankingSnapshot.findFirst({
+      where: { studyId },
+      orderBy: { comparisonCount: 'desc' },
+      select: { comparisonCount: true, rankings: true },
+    }),
+  ]);
+  if (comparisonCount - (latest?.comparisonCount ?? 0) < study.convergenceInterval) return false;
+
+  if (study.rankingMethod === 'BRADLEY_TERRY') {
+    await ensureBradleyTerryFresh(studyId, study.btUpdatedAt);
+  }
+
+  const items = await prisma.item.findMany({
+    where: { studyId },
+    select: {
+      id: true,
+      categoryId: true,
+      eloRating: true,
+      artistRank: true,
+      comparisonCount: true,
+      winCount: true,
+      lossCount: true,
+      btAbility: true,
+      glickoRating: true,
+      glickoRd: true,
+    },
+  });
+
+  const rankings = buildSnapshotRankings(items, study.rankingMethod);
+  const change = latest
+    ? compareSnapshots(latest.rankings as SnapshotRankings, rankings, study.targetTopN ?? DEFAULT_CHURN_TOP_N)
+    : null;
+  const stable = change ? isStableChange(change, study.convergenceMinCorrelation) : false;
+
+  await prisma.rankingSnapshot.create({
+    data: {
+      studyId,
+      comparisonCount,
+      rankings,
+      spearman: change?.spearman ?? null,
+      kendall: change?.kendall ?? null,
+      topNChurn: change?.topNChurn ?? null,
+      stable,
+    },
+  });
+
+  const recent = await prisma.rankingSnapshot.findMany({
+    where: { studyId },
+    orderBy: { comparisonCount: 'desc' },
+    take: study.convergenceWindow,
+    select: { stable: true },
+  });
+  const converged = hasConverged(recent.reverse(), study.convergenceWindow);
+
+  if (converged && !study.convergedAt) {
+    const deactivate = study.autoDeactivateOnConvergence && study.isActive;
+    await prisma.study.update({
+      where: { id: studyId },
+      data: { convergedAt: new Date(), ...(deactivate ? { isActive: false } : {}) },
+    });
+    logActivity('STUDY_CONVERGED', {
+      studyId,
+      detail: `Ranking converged after ${comparisonCount} votes${deactivate ? ' (study deactivated)' : ''}`,
+      metadata: { comparisonCount, spearman: change?.spearman ?? null, kendall: change?.kendall ?? null, deactivated: deactivate },
+    });
+  } else if (!converged && study.convergedAt) {
+    await prisma.study.update({
+      where: { id: studyId },
+      data: { convergedAt: null },
+    });
+  }
+
+  return true;
+}
+
+const runningSnapshots = new Set<string>();
+
+/**
+ * Check for a due snapshot in the background after a vote
+ * (fire-and-forget). Votes arriving while a check runs are picked up by
+ * the next vote's check.
+ *
+ * @param studyId - Study that received a vote
+ */
+export function scheduleRankingSnapshot(studyId: string): void {
+  if (runningSnapshots.has(studyId)) return;
+  runningSnapshots.add(studyId);
+
+  recordRankingSnapshot(studyId)
+    .catch((error) => {
+      console.error('Ranking snapshot error:', error);
+    })
+    .finally(() => {
+      runningSnapshots.delete(studyId);
+    });
+}
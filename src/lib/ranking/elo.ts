@@ -15,25 +15,30 @@ export interface EloResult {
 /**
  * Calculate ELO rating changes after a comparison
  *
+ * The winner scores winnerScore and the loser 1 − winnerScore, so a draw
+ * ("no preference") is winnerScore = 0.5 and a slight preference 0.75.
+ *
  * @param winnerRating - Current ELO rating of the winner
  * @param loserRating - Current ELO rating of the loser
  * @param kFactor - K-factor (sensitivity of rating changes, default 32)
+ * @param winnerScore - Winner's score (default 1 = outright win)
  * @returns New ratings and deltas for both items
  */
 export function calculateEloChange(
   winnerRating: number,
   loserRating: number,
-  kFactor: number = 32
+  kFactor: number = 32,
+  winnerScore: number = 1
 ): EloResult {
   // Calculate expected score (probability of winning)
   const expectedWinner = 1 / (1 + Math.pow(10, (loserRating - winnerRating) / 400));
   const expectedLoser = 1 - expectedWinner;
 
   // Calculate rating changes
-  // Winner: scored 1 (win), expected expectedWinner
-  // Loser: scored 0 (loss), expected expectedLoser
-  const winnerDelta = kFactor * (1 - expectedWinner);
-  const loserDelta = kFactor * (0 - expectedLoser);
+  // Winner: scored winnerScore, expected expectedWinner
+  // Loser: scored 1 - winnerScore, expected expectedLoser
+  const winnerDelta = kFactor * (winnerScore - expectedWinner);
+  const loserDelta = kFactor * (1 - winnerScore - expectedLoser);
 
   return {
     winnerNewRating: winnerRating + winnerDelta,
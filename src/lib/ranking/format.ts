@@ -0,0 +1,13 @@
+/**
+ * Number formatting shared by the ranking analytics APIs
+ */
+
+/**
+ * Round to 3 decimals for API responses
+ *
+ * @param value - Statistic to report
+ * @returns Rounded value, or null for missing and non-finite values
+ */
+export function round3(value: number | null): number | null {
+  return value === null || !Number.isFinite(value) ? null : Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,219 @@
+/**
+ * Glicko-2 Rating System for SciBLIND
+ *
+ * Extends the Elo idea with a per-item rating deviation (RD) and volatility,
+ * so every rating carries its own uncertainty instead of one derived from
+ * comparison counts. RD shrinks as an item is compared (faster against
+ * well-known opponents) and is used by matchmaking and the publishable
+ * threshold in GLICKO2 studies.
+ *
+ * Each vote is treated as one rating period for the items it involves:
+ * a pairwise vote is one game per item, a quad vote is three wins for the
+ * winner and one loss for each loser, all against pre-vote ratings.
+ *
+ * Reference: Glickman (2012) "Example of the Glicko-2 system"
+ */
+
+import { compareItemsForRanking, type RankableItem } from './elo';
+
+export const GLICKO2_DEFAULT_RATING = 1500;
+export const GLICKO2_DEFAULT_RD = 350;
+export const GLICKO2_DEFAULT_VOLATILITY = 0.06;
+/** System constant τ: how much volatility may change per period (0.3–1.2) */
+export const GLICKO2_DEFAULT_TAU = 0.5;
+
+/** Conversion between the Glicko (1500-centred) and Glicko-2 scales */
+const SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+export interface GlickoRating {
+  rating: number;
+  /** Rating deviation (one standard deviation, on the rating scale) */
+  rd: number;
+  volatility: number;
+}
+
+export interface GlickoGameResult {
+  opponent: GlickoRating;
+  /** 1 = win, 0 = loss, 0.5 = draw */
+  score: number;
+}
+
+export interface Glicko2Result {
+  winner: GlickoRating;
+  loser: GlickoRating;
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expected(mu: number, muJ: number, phiJ: number): number {
+  return 1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)));
+}
+
+/**
+ * Solve for the new volatility σ' with the Illinois algorithm (step 5).
+ */
+function updateVolatility(phi: number, sigma: number, delta: number, v: number, tau: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+/**
+ * Update a rating after one rating period.
+ *
+ * With no results only the deviation grows (by the volatility). RD never
+ * exceeds the initial GLICKO2_DEFAULT_RD.
+ *
+ * @param player - Rating before the period
+ * @param results - Games played in the period, against opponents' pre-period ratings
+ * @param tau - System constant τ
+ * @returns Rating after the period
+ */
+export function updateGlicko2(
+  player: GlickoRating,
+  results: GlickoGameResult[],
+  tau: number = GLICKO2_DEFAULT_TAU,
+): GlickoRating {
+  const mu = (player.rating - GLICKO2_DEFAULT_RATING) / SCALE;
+  const phi = player.rd / SCALE;
+  const maxPhi = GLICKO2_DEFAULT_RD / SCALE;
+
+  if (results.length === 0) {
+    const phiStar = Math.sqrt(phi * phi + player.volatility * player.volatility);
+    return { ...player, rd: Math.min(phiStar, maxPhi) * SCALE };
+  }
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const muJ = (opponent.rating - GLICKO2_DEFAULT_RATING) / SCALE;
+    const phiJ = opponent.rd / SCALE;
+    const gJ = g(phiJ);
+    const e = expected(mu, muJ, phiJ);
+    vInverse += gJ * gJ * e * (1 - e);
+    improvement += gJ * (score - e);
+  }
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+
+  const volatility = updateVolatility(phi, player.volatility, delta, v, tau);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = Math.min(1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v), maxPhi);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * SCALE + GLICKO2_DEFAULT_RATING,
+    rd: newPhi * SCALE,
+    volatility,
+  };
+}
+
+/**
+ * Calculate Glicko-2 changes after a pairwise comparison
+ *
+ * @param winner - Winner's rating before the vote
+ * @param loser - Loser's rating before the vote
+ * @param tau - System constant τ
+ * @param winnerScore - Winner's score (default 1; 0.5 = draw, see calculateEloChange)
+ * @returns New ratings for both items
+ */
+export function calculateGlicko2Change(
+  winner: GlickoRating,
+  loser: GlickoRating,
+  tau: number = GLICKO2_DEFAULT_TAU,
+  winnerScore: number = 1,
+): Glicko2Result {
+  return {
+    winner: updateGlicko2(winner, [{ opponent: loser, score: winnerScore }], tau),
+    loser: updateGlicko2(loser, [{ opponent: winner, score: 1 - winnerScore }], tau),
+  };
+}
+
+/**
+ * Probability that A beats B, accounting for both deviations
+ *
+ * @param a - Rating of item A
+ * @param b - Rating of item B
+ * @returns Probability that A beats B (0-1)
+ */
+export function glicko2ExpectedScore(a: GlickoRating, b: GlickoRating): number {
+  const combinedPhi = Math.sqrt(a.rd * a.rd + b.rd * b.rd) / SCALE;
+  return expected((a.rating - b.rating) / SCALE, 0, combinedPhi);
+}
+
+/**
+ * Confidence interval for a Glicko rating
+ *
+ * @param rating - Glicko rating
+ * @param rd - Rating deviation
+ * @param z - Normal quantile (1.96 = 95%)
+ * @returns Interval on the rating scale
+ */
+export function glickoConfidenceInterval(
+  rating: number,
+  rd: number,
+  z: number = 1.96,
+): { lower: number; upper: number } {
+  return { lower: rating - z * rd, upper: rating + z * rd };
+}
+
+/**
+ * Item interface for ranking by Glicko-2 rating
+ */
+export interface GlickoRankableItem extends RankableItem {
+  glickoRating: number;
+  glickoRd: number;
+}
+
+/**
+ * Compare two items for ranking in a Glicko-2 study
+ *
+ * Primary: Glicko rating (higher is better)
+ * Tie-breaker: lower rating deviation, then the Elo ranking criteria
+ *
+ * @param a - First item
+ * @param b - Second item
+ * @returns Negative if a ranks higher, positive if b ranks higher
+ */
+export function compareItemsByGlicko(a: GlickoRankableItem, b: GlickoRankableItem): number {
+  if (a.glickoRating !== b.glickoRating) {
+    return b.glickoRating - a.glickoRating;
+  }
+  if (a.glickoRd !== b.glickoRd) {
+    return a.glickoRd - b.glickoRd;
+  }
+  return compareItemsForRanking(a, b);
+}
@@ -0,0 +1,365 @@
+/**
+ * Plackett-Luce Model for SciBLIND
+ *
+ * Generalizes Bradley-Terry from pairs to choices among several items.
+ * Each item has an ability π_i and, for a set S shown together:
+ *   P(i is chosen from S) = π_i / Σ_{j∈S} π_j
+ *
+ * A (partial) ranking is a sequence of such choices: the best item is chosen
+ * from all shown items, the second from the rest, and so on. A quad vote is
+ * one choice among four, so it counts as one observation instead of three
+ * independent pairwise wins (which over-weights the winner). With pairs
+ * only, the model reduces to Bradley-Terry.
+ *
+ * Best-worst votes add a worst choice after the best one (the sequential
+ * best-worst model): the worst item is chosen from the rest with inverted
+ * abilities, P(j is worst in R) = π_j⁻¹ / Σ_{t∈R} π_t⁻¹.
+ *
+ * Uses the MM algorithm for MLE estimation and returns the same shape as
+ * estimateBradleyTerry, so abilities are on the same log scale. Like
+ * comparisons there, observations can carry a weight (how many votes they
+ * count as).
+ *
+ * References:
+ * - Hunter (2004) "MM algorithms for generalized Bradley-Terry models"
+ * - Marley & Louviere (2005) "Some probabilistic models of best, worst, and best-worst choices"
+ */
+
+import type { BTResult } from './bradley-terry';
+
+export interface ChoiceObservation {
+  /** All items shown together */
+  itemIds: string[];
+  /** Items picked in order, best first; shown items not listed rank below them */
+  ranking: string[];
+  /** Items picked as worst after the ranking, worst first (best-worst votes) */
+  worst?: string[];
+  /** How many votes this observation counts as (default 1) */
+  weight?: number;
+}
+
+export interface ChoiceComparisonRow {
+  itemAId: string;
+  itemBId: string;
+  /** null = no preference (pair votes only) */
+  winnerId: string | null;
+  /** Rows with the same key come from one multi-item choice */
+  choiceGroupId?: string | null;
+  /** Vote weight, the same on every row of a group (default 1) */
+  weight?: number;
+}
+
+interface ChoiceStage {
+  chosen: string;
+  /** Items still available when `chosen` was picked (including it) */
+  remaining: string[];
+  /** `chosen` was picked as the worst of `remaining` */
+  worst: boolean;
+  /** Weight of the observation the stage came from */
+  voteWeight: number;
+}
+
+/**
+ * Read one grouped choice back from its pairwise rows.
+ *
+ * Items are ordered by their wins within the group. The leading items with
+ * distinct win counts form the ranking; if the rest tie except for one item
+ * below them all, that item was picked as worst. This recovers quad votes
+ * (winner beats 3), rankings (every item beats those below it) and
+ * best-worst votes (best beats all, all beat worst) alike.
+ */
+function readGroupedChoice(rows: ChoiceComparisonRow[]): ChoiceObservation {
+  const wins = new Map<string, number>();
+  for (const row of rows) {
+    for (const id of [row.itemAId, row.itemBId]) {
+      if (!wins.has(id)) wins.set(id, 0);
+    }
+    wins.set(row.winnerId!, wins.get(row.winnerId!)! + 1);
+  }
+
+  const itemIds = Array.from(wins.keys());
+  const ordered = [...itemIds].sort((a, b) => wins.get(b)! - wins.get(a)!);
+  const countOf = (id: string) => wins.get(id)!;
+  const isDistinct = (index: number) =>
+    (index === 0 || countOf(ordered[index - 1]) !== countOf(ordered[index])) &&
+    (index === ordered.length - 1 || countOf(ordered[index + 1]) !== countOf(ordered[index]));
+
+  let rankedCount = 0;
+  while (rankedCount < ordered.length && isDistinct(rankedCount)) rankedCount++;
+  const ranking = ordered.slice(0, rankedCount);
+  const rest = ordered.slice(rankedCount);
+
+  const weight = rows[0].weight;
+  if (rest.length >= 3 && isDistinct(ordered.length - 1)) {
+    return { itemIds, ranking, worst: [ordered[ordered.length - 1]], ...(weight !== undefined ? { weight } : {}) };
+  }
+  return { itemIds, ranking, ...(weight !== undefined ? { weight } : {}) };
+}
+
+/**
+ * Turn comparison rows into choice observations.
+ *
+ * Rows sharing a choiceGroupId (the rows of one quad, ranking or best-worst
+ * vote) become one observation, see readGroupedChoice. Rows without a group
+ * (pair votes, and quad votes recorded before grouping existed) stay
+ * pairwise choices. Pair votes without a preference make no choice and are
+ * skipped.
+ *
+ * @param rows - Comparison rows (already filtered to real votes)
+ * @returns One observation per choice
+ */
+export function buildChoiceObservations(rows: ChoiceComparisonRow[]): ChoiceObservation[] {
+  const observations: (ChoiceObservation | ChoiceComparisonRow[])[] = [];
+  const groups = new Map<string, ChoiceComparisonRow[]>();
+
+  for (const row of rows) {
+    if (!row.winnerId) continue;
+    if (!row.choiceGroupId) {
+      observations.push({
+        itemIds: [row.itemAId, row.itemBId],
+        ranking: [row.winnerId],
+        ...(row.weight !== undefined ? { weight: row.weight } : {}),
+      });
+      continue;
+    }
+
+    let group = groups.get(row.choiceGroupId);
+    if (!group) {
+      group = [];
+      groups.set(row.choiceGroupId, group);
+      observations.push(group);
+    }
+    group.push(row);
+  }
+
+  return observations.map((entry) => (Array.isArray(entry) ? readGroupedChoice(entry) : entry));
+}
+
+/**
+ * Split observations into single choices. Stages with one remaining item
+ * carry no information and are dropped, as are ranked IDs that were not shown.
+ */
+function toStages(observations: ChoiceObservation[]): ChoiceStage[] {
+  const stages: ChoiceStage[] = [];
+
+  for (const observation of observations) {
+    const remaining = Array.from(new Set(observation.itemIds));
+    const picks = [
+      ...observation.ranking.map((chosen) => ({ chosen, worst: false })),
+      ...(observation.worst ?? []).map((chosen) => ({ chosen, worst: true })),
+    ];
+    for (const { chosen, worst } of picks) {
+      if (remaining.length < 2) break;
+      const index = remaining.indexOf(chosen);
+      if (index === -1) break;
+      stages.push({ chosen, remaining: [...remaining], worst, voteWeight: observation.weight ?? 1 });
+      remaining.splice(index, 1);
+    }
+  }
+
+  return stages;
+}
+
+/**
+ * Weight of an item in a stage: π for best choices, 1/π for worst choices
+ */
+function stageWeight(pi: number, stage: ChoiceStage): number {
+  return stage.worst ? 1 / pi : pi;
+}
+
+/**
+ * Estimate Plackett-Luce abilities from choice observations
+ * using the MM (Minorization-Maximization) algorithm.
+ *
+ * The MM update for item i is:
+ *   π_i^(new) = W_i / Σ_{stages s ∋ i} 1 / Σ_{t∈R_s} π_t^(old)
+ *
+ * where W_i = number of stages in which i was chosen and R_s = the items
+ * still available in stage s (weighted observations count their stages
+ * that many times). With worst-choice stages the surrogate for
+ * item i is (W_i − L_i) log π − B_i π − C_i / π, where L_i counts worst picks
+ * and B_i, C_i sum 1 / Σ_{t∈R_s} π_t over best stages and
+ * 1 / Σ_{t∈R_s} π_t⁻¹ over worst stages; its maximum is the positive root of
+ * B_i π² − (W_i − L_i) π − C_i = 0.
+ *
+ * @param observations - Choice observations (e.g. from buildChoiceObservations)
+ * @param maxIterations - Maximum number of MM iterations
+ * @param tolerance - Convergence tolerance (max param change)
+ * @returns BTResult with abilities, standard errors, and convergence info
+ */
+export function estimatePlackettLuce(
+  observations: ChoiceObservation[],
+  maxIterations: number = 1000,
+  tolerance: number = 1e-8,
+): BTResult {
+  const stages = toStages(observations);
+
+  const itemIds = new Set<string>();
+  for (const stage of stages) {
+    for (const id of stage.remaining) itemIds.add(id);
+  }
+
+  const items = Array.from(itemIds);
+  const n = items.length;
+
+  if (n < 2) {
+    return {
+      abilities: new Map(items.map((id) => [id, 0])),
+      standardErrors: new Map(items.map((id) => [id, Infinity])),
+      iterations: 0,
+      converged: true,
+      logLikelihood: 0,
+    };
+  }
+
+  const wins = new Map<string, number>();
+  const worstPicks = new Map<string, number>();
+  for (const id of items) {
+    wins.set(id, 0);
+    worstPicks.set(id, 0);
+  }
+  for (const stage of stages) {
+    const counts = stage.worst ? worstPicks : wins;
+    counts.set(stage.chosen, counts.get(stage.chosen)! + stage.voteWeight);
+  }
+
+  // Initialize abilities uniformly
+  const pi = new Map<string, number>();
+  for (const id of items) {
+    pi.set(id, 1.0);
+  }
+
+  let iterations = 0;
+  let converged = false;
+
+  // MM iterations
+  for (let iter = 0; iter < maxIterations; iter++) {
+    iterations = iter + 1;
+    let maxChange = 0;
+
+    // B_i (best stages) and C_i (worst stages)
+    const denominators = new Map<string, number>();
+    const worstDenominators = new Map<string, number>();
+    for (const stage of stages) {
+      let total = 0;
+      for (const id of stage.remaining) total += stageWeight(pi.get(id)!, stage);
+      const sums = stage.worst ? worstDenominators : denominators;
+      for (const id of stage.remaining) {
+        sums.set(id, (sums.get(id) || 0) + stage.voteWeight / total);
+      }
+    }
+
+    const newPi = new Map<string, number>();
+    for (const i of items) {
+      const net = wins.get(i)! - worstPicks.get(i)!;
+      const b = denominators.get(i) || 0;
+      const c = worstDenominators.get(i) || 0;
+
+      let newVal: number;
+      if (c === 0) {
+        // Best choices only: the plain Plackett-Luce update
+        if (net === 0) {
+          // Item was never chosen — set to small value
+          newPi.set(i, 1e-10);
+          continue;
+        }
+        newVal = net / b;
+      } else if (b === 0) {
+        // Worst choices only
+        newVal = worstPicks.get(i)! > 0 ? c / worstPicks.get(i)! : 1e10;
+      } else {
+        newVal = (net + Math.sqrt(net * net + 4 * b * c)) / (2 * b);
+      }
+      newPi.set(i, newVal);
+
+      const change = Math.abs(newVal - pi.get(i)!);
+      if (change > maxChange) maxChange = change;
+    }
+
+    // Normalize so that geometric mean = 1 (log abilities sum to 0)
+    let logSum = 0;
+    for (const val of newPi.values()) {
+      logSum += Math.log(Math.max(val, 1e-20));
+    }
+    const normFactor = Math.exp(logSum / n);
+
+    for (const [id, val] of newPi) {
+      pi.set(id, val / normFactor);
+    }
+
+    if (maxChange / normFactor < tolerance) {
+      converged = true;
+      break;
+    }
+  }
+
+  const abilities = new Map<string, number>();
+  for (const [id, val] of pi) {
+    abilities.set(id, Math.log(Math.max(val, 1e-20)));
+  }
+
+  return {
+    abilities,
+    standardErrors: calculateFisherSE(pi, stages, items),
+    iterations,
+    converged,
+    logLikelihood: calculateLogLikelihood(pi, stages),
+  };
+}
+
+/**
+ * Standard errors on the log scale from the diagonal of the Fisher information.
+ *
+ * Each stage is a multinomial-logit choice, contributing p_i (1 - p_i) for
+ * every available item i, where p_i = π_i / Σ_{t∈R} π_t (1/π in worst-choice
+ * stages). With pairs only this is the usual Bradley-Terry information.
+ */
+function calculateFisherSE(
+  pi: Map<string, number>,
+  stages: ChoiceStage[],
+  items: string[],
+): Map<string, number> {
+  const info = new Map<string, number>();
+  for (const stage of stages) {
+    let total = 0;
+    for (const id of stage.remaining) total += stageWeight(pi.get(id)!, stage);
+    for (const id of stage.remaining) {
+      const p = stageWeight(pi.get(id)!, stage) / total;
+      info.set(id, (info.get(id) || 0) + stage.voteWeight * p * (1 - p));
+    }
+  }
+
+  const se = new Map<string, number>();
+  for (const id of items) {
+    const fisherInfo = info.get(id) || 0;
+    se.set(id, fisherInfo > 0 ? 1 / Math.sqrt(fisherInfo) : Infinity);
+  }
+  return se;
+}
+
+/**
+ * L = Σ_stages [log(w_chosen) - log(Σ_{t∈R} w_t)], w = π (best) or 1/π (worst),
+ * each stage multiplied by its vote weight
+ */
+function calculateLogLikelihood(pi: Map<string, number>, stages: ChoiceStage[]): number {
+  let ll = 0;
+  for (const stage of stages) {
+    let total = 0;
+    for (const id of stage.remaining) total += stageWeight(pi.get(id) || 1e-10, stage);
+    ll += stage.voteWeight * (Math.log(stageWeight(pi.get(stage.chosen) || 1e-10, stage)) - Math.log(total));
+  }
+  return ll;
+}
+
+/**
+ * Probability that an item is chosen from a set, given log-abilities.
+ *
+ * @param ability - Log-ability of the item
+ * @param setAbilities - Log-abilities of every item in the set (including it)
+ * @returns Choice probability (0-1)
+ */
+export function plChoiceProbability(ability: number, setAbilities: number[]): number {
+  const max = Math.max(ability, ...setAbilities);
+  const total = setAbilities.reduce((sum, a) => sum + Math.exp(a - max), 0);
+  return Math.exp(ability - max) / total;
+}
@@ -0,0 +1,590 @@
+/**
+ * Position and Presentation Bias for SciBLIND
+ *
+ * Every vote records which item was shown on the left (leftItemId) and each
+ * item counts its left/right appearances (Item.leftCount/rightCount). This
+ * module tests whether where an item was shown influenced the choice:
+ *
+ * - Left vs right: win rate of the left item in pair votes, with an exact
+ *   two-sided binomial test against 50%
+ * - Per session: the same test for each evaluator, flagging p < 0.05
+ * - Per slot: how often each display slot of a quad, ranking or best-worst
+ *   vote held the first choice, with a χ² test against a uniform spread
+ * - Order effects: left-win rate, response time and agreement with the
+ *   consensus ranking over the course of a session (fatigue), in blocks of
+ *   ORDER_BLOCK_SIZE votes, with a linear trend test per measure
+ * - Exposure: whether each item was shown left and right equally often
+ *
+ * fitPositionModel refits pair votes with a left-position effect
+ * (estimateBradleyTerryWithPosition), so abilities can be reported with the
+ * position bias removed.
+ *
+ * Multi-item votes do not store the display order of all items, but each of
+ * their rows stores the relative order of its two items (leftItemId is the
+ * one shown first). The first choice beats every other item of the vote, so
+ * its slot is the number of its rows in which it was shown second.
+ *
+ * Quad votes recorded before choiceGroupId existed are three ungrouped rows
+ * with a quad algoVersion. They are regrouped like in the Elo replay and
+ * never treated as pair votes.
+ */
+
+import { pairOutcome } from '@/lib/voting/responses';
+import { parseAlgoVersion, QUAD_ENGINE_VERSION } from '@/lib/matchmaking/strategies';
+import {
+  estimateBradleyTerry,
+  estimateBradleyTerryWithPosition,
+  type BTResult,
+  type PositionComparisonRecord,
+} from './bradley-terry';
+
+// ===== Constants =====
+
+/** Significance level for flagging a session or item */
+export const BIAS_ALPHA = 0.05;
+
+/** Fewest decided pair votes for a per-session test */
+export const MIN_SESSION_VOTES = 10;
+
+/** Votes per block in the order-effect breakdown */
+export const ORDER_BLOCK_SIZE = 10;
+
+// ===== Types =====
+
+export interface PositionComparison {
+  sessionId: string;
+  createdAt: Date;
+  itemAId: string;
+  itemBId: string;
+  /** null = no preference */
+  winnerId: string | null;
+  preferenceStrength?: number | null;
+  leftItemId: string;
+  rightItemId: string;
+  /** Only the first row of a multi-item vote carries the response time */
+  responseTimeMs: number | null;
+  choiceGroupId: string | null;
+  /** Tells ungrouped quad rows (recorded before choiceGroupId) from pair votes */
+  algoVersion: string;
+}
+
+export interface LeftRightTest {
+  /** Pair votes, including no-preference ones */
+  votes: number;
+  leftWins: number;
+  rightWins: number;
+  ties: number;
+  /** Share of decided votes won by the left item (null without any) */
+  leftWinRate: number | null;
+  /** Exact two-sided binomial test against 0.5 */
+  pValue: number;
+}
+
+export interface SessionPositionBias extends LeftRightTest {
+  sessionId: string;
+  /** pValue < BIAS_ALPHA (only with MIN_SESSION_VOTES decided votes) */
+  biased: boolean;
+}
+
+export interface SlotBias {
+  /** Items shown per vote */
+  setSize: number;
+  votes: number;
+  /** First choices per display slot (0 = shown first) */
+  counts: number[];
+  /** χ² against a uniform spread, setSize − 1 degrees of freedom */
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+export interface OrderBlock {
+  /** 1-based vote numbers within the session */
+  fromVote: number;
+  toVote: number;
+  votes: number;
+  leftWinRate: number | null;
+  meanResponseTimeMs: number | null;
+  /** Share of votes whose first choice is the consensus favourite */
+  consensusAgreement: number | null;
+}
+
+export interface OrderTrend {
+  /** OLS slope per vote */
+  slope: number;
+  /** Wald test of slope = 0 */
+  pValue: number;
+  /** Votes in the regression */
+  n: number;
+}
+
+export interface OrderEffects {
+  blockSize: number;
+  blocks: OrderBlock[];
+  leftWinTrend: OrderTrend | null;
+  responseTimeTrend: OrderTrend | null;
+  consensusTrend: OrderTrend | null;
+}
+
+export interface PositionBiasAnalysis {
+  leftRight: LeftRightTest;
+  sessions: SessionPositionBias[];
+  biasedSessionCount: number;
+  slots: SlotBias[];
+  order: OrderEffects;
+}
+
+export interface ExposureItem {
+  id: string;
+  leftCount: number;
+  rightCount: number;
+}
+
+export interface ItemExposure {
+  itemId: string;
+  leftCount: number;
+  rightCount: number;
+  /** Share of appearances on the left (null when never shown) */
+  leftShare: number | null;
+  /** Exact binomial test of leftCount against 0.5 */
+  pValue: number;
+}
+
+export interface PositionModel {
+  /** log-odds of the left item winning between two equal items */
+  positionEffect: number;
+  standardError: number;
+  /** Wald test of positionEffect = 0 */
+  pValue: number;
+  /** P(left wins) for two equal items */
+  leftWinProbability: number;
+  /** Decided pair votes in the fit */
+  votes: number;
+  /** Fit with the position effect */
+  corrected: BTResult;
+  /** Plain Bradley-Terry on the same votes */
+  uncorrected: BTResult;
+}
+
+/** One vote: a pair row, or every row of a multi-item choice */
+interface Vote {
+  sessionId: string;
+  createdAt: Date;
+  rows: PositionComparison[];
+  /** Ungrouped quad rows, which may be missing some of the vote's rows */
+  legacyQuad: boolean;
+}
+
+// ===== Distributions =====
+
+/**
+ * log Γ(a) for a positive multiple of ½ (all the χ² test needs), exactly
+ * by recurrence from Γ(1) = 1 or Γ(½) = √π
+ */
+function lnGammaHalfInteger(a: number): number {
+  let value = Number.isInteger(a) ? 0 : 0.5 * Math.log(Math.PI);
+  for (let x = Number.isInteger(a) ? 1 : 0.5; x < a; x++) value += Math.log(x);
+  return value;
+}
+
+/**
+ * Exact two-sided binomial test: the probability of an outcome no more
+ * likely than k successes in n trials.
+ *
+ * @param k - Observed successes
+ * @param n - Trials
+ * @param p - Success probability under the null hypothesis
+ * @returns p-value (1 when n = 0)
+ */
+export function binomialTest(k: number, n: number, p: number = 0.5): number {
+  if (n === 0) return 1;
+  // log P(X = i) by the recurrence P(i + 1) = P(i) · (n − i) / (i + 1) · p / (1 − p)
+  const logPmf = [n * Math.log(1 - p)];
+  for (let i = 0; i < n; i++) {
+    logPmf.push(logPmf[i] + Math.log((n - i) / (i + 1)) + Math.log(p / (1 - p)));
+  }
+
+  const observed = logPmf[k];
+  let total = 0;
+  for (const logP of logPmf) {
+    // Relative tolerance so outcomes as likely as the observed one count
+    if (logP <= observed + 1e-7) total += Math.exp(logP);
+  }
+  return Math.min(1, total);
+}
+
+/**
+ * Regularized upper incomplete gamma Q(a, x) for half-integer a
+ * (Numerical Recipes gammq)
+ */
+function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const lnPrefix = -x + a * Math.log(x) - lnGammaHalfInteger(a);
+
+  if (x < a + 1) {
+    // Series for P(a, x)
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(lnPrefix));
+  }
+
+  // Continued fraction for Q(a, x) (modified Lentz)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.min(1, Math.exp(lnPrefix) * h);
+}
+
+/**
+ * Upper tail probability of the χ² distribution
+ *
+ * @param chiSquare - Test statistic
+ * @param degreesOfFreedom - Degrees of freedom (≥ 1)
+ */
+export function chiSquarePValue(chiSquare: number, degreesOfFreedom: number): number {
+  return upperIncompleteGamma(degreesOfFreedom / 2, chiSquare / 2);
+}
+
+// ===== Votes =====
+
+function isQuadRow(row: PositionComparison): boolean {
+  return parseAlgoVersion(row.algoVersion).engine === QUAD_ENGINE_VERSION;
+}
+
+/**
+ * Whether a row is a pair vote of its own (not part of a multi-item vote)
+ */
+function isPairRow(row: PositionComparison): boolean {
+  return !row.choiceGroupId && !isQuadRow(row);
+}
+
+/**
+ * Group comparison rows into votes, each session's votes in time order.
+ * Ungrouped quad rows join the session's previous vote when it is an
+ * ungrouped quad with the same winner and fewer than 3 rows.
+ */
+function groupVotes(comparisons: PositionComparison[]): Vote[] {
+  const votes: Vote[] = [];
+  const groups = new Map<string, Vote>();
+  const lastVote = new Map<string, Vote>();
+  for (const row of comparisons) {
+    if (row.choiceGroupId) {
+      const group = groups.get(row.choiceGroupId);
+      if (group) {
+        group.rows.push(row);
+        continue;
+      }
+    }
+    const legacyQuad = !row.choiceGroupId && isQuadRow(row);
+    const previous = lastVote.get(row.sessionId);
+    if (legacyQuad && previous?.legacyQuad && previous.rows[0].winnerId === row.winnerId && previous.rows.length < 3) {
+      previous.rows.push(row);
+      continue;
+    }
+
+    const vote = { sessionId: row.sessionId, createdAt: row.createdAt, rows: [row], legacyQuad };
+    if (row.choiceGroupId) groups.set(row.choiceGroupId, vote);
+    lastVote.set(row.sessionId, vote);
+    votes.push(vote);
+  }
+  return votes.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+function isPairVote(vote: Vote): boolean {
+  return vote.rows.length === 1 && isPairRow(vote.rows[0]);
+}
+
+/**
+ * Items of a vote and its first choice: the item that beat every other item
+ * (null for a no-preference pair vote)
+ */
+function firstChoiceOf(vote: Vote): { itemIds: string[]; firstChoice: string | null } {
+  const itemIds = new Set<string>();
+  const wins = new Map<string, number>();
+  for (const row of vote.rows) {
+    itemIds.add(row.itemAId);
+    itemIds.add(row.itemBId);
+    if (row.winnerId) wins.set(row.winnerId, (wins.get(row.winnerId) ?? 0) + 1);
+  }
+  const firstChoice = [...wins].find(([, count]) => count === itemIds.size - 1)?.[0] ?? null;
+  return { itemIds: [...itemIds], firstChoice };
+}
+
+function responseTimeOf(vote: Vote): number | null {
+  return vote.rows.find((row) => row.responseTimeMs !== null)?.responseTimeMs ?? null;
+}
+
+// ===== Analyses =====
+
+/**
+ * Left vs right win rate of pair votes with an exact binomial test.
+ * Multi-item votes, grouped or not, are left out (see slotBias).
+ */
+export function leftRightTest(comparisons: PositionComparison[]): LeftRightTest {
+  let leftWins = 0;
+  let rightWins = 0;
+  let ties = 0;
+  for (const row of comparisons) {
+    if (!isPairRow(row)) continue;
+    if (row.winnerId === null) ties++;
+    else if (row.winnerId === row.leftItemId) leftWins++;
+    else rightWins++;
+  }
+  const decided = leftWins + rightWins;
+  return {
+    votes: decided + ties,
+    leftWins,
+    rightWins,
+    ties,
+    leftWinRate: decided > 0 ? leftWins / decided : null,
+    pValue: binomialTest(leftWins, decided),
+  };
+}
+
+/**
+ * Left vs right test per session, sessions with the most votes first.
+ * Sessions with fewer than MIN_SESSION_VOTES decided pair votes are listed
+ * but never flagged.
+ */
+export function sessionPositionBias(comparisons: PositionComparison[]): SessionPositionBias[] {
+  const bySession = new Map<string, PositionComparison[]>();
+  for (const row of comparisons) {
+    if (!isPairRow(row)) continue;
+    const rows = bySession.get(row.sessionId) ?? [];
+    rows.push(row);
+    bySession.set(row.sessionId, rows);
+  }
+
+  return [...bySession]
+    .map(([sessionId, rows]) => {
+      const test = leftRightTest(rows);
+      const decided = test.leftWins + test.rightWins;
+      return {
+        sessionId,
+        ...test,
+        biased: decided >= MIN_SESSION_VOTES && test.pValue < BIAS_ALPHA,
+      };
+    })
+    .sort((a, b) => b.votes - a.votes);
+}
+
+/**
+ * Display slot of each multi-item vote's first choice, per set size, with a
+ * χ² test against every slot being equally likely
+ */
+export function slotBias(comparisons: PositionComparison[]): SlotBias[] {
+  const bySize = new Map<number, number[]>();
+  for (const vote of groupVotes(comparisons)) {
+    if (isPairVote(vote)) continue;
+    const { itemIds, firstChoice } = firstChoiceOf(vote);
+    // An ungrouped quad missing rows cannot place its first choice
+    if (!firstChoice || (vote.legacyQuad && itemIds.length !== 4)) continue;
+
+    const slot = vote.rows.filter((row) => row.rightItemId === firstChoice).length;
+    const counts = bySize.get(itemIds.length) ?? new Array<number>(itemIds.length).fill(0);
+    counts[slot]++;
+    bySize.set(itemIds.length, counts);
+  }
+
+  return [...bySize]
+    .sort(([a], [b]) => a - b)
+    .map(([setSize, counts]) => {
+      const votes = counts.reduce((sum, count) => sum + count, 0);
+      const expected = votes / setSize;
+      const chiSquare = counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+      const degreesOfFreedom = setSize - 1;
+      return {
+        setSize,
+        votes,
+        counts,
+        chiSquare,
+        degreesOfFreedom,
+        pValue: chiSquarePValue(chiSquare, degreesOfFreedom),
+      };
+    });
+}
+
+/**
+ * OLS slope of y on x with a Wald test (normal approximation)
+ */
+function linearTrend(points: [number, number][]): OrderTrend | null {
+  const n = points.length;
+  if (n < 3) return null;
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (const [x, y] of points) {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  let residuals = 0;
+  for (const [x, y] of points) residuals += (y - meanY - slope * (x - meanX)) ** 2;
+  const se = Math.sqrt(residuals / (n - 2) / sxx);
+  const pValue = se > 0 ? chiSquarePValue((slope / se) ** 2, 1) : slope === 0 ? 1 : 0;
+  return { slope, pValue, n };
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Order and fatigue effects over the course of a session.
+ *
+ * Votes are numbered within each session (a multi-item vote counts once) and
+ * pooled across sessions by number. Consensus agreement asks whether the
+ * vote's first choice has the highest consensus score of its items.
+ *
+ * @param comparisons - Comparison rows
+ * @param consensus - Score per item in the study's ranking (higher is better)
+ * @param blockSize - Votes per block
+ */
+export function orderEffects(
+  comparisons: PositionComparison[],
+  consensus: Map<string, number>,
+  blockSize: number = ORDER_BLOCK_SIZE,
+): OrderEffects {
+  const leftWins: [number, number][] = [];
+  const responseTimes: [number, number][] = [];
+  const agreement: [number, number][] = [];
+
+  const voteNumber = new Map<string, number>();
+  for (const vote of groupVotes(comparisons)) {
+    const index = (voteNumber.get(vote.sessionId) ?? 0) + 1;
+    voteNumber.set(vote.sessionId, index);
+
+    const row = vote.rows[0];
+    if (isPairVote(vote) && row.winnerId !== null) {
+      leftWins.push([index, row.winnerId === row.leftItemId ? 1 : 0]);
+    }
+
+    const responseTime = responseTimeOf(vote);
+    if (responseTime !== null) responseTimes.push([index, responseTime]);
+
+    const { itemIds, firstChoice } = firstChoiceOf(vote);
+    const scores = itemIds.map((id) => consensus.get(id));
+    if (firstChoice && scores.every((score) => score !== undefined)) {
+      const best = Math.max(...(scores as number[]));
+      // Skip votes where the consensus itself has no single favourite
+      if (scores.filter((score) => score === best).length === 1) {
+        agreement.push([index, consensus.get(firstChoice) === best ? 1 : 0]);
+      }
+    }
+  }
+
+  const blockOf = (index: number) => Math.floor((index - 1) / blockSize);
+  const blockCount = Math.max(0, ...[...voteNumber.values()].map((count) => blockOf(count) + 1));
+  const valuesIn = (points: [number, number][], block: number) =>
+    points.filter(([index]) => blockOf(index) === block).map(([, value]) => value);
+
+  const blocks: OrderBlock[] = [];
+  for (let block = 0; block < blockCount; block++) {
+    blocks.push({
+      fromVote: block * blockSize + 1,
+      toVote: (block + 1) * blockSize,
+      votes: [...voteNumber.values()].reduce(
+        (sum, count) => sum + Math.max(0, Math.min(blockSize, count - block * blockSize)),
+        0,
+      ),
+      leftWinRate: mean(valuesIn(leftWins, block)),
+      meanResponseTimeMs: mean(valuesIn(responseTimes, block)),
+      consensusAgreement: mean(valuesIn(agreement, block)),
+    });
+  }
+
+  return {
+    blockSize,
+    blocks,
+    leftWinTrend: linearTrend(leftWins),
+    responseTimeTrend: linearTrend(responseTimes),
+    consensusTrend: linearTrend(agreement),
+  };
+}
+
+/**
+ * All position and order analyses of a study's comparisons
+ *
+ * @param comparisons - Real comparison rows of the study
+ * @param consensus - Score per item in the study's ranking (higher is better)
+ */
+export function analyzePositionBias(
+  comparisons: PositionComparison[],
+  consensus: Map<string, number>,
+): PositionBiasAnalysis {
+  const sessions = sessionPositionBias(comparisons);
+  return {
+    leftRight: leftRightTest(comparisons),
+    sessions,
+    biasedSessionCount: sessions.filter((session) => session.biased).length,
+    slots: slotBias(comparisons),
+    order: orderEffects(comparisons, consensus),
+  };
+}
+
+/**
+ * Whether each item was shown on the left about as often as on the right
+ */
+export function exposureBalance(items: ExposureItem[]): ItemExposure[] {
+  return items.map((item) => {
+    const appearances = item.leftCount + item.rightCount;
+    return {
+      itemId: item.id,
+      leftCount: item.leftCount,
+      rightCount: item.rightCount,
+      leftShare: appearances > 0 ? item.leftCount / appearances : null,
+      pValue: binomialTest(item.leftCount, appearances),
+    };
+  });
+}
+
+// ===== Position-corrected abilities =====
+
+/**
+ * Fit pair votes with and without a left-position effect.
+ * No-preference votes are left out of both fits so they stay comparable.
+ *
+ * @returns The position effect and both fits, or null without decided pair votes
+ */
+export function fitPositionModel(comparisons: PositionComparison[]): PositionModel | null {
+  const records: PositionComparisonRecord[] = comparisons
+    .filter((row) => isPairRow(row) && row.winnerId !== null)
+    .map((row) => ({ ...pairOutcome(row), leftId: row.leftItemId }));
+  if (records.length === 0) return null;
+
+  const corrected = estimateBradleyTerryWithPosition(records);
+  const se = corrected.positionEffectStdError;
+  const theta = Math.exp(corrected.positionEffect);
+
+  return {
+    positionEffect: corrected.positionEffect,
+    standardError: se,
+    pValue: Number.isFinite(se) ? chiSquarePValue((corrected.positionEffect / se) ** 2, 1) : 1,
+    leftWinProbability: theta / (1 + theta),
+    votes: records.length,
+    corrected,
+    uncorrected: estimateBradleyTerry(records),
+  };
+}
@@ -0,0 +1,309 @@
+/**
+ * Evaluator Reliability for SciBLIND
+ *
+ * Every session counts the same in Elo and in the Bradley-Terry fit, even
+ * when its evaluator clicks at random or consistently picks the opposite of
+ * everyone else. This module scores each session's agreement with the
+ * consensus and turns it into a weight for a reliability-weighted fit.
+ *
+ * Three signals per session:
+ * - Consensus agreement η (Crowd-BT): the evaluator reports their true
+ *   preference with probability η and the opposite otherwise, so
+ *     P(s prefers i over j) = η_s · P_BT(i beats j) + (1 − η_s) · P_BT(j beats i)
+ *   η = 1 is a perfect evaluator, 0.5 a random one and below 0.5 a
+ *   contrarian. Abilities and η are fitted together by EM.
+ * - Transitivity: the share of the session's own fully compared triads
+ *   that are circular (detectCircularTriads). A random evaluator makes a
+ *   quarter of them circular.
+ * - Gold accuracy: the share of gold-pair attention checks answered
+ *   correctly (see lib/voting/attention-checks).
+ *
+ * Each signal is mapped to 0 (chance) .. 1 (perfect), shrunk towards
+ * "reliable" so a session with few votes is not punished for one slip, and
+ * the weight is their product. Sessions at or below chance get weight 0.
+ *
+ * Grouped votes (quad, ranking, best-worst) are scored on their pairwise
+ * rows; the weighted fit still uses Plackett-Luce for them.
+ *
+ * Reference: Chen et al. (2013) "Pairwise ranking aggregation in a
+ * crowdsourced setting" (Crowd-BT)
+ */
+
+import { estimateBradleyTerry, btWinProbability, type BTResult, type ComparisonRecord } from './bradley-terry';
+import { buildChoiceObservations, estimatePlackettLuce } from './plackett-luce';
+import { detectCircularTriads } from './statistics';
+import { pairOutcome, type StoredPairResponse } from '@/lib/voting/responses';
+
+// ===== Constants =====
+
+/** Beta(4, 1) prior on η: 3 extra votes agreeing with the consensus */
+const AGREEMENT_PRIOR_ALPHA = 4;
+const AGREEMENT_PRIOR_BETA = 1;
+
+/** Pseudo-triads (all transitive) added to each session's own triads */
+const TRIAD_PRIOR = 4;
+
+/** Share of circular triads expected from a random evaluator */
+const RANDOM_CIRCULAR_SHARE = 0.25;
+
+/** Pseudo-answers (all correct) added to each session's gold answers */
+const GOLD_PRIOR = 3;
+
+const EM_MAX_ITERATIONS = 25;
+const EM_TOLERANCE = 1e-4;
+const BT_MAX_ITERATIONS = 200;
+
+// ===== Types =====
+
+export interface ReliabilityComparison extends StoredPairResponse {
+  sessionId: string;
+  choiceGroupId?: string | null;
+}
+
+export interface GoldAnswer {
+  sessionId: string;
+  passed: boolean | null;
+}
+
+export interface SessionReliability {
+  sessionId: string;
+  /** Comparison rows scored */
+  comparisonCount: number;
+  /** Crowd-BT η: probability of agreeing with the consensus (0.5 = random) */
+  consensusAgreement: number;
+  /** Circular triads among the session's own votes */
+  circularTriadCount: number;
+  /** Triads the session compared fully (null when not computed) */
+  totalTriads: number | null;
+  /** 1 − circular share, null without triads */
+  transitivityIndex: number | null;
+  goldAnswered: number;
+  /** Share of gold checks passed, null without gold answers */
+  goldAccuracy: number | null;
+  /** Weight in the reliability-weighted fit (0..1) */
+  weight: number;
+}
+
+export interface ReliabilityResult {
+  sessions: Map<string, SessionReliability>;
+  /** EM rounds run */
+  iterations: number;
+  converged: boolean;
+}
+
+// ===== Scoring =====
+
+/**
+ * Map a probability of agreeing to 0 (chance or worse) .. 1 (always)
+ */
+function aboveChance(agreement: number): number {
+  return Math.max(0, Math.min(1, 2 * agreement - 1));
+}
+
+/**
+ * Combine the three signals of one session into its weight.
+ *
+ * @param consensusAgreement - Crowd-BT η
+ * @param circularTriadCount - Circular triads among the session's votes
+ * @param totalTriads - Fully compared triads (null when not computed)
+ * @param goldPassed - Gold checks passed
+ * @param goldAnswered - Gold checks answered
+ * @returns Weight between 0 and 1
+ */
+export function combineReliability(
+  consensusAgreement: number,
+  circularTriadCount: number,
+  totalTriads: number | null,
+  goldPassed: number,
+  goldAnswered: number,
+): number {
+  const consensus = aboveChance(consensusAgreement);
+
+  const circularShare = totalTriads ? circularTriadCount / (totalTriads + TRIAD_PRIOR) : 0;
+  const transitivity = Math.max(0, 1 - circularShare / RANDOM_CIRCULAR_SHARE);
+
+  const gold = goldAnswered > 0 ? aboveChance((goldPassed + GOLD_PRIOR) / (goldAnswered + GOLD_PRIOR)) : 1;
+
+  return consensus * transitivity * gold;
+}
+
+/**
+ * Estimate each session's reliability.
+ *
+ * EM for the Crowd-BT model over the pairwise rows (no-preference rows carry
+ * no direction, so they only inform the abilities):
+ * - E-step: r = η p / (η p + (1 − η)(1 − p)), the chance the vote was
+ *   honest, where p = P_BT(chosen beats other).
+ * - M-step: η_s = (Σ r + α − 1) / (n_s + α + β − 2), and a BT fit where
+ *   each vote credits its chosen item with r·s + (1 − r)(1 − s) of a win
+ *   (s = graded score).
+ *
+ * @param comparisons - Valid comparison rows (test sessions already excluded)
+ * @param goldAnswers - Answered gold checks
+ * @returns Reliability per session that voted
+ */
+export function estimateSessionReliability(
+  comparisons: ReliabilityComparison[],
+  goldAnswers: GoldAnswer[] = [],
+): ReliabilityResult {
+  const bySession = new Map<string, ReliabilityComparison[]>();
+  for (const comparison of comparisons) {
+    const rows = bySession.get(comparison.sessionId) ?? [];
+    rows.push(comparison);
+    bySession.set(comparison.sessionId, rows);
+  }
+
+  const votes = comparisons.map((comparison) => ({ sessionId: comparison.sessionId, ...pairOutcome(comparison) }));
+  const directional = votes.filter((vote) => !vote.tie);
+  const ties: ComparisonRecord[] = votes.filter((vote) => vote.tie);
+
+  // Start from the prior mean (at η = 1 the E-step could never move away)
+  const priorMean = AGREEMENT_PRIOR_ALPHA / (AGREEMENT_PRIOR_ALPHA + AGREEMENT_PRIOR_BETA);
+  const agreement = new Map<string, number>(Array.from(bySession.keys(), (id) => [id, priorMean]));
+
+  let abilities = estimateBradleyTerry(votes, BT_MAX_ITERATIONS).abilities;
+  let iterations = 0;
+  let converged = directional.length === 0;
+
+  while (!converged && iterations < EM_MAX_ITERATIONS) {
+    iterations++;
+
+    // E-step
+    const honest = directional.map((vote) => {
+      const eta = agreement.get(vote.sessionId)!;
+      const p = btWinProbability(abilities.get(vote.winnerId) ?? 0, abilities.get(vote.loserId) ?? 0);
+      const agree = eta * p;
+      const disagree = (1 - eta) * (1 - p);
+      return agree + disagree > 0 ? agree / (agree + disagree) : eta;
+    });
+
+    // M-step: η per session
+    const sums = new Map<string, { honest: number; count: number }>();
+    directional.forEach((vote, index) => {
+      const sum = sums.get(vote.sessionId) ?? { honest: 0, count: 0 };
+      sum.honest += honest[index];
+      sum.count++;
+      sums.set(vote.sessionId, sum);
+    });
+
+    let maxChange = 0;
+    for (const [sessionId, sum] of sums) {
+      const eta =
+        (sum.honest + AGREEMENT_PRIOR_ALPHA - 1) / (sum.count + AGREEMENT_PRIOR_ALPHA + AGREEMENT_PRIOR_BETA - 2);
+      maxChange = Math.max(maxChange, Math.abs(eta - agreement.get(sessionId)!));
+      agreement.set(sessionId, eta);
+    }
+
+    // M-step: abilities from the expected honest votes
+    abilities = estimateBradleyTerry(
+      [
+        ...directional.map((vote, index) => ({
+          winnerId: vote.winnerId,
+          loserId: vote.loserId,
+          score: honest[index] * vote.score + (1 - honest[index]) * (1 - vote.score),
+        })),
+        ...ties,
+      ],
+      BT_MAX_ITERATIONS,
+    ).abilities;
+
+    converged = maxChange < EM_TOLERANCE;
+  }
+
+  const gold = new Map<string, { passed: number; answered: number }>();
+  for (const answer of goldAnswers) {
+    const entry = gold.get(answer.sessionId) ?? { passed: 0, answered: 0 };
+    entry.answered++;
+    if (answer.passed) entry.passed++;
+    gold.set(answer.sessionId, entry);
+  }
+
+  const sessions = new Map<string, SessionReliability>();
+  for (const [sessionId, rows] of bySession) {
+    const transitivity = detectCircularTriads(rows);
+    const computed = transitivity.totalTriads >= 0;
+    const { passed, answered } = gold.get(sessionId) ?? { passed: 0, answered: 0 };
+    const consensusAgreement = agreement.get(sessionId)!;
+
+    sessions.set(sessionId, {
+      sessionId,
+      comparisonCount: rows.length,
+      consensusAgreement,
+      circularTriadCount: computed ? transitivity.circularTriadCount : 0,
+      totalTriads: computed ? transitivity.totalTriads : null,
+      transitivityIndex: computed && transitivity.totalTriads > 0 ? transitivity.transitivityIndex : null,
+      goldAnswered: answered,
+      goldAccuracy: answered > 0 ? passed / answered : null,
+      weight: combineReliability(
+        consensusAgreement,
+        computed ? transitivity.circularTriadCount : 0,
+        computed ? transitivity.totalTriads : null,
+        passed,
+        answered,
+      ),
+    });
+  }
+
+  return { sessions, iterations, converged };
+}
+
+// ===== Weighted fit =====
+
+/**
+ * Fit abilities with every vote weighted by its session's reliability.
+ *
+ * Uses Plackett-Luce over grouped choices for grouped modes and
+ * Bradley-Terry otherwise, like the unweighted fit. Sessions with weight 0
+ * are left out. With categoryOf, each category is fit on its own scale (as
+ * computeBradleyTerryEstimates does with category separation) and the
+ * results are merged; abilities are then only comparable within a category.
+ *
+ * @param comparisons - Valid comparison rows
+ * @param weights - Weight per session ID (missing = 1)
+ * @param grouped - Whether the study stores grouped choices (see usesGroupedChoices)
+ * @param categoryOf - Category per item ID, to fit categories separately
+ * @returns The fit, or null when no weighted votes remain
+ */
+export function estimateWeightedAbilities(
+  comparisons: ReliabilityComparison[],
+  weights: Map<string, number>,
+  grouped: boolean,
+  categoryOf?: Map<string, string | null>,
+): BTResult | null {
+  const weighted = comparisons
+    .map((comparison) => ({ ...comparison, weight: weights.get(comparison.sessionId) ?? 1 }))
+    .filter((comparison) => comparison.weight > 0);
+
+  const groups = new Map<string, typeof weighted>();
+  for (const comparison of weighted) {
+    const category = categoryOf ? categoryOf.get(comparison.itemAId) : null;
+    if (category === undefined || (categoryOf && categoryOf.get(comparison.itemBId) !== category)) continue;
+    const key = category ?? '';
+    const rows = groups.get(key) ?? [];
+    rows.push(comparison);
+    groups.set(key, rows);
+  }
+  if (groups.size === 0) return null;
+
+  const fits = Array.from(groups.values(), (rows) =>
+    grouped
+      ? estimatePlackettLuce(buildChoiceObservations(rows))
+      : estimateBradleyTerry(rows.map((comparison) => ({ ...pairOutcome(comparison), weight: comparison.weight }))),
+  );
+  if (fits.length === 1) return fits[0];
+
+  return {
+    abilities: new Map(fits.flatMap((fit) => [...fit.abilities])),
+    standardErrors: new Map(fits.flatMap((fit) => [...fit.standardErrors])),
+    iterations: Math.max(...fits.map((fit) => fit.iterations)),
+    converged: fits.every((fit) => fit.converged),
+    logLikelihood: fits.reduce((sum, fit) => sum + fit.logLikelihood, 0),
+  };
+}
+
+/**
+ * Weight per session from a reliability result
+ */
+export function reliabilityWeights(result: ReliabilityResult): Map<string, number> {
+  return new Map(Array.from(result.sessions.values(), (session) => [session.sessionId, session.weight]));
+}
@@ -0,0 +1,315 @@
+/**
+ * Elo Replay Engine for SciBLIND
+ *
+ * Recomputes item ratings from scratch by replaying stored comparisons
+ * in chronological order, instead of trusting the incrementally mutated
+ * Item.eloRating. Used to repair ratings after test or flagged votes
+ * leaked in, or after an admin decides to exclude specific sessions.
+ *
+ * Replay mirrors the live vote routes:
+ * - Items start at the study's initial rating plus their artistEloBoost
+ * - K is fixed or adaptive (calculateAdaptiveK) per study settings
+ * - The rows of a multi-item vote (quad, ranking, best-worst) are applied
+ *   simultaneously, i.e. all computed against the ratings before that vote
+ * - Left/right position counts are only tracked for pairwise votes
+ * - "No preference" and graded pair votes use the same scores as live votes
+ *   (see pairOutcome); ties count as neither a win nor a loss
+ * - Flagged votes excluded with excludeFlagged still count towards the
+ *   comparison, win/loss and left/right counts, they just leave the ratings
+ *   (and eloGames) alone — as in recordPairVote with excludeFlaggedFromElo,
+ *   so a replay never changes the exposure counts matchmaking relies on
+ */
+
+import { calculateEloChange, calculateAdaptiveK } from './elo';
+import { parseAlgoVersion, QUAD_ENGINE_VERSION } from '@/lib/matchmaking/strategies';
+import { pairOutcome } from '@/lib/voting/responses';
+
+/** A quad vote produces at most this many comparison rows */
+const QUAD_BATCH_SIZE = 3;
+
+export interface ReplayItem {
+  id: string;
+  artistEloBoost: number;
+}
+
+export interface ReplayComparison {
+  id: string;
+  createdAt: Date;
+  sessionId: string;
+  itemAId: string;
+  itemBId: string;
+  /** null = no preference */
+  winnerId: string | null;
+  /** Graded pair votes (see lib/voting/responses.ts) */
+  preferenceStrength?: number | null;
+  leftItemId: string;
+  rightItemId: string;
+  isFlagged: boolean;
+  flagReason: string | null;
+  algoVersion: string;
+  /** Shared by the rows of one multi-item vote */
+  choiceGroupId?: string | null;
+  /** Whether the comparison's session is a test session */
+  isTestSession?: boolean;
+}
+
+export interface EloReplayFilters {
+  /** Skip comparisons from test sessions (default true) */
+  excludeTest?: boolean;
+  /** Leave comparisons flagged by fraud detection out of the ratings (default false); they are still counted */
+  excludeFlagged?: boolean;
+  /** Skip all comparisons from these sessions */
+  excludeSessionIds?: string[];
+}
+
+export interface EloReplayOptions {
+  /** Study's base rating before artist boost */
+  initialRating: number;
+  /** Study's base K-factor */
+  kFactor: number;
+  /** Whether the study uses adaptive K */
+  adaptiveK: boolean;
+  filters?: EloReplayFilters;
+}
+
+export interface ReplayedItemStats {
+  eloRating: number;
+  eloGames: number;
+  comparisonCount: number;
+  winCount: number;
+  lossCount: number;
+  leftCount: number;
+  rightCount: number;
+}
+
+export interface EloReplayResult {
+  /** Replayed stats per item ID */
+  items: Map<string, ReplayedItemStats>;
+  /** Number of comparisons applied to the ratings */
+  applied: number;
+  /** Number of comparisons not applied to the ratings, by reason (flagged ones are still counted) */
+  skipped: {
+    test: number;
+    flagged: number;
+    session: number;
+    unknownItem: number;
+  };
+}
+
+export interface EloReplayDiff {
+  itemId: string;
+  before: ReplayedItemStats;
+  after: ReplayedItemStats;
+  ratingDelta: number;
+}
+
+/**
+ * Whether a comparison came from a test session
+ */
+export function isTestComparison(comparison: ReplayComparison): boolean {
+  return comparison.isTestSession === true || comparison.flagReason === 'test_session';
+}
+
+/**
+ * Sort comparisons chronologically (ID as tie-breaker for identical timestamps)
+ */
+function sortChronologically(comparisons: ReplayComparison[]): ReplayComparison[] {
+  return [...comparisons].sort((a, b) => {
+    const diff = a.createdAt.getTime() - b.createdAt.getTime();
+    if (diff !== 0) return diff;
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  });
+}
+
+/**
+ * Whether a comparison row came from a quad vote (any matchmaking strategy)
+ */
+function isQuadComparison(comparison: ReplayComparison): boolean {
+  return parseAlgoVersion(comparison.algoVersion).engine === QUAD_ENGINE_VERSION;
+}
+
+/**
+ * Whether a comparison row came from a pairwise vote
+ */
+function isPairComparison(comparison: ReplayComparison): boolean {
+  return !comparison.choiceGroupId && !isQuadComparison(comparison);
+}
+
+/**
+ * Group comparisons into votes. Pairwise comparisons are their own vote;
+ * rows sharing a choiceGroupId are one multi-item vote, placed at its first
+ * row. Quad rows recorded before choiceGroupId existed are grouped when
+ * consecutive, from the same session and with the same winner (up to 3 rows).
+ */
+export function groupIntoVotes(comparisons: ReplayComparison[]): ReplayComparison[][] {
+  const votes: ReplayComparison[][] = [];
+  const groups = new Map<string, ReplayComparison[]>();
+
+  for (const comparison of comparisons) {
+    const current = votes[votes.length - 1];
+    const first = current?.[0];
+    if (comparison.choiceGroupId) {
+      const group = groups.get(comparison.choiceGroupId);
+      if (group) {
+        group.push(comparison);
+      } else {
+        const vote = [comparison];
+        groups.set(comparison.choiceGroupId, vote);
+        votes.push(vote);
+      }
+    } else if (
+      first &&
+      !first.choiceGroupId &&
+      isQuadComparison(comparison) &&
+      isQuadComparison(first) &&
+      first.sessionId === comparison.sessionId &&
+      first.winnerId === comparison.winnerId &&
+      current.length < QUAD_BATCH_SIZE
+    ) {
+      current.push(comparison);
+    } else {
+      votes.push([comparison]);
+    }
+  }
+
+  return votes;
+}
+
+/**
+ * Replay comparisons through the Elo update rule.
+ *
+ * @param items - All items of the study (items without comparisons keep their seed rating)
+ * @param comparisons - Stored comparisons, in any order
+ * @param options - Study rating settings and filters
+ * @returns Replayed stats per item and counts of applied/skipped comparisons
+ */
+export function replayElo(
+  items: ReplayItem[],
+  comparisons: ReplayComparison[],
+  options: EloReplayOptions
+): EloReplayResult {
+  const excludeTest = options.filters?.excludeTest ?? true;
+  const excludeFlagged = options.filters?.excludeFlagged ?? false;
+  const excludedSessions = new Set(options.filters?.excludeSessionIds ?? []);
+
+  const stats = new Map<string, ReplayedItemStats>();
+  for (const item of items) {
+    stats.set(item.id, {
+      eloRating: options.initialRating + (item.artistEloBoost || 0),
+      eloGames: 0,
+      comparisonCount: 0,
+      winCount: 0,
+      lossCount: 0,
+      leftCount: 0,
+      rightCount: 0,
+    });
+  }
+
+  const skipped = { test: 0, flagged: 0, session: 0, unknownItem: 0 };
+  const included: ReplayComparison[] = [];
+  // Flagged votes left out of the ratings but still counted
+  const unrated = new Set<ReplayComparison>();
+
+  for (const comparison of sortChronologically(comparisons)) {
+    const isTest = isTestComparison(comparison);
+    if (excludedSessions.has(comparison.sessionId)) {
+      skipped.session++;
+    } else if (isTest && excludeTest) {
+      skipped.test++;
+    } else if (!stats.has(comparison.itemAId) || !stats.has(comparison.itemBId)) {
+      skipped.unknownItem++;
+    } else {
+      if (!isTest && excludeFlagged && comparison.isFlagged) {
+        skipped.flagged++;
+        unrated.add(comparison);
+      }
+      included.push(comparison);
+    }
+  }
+
+  let applied = 0;
+
+  for (const vote of groupIntoVotes(included)) {
+    // Compute every update against the ratings before this vote
+    const deltas = vote.map((comparison) => {
+      const outcome = pairOutcome(comparison);
+      const winner = stats.get(outcome.winnerId)!;
+      const loser = stats.get(outcome.loserId)!;
+      if (unrated.has(comparison)) {
+        return { comparison, outcome, winner, loser, result: null };
+      }
+
+      const effectiveK = options.adaptiveK
+        ? calculateAdaptiveK(options.kFactor, winner.eloGames, loser.eloGames)
+        : options.kFactor;
+      const result = calculateEloChange(winner.eloRating, loser.eloRating, effectiveK, outcome.score);
+
+      return { comparison, outcome, winner, loser, result };
+    });
+
+    for (const { comparison, outcome, winner, loser, result } of deltas) {
+      if (result) {
+        winner.eloRating += result.winnerDelta;
+        loser.eloRating += result.loserDelta;
+        winner.eloGames++;
+        loser.eloGames++;
+        applied++;
+      }
+
+      for (const [side, isWinner] of [[winner, true], [loser, false]] as const) {
+        side.comparisonCount++;
+        if (outcome.tie) continue;
+        if (isWinner) side.winCount++;
+        else side.lossCount++;
+      }
+
+      if (isPairComparison(comparison)) {
+        stats.get(comparison.leftItemId)!.leftCount++;
+        stats.get(comparison.rightItemId)!.rightCount++;
+      }
+    }
+  }
+
+  return { items: stats, applied, skipped };
+}
+
+/**
+ * Diff stored item stats against a replay result.
+ *
+ * @param stored - Items as currently stored
+ * @param replay - Result of replayElo
+ * @returns Items whose stats would change, largest rating change first
+ */
+export function diffReplay(
+  stored: (ReplayedItemStats & { id: string })[],
+  replay: EloReplayResult
+): EloReplayDiff[] {
+  const diffs: EloReplayDiff[] = [];
+
+  for (const item of stored) {
+    const after = replay.items.get(item.id);
+    if (!after) continue;
+
+    const before: ReplayedItemStats = {
+      eloRating: item.eloRating,
+      eloGames: item.eloGames,
+      comparisonCount: item.comparisonCount,
+      winCount: item.winCount,
+      lossCount: item.lossCount,
+      leftCount: item.leftCount,
+      rightCount: item.rightCount,
+    };
+
+    const changed =
+      Math.abs(before.eloRating - after.eloRating) > 1e-6 ||
+      (Object.keys(before) as (keyof ReplayedItemStats)[]).some(
+        (key) => key !== 'eloRating' && before[key] !== after[key]
+      );
+
+    if (changed) {
+      diffs.push({ itemId: item.id, before, after: { ...after }, ratingDelta: after.eloRating - before.eloRating });
+    }
+  }
+
+  return diffs.sort((a, b) => Math.abs(b.ratingDelta) - Math.abs(a.ratingDelta));
+}
@@ -6,14 +6,20 @@
  * - Graph connectivity analysis
  * - Circular triad (non-transitivity) detection
  * - Elo standard error estimation
- * - Data status classification
+ * - Top-N separation (is the target top-N set statistically distinct?)
+ * - Data status classification (including "converged", see lib/ranking/convergence)
+ *
+ * Items that carry a real uncertainty (Glicko-2 rating deviation) are judged
+ * by it instead of by their comparison count.
  */
 
+export type DataStatus = 'insufficient' | 'publishable' | 'confirmation' | 'converged';
+
 export interface ThresholdResult {
   /** Whether the data meets publishable threshold */
   isPublishable: boolean;
   /** Overall data status */
-  dataStatus: 'insufficient' | 'publishable' | 'confirmation';
+  dataStatus: DataStatus;
   /** Per-condition details */
   conditions: {
     minExposures: {
@@ -32,9 +38,42 @@ export interface ThresholdResult {
       connected: boolean;
       componentCount: number;
     };
+    /** Present when per-item rating deviations were checked (GLICKO2 studies) */
+    ratingPrecision?: {
+      met: boolean;
+      required: number;
+      maxObserved: number;
+      itemsAboveThreshold: number;
+    };
+    /**
+     * Present when the study sets targetTopN and items carry scores.
+     * Reported only — it does not gate isPublishable.
+     */
+    topNSeparation?: {
+      met: boolean;
+      topN: number;
+      contestedItems: number;
+      gap: number;
+    };
   };
 }
 
+export interface TopNSeparationResult {
+  topN: number;
+  /** Every top-N interval lies above every interval outside the top N */
+  separated: boolean;
+  /** Score halfway between the N-th and (N+1)-th item */
+  boundary: number;
+  /** Lowest lower bound inside the top N */
+  minTopLower: number;
+  /** Highest upper bound outside the top N */
+  maxRestUpper: number;
+  /** minTopLower − maxRestUpper (positive when separated) */
+  gap: number;
+  /** Items whose interval reaches past the other side's closest bound, in ranked order */
+  contestedItemIds: string[];
+}
+
 export interface ConnectivityResult {
   /** Whether the comparison graph is fully connected */
   connected: boolean;
@@ -44,6 +83,8 @@ export interface ConnectivityResult {
   componentSizes: number[];
   /** Item IDs in the largest component */
   largestComponent: string[];
+  /** Item IDs of every component, largest first */
+  components: string[][];
   /** Item IDs with zero comparisons */
   isolatedItems: string[];
 }
@@ -60,10 +101,16 @@ export interface TransitivityResult {
 interface ItemForStats {
   id: string;
   comparisonCount: number;
+  /** Per-item rating deviation, when the rating system provides one */
+  ratingDeviation?: number | null;
+  /** Ranking score and its standard error, for the top-N separation check */
+  score?: number;
+  stdError?: number | null;
 }
 
 interface ComparisonForStats {
-  winnerId: string;
+  /** null = no preference (counts as an exposure, never as a win) */
+  winnerId: string | null;
   itemAId: string;
   itemBId: string;
   isFlagged?: boolean;
@@ -73,6 +120,19 @@ interface ComparisonForStats {
 interface StudyThresholds {
   minExposuresPerItem: number;
   minTotalComparisons: number | null;
+  /** Max rating deviation per item; replaces minExposuresPerItem when items have one */
+  maxRatingDeviation?: number | null;
+  /** Study's targetTopN; adds the topNSeparation condition when items carry scores */
+  targetTopN?: number | null;
+  /** The ranking has stopped changing between snapshots (Study.convergedAt set) */
+  converged?: boolean;
+}
+
+interface ItemEstimate {
+  id: string;
+  score: number;
+  /** Missing or non-finite standard errors count as unbounded intervals */
+  stdError: number | null;
 }
 
 /**
@@ -94,14 +154,67 @@ export function calculateEloStdError(comparisonCount: number): number {
   return 400 / (Math.sqrt(comparisonCount) * Math.LN10);
 }
 
+/**
+ * Check whether the top-N items are statistically separated from the rest.
+ *
+ * Each item gets the interval score ± z × SE. The top N are separated when
+ * the lowest lower bound inside the top N lies above the highest upper bound
+ * outside it. Items whose interval reaches past that opposite bound are
+ * "contested": more comparisons among them can still change the top-N set.
+ *
+ * @param items - Items in ranked order (best first) with score and SE
+ * @param topN - Size of the target set
+ * @param z - Interval half-width in standard errors (default 1.96 = 95%)
+ * @returns Separation details, or null unless 1 ≤ topN < items.length
+ */
+export function checkTopNSeparation(
+  items: ItemEstimate[],
+  topN: number,
+  z: number = 1.96,
+): TopNSeparationResult | null {
+  if (topN < 1 || topN >= items.length) return null;
+
+  const halfWidth = (item: ItemEstimate) =>
+    item.stdError != null && isFinite(item.stdError) ? z * item.stdError : Infinity;
+  const top = items.slice(0, topN);
+  const rest = items.slice(topN);
+
+  const minTopLower = Math.min(...top.map((item) => item.score - halfWidth(item)));
+  const maxRestUpper = Math.max(...rest.map((item) => item.score + halfWidth(item)));
+
+  const contestedItemIds = [
+    ...top.filter((item) => item.score - halfWidth(item) <= maxRestUpper),
+    ...rest.filter((item) => item.score + halfWidth(item) >= minTopLower),
+  ].map((item) => item.id);
+
+  return {
+    topN,
+    separated: minTopLower > maxRestUpper,
+    boundary: (items[topN - 1].score + items[topN].score) / 2,
+    minTopLower,
+    maxRestUpper,
+    gap: minTopLower - maxRestUpper,
+    contestedItemIds,
+  };
+}
+
 /**
  * Check whether study data meets the publishable threshold.
  *
  * Three conditions must ALL be met:
- * 1. Every item has at least M comparisons (minExposuresPerItem)
+ * 1. Every item has at least M comparisons (minExposuresPerItem), or — when
+ *    maxRatingDeviation is set and every item has a ratingDeviation — every
+ *    item's rating deviation is at most maxRatingDeviation
  * 2. Total valid comparisons ≥ K (minTotalComparisons, default 10 × itemCount)
  * 3. Comparison graph is connected (all items reachable from any other)
  *
+ * With targetTopN set and a score on every item, the result also reports
+ * whether the top-N set is separated (see checkTopNSeparation); items are
+ * ranked by score for that check, keeping the given order on ties.
+ *
+ * Publishable data of a study whose ranking has converged is reported as
+ * "converged" instead of "publishable" or "confirmation".
+ *
  * @param items - All items in the category/study
  * @param comparisons - All valid (non-test) comparisons
  * @param studyThresholds - Study-level threshold configuration
@@ -147,6 +260,24 @@ export function isPublishableThreshold(
 
   const minExposuresMet = itemsBelowThreshold === 0;
 
+  // Condition 1 (alternative): real per-item uncertainty
+  const { maxRatingDeviation } = studyThresholds;
+  const useRatingDeviation =
+    maxRatingDeviation != null &&
+    items.length > 0 &&
+    items.every((item) => item.ratingDeviation != null);
+
+  let maxObservedDeviation = 0;
+  let itemsAboveDeviation = 0;
+  if (useRatingDeviation) {
+    for (const item of items) {
+      const deviation = item.ratingDeviation!;
+      if (deviation > maxObservedDeviation) maxObservedDeviation = deviation;
+      if (deviation > maxRatingDeviation) itemsAboveDeviation++;
+    }
+  }
+  const itemPrecisionMet = useRatingDeviation ? itemsAboveDeviation === 0 : minExposuresMet;
+
   // Condition 2: Total comparisons
   const totalComparisonsMet = validComparisons.length >= minTotalComparisons;
 
@@ -157,19 +288,35 @@ export function isPublishableThreshold(
   );
   const connectivityMet = connectivity.connected;
 
+  // Reported alongside: is the target top-N set already distinct?
+  const topNSeparation =
+    studyThresholds.targetTopN && items.every((item) => item.score !== undefined)
+      ? checkTopNSeparation(
+          items
+            .map((item) => ({ id: item.id, score: item.score!, stdError: item.stdError ?? null }))
+            .sort((a, b) => b.score - a.score),
+          studyThresholds.targetTopN,
+        )
+      : null;
+
   // Determine overall status
   const isPublishable =
-    minExposuresMet && totalComparisonsMet && connectivityMet;
+    itemPrecisionMet && totalComparisonsMet && connectivityMet;
 
   // "confirmation" means threshold just met — more data improves precision
   // but results are already publishable
-  let dataStatus: 'insufficient' | 'publishable' | 'confirmation';
+  // "converged" means the ranking has also stopped changing
+  let dataStatus: DataStatus;
   if (!isPublishable) {
     dataStatus = 'insufficient';
+  } else if (studyThresholds.converged) {
+    dataStatus = 'converged';
   } else {
     // If we have >1.5x the minimum, we're in confirmation territory
-    const exposureRatio =
-      minObserved > 0 ? minObserved / minExposuresPerItem : 0;
+    // (for deviations: the largest RD is at most 2/3 of the allowed one)
+    const exposureRatio = useRatingDeviation
+      ? maxObservedDeviation > 0 ? maxRatingDeviation / maxObservedDeviation : Infinity
+      : minObserved > 0 ? minObserved / minExposuresPerItem : 0;
     const totalRatio =
       minTotalComparisons > 0
         ? validComparisons.length / minTotalComparisons
@@ -200,6 +347,26 @@ export function isPublishableThreshold(
         connected: connectivity.connected,
         componentCount: connectivity.componentCount,
       },
+      ...(useRatingDeviation
+        ? {
+            ratingPrecision: {
+              met: itemPrecisionMet,
+              required: maxRatingDeviation,
+              maxObserved: maxObservedDeviation,
+              itemsAboveThreshold: itemsAboveDeviation,
+            },
+          }
+        : {}),
+      ...(topNSeparation
+        ? {
+            topNSeparation: {
+              met: topNSeparation.separated,
+              topN: topNSeparation.topN,
+              contestedItems: topNSeparation.contestedItemIds.length,
+              gap: topNSeparation.gap,
+            },
+          }
+        : {}),
     },
   };
 }
@@ -212,12 +379,12 @@ export function isPublishableThreshold(
  * meaningful ranking (every item comparable to every other).
  *
  * @param itemIds - All item IDs
- * @param comparisons - All comparisons
+ * @param comparisons - All comparisons (or any item pairs that were compared)
  * @returns ConnectivityResult with component analysis
  */
 export function checkGraphConnectivity(
   itemIds: string[],
-  comparisons: ComparisonForStats[],
+  comparisons: Pick<ComparisonForStats, 'itemAId' | 'itemBId'>[],
 ): ConnectivityResult {
   if (itemIds.length === 0) {
     return {
@@ -225,6 +392,7 @@ export function checkGraphConnectivity(
       componentCount: 0,
       componentSizes: [],
       largestComponent: [],
+      components: [],
       isolatedItems: [],
     };
   }
@@ -282,6 +450,7 @@ export function checkGraphConnectivity(
     componentCount: components.length,
     componentSizes: components.map((c) => c.length),
     largestComponent: components[0] || [],
+    components,
     isolatedItems,
   };
 }
@@ -314,6 +483,9 @@ export function detectCircularTriads(
     itemIds.add(comp.itemAId);
     itemIds.add(comp.itemBId);
 
+    // No preference: neither item beat the other
+    if (!comp.winnerId) continue;
+
     if (!wins.has(comp.winnerId)) {
       wins.set(comp.winnerId, new Map());
     }
@@ -407,7 +579,7 @@ export function calculateDataStatus(
   items: ItemForStats[],
   comparisons: ComparisonForStats[],
   studyThresholds: StudyThresholds,
-): 'insufficient' | 'publishable' | 'confirmation' {
+): DataStatus {
   const result = isPublishableThreshold(items, comparisons, studyThresholds);
   return result.dataStatus;
 }
@@ -1,64 +1,94 @@
 /**
- * Admin Authentication
+ * Break-Glass Admin Access
  *
- * Temporary admin auth using a shared secret until Keycloak is integrated.
- * The admin secret is stored in the ADMIN_SECRET environment variable.
+ * Admin requests authenticate only through AdminSession tokens (see
+ * user-auth.ts). The shared ADMIN_SECRET no longer works as a cookie or
+ * bearer token — it can only open an emergency session:
  *
- * Usage in API routes:
- *   const authError = requireAdminAuth(request);
- *   if (authError) return authError;
+ *   POST /api/admin/auth { "secret": "...", "reason": "Owner locked out before launch" }
  *
- * The secret can be sent via:
- * - Authorization header: `Bearer <secret>`
- * - Cookie: `sciblind-admin-token=<secret>`
+ * A break-glass login:
+ * - Signs in as a dedicated SUPER_ADMIN account (BREAK_GLASS_EMAIL) that
+ *   has no usable password and owns no studies
+ * - Gets a short-lived AdminSession flagged isBreakGlass
+ * - Requires a written reason and is recorded as ADMIN_BREAK_GLASS in the
+ *   activity log (failed attempts as AUTH_FAILURE)
  *
- * When Keycloak is integrated, this module will be replaced with JWT validation
- * from auth.scaientist.eu. The function signature will remain the same.
+ * Leave ADMIN_SECRET unset (or deactivate the break-glass account) to
+ * disable break-glass access entirely.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { prisma } from '@/lib/db';
 
-const ADMIN_SECRET = process.env.ADMIN_SECRET;
+export const BREAK_GLASS_EMAIL = 'break-glass@sciblind.local';
+
+/** Break-glass sessions expire after this long (regular sessions last 7 days) */
+export const BREAK_GLASS_SESSION_MINUTES = 60;
+
+const REASON_MIN_LENGTH = 10;
+const REASON_MAX_LENGTH = 500;
 
 /**
- * Check if the request has valid admin authentication.
- * Returns null if authenticated, or a 401 NextResponse if not.
+ * Whether break-glass login is available (ADMIN_SECRET is set)
  */
-export function requireAdminAuth(request: NextRequest): NextResponse | null {
-  if (!ADMIN_SECRET) {
-    console.error('[AdminAuth] ADMIN_SECRET environment variable is not set!');
-    return NextResponse.json(
-      { error: 'Server configuration error: admin auth not configured' },
-      { status: 500 }
-    );
-  }
+export function isBreakGlassEnabled(): boolean {
+  return !!process.env.ADMIN_SECRET;
+}
+
+/**
+ * Compare a submitted secret against ADMIN_SECRET in constant time.
+ * Always false when ADMIN_SECRET is unset.
+ */
+export function validateBreakGlassSecret(secret: string): boolean {
+  const expected = process.env.ADMIN_SECRET;
+  if (!expected) return false;
+
+  // Hash both sides so the comparison length never depends on the input
+  const a = crypto.createHash('sha256').update(secret).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
 
-  // Check Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader) {
-    const token = authHeader.replace(/^Bearer\s+/i, '');
-    if (token === ADMIN_SECRET) {
-      return null; // authenticated
-    }
+/**
+ * Validate the reason given for a break-glass login
+ */
+export function validateBreakGlassReason(reason: unknown): {
+  valid: boolean;
+  data?: string;
+  error?: string;
+} {
+  if (typeof reason !== 'string') {
+    return { valid: false, error: 'A reason is required for break-glass login' };
   }
 
-  // Check cookie
-  const cookieToken = request.cookies.get('sciblind-admin-token')?.value;
-  if (cookieToken === ADMIN_SECRET) {
-    return null; // authenticated
+  const trimmed = reason.trim();
+  if (trimmed.length < REASON_MIN_LENGTH || trimmed.length > REASON_MAX_LENGTH) {
+    return {
+      valid: false,
+      error: `Reason must be between ${REASON_MIN_LENGTH} and ${REASON_MAX_LENGTH} characters`,
+    };
   }
 
-  return NextResponse.json(
-    { error: 'Unauthorized. Admin authentication required.', errorKey: 'ADMIN_AUTH_REQUIRED' },
-    { status: 401 }
-  );
+  return { valid: true, data: trimmed };
 }
 
 /**
- * Validate admin credentials and return a session cookie.
- * Used by the admin login endpoint.
+ * Get (or create) the break-glass account.
+ *
+ * The password hash is not a bcrypt hash, so email/password login for this
+ * account always fails; it is reachable only through ADMIN_SECRET.
  */
-export function validateAdminLogin(secret: string): boolean {
-  if (!ADMIN_SECRET) return false;
-  return secret === ADMIN_SECRET;
+export async function getBreakGlassUser() {
+  return prisma.user.upsert({
+    where: { email: BREAK_GLASS_EMAIL },
+    update: { lastLoginAt: new Date() },
+    create: {
+      email: BREAK_GLASS_EMAIL,
+      name: 'Break-glass Admin',
+      role: 'SUPER_ADMIN',
+      passwordHash: '!',
+      lastLoginAt: new Date(),
+    },
+  });
 }
@@ -0,0 +1,144 @@
+/**
+ * Signed Image Tokens
+ *
+ * Participants never see storage keys or public storage URLs. Instead,
+ * every image served to a session gets a short-lived opaque ID:
+ *
+ *   <AES-256-GCM(studyId, sessionId, itemId, expiry)>.<HMAC(…, sessionToken)>
+ *
+ * - The encrypted part hides which item (and file) the URL points to,
+ *   and uses a random IV so the same item gets a different URL every time.
+ * - The HMAC binds the URL to the session token, which never appears in
+ *   the URL itself; the proxy looks the session up to verify it.
+ * - Tokens are only minted by the endpoints that serve items to a session
+ *   (next-pair, next-quad, thumbnails, personal rankings) and expire quickly.
+ *
+ * Secret: IMAGE_TOKEN_SECRET (falls back to NEXTAUTH_SECRET).
+ */
+
+import crypto from 'crypto';
+
+/** Default lifetime for images shown during voting */
+export const IMAGE_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+/** Lifetime for gallery thumbnails and result pages, which stay on screen longer */
+export const IMAGE_TOKEN_LONG_TTL_MS = 60 * 60 * 1000;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const MAC_LENGTH = 16;
+
+export interface ImageTokenPayload {
+  studyId: string;
+  sessionId: string;
+  itemId: string;
+  expiresAt: number;
+}
+
+function getSecret(): string {
+  const secret = process.env.IMAGE_TOKEN_SECRET || process.env.NEXTAUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('IMAGE_TOKEN_SECRET must be set in production');
+  }
+  return 'dev-image-token-secret';
+}
+
+function deriveKey(purpose: 'enc' | 'mac'): Buffer {
+  return crypto.createHash('sha256').update(`${purpose}:${getSecret()}`).digest();
+}
+
+function sign(encrypted: string, sessionToken: string): string {
+  return crypto
+    .createHmac('sha256', deriveKey('mac'))
+    .update(`${encrypted}.${sessionToken}`)
+    .digest()
+    .subarray(0, MAC_LENGTH)
+    .toString('base64url');
+}
+
+/**
+ * Mint an opaque image ID for an item shown to a session.
+ *
+ * @param payload - Study, session and item the image is served for
+ * @param sessionToken - The session's secret token (bound via HMAC)
+ * @param ttlMs - Token lifetime
+ * @returns URL-safe opaque ID
+ */
+export function createImageToken(
+  payload: Omit<ImageTokenPayload, 'expiresAt'>,
+  sessionToken: string,
+  ttlMs: number = IMAGE_TOKEN_TTL_MS,
+): string {
+  const expiresAt = Math.floor((Date.now() + ttlMs) / 1000);
+  const plaintext = JSON.stringify([payload.studyId, payload.sessionId, payload.itemId, expiresAt]);
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey('enc'), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const encrypted = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+
+  return `${encrypted}.${sign(encrypted, sessionToken)}`;
+}
+
+/**
+ * Decrypt an opaque image ID. Does NOT verify the session binding —
+ * call verifyImageTokenSession with the session's token afterwards.
+ *
+ * @returns The payload, or null if the token is malformed, tampered with or expired
+ */
+export function readImageToken(opaqueId: string): ImageTokenPayload | null {
+  const [encrypted, mac] = opaqueId.split('.');
+  if (!encrypted || !mac) return null;
+
+  try {
+    const raw = Buffer.from(encrypted, 'base64url');
+    if (raw.length <= IV_LENGTH + TAG_LENGTH) return null;
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey('enc'), raw.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    const plaintext = Buffer.concat([
+      decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)),
+      decipher.final(),
+    ]).toString('utf8');
+
+    const [studyId, sessionId, itemId, expiresAt] = JSON.parse(plaintext);
+    if (typeof expiresAt !== 'number' || expiresAt * 1000 < Date.now()) return null;
+
+    return { studyId, sessionId, itemId, expiresAt: expiresAt * 1000 };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify that an opaque image ID was minted for the given session token
+ */
+export function verifyImageTokenSession(opaqueId: string, sessionToken: string): boolean {
+  const [encrypted, mac] = opaqueId.split('.');
+  if (!encrypted || !mac) return false;
+
+  const expected = Buffer.from(sign(encrypted, sessionToken));
+  const actual = Buffer.from(mac);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Build the participant-facing URL for an item's image.
+ * Items without a storage key (text items, external URLs) are returned as-is.
+ *
+ * @param studyId - Study the image is served for
+ * @param session - Session the image is served to
+ * @param item - Item being shown
+ * @param ttlMs - Token lifetime
+ */
+export function getParticipantImageUrl(
+  studyId: string,
+  session: { id: string; token: string },
+  item: { id: string; imageKey: string | null; imageUrl?: string | null },
+  ttlMs: number = IMAGE_TOKEN_TTL_MS,
+): string | null {
+  if (!item.imageKey) return item.imageUrl ?? null;
+  const opaqueId = createImageToken({ studyId, sessionId: session.id, itemId: item.id }, session.token, ttlMs);
+  return `/api/participate/${studyId}/image/${opaqueId}`;
+}
@@ -0,0 +1,228 @@
+/**
+ * Rate limiting for API protection
+ *
+ * Sliding window counter over a pluggable store, selected by environment:
+ *
+ *   RATE_LIMIT_STORE=memory    In-process Map (default; per instance, reset on deploy)
+ *   RATE_LIMIT_STORE=postgres  RateLimitBucket table (shared across instances)
+ *   RATE_LIMIT_STORE=redis     UPSTASH_REDIS_REST_URL, UPSTASH_REDIS_REST_TOKEN
+ *                              (falls back to an in-process stand-in outside production)
+ *
+ * If the store is unreachable, requests are checked against the in-memory
+ * store instead of failing — rate limiting must never take voting down.
+ *
+ * Studies can override the auth/vote/nextPair limits (see ./overrides).
+ */
+
+import { prisma } from '@/lib/db';
+import { MemoryRateLimitStore } from './memory';
+import { PostgresRateLimitStore } from './postgres';
+import { LocalRedisClient, RedisRateLimitStore, UpstashRedisClient } from './redis';
+import { parseRateLimitOverrides, type OverridableRateLimit, type RateLimitOverrides } from './overrides';
+import type { RateLimitConfig, RateLimitResult, RateLimitStore, RateLimitStoreType, WindowCounts } from './types';
+
+export type { RateLimitConfig, RateLimitResult, RateLimitStore, RateLimitStoreType, WindowCounts } from './types';
+export type { OverridableRateLimit, RateLimitOverride, RateLimitOverrides } from './overrides';
+export { OVERRIDABLE_RATE_LIMITS, parseRateLimitOverrides } from './overrides';
+
+/** How long a study's overrides are cached per instance */
+const OVERRIDE_CACHE_TTL_MS = 60 * 1000;
+
+let store: RateLimitStore | null = null;
+const fallbackStore = new MemoryRateLimitStore();
+const overrideCache = new Map<string, { overrides: RateLimitOverrides | null; expiresAt: number }>();
+
+/**
+ * Create a rate limit store from environment variables
+ */
+export function createRateLimitStoreFromEnv(): RateLimitStore {
+  const type = (process.env.RATE_LIMIT_STORE || 'memory') as RateLimitStoreType;
+
+  switch (type) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'postgres':
+      return new PostgresRateLimitStore(prisma);
+    case 'redis': {
+      const url = process.env.UPSTASH_REDIS_REST_URL;
+      const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+      if (url && token) {
+        return new RedisRateLimitStore(new UpstashRedisClient(url.replace(/\/$/, ''), token));
+      }
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN must be set when RATE_LIMIT_STORE=redis');
+      }
+      console.warn('RATE_LIMIT_STORE=redis without UPSTASH_REDIS_REST_URL — using local stand-in');
+      return new RedisRateLimitStore(new LocalRedisClient());
+    }
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${type}. Must be one of: memory, postgres, redis`);
+  }
+}
+
+/**
+ * Get the configured rate limit store (created once per process)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createRateLimitStoreFromEnv();
+  }
+  return store;
+}
+
+/**
+ * Replace the rate limit store (tests, scripts)
+ */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next;
+}
+
+/**
+ * Judge a hit against the sliding window estimate.
+ *
+ * The previous window's count is weighted by the fraction of it that still
+ * overlaps the sliding window ending now.
+ *
+ * @param counts - Hits in the current (including this one) and previous window
+ * @param now - Current time (ms)
+ * @param windowStart - Start of the current fixed window (ms)
+ * @param windowMs - Window length (ms)
+ * @param limit - Maximum requests per window
+ */
+export function evaluateSlidingWindow(
+  counts: WindowCounts,
+  now: number,
+  windowStart: number,
+  windowMs: number,
+  limit: number
+): RateLimitResult {
+  const previousWeight = Math.max(0, 1 - (now - windowStart) / windowMs);
+  const estimated = counts.previous * previousWeight + counts.current;
+
+  return {
+    success: estimated <= limit,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - estimated)),
+    resetAt: windowStart + windowMs,
+  };
+}
+
+/**
+ * Check and update rate limit for a given identifier
+ * @param identifier - Unique identifier (e.g., IP hash, session token)
+ * @param config - Rate limit configuration
+ */
+export async function checkRateLimit(
+  identifier: string,
+  config: RateLimitConfig
+): Promise<RateLimitResult> {
+  const key = `${config.prefix}:${identifier}`;
+  const now = Date.now();
+  const windowMs = config.windowSeconds * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let counts: WindowCounts;
+  try {
+    counts = await getRateLimitStore().hit(key, windowStart, windowMs);
+  } catch (error) {
+    console.error('Rate limit store error:', error);
+    counts = await fallbackStore.hit(key, windowStart, windowMs);
+  }
+
+  return evaluateSlidingWindow(counts, now, windowStart, windowMs, config.limit);
+}
+
+/**
+ * Get rate limit headers for response
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(result.resetAt / 1000).toString(),
+  };
+}
+
+// Preset configurations for different endpoints
+export const RATE_LIMITS = {
+  // Auth: 5 attempts per minute (prevents brute force)
+  auth: {
+    limit: 5,
+    windowSeconds: 60,
+    prefix: 'auth',
+  },
+  // Voting: 60 votes per minute (normal pace is ~20-30)
+  vote: {
+    limit: 60,
+    windowSeconds: 60,
+    prefix: 'vote',
+  },
+  // Next pair: 120 requests per minute
+  nextPair: {
+    limit: 120,
+    windowSeconds: 60,
+    prefix: 'next-pair',
+  },
+  // Image proxy: 600 images per minute (pairs, preloads and gallery thumbnails)
+  image: {
+    limit: 600,
+    windowSeconds: 60,
+    prefix: 'image',
+  },
+  // General API: 100 requests per minute
+  general: {
+    limit: 100,
+    windowSeconds: 60,
+    prefix: 'general',
+  },
+} as const;
+
+/**
+ * Load a study's rate limit overrides (cached per instance)
+ */
+async function loadStudyOverrides(studyId: string): Promise<RateLimitOverrides | null> {
+  const cached = overrideCache.get(studyId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.overrides;
+  }
+
+  let overrides: RateLimitOverrides | null = null;
+  try {
+    const study = await prisma.study.findUnique({
+      where: { id: studyId },
+      select: { rateLimits: true },
+    });
+    if (study?.rateLimits) {
+      const parsed = parseRateLimitOverrides(study.rateLimits);
+      overrides = parsed.valid ? parsed.data! : null;
+    }
+  } catch (error) {
+    // Defaults are always safe to fall back to
+    console.error('Rate limit override lookup error:', error);
+  }
+
+  overrideCache.set(studyId, { overrides, expiresAt: Date.now() + OVERRIDE_CACHE_TTL_MS });
+  return overrides;
+}
+
+/**
+ * Get the rate limit config for a study, applying its overrides to RATE_LIMITS
+ *
+ * @param studyId - Study the request belongs to
+ * @param name - Which limit (auth, vote, nextPair)
+ */
+export async function getStudyRateLimit(
+  studyId: string,
+  name: OverridableRateLimit
+): Promise<RateLimitConfig> {
+  const base = RATE_LIMITS[name];
+  const override = (await loadStudyOverrides(studyId))?.[name];
+  return override ? { ...base, ...override } : base;
+}
+
+/**
+ * Forget cached overrides after a study's rateLimits change
+ */
+export function clearStudyRateLimitCache(studyId: string): void {
+  overrideCache.delete(studyId);
+}
@@ -0,0 +1,51 @@
+/**
+ * In-Memory Rate Limit Store
+ *
+ * Counters live in a process-local Map: they reset on every deploy and
+ * are not shared between instances. Fine for development and single-instance
+ * deployments; use the postgres or redis store otherwise.
+ */
+
+import type { RateLimitStore, WindowCounts } from './types';
+
+interface Bucket {
+  count: number;
+  expiresAt: number;
+}
+
+// Cleanup old entries every 5 minutes
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly type = 'memory' as const;
+  private buckets = new Map<string, Bucket>();
+
+  constructor() {
+    const interval = setInterval(() => this.cleanup(Date.now()), CLEANUP_INTERVAL_MS);
+    // Don't keep the process alive just for cleanup
+    interval.unref?.();
+  }
+
+  async hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts> {
+    const bucketKey = `${key}:${windowStart}`;
+    const bucket = this.buckets.get(bucketKey) ?? { count: 0, expiresAt: windowStart + 2 * windowMs };
+    bucket.count++;
+    this.buckets.set(bucketKey, bucket);
+
+    return {
+      current: bucket.count,
+      previous: this.buckets.get(`${key}:${windowStart - windowMs}`)?.count ?? 0,
+    };
+  }
+
+  /**
+   * Drop buckets that no longer affect any sliding window
+   */
+  cleanup(now: number): void {
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (bucket.expiresAt < now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Per-Study Rate Limit Overrides
+ *
+ * Studies can raise or lower the participant-facing limits, e.g. for a
+ * classroom where 30 pupils share one IP and all log in within a minute:
+ *
+ *   Study.rateLimits = { "auth": { "limit": 60 }, "vote": { "limit": 120, "windowSeconds": 60 } }
+ *
+ * Omitted fields keep the defaults from RATE_LIMITS.
+ */
+
+export const OVERRIDABLE_RATE_LIMITS = ['auth', 'vote', 'nextPair'] as const;
+
+export type OverridableRateLimit = (typeof OVERRIDABLE_RATE_LIMITS)[number];
+
+export interface RateLimitOverride {
+  limit?: number;
+  windowSeconds?: number;
+}
+
+export type RateLimitOverrides = Partial<Record<OverridableRateLimit, RateLimitOverride>>;
+
+const MAX_LIMIT = 10000;
+const MAX_WINDOW_SECONDS = 3600;
+
+/**
+ * Validate a rateLimits value from an admin request or the database.
+ *
+ * @param value - Raw value (object keyed by limit name)
+ * @returns Sanitized overrides, or an error message
+ */
+export function parseRateLimitOverrides(value: unknown): {
+  valid: boolean;
+  data?: RateLimitOverrides;
+  error?: string;
+} {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, error: 'rateLimits must be an object' };
+  }
+
+  const data: RateLimitOverrides = {};
+  for (const [name, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!OVERRIDABLE_RATE_LIMITS.includes(name as OverridableRateLimit)) {
+      return { valid: false, error: `Unknown rate limit: ${name}. Must be one of: ${OVERRIDABLE_RATE_LIMITS.join(', ')}` };
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return { valid: false, error: `rateLimits.${name} must be an object` };
+    }
+
+    const { limit, windowSeconds } = raw as Record<string, unknown>;
+    const override: RateLimitOverride = {};
+    if (limit !== undefined) {
+      if (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > MAX_LIMIT) {
+        return { valid: false, error: `rateLimits.${name}.limit must be between 1 and ${MAX_LIMIT}` };
+      }
+      override.limit = limit as number;
+    }
+    if (windowSeconds !== undefined) {
+      if (
+        !Number.isInteger(windowSeconds) ||
+        (windowSeconds as number) < 1 ||
+        (windowSeconds as number) > MAX_WINDOW_SECONDS
+      ) {
+        return { valid: false, error: `rateLimits.${name}.windowSeconds must be between 1 and ${MAX_WINDOW_SECONDS}` };
+      }
+      override.windowSeconds = windowSeconds as number;
+    }
+    if (Object.keys(override).length === 0) {
+      return { valid: false, error: `rateLimits.${name} must set limit and/or windowSeconds` };
+    }
+
+    data[name as OverridableRateLimit] = override;
+  }
+
+  return { valid: true, data };
+}
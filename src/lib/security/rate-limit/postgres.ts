@@ -0,0 +1,58 @@
+/**
+ * Postgres Rate Limit Store
+ *
+ * Counts hits in the RateLimitBucket table, so limits are shared by every
+ * Next.js instance and survive deploys. Each hit is a single upsert on
+ * (key, windowStart), which Postgres executes atomically.
+ *
+ * Expired buckets are deleted opportunistically, at most once per minute
+ * per instance.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { RateLimitStore, WindowCounts } from './types';
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly type = 'postgres' as const;
+  private lastCleanup = 0;
+
+  constructor(private prisma: Pick<PrismaClient, 'rateLimitBucket'>) {}
+
+  async hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts> {
+    const [current, previous] = await Promise.all([
+      this.prisma.rateLimitBucket.upsert({
+        where: { key_windowStart: { key, windowStart: new Date(windowStart) } },
+        create: {
+          key,
+          windowStart: new Date(windowStart),
+          count: 1,
+          expiresAt: new Date(windowStart + 2 * windowMs),
+        },
+        update: { count: { increment: 1 } },
+        select: { count: true },
+      }),
+      this.prisma.rateLimitBucket.findUnique({
+        where: { key_windowStart: { key, windowStart: new Date(windowStart - windowMs) } },
+        select: { count: true },
+      }),
+    ]);
+
+    this.cleanup(Date.now());
+
+    return { current: current.count, previous: previous?.count ?? 0 };
+  }
+
+  /**
+   * Delete expired buckets (fire-and-forget, throttled)
+   */
+  private cleanup(now: number): void {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL_MS) return;
+    this.lastCleanup = now;
+
+    this.prisma.rateLimitBucket
+      .deleteMany({ where: { expiresAt: { lt: new Date(now) } } })
+      .catch((error) => console.error('Rate limit cleanup error:', error));
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Redis Rate Limit Store
+ *
+ * Counts hits with INCR on one key per window, expiring each key once it
+ * can no longer affect the sliding estimate. Talks to Redis through the
+ * Upstash REST API (plain fetch, works in serverless functions).
+ *
+ * LocalRedisClient is an in-process stand-in implementing the same
+ * commands, for development and tests without a Redis server.
+ */
+
+import type { RateLimitStore, WindowCounts } from './types';
+
+type RedisCommand = (string | number)[];
+
+export interface RedisCommandClient {
+  /** Run commands in order and return their results */
+  pipeline(commands: RedisCommand[]): Promise<unknown[]>;
+}
+
+/**
+ * Redis client for the Upstash REST API
+ */
+export class UpstashRedisClient implements RedisCommandClient {
+  constructor(
+    private url: string,
+    private token: string,
+  ) {}
+
+  async pipeline(commands: RedisCommand[]): Promise<unknown[]> {
+    const response = await fetch(`${this.url}/pipeline`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(commands),
+    });
+    if (!response.ok) {
+      throw new Error(`Redis pipeline failed (${response.status})`);
+    }
+
+    const results = (await response.json()) as { result?: unknown; error?: string }[];
+    return results.map((entry) => {
+      if (entry.error) throw new Error(`Redis error: ${entry.error}`);
+      return entry.result;
+    });
+  }
+}
+
+/**
+ * In-process stand-in for Redis supporting INCR, PEXPIRE and GET
+ */
+export class LocalRedisClient implements RedisCommandClient {
+  private values = new Map<string, { value: string; expiresAt: number | null }>();
+
+  async pipeline(commands: RedisCommand[]): Promise<unknown[]> {
+    return commands.map((command) => this.execute(command));
+  }
+
+  private get(key: string) {
+    const entry = this.values.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private execute([name, key, ...args]: RedisCommand): unknown {
+    const k = String(key);
+    switch (String(name).toUpperCase()) {
+      case 'INCR': {
+        const entry = this.get(k);
+        const value = (entry ? parseInt(entry.value, 10) : 0) + 1;
+        this.values.set(k, { value: String(value), expiresAt: entry?.expiresAt ?? null });
+        return value;
+      }
+      case 'PEXPIRE': {
+        const entry = this.get(k);
+        if (!entry) return 0;
+        entry.expiresAt = Date.now() + Number(args[0]);
+        return 1;
+      }
+      case 'GET':
+        return this.get(k)?.value ?? null;
+      default:
+        throw new Error(`Unsupported command: ${name}`);
+    }
+  }
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly type = 'redis' as const;
+
+  constructor(
+    private client: RedisCommandClient,
+    private keyPrefix: string = 'sciblind:ratelimit:',
+  ) {}
+
+  async hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts> {
+    const currentKey = `${this.keyPrefix}${key}:${windowStart}`;
+    const previousKey = `${this.keyPrefix}${key}:${windowStart - windowMs}`;
+
+    const [current, , previous] = await this.client.pipeline([
+      ['INCR', currentKey],
+      ['PEXPIRE', currentKey, 2 * windowMs],
+      ['GET', previousKey],
+    ]);
+
+    return {
+      current: Number(current),
+      previous: previous === null || previous === undefined ? 0 : Number(previous),
+    };
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Rate Limit Types
+ *
+ * Limits use a sliding window counter: hits are counted in fixed windows,
+ * and a request is judged against the current window's count plus the
+ * previous window's count weighted by how much of it still overlaps the
+ * sliding window. Stores only need to count hits per (key, window).
+ */
+
+export type RateLimitStoreType = 'memory' | 'postgres' | 'redis';
+
+export interface RateLimitConfig {
+  /** Maximum requests allowed in the window */
+  limit: number;
+  /** Time window in seconds */
+  windowSeconds: number;
+  /** Prefix for the key (e.g., 'auth', 'vote') */
+  prefix: string;
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/** Hit counts for the current and previous fixed window of a key */
+export interface WindowCounts {
+  current: number;
+  previous: number;
+}
+
+export interface RateLimitStore {
+  readonly type: RateLimitStoreType;
+
+  /**
+   * Atomically record a hit in the window starting at `windowStart`
+   * and return the counts of that window (including this hit) and the one before it.
+   */
+  hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts>;
+}
@@ -0,0 +1,115 @@
+/**
+ * Study Roles
+ *
+ * Per-study collaborator roles. The study's owner (Study.ownerId) is always
+ * OWNER; anyone else gets a role through a StudyMember row, created when
+ * they accept an email invitation.
+ *
+ *   OWNER    Everything, including deleting the study and managing members
+ *   EDITOR   Edit settings, upload items, manage access codes, replay Elo
+ *   ANALYST  View and export data (JSON/XLSX/PDF, activity log)
+ *   VIEWER   View the study and its rankings
+ *
+ * Roles are ordered: each one includes the permissions of those below it.
+ * SUPER_ADMIN users act as OWNER on every study. Legacy studies ignore
+ * memberships and stay visible to their owner and super admins only.
+ */
+
+import crypto from 'crypto';
+import type { StudyRole, UserRole } from '@prisma/client';
+
+export const STUDY_ROLES: readonly StudyRole[] = ['OWNER', 'EDITOR', 'ANALYST', 'VIEWER'];
+
+export type StudyPermission = 'view' | 'export' | 'edit' | 'manage';
+
+/** Invitations expire after this many days */
+export const INVITE_EXPIRY_DAYS = 7;
+
+const ROLE_RANK: Record<StudyRole, number> = {
+  VIEWER: 0,
+  ANALYST: 1,
+  EDITOR: 2,
+  OWNER: 3,
+};
+
+const PERMISSION_MIN_ROLE: Record<StudyPermission, StudyRole> = {
+  view: 'VIEWER',
+  export: 'ANALYST',
+  edit: 'EDITOR',
+  manage: 'OWNER',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isStudyRole(value: unknown): value is StudyRole {
+  return typeof value === 'string' && STUDY_ROLES.includes(value as StudyRole);
+}
+
+/**
+ * Whether a role grants a permission
+ */
+export function roleAllows(role: StudyRole | null, permission: StudyPermission): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[PERMISSION_MIN_ROLE[permission]];
+}
+
+/**
+ * Work out a user's role on a study.
+ *
+ * @param user - Authenticated user (id and global role)
+ * @param study - Owner, legacy flag and the user's membership rows (at most one)
+ * @returns The effective role, or null if the user has no access
+ */
+export function resolveStudyRole(
+  user: { id: string; role: UserRole },
+  study: { ownerId: string | null; isLegacy: boolean; members: { role: StudyRole }[] }
+): StudyRole | null {
+  if (user.role === 'SUPER_ADMIN') return 'OWNER';
+  if (study.ownerId === user.id) return 'OWNER';
+
+  // Legacy studies are only visible to superadmins and their designated owner
+  if (study.isLegacy) return null;
+
+  return study.members[0]?.role ?? null;
+}
+
+/**
+ * Generate an invitation token (sent to the invitee, only its hash is stored)
+ */
+export function generateInviteToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Hash an invitation token for storage and lookup
+ */
+export function hashInviteToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Validate an invitation request body
+ *
+ * @param body - { email, role }
+ */
+export function validateInviteRequest(body: unknown): {
+  valid: boolean;
+  data?: { email: string; role: StudyRole };
+  error?: string;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Invalid request body' };
+  }
+
+  const { email, role } = body as Record<string, unknown>;
+
+  if (typeof email !== 'string' || email.length > 254 || !EMAIL_PATTERN.test(email.trim())) {
+    return { valid: false, error: 'Valid email is required' };
+  }
+
+  if (!isStudyRole(role)) {
+    return { valid: false, error: `Invalid role. Must be one of: ${STUDY_ROLES.join(', ')}` };
+  }
+
+  return { valid: true, data: { email: email.trim().toLowerCase(), role } };
+}
@@ -2,11 +2,15 @@
  * User Authentication
  *
  * Multi-user authentication system with email/password.
- * Supports both the legacy ADMIN_SECRET (for migration) and new user-based auth.
+ * Every admin request (middleware and API routes) is authenticated through
+ * an AdminSession token, sent as the sciblind-admin-token cookie or as
+ * `Authorization: Bearer <token>`. The shared ADMIN_SECRET is not accepted
+ * here — it can only open a break-glass session (see admin-auth.ts).
  *
  * Users can be:
  * - SUPER_ADMIN: Can see all studies, manage users
- * - USER: Can only see their own studies
+ * - USER: Can see studies they own or collaborate on, as far as their
+ *   study role allows (see study-roles.ts)
  *
  * Password reset flow:
  * 1. User requests reset via email
@@ -19,9 +23,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import { prisma } from '@/lib/db';
-import { User, UserRole } from '@prisma/client';
+import { StudyRole, User, UserRole } from '@prisma/client';
+import { BREAK_GLASS_EMAIL } from './admin-auth';
+import { resolveStudyRole, roleAllows, type StudyPermission } from './study-roles';
 
-const ADMIN_SECRET = process.env.ADMIN_SECRET;
 const SESSION_EXPIRY_DAYS = 7;
 const BCRYPT_ROUNDS = 12;
 
@@ -31,6 +36,8 @@ export interface AuthUser {
   email: string;
   name: string | null;
   role: UserRole;
+  /** Signed in with ADMIN_SECRET (emergency access) */
+  isBreakGlass: boolean;
 }
 
 /**
@@ -63,16 +70,27 @@ export function generateResetToken(): string {
 
 /**
  * Create a new admin session for a user
+ *
+ * @param userId - User the session belongs to
+ * @param request - Login request (for user agent and IP hash)
+ * @param options - Break-glass flag and lifetime (default 7 days)
  */
-export async function createAdminSession(userId: string, request?: NextRequest): Promise<string> {
+export async function createAdminSession(
+  userId: string,
+  request?: NextRequest,
+  options: { isBreakGlass?: boolean; expiresInMs?: number } = {}
+): Promise<string> {
   const token = generateToken();
-  const expiresAt = new Date(Date.now() + SESSION_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+  const expiresAt = new Date(
+    Date.now() + (options.expiresInMs ?? SESSION_EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+  );
 
   await prisma.adminSession.create({
     data: {
       userId,
       token,
       expiresAt,
+      isBreakGlass: options.isBreakGlass ?? false,
       userAgent: request?.headers.get('user-agent') || null,
       ipHash: request?.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
         ? crypto.createHash('sha256').update(request.headers.get('x-forwarded-for')!.split(',')[0].trim()).digest('hex').slice(0, 16)
@@ -99,11 +117,15 @@ export async function validateSessionToken(token: string): Promise<AuthUser | nu
     return null;
   }
 
+  // Deactivated accounts lose their open sessions immediately
+  if (!session.user.isActive) return null;
+
   return {
     id: session.user.id,
     email: session.user.email,
     name: session.user.name,
     role: session.user.role,
+    isBreakGlass: session.isBreakGlass,
   };
 }
 
@@ -126,46 +148,19 @@ export async function cleanupExpiredSessions(): Promise<number> {
 
 /**
  * Get authenticated user from request.
- * Checks both new session tokens and legacy ADMIN_SECRET.
+ * Accepts an AdminSession token from the cookie or Authorization header.
  * Returns null if not authenticated.
  */
 export async function getAuthenticatedUser(request: NextRequest): Promise<AuthUser | null> {
-  // Check for new session token in cookie
-  const sessionToken = request.cookies.get('sciblind-admin-token')?.value;
-
-  if (sessionToken) {
-    // First, check if it's the legacy ADMIN_SECRET
-    if (ADMIN_SECRET && sessionToken === ADMIN_SECRET) {
-      // Legacy auth - return a synthetic super admin user
-      return {
-        id: 'legacy-admin',
-        email: 'admin@sciblind.local',
-        name: 'Legacy Admin',
-        role: 'SUPER_ADMIN',
-      };
-    }
-
-    // Check if it's a valid session token
-    const user = await validateSessionToken(sessionToken);
+  const cookieToken = request.cookies.get('sciblind-admin-token')?.value;
+  if (cookieToken) {
+    const user = await validateSessionToken(cookieToken);
     if (user) return user;
   }
 
-  // Check Authorization header
   const authHeader = request.headers.get('authorization');
   if (authHeader) {
     const token = authHeader.replace(/^Bearer\s+/i, '');
-
-    // Legacy ADMIN_SECRET via header
-    if (ADMIN_SECRET && token === ADMIN_SECRET) {
-      return {
-        id: 'legacy-admin',
-        email: 'admin@sciblind.local',
-        name: 'Legacy Admin',
-        role: 'SUPER_ADMIN',
-      };
-    }
-
-    // New session token via header
     const user = await validateSessionToken(token);
     if (user) return user;
   }
@@ -215,26 +210,66 @@ export async function requireSuperAdmin(request: NextRequest): Promise<NextRespo
 }
 
 /**
- * Check if user has access to a study.
- * Super admins can access any study.
- * Regular users can only access studies they own.
+ * Get a user's effective role on a study.
+ * Returns null if the study does not exist or the user has no access.
  */
-export async function canAccessStudy(user: AuthUser, studyId: string): Promise<boolean> {
-  if (user.role === 'SUPER_ADMIN') return true;
+export async function getStudyRole(user: AuthUser, studyId: string): Promise<StudyRole | null> {
+  if (user.role === 'SUPER_ADMIN') return 'OWNER';
 
   const study = await prisma.study.findUnique({
     where: { id: studyId },
-    select: { ownerId: true, isLegacy: true },
+    select: {
+      ownerId: true,
+      isLegacy: true,
+      members: { where: { userId: user.id }, select: { role: true } },
+    },
   });
 
-  if (!study) return false;
+  if (!study) return null;
+
+  return resolveStudyRole(user, study);
+}
+
+/**
+ * Check if user has access to a study.
+ * Super admins can access any study; owners and members as far as their
+ * role allows the requested permission (default: view).
+ */
+export async function canAccessStudy(
+  user: AuthUser,
+  studyId: string,
+  permission: StudyPermission = 'view'
+): Promise<boolean> {
+  return roleAllows(await getStudyRole(user, studyId), permission);
+}
 
-  // Legacy studies are only visible to superadmins and their designated owner
-  if (study.isLegacy && study.ownerId !== user.id) {
-    return false;
+/**
+ * Require a permission on a study.
+ * Returns 404 if the user has no access at all (the study's existence is not
+ * revealed), 403 if their role is too low, or null if OK.
+ */
+export async function requireStudyPermission(
+  user: AuthUser,
+  studyId: string,
+  permission: StudyPermission
+): Promise<NextResponse | null> {
+  const role = await getStudyRole(user, studyId);
+
+  if (!role) {
+    return NextResponse.json(
+      { error: 'Study not found', errorKey: 'STUDY_NOT_FOUND' },
+      { status: 404 }
+    );
   }
 
-  return study.ownerId === user.id;
+  if (!roleAllows(role, permission)) {
+    return NextResponse.json(
+      { error: `Forbidden. Your role on this study (${role}) does not allow this.`, errorKey: 'INSUFFICIENT_STUDY_ROLE' },
+      { status: 403 }
+    );
+  }
+
+  return null;
 }
 
 /**
@@ -284,6 +319,9 @@ export async function createUser(
  * Returns the token (to be sent via email).
  */
 export async function generatePasswordReset(email: string): Promise<string | null> {
+  // The break-glass account must stay reachable only through ADMIN_SECRET
+  if (email.toLowerCase() === BREAK_GLASS_EMAIL) return null;
+
   const user = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
   if (!user) return null;
 
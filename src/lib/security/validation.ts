@@ -13,6 +13,7 @@ const SESSION_TOKEN_PATTERN = /^[a-f0-9]{64}$/;
 
 // Access code pattern (alphanumeric with hyphens, max 50 chars)
 const ACCESS_CODE_PATTERN = /^[a-zA-Z0-9\-]{1,50}$/;
+const IDEMPOTENCY_KEY_PATTERN = /^[a-zA-Z0-9_\-]{8,64}$/;
 
 /**
  * Validate a CUID (used for IDs)
@@ -35,6 +36,13 @@ export function isValidAccessCode(value: unknown): value is string {
   return typeof value === 'string' && ACCESS_CODE_PATTERN.test(value);
 }
 
+/**
+ * Validate a client-generated idempotency key (e.g. a UUID)
+ */
+export function isValidIdempotencyKey(value: unknown): value is string {
+  return typeof value === 'string' && IDEMPOTENCY_KEY_PATTERN.test(value);
+}
+
 /**
  * Validate response time (must be positive number, max 10 minutes)
  */
@@ -69,11 +77,15 @@ export interface VoteRequestBody {
   sessionToken: string;
   itemAId: string;
   itemBId: string;
-  winnerId: string;
+  /** null = no preference (only on studies whose response scale allows it) */
+  winnerId: string | null;
+  /** Graded responses: 1 = slightly, 2 = much better */
+  preferenceStrength: number | null;
   leftItemId: string;
   rightItemId: string;
   categoryId?: string;
   responseTimeMs?: number;
+  idempotencyKey?: string;
 }
 
 export function validateVoteRequest(body: unknown): {
@@ -99,9 +111,17 @@ export function validateVoteRequest(body: unknown): {
   if (!isValidCuid(b.itemBId)) {
     return { valid: false, error: 'Invalid itemBId format' };
   }
-  if (!isValidCuid(b.winnerId)) {
+  if (b.winnerId !== null && !isValidCuid(b.winnerId)) {
     return { valid: false, error: 'Invalid winnerId format' };
   }
+  if (
+    b.preferenceStrength !== undefined &&
+    b.preferenceStrength !== null &&
+    b.preferenceStrength !== 1 &&
+    b.preferenceStrength !== 2
+  ) {
+    return { valid: false, error: 'Invalid preferenceStrength. Must be 1 or 2' };
+  }
   if (!isValidCuid(b.leftItemId)) {
     return { valid: false, error: 'Invalid leftItemId format' };
   }
@@ -119,8 +139,13 @@ export function validateVoteRequest(body: unknown): {
     return { valid: false, error: 'Invalid responseTimeMs' };
   }
 
-  // Validate winner is one of the items
-  if (b.winnerId !== b.itemAId && b.winnerId !== b.itemBId) {
+  // Validate idempotency key if provided
+  if (b.idempotencyKey !== undefined && !isValidIdempotencyKey(b.idempotencyKey)) {
+    return { valid: false, error: 'Invalid idempotencyKey format' };
+  }
+
+  // Validate winner is one of the items (or null for no preference)
+  if (b.winnerId !== null && b.winnerId !== b.itemAId && b.winnerId !== b.itemBId) {
     return { valid: false, error: 'Winner must be one of the compared items' };
   }
 
@@ -136,11 +161,13 @@ export function validateVoteRequest(body: unknown): {
       sessionToken: b.sessionToken as string,
       itemAId: b.itemAId as string,
       itemBId: b.itemBId as string,
-      winnerId: b.winnerId as string,
+      winnerId: b.winnerId as string | null,
+      preferenceStrength: (b.preferenceStrength as number | null | undefined) ?? null,
       leftItemId: b.leftItemId as string,
       rightItemId: b.rightItemId as string,
       categoryId: b.categoryId as string | undefined,
       responseTimeMs: b.responseTimeMs as number | undefined,
+      idempotencyKey: b.idempotencyKey as string | undefined,
     },
   };
 }
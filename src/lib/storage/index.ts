@@ -0,0 +1,90 @@
+/**
+ * Storage Abstraction
+ *
+ * Selects the storage backend from environment configuration:
+ *
+ *   STORAGE_TYPE=local     LOCAL_STORAGE_DIR (default: public/uploads)
+ *   STORAGE_TYPE=s3        S3_ENDPOINT, S3_BUCKET, S3_REGION, S3_ACCESS_KEY,
+ *                          S3_SECRET_KEY, S3_PUBLIC_URL?
+ *   STORAGE_TYPE=supabase  SUPABASE_URL, SUPABASE_STORAGE_BUCKET,
+ *                          SUPABASE_SERVICE_ROLE_KEY?, SUPABASE_STORAGE_KEY_PREFIX?
+ *
+ * Every place that turns an Item.imageKey into a URL or bytes must go
+ * through getStorage() so that new studies never need code changes.
+ */
+
+import path from 'path';
+import { LocalStorageProvider } from './local';
+import { S3StorageProvider } from './s3';
+import { SupabaseStorageProvider } from './supabase';
+import type { StorageProvider, StorageType } from './types';
+
+export type { StorageProvider, StorageType } from './types';
+
+let storage: StorageProvider | null = null;
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set when STORAGE_TYPE=${process.env.STORAGE_TYPE}`);
+  }
+  return value;
+}
+
+/**
+ * Create a storage provider from environment variables
+ */
+export function createStorageFromEnv(): StorageProvider {
+  const type = (process.env.STORAGE_TYPE || 'local') as StorageType;
+
+  switch (type) {
+    case 'local':
+      return new LocalStorageProvider(
+        process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), 'public', 'uploads')
+      );
+    case 's3':
+      return new S3StorageProvider({
+        endpoint: requireEnv('S3_ENDPOINT'),
+        bucket: requireEnv('S3_BUCKET'),
+        region: process.env.S3_REGION || 'us-east-1',
+        accessKeyId: requireEnv('S3_ACCESS_KEY'),
+        secretAccessKey: requireEnv('S3_SECRET_KEY'),
+        publicUrl: process.env.S3_PUBLIC_URL || undefined,
+      });
+    case 'supabase':
+      return new SupabaseStorageProvider(
+        requireEnv('SUPABASE_URL').replace(/\/$/, ''),
+        requireEnv('SUPABASE_STORAGE_BUCKET'),
+        process.env.SUPABASE_SERVICE_ROLE_KEY,
+        process.env.SUPABASE_STORAGE_KEY_PREFIX || ''
+      );
+    default:
+      throw new Error(`Unknown STORAGE_TYPE: ${type}. Must be one of: local, s3, supabase`);
+  }
+}
+
+/**
+ * Get the configured storage provider (created once per process)
+ */
+export function getStorage(): StorageProvider {
+  if (!storage) {
+    storage = createStorageFromEnv();
+  }
+  return storage;
+}
+
+/**
+ * Resolve the URL participants load an item's image from.
+ * Falls back to a stored imageUrl for items without a key.
+ */
+export function resolveImageUrl(item: { imageKey: string | null; imageUrl?: string | null }): string | null {
+  if (item.imageKey) {
+    try {
+      return getStorage().getPublicUrl(item.imageKey);
+    } catch (error) {
+      console.error('Image URL resolution error:', error);
+      return null;
+    }
+  }
+  return item.imageUrl ?? null;
+}
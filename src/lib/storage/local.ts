@@ -0,0 +1,58 @@
+/**
+ * Local Filesystem Storage
+ *
+ * Stores objects under public/uploads (or LOCAL_STORAGE_DIR) and serves
+ * them as static files from /uploads. Works fully offline for development.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { assertSafeKey, type StorageProvider } from './types';
+
+// Keys were migrated to .webp (scripts/migrate-to-webp.ts) but local
+// copies of older studies may still be the original PNG/JPG files
+const LEGACY_EXTENSIONS = ['.png', '.jpg'];
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly type = 'local' as const;
+
+  constructor(
+    private readonly rootDir: string,
+    private readonly publicPath: string = '/uploads',
+  ) {}
+
+  getPublicUrl(key: string): string {
+    assertSafeKey(key);
+    return `${this.publicPath}/${key}`;
+  }
+
+  async getObject(key: string): Promise<Buffer | null> {
+    assertSafeKey(key);
+    const filePath = path.join(this.rootDir, key);
+    const candidates = [
+      filePath,
+      ...(filePath.endsWith('.webp') ? LEGACY_EXTENSIONS.map((ext) => filePath.replace(/\.webp$/, ext)) : []),
+    ];
+
+    for (const candidate of candidates) {
+      try {
+        return await fs.readFile(candidate);
+      } catch {
+        // Try next candidate
+      }
+    }
+    return null;
+  }
+
+  async putObject(key: string, data: Buffer): Promise<void> {
+    assertSafeKey(key);
+    const filePath = path.join(this.rootDir, key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    assertSafeKey(key);
+    await fs.rm(path.join(this.rootDir, key), { force: true });
+  }
+}
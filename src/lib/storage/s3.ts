@@ -0,0 +1,118 @@
+/**
+ * S3-Compatible Storage
+ *
+ * Works with AWS S3, Cloudflare R2 and MinIO using path-style URLs
+ * (`<endpoint>/<bucket>/<key>`). Requests are signed with AWS Signature
+ * Version 4 so no SDK dependency is needed for the few operations we use.
+ */
+
+import crypto from 'crypto';
+import { assertSafeKey, type StorageProvider } from './types';
+
+export interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Public base URL (CDN or public bucket); defaults to the endpoint */
+  publicUrl?: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Build SigV4 headers for a request without query parameters.
+ */
+export function signS3Request(
+  method: string,
+  url: URL,
+  payload: Buffer | undefined,
+  config: Pick<S3Config, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  now: Date = new Date(),
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(payload ?? '');
+
+  const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'),
+    'aws4_request'
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export class S3StorageProvider implements StorageProvider {
+  readonly type = 's3' as const;
+
+  constructor(private readonly config: S3Config) {}
+
+  private objectUrl(key: string): URL {
+    assertSafeKey(key);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return new URL(`${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}/${encodedKey}`);
+  }
+
+  getPublicUrl(key: string): string {
+    if (this.config.publicUrl) {
+      assertSafeKey(key);
+      return `${this.config.publicUrl.replace(/\/$/, '')}/${key}`;
+    }
+    return this.objectUrl(key).toString();
+  }
+
+  async getObject(key: string): Promise<Buffer | null> {
+    const url = this.objectUrl(key);
+    const res = await fetch(url, { headers: signS3Request('GET', url, undefined, this.config) });
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`S3 read failed (${res.status}) for ${key}`);
+    }
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async putObject(key: string, data: Buffer, contentType: string): Promise<void> {
+    const url = this.objectUrl(key);
+    const res = await fetch(url, {
+      method: 'PUT',
+      headers: { ...signS3Request('PUT', url, data, this.config), 'Content-Type': contentType },
+      body: new Uint8Array(data),
+    });
+    if (!res.ok) {
+      throw new Error(`S3 upload failed (${res.status}) for ${key}`);
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const url = this.objectUrl(key);
+    const res = await fetch(url, { method: 'DELETE', headers: signS3Request('DELETE', url, undefined, this.config) });
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`S3 delete failed (${res.status}) for ${key}`);
+    }
+  }
+}
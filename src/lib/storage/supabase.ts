@@ -0,0 +1,71 @@
+/**
+ * Supabase Storage
+ *
+ * Objects live in a public bucket. Reads go through the public object URL,
+ * writes and deletes use the service role key (both only happen from admin
+ * routes).
+ *
+ * `keyPrefix` is stripped from keys before they are mapped to bucket paths,
+ * e.g. the IzVRS bucket stores "izvrs/3-razredi/12.webp" as "3-razredi/12.webp".
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { assertSafeKey, type StorageProvider } from './types';
+
+export class SupabaseStorageProvider implements StorageProvider {
+  readonly type = 'supabase' as const;
+  private client: SupabaseClient | null = null;
+
+  constructor(
+    private readonly url: string,
+    private readonly bucket: string,
+    private readonly serviceKey: string | undefined,
+    private readonly keyPrefix: string = '',
+  ) {}
+
+  private toObjectPath(key: string): string {
+    assertSafeKey(key);
+    return this.keyPrefix && key.startsWith(this.keyPrefix) ? key.slice(this.keyPrefix.length) : key;
+  }
+
+  getPublicUrl(key: string): string {
+    const objectPath = this.toObjectPath(key).split('/').map(encodeURIComponent).join('/');
+    return `${this.url}/storage/v1/object/public/${this.bucket}/${objectPath}`;
+  }
+
+  async getObject(key: string): Promise<Buffer | null> {
+    const res = await fetch(this.getPublicUrl(key));
+    if (res.status === 404 || res.status === 400) return null;
+    if (!res.ok) {
+      throw new Error(`Supabase storage read failed (${res.status}) for ${key}`);
+    }
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  private adminClient(): SupabaseClient {
+    if (!this.serviceKey) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY is required to write to storage');
+    }
+    if (!this.client) {
+      this.client = createClient(this.url, this.serviceKey, { auth: { persistSession: false } });
+    }
+    return this.client;
+  }
+
+  async putObject(key: string, data: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.adminClient().storage
+      .from(this.bucket)
+      .upload(this.toObjectPath(key), data, { contentType, upsert: true });
+
+    if (error) {
+      throw new Error(`Supabase storage upload failed for ${key}: ${error.message}`);
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const { error } = await this.adminClient().storage.from(this.bucket).remove([this.toObjectPath(key)]);
+    if (error) {
+      throw new Error(`Supabase storage delete failed for ${key}: ${error.message}`);
+    }
+  }
+}
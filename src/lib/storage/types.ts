@@ -0,0 +1,34 @@
+/**
+ * Storage Provider Types
+ *
+ * An Item's `imageKey` is a backend-independent object key
+ * (e.g. "studies/<studyId>/<random>.webp" or legacy "izvrs/3-razredi/12.webp").
+ * Providers turn keys into public URLs and bytes.
+ */
+
+export type StorageType = 'local' | 's3' | 'supabase';
+
+export interface StorageProvider {
+  readonly type: StorageType;
+
+  /** Public URL a browser can load the object from */
+  getPublicUrl(key: string): string;
+
+  /** Read an object's bytes, or null if it does not exist */
+  getObject(key: string): Promise<Buffer | null>;
+
+  /** Write an object (overwrites existing objects with the same key) */
+  putObject(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /** Delete an object (a missing object is not an error) */
+  deleteObject(key: string): Promise<void>;
+}
+
+/**
+ * Reject keys that could escape the storage root or bucket
+ */
+export function assertSafeKey(key: string): void {
+  if (!key || key.startsWith('/') || key.split('/').some((part) => part === '..' || part === '')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
@@ -0,0 +1,514 @@
+/**
+ * Study Settings Validation
+ *
+ * Shared validation for admin study create/update requests.
+ * Every writable Study field is checked here so that the API routes
+ * never pass unchecked client input to Prisma.
+ *
+ * Usage:
+ *   const validation = validateStudySettings(body);                      // create
+ *   const validation = validateStudySettings(body, { partial: true });   // update
+ *   if (!validation.valid) return 400 with validation.error
+ */
+
+import type { InputType, RankingMethod } from '@prisma/client';
+import { sanitizeString } from '@/lib/security/validation';
+import { parseRateLimitOverrides, type RateLimitOverrides } from '@/lib/security/rate-limit/overrides';
+import { parseMatchmakingConfig, type MatchmakingConfig } from '@/lib/matchmaking/strategies';
+import { RESPONSE_SCALES, isResponseScale } from '@/lib/voting/responses';
+import { MAX_CHOICE_SET_SIZE, MIN_CHOICE_SET_SIZE } from '@/lib/voting/choices';
+
+export const VALID_INPUT_TYPES: InputType[] = ['IMAGE', 'TEXT'];
+export const VALID_RANKING_METHODS: RankingMethod[] = ['ELO', 'BRADLEY_TERRY', 'GLICKO2'];
+export const VALID_COMPARISON_MODES = ['pair', 'quad', 'ranking', 'best-worst'];
+export const VALID_LANGUAGES = ['en', 'sl'];
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_PROMPT_LENGTH = 500;
+const MAX_TEXT_LENGTH = 10000;
+const MAX_CATEGORIES = 50;
+
+/**
+ * Fields that cannot change once real votes exist — changing them would
+ * make the collected comparisons incompatible with the study definition.
+ */
+export const LOCKED_AFTER_VOTES: (keyof StudySettings)[] = [
+  'inputType',
+  'rankingMethod',
+  'hasCategorySeparation',
+  'comparisonMode',
+  'choiceSetSize',
+];
+
+export interface CategoryInput {
+  name: string;
+  slug: string;
+  description: string | null;
+  displayOrder: number;
+}
+
+export interface StudySettings {
+  title?: string;
+  description?: string;
+  participantPrompt?: string;
+  inputType?: InputType;
+  rankingMethod?: RankingMethod;
+  comparisonMode?: string;
+  choiceSetSize?: number;
+  responseScale?: string;
+  comparisonsPerParticipant?: number;
+  targetTopN?: number | null;
+  eloKFactor?: number;
+  eloInitialRating?: number;
+  glickoTau?: number;
+  minExposuresPerItem?: number;
+  minTotalComparisons?: number | null;
+  maxRatingDeviation?: number;
+  adaptiveKFactor?: boolean;
+  allowContinuedVoting?: boolean;
+  minResponseTimeMs?: number;
+  maxResponseTimeMs?: number;
+  excludeFlaggedFromElo?: boolean;
+  goldCheckInterval?: number | null;
+  repeatCheckInterval?: number | null;
+  minQualityScore?: number | null;
+  minQualityChecks?: number;
+  convergenceInterval?: number | null;
+  convergenceMinCorrelation?: number;
+  convergenceWindow?: number;
+  autoDeactivateOnConvergence?: boolean;
+  hasCategorySeparation?: boolean;
+  requireAccessCode?: boolean;
+  showRankingsToParticipants?: boolean;
+  isActive?: boolean;
+  language?: string;
+  methodologyText?: string | null;
+  logoUrls?: string[];
+  rateLimits?: RateLimitOverrides | null;
+  matchmakingConfig?: MatchmakingConfig | null;
+}
+
+export interface StudySettingsValidation {
+  valid: boolean;
+  data?: StudySettings;
+  categories?: CategoryInput[];
+  error?: string;
+}
+
+/**
+ * Convert a category name into a URL-safe slug ("3. razredi" → "3-razredi")
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+/**
+ * Parse an integer field within [min, max]. Returns undefined if invalid.
+ */
+function parseIntInRange(value: unknown, min: number, max: number): number | undefined {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value), 10);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) return undefined;
+  return parsed;
+}
+
+/**
+ * Parse a float field within [min, max]. Returns undefined if invalid.
+ */
+function parseFloatInRange(value: unknown, min: number, max: number): number | undefined {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) return undefined;
+  return parsed;
+}
+
+/**
+ * Validate study settings from an admin request body.
+ *
+ * With `partial: false` (create), title, description, participantPrompt,
+ * inputType and rankingMethod are required and defaults from the schema
+ * apply to everything else. With `partial: true` (update), only the fields
+ * present in the body are validated and returned.
+ *
+ * @param body - Parsed JSON request body
+ * @param options.partial - Validate only provided fields (for PATCH)
+ * @returns Validation result with sanitized settings and categories
+ */
+export function validateStudySettings(
+  body: unknown,
+  options: { partial?: boolean } = {},
+): StudySettingsValidation {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Invalid request body' };
+  }
+
+  const b = body as Record<string, unknown>;
+  const partial = options.partial ?? false;
+  const data: StudySettings = {};
+  const has = (key: string) => b[key] !== undefined;
+
+  // ===== Text fields =====
+  const requiredText: [keyof StudySettings, number][] = [
+    ['title', MAX_TITLE_LENGTH],
+    ['description', MAX_TEXT_LENGTH],
+    ['participantPrompt', MAX_PROMPT_LENGTH],
+  ];
+  for (const [field, maxLength] of requiredText) {
+    if (!has(field)) {
+      if (!partial) return { valid: false, error: `${field} is required` };
+      continue;
+    }
+    const value = sanitizeString(b[field], maxLength);
+    if (!value) {
+      return { valid: false, error: `${field} must be a non-empty string` };
+    }
+    (data as Record<string, unknown>)[field] = value;
+  }
+
+  if (has('methodologyText')) {
+    data.methodologyText = b.methodologyText === null ? null : sanitizeString(b.methodologyText, MAX_TEXT_LENGTH);
+  }
+
+  // ===== Enum fields =====
+  if (has('inputType')) {
+    if (!VALID_INPUT_TYPES.includes(b.inputType as InputType)) {
+      return { valid: false, error: `Invalid inputType. Must be one of: ${VALID_INPUT_TYPES.join(', ')}` };
+    }
+    data.inputType = b.inputType as InputType;
+  } else if (!partial) {
+    return { valid: false, error: 'inputType is required' };
+  }
+
+  if (has('rankingMethod')) {
+    if (!VALID_RANKING_METHODS.includes(b.rankingMethod as RankingMethod)) {
+      return { valid: false, error: `Invalid rankingMethod. Must be one of: ${VALID_RANKING_METHODS.join(', ')}` };
+    }
+    data.rankingMethod = b.rankingMethod as RankingMethod;
+  } else if (!partial) {
+    return { valid: false, error: 'rankingMethod is required' };
+  }
+
+  if (has('comparisonMode')) {
+    if (!VALID_COMPARISON_MODES.includes(b.comparisonMode as string)) {
+      return { valid: false, error: `Invalid comparisonMode. Must be one of: ${VALID_COMPARISON_MODES.join(', ')}` };
+    }
+    data.comparisonMode = b.comparisonMode as string;
+  }
+
+  // Pair mode only; stored votes carry their own response, so it may change later
+  if (has('responseScale')) {
+    if (!isResponseScale(b.responseScale)) {
+      return { valid: false, error: `Invalid responseScale. Must be one of: ${RESPONSE_SCALES.join(', ')}` };
+    }
+    data.responseScale = b.responseScale;
+  }
+
+  if (has('language')) {
+    if (!VALID_LANGUAGES.includes(b.language as string)) {
+      return { valid: false, error: `Invalid language. Must be one of: ${VALID_LANGUAGES.join(', ')}` };
+    }
+    data.language = b.language as string;
+  }
+
+  // ===== Numeric settings =====
+  if (has('comparisonsPerParticipant')) {
+    const value = parseIntInRange(b.comparisonsPerParticipant, 1, 500);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid comparisonsPerParticipant. Must be between 1 and 500' };
+    }
+    data.comparisonsPerParticipant = value;
+  }
+
+  if (has('choiceSetSize')) {
+    const value = parseIntInRange(b.choiceSetSize, MIN_CHOICE_SET_SIZE, MAX_CHOICE_SET_SIZE);
+    if (value === undefined) {
+      return {
+        valid: false,
+        error: `Invalid choiceSetSize. Must be between ${MIN_CHOICE_SET_SIZE} and ${MAX_CHOICE_SET_SIZE}`,
+      };
+    }
+    data.choiceSetSize = value;
+  }
+
+  if (has('targetTopN')) {
+    if (b.targetTopN === null || b.targetTopN === '') {
+      data.targetTopN = null;
+    } else {
+      const value = parseIntInRange(b.targetTopN, 1, 1000);
+      if (value === undefined) {
+        return { valid: false, error: 'Invalid targetTopN. Must be between 1 and 1000' };
+      }
+      data.targetTopN = value;
+    }
+  }
+
+  if (has('eloKFactor')) {
+    const value = parseFloatInRange(b.eloKFactor, 1, 128);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid eloKFactor. Must be between 1 and 128' };
+    }
+    data.eloKFactor = value;
+  }
+
+  if (has('eloInitialRating')) {
+    const value = parseFloatInRange(b.eloInitialRating, 0, 5000);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid eloInitialRating. Must be between 0 and 5000' };
+    }
+    data.eloInitialRating = value;
+  }
+
+  if (has('glickoTau')) {
+    const value = parseFloatInRange(b.glickoTau, 0.2, 1.2);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid glickoTau. Must be between 0.2 and 1.2' };
+    }
+    data.glickoTau = value;
+  }
+
+  // ===== Scientific thresholds =====
+  if (has('minExposuresPerItem')) {
+    const value = parseIntInRange(b.minExposuresPerItem, 1, 1000);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid minExposuresPerItem. Must be between 1 and 1000' };
+    }
+    data.minExposuresPerItem = value;
+  }
+
+  if (has('minTotalComparisons')) {
+    if (b.minTotalComparisons === null || b.minTotalComparisons === '') {
+      data.minTotalComparisons = null;
+    } else {
+      const value = parseIntInRange(b.minTotalComparisons, 1, 1000000);
+      if (value === undefined) {
+        return { valid: false, error: 'Invalid minTotalComparisons. Must be between 1 and 1000000' };
+      }
+      data.minTotalComparisons = value;
+    }
+  }
+
+  if (has('maxRatingDeviation')) {
+    const value = parseFloatInRange(b.maxRatingDeviation, 10, 350);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid maxRatingDeviation. Must be between 10 and 350' };
+    }
+    data.maxRatingDeviation = value;
+  }
+
+  // ===== Fraud detection settings (same bounds as ui-config) =====
+  if (has('minResponseTimeMs')) {
+    const value = parseIntInRange(b.minResponseTimeMs, 0, 60000);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid minResponseTimeMs. Must be between 0 and 60000 (1 minute)' };
+    }
+    data.minResponseTimeMs = value;
+  }
+
+  if (has('maxResponseTimeMs')) {
+    const value = parseIntInRange(b.maxResponseTimeMs, 10000, 3600000);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid maxResponseTimeMs. Must be between 10000 (10 seconds) and 3600000 (1 hour)' };
+    }
+    data.maxResponseTimeMs = value;
+  }
+
+  if (
+    data.minResponseTimeMs !== undefined &&
+    data.maxResponseTimeMs !== undefined &&
+    data.minResponseTimeMs >= data.maxResponseTimeMs
+  ) {
+    return { valid: false, error: 'minResponseTimeMs must be lower than maxResponseTimeMs' };
+  }
+
+  // ===== Attention checks (null turns a check off) =====
+  for (const field of ['goldCheckInterval', 'repeatCheckInterval'] as const) {
+    if (has(field)) {
+      if (b[field] === null || b[field] === '') {
+        data[field] = null;
+      } else {
+        const value = parseIntInRange(b[field], 2, 1000);
+        if (value === undefined) {
+          return { valid: false, error: `Invalid ${field}. Must be between 2 and 1000, or null` };
+        }
+        data[field] = value;
+      }
+    }
+  }
+
+  if (has('minQualityScore')) {
+    if (b.minQualityScore === null || b.minQualityScore === '') {
+      data.minQualityScore = null;
+    } else {
+      const value = parseFloatInRange(b.minQualityScore, 0, 1);
+      if (value === undefined) {
+        return { valid: false, error: 'Invalid minQualityScore. Must be between 0 and 1, or null' };
+      }
+      data.minQualityScore = value;
+    }
+  }
+
+  if (has('minQualityChecks')) {
+    const value = parseIntInRange(b.minQualityChecks, 1, 100);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid minQualityChecks. Must be between 1 and 100' };
+    }
+    data.minQualityChecks = value;
+  }
+
+  // ===== Convergence monitoring (null turns snapshots off) =====
+  if (has('convergenceInterval')) {
+    if (b.convergenceInterval === null || b.convergenceInterval === '') {
+      data.convergenceInterval = null;
+    } else {
+      const value = parseIntInRange(b.convergenceInterval, 5, 100000);
+      if (value === undefined) {
+        return { valid: false, error: 'Invalid convergenceInterval. Must be between 5 and 100000, or null' };
+      }
+      data.convergenceInterval = value;
+    }
+  }
+
+  if (has('convergenceMinCorrelation')) {
+    const value = parseFloatInRange(b.convergenceMinCorrelation, 0.5, 1);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid convergenceMinCorrelation. Must be between 0.5 and 1' };
+    }
+    data.convergenceMinCorrelation = value;
+  }
+
+  if (has('convergenceWindow')) {
+    const value = parseIntInRange(b.convergenceWindow, 1, 20);
+    if (value === undefined) {
+      return { valid: false, error: 'Invalid convergenceWindow. Must be between 1 and 20' };
+    }
+    data.convergenceWindow = value;
+  }
+
+  // ===== Boolean flags =====
+  const booleanFields: (keyof StudySettings)[] = [
+    'adaptiveKFactor',
+    'allowContinuedVoting',
+    'autoDeactivateOnConvergence',
+    'excludeFlaggedFromElo',
+    'hasCategorySeparation',
+    'requireAccessCode',
+    'showRankingsToParticipants',
+    'isActive',
+  ];
+  for (const field of booleanFields) {
+    if (has(field)) {
+      if (typeof b[field] !== 'boolean') {
+        return { valid: false, error: `${field} must be a boolean` };
+      }
+      (data as Record<string, unknown>)[field] = b[field];
+    }
+  }
+
+  // ===== Branding =====
+  if (has('logoUrls')) {
+    if (!Array.isArray(b.logoUrls) || b.logoUrls.length > 5) {
+      return { valid: false, error: 'logoUrls must be an array of at most 5 strings' };
+    }
+    const logoUrls = b.logoUrls.map((url) => sanitizeString(url, 500));
+    if (logoUrls.some((url) => !url)) {
+      return { valid: false, error: 'logoUrls must contain non-empty strings' };
+    }
+    data.logoUrls = logoUrls as string[];
+  }
+
+  // ===== Rate limit overrides =====
+  if (has('rateLimits')) {
+    if (b.rateLimits === null) {
+      data.rateLimits = null;
+    } else {
+      const parsed = parseRateLimitOverrides(b.rateLimits);
+      if (!parsed.valid) {
+        return { valid: false, error: parsed.error };
+      }
+      data.rateLimits = parsed.data;
+    }
+  }
+
+  // ===== Matchmaking strategy =====
+  if (has('matchmakingConfig')) {
+    if (b.matchmakingConfig === null) {
+      data.matchmakingConfig = null;
+    } else {
+      const parsed = parseMatchmakingConfig(b.matchmakingConfig);
+      if (!parsed.valid) {
+        return { valid: false, error: parsed.error };
+      }
+      data.matchmakingConfig = parsed.data;
+    }
+  }
+
+  // ===== Categories (create only) =====
+  let categories: CategoryInput[] | undefined;
+  if (has('categories')) {
+    if (partial) {
+      return { valid: false, error: 'Categories cannot be changed through this endpoint' };
+    }
+    if (!Array.isArray(b.categories) || b.categories.length > MAX_CATEGORIES) {
+      return { valid: false, error: `categories must be an array of at most ${MAX_CATEGORIES} entries` };
+    }
+
+    categories = [];
+    const slugs = new Set<string>();
+    for (let i = 0; i < b.categories.length; i++) {
+      const raw = b.categories[i] as Record<string, unknown> | null;
+      const name = sanitizeString(raw?.name, 100);
+      if (!name) {
+        return { valid: false, error: `Category ${i + 1} is missing a name` };
+      }
+      const slug = slugify(name) || `category-${i + 1}`;
+      if (slugs.has(slug)) {
+        return { valid: false, error: `Duplicate category name: ${name}` };
+      }
+      slugs.add(slug);
+      categories.push({
+        name,
+        slug,
+        description: sanitizeString(raw?.description, 1000),
+        displayOrder: i,
+      });
+    }
+
+    if (data.hasCategorySeparation && categories.length === 0) {
+      return { valid: false, error: 'hasCategorySeparation requires at least one category' };
+    }
+  } else if (!partial && data.hasCategorySeparation) {
+    return { valid: false, error: 'hasCategorySeparation requires at least one category' };
+  }
+
+  if (Object.keys(data).length === 0 && !categories) {
+    return { valid: false, error: 'No valid fields to update' };
+  }
+
+  return { valid: true, data, categories };
+}
+
+/**
+ * Compute a before/after diff of the settings an update actually changes.
+ * Unchanged fields are omitted; arrays are compared by value.
+ *
+ * @param before - Current study values
+ * @param update - Validated update data
+ * @returns Map of field → { before, after } for changed fields only
+ */
+export function diffStudySettings(
+  before: Record<string, unknown>,
+  update: Record<string, unknown>,
+): Record<string, { before: unknown; after: unknown }> {
+  const diff: Record<string, { before: unknown; after: unknown }> = {};
+  for (const [field, after] of Object.entries(update)) {
+    const previous = before[field];
+    if (JSON.stringify(previous) !== JSON.stringify(after)) {
+      diff[field] = { before: previous ?? null, after: after ?? null };
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,58 @@
+/**
+ * Image Normalization for Uploads
+ *
+ * Every uploaded image is re-encoded before it is stored so that nothing
+ * about the original file can leak to participants:
+ * - EXIF/XMP/ICC metadata is dropped (sharp strips metadata by default)
+ * - EXIF orientation is applied to the pixels first so images stay upright
+ * - Everything is converted to WebP at a fixed quality and bounded size
+ * - Files are stored under random keys, never under the original filename
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+
+export const ALLOWED_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.tif', '.tiff', '.avif'];
+
+const MAX_DIMENSION = 2048;
+const WEBP_QUALITY = 85;
+
+export interface NormalizedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Check whether a filename has a supported image extension
+ */
+export function isImageFilename(filename: string): boolean {
+  const ext = path.extname(filename).toLowerCase();
+  return ALLOWED_IMAGE_EXTENSIONS.includes(ext);
+}
+
+/**
+ * Re-encode an image to metadata-free WebP.
+ *
+ * @param input - Raw uploaded image bytes
+ * @returns WebP bytes and final dimensions
+ * @throws Error if the input is not a decodable image
+ */
+export async function normalizeImage(input: Buffer): Promise<NormalizedImage> {
+  const { data, info } = await sharp(input, { failOn: 'error' })
+    .rotate()
+    .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: WEBP_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Generate a random storage key for a study image.
+ * The key carries no information about the original file or item.
+ */
+export function generateImageKey(studyId: string): string {
+  return `studies/${studyId}/${crypto.randomBytes(16).toString('hex')}.webp`;
+}
@@ -0,0 +1,144 @@
+/**
+ * Upload Manifest Parsing
+ *
+ * Bulk uploads can include a CSV manifest mapping each file to the
+ * admin-only metadata that must NOT be derivable from the stored image
+ * (original filename, external ID, label, category).
+ *
+ * Image manifest columns (header row required, case-insensitive):
+ *   filename, externalId?, label?, category?
+ *
+ * Text item CSV columns:
+ *   text, externalId?, label?, category?
+ *
+ * `category` may be a category slug, name or ID.
+ */
+
+export interface ManifestRow {
+  filename?: string;
+  text?: string;
+  externalId: string | null;
+  label: string | null;
+  category: string | null;
+}
+
+export interface CategoryRef {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+/**
+ * Parse CSV text into rows of fields.
+ * Handles quoted fields, escaped quotes ("") and CRLF line endings.
+ * Empty lines are dropped.
+ */
+export function parseCsv(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = input.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((value) => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((value) => value.trim() !== '')) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Parse a manifest or text-item CSV into typed rows.
+ *
+ * @param input - CSV text with a header row
+ * @param keyColumn - Required column ('filename' for images, 'text' for text items)
+ * @returns Parsed rows, or an error message
+ */
+export function parseManifest(
+  input: string,
+  keyColumn: 'filename' | 'text',
+): { rows: ManifestRow[]; error?: string } {
+  const [header, ...records] = parseCsv(input);
+  if (!header) {
+    return { rows: [], error: 'CSV is empty' };
+  }
+
+  const columns = header.map((h) => h.trim().toLowerCase().replace(/[\s_-]/g, ''));
+  const indexOf = (name: string) => columns.indexOf(name.toLowerCase());
+  const keyIndex = indexOf(keyColumn);
+  if (keyIndex < 0) {
+    return { rows: [], error: `CSV must have a "${keyColumn}" column` };
+  }
+
+  const externalIdIndex = indexOf('externalId');
+  const labelIndex = indexOf('label');
+  const categoryIndex = indexOf('category');
+  const cell = (record: string[], index: number) =>
+    index >= 0 && record[index]?.trim() ? record[index].trim() : null;
+
+  const rows: ManifestRow[] = [];
+  for (const record of records) {
+    const key = cell(record, keyIndex);
+    if (!key) continue;
+    rows.push({
+      ...(keyColumn === 'filename' ? { filename: key } : { text: key }),
+      externalId: cell(record, externalIdIndex),
+      label: cell(record, labelIndex),
+      category: cell(record, categoryIndex),
+    });
+  }
+
+  return { rows };
+}
+
+/**
+ * Resolve a manifest category reference against a study's categories.
+ * Matches by ID, slug or (case-insensitive) name.
+ */
+export function resolveCategory(ref: string | null, categories: CategoryRef[]): CategoryRef | null {
+  if (!ref) return null;
+  const lower = ref.toLowerCase();
+  return (
+    categories.find((c) => c.id === ref || c.slug === lower || c.name.toLowerCase() === lower) ?? null
+  );
+}
+
+/**
+ * Strip directories and extension from an uploaded filename ("a/b/12.png" → "12")
+ */
+export function baseNameWithoutExtension(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() || filename;
+  return base.replace(/\.[^.]+$/, '');
+}
@@ -0,0 +1,182 @@
+/**
+ * Minimal ZIP Reader
+ *
+ * Extracts file entries from a ZIP archive held in memory, using the
+ * central directory so sizes are known even when the archive was written
+ * with data descriptors. Supports the two methods produced by common
+ * tools (stored and deflate); anything else is reported as unsupported.
+ *
+ * Only used for admin bulk uploads. Archives are bounded by the request
+ * size limit of the upload route; what they inflate to is bounded by a
+ * ZipBudget shared by every archive of the request, checked before each
+ * entry is inflated and enforced while inflating.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Files and uncompressed bytes one upload may still extract, shared by all
+ * of its archives (and the plain files uploaded next to them)
+ */
+export interface ZipBudget {
+  entriesLeft: number;
+  bytesLeft: number;
+  /** Which limit ran out, once one has */
+  exhausted: 'entries' | 'bytes' | null;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Check whether a buffer starts with the ZIP local file header signature
+ */
+export function isZipBuffer(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_SIGNATURE;
+}
+
+/**
+ * Create a budget for one upload
+ *
+ * @param maxEntries - Most files the upload may contain
+ * @param maxBytes - Most uncompressed bytes the upload may contain
+ */
+export function createZipBudget(maxEntries: number, maxBytes: number): ZipBudget {
+  return { entriesLeft: maxEntries, bytesLeft: maxBytes, exhausted: null };
+}
+
+/**
+ * Take one file of the given size from a budget.
+ *
+ * @returns false (and marks the budget exhausted) when it does not fit
+ */
+export function chargeZipBudget(budget: ZipBudget, bytes: number): boolean {
+  if (budget.entriesLeft < 1) {
+    budget.exhausted = 'entries';
+    return false;
+  }
+  if (bytes > budget.bytesLeft) {
+    budget.exhausted = 'bytes';
+    return false;
+  }
+  budget.entriesLeft--;
+  budget.bytesLeft -= bytes;
+  return true;
+}
+
+/**
+ * Error message for an exhausted budget
+ */
+export function zipBudgetMessage(budget: ZipBudget): string {
+  return budget.exhausted === 'entries' ? 'Upload contains too many files' : 'Upload is too large once unpacked';
+}
+
+/**
+ * Read all file entries from a ZIP archive.
+ * Directory entries and macOS resource forks (__MACOSX/, ._*) are skipped.
+ *
+ * @param buffer - Complete ZIP archive
+ * @param options.maxEntries - Safety limit on the number of files extracted
+ * @param options.maxEntryBytes - Safety limit on each file's uncompressed size
+ * @param options.budget - Limit shared with other archives of the same upload,
+ *   charged for every extracted file; extraction stops as soon as it runs out
+ * @returns Extracted files with their archive paths
+ * @throws Error if the archive is malformed, too large or uses unsupported features
+ */
+export function readZipEntries(
+  buffer: Buffer,
+  options: { maxEntries?: number; maxEntryBytes?: number; budget?: ZipBudget } = {},
+): ZipEntry[] {
+  const maxEntries = options.maxEntries ?? 1000;
+  const maxEntryBytes = options.maxEntryBytes ?? 25 * 1024 * 1024;
+  const budget = options.budget;
+
+  // End of central directory record is at least 22 bytes, followed by an optional comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Invalid ZIP archive: end of central directory not found');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const baseName = name.split('/').pop() || '';
+    if (name.endsWith('/') || name.startsWith('__MACOSX/') || baseName.startsWith('._')) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Encrypted ZIP entries are not supported (${name})`);
+    }
+    if (entries.length >= maxEntries) {
+      throw new Error(`ZIP archive contains more than ${maxEntries} files`);
+    }
+
+    if (uncompressedSize > maxEntryBytes) {
+      throw new Error(`ZIP entry ${name} exceeds the ${Math.round(maxEntryBytes / 1024 / 1024)}MB limit`);
+    }
+    if (budget && !chargeZipBudget(budget, uncompressedSize)) {
+      throw new Error(zipBudgetMessage(budget));
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new Error(`Invalid ZIP archive: missing local header for ${name}`);
+    }
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    // The declared size was charged up front; never inflate past it, so a
+    // header that understates its entry cannot get around the limits
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = Buffer.from(compressed);
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        data = inflateRawSync(compressed, { maxOutputLength: Math.max(1, uncompressedSize) });
+      } catch {
+        throw new Error(`Invalid ZIP archive: ${name} does not match its declared size`);
+      }
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} (${name})`);
+    }
+    if (data.length !== uncompressedSize) {
+      throw new Error(`Invalid ZIP archive: ${name} does not match its declared size`);
+    }
+
+    entries.push({ name, data });
+  }
+
+  return entries;
+}
@@ -0,0 +1,378 @@
+/**
+ * Attention Checks for SciBLIND Pair Studies
+ *
+ * Besides response-time flags, a study can test its evaluators with two kinds
+ * of check pairs, injected by next-pair between real pairs:
+ * - gold: an admin-defined pair with a known correct answer (GoldPair),
+ *   shown after every Study.goldCheckInterval votes in a category
+ * - repeat: a pair the session already voted on, shown again with the sides
+ *   swapped after every Study.repeatCheckInterval votes; passing means the
+ *   same item was picked again
+ *
+ * A served check is stored as a pending AttentionCheck row, and the vote
+ * route answers it instead of recording a comparison, so checks never reach
+ * ratings, rankings, replays or pair exposure. To the participant a check
+ * looks like any other pair.
+ *
+ * Each answer updates Session.qualityScore, the share of checks passed. With
+ * Study.minQualityScore set, a session falling below it after
+ * Study.minQualityChecks answers is flagged "low_quality", and its later
+ * votes are flagged too (so excludeFlaggedFromElo keeps them out of Elo).
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { isValidCuid, sanitizeString } from '@/lib/security/validation';
+
+export const ATTENTION_CHECK_KINDS = ['gold', 'repeat'] as const;
+
+export type AttentionCheckKind = (typeof ATTENTION_CHECK_KINDS)[number];
+
+/** Session and comparison flagReason for evaluators failing attention checks */
+export const LOW_QUALITY_FLAG = 'low_quality';
+
+/** Votes between a pair and its repeat, so the repeat isn't answered from short-term memory */
+export const REPEAT_MIN_GAP = 5;
+
+/** Gold pairs accepted per request */
+export const MAX_GOLD_PAIRS_PER_REQUEST = 100;
+
+const MAX_GOLD_NOTE_LENGTH = 500;
+
+export interface AttentionCheckSettings {
+  goldCheckInterval: number | null;
+  repeatCheckInterval: number | null;
+  minQualityScore: number | null;
+  minQualityChecks: number;
+}
+
+export interface GoldPairCandidate {
+  id: string;
+  itemAId: string;
+  itemBId: string;
+  correctItemId: string;
+}
+
+export interface RepeatCandidate {
+  id: string;
+  itemAId: string;
+  itemBId: string;
+  winnerId: string | null;
+  leftItemId: string;
+  rightItemId: string;
+}
+
+export interface GoldPairInput {
+  itemAId: string;
+  itemBId: string;
+  correctItemId: string;
+  note: string | null;
+}
+
+export interface AttentionCheckPair {
+  kind: AttentionCheckKind;
+  sourceId: string;
+  itemAId: string;
+  itemBId: string;
+  leftItemId: string;
+  rightItemId: string;
+  expectedWinnerId: string;
+}
+
+/**
+ * Validate gold pairs from an admin request body
+ *
+ * @param body - `{ pairs: [{ itemAId, itemBId, correctItemId, note? }] }`
+ * @returns Validation result with the pairs
+ */
+export function parseGoldPairs(body: unknown): { valid: boolean; data?: GoldPairInput[]; error?: string } {
+  const pairs = (body as { pairs?: unknown } | null)?.pairs;
+  if (!Array.isArray(pairs) || pairs.length === 0) {
+    return { valid: false, error: 'pairs must be a non-empty array' };
+  }
+  if (pairs.length > MAX_GOLD_PAIRS_PER_REQUEST) {
+    return { valid: false, error: `At most ${MAX_GOLD_PAIRS_PER_REQUEST} gold pairs per request` };
+  }
+
+  const data: GoldPairInput[] = [];
+  for (const [index, pair] of pairs.entries()) {
+    const { itemAId, itemBId, correctItemId, note } = (pair ?? {}) as Record<string, unknown>;
+    if (!isValidCuid(itemAId) || !isValidCuid(itemBId) || itemAId === itemBId) {
+      return { valid: false, error: `pairs[${index}]: itemAId and itemBId must be two different item IDs` };
+    }
+    if (correctItemId !== itemAId && correctItemId !== itemBId) {
+      return { valid: false, error: `pairs[${index}]: correctItemId must be itemAId or itemBId` };
+    }
+    data.push({ itemAId, itemBId, correctItemId, note: sanitizeString(note, MAX_GOLD_NOTE_LENGTH) });
+  }
+  return { valid: true, data };
+}
+
+/**
+ * Whether a study injects any attention checks
+ */
+export function usesAttentionChecks(settings: Pick<AttentionCheckSettings, 'goldCheckInterval' | 'repeatCheckInterval'>): boolean {
+  return !!settings.goldCheckInterval || !!settings.repeatCheckInterval;
+}
+
+/**
+ * Which checks are due
+ *
+ * A kind is due once the votes made reach the next multiple of its interval
+ * not yet covered by a served check.
+ *
+ * @param settings - Study check intervals
+ * @param voteCount - Real votes of the session in this category
+ * @param served - Checks already served in this category, by kind
+ * @returns Due kinds, gold first
+ */
+export function dueCheckKinds(
+  settings: Pick<AttentionCheckSettings, 'goldCheckInterval' | 'repeatCheckInterval'>,
+  voteCount: number,
+  served: Record<AttentionCheckKind, number>
+): AttentionCheckKind[] {
+  return ATTENTION_CHECK_KINDS.filter((kind) => {
+    const interval = kind === 'gold' ? settings.goldCheckInterval : settings.repeatCheckInterval;
+    return !!interval && interval > 0 && Math.floor(voteCount / interval) > served[kind];
+  });
+}
+
+/**
+ * Pick a gold pair the session hasn't seen, with both items in play
+ *
+ * @param goldPairs - The study's gold pairs
+ * @param itemIds - Items of the current category
+ * @param shownIds - Gold pairs already shown to the session
+ * @returns Check pair with random sides, or null when none is left
+ */
+export function pickGoldCheck(
+  goldPairs: GoldPairCandidate[],
+  itemIds: Set<string>,
+  shownIds: Set<string>
+): AttentionCheckPair | null {
+  const candidates = goldPairs.filter(
+    (gold) => !shownIds.has(gold.id) && itemIds.has(gold.itemAId) && itemIds.has(gold.itemBId)
+  );
+  if (candidates.length === 0) return null;
+
+  const gold = candidates[Math.floor(Math.random() * candidates.length)];
+  const leftFirst = Math.random() < 0.5;
+  return {
+    kind: 'gold',
+    sourceId: gold.id,
+    itemAId: gold.itemAId,
+    itemBId: gold.itemBId,
+    leftItemId: leftFirst ? gold.itemAId : gold.itemBId,
+    rightItemId: leftFirst ? gold.itemBId : gold.itemAId,
+    expectedWinnerId: gold.correctItemId,
+  };
+}
+
+/**
+ * Pick an earlier vote of the session to repeat with the sides swapped
+ *
+ * Only votes with a preference, at least REPEAT_MIN_GAP votes back and not
+ * repeated before qualify; the oldest goes first.
+ *
+ * @param sessionComparisons - Session votes in this category, oldest first
+ * @param repeatedIds - Comparisons already repeated
+ * @returns Check pair, or null when no vote qualifies
+ */
+export function pickRepeatCheck(
+  sessionComparisons: RepeatCandidate[],
+  repeatedIds: Set<string>
+): AttentionCheckPair | null {
+  const eligible = sessionComparisons.slice(0, Math.max(0, sessionComparisons.length - REPEAT_MIN_GAP));
+  const source = eligible.find((comp) => comp.winnerId !== null && !repeatedIds.has(comp.id));
+  if (!source) return null;
+
+  return {
+    kind: 'repeat',
+    sourceId: source.id,
+    itemAId: source.itemAId,
+    itemBId: source.itemBId,
+    leftItemId: source.rightItemId,
+    rightItemId: source.leftItemId,
+    expectedWinnerId: source.winnerId!,
+  };
+}
+
+/**
+ * Session quality score: the share of answered checks passed
+ *
+ * @param answers - Answered checks
+ * @returns Score in [0, 1], or null without answers
+ */
+export function calculateQualityScore(answers: { passed: boolean | null }[]): number | null {
+  if (answers.length === 0) return null;
+  return answers.filter((answer) => answer.passed).length / answers.length;
+}
+
+/**
+ * Whether a session's score is low enough to flag it
+ *
+ * @param score - Session.qualityScore
+ * @param answered - Checks the session answered
+ * @param settings - Study quality thresholds
+ */
+export function isLowQuality(
+  score: number | null,
+  answered: number,
+  settings: Pick<AttentionCheckSettings, 'minQualityScore' | 'minQualityChecks'>
+): boolean {
+  return (
+    score !== null &&
+    settings.minQualityScore !== null &&
+    answered >= settings.minQualityChecks &&
+    score < settings.minQualityScore
+  );
+}
+
+// ===== Database =====
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * The check to show a session next, if one is pending or due
+ *
+ * A pending (unanswered) check is shown again, e.g. after a reload, so a
+ * participant can't skip it. Otherwise a due check is created.
+ *
+ * @param db - Prisma client
+ * @param input - Session, category, its items and the session's votes there (oldest first)
+ * @returns Pending AttentionCheck row, or null to show a regular pair
+ */
+export async function nextAttentionCheck(
+  db: Db,
+  input: {
+    studyId: string;
+    sessionId: string;
+    categoryId: string | null;
+    settings: AttentionCheckSettings;
+    itemIds: string[];
+    sessionComparisons: RepeatCandidate[];
+  }
+) {
+  if (!usesAttentionChecks(input.settings)) return null;
+
+  const served = await db.attentionCheck.findMany({
+    where: { sessionId: input.sessionId, categoryId: input.categoryId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const pending = served.find((check) => check.answeredAt === null);
+  if (pending) return pending;
+
+  const counts = { gold: 0, repeat: 0 };
+  for (const check of served) counts[check.kind as AttentionCheckKind]++;
+
+  // A due kind with nothing left to show (e.g. no unseen gold pairs) gives way to the next
+  let pair: AttentionCheckPair | null = null;
+  for (const kind of dueCheckKinds(input.settings, input.sessionComparisons.length, counts)) {
+    const shownSources = new Set(served.filter((check) => check.kind === kind).map((check) => check.sourceId));
+    if (kind === 'gold') {
+      const goldPairs = await db.goldPair.findMany({
+        where: { studyId: input.studyId, ...(input.categoryId ? { categoryId: input.categoryId } : {}) },
+        select: { id: true, itemAId: true, itemBId: true, correctItemId: true },
+      });
+      pair = pickGoldCheck(goldPairs, new Set(input.itemIds), shownSources);
+    } else {
+      pair = pickRepeatCheck(input.sessionComparisons, shownSources);
+    }
+    if (pair) break;
+  }
+  if (!pair) return null;
+
+  return db.attentionCheck.create({
+    data: {
+      studyId: input.studyId,
+      sessionId: input.sessionId,
+      categoryId: input.categoryId,
+      ...pair,
+    },
+  });
+}
+
+/**
+ * The pending check a pair vote answers, or the check an earlier POST with
+ * the same idempotency key answered
+ *
+ * @returns The check and whether it was already answered by this key
+ */
+export async function findAttentionCheckForVote(
+  db: Db,
+  input: { sessionId: string; itemAId: string; itemBId: string; idempotencyKey?: string }
+) {
+  if (input.idempotencyKey) {
+    const answered = await db.attentionCheck.findUnique({
+      where: { sessionId_idempotencyKey: { sessionId: input.sessionId, idempotencyKey: input.idempotencyKey } },
+    });
+    if (answered) return { check: answered, replayed: true };
+  }
+
+  const pending = await db.attentionCheck.findFirst({
+    where: {
+      sessionId: input.sessionId,
+      answeredAt: null,
+      OR: [
+        { itemAId: input.itemAId, itemBId: input.itemBId },
+        { itemAId: input.itemBId, itemBId: input.itemAId },
+      ],
+    },
+  });
+  return pending ? { check: pending, replayed: false } : null;
+}
+
+/**
+ * Record the answer to a pending check and update the session's quality
+ * score (and low-quality flag). Must run inside runVoteTransaction.
+ *
+ * @returns Whether the check passed, the new score and whether the session is now flagged;
+ *          null if the check was answered concurrently
+ */
+export async function recordAttentionCheckAnswer(
+  tx: Prisma.TransactionClient,
+  input: {
+    checkId: string;
+    sessionId: string;
+    winnerId: string | null;
+    responseTimeMs?: number;
+    idempotencyKey?: string;
+    settings: AttentionCheckSettings;
+  }
+): Promise<{ passed: boolean; qualityScore: number | null; flagged: boolean } | null> {
+  const check = await tx.attentionCheck.findUnique({ where: { id: input.checkId } });
+  if (!check || check.answeredAt !== null) return null;
+
+  const passed = input.winnerId === check.expectedWinnerId;
+  await tx.attentionCheck.update({
+    where: { id: check.id },
+    data: {
+      winnerId: input.winnerId,
+      passed,
+      responseTimeMs: input.responseTimeMs ?? null,
+      answeredAt: new Date(),
+      idempotencyKey: input.idempotencyKey ?? null,
+    },
+  });
+
+  const answers = await tx.attentionCheck.findMany({
+    where: { sessionId: input.sessionId, answeredAt: { not: null } },
+    select: { passed: true },
+  });
+  const qualityScore = calculateQualityScore(answers);
+  const session = await tx.session.findUnique({
+    where: { id: input.sessionId },
+    select: { isFlagged: true, flagReason: true },
+  });
+  const flagged = !session?.isFlagged && isLowQuality(qualityScore, answers.length, input.settings);
+
+  await tx.session.update({
+    where: { id: input.sessionId },
+    data: {
+      qualityScore,
+      ...(flagged ? { isFlagged: true, flagReason: LOW_QUALITY_FLAG } : {}),
+    },
+  });
+
+  return { passed, qualityScore, flagged };
+}
@@ -0,0 +1,126 @@
+/**
+ * Ranking and Best-Worst Votes for SciBLIND
+ *
+ * Besides pairs and quads, a study can show a set of Study.choiceSetSize
+ * items (4-6) and ask for:
+ * - ranking: drag the items into an order, best first. A partial ranking
+ *   (only the top few) is allowed; unlisted items rank below the listed ones.
+ * - best-worst: pick the best and the worst item (best-worst scaling).
+ *
+ * A vote is stored as pairwise comparison rows sharing a choiceGroupId:
+ * every ranked item beats every item below it (full rank-breaking), and in
+ * best-worst votes the best item beats all others and every other item
+ * beats the worst. Elo and Glicko-2 update from these rows; the Plackett-Luce
+ * fit (see buildChoiceObservations) reads the group back as one ranking or
+ * best-worst choice.
+ */
+
+export const CHOICE_SET_MODES = ['ranking', 'best-worst'] as const;
+
+export type ChoiceSetMode = (typeof CHOICE_SET_MODES)[number];
+
+export const MIN_CHOICE_SET_SIZE = 4;
+export const MAX_CHOICE_SET_SIZE = 6;
+export const DEFAULT_CHOICE_SET_SIZE = 4;
+
+/** algoVersion of ranking votes */
+export const RANKING_ENGINE_VERSION = 'sciblind-v2-ranking';
+
+/** algoVersion of best-worst votes */
+export const BEST_WORST_ENGINE_VERSION = 'sciblind-v2-best-worst';
+
+export interface ChoiceSetVote {
+  /** Items in order, best first (best-worst: just the best item) */
+  ranking: string[];
+  /** Best-worst: the item picked as worst */
+  worstId: string | null;
+}
+
+/**
+ * Whether a comparison mode shows a set of items to rank or pick best and worst from
+ */
+export function isChoiceSetMode(mode: unknown): mode is ChoiceSetMode {
+  return typeof mode === 'string' && (CHOICE_SET_MODES as readonly string[]).includes(mode);
+}
+
+/**
+ * Whether a comparison mode stores votes as grouped choices, fit with Plackett-Luce
+ */
+export function usesGroupedChoices(mode: string): boolean {
+  return mode === 'quad' || isChoiceSetMode(mode);
+}
+
+/**
+ * algoVersion stored on the rows of a ranking or best-worst vote
+ */
+export function choiceSetEngineVersion(mode: ChoiceSetMode): string {
+  return mode === 'ranking' ? RANKING_ENGINE_VERSION : BEST_WORST_ENGINE_VERSION;
+}
+
+/**
+ * Validate a ranking or best-worst submission against the items shown
+ *
+ * @param mode - Study.comparisonMode
+ * @param itemIds - Items shown together
+ * @param body - Request body with `ranking` (ranking) or `bestId`/`worstId` (best-worst)
+ * @returns Validation result with the vote
+ */
+export function parseChoiceSetVote(
+  mode: ChoiceSetMode,
+  itemIds: string[],
+  body: { ranking?: unknown; bestId?: unknown; worstId?: unknown }
+): { valid: boolean; data?: ChoiceSetVote; error?: string } {
+  if (mode === 'best-worst') {
+    const { bestId, worstId } = body;
+    if (typeof bestId !== 'string' || !itemIds.includes(bestId)) {
+      return { valid: false, error: 'bestId must be one of the shown items' };
+    }
+    if (typeof worstId !== 'string' || !itemIds.includes(worstId)) {
+      return { valid: false, error: 'worstId must be one of the shown items' };
+    }
+    if (bestId === worstId) {
+      return { valid: false, error: 'bestId and worstId must differ' };
+    }
+    return { valid: true, data: { ranking: [bestId], worstId } };
+  }
+
+  const { ranking } = body;
+  if (!Array.isArray(ranking) || ranking.length === 0) {
+    return { valid: false, error: 'ranking must list at least one item' };
+  }
+  if (!ranking.every((id) => typeof id === 'string' && itemIds.includes(id))) {
+    return { valid: false, error: 'ranking may only contain the shown items' };
+  }
+  if (new Set(ranking).size !== ranking.length) {
+    return { valid: false, error: 'ranking must not repeat items' };
+  }
+  return { valid: true, data: { ranking: ranking as string[], worstId: null } };
+}
+
+/**
+ * Break a ranking or best-worst vote into pairwise wins
+ *
+ * @param itemIds - Items shown together
+ * @param vote - Ranking (best first) and optional worst pick
+ * @returns [winnerId, loserId] pairs, each pair of items at most once
+ */
+export function decomposeChoiceSetVote(itemIds: string[], vote: ChoiceSetVote): [string, string][] {
+  const outcomes: [string, string][] = [];
+  const below = itemIds.filter((id) => !vote.ranking.includes(id));
+
+  // Ranked items beat every item ranked below them and every unranked item
+  vote.ranking.forEach((winnerId, index) => {
+    for (const loserId of [...vote.ranking.slice(index + 1), ...below]) {
+      outcomes.push([winnerId, loserId]);
+    }
+  });
+
+  // Unranked items beat the worst pick
+  if (vote.worstId) {
+    for (const id of below) {
+      if (id !== vote.worstId) outcomes.push([id, vote.worstId]);
+    }
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,495 @@
+/**
+ * Vote Recording for SciBLIND
+ *
+ * Records pairwise and quad votes race-free:
+ * - Every vote runs in a SERIALIZABLE transaction that re-reads the items
+ *   and session, so concurrent votes on the same item can never overwrite
+ *   each other's rating. Postgres aborts the loser of a conflict, and
+ *   runVoteTransaction retries it against the fresh values.
+ * - An optional client-generated idempotency key makes retried POSTs safe:
+ *   if a comparison with the same (sessionId, idempotencyKey) exists, the
+ *   original result is returned and nothing is counted twice.
+ *
+ * Pair votes may carry no preference or a graded preference (see
+ * voting/responses.ts): both items' ratings move by the winner's score, and a
+ * tie counts towards neither item's wins nor losses.
+ *
+ * Quad, ranking and best-worst votes are stored as pairwise wins sharing a
+ * choiceGroupId (recordChoiceVote).
+ *
+ * Real (non-test) votes also bump the global PairExposure counters in the
+ * same transaction, so matchmaking can read cross-session exposure cheaply.
+ *
+ * The API routes validate the request and session; these functions only
+ * touch the database inside the transaction.
+ */
+
+import crypto from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { calculateEloChange, calculateAdaptiveK } from '@/lib/ranking/elo';
+import { calculateGlicko2Change, updateGlicko2, type GlickoRating } from '@/lib/ranking/glicko2';
+import { pairOutcome } from './responses';
+
+/** Retries after a serialization failure before giving up */
+export const VOTE_TRANSACTION_MAX_RETRIES = 5;
+
+const RETRY_BASE_DELAY_MS = 20;
+const RETRY_MAX_DELAY_MS = 500;
+
+const ITEM_STATS_SELECT = {
+  id: true,
+  eloRating: true,
+  eloGames: true,
+  comparisonCount: true,
+  winCount: true,
+  lossCount: true,
+  leftCount: true,
+  rightCount: true,
+  glickoRating: true,
+  glickoRd: true,
+  glickoVolatility: true,
+} as const;
+
+type ItemStats = Prisma.ItemGetPayload<{ select: typeof ITEM_STATS_SELECT }>;
+
+export interface VoteContext {
+  studyId: string;
+  sessionId: string;
+  categoryId: string | null;
+  responseTimeMs?: number;
+  isFlagged: boolean;
+  flagReason: string | null;
+  isTestSession: boolean;
+  /** Whether this vote changes Elo (false for flagged votes when excludeFlaggedFromElo) */
+  updateElo: boolean;
+  /** Whether this vote changes Glicko-2 ratings (GLICKO2 studies, same flag rule as Elo) */
+  updateGlicko?: boolean;
+  /** Glicko-2 system constant τ (defaults to GLICKO2_DEFAULT_TAU) */
+  glickoTau?: number;
+  kFactor: number;
+  adaptiveK: boolean;
+  idempotencyKey?: string;
+  /** Engine and matchmaking strategy, see formatAlgoVersion (defaults to the bare engine) */
+  algoVersion?: string;
+}
+
+export interface PairVoteInput extends VoteContext {
+  itemAId: string;
+  itemBId: string;
+  /** null = no preference */
+  winnerId: string | null;
+  /** Graded responses: 1 = slightly, 2 = much better (null = plain choice) */
+  preferenceStrength?: number | null;
+  leftItemId: string;
+  rightItemId: string;
+}
+
+export interface QuadVoteInput extends VoteContext {
+  /** All 4 item IDs */
+  itemIds: string[];
+  winnerId: string;
+  /** Display order, for left/right derivation */
+  positions: string[];
+}
+
+export interface ChoiceVoteInput extends VoteContext {
+  /** All items shown together */
+  itemIds: string[];
+  /** Display order, for left/right derivation */
+  positions: string[];
+  /** [winnerId, loserId] pairs, e.g. from decomposeChoiceSetVote */
+  outcomes: [string, string][];
+  algoVersion: string;
+}
+
+/** The part of PrismaClient used to open vote transactions */
+export interface VoteTransactionRunner {
+  $transaction<T>(
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    options?: { isolationLevel?: Prisma.TransactionIsolationLevel; maxWait?: number; timeout?: number }
+  ): Promise<T>;
+}
+
+export type VoteRecordResult =
+  | { status: 'recorded'; comparisonIds: string[]; sessionComparisonCount: number }
+  | { status: 'replayed'; comparisonIds: string[]; sessionComparisonCount: number }
+  | { status: 'duplicate' };
+
+// ===== Transaction handling =====
+
+function errorCode(error: unknown): string | undefined {
+  if (error && typeof error === 'object' && 'code' in error) {
+    return String((error as { code: unknown }).code);
+  }
+  return undefined;
+}
+
+/**
+ * Whether a transaction failed because of a concurrent conflict and can be retried.
+ * Covers serialization failures/deadlocks (P2034) and concurrent inserts of the
+ * same idempotency key (P2002), which resolve to a replay on retry.
+ */
+export function isRetryableVoteError(error: unknown): boolean {
+  const code = errorCode(error);
+  if (code === 'P2034') return true;
+  if (code === 'P2002') {
+    const target = (error as { meta?: { target?: unknown } }).meta?.target;
+    return JSON.stringify(target ?? '').includes('idempotencyKey');
+  }
+  return false;
+}
+
+/**
+ * Run a vote transaction at SERIALIZABLE isolation, retrying on conflicts
+ * with jittered exponential backoff.
+ *
+ * @param client - Prisma client
+ * @param fn - Transaction body (must be safe to re-run)
+ * @param maxRetries - Retries before the conflict error is rethrown
+ */
+export async function runVoteTransaction<T>(
+  client: VoteTransactionRunner,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  maxRetries: number = VOTE_TRANSACTION_MAX_RETRIES
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await client.$transaction(fn, {
+        isolationLevel: 'Serializable',
+        maxWait: 5000,
+        timeout: 10000,
+      });
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableVoteError(error)) throw error;
+      const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt) * (0.5 + Math.random());
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// ===== Shared steps =====
+
+/**
+ * Load the session's current stats and check for an earlier attempt of the same vote
+ */
+async function loadSessionState(tx: Prisma.TransactionClient, input: VoteContext) {
+  const session = await tx.session.findUnique({
+    where: { id: input.sessionId },
+    select: { comparisonCount: true, avgResponseTimeMs: true, isFlagged: true, flagReason: true },
+  });
+  if (!session) {
+    throw new Error(`Session ${input.sessionId} disappeared during vote`);
+  }
+
+  const previous = input.idempotencyKey
+    ? await tx.comparison.findFirst({
+        where: { sessionId: input.sessionId, idempotencyKey: input.idempotencyKey },
+        select: { id: true },
+      })
+    : null;
+
+  return { session, previous };
+}
+
+/**
+ * Load items by ID with their current stats as seen by the transaction
+ */
+async function loadItems(tx: Prisma.TransactionClient, ids: string[]): Promise<Map<string, ItemStats>> {
+  const items = await tx.item.findMany({
+    where: { id: { in: ids } },
+    select: ITEM_STATS_SELECT,
+  });
+  return new Map(items.map((item) => [item.id, item]));
+}
+
+function glickoOf(item: ItemStats): GlickoRating {
+  return { rating: item.glickoRating, rd: item.glickoRd, volatility: item.glickoVolatility };
+}
+
+function glickoData(rating: GlickoRating) {
+  return { glickoRating: rating.rating, glickoRd: rating.rd, glickoVolatility: rating.volatility };
+}
+
+function effectiveK(input: VoteContext, winner: ItemStats, loser: ItemStats): number {
+  return input.adaptiveK
+    ? calculateAdaptiveK(input.kFactor, winner.eloGames, loser.eloGames)
+    : input.kFactor;
+}
+
+/**
+ * Count one more real comparison of each pair in the global exposure aggregate
+ */
+async function bumpPairExposure(
+  tx: Prisma.TransactionClient,
+  input: VoteContext,
+  pairs: [string, string][]
+): Promise<void> {
+  for (const pair of pairs) {
+    const [itemLowId, itemHighId] = [...pair].sort();
+    await tx.pairExposure.upsert({
+      where: { itemLowId_itemHighId: { itemLowId, itemHighId } },
+      create: { studyId: input.studyId, categoryId: input.categoryId, itemLowId, itemHighId, count: 1 },
+      update: { count: { increment: 1 } },
+    });
+  }
+}
+
+/**
+ * Update session stats and usage metrics after recording `added` comparisons
+ */
+async function finishVote(
+  tx: Prisma.TransactionClient,
+  input: VoteContext,
+  session: { comparisonCount: number; avgResponseTimeMs: number | null; isFlagged: boolean; flagReason: string | null },
+  added: number
+): Promise<number> {
+  // Usage metrics (only for real sessions)
+  if (!input.isTestSession) {
+    for (let i = 0; i < added; i++) {
+      await tx.usageMetrics.create({
+        data: { studyId: input.studyId, eventType: 'COMPARISON', count: 1 },
+      });
+    }
+  }
+
+  // Session stats (for both test and real sessions - for UI progress)
+  const newComparisonCount = session.comparisonCount + added;
+  const responseTimeMs = input.responseTimeMs;
+  const validResponseTime = responseTimeMs !== undefined && responseTimeMs > 0;
+  const newAvgResponseTime =
+    validResponseTime && session.avgResponseTimeMs
+      ? Math.round(
+          (session.avgResponseTimeMs * session.comparisonCount + responseTimeMs) / newComparisonCount
+        )
+      : validResponseTime
+        ? responseTimeMs
+        : session.avgResponseTimeMs;
+
+  await tx.session.update({
+    where: { id: input.sessionId },
+    data: {
+      comparisonCount: newComparisonCount,
+      avgResponseTimeMs: newAvgResponseTime,
+      isFlagged: session.isFlagged || input.isFlagged,
+      flagReason: session.flagReason || input.flagReason,
+    },
+  });
+
+  return newComparisonCount;
+}
+
+// ===== Vote recording =====
+
+/**
+ * Record a pairwise vote. Must run inside runVoteTransaction.
+ *
+ * @returns 'recorded', 'replayed' for a repeated idempotency key,
+ *          or 'duplicate' if the session already compared this pair
+ */
+export async function recordPairVote(
+  tx: Prisma.TransactionClient,
+  input: PairVoteInput
+): Promise<VoteRecordResult> {
+  const { session, previous } = await loadSessionState(tx, input);
+  if (previous) {
+    return { status: 'replayed', comparisonIds: [previous.id], sessionComparisonCount: session.comparisonCount };
+  }
+
+  const duplicateCount = await tx.comparison.count({
+    where: {
+      sessionId: input.sessionId,
+      OR: [
+        { itemAId: input.itemAId, itemBId: input.itemBId },
+        { itemAId: input.itemBId, itemBId: input.itemAId },
+      ],
+    },
+  });
+  if (duplicateCount > 0) {
+    return { status: 'duplicate' };
+  }
+
+  const comparison = await tx.comparison.create({
+    data: {
+      studyId: input.studyId,
+      sessionId: input.sessionId,
+      categoryId: input.categoryId,
+      itemAId: input.itemAId,
+      itemBId: input.itemBId,
+      winnerId: input.winnerId,
+      preferenceStrength: input.preferenceStrength ?? null,
+      leftItemId: input.leftItemId,
+      rightItemId: input.rightItemId,
+      responseTimeMs: input.responseTimeMs ?? null,
+      isFlagged: input.isTestSession ? true : input.isFlagged, // Always flag test comparisons
+      flagReason: input.isTestSession ? 'test_session' : input.flagReason,
+      algoVersion: input.algoVersion ?? 'sciblind-v2',
+      idempotencyKey: input.idempotencyKey ?? null,
+    },
+  });
+
+  // Test sessions never touch item stats
+  if (!input.isTestSession) {
+    // For no preference, "winner" is just itemA with a score of 0.5
+    const outcome = pairOutcome(input);
+    const items = await loadItems(tx, [outcome.winnerId, outcome.loserId]);
+    const winner = items.get(outcome.winnerId)!;
+    const loser = items.get(outcome.loserId)!;
+
+    // Flagged votes (with excludeFlaggedFromElo) still count, just without Elo
+    const elo = input.updateElo
+      ? calculateEloChange(winner.eloRating, loser.eloRating, effectiveK(input, winner, loser), outcome.score)
+      : null;
+    const glicko = input.updateGlicko
+      ? calculateGlicko2Change(glickoOf(winner), glickoOf(loser), input.glickoTau, outcome.score)
+      : null;
+
+    for (const [item, isWinner] of [[winner, true], [loser, false]] as const) {
+      await tx.item.update({
+        where: { id: item.id },
+        data: {
+          ...(glicko ? glickoData(isWinner ? glicko.winner : glicko.loser) : {}),
+          eloRating: elo ? (isWinner ? elo.winnerNewRating : elo.loserNewRating) : item.eloRating,
+          eloGames: elo ? item.eloGames + 1 : item.eloGames,
+          comparisonCount: item.comparisonCount + 1,
+          winCount: isWinner && !outcome.tie ? item.winCount + 1 : item.winCount,
+          lossCount: isWinner || outcome.tie ? item.lossCount : item.lossCount + 1,
+          leftCount: input.leftItemId === item.id ? item.leftCount + 1 : item.leftCount,
+          rightCount: input.rightItemId === item.id ? item.rightCount + 1 : item.rightCount,
+        },
+      });
+    }
+
+    await bumpPairExposure(tx, input, [[input.itemAId, input.itemBId]]);
+  }
+
+  const sessionComparisonCount = await finishVote(tx, input, session, 1);
+  return { status: 'recorded', comparisonIds: [comparison.id], sessionComparisonCount };
+}
+
+/**
+ * Record a quad vote (best of 4) as 3 pairwise wins. Must run inside runVoteTransaction.
+ * The rows share a choiceGroupId so the choice can be re-read as one observation.
+ *
+ * All three Elo updates are computed against the ratings before the vote:
+ * the winner accumulates 3 gains, each loser takes 1 loss. Glicko-2 treats
+ * the vote as one rating period: 3 wins for the winner, 1 loss per loser.
+ *
+ * @returns 'recorded', or 'replayed' for a repeated idempotency key
+ */
+export async function recordQuadVote(
+  tx: Prisma.TransactionClient,
+  input: QuadVoteInput
+): Promise<Exclude<VoteRecordResult, { status: 'duplicate' }>> {
+  return recordChoiceVote(tx, {
+    ...input,
+    outcomes: input.itemIds
+      .filter((id) => id !== input.winnerId)
+      .map((loserId): [string, string] => [input.winnerId, loserId]),
+    algoVersion: input.algoVersion ?? 'sciblind-v2-quad',
+  });
+}
+
+/**
+ * Record a vote on a set of items (quad, ranking or best-worst) as pairwise
+ * wins sharing a choiceGroupId. Must run inside runVoteTransaction.
+ *
+ * Like quad votes, every Elo update is computed against the ratings before
+ * the vote and each item's changes are summed; Glicko-2 treats the vote as
+ * one rating period with each item's wins and losses in it.
+ *
+ * @returns 'recorded', or 'replayed' for a repeated idempotency key
+ */
+export async function recordChoiceVote(
+  tx: Prisma.TransactionClient,
+  input: ChoiceVoteInput
+): Promise<Exclude<VoteRecordResult, { status: 'duplicate' }>> {
+  const { session, previous } = await loadSessionState(tx, input);
+  if (previous) {
+    return { status: 'replayed', comparisonIds: [previous.id], sessionComparisonCount: session.comparisonCount };
+  }
+
+  const items = input.isTestSession ? null : await loadItems(tx, input.itemIds);
+
+  const comparisonIds: string[] = [];
+  // Ties the rows together as one choice (see plackett-luce.ts)
+  const choiceGroupId = crypto.randomUUID();
+
+  for (let i = 0; i < input.outcomes.length; i++) {
+    const [winnerId, loserId] = input.outcomes[i];
+    const winnerFirst = input.positions.indexOf(winnerId) < input.positions.indexOf(loserId);
+
+    const comparison = await tx.comparison.create({
+      data: {
+        studyId: input.studyId,
+        sessionId: input.sessionId,
+        categoryId: input.categoryId,
+        itemAId: winnerId,
+        itemBId: loserId,
+        winnerId,
+        leftItemId: winnerFirst ? winnerId : loserId,
+        rightItemId: winnerFirst ? loserId : winnerId,
+        responseTimeMs: i === 0 ? input.responseTimeMs ?? null : null, // Only first gets response time
+        isFlagged: input.isTestSession ? true : input.isFlagged,
+        flagReason: input.isTestSession ? 'test_session' : input.flagReason,
+        algoVersion: input.algoVersion,
+        choiceGroupId,
+        idempotencyKey: i === 0 ? input.idempotencyKey ?? null : null,
+      },
+    });
+    comparisonIds.push(comparison.id);
+  }
+
+  if (items) {
+    // Every change against the pre-vote ratings, summed per item
+    const changes = new Map(
+      input.itemIds.map((id) => [
+        id,
+        { eloDelta: 0, eloGames: 0, comparisons: 0, wins: 0, losses: 0, glickoResults: [] as { opponent: GlickoRating; score: number }[] },
+      ])
+    );
+
+    for (const [winnerId, loserId] of input.outcomes) {
+      const winner = items.get(winnerId)!;
+      const loser = items.get(loserId)!;
+      const winnerChange = changes.get(winnerId)!;
+      const loserChange = changes.get(loserId)!;
+
+      if (input.updateElo) {
+        const elo = calculateEloChange(winner.eloRating, loser.eloRating, effectiveK(input, winner, loser));
+        winnerChange.eloDelta += elo.winnerDelta;
+        loserChange.eloDelta += elo.loserDelta;
+        winnerChange.eloGames++;
+        loserChange.eloGames++;
+      }
+      winnerChange.comparisons++;
+      loserChange.comparisons++;
+      winnerChange.wins++;
+      loserChange.losses++;
+      winnerChange.glickoResults.push({ opponent: glickoOf(loser), score: 1 });
+      loserChange.glickoResults.push({ opponent: glickoOf(winner), score: 0 });
+    }
+
+    for (const [id, change] of changes) {
+      if (change.comparisons === 0) continue;
+      const item = items.get(id)!;
+      const glicko = input.updateGlicko ? updateGlicko2(glickoOf(item), change.glickoResults, input.glickoTau) : null;
+
+      await tx.item.update({
+        where: { id },
+        data: {
+          ...(glicko ? glickoData(glicko) : {}),
+          eloRating: item.eloRating + change.eloDelta,
+          eloGames: item.eloGames + change.eloGames,
+          comparisonCount: item.comparisonCount + change.comparisons,
+          winCount: item.winCount + change.wins,
+          lossCount: item.lossCount + change.losses,
+        },
+      });
+    }
+
+    await bumpPairExposure(tx, input, input.outcomes);
+  }
+
+  const sessionComparisonCount = await finishVote(tx, input, session, input.outcomes.length);
+  return { status: 'recorded', comparisonIds, sessionComparisonCount };
+}
@@ -0,0 +1,124 @@
+/**
+ * Response Scales for SciBLIND Pair Votes
+ *
+ * Study.responseScale decides what a participant can answer in pair mode:
+ * - binary: pick one of the two (default, the original behaviour)
+ * - ties: pick one, or "no preference"
+ * - graded-3: left better / about the same / right better
+ * - graded-5: left much better / left slightly better / about the same /
+ *   right slightly better / right much better
+ *
+ * A vote is stored as Comparison.winnerId (null = no preference) plus
+ * Comparison.preferenceStrength (graded-5 only: 1 = slightly, 2 = much
+ * better). Rating updates and estimators read a stored vote through
+ * pairOutcome, which credits the winner with a score: 1 for a plain or strong
+ * preference, 0.75 for a slight one and 0.5 for no preference (an Elo draw).
+ * Quad votes are always a plain choice of one item.
+ */
+
+export const RESPONSE_SCALES = ['binary', 'ties', 'graded-3', 'graded-5'] as const;
+
+export type ResponseScale = (typeof RESPONSE_SCALES)[number];
+
+export const DEFAULT_RESPONSE_SCALE: ResponseScale = 'binary';
+
+/** Preference strengths on the graded-5 scale */
+export const PREFERENCE_STRENGTH_SLIGHT = 1;
+export const PREFERENCE_STRENGTH_STRONG = 2;
+
+/** Winner's score for a slight preference */
+export const SLIGHT_PREFERENCE_SCORE = 0.75;
+
+export interface VoteResponse {
+  /** Preferred item, or null for no preference */
+  winnerId: string | null;
+  /** Graded-5 only: PREFERENCE_STRENGTH_SLIGHT or PREFERENCE_STRENGTH_STRONG */
+  preferenceStrength: number | null;
+}
+
+export interface StoredPairResponse {
+  itemAId: string;
+  itemBId: string;
+  winnerId: string | null;
+  preferenceStrength?: number | null;
+}
+
+export interface PairOutcome {
+  /** Preferred item (itemA for no preference) */
+  winnerId: string;
+  loserId: string;
+  /** Share of the point credited to winnerId (0.5 to 1) */
+  score: number;
+  /** No preference */
+  tie: boolean;
+}
+
+/**
+ * Whether a value names a response scale
+ */
+export function isResponseScale(value: unknown): value is ResponseScale {
+  return typeof value === 'string' && (RESPONSE_SCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a scale offers "no preference"
+ */
+export function allowsNoPreference(scale: string): boolean {
+  return scale !== 'binary';
+}
+
+/**
+ * Whether a scale asks how strong the preference is
+ */
+export function usesPreferenceStrength(scale: string): boolean {
+  return scale === 'graded-5';
+}
+
+/**
+ * Check a validated vote against the study's response scale
+ *
+ * @param scale - Study.responseScale
+ * @param response - Winner (or null) and preference strength from the request
+ * @returns Error message, or null if the scale allows the response
+ */
+export function checkVoteResponse(scale: string, response: VoteResponse): string | null {
+  if (response.winnerId === null) {
+    if (!allowsNoPreference(scale)) return 'This study requires choosing one of the items';
+    return response.preferenceStrength !== null ? 'preferenceStrength requires a winner' : null;
+  }
+
+  if (usesPreferenceStrength(scale)) {
+    return response.preferenceStrength === null
+      ? 'This study requires a preferenceStrength (1 = slightly, 2 = much better)'
+      : null;
+  }
+  return response.preferenceStrength !== null ? 'This study does not use preferenceStrength' : null;
+}
+
+/**
+ * Winner's score for a stored response
+ *
+ * @param response - Stored winner and preference strength
+ * @returns 0.5 for no preference, 0.75 for a slight preference, 1 otherwise
+ */
+export function winnerScoreOf(response: { winnerId: string | null; preferenceStrength?: number | null }): number {
+  if (response.winnerId === null) return 0.5;
+  return response.preferenceStrength === PREFERENCE_STRENGTH_SLIGHT ? SLIGHT_PREFERENCE_SCORE : 1;
+}
+
+/**
+ * Winner/loser view of a stored pair vote, as consumed by the rating updates
+ * and estimateBradleyTerry
+ *
+ * @param comparison - Stored comparison row
+ * @returns Winner, loser, the winner's score and whether it was a tie
+ */
+export function pairOutcome(comparison: StoredPairResponse): PairOutcome {
+  const winnerId = comparison.winnerId ?? comparison.itemAId;
+  return {
+    winnerId,
+    loserId: winnerId === comparison.itemAId ? comparison.itemBId : comparison.itemAId,
+    score: winnerScoreOf(comparison),
+    tie: comparison.winnerId === null,
+  };
+}
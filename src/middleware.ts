@@ -4,40 +4,24 @@
  * - Adds security headers to all responses
  * - Protects admin routes with authentication
  *
- * Admin auth uses ADMIN_SECRET env var (interim until Keycloak).
- * When Keycloak is integrated, this will validate JWT from auth.scaientist.eu.
+ * Admin requests must carry a valid AdminSession token (cookie or Bearer
+ * header). Routes still check per-study access themselves with
+ * canAccessStudy — the middleware only rejects anonymous requests early.
+ * Runs on the Node.js runtime so sessions can be looked up in the database.
  */
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/security/user-auth';
 
-const ADMIN_SECRET = process.env.ADMIN_SECRET;
-
-function isAdminAuthenticated(request: NextRequest): boolean {
-  if (!ADMIN_SECRET) return false;
-
-  // Check Authorization header: Bearer <secret>
-  const authHeader = request.headers.get('authorization');
-  if (authHeader) {
-    const token = authHeader.replace(/^Bearer\s+/i, '');
-    if (token === ADMIN_SECRET) return true;
-  }
-
-  // Check cookie: sciblind-admin-token
-  const cookieToken = request.cookies.get('sciblind-admin-token')?.value;
-  if (cookieToken === ADMIN_SECRET) return true;
-
-  return false;
-}
-
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // ===== Admin Route Protection =====
 
   // Protect all /api/admin/* routes EXCEPT /api/admin/auth (login endpoint)
   if (pathname.startsWith('/api/admin') && !pathname.startsWith('/api/admin/auth')) {
-    if (!isAdminAuthenticated(request)) {
+    if (!(await getAuthenticatedUser(request))) {
       return NextResponse.json(
         { error: 'Unauthorized. Admin authentication required.', errorKey: 'ADMIN_AUTH_REQUIRED' },
         { status: 401 }
@@ -48,8 +32,10 @@ export function middleware(request: NextRequest) {
   // Protect admin pages — redirect to admin login page
   // Exception: /admin/login itself must be accessible
   if (pathname.startsWith('/admin') && !pathname.startsWith('/admin/login')) {
-    if (!isAdminAuthenticated(request)) {
+    if (!(await getAuthenticatedUser(request))) {
       const loginUrl = new URL('/admin/login', request.url);
+      // Come back here after signing in (e.g. an invitation link)
+      if (pathname !== '/admin') loginUrl.searchParams.set('next', pathname);
       return NextResponse.redirect(loginUrl);
     }
   }
@@ -96,6 +82,7 @@ export function middleware(request: NextRequest) {
 }
 
 export const config = {
+  runtime: 'nodejs',
   matcher: [
     /*
      * Match all request paths except static files and images